@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { migrateStoreData, verifyMigration, cleanupEmbeddedData } from '@/lib/utils/data-migration'
+import { countBrandsWithCredentials, migrateBrandCredentials } from '@/lib/utils/brand-credential-migration'
+import { countUnencryptedTokens, encryptStoredTokens } from '@/lib/utils/token-encryption-migration'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/admin/migrate-data', async (request: NextRequest) => {
   try {
     const { action } = await request.json()
     
@@ -35,10 +38,30 @@ export async function POST(request: NextRequest) {
           message: 'Embedded data cleanup completed'
         })
         
+      case 'migrate-brand-users':
+        
+        const credentialStats = await migrateBrandCredentials()
+        
+        return NextResponse.json({
+          success: true,
+          message: 'Brand credentials moved to user accounts',
+          stats: credentialStats
+        })
+        
+      case 'encrypt-tokens':
+        
+        const tokenStats = await encryptStoredTokens()
+        
+        return NextResponse.json({
+          success: true,
+          message: 'Stored OAuth tokens encrypted with the active key',
+          stats: tokenStats
+        })
+        
       default:
         return NextResponse.json({
           success: false,
-          error: 'Invalid action. Use "migrate", "verify", or "cleanup"'
+          error: 'Invalid action. Use "migrate", "verify", "cleanup", "migrate-brand-users", or "encrypt-tokens"'
         }, { status: 400 })
     }
     
@@ -50,16 +73,18 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
-export async function GET() {
+export const GET = withRouteGuard('GET /api/admin/migrate-data', async () => {
   try {
     const verification = await verifyMigration()
+    const brandsWithCredentials = await countBrandsWithCredentials()
+    const documentsWithPlaintextTokens = await countUnencryptedTokens()
     
     return NextResponse.json({
       success: true,
       message: 'Migration status check completed',
-      data: verification
+      data: { ...verification, brandsWithCredentials, documentsWithPlaintextTokens }
     })
     
   } catch (error) {
@@ -70,4 +95,4 @@ export async function GET() {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { businessInsightsGenerator } from '@/lib/services/business-insights-generator'
 import connectToDatabase from '@/lib/database/connection'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/business-insights', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const { searchParams } = new URL(request.url)
     const storeId = searchParams.get('storeId')
-    const brandId = searchParams.get('brandId')
     const type = searchParams.get('type') || 'store'
     const days = parseInt(searchParams.get('days') || '30') // Analysis period in days (default 30)
     
@@ -19,6 +19,13 @@ export async function GET(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (storeId && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
+
     const entityId = storeId || brandId
     const entityType = type as 'store' | 'brand'
 
@@ -39,5 +46,5 @@ export async function GET(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
 
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { CallReconciliationService } from '@/lib/services/call-reconciliation-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
+
+// Days are bucketed per store, so keep the report to a bounded window
+const MAX_PERIOD_DAYS = 180
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * GET /api/analytics/call-reconciliation
+ *
+ * Per-store daily reconciliation of GMB call clicks vs tracked IVR calls vs
+ * answered calls, with estimated connect rate and lost calls. Stores whose
+ * counts diverge are flagged, which usually means the phone number on the
+ * GMB listing is not the tracking number.
+ * Optional query parameters:
+ * - brandId: Brand to report on (super admins; others always get their own brand)
+ * - storeId: Store id, or comma-separated store ids
+ * - startDate / endDate: Period to reconcile (default: last 30 days)
+ * - timezone: IANA zone tracked calls are bucketed into days in (default: Asia/Kolkata)
+ */
+export const GET = withRouteGuard('GET /api/analytics/call-reconciliation', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const storeId = searchParams.get('storeId')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+    const timezone = searchParams.get('timezone') || undefined
+
+    const storeIds = storeId && storeId !== 'all'
+      ? storeId.split(',').map(id => id.trim()).filter(Boolean)
+      : []
+    if (storeIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store ID' },
+        { status: 400 }
+      )
+    }
+
+    const start = startDate ? new Date(startDate) : undefined
+    const end = endDate ? new Date(endDate) : undefined
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime())) || (start && end && start > end)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date range' },
+        { status: 400 }
+      )
+    }
+    if (start && (end || new Date()).getTime() - start.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { success: false, error: `Date range cannot exceed ${MAX_PERIOD_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid timezone' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    if (storeIds.length > 0 && !(await storesInScope(storeIds, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    const report = await CallReconciliationService.getReconciliation({
+      brandId,
+      storeIds,
+      startDate: start,
+      endDate: end,
+      timezone
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    })
+  } catch (error) {
+    console.error('Error reconciling GMB call clicks:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reconcile call clicks' },
+      { status: 500 }
+    )
+  }
+})
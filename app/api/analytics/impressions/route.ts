@@ -3,8 +3,9 @@ import { connectToDatabase } from '@/lib/database/connection'
 import { Performance } from '@/lib/database/separate-models'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
 import mongoose from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/impressions', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
 
@@ -22,6 +23,10 @@ export async function GET(request: NextRequest) {
 
     // Build query with proper account filtering
     const matchQuery: any = { status: 'active' }
+
+    if (brandId) {
+      matchQuery.brandId = new mongoose.Types.ObjectId(brandId)
+    }
     
     // If specific account requested, use it; otherwise filter by accessible accounts
     if (accountId && accountId !== 'all') {
@@ -107,4 +112,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
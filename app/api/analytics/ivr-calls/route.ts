@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { IVR_LEADERBOARD_SORTS, IvrAnalyticsService, IvrLeaderboardSort } from '@/lib/services/ivr-analytics-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * GET /api/analytics/ivr-calls
+ *
+ * Answer / missed / IVR-drop rates, average ring and conversation durations,
+ * an hour-of-day x weekday heatmap and a per-store leaderboard.
+ * Optional query parameters:
+ * - brandId: Brand to report on (super admins; others always get their own brand)
+ * - storeId: Store id, or comma-separated store ids
+ * - startDate / endDate: Filter on call start time
+ * - timezone: IANA zone for the heatmap (default: Asia/Kolkata)
+ * - sortBy: Leaderboard order, calls | answerRate | missed (default: calls)
+ */
+export const GET = withRouteGuard('GET /api/analytics/ivr-calls', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const storeId = searchParams.get('storeId')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+    const timezone = searchParams.get('timezone') || undefined
+    const sortBy = searchParams.get('sortBy') || undefined
+
+    const storeIds = storeId && storeId !== 'all'
+      ? storeId.split(',').map(id => id.trim()).filter(Boolean)
+      : []
+    if (storeIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store ID' },
+        { status: 400 }
+      )
+    }
+
+    const start = startDate ? new Date(startDate) : undefined
+    const end = endDate ? new Date(endDate) : undefined
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date range' },
+        { status: 400 }
+      )
+    }
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid timezone' },
+        { status: 400 }
+      )
+    }
+
+    if (sortBy && !IVR_LEADERBOARD_SORTS.includes(sortBy as IvrLeaderboardSort)) {
+      return NextResponse.json(
+        { success: false, error: `sortBy must be one of ${IVR_LEADERBOARD_SORTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    if (storeIds.length > 0 && !(await storesInScope(storeIds, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    const analytics = await IvrAnalyticsService.getAnalytics({
+      brandId,
+      storeIds,
+      startDate: start,
+      endDate: end,
+      timezone,
+      sortBy: sortBy as IvrLeaderboardSort | undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: analytics
+    })
+  } catch (error) {
+    console.error('Error fetching IVR call analytics:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch IVR call analytics' },
+      { status: 500 }
+    )
+  }
+})
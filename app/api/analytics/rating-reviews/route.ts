@@ -3,15 +3,22 @@ import connectDB from '@/lib/database/connection'
 import { Store, Review } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
 import mongoose from 'mongoose'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/rating-reviews', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
 
     const { searchParams } = new URL(request.url)
-    const brandId = searchParams.get('brandId')
     const storeId = searchParams.get('storeId')
 
+    if (storeId && storeId !== 'all' && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
     // Get accessible accounts for filtering
     const tokens = await getGmbTokensFromRequest()
     let accessibleAccountIds: string[] = []
@@ -23,8 +30,8 @@ export async function GET(request: NextRequest) {
     // Build query
     const matchQuery: any = { status: 'active' }
     
-    if (brandId && brandId !== 'all') {
-      matchQuery.brandId = brandId
+    if (brandId) {
+      matchQuery.brandId = new mongoose.Types.ObjectId(brandId)
     }
     
     if (storeId && storeId !== 'all') {
@@ -350,7 +357,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Simple sentiment analysis function
 function analyzeSentiment(comment: string, starRating: number): 'positive' | 'negative' | 'neutral' {
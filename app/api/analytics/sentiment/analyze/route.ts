@@ -3,6 +3,7 @@ import { sentimentWorkflow } from '@/lib/services/sentiment-workflow'
 import connectToDatabase from '@/lib/database/connection'
 import { Review } from '@/lib/database/separate-models'
 import mongoose from 'mongoose'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
 // In-memory progress tracking
 const analysisProgress = new Map<string, {
@@ -16,7 +17,7 @@ const analysisProgress = new Map<string, {
   endTime?: number
 }>()
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/analytics/sentiment/analyze', async (request: NextRequest, context, { brandId: scopedBrandId }) => {
   try {
     await connectToDatabase()
     
@@ -29,6 +30,13 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (!brandId && !(await storesInScope(storeId, scopedBrandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
+
     const entityId = brandId || storeId
     const entityType = brandId ? 'brand' : 'store'
     const progressKey = `${entityType}:${entityId}:${days}d`
@@ -67,9 +75,9 @@ export async function POST(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/sentiment/analyze', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const progressKey = searchParams.get('progressKey')
@@ -103,7 +111,7 @@ export async function GET(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
 
 async function analyzeInBackground(
   entityId: string, 
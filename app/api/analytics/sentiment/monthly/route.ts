@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectToDatabase from '@/lib/database/connection'
 import { Review } from '@/lib/database/separate-models'
 import mongoose from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/sentiment/monthly', async (request: NextRequest, context, { brandId: scopedBrandId }) => {
   try {
     await connectToDatabase()
 
@@ -31,6 +32,11 @@ export async function GET(request: NextRequest) {
       gmbCreateTime: { $gte: startDate, $lte: endDate }
     }
 
+    // Store-level requests only see stores of the caller's brand
+    if (scopedBrandId) {
+      matchStage.brandId = new mongoose.Types.ObjectId(scopedBrandId)
+    }
+
     const pipeline = [
       { $match: matchStage },
       {
@@ -115,6 +121,6 @@ export async function GET(request: NextRequest) {
     console.error('Monthly sentiment error:', error)
     return NextResponse.json({ success: false, error: 'Failed to fetch monthly sentiment', details: error.message }, { status: 500 })
   }
-}
+})
 
 
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sentimentWorkflow } from '@/lib/services/sentiment-workflow'
 import connectToDatabase from '@/lib/database/connection'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
 // Simple in-memory cache for API responses
 const responseCache = new Map<string, { data: any; timestamp: number }>()
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/sentiment', async (request: NextRequest, context, { brandId: scopedBrandId }) => {
   try {
     await connectToDatabase()
     
@@ -33,6 +34,13 @@ export async function GET(request: NextRequest) {
         }, { status: 400 })
       }
 
+      if (storeId && !(await storesInScope(storeId, scopedBrandId))) {
+        return NextResponse.json({
+          success: false,
+          error: 'Store not found'
+        }, { status: 404 })
+      }
+
       const entityId = storeId || brandId
       const entityType = type as 'store' | 'brand'
       // Include account and location in cache key to avoid cross-account contamination
@@ -123,9 +131,9 @@ export async function GET(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/analytics/sentiment', async (request: NextRequest, context, { brandId: scopedBrandId }) => {
   try {
     await connectToDatabase()
     
@@ -138,6 +146,16 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    const outOfScope = storeIds?.length > 0
+      ? !(await storesInScope(storeIds, scopedBrandId))
+      : scopedBrandId !== undefined && (brandIds || []).some((brandId: string) => brandId !== scopedBrandId)
+    if (outOfScope) {
+      return NextResponse.json({
+        success: false,
+        error: 'You do not have access to this brand'
+      }, { status: 403 })
+    }
+
     const results = []
     
     if (storeIds && storeIds.length > 0) {
@@ -187,4 +205,4 @@ export async function POST(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
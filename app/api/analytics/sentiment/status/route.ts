@@ -1,20 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sentimentWorkflow } from '@/lib/services/sentiment-workflow'
 import connectToDatabase from '@/lib/database/connection'
-import { getSession } from '@/lib/utils/session'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/sentiment/status', async (request: NextRequest, context, { brandId: scopedBrandId }) => {
   try {
     await connectToDatabase()
     
-    const session = await getSession()
-    if (!session) {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized'
-      }, { status: 401 })
-    }
-
     const { searchParams } = new URL(request.url)
     const brandId = searchParams.get('brandId')
     const storeId = searchParams.get('storeId')
@@ -27,6 +19,13 @@ export async function GET(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (!brandId && !(await storesInScope(storeId!, scopedBrandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
+
     const entityId = brandId || storeId
     const entityType = brandId ? 'brand' : 'store'
     
@@ -60,4 +59,4 @@ export async function GET(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
@@ -2,23 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectToDatabase from '@/lib/database/connection'
 import { Store } from '@/lib/database/models'
 import { Review } from '@/lib/database/separate-models'
-import { getSession } from '@/lib/utils/session'
 import mongoose from 'mongoose'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/analytics/sentiment/stores', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
-    const session = await getSession()
-    if (!session) {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized'
-      }, { status: 401 })
-    }
-
     const { searchParams } = new URL(request.url)
-    const brandId = searchParams.get('brandId')
     const days = parseInt(searchParams.get('days') || '30')
     
     if (!brandId) {
@@ -119,20 +110,12 @@ export async function GET(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/analytics/sentiment/stores', async (request: NextRequest, context, { brandId: scopedBrandId }) => {
   try {
     await connectToDatabase()
     
-    const session = await getSession()
-    if (!session) {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized'
-      }, { status: 401 })
-    }
-
     const { storeIds, brandId, days = 30, force = false } = await request.json()
     
     if (!storeIds || !Array.isArray(storeIds) || storeIds.length === 0) {
@@ -142,6 +125,13 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (!(await storesInScope(storeIds, scopedBrandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'You do not have access to these stores'
+      }, { status: 403 })
+    }
+
     // Start analysis for each store
     const results = []
     
@@ -190,4 +180,4 @@ export async function POST(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { StoreAudit } from '@/lib/database/audit-models'
+import { AUDIT_SEVERITIES, GmbAuditService } from '@/lib/services/gmb-audit-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/audits - Latest store audits with a brand-wide issues summary
+export const GET = withRouteGuard('GET /api/audits', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const query: Record<string, unknown> = {}
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    await connectDB()
+
+    const audits = await StoreAudit.find(query).sort({ score: 1 }).lean()
+
+    const totals = Object.fromEntries(
+      AUDIT_SEVERITIES.map(severity => [severity, audits.reduce((sum, audit) => sum + (audit.counts?.[severity] || 0), 0)])
+    )
+    const averageScore = audits.length > 0
+      ? Math.round(audits.reduce((sum, audit) => sum + audit.score, 0) / audits.length)
+      : null
+    const lastAuditedAt = audits.reduce<Date | null>(
+      (latest, audit) => !latest || audit.auditedAt > latest ? audit.auditedAt : latest,
+      null
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        summary: {
+          storesAudited: audits.length,
+          averageScore,
+          lastAuditedAt,
+          ...totals
+        },
+        stores: audits.map(({ findings, ...audit }) => ({ ...audit, issueCount: findings.length })),
+        issues: GmbAuditService.groupIssues(audits)
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching audits:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audits' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { GmbAuditService } from '@/lib/services/gmb-audit-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/audits/run - Re-run the audit for one store or all active stores of a brand
+export const POST = withRouteGuard('POST /api/audits/run', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const { storeId } = await request.json().catch(() => ({}))
+
+    await connectDB()
+
+    const storeQuery: Record<string, unknown> = {}
+
+    if (storeId) {
+      if (!(await storesInScope(storeId, brandId))) {
+        return NextResponse.json(
+          { success: false, error: 'Store not found' },
+          { status: 404 }
+        )
+      }
+      storeQuery._id = new mongoose.Types.ObjectId(storeId)
+    } else {
+      storeQuery.status = 'active'
+    }
+
+    if (brandId) {
+      storeQuery.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    const audits = await GmbAuditService.auditStores(storeQuery, session.email)
+    if (storeId && audits.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        audited: audits.length,
+        averageScore: audits.length > 0
+          ? Math.round(audits.reduce((sum, audit) => sum + audit.score, 0) / audits.length)
+          : null
+      }
+    })
+
+  } catch (error) {
+    console.error('Error running audit:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run audit' },
+      { status: 500 }
+    )
+  }
+})
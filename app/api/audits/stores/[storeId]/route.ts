@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { StoreAudit } from '@/lib/database/audit-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/audits/stores/[storeId] - Latest audit findings for one store
+export const GET = withRouteGuard('GET /api/audits/stores/[storeId]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ storeId: string }> }
+) => {
+  try {
+    const { storeId } = await params
+
+    await connectDB()
+
+    const audit = await StoreAudit.findOne({ storeId }).lean()
+    if (!audit) {
+      return NextResponse.json(
+        { success: false, error: 'This store has not been audited yet' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: audit
+    })
+
+  } catch (error) {
+    console.error('Error fetching store audit:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch store audit' },
+      { status: 500 }
+    )
+  }
+})
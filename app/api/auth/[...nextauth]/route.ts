@@ -1,5 +1,6 @@
+import { NextRequest } from 'next/server'
 import { handlers } from '@/lib/auth/auth'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export const { GET, POST } = handlers
-
-
+export const GET = withRouteGuard('GET /api/auth/[...nextauth]', async (request: NextRequest) => handlers.GET(request))
+export const POST = withRouteGuard('POST /api/auth/[...nextauth]', async (request: NextRequest) => handlers.POST(request))
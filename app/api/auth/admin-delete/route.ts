@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { User } from '@/lib/database/user-model'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 /**
  * Dev-only endpoint to delete a user by email
  */
-export async function POST(req: NextRequest) {
+export const POST = withRouteGuard('POST /api/auth/admin-delete', async (req: NextRequest) => {
   try {
     if (process.env.NODE_ENV === 'production') {
       return NextResponse.json(
@@ -40,6 +41,6 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 
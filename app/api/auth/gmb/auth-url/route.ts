@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import { googleOAuthServerClient } from '@/lib/server/google-oauth-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET() {
+export const GET = withRouteGuard('GET /api/auth/gmb/auth-url', async () => {
   try {
     const authUrl = googleOAuthServerClient.generateAuthUrl()
     
@@ -15,6 +16,6 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
 
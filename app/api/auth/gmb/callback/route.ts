@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { googleOAuthServerClient } from '@/lib/server/google-oauth-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/auth/gmb/callback', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const code = searchParams.get('code')
@@ -41,4 +42,4 @@ export async function GET(request: NextRequest) {
       `${process.env.NEXTAUTH_URL}/dashboard/overview?error=${encodeURIComponent(errorMessage)}`
     )
   }
-}
+})
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST() {
+export const POST = withRouteGuard('POST /api/auth/gmb/disconnect', async () => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -38,4 +39,4 @@ export async function POST() {
       { status: 500 }
     )
   }
-}
+})
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { refreshAndPersistTokens } from '@/lib/utils/token-refresh'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST() {
+export const POST = withRouteGuard('POST /api/auth/gmb/refresh', async () => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -55,4 +56,4 @@ export async function POST() {
     response.cookies.delete('gmb-tokens')
     return response
   }
-}
+})
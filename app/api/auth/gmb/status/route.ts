@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { googleOAuthServerClient } from '@/lib/server/google-oauth-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET() {
+export const GET = withRouteGuard('GET /api/auth/gmb/status', async () => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -40,4 +41,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
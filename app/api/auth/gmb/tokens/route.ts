@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET() {
+export const GET = withRouteGuard('GET /api/auth/gmb/tokens', async () => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -30,9 +31,9 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/auth/gmb/tokens', async (request: NextRequest) => {
   try {
     const body = await request.json()
     
@@ -84,4 +85,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
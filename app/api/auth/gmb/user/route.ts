@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import { getGmbTokensFromRequest, getCurrentUserProfile } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET() {
+export const GET = withRouteGuard('GET /api/auth/gmb/user', async () => {
   try {
     const tokens = await getGmbTokensFromRequest()
     
@@ -44,4 +45,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server'
 import { clearSession } from '@/lib/utils/session'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST() {
+export const POST = withRouteGuard('POST /api/auth/logout', async () => {
   try {
     await clearSession()
     
@@ -16,7 +17,7 @@ export async function POST() {
       { status: 500 }
     )
   }
-}
+})
 
 
 
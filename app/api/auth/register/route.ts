@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { User } from '@/lib/database/user-model'
-import { requireAuth, requireRole } from '@/lib/utils/session'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/auth/register', async (request: NextRequest, context, { session }) => {
   try {
     await connectDB()
     
@@ -26,21 +26,10 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Check permissions based on role being created
-    let session
-    try {
-      session = await requireAuth()
-    } catch (error) {
+    // Only super_admin can create super admins and owners
+    if ((role === 'super_admin' || role === 'owner') && session.role !== 'super_admin') {
       return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Only super_admin can create owners
-    if (role === 'owner' && session.role !== 'super_admin') {
-      return NextResponse.json(
-        { success: false, error: 'Only super admins can create owner accounts' },
+        { success: false, error: `Only super admins can create ${role === 'owner' ? 'owner' : 'super admin'} accounts` },
         { status: 403 }
       )
     }
@@ -125,4 +114,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,11 +1,12 @@
 import { NextResponse } from 'next/server'
 import { seedSuperAdmin } from '@/lib/utils/seed-super-admin'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 /**
  * API endpoint to seed super admin user
  * For development purposes only - should be disabled in production
  */
-export async function POST() {
+export const POST = withRouteGuard('POST /api/auth/seed-admin', async () => {
   try {
     // Only allow in development
     if (process.env.NODE_ENV === 'production') {
@@ -36,7 +37,7 @@ export async function POST() {
       { status: 500 }
     )
   }
-}
+})
 
 
 
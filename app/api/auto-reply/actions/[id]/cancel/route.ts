@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { AutoReplyService } from '@/lib/services/auto-reply-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// POST /api/auto-reply/actions/[id]/cancel - Stop a queued auto-reply before it is posted
+export const POST = withRouteGuard('POST /api/auto-reply/actions/[id]/cancel', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const action = await AutoReplyService.cancel(id, session.email)
+    if (!action) {
+      return NextResponse.json(
+        { success: false, error: 'Only replies that are still scheduled can be cancelled' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: action
+    })
+
+  } catch (error) {
+    console.error('Error cancelling auto-reply:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel auto-reply' },
+      { status: 500 }
+    )
+  }
+})
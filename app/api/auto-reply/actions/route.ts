@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { AUTO_REPLY_STATUSES, AutoReplyAction, AutoReplyStatus } from '@/lib/database/reply-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+/**
+ * GET /api/auto-reply/actions
+ *
+ * Audit of what the auto-reply rules did, newest first: which rule fired for
+ * which review, and the state of any reply it queued.
+ * Optional query parameters:
+ * - page / limit: Pagination (default: 1 / 20)
+ * - status: scheduled | posting | posted | failed | cancelled | escalated | skipped
+ * - ruleId: Only this rule's actions
+ */
+export const GET = withRouteGuard('GET /api/auto-reply/actions', async (request: NextRequest, context, { brandId }) => {
+  try {
+    await connectDB()
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+    const status = searchParams.get('status')
+    const ruleId = searchParams.get('ruleId')
+
+    const query: Record<string, unknown> = {}
+    if (brandId) query.brandId = brandId
+    if (status && status !== 'all') {
+      if (!AUTO_REPLY_STATUSES.includes(status as AutoReplyStatus)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status' },
+          { status: 400 }
+        )
+      }
+      query.status = status
+    }
+    if (ruleId && mongoose.Types.ObjectId.isValid(ruleId)) query.ruleId = ruleId
+
+    const [actions, totalCount] = await Promise.all([
+      AutoReplyAction.find(query)
+        .populate('reviewId', 'reviewer.displayName starRating comment gmbCreateTime')
+        .populate('storeId', 'name storeCode')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AutoReplyAction.countDocuments(query)
+    ])
+
+    const totalPages = Math.ceil(totalCount / limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        actions,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        }
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching auto-reply actions:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch auto-reply actions' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { AutoReplyService, DEFAULT_DRY_RUN_DAYS } from '@/lib/services/auto-reply-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const DryRunSchema = z.object({
+  days: z.number().int().min(1).max(90, 'Dry runs can cover at most 90 days').default(DEFAULT_DRY_RUN_DAYS)
+})
+
+/**
+ * POST /api/auto-reply/dry-run
+ *
+ * Preview what the brand's active rules would have done with its reviews of
+ * the last `days` days (default 30): which rule fires for each review and the
+ * reply it would post. Nothing is queued or posted.
+ */
+export const POST = withRouteGuard('POST /api/auto-reply/dry-run', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = DryRunSchema.safeParse(body ?? {})
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+    const result = await AutoReplyService.dryRun(brandId, parsed.data.days)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error running auto-reply dry run:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run auto-reply dry run' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { AUTO_REPLY_ACTIONS, AUTO_REPLY_COMMENT_CONDITIONS, AutoReplyRule } from '@/lib/database/reply-models'
+import { AutoReplyService } from '@/lib/services/auto-reply-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const UpdateAutoReplyRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+  conditions: z.object({
+    minRating: z.number().int().min(1).max(5).optional(),
+    maxRating: z.number().int().min(1).max(5).optional(),
+    comment: z.enum(AUTO_REPLY_COMMENT_CONDITIONS).optional(),
+    storeIds: z.array(z.string().trim().min(1)).max(500).optional()
+  }).optional(),
+  action: z.enum(AUTO_REPLY_ACTIONS).optional(),
+  templateId: z.string().trim().min(1).nullable().optional(),
+  delayMinutes: z.number().int().min(0).max(7 * 24 * 60, 'Delay can be at most 7 days').optional()
+})
+
+// GET /api/auto-reply/rules/[id] - Single auto-reply rule
+export const GET = withRouteGuard('GET /api/auto-reply/rules/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const rule = await AutoReplyRule.findById(id).populate('templateId', 'name isActive').lean()
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, error: 'Auto-reply rule not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: rule
+    })
+
+  } catch (error) {
+    console.error('Error fetching auto-reply rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch auto-reply rule' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/auto-reply/rules/[id] - Edit a rule, or switch it on or off
+export const PATCH = withRouteGuard('PATCH /api/auto-reply/rules/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => null)
+    const parsed = UpdateAutoReplyRuleSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid auto-reply rule' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const rule = await AutoReplyRule.findById(id)
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, error: 'Auto-reply rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const { name, priority, isActive, conditions, action, templateId, delayMinutes } = parsed.data
+    const minRating = conditions?.minRating ?? rule.conditions.minRating
+    const maxRating = conditions?.maxRating ?? rule.conditions.maxRating
+    if (minRating > maxRating) {
+      return NextResponse.json(
+        { success: false, error: 'Minimum rating cannot be above the maximum rating' },
+        { status: 400 }
+      )
+    }
+
+    const nextAction = action ?? rule.action
+    const nextTemplateId = templateId === undefined ? rule.templateId?.toString() : templateId
+    const ruleError = await AutoReplyService.ruleError(rule.brandId, {
+      action: nextAction,
+      templateId: nextTemplateId,
+      storeIds: conditions?.storeIds
+    })
+    if (ruleError) {
+      return NextResponse.json(
+        { success: false, error: ruleError },
+        { status: 400 }
+      )
+    }
+
+    if (name !== undefined) rule.name = name
+    if (priority !== undefined) rule.priority = priority
+    if (isActive !== undefined) rule.isActive = isActive
+    if (conditions?.minRating !== undefined) rule.conditions.minRating = conditions.minRating
+    if (conditions?.maxRating !== undefined) rule.conditions.maxRating = conditions.maxRating
+    if (conditions?.comment !== undefined) rule.conditions.comment = conditions.comment
+    if (conditions?.storeIds !== undefined) rule.set('conditions.storeIds', conditions.storeIds)
+    if (action !== undefined) rule.action = action
+    // Only replies use a template
+    rule.set('templateId', nextAction === 'reply' ? nextTemplateId : undefined)
+    if (delayMinutes !== undefined) rule.delayMinutes = delayMinutes
+    await rule.save()
+
+    // Replies already queued by a rule that was switched off are not posted
+    if (isActive === false) {
+      await AutoReplyService.cancelForRule(id, session.email, 'Rule was deactivated')
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: rule
+    })
+
+  } catch (error) {
+    console.error('Error updating auto-reply rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update auto-reply rule' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/auto-reply/rules/[id] - Delete a rule and cancel the replies it queued
+export const DELETE = withRouteGuard('DELETE /api/auto-reply/rules/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const result = await AutoReplyRule.deleteOne({ _id: id })
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Auto-reply rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await AutoReplyService.cancelForRule(id, session.email, 'Rule was deleted')
+
+    return NextResponse.json({
+      success: true,
+      message: 'Auto-reply rule deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting auto-reply rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete auto-reply rule' },
+      { status: 500 }
+    )
+  }
+})
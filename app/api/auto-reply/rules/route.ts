@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { AUTO_REPLY_ACTIONS, AUTO_REPLY_COMMENT_CONDITIONS, AutoReplyRule } from '@/lib/database/reply-models'
+import { AutoReplyService } from '@/lib/services/auto-reply-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const CreateAutoReplyRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  priority: z.number().int().min(0).max(1000).default(100),
+  isActive: z.boolean().default(true),
+  conditions: z.object({
+    minRating: z.number().int().min(1).max(5).default(1),
+    maxRating: z.number().int().min(1).max(5).default(5),
+    comment: z.enum(AUTO_REPLY_COMMENT_CONDITIONS).default('any'),
+    storeIds: z.array(z.string().trim().min(1)).max(500).default([])
+  }).refine(conditions => conditions.minRating <= conditions.maxRating, {
+    message: 'Minimum rating cannot be above the maximum rating',
+    path: ['minRating']
+  }),
+  action: z.enum(AUTO_REPLY_ACTIONS),
+  templateId: z.string().trim().min(1).optional(),
+  delayMinutes: z.number().int().min(0).max(7 * 24 * 60, 'Delay can be at most 7 days').default(0)
+})
+
+// GET /api/auto-reply/rules - List a brand's auto-reply rules in the order they are checked
+export const GET = withRouteGuard('GET /api/auto-reply/rules', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const query: Record<string, unknown> = {}
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    await connectDB()
+
+    const rules = await AutoReplyRule.find(query)
+      .sort({ priority: 1, createdAt: 1 })
+      .populate('templateId', 'name isActive')
+      .limit(200)
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: rules
+    })
+
+  } catch (error) {
+    console.error('Error fetching auto-reply rules:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch auto-reply rules' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/auto-reply/rules - Create an auto-reply rule
+export const POST = withRouteGuard('POST /api/auto-reply/rules', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = CreateAutoReplyRuleSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid auto-reply rule' },
+        { status: 400 }
+      )
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const { templateId, ...rule } = parsed.data
+    const ruleError = await AutoReplyService.ruleError(brandId, { action: rule.action, templateId, storeIds: rule.conditions.storeIds })
+    if (ruleError) {
+      return NextResponse.json(
+        { success: false, error: ruleError },
+        { status: 400 }
+      )
+    }
+
+    const created = await AutoReplyRule.create({
+      ...rule,
+      // Only replies use a template
+      ...(rule.action === 'reply' && { templateId }),
+      brandId,
+      createdBy: {
+        userId: session.userId,
+        name: session.name,
+        email: session.email
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: created
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating auto-reply rule:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create auto-reply rule' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { AutoReplyService } from '@/lib/services/auto-reply-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/auto-reply/run - Apply rules to new reviews of every brand, then post the replies that are due
+export const POST = withRouteGuard('POST /api/auto-reply/run', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25') || 25, 100)
+
+    await connectDB()
+    const queued = await AutoReplyService.queueAllBrands()
+    const processed = await AutoReplyService.processDueReplies(limit)
+
+    return NextResponse.json({
+      success: true,
+      data: { queued, processed }
+    })
+
+  } catch (error) {
+    console.error('Error running auto-replies:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run auto-replies' },
+      { status: 500 }
+    )
+  }
+})
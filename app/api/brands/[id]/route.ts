@@ -2,21 +2,22 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Brand } from '@/lib/database/models'
 import { deleteFromS3 } from '@/lib/services/aws-s3'
-import bcrypt from 'bcryptjs'
-import { getSession } from '@/lib/utils/session'
-import { canAccessBrand } from '@/lib/utils/permissions'
+import { UserManagementService } from '@/lib/services/user-management-service'
+import { migrateBrandCredentials } from '@/lib/utils/brand-credential-migration'
+import { hasPermission } from '@/lib/utils/permissions'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/brands/[id] - Get single brand
-export async function GET(
+export const GET = withRouteGuard('GET /api/brands/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
     const { id } = await params
 
     const brand = await Brand.findById(id)
-      .select('-users.owner.password -users.manager.password')
+      .select('-users.owner.password -users.manager.password') // Legacy credentials on brands not yet migrated
       .lean()
 
     if (!brand) {
@@ -37,33 +38,17 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
 // PUT /api/brands/[id] - Update brand
-export async function PUT(
+export const PUT = withRouteGuard('PUT /api/brands/[id]', async (
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
   try {
     await connectDB()
     const { id } = await params
-    
-    // Check permissions
-    const session = await getSession()
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
-    
-    // Check if user can access this brand
-    if (!canAccessBrand(session.role, session.brandId, id)) {
-      return NextResponse.json(
-        { success: false, error: 'You do not have permission to edit this brand' },
-        { status: 403 }
-      )
-    }
 
     const body = await request.json()
 
@@ -87,36 +72,76 @@ export async function PUT(
       }
     }
 
-    // Prepare update data
-    const updateData = { ...body, updatedAt: new Date() }
-    
-    // Hash passwords if they're being updated
-    if (body.users?.owner?.password) {
-      const saltRounds = 12
-      updateData.users.owner.password = await bcrypt.hash(body.users.owner.password, saltRounds)
-    } else if (body.users?.owner) {
-      // If owner data is provided but no password, preserve the existing password
-      delete updateData.users.owner.password
+    // Owner and manager logins are User records, the brand keeps their emails
+    const credentials = UserManagementService.brandCredentials(body.users)
+    const previousEmails = {
+      owner: existingBrand.users?.owner?.email?.toLowerCase(),
+      manager: existingBrand.users?.manager?.email?.toLowerCase()
+    }
+    const replaced = credentials.filter(credential => previousEmails[credential.role] && credential.email !== previousEmails[credential.role])
+
+    // Brand owners can edit their brand, but changing who signs in to it is user management
+    const canManageLogins = hasPermission(session.role, 'createUser') && hasPermission(session.role, 'editUser')
+    if (!canManageLogins && (replaced.length > 0 || credentials.some(credential => credential.password))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to change the owner or manager login' },
+        { status: 403 }
+      )
+    }
+
+    const conflict = await UserManagementService.findEmailConflict(credentials.map(credential => credential.email), id)
+    if (conflict) {
+      return NextResponse.json(
+        { success: false, error: `An account with the email ${conflict} already exists. Please use a different email.` },
+        { status: 400 }
+      )
     }
 
-    if (body.users?.manager?.password) {
-      const saltRounds = 12
-      updateData.users.manager.password = await bcrypt.hash(body.users.manager.password, saltRounds)
-    } else if (body.users?.manager) {
-      // If manager data is provided but no password, preserve the existing password
-      delete updateData.users.manager.password
+    // Move any credentials still stored on the brand first, so they are not replaced by invites
+    await migrateBrandCredentials({ _id: existingBrand._id })
+
+    // Prepare update data
+    const updateData = { ...body, updatedAt: new Date() }
+    if (body.users) {
+      updateData.users = {
+        owner: { email: body.users.owner?.email || existingBrand.users.owner.email },
+        manager: { email: body.users.manager?.email || existingBrand.users.manager?.email }
+      }
     }
 
     // Update brand using $set to only update provided fields
     const updatedBrand = await Brand.findByIdAndUpdate(
       id,
       { $set: updateData },
-      { new: true, runValidators: false } // Disable validators to avoid required password validation
-    ).select('-users.owner.password -users.manager.password')
+      { new: true, runValidators: false }
+    )
+    if (!updatedBrand) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    const accounts = []
+    for (const credential of canManageLogins ? credentials : []) {
+      const { user, invited } = await UserManagementService.upsertBrandUser(updatedBrand, credential)
+      accounts.push({ ...UserManagementService.toSummary(user), invited })
+    }
+
+    // The previous owner or manager is signed out and loses access, unless their email is still one of the brand's logins
+    const deactivatedAccounts = []
+    for (const credential of replaced) {
+      const previousEmail = previousEmails[credential.role]!
+      if (credentials.some(other => other.email === previousEmail)) continue
+      const user = await UserManagementService.deactivateBrandUser(updatedBrand._id, credential.role, previousEmail)
+      if (user) deactivatedAccounts.push(UserManagementService.toSummary(user))
+    }
 
     return NextResponse.json({
       success: true,
       data: updatedBrand,
+      accounts,
+      deactivatedAccounts,
       message: 'Brand updated successfully'
     })
   } catch (error) {
@@ -135,25 +160,16 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/brands/[id] - Delete brand
-export async function DELETE(
+export const DELETE = withRouteGuard('DELETE /api/brands/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
     const { id } = await params
-    
-    // Check permissions - only super_admin can delete brands
-    const session = await getSession()
-    if (!session || session.role !== 'super_admin') {
-      return NextResponse.json(
-        { success: false, error: 'Only super admins can delete brands' },
-        { status: 403 }
-      )
-    }
 
     const brand = await Brand.findById(id)
     if (!brand) {
@@ -207,4 +223,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Brand } from '@/lib/database/models'
-import bcrypt from 'bcryptjs'
-import { getGmbTokensFromRequest, getCurrentUserEmail } from '@/lib/utils/auth-helpers'
-import { getSession } from '@/lib/utils/session'
+import { UserManagementService } from '@/lib/services/user-management-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/brands - Get all brands with pagination and search
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/brands', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
 
@@ -34,62 +33,15 @@ export async function GET(request: NextRequest) {
       query.status = status
     }
 
-    // Get session from new auth system
-    const session = await getSession()
-    let currentUserEmail: string | null = null
-    let userRole: string | null = null
-    let userBrandId: string | null = null
-    
-    // Try to get email from session first (new auth system)
-    if (session) {
-      currentUserEmail = session.email
-      userRole = session.role
-      userBrandId = session.brandId || null
-      
-    } else {
-      // Fall back to GMB tokens (legacy)
-      const tokens = await getGmbTokensFromRequest()
-      if (tokens) {
-        currentUserEmail = await getCurrentUserEmail(tokens)
-        
-      }
-    }
-    
-    // Filter brands based on role
-    if (userRole === 'super_admin') {
-      // Super admin sees all brands
-      
-      // No additional filtering needed
-    } else if (userRole === 'owner' || userRole === 'manager') {
-      // Owner/Manager only see their own brand
-      if (userBrandId) {
-        query._id = userBrandId
-        
-      } else {
-        // If no brandId, try to find by email
-        query.$or = [
-          { 'users.owner.email': currentUserEmail },
-          { 'users.manager.email': currentUserEmail }
-        ]
-        
-      }
-    } else if (currentUserEmail) {
-      // Legacy: If no role but have email, show brands owned by user
-      query.$or = [
-        { 'users.owner.email': currentUserEmail },
-        { 'users.manager.email': currentUserEmail }
-      ]
-      
-    } else {
-      // If no authentication at all, show no brands
-      query._id = { $exists: false }
-      
+    // Owners and managers only see their own brand
+    if (brandId) {
+      query._id = brandId
     }
 
     // Get brands with pagination - include GMB settings
     const [brands, total] = await Promise.all([
       Brand.find(query)
-        .select('-users.owner.password -users.manager.password') // Exclude passwords
+        .select('-users.owner.password -users.manager.password') // Legacy credentials on brands not yet migrated
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
@@ -120,22 +72,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/brands - Create new brand
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/brands', async (request: NextRequest) => {
   try {
     await connectDB()
     
-    // Check if user is super_admin
-    const session = await getSession()
-    if (!session || session.role !== 'super_admin') {
-      return NextResponse.json(
-        { success: false, error: 'Only super admins can create brands' },
-        { status: 403 }
-      )
-    }
-
     const body = await request.json()
 
     // Validate required fields with user-friendly messages
@@ -165,39 +108,42 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if owner email already exists
-    const existingOwner = await Brand.findOne({ 'users.owner.email': body.users.owner.email })
-    if (existingOwner) {
+    // Owner and manager logins are User records, the brand keeps their emails
+    const credentials = UserManagementService.brandCredentials(body.users)
+    if (!credentials.some(credential => credential.role === 'owner')) {
       return NextResponse.json(
-        { success: false, error: 'An account with this email address already exists. Please use a different email.' },
+        { success: false, error: 'Owner email is required' },
         { status: 400 }
       )
     }
 
-    // Hash passwords
-    const saltRounds = 12
-    body.users.owner.password = await bcrypt.hash(body.users.owner.password, saltRounds)
-    
-    if (body.users.manager?.password) {
-      body.users.manager.password = await bcrypt.hash(body.users.manager.password, saltRounds)
+    const conflict = await UserManagementService.findEmailConflict(credentials.map(credential => credential.email))
+    if (conflict) {
+      return NextResponse.json(
+        { success: false, error: `An account with the email ${conflict} already exists. Please use a different email.` },
+        { status: 400 }
+      )
+    }
+
+    body.users = {
+      owner: { email: body.users.owner.email },
+      manager: { email: body.users.manager?.email }
     }
 
     // Create brand
     const brand = new Brand(body)
     await brand.save()
 
-    // Return brand without passwords
-    const brandData = brand.toObject() as any
-    if (brandData.users?.owner?.password) {
-      brandData.users.owner.password = undefined
-    }
-    if (brandData.users?.manager?.password) {
-      brandData.users.manager.password = undefined
+    const accounts = []
+    for (const credential of credentials) {
+      const { user, invited } = await UserManagementService.upsertBrandUser(brand, credential)
+      accounts.push({ ...UserManagementService.toSummary(user), invited })
     }
 
     return NextResponse.json({
       success: true,
-      data: brandData,
+      data: brand,
+      accounts,
       message: 'Brand created successfully'
     }, { status: 201 })
   } catch (error) {
@@ -217,4 +163,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,8 +1,9 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { uploadToS3, generateFileKey, validateImageFile, fileToBuffer } from '@/lib/services/aws-s3'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/brands/upload', async (request: NextRequest) => {
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
@@ -45,6 +46,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 
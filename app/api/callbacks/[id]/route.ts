@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { CALLBACK_ATTEMPT_OUTCOMES, CallbackTask } from '@/lib/database/ivr-models'
+import { User } from '@/lib/database/user-model'
+import { CallbackService } from '@/lib/services/callback-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const UpdateCallbackSchema = z.object({
+  // Log a callback attempt
+  outcome: z.enum(CALLBACK_ATTEMPT_OUTCOMES).optional(),
+  note: z.string().trim().max(1000).optional(),
+  // Close after a "no answer" attempt instead of trying again
+  close: z.boolean().optional(),
+  // Reassign; null or '' removes the owner
+  ownerId: z.string().trim().nullable().optional()
+}).refine(update => update.outcome !== undefined || update.ownerId !== undefined, {
+  message: 'Provide an outcome or an owner'
+})
+
+export const GET = withRouteGuard('GET /api/callbacks/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    await connectDB()
+
+    const task = await CallbackTask.findById(id)
+      .populate('storeId', 'name storeCode')
+      .populate('ivrCallIds', 'callStartTime callStatus ringDuration virtualNumber')
+      .lean()
+
+    if (!task) {
+      return NextResponse.json(
+        { success: false, error: 'Callback not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...task,
+        slaState: CallbackService.getSlaState(task)
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching callback:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PATCH = withRouteGuard('PATCH /api/callbacks/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => null)
+    const parsed = UpdateCallbackSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid callback update' },
+        { status: 400 }
+      )
+    }
+    const { outcome, note, close, ownerId } = parsed.data
+
+    await connectDB()
+
+    const task = await CallbackTask.findById(id)
+    if (!task) {
+      return NextResponse.json(
+        { success: false, error: 'Callback not found' },
+        { status: 404 }
+      )
+    }
+
+    if (ownerId !== undefined) {
+      if (!ownerId) {
+        task.owner = undefined
+        task.assignedAt = undefined
+      } else {
+        if (!mongoose.Types.ObjectId.isValid(ownerId)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid owner' },
+            { status: 400 }
+          )
+        }
+
+        const owner = await User.findById(ownerId).select('name email role brandId status').lean()
+        if (!owner || owner.status !== 'active') {
+          return NextResponse.json(
+            { success: false, error: 'Owner not found' },
+            { status: 404 }
+          )
+        }
+
+        // Owners and managers can only take callbacks of their own brand
+        if (owner.role !== 'super_admin' && String(owner.brandId) !== String(task.brandId)) {
+          return NextResponse.json(
+            { success: false, error: 'Owner does not belong to this brand' },
+            { status: 400 }
+          )
+        }
+
+        task.owner = {
+          userId: owner._id as mongoose.Types.ObjectId,
+          name: owner.name,
+          email: owner.email,
+          role: owner.role
+        }
+        task.assignedAt = new Date()
+      }
+    }
+
+    if (outcome) {
+      if (task.status === 'closed') {
+        return NextResponse.json(
+          { success: false, error: 'Callback is already closed' },
+          { status: 409 }
+        )
+      }
+
+      await CallbackService.recordAttempt(task, { outcome, note, close }, {
+        userId: session.userId,
+        name: session.name || session.email
+      })
+    } else {
+      await task.save()
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...task.toObject(),
+        slaState: CallbackService.getSlaState(task)
+      },
+      message: 'Callback updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating callback:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
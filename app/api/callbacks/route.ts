@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { CALLBACK_STATUSES, CallbackStatus, CallbackTask } from '@/lib/database/ivr-models'
+import { CallbackService } from '@/lib/services/callback-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+/**
+ * GET /api/callbacks
+ *
+ * Callback tasks for missed and IVR-drop calls, soonest due first.
+ * Optional query parameters:
+ * - page / limit: Pagination (default: 1 / 20)
+ * - status: open | closed (default: open)
+ * - storeId: Only this store's callbacks
+ * - owner: 'me', 'unassigned' or a user id
+ * - overdue: 'true' for open tasks past their due time without an attempt
+ */
+export const GET = withRouteGuard('GET /api/callbacks', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    await connectDB()
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+    const status = searchParams.get('status') || 'open'
+    const storeId = searchParams.get('storeId')
+    const owner = searchParams.get('owner')
+    const overdue = searchParams.get('overdue')
+
+    const query: Record<string, unknown> = {}
+    if (brandId) query.brandId = brandId
+    if (status !== 'all') {
+      if (!CALLBACK_STATUSES.includes(status as CallbackStatus)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status' },
+          { status: 400 }
+        )
+      }
+      query.status = status
+    }
+    if (storeId && mongoose.Types.ObjectId.isValid(storeId)) query.storeId = storeId
+
+    if (owner === 'unassigned') {
+      query['owner.userId'] = { $exists: false }
+    } else if (owner === 'me') {
+      query['owner.userId'] = session.userId
+    } else if (owner && mongoose.Types.ObjectId.isValid(owner)) {
+      query['owner.userId'] = owner
+    }
+
+    if (overdue === 'true') {
+      Object.assign(query, CallbackService.overdueQuery())
+    }
+
+    const [tasks, totalCount] = await Promise.all([
+      CallbackTask.find(query)
+        .populate('storeId', 'name storeCode')
+        .sort(query.status === 'closed' ? { closedAt: -1 } : { dueAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      CallbackTask.countDocuments(query)
+    ])
+
+    const now = new Date()
+    const totalPages = Math.ceil(totalCount / limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        callbacks: tasks.map(task => ({
+          ...task,
+          slaState: CallbackService.getSlaState(task, now)
+        })),
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        }
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching callbacks:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
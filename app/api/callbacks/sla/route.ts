@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { Brand } from '@/lib/database/models'
+import { CallbackService } from '@/lib/services/callback-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
+
+/**
+ * GET /api/callbacks/sla
+ *
+ * Callback SLA compliance over the tasks opened in a period, overall and per store.
+ * Optional query parameters: brandId, storeId (comma-separated), startDate, endDate
+ */
+export const GET = withRouteGuard('GET /api/callbacks/sla', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const storeId = searchParams.get('storeId')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+
+    const storeIds = storeId && storeId !== 'all'
+      ? storeId.split(',').map(id => id.trim()).filter(Boolean)
+      : []
+    if (storeIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store ID' },
+        { status: 400 }
+      )
+    }
+
+    const start = startDate ? new Date(startDate) : undefined
+    const end = endDate ? new Date(endDate) : undefined
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date range' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    if (storeIds.length > 0 && !(await storesInScope(storeIds, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    const [report, brand] = await Promise.all([
+      CallbackService.getSlaReport({ brandId, storeIds, startDate: start, endDate: end }),
+      brandId ? Brand.findById(brandId).select('settings.callbackSla').lean() : null
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...report,
+        dueMinutes: CallbackService.getDueMinutes(brand)
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching callback SLA report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { ContentDraft } from '@/lib/database/content-models'
+import { ContentAiService, STORE_CONTENT_TYPES } from '@/lib/services/content-ai-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// POST /api/content-ai/drafts/[id]/apply - Write a store-level draft into the store
+export const POST = withRouteGuard('POST /api/content-ai/drafts/[id]/apply', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const draft = await ContentDraft.findById(id)
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!STORE_CONTENT_TYPES.includes(draft.type)) {
+      return NextResponse.json(
+        { success: false, error: 'Post drafts are published from the post composer' },
+        { status: 400 }
+      )
+    }
+
+    const applied = await ContentAiService.applyToStore(draft)
+    if (!applied) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    draft.status = 'applied'
+    draft.appliedAt = new Date()
+    draft.appliedBy = session.email
+    await draft.save()
+
+    return NextResponse.json({
+      success: true,
+      data: draft
+    })
+
+  } catch (error) {
+    console.error('Error applying content draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to apply content draft' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { ContentDraft } from '@/lib/database/content-models'
+import { CONTENT_TYPES, fitToLength } from '@/lib/services/content-ai-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/content-ai/drafts/[id] - Single draft (used to prefill the post composer)
+export const GET = withRouteGuard('GET /api/content-ai/drafts/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const draft = await ContentDraft.findById(id)
+      .populate('storeId', 'name storeCode gmbLocationId gmbAccountId')
+      .lean()
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: draft
+    })
+
+  } catch (error) {
+    console.error('Error fetching content draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch content draft' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/content-ai/drafts/[id] - Edit a draft's text or mark it applied/discarded
+export const PATCH = withRouteGuard('PATCH /api/content-ai/drafts/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json()
+    const { text, title, status } = body
+
+    if (status && !['draft', 'applied', 'discarded'].includes(status)) {
+      return NextResponse.json(
+        { success: false, error: 'Status must be draft, applied or discarded' },
+        { status: 400 }
+      )
+    }
+
+    if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+      return NextResponse.json(
+        { success: false, error: 'Text cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const draft = await ContentDraft.findById(id)
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    if (text !== undefined) draft.text = fitToLength(text, CONTENT_TYPES[draft.type].maxLength)
+    if (title !== undefined) draft.title = title
+    if (status) {
+      draft.status = status
+      if (status === 'applied') {
+        draft.appliedAt = new Date()
+        draft.appliedBy = session.email
+      }
+    }
+    await draft.save()
+
+    return NextResponse.json({
+      success: true,
+      data: draft
+    })
+
+  } catch (error) {
+    console.error('Error updating content draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update content draft' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/content-ai/drafts/[id] - Delete a draft
+export const DELETE = withRouteGuard('DELETE /api/content-ai/drafts/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const result = await ContentDraft.deleteOne({ _id: id })
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Draft deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting content draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete content draft' },
+      { status: 500 }
+    )
+  }
+})
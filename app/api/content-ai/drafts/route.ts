@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { ContentDraft } from '@/lib/database/content-models'
+import { CONTENT_TYPES, STORE_CONTENT_TYPES, fitToLength } from '@/lib/services/content-ai-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/content-ai/drafts - List saved content drafts
+export const GET = withRouteGuard('GET /api/content-ai/drafts', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const storeId = searchParams.get('storeId')
+    const type = searchParams.get('type')
+    const status = searchParams.get('status') || 'draft'
+    const query: Record<string, unknown> = {}
+
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    if (storeId && mongoose.Types.ObjectId.isValid(storeId)) {
+      query.storeId = new mongoose.Types.ObjectId(storeId)
+    }
+    if (type && type !== 'all') query.type = type
+    if (status !== 'all') query.status = status
+
+    await connectDB()
+
+    const drafts = await ContentDraft.find(query)
+      .populate('brandId', 'name')
+      .populate('storeId', 'name storeCode')
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: drafts
+    })
+
+  } catch (error) {
+    console.error('Error fetching content drafts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch content drafts' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/content-ai/drafts - Save generated (or edited) content as a draft
+export const POST = withRouteGuard('POST /api/content-ai/drafts', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const body = await request.json()
+    const { type, storeId, title, text, prompt, model } = body
+
+    if (!type || !(type in CONTENT_TYPES)) {
+      return NextResponse.json(
+        { success: false, error: `Type must be one of: ${Object.keys(CONTENT_TYPES).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!text || typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Text is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    if ((STORE_CONTENT_TYPES.includes(type) && !storeId) || (storeId && !mongoose.Types.ObjectId.isValid(storeId))) {
+      return NextResponse.json(
+        { success: false, error: 'A valid store is required for this content type' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    if (storeId && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found for this brand' },
+        { status: 404 }
+      )
+    }
+
+    const draft = await ContentDraft.create({
+      brandId,
+      storeId: storeId || undefined,
+      type,
+      title: title?.trim() || undefined,
+      text: fitToLength(text, CONTENT_TYPES[type as keyof typeof CONTENT_TYPES].maxLength),
+      prompt: {
+        topic: prompt?.topic,
+        tone: prompt?.tone,
+        keywords: Array.isArray(prompt?.keywords) ? prompt.keywords : []
+      },
+      aiModel: model || 'manual',
+      createdBy: {
+        userId: session.userId,
+        name: session.name,
+        email: session.email
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: draft
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error saving content draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save content draft' },
+      { status: 500 }
+    )
+  }
+})
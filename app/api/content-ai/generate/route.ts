@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { ContentType } from '@/lib/database/content-models'
+import { CONTENT_TYPES, ContentAiService, STORE_CONTENT_TYPES } from '@/lib/services/content-ai-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+const MAX_VARIANTS = 5
+
+// POST /api/content-ai/generate - Generate content variants grounded in brand and store data
+export const POST = withRouteGuard('POST /api/content-ai/generate', async (request: NextRequest, routeContext, { brandId }) => {
+  try {
+    const body = await request.json()
+    const { type, storeId, topic, tone, keywords, variants } = body
+
+    if (!type || !(type in CONTENT_TYPES)) {
+      return NextResponse.json(
+        { success: false, error: `Type must be one of: ${Object.keys(CONTENT_TYPES).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    if (STORE_CONTENT_TYPES.includes(type) && !storeId) {
+      return NextResponse.json(
+        { success: false, error: `A store is required for ${CONTENT_TYPES[type as ContentType].label}` },
+        { status: 400 }
+      )
+    }
+
+    if (storeId && !mongoose.Types.ObjectId.isValid(storeId)) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    await connectDB()
+
+    const context = await ContentAiService.buildContext(brandId, storeId || undefined)
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: storeId ? 'Store not found for this brand' : 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    let result
+    try {
+      result = await ContentAiService.generate({
+        type,
+        topic: typeof topic === 'string' ? topic.trim() : undefined,
+        tone: typeof tone === 'string' ? tone : undefined,
+        keywords: Array.isArray(keywords) ? keywords.map(String).map(keyword => keyword.trim()).filter(Boolean) : [],
+        variants: Math.min(Math.max(parseInt(variants) || 3, 1), MAX_VARIANTS)
+      }, context)
+    } catch (error) {
+      console.error('Content generation failed:', error)
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Content generation failed' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        maxLength: CONTENT_TYPES[type as ContentType].maxLength
+      }
+    })
+
+  } catch (error) {
+    console.error('Error generating content:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate content' },
+      { status: 500 }
+    )
+  }
+})
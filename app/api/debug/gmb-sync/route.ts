@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Store } from '@/lib/database/models'
 import { Brand } from '@/lib/database/models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/debug/gmb-sync', async (request: NextRequest) => {
   try {
     await connectDB()
     
@@ -56,4 +57,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
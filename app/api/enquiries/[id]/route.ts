@@ -1,33 +1,126 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Enquiry } from '@/lib/database/models'
+import { User } from '@/lib/database/user-model'
+import { EnquirySlaService } from '@/lib/services/enquiry-sla-service'
+import mongoose from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function PATCH(
+const ENQUIRY_STATUSES = ['new', 'in-progress', 'resolved', 'closed']
+
+export const PATCH = withRouteGuard('PATCH /api/enquiries/[id]', async (
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
   try {
     const { id } = await params
     await connectDB()
 
     const body = await request.json()
-    const { status, response, respondedBy } = body
+    const { status, response, assignedTo, note } = body
+
+    const existing = await Enquiry.findById(id)
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Enquiry not found' },
+        { status: 404 }
+      )
+    }
+
+    const now = new Date()
+    const actor = session.name || session.email
+    const updateData: Record<string, unknown> = { updatedAt: now }
+    const unsetData: Record<string, 1> = {}
+    let historyEntry: Record<string, unknown> | null = null
+
+    if (status && status !== existing.status) {
+      if (!ENQUIRY_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status' },
+          { status: 400 }
+        )
+      }
+
+      updateData.status = status
+      historyEntry = {
+        fromStatus: existing.status,
+        toStatus: status,
+        changedBy: session.userId,
+        changedByName: actor,
+        note: typeof note === 'string' && note.trim() ? note.trim() : undefined,
+        changedAt: now
+      }
+
+      // Moving out of "new" counts as the first response
+      if (!existing.firstResponseAt) updateData.firstResponseAt = now
+
+      if (status === 'resolved' || status === 'closed') {
+        if (!existing.resolvedAt) updateData.resolvedAt = now
+      } else if (existing.resolvedAt) {
+        // Reopened
+        unsetData.resolvedAt = 1
+      }
+    }
 
-    const updateData: any = { updatedAt: new Date() }
-    
-    if (status) updateData.status = status
     if (response) {
       updateData.response = response
-      updateData.respondedAt = new Date()
-      if (respondedBy) updateData.respondedBy = respondedBy
+      updateData.respondedAt = now
+      updateData.respondedBy = actor
+      if (!existing.firstResponseAt) updateData.firstResponseAt = now
+    }
+
+    if (assignedTo !== undefined) {
+      if (assignedTo === null || assignedTo === '') {
+        unsetData.assignedTo = 1
+        unsetData.assignedAt = 1
+        updateData.assignedBy = actor
+      } else {
+        if (!mongoose.Types.ObjectId.isValid(assignedTo)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid assignee' },
+            { status: 400 }
+          )
+        }
+
+        const assignee = await User.findById(assignedTo).select('name email role brandId status').lean()
+        if (!assignee || assignee.status !== 'active') {
+          return NextResponse.json(
+            { success: false, error: 'Assignee not found' },
+            { status: 404 }
+          )
+        }
+
+        // Owners and managers can only be assigned enquiries of their own brand
+        if (assignee.role !== 'super_admin' && String(assignee.brandId) !== String(existing.brandId)) {
+          return NextResponse.json(
+            { success: false, error: 'Assignee does not belong to this brand' },
+            { status: 400 }
+          )
+        }
+
+        updateData.assignedTo = {
+          userId: assignee._id,
+          name: assignee.name,
+          email: assignee.email,
+          role: assignee.role
+        }
+        updateData.assignedAt = now
+        updateData.assignedBy = actor
+      }
     }
 
+    const update: Record<string, unknown> = { $set: updateData }
+    if (Object.keys(unsetData).length > 0) update.$unset = unsetData
+    if (historyEntry) update.$push = { statusHistory: historyEntry }
+
     const enquiry = await Enquiry.findByIdAndUpdate(
       id,
-      updateData,
+      update,
       { new: true }
     ).populate('storeId', 'name slug')
      .populate('brandId', 'name slug')
+     .lean()
 
     if (!enquiry) {
       return NextResponse.json(
@@ -38,7 +131,10 @@ export async function PATCH(
 
     return NextResponse.json({
       success: true,
-      data: enquiry,
+      data: {
+        ...enquiry,
+        slaState: EnquirySlaService.getSlaState(enquiry)
+      },
       message: 'Enquiry updated successfully'
     })
 
@@ -49,12 +145,12 @@ export async function PATCH(
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(
+export const GET = withRouteGuard('GET /api/enquiries/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params
     await connectDB()
@@ -73,7 +169,10 @@ export async function GET(
 
     return NextResponse.json({
       success: true,
-      data: enquiry
+      data: {
+        ...enquiry,
+        slaState: EnquirySlaService.getSlaState(enquiry)
+      }
     })
 
   } catch (error) {
@@ -83,4 +182,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
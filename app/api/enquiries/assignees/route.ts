@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { User } from '@/lib/database/user-model'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/enquiries/assignees?brandId=... - Users an enquiry of the brand can be assigned to
+export const GET = withRouteGuard('GET /api/enquiries/assignees', async (request: NextRequest, context, { brandId }) => {
+  try {
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'brandId is required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const users = await User.find({
+      brandId,
+      role: { $in: ['owner', 'manager'] },
+      status: 'active'
+    })
+      .select('name email role')
+      .sort({ role: 1, name: 1 })
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: users
+    })
+
+  } catch (error) {
+    console.error('Error fetching enquiry assignees:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
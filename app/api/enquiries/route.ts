@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
-import { Enquiry } from '@/lib/database/models'
+import { z } from 'zod'
+import { Brand, Enquiry, Store } from '@/lib/database/models'
+import { checkRateLimit, getClientIp } from '@/lib/utils/rate-limit'
+import { EnquirySlaService } from '@/lib/services/enquiry-sla-service'
+import { NotificationService } from '@/lib/services/notification-service'
+import mongoose from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+// Search text is matched literally
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export const GET = withRouteGuard('GET /api/enquiries', async (request: NextRequest, context, { session, brandId }) => {
   try {
     await connectDB()
 
@@ -12,18 +21,43 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status')
     const enquiryType = searchParams.get('enquiryType')
     const search = searchParams.get('search')
+    const storeId = searchParams.get('storeId')
+    const assignedTo = searchParams.get('assignedTo') // 'me', 'unassigned' or a user id
+    const overdue = searchParams.get('overdue')
 
     // Build query
     const query: Record<string, unknown> = {}
+    const conditions: Record<string, unknown>[] = []
     if (status) query.status = status
     if (enquiryType) query.enquiryType = enquiryType
+    if (brandId) query.brandId = brandId
+    if (storeId && mongoose.Types.ObjectId.isValid(storeId)) query.storeId = storeId
     if (search) {
-      query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { email: { $regex: search, $options: 'i' } },
-        { subject: { $regex: search, $options: 'i' } },
-        { message: { $regex: search, $options: 'i' } }
-      ]
+      const pattern = escapeRegex(search)
+      conditions.push({
+        $or: [
+          { name: { $regex: pattern, $options: 'i' } },
+          { email: { $regex: pattern, $options: 'i' } },
+          { subject: { $regex: pattern, $options: 'i' } },
+          { message: { $regex: pattern, $options: 'i' } }
+        ]
+      })
+    }
+
+    if (assignedTo === 'unassigned') {
+      query['assignedTo.userId'] = { $exists: false }
+    } else if (assignedTo === 'me') {
+      query['assignedTo.userId'] = session.userId
+    } else if (assignedTo && mongoose.Types.ObjectId.isValid(assignedTo)) {
+      query['assignedTo.userId'] = assignedTo
+    }
+
+    if (overdue === 'true') {
+      conditions.push(EnquirySlaService.overdueQuery())
+    }
+
+    if (conditions.length > 0) {
+      query.$and = conditions
     }
 
     // Calculate skip for pagination
@@ -41,6 +75,13 @@ export async function GET(request: NextRequest) {
       Enquiry.countDocuments(query)
     ])
 
+    // Annotate each enquiry with its SLA state
+    const now = new Date()
+    const enquiriesWithSla = enquiries.map(enquiry => ({
+      ...enquiry,
+      slaState: EnquirySlaService.getSlaState(enquiry, now)
+    }))
+
     // Calculate pagination info
     const totalPages = Math.ceil(totalCount / limit)
     const hasNextPage = page < totalPages
@@ -49,7 +90,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: {
-        enquiries,
+        enquiries: enquiriesWithSla,
         pagination: {
           currentPage: page,
           totalPages,
@@ -68,4 +109,116 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
+
+const ENQUIRY_RATE_LIMIT = 5
+const ENQUIRY_RATE_WINDOW_MS = 60 * 60 * 1000 // 1 hour
+
+const CreateEnquirySchema = z.object({
+  brandSlug: z.string().trim().min(1, 'Brand is required'),
+  storeSlug: z.string().trim().min(1, 'Store is required'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.string().trim().email('A valid email address is required'),
+  phone: z.string().trim().max(20).optional(),
+  subject: z.string().trim().min(1, 'Subject is required').max(200),
+  message: z.string().trim().min(1, 'Message is required').max(5000),
+  enquiryType: z.enum(['general', 'product', 'service', 'complaint', 'feedback', 'partnership']).default('general')
+})
+
+// POST /api/enquiries - Public enquiry intake from brand/store microsites
+export const POST = withRouteGuard('POST /api/enquiries', async (request: NextRequest) => {
+  try {
+    const ip = getClientIp(request)
+    const rateLimit = checkRateLimit(`enquiry:${ip}`, ENQUIRY_RATE_LIMIT, ENQUIRY_RATE_WINDOW_MS)
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many enquiries. Please try again later.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': rateLimit.retryAfterSeconds.toString() }
+        }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = CreateEnquirySchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parsed.error.issues[0]?.message || 'Invalid enquiry',
+          details: parsed.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const { brandSlug, storeSlug, ...enquiryData } = parsed.data
+
+    // Resolve brand and store from the microsite slugs
+    const brand = await Brand.findOne({ slug: brandSlug.toLowerCase(), status: 'active' })
+      .select('name settings.enquirySla')
+      .lean()
+
+    if (!brand) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    const store = await Store.findOne({ slug: storeSlug.toLowerCase(), brandId: brand._id, status: 'active' })
+      .select('name')
+      .lean()
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    const now = new Date()
+    const enquiry = await Enquiry.create({
+      ...enquiryData,
+      phone: enquiryData.phone || undefined,
+      storeId: store._id,
+      brandId: brand._id,
+      storeName: store.name,
+      brandName: brand.name,
+      sla: EnquirySlaService.computeDeadlines(brand, now),
+      statusHistory: [{
+        toStatus: 'new',
+        changedBy: 'microsite',
+        changedByName: enquiryData.name,
+        changedAt: now
+      }]
+    })
+
+    await NotificationService.enquiryReceived(enquiry)
+      .catch(error => console.error('Error sending enquiry notification:', error))
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id: enquiry._id },
+        message: 'Enquiry submitted successfully'
+      },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    console.error('Error creating enquiry:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Brand } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getAllAccessibleAccounts, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/accounts', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
@@ -11,16 +12,22 @@ export async function GET(request: NextRequest) {
     const brandAccountIds = await getAllBrandAccountIds()
     
     // Find all brands with GMB integration for these accounts
-    const brands = await Brand.find({
+    const brandQuery: Record<string, unknown> = {
       'settings.gmbIntegration.connected': true,
       'settings.gmbIntegration.gmbAccountId': { $in: brandAccountIds }
-    }).select('name email settings.gmbIntegration').lean()
+    }
+    if (brandId) brandQuery._id = brandId
+
+    const brands = await Brand.find(brandQuery).select('name email settings.gmbIntegration').lean()
 
     // Create accounts for all brand account IDs
     const accounts = []
     
     for (const accountId of brandAccountIds) {
       const brand = brands.find(b => b.settings?.gmbIntegration?.gmbAccountId === accountId)
+
+      // Owners and managers only see the account connected to their own brand
+      if (brandId && !brand) continue
       
       // Determine account name based on stores
       let accountName = 'Unknown Account'
@@ -66,4 +73,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { PostCampaign } from '@/lib/database/models'
+import { PostCampaignService } from '@/lib/services/post-campaign-service'
+import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/gmb/campaigns/[id]/retry - Re-publish to the stores that failed
+export const POST = withRouteGuard('POST /api/gmb/campaigns/[id]/retry', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const tokens = await getGmbTokensFromRequest()
+    if (!tokens) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated with GMB' },
+        { status: 401 }
+      )
+    }
+
+    await connectDB()
+
+    const campaign = await PostCampaign.findById(id).select('status totals').lean()
+    if (!campaign) {
+      return NextResponse.json(
+        { success: false, error: 'Campaign not found' },
+        { status: 404 }
+      )
+    }
+
+    if (campaign.totals.failed === 0) {
+      return NextResponse.json(
+        { success: false, error: 'This campaign has no failed stores' },
+        { status: 400 }
+      )
+    }
+
+    const result = await PostCampaignService.runCampaign(id, tokens, { retryFailed: true })
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'This campaign is already running' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error retrying campaign:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to retry campaign' },
+      { status: 500 }
+    )
+  }
+})
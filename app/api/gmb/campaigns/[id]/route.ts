@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { PostCampaign } from '@/lib/database/models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/gmb/campaigns/[id] - Campaign with per-store results
+export const GET = withRouteGuard('GET /api/gmb/campaigns/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const campaign = await PostCampaign.findById(id).populate('brandId', 'name').lean()
+    if (!campaign) {
+      return NextResponse.json(
+        { success: false, error: 'Campaign not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: campaign
+    })
+
+  } catch (error) {
+    console.error('Error fetching campaign:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch campaign' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { PostCampaignService, getStoreLocationName } from '@/lib/services/post-campaign-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// POST /api/gmb/campaigns/preview - Stores a selection resolves to, before posting
+export const POST = withRouteGuard('POST /api/gmb/campaigns/preview', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { selection } = await request.json()
+
+    if (!brandId || !selection?.mode) {
+      return NextResponse.json(
+        { success: false, error: 'brandId and selection are required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const stores = await PostCampaignService.resolveStores(brandId, selection)
+    if (!stores) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store selection' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: stores.map(store => ({
+        _id: store._id,
+        name: store.name,
+        linked: !!getStoreLocationName(store)
+      }))
+    })
+
+  } catch (error) {
+    console.error('Error previewing campaign stores:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview stores' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { PostCampaign } from '@/lib/database/models'
+import { PostCampaignService } from '@/lib/services/post-campaign-service'
+import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// GET /api/gmb/campaigns - List multi-store post campaigns
+export const GET = withRouteGuard('GET /api/gmb/campaigns', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const query: Record<string, unknown> = {}
+
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    await connectDB()
+
+    const campaigns = await PostCampaign.find(query)
+      .select('-targets')
+      .populate('brandId', 'name')
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: campaigns
+    })
+
+  } catch (error) {
+    console.error('Error fetching campaigns:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch campaigns' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/gmb/campaigns - Create a campaign and publish it to every selected store
+export const POST = withRouteGuard('POST /api/gmb/campaigns', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const tokens = await getGmbTokensFromRequest()
+    if (!tokens) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated with GMB' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { name, selection, postData } = body
+
+    if (!name || !brandId || !selection?.mode || !postData) {
+      return NextResponse.json(
+        { success: false, error: 'name, brandId, selection and postData are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!postData.topicType || !postData.languageCode || !postData.summary) {
+      return NextResponse.json(
+        { success: false, error: 'topicType, languageCode, and summary are required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    // Resolved before anything is saved, so a selection that matches nothing leaves no campaign behind
+    const stores = await PostCampaignService.resolveStores(brandId, selection)
+    if (!stores) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store selection' },
+        { status: 400 }
+      )
+    }
+
+    if (stores.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No stores match this selection' },
+        { status: 400 }
+      )
+    }
+
+    const campaign = await PostCampaignService.createCampaign({
+      name,
+      brandId,
+      selection,
+      postData,
+      owner: {
+        userId: session.userId,
+        name: session.name,
+        email: session.email
+      }
+    }, stores)
+
+    const result = await PostCampaignService.runCampaign(String(campaign._id), tokens)
+
+    return NextResponse.json({
+      success: true,
+      data: result || campaign
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating campaign:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create campaign'
+      },
+      { status: 500 }
+    )
+  }
+})
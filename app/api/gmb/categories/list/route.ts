@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { GmbCategory } from '@/lib/database/category-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/gmb/categories/list - Get all GMB categories for dropdown from database
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/categories/list', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -91,4 +92,4 @@ export async function GET(request: NextRequest) {
       }
     })
   }
-}
+})
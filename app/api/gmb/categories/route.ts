@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/gmb/categories - Fetch GMB categories for store creation
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/categories', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -78,7 +79,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 
 
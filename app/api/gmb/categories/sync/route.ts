@@ -3,9 +3,10 @@ import connectDB from '@/lib/database/connection'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
 import { GmbCategory } from '@/lib/database/category-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // POST /api/gmb/categories/sync - Sync GMB categories to database
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/categories/sync', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -107,10 +108,10 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // GET /api/gmb/categories/sync - Get sync status
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/categories/sync', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -154,7 +155,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 
 
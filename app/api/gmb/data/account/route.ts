@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Brand } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getCurrentUserEmail } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/account', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
@@ -44,6 +45,7 @@ export async function GET(request: NextRequest) {
     const query: Record<string, unknown> = {}
     if (targetEmail) query.email = targetEmail
     if (id) query['settings.gmbIntegration.gmbAccountId'] = id
+    if (brandId) query._id = brandId
     
     // Only search if we have a valid query
     if (Object.keys(query).length === 0) {
@@ -93,4 +95,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
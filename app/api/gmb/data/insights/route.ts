@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Store, Brand } from '@/lib/database/models'
-import { PipelineStage } from 'mongoose'
+import mongoose, { PipelineStage } from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/insights', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
     const { searchParams } = new URL(request.url)
     const storeId = searchParams.get('storeId')
-    const brandId = searchParams.get('brandId')
     const email = searchParams.get('email')
     const limit = searchParams.get('limit')
     const skip = searchParams.get('skip')
@@ -18,9 +18,7 @@ export async function GET(request: NextRequest) {
     
     if (storeId) {
       query._id = storeId
-    } else if (brandId) {
-      query.brandId = brandId
-    } else if (email) {
+    } else if (email && !brandId) {
       // Find brand by email first
       const brand = await Brand.findOne({ 
         $or: [
@@ -38,6 +36,11 @@ export async function GET(request: NextRequest) {
       
       query.brandId = brand._id
     }
+
+    // Stay within the brand the request is scoped to
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
     
     // Only get stores that have GMB insights
     query['gmbData.insights.0'] = { $exists: true }
@@ -95,4 +98,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
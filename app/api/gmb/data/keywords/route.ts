@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { SearchKeyword } from '@/lib/database/models'
-import { PipelineStage } from 'mongoose'
+import mongoose, { PipelineStage } from 'mongoose'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/keywords', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
@@ -52,6 +53,7 @@ export async function GET(request: NextRequest) {
     if (accessibleAccountIds.length > 0) {
       query.accountId = { $in: accessibleAccountIds }
     }
+    if (brandId) query.brandId = new mongoose.Types.ObjectId(brandId)
     if (locationId) query.storeId = locationId
     if (year) query['period.year'] = parseInt(year)
     if (month) query['period.month'] = parseInt(month)
@@ -209,4 +211,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -3,8 +3,9 @@ import connectDB from '@/lib/database/connection'
 import { Brand, Store } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getCurrentAccountId, getAllBrandAccountIds, getCurrentUserEmail } from '@/lib/utils/auth-helpers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/locations', async (request: NextRequest, context, { brandId }) => {
   try {
     
     
@@ -39,7 +40,14 @@ export async function GET(request: NextRequest) {
     
     // Get the connected brand for the current user
     let brand
-    if (currentUserEmail) {
+    if (brandId) {
+      // Brand-scoped callers always see their own brand's stores
+      brand = await Brand.findOne({ 
+        _id: brandId,
+        'settings.gmbIntegration.connected': true
+      }).lean()
+      
+    } else if (currentUserEmail) {
       brand = await Brand.findOne({ 
         email: currentUserEmail,
         'settings.gmbIntegration.connected': true
@@ -189,4 +197,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -3,9 +3,10 @@ import connectDB from '@/lib/database/connection'
 import { Post } from '@/lib/database/separate-models'
 import { Store } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getCurrentAccountId } from '@/lib/utils/auth-helpers'
-import { PipelineStage } from 'mongoose'
+import mongoose, { PipelineStage } from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/posts', async (request: NextRequest, context, { brandId }) => {
   const startTime = Date.now()
   
   try {
@@ -46,6 +47,10 @@ export async function GET(request: NextRequest) {
       status,
       accountId: currentAccountId // Only show posts for current user's account
     }
+
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
     
     // Store filtering
     if (storeId) {
@@ -260,4 +265,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -3,9 +3,10 @@ import connectDB from '@/lib/database/connection'
 import { Review } from '@/lib/database/separate-models'
 import { Store } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getCurrentUserEmail, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
-import { PipelineStage } from 'mongoose'
+import mongoose, { PipelineStage } from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/reviews', async (request: NextRequest, context, { brandId }) => {
   const startTime = Date.now()
   
   try {
@@ -15,7 +16,6 @@ export async function GET(request: NextRequest) {
     const requestedAccountId = searchParams.get('accountId')
     const locationId = searchParams.get('locationId')
     const storeId = searchParams.get('storeId')
-    const brandId = searchParams.get('brandId')
     const viewType = searchParams.get('viewType') // 'brand' or 'store' or 'all'
     const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined // No default limit
     const skip = parseInt(searchParams.get('skip') || '0')
@@ -67,6 +67,10 @@ export async function GET(request: NextRequest) {
     
     // Build query for reviews with account-based filtering
     const query: Record<string, unknown> = { status }
+
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
     
     // Only filter by account if we have a specific account ID
     if (accountIdToUse) {
@@ -402,4 +406,4 @@ export async function GET(request: NextRequest) {
       { status: statusCode }
     )
   }
-}
+})
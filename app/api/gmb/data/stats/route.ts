@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Brand, Store } from '@/lib/database/models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/stats', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
@@ -11,8 +12,13 @@ export async function GET(request: NextRequest) {
     const locationId = searchParams.get('locationId')
     
     // Build queries for GMB-connected data
-    const brandQuery = { 'settings.gmbIntegration.connected': true }
+    const brandQuery: Record<string, unknown> = { 'settings.gmbIntegration.connected': true }
     const storeQuery: Record<string, any> = { gmbLocationId: { $exists: true, $ne: null } }
+
+    if (brandId) {
+      brandQuery._id = brandId
+      storeQuery.brandId = brandId
+    }
     
     // Add location-specific filtering if provided
     if (locationId) {
@@ -119,4 +125,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
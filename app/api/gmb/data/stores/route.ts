@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Store, Brand } from '@/lib/database/models'
-import { PipelineStage } from 'mongoose'
+import mongoose, { PipelineStage } from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/data/stores', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
     const { searchParams } = new URL(request.url)
-    const brandId = searchParams.get('brandId')
     const email = searchParams.get('email')
     const includeGmbData = searchParams.get('includeGmbData') === 'true'
     const limit = searchParams.get('limit')
@@ -17,7 +17,7 @@ export async function GET(request: NextRequest) {
     const query: Record<string, unknown> = { status: 'active' }
     
     if (brandId) {
-      query.brandId = brandId
+      query.brandId = new mongoose.Types.ObjectId(brandId)
     } else if (email) {
       // Find brand by email first
       const brand = await Brand.findOne({ 
@@ -87,5 +87,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ImprovedSyncService } from '@/lib/services/improved-sync-service'
 import { GmbErrorHandler } from '@/lib/utils/error-handler'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/improved-sync', async (request: NextRequest) => {
   try {
-    const { tokens } = await request.json()
+    // fullSync: refetch everything instead of only what changed since the last sync
+    const { tokens, fullSync } = await request.json()
     
     if (!tokens) {
       return NextResponse.json(
@@ -18,7 +20,7 @@ export async function POST(request: NextRequest) {
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
       start(controller) {
-        improvedSyncGmbData(tokens, controller, encoder)
+        improvedSyncGmbData(tokens, controller, encoder, fullSync === true)
       }
     })
 
@@ -38,12 +40,13 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function improvedSyncGmbData(
   tokens: any, 
   controller: ReadableStreamDefaultController, 
-  encoder: TextEncoder
+  encoder: TextEncoder,
+  fullSync: boolean
 ) {
   let isControllerClosed = false
   let syncState: any = null
@@ -162,7 +165,8 @@ async function improvedSyncGmbData(
     const finalSyncState = await ImprovedSyncService.syncWithCheckpoints(
       tokens, 
       syncState, 
-      onProgress
+      onProgress,
+      { fullSync }
     )
 
     // Final completion
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SyncOrchestrator } from '@/lib/services/sync-orchestrator'
 import { GmbErrorHandler } from '@/lib/utils/error-handler'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/orchestrated-sync', async (request: NextRequest) => {
   try {
     const { tokens, config } = await request.json()
     
@@ -39,7 +40,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function orchestratedSyncGmbData(
   tokens: any,
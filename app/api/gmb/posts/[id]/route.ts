@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // DELETE - Delete a specific post
-export async function DELETE(
+export const DELETE = withRouteGuard('DELETE /api/gmb/posts/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -49,13 +50,13 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
 
 // GET - Get a specific post
-export async function GET(
+export const GET = withRouteGuard('GET /api/gmb/posts/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -97,5 +98,5 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
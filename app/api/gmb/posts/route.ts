@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET - Fetch posts for all locations
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/posts', async (request: NextRequest) => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -50,10 +51,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST - Create a new post
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/posts', async (request: NextRequest) => {
   try {
     const cookieStore = await cookies()
     const tokens = cookieStore.get('gmb-tokens')
@@ -103,6 +104,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { IScheduledPost, ScheduledPost } from '@/lib/database/models'
+import { ScheduledPostService } from '@/lib/services/scheduled-post-service'
+import { SessionData } from '@/lib/utils/session'
+import { canAccessBrand } from '@/lib/utils/permissions'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+function canManage(session: SessionData, post: IScheduledPost): boolean {
+  if (post.createdBy?.userId === session.userId) return true
+  if (!post.brandId) return session.role === 'super_admin'
+  return canAccessBrand(session.role, session.brandId, String(post.brandId))
+}
+
+async function loadPost(id: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null
+  await connectDB()
+  return ScheduledPost.findById(id)
+}
+
+// PATCH /api/gmb/posts/scheduled/[id] - Reschedule a queued or failed post
+export const PATCH = withRouteGuard('PATCH /api/gmb/posts/scheduled/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const post = await loadPost(id)
+    if (!post) {
+      return NextResponse.json(
+        { success: false, error: 'Scheduled post not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canManage(session, post)) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to change this post' },
+        { status: 403 }
+      )
+    }
+
+    const { scheduledFor } = await request.json()
+    const publishAt = new Date(scheduledFor)
+    if (!scheduledFor || isNaN(publishAt.getTime()) || publishAt <= new Date()) {
+      return NextResponse.json(
+        { success: false, error: 'scheduledFor must be a date in the future' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await ScheduledPostService.reschedule(id, publishAt)
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: `A ${post.status} post cannot be rescheduled` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updated
+    })
+
+  } catch (error) {
+    console.error('Error rescheduling post:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reschedule post' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/gmb/posts/scheduled/[id] - Cancel a queued or failed post
+export const DELETE = withRouteGuard('DELETE /api/gmb/posts/scheduled/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const post = await loadPost(id)
+    if (!post) {
+      return NextResponse.json(
+        { success: false, error: 'Scheduled post not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canManage(session, post)) {
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to cancel this post' },
+        { status: 403 }
+      )
+    }
+
+    const cancelled = await ScheduledPostService.cancel(id, session.name || session.email)
+    if (!cancelled) {
+      return NextResponse.json(
+        { success: false, error: `A ${post.status} post cannot be cancelled` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: cancelled
+    })
+
+  } catch (error) {
+    console.error('Error cancelling scheduled post:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel post' },
+      { status: 500 }
+    )
+  }
+})
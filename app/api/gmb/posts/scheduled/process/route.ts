@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { ScheduledPostService } from '@/lib/services/scheduled-post-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/gmb/posts/scheduled/process - Publish every scheduled post that is due
+export const POST = withRouteGuard('POST /api/gmb/posts/scheduled/process', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25') || 25, 100)
+
+    await connectDB()
+    const result = await ScheduledPostService.processDuePosts(limit)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error processing scheduled posts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to process scheduled posts' },
+      { status: 500 }
+    )
+  }
+})
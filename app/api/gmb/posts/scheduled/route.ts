@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { ScheduledPost } from '@/lib/database/models'
+import { ScheduledPostService, SCHEDULED_POST_STATUSES } from '@/lib/services/scheduled-post-service'
+import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/gmb/posts/scheduled - List queued posts (scoped to the user's brand)
+export const GET = withRouteGuard('GET /api/gmb/posts/scheduled', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    const query: Record<string, unknown> = {}
+
+    if (session.role !== 'super_admin') {
+      // Posts we could not link to a store are only visible to the person who scheduled them
+      query.$or = [
+        { brandId: new mongoose.Types.ObjectId(brandId) },
+        { 'createdBy.userId': session.userId }
+      ]
+    } else if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    if (status && status !== 'all') {
+      if (!(SCHEDULED_POST_STATUSES as readonly string[]).includes(status)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status' },
+          { status: 400 }
+        )
+      }
+      query.status = status
+    }
+
+    await connectDB()
+
+    const posts = await ScheduledPost.find(query)
+      .populate('storeId', 'name storeCode')
+      .sort({ scheduledFor: 1 })
+      .limit(500)
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: posts
+    })
+
+  } catch (error) {
+    console.error('Error fetching scheduled posts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch scheduled posts' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/gmb/posts/scheduled - Queue a post for publishing at a future time
+export const POST = withRouteGuard('POST /api/gmb/posts/scheduled', async (request: NextRequest, context, { session }) => {
+  try {
+    const tokens = await getGmbTokensFromRequest()
+    if (!tokens) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated with GMB' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { locationName, postData, scheduledFor } = body
+
+    if (!locationName || !postData || !scheduledFor) {
+      return NextResponse.json(
+        { success: false, error: 'locationName, postData and scheduledFor are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!postData.topicType || !postData.languageCode || !postData.summary) {
+      return NextResponse.json(
+        { success: false, error: 'topicType, languageCode, and summary are required' },
+        { status: 400 }
+      )
+    }
+
+    const publishAt = new Date(scheduledFor)
+    if (isNaN(publishAt.getTime()) || publishAt <= new Date()) {
+      return NextResponse.json(
+        { success: false, error: 'scheduledFor must be a date in the future' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const post = await ScheduledPostService.schedule({
+      locationName,
+      postData,
+      scheduledFor: publishAt,
+      tokens,
+      owner: {
+        userId: session.userId,
+        name: session.name,
+        email: session.email
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: post
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error scheduling post:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to schedule post'
+      },
+      { status: 500 }
+    )
+  }
+})
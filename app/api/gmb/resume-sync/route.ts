@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ImprovedSyncService } from '@/lib/services/improved-sync-service'
 import { GmbErrorHandler } from '@/lib/utils/error-handler'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/resume-sync', async (request: NextRequest) => {
   try {
     const { syncStateId, tokens } = await request.json()
     
@@ -37,7 +38,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function resumeSyncGmbData(
   syncStateId: string,
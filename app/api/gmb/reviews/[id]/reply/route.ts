@@ -4,17 +4,20 @@ import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import { Review } from '@/lib/database/separate-models'
 import { Store, Brand } from '@/lib/database/models'
 import connectDB from '@/lib/database/connection'
+import { ReplyTemplateService } from '@/lib/services/reply-template-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(
+export const POST = withRouteGuard('POST /api/gmb/reviews/[id]/reply', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
     
     const { id: reviewMongoId } = await params
     const body = await request.json()
-    const { comment } = body
+    // templateId: reply template the comment was filled in from, for usage tracking
+    const { comment, templateId } = body
     
     if (!comment || comment.trim().length === 0) {
       return NextResponse.json({
@@ -135,6 +138,12 @@ export async function POST(
       updatedAt: new Date()
     }, { new: true })
 
+    if (typeof templateId === 'string' && templateId) {
+      // The reply is already live, so a failed usage count must not fail the request
+      await ReplyTemplateService.recordUsage(templateId, review.brandId).catch(error => {
+        console.error('Failed to record reply template usage:', error)
+      })
+    }
 
     return NextResponse.json({
       success: true,
@@ -154,4 +163,4 @@ export async function POST(
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
@@ -4,12 +4,20 @@ import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import connectDB from '@/lib/database/connection'
 import { Store } from '@/lib/database/models'
 import { VerificationService } from '@/lib/services/verification-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/start-verification', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
     const { locationName, verificationOptions, storeId } = await request.json()
+
+    if (storeId && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
     
     if (!locationName || !verificationOptions) {
       return NextResponse.json(
@@ -78,4 +86,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -3,12 +3,13 @@ import connectDB from '@/lib/database/connection'
 import { Store, Brand } from '@/lib/database/models'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/gmb/stores/[id] - Get a specific GMB store
-export async function GET(
+export const GET = withRouteGuard('GET /api/gmb/stores/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
 
@@ -104,13 +105,13 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
 // PUT /api/gmb/stores/[id] - Update a store in GMB
-export async function PUT(
+export const PUT = withRouteGuard('PUT /api/gmb/stores/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
 
@@ -219,13 +220,13 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/gmb/stores/[id] - Delete a store from GMB
-export async function DELETE(
+export const DELETE = withRouteGuard('DELETE /api/gmb/stores/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
 
@@ -283,4 +284,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
@@ -3,9 +3,10 @@ import connectDB from '@/lib/database/connection'
 import { Store, Brand } from '@/lib/database/models'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/gmb/stores - Get all GMB stores for the authenticated account
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/stores', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -78,10 +79,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/gmb/stores - Create a new store in GMB
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/stores', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -170,7 +171,6 @@ export async function POST(request: NextRequest) {
           owner: {
             name: body.brandName || 'Business Owner',
             email: body.brandEmail || 'gmb@example.com',
-            password: 'gmb-auto-generated',
             role: 'owner'
           }
         },
@@ -240,4 +240,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
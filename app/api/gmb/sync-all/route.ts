@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import GmbSyncService from '@/lib/services/gmb-sync-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // POST /api/gmb/sync-all - Sync all GMB data to database
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/sync-all', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -41,10 +42,10 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // GET /api/gmb/sync-all - Get sync statistics
-export async function GET() {
+export const GET = withRouteGuard('GET /api/gmb/sync-all', async () => {
   try {
     await connectDB()
 
@@ -61,5 +62,5 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
@@ -3,6 +3,7 @@ import { GmbApiServerService } from '@/lib/server/gmb-api-server'
 import connectDB from '@/lib/database/connection'
 import { Brand, Store, Review, Post, Performance, SearchKeyword } from '@/lib/database/models'
 import { GmbErrorHandler } from '@/lib/utils/error-handler'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // Helper function to convert GMB star rating to numeric value
 function convertStarRating(gmbStarRating: string | number): number {
@@ -21,7 +22,7 @@ function convertStarRating(gmbStarRating: string | number): number {
   return ratingMap[gmbStarRating] || 0
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/sync-data', async (request: NextRequest) => {
   try {
     const { tokens } = await request.json()
     
@@ -58,7 +59,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function syncGmbData(tokens: any, controller: ReadableStreamDefaultController, encoder: TextEncoder) {
   let isControllerClosed = false
@@ -123,7 +124,6 @@ async function syncGmbData(tokens: any, controller: ReadableStreamDefaultControl
             owner: {
               name: accountData.name || 'Business Owner',
               email: accountData.email,
-              password: 'gmb-auto-generated', // Will be changed on first login
               role: 'owner'
             }
           },
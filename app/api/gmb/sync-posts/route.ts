@@ -3,8 +3,9 @@ import { GmbApiServerService } from '@/lib/server/gmb-api-server'
 import { ImprovedSyncService } from '@/lib/services/improved-sync-service'
 import { getGmbTokensFromRequest, getCurrentAccountId } from '@/lib/utils/auth-helpers'
 import connectDB from '@/lib/database/connection'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/sync-posts', async (request: NextRequest) => {
   const startTime = Date.now()
   
   try {
@@ -185,5 +186,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
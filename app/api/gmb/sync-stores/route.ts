@@ -3,9 +3,10 @@ import connectDB from '@/lib/database/connection'
 import { Store, Brand } from '@/lib/database/models'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // POST /api/gmb/sync-stores - Sync all stores from GMB to database
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/sync-stores', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -85,7 +86,6 @@ export async function POST(request: NextRequest) {
               owner: {
                 name: accountInfo.name || 'Business Owner',
                 email: accountInfo.email,
-                password: 'gmb-auto-generated',
                 role: 'owner'
               }
             },
@@ -214,4 +214,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
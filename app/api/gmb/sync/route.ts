@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Brand, Store, Review, Post, Performance, SearchKeyword } from '@/lib/database/models'
 import { PerformanceDataProcessor } from '@/lib/utils/performance-utils'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // Helper function to convert GMB star rating to numeric value
 function convertStarRating(gmbStarRating: string | number): number {
@@ -20,7 +21,7 @@ function convertStarRating(gmbStarRating: string | number): number {
   return ratingMap[gmbStarRating] || 0
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/sync', async (request: NextRequest) => {
   try {
     // Connect to database with retry mechanism
     let dbConnected = false
@@ -83,7 +84,6 @@ export async function POST(request: NextRequest) {
           owner: {
             name: data.account.name || 'Business Owner',
             email: data.account.email,
-            password: 'gmb-auto-generated', // Will be changed on first login
             role: 'owner'
           }
         },
@@ -669,4 +669,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
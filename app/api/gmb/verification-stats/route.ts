@@ -3,15 +3,23 @@ import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import connectDB from '@/lib/database/connection'
 import { VerificationService } from '@/lib/services/verification-service'
 import { Store } from '@/lib/database/models'
+import { hasPermission } from '@/lib/utils/permissions'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/gmb/verification-stats', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
     const { searchParams } = new URL(request.url)
-    const brandId = searchParams.get('brandId')
     const storeId = searchParams.get('storeId')
 
+    if (storeId && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
     // Get GMB tokens for authentication check
     const tokens = await getGmbTokensFromRequest()
     if (!tokens) {
@@ -68,13 +76,20 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/verification-stats', async (request: NextRequest, context, { session, brandId }) => {
   try {
     await connectDB()
     
-    const { action, storeId, brandId } = await request.json()
+    const { action, storeId } = await request.json()
+
+    if (storeId && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
     
     // Get GMB tokens for authentication check
     const tokens = await getGmbTokensFromRequest()
@@ -87,6 +102,14 @@ export async function POST(request: NextRequest) {
 
     switch (action) {
       case 'cleanup':
+        // Touches every store, so only system administrators may run it
+        if (!hasPermission(session.role, 'editSystemSettings')) {
+          return NextResponse.json(
+            { success: false, error: 'You do not have permission to perform this action' },
+            { status: 403 }
+          )
+        }
+
         // Clean up old verification attempts
         const cleanedCount = await VerificationService.cleanupOldVerificationAttempts()
         
@@ -129,5 +152,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Store } from '@/lib/database/models'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { NotificationService } from '@/lib/services/notification-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
 // Helper function to get GMB tokens
 async function getGmbTokensFromRequest(request: NextRequest) {
@@ -25,7 +27,7 @@ async function getGmbTokensFromRequest(request: NextRequest) {
   return null
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/verify-bulk', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
@@ -45,6 +47,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await storesInScope(storeIds, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
     // Get GMB tokens
     const tokens = await getGmbTokensFromRequest(request)
 
@@ -139,6 +148,10 @@ export async function POST(request: NextRequest) {
         )
 
         if (updatedStore) {
+          if (previousVerifiedStatus !== newVerifiedStatus) {
+            await NotificationService.verificationChanged(updatedStore, newVerifiedStatus)
+              .catch(error => console.error('Error sending verification notification:', error))
+          }
           results.push({
             storeId: updatedStore._id,
             storeName: updatedStore.name,
@@ -192,5 +205,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
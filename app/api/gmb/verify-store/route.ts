@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Store } from '@/lib/database/models'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { NotificationService } from '@/lib/services/notification-service'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
 // Helper function to get GMB tokens
 async function getGmbTokensFromRequest(request: NextRequest) {
@@ -26,7 +28,7 @@ async function getGmbTokensFromRequest(request: NextRequest) {
   return null
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/verify-store', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
     
@@ -39,6 +41,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await storesInScope(storeId, brandId))) {
+      return NextResponse.json(
+        { success: false, error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
     // Get GMB tokens
     const tokens = await getGmbTokensFromRequest(request)
 
@@ -131,6 +140,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (previousVerifiedStatus !== newVerifiedStatus) {
+      await NotificationService.verificationChanged(updatedStore, newVerifiedStatus)
+        .catch(error => console.error('Error sending verification notification:', error))
+    }
+
     // Determine the appropriate message based on status change
     let message = 'Store verification status updated'
     if (previousVerifiedStatus !== newVerifiedStatus) {
@@ -167,4 +181,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
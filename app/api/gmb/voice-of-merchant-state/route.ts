@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/gmb/voice-of-merchant-state', async (request: NextRequest) => {
   try {
     const { locationName } = await request.json()
     
@@ -44,5 +45,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET() {
+export const GET = withRouteGuard('GET /api/health', async () => {
   return NextResponse.json({ 
     status: 'ok', 
     timestamp: new Date().toISOString(),
     uptime: process.uptime()
   })
-}
+})
 
-export async function HEAD() {
+export const HEAD = withRouteGuard('HEAD /api/health', async () => {
   return new NextResponse(null, { status: 200 })
-}
+})
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { IVR_INGESTION_OUTCOMES, IvrIngestionLog, IvrIngestionOutcome } from '@/lib/database/ivr-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+/**
+ * GET /api/ivr-calls/[brandId]/ingestion-logs
+ *
+ * Webhook delivery attempts for a brand, newest first.
+ * Optional query parameters:
+ * - page: Page number (default: 1)
+ * - limit: Items per page (default: 50, max: 200)
+ * - outcome: accepted | duplicate | rejected | error
+ * - startDate / endDate: Filter on when the delivery was received
+ */
+export const GET = withRouteGuard('GET /api/ivr-calls/[brandId]/ingestion-logs', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) => {
+  try {
+    await connectDB()
+    const { brandId } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(brandId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid brand ID format' },
+        { status: 400 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50')))
+    const outcome = searchParams.get('outcome')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+
+    // Rejected deliveries may never have resolved to a brand, so match the raw route segment too
+    const query: Record<string, unknown> = {
+      $or: [
+        { brandId: new mongoose.Types.ObjectId(brandId) },
+        { brandParam: brandId }
+      ]
+    }
+
+    if (startDate || endDate) {
+      const dateFilter: Record<string, Date> = {}
+      if (startDate) dateFilter.$gte = new Date(startDate)
+      if (endDate) dateFilter.$lte = new Date(endDate)
+      query.receivedAt = dateFilter
+    }
+
+    // The summary counts every outcome in the range, whichever one is listed
+    const summaryQuery = { ...query }
+
+    if (outcome) {
+      if (!IVR_INGESTION_OUTCOMES.includes(outcome as IvrIngestionOutcome)) {
+        return NextResponse.json(
+          { success: false, error: `outcome must be one of ${IVR_INGESTION_OUTCOMES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      query.outcome = outcome
+    }
+
+    const [logs, total, outcomeCounts] = await Promise.all([
+      IvrIngestionLog.find(query)
+        .sort({ receivedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      IvrIngestionLog.countDocuments(query),
+      IvrIngestionLog.aggregate<{ _id: IvrIngestionOutcome; count: number }>([
+        { $match: summaryQuery },
+        { $group: { _id: '$outcome', count: { $sum: 1 } } }
+      ])
+    ])
+
+    const summary = Object.fromEntries(IVR_INGESTION_OUTCOMES.map(key => [key, 0])) as Record<IvrIngestionOutcome, number>
+    for (const { _id, count } of outcomeCounts) {
+      summary[_id] = count
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: logs,
+      summary,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching IVR ingestion logs:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch IVR ingestion logs' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
-import { IVRCall, Brand, Store } from '@/lib/database/models'
+import { IVRCall } from '@/lib/database/models'
 import mongoose from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+import { checkRateLimit, getClientIp } from '@/lib/utils/rate-limit'
+import { IvrIngestionService, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '@/lib/services/ivr-ingestion-service'
 
 /**
  * POST /api/ivr-calls/[brandId]
@@ -31,142 +34,56 @@ import mongoose from 'mongoose'
  * 
  * Sample Response:
  * {"status":200,"message":"Added succssfully"}
+ *
+ * Deliveries must be signed with the brand's ingestion secret:
+ * - X-Storecom-Timestamp: unix seconds when the request was signed
+ * - X-Storecom-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * Repeated deliveries of the same call (virtual number, customer number and
+ * start time) are acknowledged without creating a second record. Every
+ * attempt is written to the ingestion log. Each IP may send up to
+ * WEBHOOK_RATE_LIMIT deliveries a minute.
  */
-export async function POST(
+// Per sending IP; providers deliver in bursts, so this only stops floods
+const WEBHOOK_RATE_LIMIT = 300
+const WEBHOOK_RATE_WINDOW_MS = 60 * 1000 // 1 minute
+
+export const POST = withRouteGuard('POST /api/ivr-calls/[brandId]', async (
   request: NextRequest,
   context: { params: Promise<{ brandId: string }> }
-) {
-  try {
-    // Await the params object to get brandId
-    const { brandId } = await context.params
-
-    // Connect to database
-    await connectDB()
-
-    // Validate brandId is a valid MongoDB ObjectId
-    if (!mongoose.Types.ObjectId.isValid(brandId)) {
-      return NextResponse.json(
-        { status: 400, message: 'Invalid brand ID format' },
-        { status: 400 }
-      )
-    }
-
-    // Verify brand exists
-    const brand = await Brand.findById(brandId)
-    if (!brand) {
-      return NextResponse.json(
-        { status: 404, message: 'Brand not found' },
-        { status: 404 }
-      )
-    }
-
-    // Parse request body
-    const body = await request.json()
-
-    // Parse date-time strings (format: "2025-10-07 15:45:44")
-    const parseDateTime = (dateTimeStr: string): Date => {
-      // Replace space with 'T' to make it ISO-compatible
-      const isoStr = dateTimeStr.replace(' ', 'T')
-      return new Date(isoStr)
-    }
-
-    const callStartTime = parseDateTime(body.call_start_time)
-    const callEndTime = parseDateTime(body.call_end_time)
-
-    // Calculate duration in seconds
-    const durationSeconds = Math.max(
-      0,
-      Math.floor((callEndTime.getTime() - callStartTime.getTime()) / 1000)
-    )
+) => {
+  const ip = getClientIp(request)
+  const rateLimit = checkRateLimit(`ivr-webhook:${ip}`, WEBHOOK_RATE_LIMIT, WEBHOOK_RATE_WINDOW_MS)
 
-    // Try to find matching store by name or identifier
-    let storeId: mongoose.Types.ObjectId | undefined = undefined
-    if (body.Store_Name || body.Store_id) {
-      const store = await Store.findOne({
-        brandId: new mongoose.Types.ObjectId(brandId),
-        $or: [
-          { name: { $regex: body.Store_Name || '', $options: 'i' } },
-          { storeCode: { $regex: body.Store_id || '', $options: 'i' } }
-        ]
-      })
-      if (store) {
-        storeId = store._id as mongoose.Types.ObjectId
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { status: 429, message: 'Too many requests. Please try again later.' },
+      {
+        status: 429,
+        headers: { 'Retry-After': rateLimit.retryAfterSeconds.toString() }
       }
-    }
+    )
+  }
 
-    // Create IVR Call record
-    const ivrCall = new IVRCall({
-      brandId: new mongoose.Types.ObjectId(brandId),
-      storeId,
-      customerName: body.customer_name || '',
-      customerNumber: body.customer_number ? String(body.customer_number) : undefined,
-      publisherType: body.publisher_type || 'waybeo',
-      leadType: body.lead_type || 'InboundCalls',
-      storeIdentifier: body.Store_id || undefined,
-      storeName: body.Store_Name || undefined,
-      location: body.Location || undefined,
-      callStartTime,
-      callEndTime,
-      callStatus: body.call_status || 'Unknown',
-      callType: body.call_type || undefined,
-      virtualNumber: body.virtual_number ? String(body.virtual_number) : undefined,
-      callRecordingUrl: body.call_recording_url !== 'N/A' ? body.call_recording_url : undefined,
-      duration: body.conversation_duration && body.ring_duration 
-        ? body.conversation_duration + body.ring_duration
-        : durationSeconds,
-      conversationDuration: body.conversation_duration || 0,
-      ringDuration: body.ring_duration || 0,
-      status: 'active'
-    })
+  // Await the params object to get brandId
+  const { brandId } = await context.params
 
-    // Save to database
-    await ivrCall.save()
+  // Connect to database
+  await connectDB()
 
-    // Return success response in the format expected by the caller
-    return NextResponse.json(
-      { 
-        status: 200, 
-        message: 'Added succssfully', // Keeping the typo to match the expected response
-        data: {
-          id: ivrCall._id,
-          brandId: ivrCall.brandId,
-          storeId: ivrCall.storeId,
-          customerNumber: ivrCall.customerNumber,
-          callStatus: ivrCall.callStatus,
-          callStartTime: ivrCall.callStartTime,
-          duration: ivrCall.duration
-        }
-      },
-      { status: 200 }
-    )
+  // The signature covers the exact bytes received, so read the body raw
+  const rawBody = await request.text()
 
-  } catch (error) {
-    console.error('Error saving IVR call:', error)
-    
-    // Handle specific MongoDB errors
-    if (error && typeof error === 'object' && 'name' in error) {
-      if (error.name === 'ValidationError') {
-        return NextResponse.json(
-          { 
-            status: 400, 
-            message: 'Validation error',
-            error: error instanceof Error ? error.message : 'Unknown validation error'
-          },
-          { status: 400 }
-        )
-      }
-    }
+  const { httpStatus, body } = await IvrIngestionService.ingest({
+    brandParam: brandId,
+    rawBody,
+    signature: request.headers.get(SIGNATURE_HEADER),
+    timestamp: request.headers.get(TIMESTAMP_HEADER),
+    ipAddress: ip
+  })
 
-    return NextResponse.json(
-      { 
-        status: 500, 
-        message: 'Internal server error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    )
-  }
-}
+  return NextResponse.json(body, { status: httpStatus })
+})
 
 /**
  * GET /api/ivr-calls/[brandId]
@@ -179,10 +96,10 @@ export async function POST(
  * - startDate: Filter calls from this date
  * - endDate: Filter calls until this date
  */
-export async function GET(
+export const GET = withRouteGuard('GET /api/ivr-calls/[brandId]', async (
   request: NextRequest,
   context: { params: Promise<{ brandId: string }> }
-) {
+) => {
   try {
     // Await the params object to get brandId
     const { brandId } = await context.params
@@ -266,5 +183,5 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { Brand } from '@/lib/database/models'
+import { IvrIngestionService, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '@/lib/services/ivr-ingestion-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/ivr-calls/[brandId]/secret - Whether webhook signing is configured
+export const GET = withRouteGuard('GET /api/ivr-calls/[brandId]/secret', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) => {
+  try {
+    await connectDB()
+    const { brandId } = await params
+
+    const brand = await Brand.findById(brandId)
+      .select('+settings.ivrIngestion.secret')
+      .lean()
+
+    if (!brand) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        configured: Boolean(brand.settings?.ivrIngestion?.secret),
+        rotatedAt: brand.settings?.ivrIngestion?.secretRotatedAt || null
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching IVR ingestion secret status:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch IVR ingestion secret status' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/ivr-calls/[brandId]/secret - Generate or rotate the webhook secret.
+// The secret is only returned here; share it with the IVR provider right away.
+export const POST = withRouteGuard('POST /api/ivr-calls/[brandId]/secret', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) => {
+  try {
+    await connectDB()
+    const { brandId } = await params
+
+    const secret = IvrIngestionService.generateSecret()
+    const rotatedAt = new Date()
+
+    const brand = await Brand.findByIdAndUpdate(
+      brandId,
+      {
+        $set: {
+          'settings.ivrIngestion.secret': secret,
+          'settings.ivrIngestion.secretRotatedAt': rotatedAt
+        }
+      },
+      { new: true }
+    ).select('_id')
+
+    if (!brand) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        secret,
+        rotatedAt,
+        signatureHeader: SIGNATURE_HEADER,
+        timestampHeader: TIMESTAMP_HEADER
+      },
+      message: 'IVR ingestion secret rotated. Deliveries signed with the old secret will be rejected.'
+    })
+  } catch (error) {
+    console.error('Error rotating IVR ingestion secret:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to rotate IVR ingestion secret' },
+      { status: 500 }
+    )
+  }
+})
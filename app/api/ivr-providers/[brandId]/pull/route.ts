@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { IvrIngestionService } from '@/lib/services/ivr-ingestion-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/ivr-providers/[brandId]/pull - Fetch new calls from the brand's provider now
+export const POST = withRouteGuard('POST /api/ivr-providers/[brandId]/pull', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) => {
+  try {
+    const { brandId } = await params
+    if (!mongoose.Types.ObjectId.isValid(brandId)) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    await connectDB()
+
+    const result = await IvrIngestionService.pullCalls(brandId)
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, error: result.error, data: result },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('Error pulling IVR calls:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to pull IVR calls' },
+      { status: 400 }
+    )
+  }
+})
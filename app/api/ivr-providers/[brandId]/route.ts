@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { Brand } from '@/lib/database/models'
+import { IVR_INGESTION_SOURCES, IVR_PROVIDER_NAMES } from '@/lib/database/ivr-models'
+import { publicUrlError } from '@/lib/server/public-fetch'
+import { IVR_CALL_FIELDS, summarizeIvrProvider } from '@/lib/services/ivr-provider'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const UpdateIvrProviderSchema = z.object({
+  name: z.enum(IVR_PROVIDER_NAMES),
+  mode: z.enum(IVR_INGESTION_SOURCES),
+  pullUrl: z.url('Pull URL must be a valid URL')
+    .refine(url => publicUrlError(url) === null, 'Pull URL must use https and point to a public host')
+    .optional()
+    .or(z.literal('')),
+  // Secrets left out are kept; an empty string clears them
+  credentials: z.object({
+    apiKey: z.string().trim().optional(),
+    username: z.string().trim().optional(),
+    password: z.string().optional()
+  }).optional(),
+  // Replaces the whole mapping when given
+  fieldMapping: z.partialRecord(z.enum(IVR_CALL_FIELDS), z.string().trim().min(1, 'Field mapping paths cannot be empty')).optional()
+}).refine(config => config.mode !== 'pull' || Boolean(config.pullUrl), {
+  message: 'Pull URL is required when calls are pulled from the provider',
+  path: ['pullUrl']
+}).refine(config => config.name !== 'generic' || Boolean(config.fieldMapping?.callStartTime), {
+  message: 'Custom providers must map callStartTime',
+  path: ['fieldMapping']
+})
+
+// GET /api/ivr-providers/[brandId] - IVR provider settings of a brand
+export const GET = withRouteGuard('GET /api/ivr-providers/[brandId]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) => {
+  try {
+    const { brandId } = await params
+    if (!mongoose.Types.ObjectId.isValid(brandId)) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    await connectDB()
+
+    const brand = await Brand.findById(brandId)
+      .select('settings.ivrProvider +settings.ivrProvider.credentials.apiKey +settings.ivrProvider.credentials.password')
+      .lean()
+    if (!brand) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeIvrProvider(brand.settings?.ivrProvider)
+    })
+  } catch (error) {
+    console.error('Error fetching IVR provider settings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch IVR provider settings' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/ivr-providers/[brandId] - Configure a brand's IVR provider
+export const PUT = withRouteGuard('PUT /api/ivr-providers/[brandId]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) => {
+  try {
+    const { brandId } = await params
+    if (!mongoose.Types.ObjectId.isValid(brandId)) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = UpdateIvrProviderSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid IVR provider settings' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const { name, mode, pullUrl, credentials, fieldMapping } = parsed.data
+    const set: Record<string, unknown> = {
+      'settings.ivrProvider.name': name,
+      'settings.ivrProvider.mode': mode
+    }
+    const unset: Record<string, 1> = {}
+
+    // Empty values clear the setting
+    const assign = (path: string, value: unknown) => {
+      if (value === '') unset[path] = 1
+      else set[path] = value
+    }
+
+    assign('settings.ivrProvider.pullUrl', pullUrl || '')
+    if (credentials?.username !== undefined) assign('settings.ivrProvider.credentials.username', credentials.username)
+    if (credentials?.apiKey !== undefined) assign('settings.ivrProvider.credentials.apiKey', credentials.apiKey)
+    if (credentials?.password !== undefined) assign('settings.ivrProvider.credentials.password', credentials.password)
+    if (fieldMapping) set['settings.ivrProvider.fieldMapping'] = fieldMapping
+
+    const brand = await Brand.findByIdAndUpdate(
+      brandId,
+      { $set: set, ...(Object.keys(unset).length > 0 && { $unset: unset }) },
+      { new: true, runValidators: true }
+    )
+      .select('settings.ivrProvider +settings.ivrProvider.credentials.apiKey +settings.ivrProvider.credentials.password')
+      .lean()
+    if (!brand) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeIvrProvider(brand.settings?.ivrProvider),
+      message: 'IVR provider settings updated'
+    })
+  } catch (error) {
+    console.error('Error updating IVR provider settings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update IVR provider settings' },
+      { status: 500 }
+    )
+  }
+})
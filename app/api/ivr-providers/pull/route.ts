@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { IvrIngestionService } from '@/lib/services/ivr-ingestion-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/ivr-providers/pull - Fetch new calls for every brand whose provider is pulled from
+export const POST = withRouteGuard('POST /api/ivr-providers/pull', async () => {
+  try {
+    await connectDB()
+
+    const results = await IvrIngestionService.pullAllBrands()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        brands: results.length,
+        failed: results.filter(result => result.error).length,
+        results
+      }
+    })
+  } catch (error) {
+    console.error('Error pulling IVR calls:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to pull IVR calls' },
+      { status: 500 }
+    )
+  }
+})
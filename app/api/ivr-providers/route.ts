@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { Brand } from '@/lib/database/models'
+import { listIvrProviders, summarizeIvrProvider } from '@/lib/services/ivr-provider'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/ivr-providers - Supported IVR providers and the brands' call tracking settings
+export const GET = withRouteGuard('GET /api/ivr-providers', async (
+  request: NextRequest,
+  context,
+  { brandId }
+) => {
+  try {
+    await connectDB()
+
+    const brands = await Brand.find(brandId ? { _id: brandId } : { status: { $ne: 'inactive' } })
+      .select('name settings.ivrProvider settings.ivrIngestion.secretRotatedAt')
+      .sort({ name: 1 })
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        providers: listIvrProviders(),
+        brands: brands.map(brand => ({
+          brandId: brand._id,
+          name: brand.name,
+          provider: summarizeIvrProvider(brand.settings?.ivrProvider),
+          webhookSecretRotatedAt: brand.settings?.ivrIngestion?.secretRotatedAt || null
+        }))
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching IVR providers:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch IVR providers' },
+      { status: 500 }
+    )
+  }
+})
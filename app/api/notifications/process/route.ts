@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { NotificationService } from '@/lib/services/notification-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/notifications/process - Retry failed instant notifications and send the digests that are due
+export const POST = withRouteGuard('POST /api/notifications/process', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+
+    await connectDB()
+    const result = await NotificationService.processPending(limit)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error processing notifications:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to process notifications' },
+      { status: 500 }
+    )
+  }
+})
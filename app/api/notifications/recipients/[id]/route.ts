@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import {
+  NOTIFICATION_DELIVERY_MODES,
+  NOTIFICATION_EVENTS,
+  NotificationDelivery,
+  NotificationRecipient
+} from '@/lib/database/notification-models'
+import { NotificationService } from '@/lib/services/notification-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const UpdateRecipientSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  target: z.string().trim().min(1, 'Email address or webhook URL is required').max(500).optional(),
+  // null removes the secret and stops signing
+  webhookSecret: z.string().trim().min(16, 'Webhook secret must be at least 16 characters').max(200).nullable().optional(),
+  storeIds: z.array(z.string().trim().min(1)).max(500).optional(),
+  events: z.array(z.enum(NOTIFICATION_EVENTS)).min(1, 'Pick at least one event').optional(),
+  mode: z.enum(NOTIFICATION_DELIVERY_MODES).optional(),
+  isActive: z.boolean().optional()
+})
+
+// PATCH /api/notifications/recipients/[id] - Change a recipient's target, stores, events or delivery mode
+export const PATCH = withRouteGuard('PATCH /api/notifications/recipients/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => null)
+    const parsed = UpdateRecipientSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid notification recipient' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const recipient = await NotificationRecipient.findById(id).select('+webhookSecret')
+    if (!recipient) {
+      return NextResponse.json(
+        { success: false, error: 'Notification recipient not found' },
+        { status: 404 }
+      )
+    }
+
+    const { name, target, webhookSecret, storeIds, events, mode, isActive } = parsed.data
+    const recipientError = await NotificationService.recipientError(recipient.brandId, {
+      channel: recipient.channel,
+      target: target ?? recipient.target,
+      storeIds,
+      events
+    })
+    if (recipientError) {
+      return NextResponse.json(
+        { success: false, error: recipientError },
+        { status: 400 }
+      )
+    }
+
+    if (name !== undefined) recipient.name = name
+    if (target !== undefined) recipient.target = target
+    if (webhookSecret !== undefined && recipient.channel === 'webhook') {
+      recipient.set('webhookSecret', webhookSecret ?? undefined)
+    }
+    if (storeIds !== undefined) recipient.set('storeIds', storeIds)
+    if (events !== undefined) recipient.set('events', Array.from(new Set(events)))
+    if (mode !== undefined) recipient.mode = mode
+    if (isActive !== undefined) recipient.isActive = isActive
+    await recipient.save()
+
+    const { webhookSecret: secret, ...data } = recipient.toObject()
+
+    return NextResponse.json({
+      success: true,
+      data: { ...data, hasWebhookSecret: Boolean(secret) }
+    })
+
+  } catch (error) {
+    console.error('Error updating notification recipient:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update notification recipient' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/notifications/recipients/[id] - Remove a recipient and drop what was waiting for it
+export const DELETE = withRouteGuard('DELETE /api/notifications/recipients/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const result = await NotificationRecipient.deleteOne({ _id: id })
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Notification recipient not found' },
+        { status: 404 }
+      )
+    }
+
+    await NotificationDelivery.updateMany(
+      { recipientId: id, status: 'pending' },
+      { $set: { status: 'failed', lastError: 'Recipient was deleted' }, $unset: { nextAttemptAt: 1 } }
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notification recipient deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting notification recipient:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete notification recipient' },
+      { status: 500 }
+    )
+  }
+})
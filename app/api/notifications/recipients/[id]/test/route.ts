@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { NotificationService } from '@/lib/services/notification-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/notifications/recipients/[id]/test - Send a sample notification to check the recipient works
+export const POST = withRouteGuard('POST /api/notifications/recipients/[id]/test', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+    await NotificationService.sendTest(id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Test notification sent'
+    })
+
+  } catch (error) {
+    console.error('Error sending test notification:', error)
+    // Delivery errors (SMTP replies, webhook status) tell the user what to fix
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to send test notification' },
+      { status: 502 }
+    )
+  }
+})
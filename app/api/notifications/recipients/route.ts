@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_DELIVERY_MODES,
+  NOTIFICATION_EVENTS,
+  NotificationRecipient
+} from '@/lib/database/notification-models'
+import { NotificationService } from '@/lib/services/notification-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const CreateRecipientSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  channel: z.enum(NOTIFICATION_CHANNELS),
+  target: z.string().trim().min(1, 'Email address or webhook URL is required').max(500),
+  webhookSecret: z.string().trim().min(16, 'Webhook secret must be at least 16 characters').max(200).optional(),
+  storeIds: z.array(z.string().trim().min(1)).max(500).default([]),
+  events: z.array(z.enum(NOTIFICATION_EVENTS)).min(1, 'Pick at least one event'),
+  mode: z.enum(NOTIFICATION_DELIVERY_MODES).default('instant'),
+  isActive: z.boolean().default(true)
+})
+
+// GET /api/notifications/recipients - List who receives a brand's notifications
+export const GET = withRouteGuard('GET /api/notifications/recipients', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const query: Record<string, unknown> = {}
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    await connectDB()
+
+    const recipients = await NotificationRecipient.find(query)
+      .select('+webhookSecret')
+      .sort({ createdAt: 1 })
+      .populate('storeIds', 'name')
+      .limit(200)
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      // Secrets never leave the server
+      data: recipients.map(({ webhookSecret, ...recipient }) => ({ ...recipient, hasWebhookSecret: Boolean(webhookSecret) }))
+    })
+
+  } catch (error) {
+    console.error('Error fetching notification recipients:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch notification recipients' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/notifications/recipients - Add an email or webhook recipient
+export const POST = withRouteGuard('POST /api/notifications/recipients', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = CreateRecipientSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid notification recipient' },
+        { status: 400 }
+      )
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const { webhookSecret, ...recipient } = parsed.data
+    const recipientError = await NotificationService.recipientError(brandId, recipient)
+    if (recipientError) {
+      return NextResponse.json(
+        { success: false, error: recipientError },
+        { status: 400 }
+      )
+    }
+
+    const created = await NotificationRecipient.create({
+      ...recipient,
+      // Only webhooks are signed
+      ...(recipient.channel === 'webhook' && webhookSecret && { webhookSecret }),
+      events: Array.from(new Set(recipient.events)),
+      brandId,
+      createdBy: {
+        userId: session.userId,
+        name: session.name,
+        email: session.email
+      }
+    })
+
+    const { webhookSecret: secret, ...data } = created.toObject()
+
+    return NextResponse.json({
+      success: true,
+      data: { ...data, hasWebhookSecret: Boolean(secret) }
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating notification recipient:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create notification recipient' },
+      { status: 500 }
+    )
+  }
+})
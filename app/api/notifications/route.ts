@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import {
+  Notification,
+  NOTIFICATION_EVENTS,
+  NotificationDelivery,
+  NotificationEvent
+} from '@/lib/database/notification-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+/**
+ * GET /api/notifications
+ *
+ * Notifications sent for a brand, newest first, with how each delivery went.
+ * Optional query parameters:
+ * - page / limit: Pagination (default: 1 / 20)
+ * - event: Only this event type
+ * - storeId: Only this store's notifications
+ */
+export const GET = withRouteGuard('GET /api/notifications', async (request: NextRequest, context, { brandId }) => {
+  try {
+    await connectDB()
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+    const event = searchParams.get('event')
+    const storeId = searchParams.get('storeId')
+
+    const query: Record<string, unknown> = {}
+    if (brandId) query.brandId = brandId
+    if (event && event !== 'all') {
+      if (!NOTIFICATION_EVENTS.includes(event as NotificationEvent)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid event' },
+          { status: 400 }
+        )
+      }
+      query.event = event
+    }
+    if (storeId && mongoose.Types.ObjectId.isValid(storeId)) query.storeId = storeId
+
+    const [notifications, totalCount] = await Promise.all([
+      Notification.find(query)
+        .populate('storeId', 'name')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Notification.countDocuments(query)
+    ])
+
+    const deliveries = await NotificationDelivery.find({ notificationId: { $in: notifications.map(notification => notification._id) } })
+      .populate('recipientId', 'name target')
+      .select('notificationId recipientId channel mode status attempts lastError sentAt')
+      .lean()
+
+    const deliveriesByNotification = new Map<string, typeof deliveries>()
+    for (const delivery of deliveries) {
+      const key = String(delivery.notificationId)
+      deliveriesByNotification.set(key, [...(deliveriesByNotification.get(key) || []), delivery])
+    }
+
+    const totalPages = Math.ceil(totalCount / limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        notifications: notifications.map(notification => ({
+          ...notification,
+          deliveries: deliveriesByNotification.get(String(notification._id)) || []
+        })),
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        }
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { CompetitiveContextService } from '@/lib/services/competitive-context-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/performance/competitive - Per-store competitive context (peer benchmark, consistency, trend)
+export const GET = withRouteGuard('GET /api/performance/competitive', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '90') || 90, 14), 365)
+    const query: Record<string, unknown> = {}
+
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    await connectDB()
+
+    const contexts = await CompetitiveContextService.computeForStores(query, days)
+
+    return NextResponse.json({
+      success: true,
+      data: contexts,
+      days
+    })
+
+  } catch (error) {
+    console.error('Error computing competitive context:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to compute competitive context' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Performance } from '@/lib/database/separate-models'
 import { connectToDatabase } from '@/lib/database/connection'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/performance/debug', async (request: NextRequest) => {
   try {
     await connectToDatabase()
 
@@ -52,6 +53,6 @@ export async function GET(request: NextRequest) {
     console.error('Performance debug error:', error)
     return NextResponse.json({ success: false, error: 'Failed to debug performance data' }, { status: 500 })
   }
-}
+})
 
 
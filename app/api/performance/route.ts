@@ -2,14 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { Performance } from '@/lib/database/separate-models'
 import { connectToDatabase } from '@/lib/database/connection'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
+import mongoose from 'mongoose'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/performance', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const { searchParams } = new URL(request.url)
     const storeId = searchParams.get('storeId')
-    const brandId = searchParams.get('brandId')
     const accountId = searchParams.get('accountId')
     const periodType = searchParams.get('periodType')
     const days = searchParams.get('days')
@@ -20,6 +21,13 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status') || 'active'
     const groupBy = searchParams.get('groupBy') // New parameter for grouping
     
+    if (storeId && storeId !== 'all' && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
+
     // Get tokens from request to filter by accessible GMB accounts
     const tokens = await getGmbTokensFromRequest()
     let accessibleAccountIds: string[] = []
@@ -34,7 +42,7 @@ export async function GET(request: NextRequest) {
     const query: Record<string, unknown> = { status }
     
     if (storeId && storeId !== 'all') query.storeId = storeId
-    if (brandId && brandId !== 'all') query.brandId = brandId
+    if (brandId) query.brandId = new mongoose.Types.ObjectId(brandId)
     if (accountId) {
       query.accountId = accountId
     } else if (accessibleAccountIds.length > 0) {
@@ -68,7 +76,7 @@ export async function GET(request: NextRequest) {
         status, 
         'period.dateRange.days': parseInt(days),
         ...(storeId && storeId !== 'all' ? { storeId } : {}),
-        ...(brandId && brandId !== 'all' ? { brandId } : {}),
+        ...(brandId ? { brandId } : {}),
         ...(accountId ? { accountId } : accessibleAccountIds.length > 0 ? { accountId: { $in: accessibleAccountIds } } : {})
       })
       
@@ -359,16 +367,16 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/performance', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const body = await request.json()
     
     // Validate required fields
-    const { storeId, brandId, accountId, period } = body
+    const { storeId, accountId, period } = body
     
     if (!storeId || !brandId || !accountId || !period?.startTime || !period?.endTime) {
       return NextResponse.json({
@@ -376,6 +384,13 @@ export async function POST(request: NextRequest) {
         error: 'Missing required fields'
       }, { status: 400 })
     }
+
+    if (!(await storesInScope(storeId, brandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
     
     // Check if performance data already exists for this period
     const existingPerformance = await Performance.findOne({
@@ -422,4 +437,4 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
@@ -3,13 +3,13 @@ import { Performance } from '@/lib/database/separate-models'
 import { connectToDatabase } from '@/lib/database/connection'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
 import mongoose from 'mongoose'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/performance/store-wise', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const { searchParams } = new URL(request.url)
-    const brandId = searchParams.get('brandId')
     const storeId = searchParams.get('storeId')
     const accountId = searchParams.get('accountId')
     const periodType = searchParams.get('periodType')
@@ -20,6 +20,13 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status') || 'active'
     const limit = parseInt(searchParams.get('limit') || '1000') // Higher default for comprehensive data
     
+    if (storeId && storeId !== 'all' && !(await storesInScope(storeId, brandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
+
     // Get tokens from request to filter by accessible GMB accounts
     const tokens = await getGmbTokensFromRequest()
     let accessibleAccountIds: string[] = []
@@ -32,7 +39,7 @@ export async function GET(request: NextRequest) {
     // Build query
     const query: Record<string, unknown> = { status }
     
-    if (brandId && brandId !== 'all') query.brandId = brandId
+    if (brandId) query.brandId = new mongoose.Types.ObjectId(brandId)
     
     if (storeId && storeId !== 'all') {
       // Handle comma-separated store IDs - convert to ObjectId
@@ -395,5 +402,5 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
@@ -2,14 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { Post } from '@/lib/database/separate-models'
 import { Store, Brand } from '@/lib/database/models'
 import { connectToDatabase } from '@/lib/database/connection'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/posts', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const { searchParams } = new URL(request.url)
     const storeId = searchParams.get('storeId')
-    const brandId = searchParams.get('brandId')
     const accountId = searchParams.get('accountId')
     const topicType = searchParams.get('topicType')
     const state = searchParams.get('state')
@@ -62,16 +62,16 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/posts', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const body = await request.json()
     
     // Validate required fields
-    const { gmbPostId, storeId, brandId, accountId, gmbCreateTime } = body
+    const { gmbPostId, storeId, accountId, gmbCreateTime } = body
     
     if (!gmbPostId || !storeId || !brandId || !accountId || !gmbCreateTime) {
       return NextResponse.json({
@@ -79,6 +79,13 @@ export async function POST(request: NextRequest) {
         error: 'Missing required fields'
       }, { status: 400 })
     }
+
+    if (!(await storesInScope(storeId, brandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
     
     // Check if post already exists
     const existingPost = await Post.findOne({ gmbPostId })
@@ -110,4 +117,4 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { TrackedKeyword } from '@/lib/database/rank-tracker-models'
+import { RankTrackerService } from '@/lib/services/rank-tracker-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/rank-tracker/history?keywordIds=a,b&days=30 - Rank history for trend charts
+export const GET = withRouteGuard('GET /api/rank-tracker/history', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const keywordIds = (searchParams.get('keywordIds') || '')
+      .split(',')
+      .filter(id => mongoose.Types.ObjectId.isValid(id))
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 365)
+
+    if (keywordIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'At least one keyword is required' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    // Only return history for keywords the user can see
+    const keywordQuery: Record<string, unknown> = { _id: { $in: keywordIds } }
+    if (brandId) keywordQuery.brandId = brandId
+
+    const keywords = await TrackedKeyword.find(keywordQuery).select('_id').lean()
+    const allowedIds = keywords.map(keyword => String(keyword._id))
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const history = await RankTrackerService.getHistory(allowedIds, since)
+
+    return NextResponse.json({
+      success: true,
+      data: history
+    })
+
+  } catch (error) {
+    console.error('Error fetching rank history:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch rank history' },
+      { status: 500 }
+    )
+  }
+})
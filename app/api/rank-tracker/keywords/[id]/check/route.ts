@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { TrackedKeyword } from '@/lib/database/rank-tracker-models'
+import { RankTrackerService } from '@/lib/services/rank-tracker-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/rank-tracker/keywords/[id]/check - Check a keyword's rank now
+export const POST = withRouteGuard('POST /api/rank-tracker/keywords/[id]/check', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const keyword = await TrackedKeyword.findById(id)
+    if (!keyword) {
+      return NextResponse.json(
+        { success: false, error: 'Keyword not found' },
+        { status: 404 }
+      )
+    }
+
+    let check
+    try {
+      check = await RankTrackerService.checkKeyword(keyword)
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Rank check failed' },
+        { status: 502 }
+      )
+    }
+
+    const updated = await TrackedKeyword.findById(id)
+      .populate('brandId', 'name')
+      .populate('storeId', 'name storeCode')
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        keyword: updated,
+        check
+      }
+    })
+
+  } catch (error) {
+    console.error('Error checking keyword rank:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to check keyword rank' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { RankCheck, TrackedKeyword } from '@/lib/database/rank-tracker-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// PATCH /api/rank-tracker/keywords/[id] - Pause/resume or change check frequency
+export const PATCH = withRouteGuard('PATCH /api/rank-tracker/keywords/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json()
+    const { status, frequency } = body
+
+    if (status && !['active', 'paused'].includes(status)) {
+      return NextResponse.json(
+        { success: false, error: 'Status must be active or paused' },
+        { status: 400 }
+      )
+    }
+
+    if (frequency && !['daily', 'weekly'].includes(frequency)) {
+      return NextResponse.json(
+        { success: false, error: 'Frequency must be daily or weekly' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const keyword = await TrackedKeyword.findById(id)
+    if (!keyword) {
+      return NextResponse.json(
+        { success: false, error: 'Keyword not found' },
+        { status: 404 }
+      )
+    }
+
+    if (status) {
+      keyword.status = status
+      // A resumed keyword is checked on the next run
+      if (status === 'active') keyword.nextCheckAt = new Date()
+    }
+    if (frequency) keyword.frequency = frequency
+    await keyword.save()
+
+    return NextResponse.json({
+      success: true,
+      data: keyword
+    })
+
+  } catch (error) {
+    console.error('Error updating tracked keyword:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update tracked keyword' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/rank-tracker/keywords/[id] - Stop tracking a keyword and drop its history
+export const DELETE = withRouteGuard('DELETE /api/rank-tracker/keywords/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const keyword = await TrackedKeyword.findById(id).select('brandId').lean()
+    if (!keyword) {
+      return NextResponse.json(
+        { success: false, error: 'Keyword not found' },
+        { status: 404 }
+      )
+    }
+
+    await RankCheck.deleteMany({ trackedKeywordId: keyword._id })
+    await TrackedKeyword.deleteOne({ _id: keyword._id })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Keyword deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting tracked keyword:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete tracked keyword' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { Store } from '@/lib/database/models'
+import { TrackedKeyword } from '@/lib/database/rank-tracker-models'
+import { RankTrackerService } from '@/lib/services/rank-tracker-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/rank-tracker/keywords - List tracked keywords
+export const GET = withRouteGuard('GET /api/rank-tracker/keywords', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const storeId = searchParams.get('storeId')
+    const query: Record<string, unknown> = {}
+
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
+    if (storeId && storeId !== 'all' && mongoose.Types.ObjectId.isValid(storeId)) {
+      query.storeId = new mongoose.Types.ObjectId(storeId)
+    }
+
+    await connectDB()
+
+    const keywords = await TrackedKeyword.find(query)
+      .populate('brandId', 'name')
+      .populate('storeId', 'name storeCode')
+      .sort({ createdAt: -1 })
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: keywords
+    })
+
+  } catch (error) {
+    console.error('Error fetching tracked keywords:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch tracked keywords' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/rank-tracker/keywords - Start tracking a keyword for a brand or store
+export const POST = withRouteGuard('POST /api/rank-tracker/keywords', async (request: NextRequest, context, { session, brandId: scopedBrandId }) => {
+  try {
+    const body = await request.json()
+    const { storeId, keyword, location, device, frequency, targetDomain, targetName } = body
+    let brandId = scopedBrandId
+
+    if (!keyword || typeof keyword !== 'string' || !keyword.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Keyword is required' },
+        { status: 400 }
+      )
+    }
+
+    if (device && !['desktop', 'mobile'].includes(device)) {
+      return NextResponse.json(
+        { success: false, error: 'Device must be desktop or mobile' },
+        { status: 400 }
+      )
+    }
+
+    if (frequency && !['daily', 'weekly'].includes(frequency)) {
+      return NextResponse.json(
+        { success: false, error: 'Frequency must be daily or weekly' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    // A store-level keyword always belongs to the store's brand
+    if (storeId) {
+      if (!mongoose.Types.ObjectId.isValid(storeId)) {
+        return NextResponse.json(
+          { success: false, error: 'Store not found' },
+          { status: 404 }
+        )
+      }
+      const store = await Store.findById(storeId).select('brandId').lean()
+      if (!store || (scopedBrandId && String(store.brandId) !== scopedBrandId)) {
+        return NextResponse.json(
+          { success: false, error: 'Store not found' },
+          { status: 404 }
+        )
+      }
+      brandId = String(store.brandId)
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await TrackedKeyword.findOne({
+      brandId,
+      storeId: storeId || { $exists: false },
+      keyword: keyword.trim(),
+      location: location?.trim() || { $exists: false },
+      device: device || 'mobile'
+    }).select('_id').lean()
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: 'This keyword is already being tracked' },
+        { status: 409 }
+      )
+    }
+
+    const tracked = await RankTrackerService.trackKeyword({
+      brandId,
+      storeId: storeId || undefined,
+      keyword: keyword.trim(),
+      location: location?.trim() || undefined,
+      device,
+      frequency,
+      targetDomain: targetDomain?.trim() || undefined,
+      targetName: targetName?.trim() || undefined,
+      createdBy: session.email
+    })
+
+    // Run the first check straight away so the table is not empty
+    try {
+      await RankTrackerService.checkKeyword(tracked)
+    } catch (error) {
+      console.error(`Initial rank check failed for keyword ${tracked._id}:`, error)
+    }
+
+    const data = await TrackedKeyword.findById(tracked._id)
+      .populate('brandId', 'name')
+      .populate('storeId', 'name storeCode')
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating tracked keyword:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create tracked keyword' },
+      { status: 500 }
+    )
+  }
+})
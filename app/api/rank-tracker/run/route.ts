@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { RankTrackerService } from '@/lib/services/rank-tracker-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/rank-tracker/run - Check every tracked keyword that is due
+export const POST = withRouteGuard('POST /api/rank-tracker/run', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+
+    await connectDB()
+
+    const result = await RankTrackerService.runDueChecks(limit)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error running rank checks:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run rank checks' },
+      { status: 500 }
+    )
+  }
+})
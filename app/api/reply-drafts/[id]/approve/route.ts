@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { ReplyDraft } from '@/lib/database/reply-models'
+import { ReplyDraftError, ReplyDraftService } from '@/lib/services/reply-draft-service'
+import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const ApproveReplyDraftSchema = z.object({
+  // Edited text to post instead of the draft's
+  comment: z.string().trim().min(1, 'Reply comment cannot be empty').max(1000, 'Replies must be at most 1000 characters').optional()
+})
+
+/**
+ * POST /api/reply-drafts/[id]/approve
+ *
+ * Post a pending draft to GMB as the review's reply, with the approver's
+ * edits when a comment is given.
+ */
+export const POST = withRouteGuard('POST /api/reply-drafts/[id]/approve', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = ApproveReplyDraftSchema.safeParse(body ?? {})
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const draft = await ReplyDraft.findById(id)
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'Reply draft not found' },
+        { status: 404 }
+      )
+    }
+
+    const approved = await ReplyDraftService.approve(
+      draft,
+      { userId: session.userId, name: session.name, email: session.email },
+      { comment: parsed.data.comment, tokens: await getGmbTokensFromRequest() }
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reply posted successfully',
+      data: approved
+    })
+
+  } catch (error) {
+    if (error instanceof ReplyDraftError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error approving reply draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to approve reply draft' },
+      { status: 500 }
+    )
+  }
+})
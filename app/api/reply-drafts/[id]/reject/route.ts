@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { ReplyDraft } from '@/lib/database/reply-models'
+import { ReplyDraftError, ReplyDraftService } from '@/lib/services/reply-draft-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const RejectReplyDraftSchema = z.object({
+  reason: z.string().trim().max(500, 'Reasons must be at most 500 characters').optional()
+})
+
+// POST /api/reply-drafts/[id]/reject - Send a draft back to its author without posting it
+export const POST = withRouteGuard('POST /api/reply-drafts/[id]/reject', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = RejectReplyDraftSchema.safeParse(body ?? {})
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const draft = await ReplyDraft.findById(id)
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'Reply draft not found' },
+        { status: 404 }
+      )
+    }
+
+    const rejected = await ReplyDraftService.reject(
+      draft,
+      { userId: session.userId, name: session.name, email: session.email },
+      parsed.data.reason
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: rejected
+    })
+
+  } catch (error) {
+    if (error instanceof ReplyDraftError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error rejecting reply draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reject reply draft' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { ReplyDraft } from '@/lib/database/reply-models'
+import { ReplyDraftError, ReplyDraftService } from '@/lib/services/reply-draft-service'
+import { hasPermission } from '@/lib/utils/permissions'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// DELETE /api/reply-drafts/[id] - Withdraw a pending draft (its author, or anyone who can approve it)
+export const DELETE = withRouteGuard('DELETE /api/reply-drafts/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const draft = await ReplyDraft.findById(id)
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'Reply draft not found' },
+        { status: 404 }
+      )
+    }
+
+    if (draft.author.userId !== session.userId && !hasPermission(session.role, 'replyToReview')) {
+      return NextResponse.json(
+        { success: false, error: 'Only the author can withdraw this draft' },
+        { status: 403 }
+      )
+    }
+
+    await ReplyDraftService.withdraw(draft)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reply draft withdrawn'
+    })
+
+  } catch (error) {
+    if (error instanceof ReplyDraftError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error withdrawing reply draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to withdraw reply draft' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { REPLY_DRAFT_STATUSES, ReplyDraft, ReplyDraftStatus } from '@/lib/database/reply-models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+/**
+ * GET /api/reply-drafts
+ *
+ * Reply drafts waiting for approval, oldest first, with their review.
+ * Optional query parameters:
+ * - page / limit: Pagination (default: 1 / 20)
+ * - status: pending | approved | rejected | withdrawn | all (default: pending)
+ * - mine: 'true' for the caller's own drafts only
+ */
+export const GET = withRouteGuard('GET /api/reply-drafts', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    await connectDB()
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+    const status = searchParams.get('status') || 'pending'
+    const mine = searchParams.get('mine') === 'true'
+
+    const query: Record<string, unknown> = {}
+    if (brandId) query.brandId = brandId
+    if (status !== 'all') {
+      if (!REPLY_DRAFT_STATUSES.includes(status as ReplyDraftStatus)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status' },
+          { status: 400 }
+        )
+      }
+      query.status = status
+    }
+    if (mine) query['author.userId'] = session.userId
+
+    const [drafts, totalCount] = await Promise.all([
+      ReplyDraft.find(query)
+        .populate('reviewId', 'reviewer starRating comment gmbCreateTime hasResponse')
+        .populate('storeId', 'name storeCode')
+        .sort(status === 'pending' ? { createdAt: 1 } : { updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      ReplyDraft.countDocuments(query)
+    ])
+
+    const totalPages = Math.ceil(totalCount / limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        drafts,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        }
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching reply drafts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reply drafts' },
+      { status: 500 }
+    )
+  }
+})
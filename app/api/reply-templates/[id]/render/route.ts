@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { ReplyTemplate } from '@/lib/database/reply-models'
+import { ReplyTemplateService } from '@/lib/services/reply-template-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const RenderReplyTemplateSchema = z.object({
+  reviewIds: z.array(z.string().trim().min(1)).min(1, 'At least one review is required').max(200, 'At most 200 reviews can be filled in at once')
+})
+
+/**
+ * POST /api/reply-templates/[id]/render
+ *
+ * Fill the template in for each review (reviewer name, store, city, rating),
+ * with a random variant per review. Reviews outside the template's rating
+ * range are returned as skipped. Nothing is posted; the replies are returned
+ * for editing and count as template usage once posted with the template id.
+ */
+export const POST = withRouteGuard('POST /api/reply-templates/[id]/render', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => null)
+    const parsed = RenderReplyTemplateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const template = await ReplyTemplate.findById(id)
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Reply template not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await ReplyTemplateService.renderForReviews(template, parsed.data.reviewIds)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error filling in reply template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fill in reply template' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { ReplyTemplate } from '@/lib/database/reply-models'
+import { MAX_TEMPLATE_VARIANTS, unknownVariables } from '@/lib/services/reply-template-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const UpdateReplyTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  variants: z.array(z.string().trim().min(1, 'Variants cannot be empty').max(1000, 'Variants must be at most 1000 characters'))
+    .min(1, 'At least one variant is required')
+    .max(MAX_TEMPLATE_VARIANTS, `At most ${MAX_TEMPLATE_VARIANTS} variants are allowed`)
+    .optional(),
+  minRating: z.number().int().min(1).max(5).optional(),
+  maxRating: z.number().int().min(1).max(5).optional(),
+  isActive: z.boolean().optional()
+})
+
+// GET /api/reply-templates/[id] - Single reply template
+export const GET = withRouteGuard('GET /api/reply-templates/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const template = await ReplyTemplate.findById(id).lean()
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Reply template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    })
+
+  } catch (error) {
+    console.error('Error fetching reply template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reply template' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/reply-templates/[id] - Edit a template, or switch it on or off
+export const PATCH = withRouteGuard('PATCH /api/reply-templates/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => null)
+    const parsed = UpdateReplyTemplateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid reply template' },
+        { status: 400 }
+      )
+    }
+
+    const unknown = unknownVariables((parsed.data.variants || []).join('\n'))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown template variables: ${unknown.map(name => `{{${name}}}`).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const template = await ReplyTemplate.findById(id)
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Reply template not found' },
+        { status: 404 }
+      )
+    }
+
+    const { name, variants, minRating, maxRating, isActive } = parsed.data
+    if ((minRating ?? template.minRating) > (maxRating ?? template.maxRating)) {
+      return NextResponse.json(
+        { success: false, error: 'Minimum rating cannot be above the maximum rating' },
+        { status: 400 }
+      )
+    }
+
+    if (name !== undefined) template.name = name
+    if (variants !== undefined) template.variants = variants
+    if (minRating !== undefined) template.minRating = minRating
+    if (maxRating !== undefined) template.maxRating = maxRating
+    if (isActive !== undefined) template.isActive = isActive
+    await template.save()
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    })
+
+  } catch (error) {
+    console.error('Error updating reply template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update reply template' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/reply-templates/[id] - Delete a reply template
+export const DELETE = withRouteGuard('DELETE /api/reply-templates/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+
+    const result = await ReplyTemplate.deleteOne({ _id: id })
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Reply template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reply template deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting reply template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete reply template' },
+      { status: 500 }
+    )
+  }
+})
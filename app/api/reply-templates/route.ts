@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { ReplyTemplate } from '@/lib/database/reply-models'
+import { MAX_TEMPLATE_VARIANTS, unknownVariables } from '@/lib/services/reply-template-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const CreateReplyTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  variants: z.array(z.string().trim().min(1, 'Variants cannot be empty').max(1000, 'Variants must be at most 1000 characters'))
+    .min(1, 'At least one variant is required')
+    .max(MAX_TEMPLATE_VARIANTS, `At most ${MAX_TEMPLATE_VARIANTS} variants are allowed`),
+  minRating: z.number().int().min(1).max(5).default(1),
+  maxRating: z.number().int().min(1).max(5).default(5),
+  isActive: z.boolean().default(true)
+}).refine(template => template.minRating <= template.maxRating, {
+  message: 'Minimum rating cannot be above the maximum rating',
+  path: ['minRating']
+})
+
+// GET /api/reply-templates - List a brand's reply templates
+export const GET = withRouteGuard('GET /api/reply-templates', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const rating = parseInt(searchParams.get('rating') || '')
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+    const query: Record<string, unknown> = {}
+
+    if (brandId) {
+      query.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+    if (!includeInactive) query.isActive = true
+    // Only templates offered for a review with this rating
+    if (rating >= 1 && rating <= 5) {
+      query.minRating = { $lte: rating }
+      query.maxRating = { $gte: rating }
+    }
+
+    await connectDB()
+
+    const templates = await ReplyTemplate.find(query)
+      .sort({ usageCount: -1, name: 1 })
+      .limit(200)
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: templates
+    })
+
+  } catch (error) {
+    console.error('Error fetching reply templates:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reply templates' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/reply-templates - Create a reply template
+export const POST = withRouteGuard('POST /api/reply-templates', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = CreateReplyTemplateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid reply template' },
+        { status: 400 }
+      )
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    const unknown = unknownVariables(parsed.data.variants.join('\n'))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown template variables: ${unknown.map(name => `{{${name}}}`).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const template = await ReplyTemplate.create({
+      ...parsed.data,
+      brandId,
+      createdBy: {
+        userId: session.userId,
+        name: session.name,
+        email: session.email
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating reply template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create reply template' },
+      { status: 500 }
+    )
+  }
+})
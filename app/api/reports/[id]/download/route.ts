@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { BrandReport } from '@/lib/database/report-models'
+import { reportFilename, WeeklyReportMetrics } from '@/lib/services/brand-report-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// GET /api/reports/[id]/download?format=pdf|html - Download an archived report
+export const GET = withRouteGuard('GET /api/reports/[id]/download', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'pdf'
+
+    if (format !== 'pdf' && format !== 'html') {
+      return NextResponse.json(
+        { success: false, error: 'Format must be pdf or html' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const report = await BrandReport.findById(id).select(format === 'pdf' ? '+pdf' : '+html')
+    const content = format === 'pdf' ? report?.pdf : report?.html
+    if (!report || !content) {
+      return NextResponse.json(
+        { success: false, error: 'Report not found' },
+        { status: 404 }
+      )
+    }
+
+    const filename = reportFilename((report.metrics as WeeklyReportMetrics).brandName, report.weekStart, format)
+
+    return new Response(typeof content === 'string' ? content : new Uint8Array(content), {
+      headers: {
+        'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error downloading report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to download report' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { BrandReportService } from '@/lib/services/brand-report-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/reports/[id]/send - Email an archived report to the brand's report recipients again
+export const POST = withRouteGuard('POST /api/reports/[id]/send', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    await connectDB()
+    const report = await BrandReportService.send(id)
+
+    if (report.status !== 'sent') {
+      // SMTP replies and missing recipients tell the user what to fix
+      return NextResponse.json(
+        { success: false, error: report.lastError || 'Failed to send report' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Report sent to ${report.emailedTo.length} recipient${report.emailedTo.length === 1 ? '' : 's'}`
+    })
+
+  } catch (error) {
+    console.error('Error sending report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to send report' },
+      { status: 500 }
+    )
+  }
+})
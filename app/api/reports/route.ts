@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { BrandReport } from '@/lib/database/report-models'
+import { BrandReportService, lastFullWeekStart } from '@/lib/services/brand-report-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+const GenerateReportSchema = z.object({
+  // Monday the week starts on (YYYY-MM-DD); defaults to last full week
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Week start must be a YYYY-MM-DD date').optional(),
+  send: z.boolean().default(false)
+})
+
+/**
+ * GET /api/reports
+ *
+ * Archived weekly reports of a brand, newest week first.
+ * Optional query parameters:
+ * - page / limit: Pagination (default: 1 / 20)
+ */
+export const GET = withRouteGuard('GET /api/reports', async (request: NextRequest, context, { brandId }) => {
+  try {
+    await connectDB()
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+
+    const query: Record<string, unknown> = {}
+    if (brandId) query.brandId = new mongoose.Types.ObjectId(brandId)
+
+    const [reports, totalCount] = await Promise.all([
+      BrandReport.find(query)
+        .populate('brandId', 'name')
+        .sort({ weekStart: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      BrandReport.countDocuments(query)
+    ])
+
+    const totalPages = Math.ceil(totalCount / limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reports,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        }
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching reports:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reports' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/reports - Generate (or regenerate) a brand's report for a week, optionally emailing it
+export const POST = withRouteGuard('POST /api/reports', async (request: NextRequest, context, { session, brandId }) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = GenerateReportSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid report request' },
+        { status: 400 }
+      )
+    }
+
+    if (!brandId) {
+      return NextResponse.json(
+        { success: false, error: 'Brand is required' },
+        { status: 400 }
+      )
+    }
+
+    const weekStart = parsed.data.weekStart ? new Date(`${parsed.data.weekStart}T00:00:00.000Z`) : lastFullWeekStart()
+    if (isNaN(weekStart.getTime()) || weekStart.getUTCDay() !== 1) {
+      return NextResponse.json(
+        { success: false, error: 'Week start must be a Monday' },
+        { status: 400 }
+      )
+    }
+    if (weekStart > lastFullWeekStart()) {
+      return NextResponse.json(
+        { success: false, error: 'Only completed weeks can be reported' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    let report = await BrandReportService.generate(brandId, weekStart, session.email)
+    if (parsed.data.send) {
+      report = await BrandReportService.send(report._id as mongoose.Types.ObjectId)
+    }
+
+    const { html, pdf, ...data } = report.toObject()
+
+    return NextResponse.json({
+      success: true,
+      data
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error generating report:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate report' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import { BrandReportService } from '@/lib/services/brand-report-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// POST /api/reports/run - Generate and email last week's report for every brand that is still missing it
+export const POST = withRouteGuard('POST /api/reports/run', async () => {
+  try {
+    await connectDB()
+    const result = await BrandReportService.runWeekly()
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Error running weekly reports:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run weekly reports' },
+      { status: 500 }
+    )
+  }
+})
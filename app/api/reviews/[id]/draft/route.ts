@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { ReplyDraftError, ReplyDraftService } from '@/lib/services/reply-draft-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const SaveReplyDraftSchema = z.object({
+  comment: z.string().trim().min(1, 'Reply comment is required').max(1000, 'Replies must be at most 1000 characters'),
+  // Reply template the comment was filled in from, counted as usage once approved
+  templateId: z.string().trim().optional()
+})
+
+/**
+ * POST /api/reviews/[id]/draft
+ *
+ * Save a reply draft for an owner to approve. Used by managers, who cannot
+ * post replies themselves; saving again replaces the review's pending draft.
+ */
+export const POST = withRouteGuard('POST /api/reviews/[id]/draft', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+
+    const body = await request.json().catch(() => null)
+    const parsed = SaveReplyDraftSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid reply draft' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const draft = await ReplyDraftService.saveDraft(id, parsed.data, {
+      userId: session.userId,
+      name: session.name,
+      email: session.email
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: draft
+    })
+
+  } catch (error) {
+    if (error instanceof ReplyDraftError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      )
+    }
+    console.error('Error saving reply draft:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save reply draft' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Review } from '@/lib/database/separate-models'
 import connectToDatabase from '@/lib/database/connection'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function GET(
+export const GET = withRouteGuard('GET /api/reviews/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectToDatabase()
     const { id } = await params
@@ -35,17 +36,21 @@ export async function GET(
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
-export async function PUT(
+export const PUT = withRouteGuard('PUT /api/reviews/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectToDatabase()
     const { id } = await params
     
     const body = await request.json()
+
+    // A review cannot be moved to another store or brand
+    delete body.storeId
+    delete body.brandId
     
     const review = await Review.findByIdAndUpdate(
       id,
@@ -75,12 +80,12 @@ export async function PUT(
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
-export async function DELETE(
+export const DELETE = withRouteGuard('DELETE /api/reviews/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectToDatabase()
     const { id } = await params
@@ -107,4 +112,4 @@ export async function DELETE(
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
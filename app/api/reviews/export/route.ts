@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectToDatabase from '@/lib/database/connection'
+import { ReviewExportService, buildReviewExportQuery } from '@/lib/services/review-export-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+export const runtime = 'nodejs'
+
+// GET /api/reviews/export?format=csv|xlsx&... - Stream reviews matching the page filters
+export const GET = withRouteGuard('GET /api/reviews/export', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'csv'
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        { success: false, error: 'Format must be csv or xlsx' },
+        { status: 400 }
+      )
+    }
+
+    const query = buildReviewExportQuery(searchParams, brandId ? { brandId } : {})
+    if (!query) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid export filters' },
+        { status: 400 }
+      )
+    }
+
+    await connectToDatabase()
+
+    const dateStamp = new Date().toISOString().split('T')[0]
+    const filename = `reviews-${dateStamp}.${format}`
+
+    const stream = format === 'xlsx'
+      ? await ReviewExportService.createXlsxStream(query)
+      : await ReviewExportService.createCsvStream(query)
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': format === 'xlsx'
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting reviews:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export reviews',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+})
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // Initialize Gemini AI
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '')
@@ -12,7 +13,7 @@ interface GenerateReplyRequest {
   platform: string
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/reviews/generate-reply', async (request: NextRequest) => {
   try {
     const body: GenerateReplyRequest = await request.json()
     const { reviewText, rating, customerName, storeName, platform } = body
@@ -110,10 +111,10 @@ Generate a professional reply that would be suitable for public posting on ${pla
       { status: 500 }
     )
   }
-}
+})
 
 // Handle OPTIONS request for CORS
-export async function OPTIONS() {
+export const OPTIONS = withRouteGuard('OPTIONS /api/reviews/generate-reply', async () => {
   return new NextResponse(null, {
     status: 200,
     headers: {
@@ -122,4 +123,4 @@ export async function OPTIONS() {
       'Access-Control-Allow-Headers': 'Content-Type',
     },
   })
-}
+})
@@ -4,14 +4,15 @@ import { Store, Brand } from '@/lib/database/models'
 import connectToDatabase from '@/lib/database/connection'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
 import mongoose from 'mongoose'
+import { storesInScope, withRouteGuard } from '@/lib/utils/route-guard'
+import { ReplyDraftService } from '@/lib/services/reply-draft-service'
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/reviews', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const { searchParams } = new URL(request.url)
     const storeId = searchParams.get('storeId')
-    const brandId = searchParams.get('brandId')
     const accountId = searchParams.get('accountId')
     const limit = parseInt(searchParams.get('limit') || '50')
     const skip = parseInt(searchParams.get('skip') || '0')
@@ -47,18 +48,9 @@ export async function GET(request: NextRequest) {
       }
     }
     
-    // Convert brandId to ObjectId if provided (brandId is a reference field)
+    // brandId is a reference field, so match it as an ObjectId
     if (brandId) {
-      try {
-        query.brandId = new mongoose.Types.ObjectId(brandId)
-        
-      } catch (error) {
-        console.error('Invalid brand ID format:', brandId)
-        return NextResponse.json({
-          success: false,
-          error: 'Invalid brand ID format'
-        }, { status: 400 })
-      }
+      query.brandId = new mongoose.Types.ObjectId(brandId)
     }
     
     // Filter by response status (replied/unresponded)
@@ -187,9 +179,14 @@ export async function GET(request: NextRequest) {
       }
     }
     
+    // Pending or rejected reply draft of each unanswered review
+    const drafts = await ReplyDraftService.latestDrafts(
+      reviews.filter(review => !review.hasResponse).map(review => review._id as mongoose.Types.ObjectId)
+    )
+
     return NextResponse.json({
       success: true,
-      data: reviews,
+      data: reviews.map(review => ({ ...review, draft: drafts.get(String(review._id)) || null })),
       count: reviews.length,
       totalCount,
       pagination,
@@ -204,16 +201,16 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/reviews', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
     const body = await request.json()
     
     // Validate required fields
-    const { gmbReviewId, storeId, brandId, accountId, reviewer, starRating, gmbCreateTime } = body
+    const { gmbReviewId, storeId, accountId, reviewer, starRating, gmbCreateTime } = body
     
     if (!gmbReviewId || !storeId || !brandId || !accountId || !reviewer?.displayName || !starRating || !gmbCreateTime) {
       return NextResponse.json({
@@ -221,6 +218,13 @@ export async function POST(request: NextRequest) {
         error: 'Missing required fields'
       }, { status: 400 })
     }
+
+    if (!(await storesInScope(storeId, brandId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Store not found'
+      }, { status: 404 })
+    }
     
     // Check if review already exists
     const existingReview = await Review.findOne({ gmbReviewId })
@@ -252,4 +256,4 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
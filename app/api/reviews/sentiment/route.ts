@@ -3,8 +3,9 @@ import { sentimentAnalyzer } from '@/lib/services/sentiment-analyzer'
 import { Review } from '@/lib/database/separate-models'
 import connectToDatabase from '@/lib/database/connection'
 import mongoose from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/reviews/sentiment', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
@@ -19,7 +20,8 @@ export async function POST(request: NextRequest) {
 
     // Get reviews from database
     const reviews = await Review.find({
-      _id: { $in: reviewIds.map(id => new mongoose.Types.ObjectId(id)) }
+      _id: { $in: reviewIds.map(id => new mongoose.Types.ObjectId(id)) },
+      ...(brandId ? { brandId } : {})
     }).select('_id comment starRating')
 
     if (reviews.length === 0) {
@@ -79,9 +81,9 @@ export async function POST(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/reviews/sentiment', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectToDatabase()
     
@@ -96,7 +98,10 @@ export async function GET(request: NextRequest) {
     }
 
     // Get single review
-    const review = await Review.findById(reviewId).select('_id comment starRating sentimentAnalysis')
+    const review = await Review.findOne({
+      _id: reviewId,
+      ...(brandId ? { brandId } : {})
+    }).select('_id comment starRating sentimentAnalysis')
     
     if (!review) {
       return NextResponse.json({
@@ -155,4 +160,4 @@ export async function GET(request: NextRequest) {
       details: error.message
     }, { status: 500 })
   }
-}
+})
@@ -4,12 +4,13 @@ import { Store } from '@/lib/database/models'
 import { deleteFromS3 } from '@/lib/services/aws-s3'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/stores/[id] - Get single store
-export async function GET(
+export const GET = withRouteGuard('GET /api/stores/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
     const { id } = await params
@@ -36,20 +37,22 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
 // PUT /api/stores/[id] - Update store
-export async function PUT(
+export const PUT = withRouteGuard('PUT /api/stores/[id]', async (
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
   try {
     await connectDB()
     const { id } = await params
 
     const body = await request.json()
 
-  
+    // Only super admins can move a store to another brand
+    if (session.role !== 'super_admin') delete body.brandId
 
     // Find existing store
     const existingStore = await Store.findById(id)
@@ -246,6 +249,9 @@ export async function PUT(
           if (body.storeCode) updateData.storeCode = body.storeCode
           if (body.slug) updateData.slug = body.slug
           if (body.status) updateData.status = body.status
+          if (body.description !== undefined) updateData.description = body.description
+          if (body.microsite?.tagline !== undefined) updateData['microsite.tagline'] = body.microsite.tagline
+          if (body.microsite?.aboutSection !== undefined) updateData['microsite.aboutSection'] = body.microsite.aboutSection
 
           // Handle microsite.mapsUrl updates - ensure both microsite.mapsUrl and gmbData.metadata.mapsUri are updated
           if (body.microsite?.mapsUrl) {
@@ -350,13 +356,13 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/stores/[id] - Delete store
-export async function DELETE(
+export const DELETE = withRouteGuard('DELETE /api/stores/[id]', async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     await connectDB()
     const { id } = await params
@@ -404,6 +410,6 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
 
 
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/database/connection'
+import {
+  StoreExportService,
+  buildStoreExportQuery,
+  parseStoreExportGroups
+} from '@/lib/services/store-export-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+// GET /api/stores/export?format=csv|json&columns=address,hours,...&... - Export stores matching the page filters
+export const GET = withRouteGuard('GET /api/stores/export', async (request: NextRequest, context, { brandId }) => {
+  try {
+    const { searchParams, origin } = new URL(request.url)
+    const format = searchParams.get('format') || 'csv'
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json(
+        { success: false, error: 'Format must be csv or json' },
+        { status: 400 }
+      )
+    }
+
+    const query = buildStoreExportQuery(searchParams, brandId)
+    if (!query) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid export filters' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const rows = await StoreExportService.buildRows(query, {
+      groups: parseStoreExportGroups(searchParams.get('columns')),
+      micrositeBaseUrl: origin
+    })
+
+    const dateStamp = new Date().toISOString().split('T')[0]
+    const filename = `stores-${dateStamp}.${format}`
+
+    const body = format === 'json'
+      ? JSON.stringify({ exportedAt: new Date().toISOString(), count: rows.length, stores: rows }, null, 2)
+      : StoreExportService.toCsv(rows)
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting stores:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to export stores',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+})
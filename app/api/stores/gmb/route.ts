@@ -3,9 +3,10 @@ import connectDB from '@/lib/database/connection'
 import { Store, Brand } from '@/lib/database/models'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/stores/gmb - Get stores with GMB integration
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/stores/gmb', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
 
@@ -14,7 +15,6 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '10')
     const search = searchParams.get('search') || ''
     const status = searchParams.get('status') || ''
-    const brandId = searchParams.get('brandId') || ''
     const includeGmbData = searchParams.get('includeGmbData') === 'true'
 
     const skip = (page - 1) * limit
@@ -135,4 +135,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
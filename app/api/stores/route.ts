@@ -2,11 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Store, Brand } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
-import { getSession } from '@/lib/utils/session'
 import { GmbApiServerService, GmbLocation } from '@/lib/server/gmb-api-server'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/stores - Get all stores with pagination and search
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/stores', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
 
@@ -15,23 +15,11 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '10000') // Increased to support large store lists
     const search = searchParams.get('search') || ''
     const status = searchParams.get('status') || ''
-    const brandId = searchParams.get('brandId') || ''
     const accountId = searchParams.get('accountId')
     const gmbLocationId = searchParams.get('gmbLocationId')
 
     const skip = (page - 1) * limit
 
-    // Get session from new auth system
-    const session = await getSession()
-    let userRole: string | null = null
-    let userBrandId: string | null = null
-    
-    if (session) {
-      userRole = session.role
-      userBrandId = session.brandId || null
-      
-    }
-    
     // Get tokens from request to filter by accessible GMB accounts (legacy fallback)
     const tokens = await getGmbTokensFromRequest()
     let accessibleAccountIds: string[] = []
@@ -47,22 +35,6 @@ export async function GET(request: NextRequest) {
     // Build query
     const query: Record<string, unknown> = {}
     
-    // Filter stores based on role
-    if (userRole === 'super_admin') {
-      // Super admin sees all stores (no additional filtering)
-
-    } else if (userRole === 'owner' || userRole === 'manager') {
-      // Owner/Manager only see stores for their brand
-      if (userBrandId) {
-        query.brandId = userBrandId
-        
-      } else {
-        // If no brandId, show no stores
-        query._id = { $exists: false }
-        
-      }
-    }
-    
     if (search) {
       query.$or = [
         { name: { $regex: search, $options: 'i' } },
@@ -171,16 +143,17 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/stores - Create new store
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/stores', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
 
     const body = await request.json()
 
-
+    // The guard has already checked a requested brand; owners default to their own
+    if (brandId) body.brandId = brandId
     
 
     // Validate required fields with user-friendly messages
@@ -472,6 +445,6 @@ export async function POST(request: NextRequest) {
       { status: statusCode }
     )
   }
-}
+})
 
 
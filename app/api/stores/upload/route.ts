@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { uploadToS3, deleteFromS3, fileToBuffer, generateFileKey } from '@/lib/services/aws-s3'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/stores/upload', async (request: NextRequest) => {
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
@@ -55,9 +56,9 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withRouteGuard('DELETE /api/stores/upload', async (request: NextRequest) => {
   try {
     const { key } = await request.json()
 
@@ -81,4 +82,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -2,18 +2,18 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Performance } from '@/lib/database/models'
 import { getGmbTokensFromRequest, getAllBrandAccountIds } from '@/lib/utils/auth-helpers'
-import { getSession } from '@/lib/utils/session'
+import mongoose from 'mongoose'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // GET /api/stores/with-performance - Get stores that have performance data
-export async function GET(request: NextRequest) {
+export const GET = withRouteGuard('GET /api/stores/with-performance', async (request: NextRequest, context, { brandId }) => {
   try {
     await connectDB()
 
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '1000')
 
-    // Get session and accessible account IDs
-    const session = await getSession()
+    // Get accessible account IDs
     const tokens = await getGmbTokensFromRequest()
     let accessibleAccountIds: string[] = []
     
@@ -26,30 +26,13 @@ export async function GET(request: NextRequest) {
       status: 'active'
     }
 
+    if (brandId) {
+      matchQuery.brandId = new mongoose.Types.ObjectId(brandId)
+    }
+
     // Filter by accessible accounts if available
     if (accessibleAccountIds.length > 0) {
       matchQuery.accountId = { $in: accessibleAccountIds }
-    } else if (session && session.email) {
-      // If no accessible accounts but we have a session, try to find user's brand
-      // This prevents showing other users' data
-      const { Brand } = await import('@/lib/database/models')
-      const userBrand = await Brand.findOne({
-        $or: [
-          { email: session.email },
-          { 'users.owner.email': session.email },
-          { 'users.manager.email': session.email }
-        ]
-      }).lean()
-      
-      if (userBrand && userBrand.settings?.gmbIntegration?.gmbAccountId) {
-        matchQuery.accountId = userBrand.settings.gmbIntegration.gmbAccountId
-      } else {
-        // If no brand found for user, return empty results to prevent data leakage
-        matchQuery.accountId = { $exists: false }
-      }
-    } else {
-      // If no session and no accessible accounts, return empty results
-      matchQuery.accountId = { $exists: false }
     }
 
     // Get unique stores that have performance data - use same approach as store-wise endpoint
@@ -123,4 +106,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { Review, Post, Performance, SearchKeyword } from '@/lib/database/models'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/test-db-save', async (request: NextRequest) => {
   try {
     await connectDB()
     
@@ -162,7 +163,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 
 
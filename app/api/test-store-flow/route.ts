@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import connectDB from '@/lib/database/connection'
 import { StoreManagementService } from '@/lib/services/store-management-service'
 import { getGmbTokensFromRequest } from '@/lib/utils/auth-helpers'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
 // POST /api/test-store-flow - Test the complete store management flow
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/test-store-flow', async (request: NextRequest) => {
   try {
     await connectDB()
 
@@ -245,4 +246,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
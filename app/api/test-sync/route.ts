@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ImprovedSyncService } from '@/lib/services/improved-sync-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
 
-export async function POST(request: NextRequest) {
+export const POST = withRouteGuard('POST /api/test-sync', async (request: NextRequest) => {
   try {
     const { tokens } = await request.json()
     
@@ -82,7 +83,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 
 
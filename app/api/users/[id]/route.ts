@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { User } from '@/lib/database/user-model'
+import { UserManagementService } from '@/lib/services/user-management-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const UpdateUserSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  role: z.enum(['super_admin', 'owner', 'manager']).optional(),
+  brandId: z.string().trim().optional().nullable(),
+  phone: z.string().trim().max(20).optional(),
+  status: z.enum(['active', 'inactive', 'suspended']).optional(),
+  password: z.string().min(8, 'Password must be at least 8 characters').optional()
+})
+
+// GET /api/users/[id] - Get a user
+export const GET = withRouteGuard('GET /api/users/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    await connectDB()
+
+    const user = await User.findById(id)
+      .select('-password -gmbTokens')
+      .populate('brandId', 'name')
+      .lean()
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: UserManagementService.toSummary(user)
+    })
+
+  } catch (error) {
+    console.error('Error fetching user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch user' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/users/[id] - Change a user's profile, role, brand, status or password
+export const PATCH = withRouteGuard('PATCH /api/users/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = UpdateUserSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid user' },
+        { status: 400 }
+      )
+    }
+
+    const changes = parsed.data
+
+    await connectDB()
+
+    const user = await User.findById(id)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Stop admins from locking themselves out
+    const isSelf = String(user._id) === session.userId
+    if (isSelf && changes.role && changes.role !== user.role) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot change your own role' },
+        { status: 400 }
+      )
+    }
+    if (isSelf && changes.status && changes.status !== 'active') {
+      return NextResponse.json(
+        { success: false, error: 'You cannot deactivate your own account' },
+        { status: 400 }
+      )
+    }
+
+    const role = changes.role ?? user.role
+    const brandId = changes.brandId !== undefined
+      ? changes.brandId
+      : user.brandId ? String(user.brandId) : null
+
+    if (changes.role !== undefined || changes.brandId !== undefined) {
+      const assignmentError = await UserManagementService.validateAssignment(role, brandId)
+      if (assignmentError) {
+        return NextResponse.json(
+          { success: false, error: assignmentError },
+          { status: 400 }
+        )
+      }
+
+      user.role = role
+      // Super admins are not tied to a brand
+      user.brandId = role === 'super_admin' || !brandId
+        ? undefined
+        : new mongoose.Types.ObjectId(brandId)
+    }
+
+    if (changes.name !== undefined) user.name = changes.name
+    if (changes.phone !== undefined) user.phone = changes.phone || undefined
+    if (changes.status !== undefined) user.status = changes.status
+    if (changes.password !== undefined) user.password = changes.password
+
+    await user.save()
+    await user.populate('brandId', 'name')
+
+    return NextResponse.json({
+      success: true,
+      data: UserManagementService.toSummary(user)
+    })
+
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/users/[id] - Delete a user
+export const DELETE = withRouteGuard('DELETE /api/users/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  { session }
+) => {
+  try {
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (id === session.userId) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot delete your own account' },
+        { status: 400 }
+      )
+    }
+
+    await connectDB()
+
+    const user = await User.findByIdAndDelete(id)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'User deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete user' },
+      { status: 500 }
+    )
+  }
+})
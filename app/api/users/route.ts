@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import connectDB from '@/lib/database/connection'
+import { User } from '@/lib/database/user-model'
+import { USER_ROLES, USER_STATUSES, UserManagementService } from '@/lib/services/user-management-service'
+import { withRouteGuard } from '@/lib/utils/route-guard'
+
+const CreateUserSchema = z.object({
+  email: z.string().trim().email('A valid email address is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  role: z.enum(USER_ROLES),
+  brandId: z.string().trim().optional().nullable(),
+  phone: z.string().trim().max(20).optional(),
+  status: z.enum(USER_STATUSES).default('active')
+})
+
+// Unknown values (e.g. "all") mean no filter
+const UserFiltersSchema = z.object({
+  role: z.enum(USER_ROLES).optional().catch(undefined),
+  status: z.enum(USER_STATUSES).optional().catch(undefined)
+})
+
+// Search text is matched literally
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// GET /api/users - List users with their brand and last login
+export const GET = withRouteGuard('GET /api/users', async (request: NextRequest, context, { brandId }) => {
+  try {
+    await connectDB()
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20'), 1), 100)
+    const { role, status } = UserFiltersSchema.parse({
+      role: searchParams.get('role') ?? undefined,
+      status: searchParams.get('status') ?? undefined
+    })
+    const search = searchParams.get('search')
+
+    const query: Record<string, unknown> = {}
+    if (brandId) query.brandId = brandId
+    if (role) query.role = role
+    if (status) query.status = status
+    if (search) {
+      const pattern = escapeRegex(search)
+      query.$or = [
+        { name: { $regex: pattern, $options: 'i' } },
+        { email: { $regex: pattern, $options: 'i' } }
+      ]
+    }
+
+    const skip = (page - 1) * limit
+
+    const [users, totalCount] = await Promise.all([
+      User.find(query)
+        .select('-password -gmbTokens')
+        .populate('brandId', 'name')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      User.countDocuments(query)
+    ])
+
+    const totalPages = Math.ceil(totalCount / limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        users: users.map(user => UserManagementService.toSummary(user)),
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalCount,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+          limit
+        }
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/users - Create a user
+export const POST = withRouteGuard('POST /api/users', async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = CreateUserSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid user' },
+        { status: 400 }
+      )
+    }
+
+    const { email, password, name, role, brandId, phone, status } = parsed.data
+
+    await connectDB()
+
+    const assignmentError = await UserManagementService.validateAssignment(role, brandId)
+    if (assignmentError) {
+      return NextResponse.json(
+        { success: false, error: assignmentError },
+        { status: 400 }
+      )
+    }
+
+    const existingUser = await User.findOne({ email: email.toLowerCase() }).select('_id').lean()
+    if (existingUser) {
+      return NextResponse.json(
+        { success: false, error: 'User with this email already exists' },
+        { status: 409 }
+      )
+    }
+
+    const user = new User({
+      email: email.toLowerCase(),
+      password,
+      name,
+      role,
+      brandId: role === 'super_admin' ? undefined : brandId,
+      phone: phone || undefined,
+      status
+    })
+    await user.save()
+    await user.populate('brandId', 'name')
+
+    return NextResponse.json({
+      success: true,
+      data: UserManagementService.toSummary(user)
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create user' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,23 +1,451 @@
-import { ComingSoon } from "@/components/dashboard/coming-soon"
-import { FileSearch } from "lucide-react"
+"use client"
+
+import { useState, useEffect } from "react"
+import { useAuth } from "@/lib/hooks/use-auth"
+import { useBrands } from "@/lib/hooks/use-gmb-data"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  RefreshCw,
+  FileSearch,
+  AlertTriangle,
+  AlertCircle,
+  Info,
+  ChevronDown,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  Eye
+} from "lucide-react"
+
+const SEVERITY_STYLES: Record<string, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-blue-100 text-blue-800',
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600'
+  if (score >= 60) return 'text-amber-600'
+  return 'text-red-600'
+}
 
 export default function AuditsPage() {
+  const { user } = useAuth()
+  const { brands } = useBrands()
+
+  const [data, setData] = useState<{ summary: any; stores: any[]; issues: any[] } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+  const [rerunningStoreId, setRerunningStoreId] = useState<string | null>(null)
+  const [brandFilter, setBrandFilter] = useState('all')
+  const [severityFilter, setSeverityFilter] = useState('all')
+  const [expandedIssues, setExpandedIssues] = useState<string[]>([])
+  const [storeModal, setStoreModal] = useState<{ open: boolean; audit: any | null }>({ open: false, audit: null })
+
+  const isSuperAdmin = user?.role === 'super_admin'
+
+  const fetchAudits = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (brandFilter !== 'all') params.set('brandId', brandFilter)
+
+      const response = await fetch(`/api/audits?${params.toString()}`)
+      const result = await response.json()
+      if (result.success) {
+        setData(result.data)
+      }
+    } catch (error) {
+      console.error('Error fetching audits:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAudits()
+  }, [brandFilter])
+
+  const runAudit = async (storeId?: string) => {
+    if (storeId) {
+      setRerunningStoreId(storeId)
+    } else {
+      setIsRunning(true)
+    }
+
+    try {
+      const response = await fetch('/api/audits/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          storeId,
+          brandId: !storeId && brandFilter !== 'all' ? brandFilter : undefined
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to run audit')
+      }
+
+      await fetchAudits()
+      if (storeId && storeModal.open) {
+        await openStoreAudit(storeId)
+      }
+    } catch (error) {
+      console.error('Error running audit:', error)
+      alert(`Failed to run audit: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsRunning(false)
+      setRerunningStoreId(null)
+    }
+  }
+
+  const openStoreAudit = async (storeId: string) => {
+    try {
+      const response = await fetch(`/api/audits/stores/${storeId}`)
+      const result = await response.json()
+      if (result.success) {
+        setStoreModal({ open: true, audit: result.data })
+      }
+    } catch (error) {
+      console.error('Error fetching store audit:', error)
+    }
+  }
+
+  const toggleIssue = (ruleId: string) => {
+    setExpandedIssues(prev => prev.includes(ruleId) ? prev.filter(id => id !== ruleId) : [...prev, ruleId])
+  }
+
+  const getSeverityBadge = (severity: string) => (
+    <Badge className={SEVERITY_STYLES[severity] || ''}>
+      {severity.charAt(0).toUpperCase() + severity.slice(1)}
+    </Badge>
+  )
+
+  const renderScoreChange = (audit: any) => {
+    if (audit.previousScore == null || audit.previousScore === audit.score) return null
+    const change = audit.score - audit.previousScore
+    return change > 0
+      ? <span className="flex items-center text-xs text-green-600"><ArrowUp className="h-3 w-3" />{change}</span>
+      : <span className="flex items-center text-xs text-red-600"><ArrowDown className="h-3 w-3" />{Math.abs(change)}</span>
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    const date = new Date(dateString)
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
+  const issues = (data?.issues || []).filter(issue => severityFilter === 'all' || issue.severity === severityFilter)
+  const summary = data?.summary
+
   return (
-    <ComingSoon
-      title="Audits"
-      description="Comprehensive business and SEO auditing tools"
-      icon={FileSearch}
-      features={[
-        "Website SEO audit",
-        "Google My Business optimization audit",
-        "Local citation audit",
-        "Online reputation analysis",
-        "Technical SEO checks",
-        "Accessibility compliance audit",
-        "Performance and speed analysis",
-        "Actionable improvement recommendations"
-      ]}
-      estimatedRelease="Q4 2024"
-    />
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audits</h1>
+          <p className="text-muted-foreground">
+            Google Business Profile health checks across your stores
+            {summary?.lastAuditedAt && ` · Last run ${formatDate(summary.lastAuditedAt)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isSuperAdmin && (
+            <Select value={brandFilter} onValueChange={setBrandFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All brands" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All brands</SelectItem>
+                {brands.map((brand: any) => (
+                  <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={() => runAudit()} disabled={isRunning}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isRunning ? 'animate-spin' : ''}`} />
+            {isRunning ? 'Running Audit...' : 'Run Audit'}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !summary || summary.storesAudited === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <FileSearch className="h-10 w-10 mb-3" />
+            <p>No audits yet. Run an audit to check your store profiles.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Average Score</CardDescription>
+                <CardTitle className={`text-3xl ${getScoreColor(summary.averageScore)}`}>{summary.averageScore}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                Across {summary.storesAudited} store{summary.storesAudited === 1 ? '' : 's'}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Critical Issues</CardDescription>
+                <CardTitle className="text-3xl text-red-600">{summary.critical}</CardTitle>
+              </CardHeader>
+              <CardContent className="flex items-center text-xs text-muted-foreground">
+                <AlertTriangle className="h-3 w-3 mr-1" />Stop the profile from showing or being managed
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>High Priority</CardDescription>
+                <CardTitle className="text-3xl text-orange-600">{summary.high}</CardTitle>
+              </CardHeader>
+              <CardContent className="flex items-center text-xs text-muted-foreground">
+                <AlertCircle className="h-3 w-3 mr-1" />Directly cost calls, visits or trust
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Medium &amp; Low</CardDescription>
+                <CardTitle className="text-3xl">{summary.medium + summary.low}</CardTitle>
+              </CardHeader>
+              <CardContent className="flex items-center text-xs text-muted-foreground">
+                <Info className="h-3 w-3 mr-1" />Improve completeness and engagement
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="issues">
+            <TabsList>
+              <TabsTrigger value="issues">Issues ({data.issues.length})</TabsTrigger>
+              <TabsTrigger value="stores">Stores ({data.stores.length})</TabsTrigger>
+            </TabsList>
+
+            {/* Brand-wide issues */}
+            <TabsContent value="issues">
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle>Issues</CardTitle>
+                    <CardDescription>Each issue lists the stores it affects</CardDescription>
+                  </div>
+                  <Select value={severityFilter} onValueChange={setSeverityFilter}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All severities</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="low">Low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {issues.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No issues found</p>
+                  ) : (
+                    issues.map(issue => {
+                      const isExpanded = expandedIssues.includes(issue.ruleId)
+                      return (
+                        <div key={issue.ruleId} className="rounded-md border">
+                          <button
+                            type="button"
+                            className="flex w-full items-center justify-between gap-4 p-4 text-left hover:bg-muted/50"
+                            onClick={() => toggleIssue(issue.ruleId)}
+                          >
+                            <div className="flex items-center gap-3">
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              <div>
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium">{issue.title}</span>
+                                  {getSeverityBadge(issue.severity)}
+                                </div>
+                                <p className="text-sm text-muted-foreground">{issue.recommendation}</p>
+                              </div>
+                            </div>
+                            <span className="whitespace-nowrap text-sm font-medium">
+                              {issue.stores.length} store{issue.stores.length === 1 ? '' : 's'}
+                            </span>
+                          </button>
+                          {isExpanded && (
+                            <div className="border-t">
+                              <Table>
+                                <TableBody>
+                                  {issue.stores.map((store: any) => (
+                                    <TableRow key={store.storeId}>
+                                      <TableCell className="font-medium">{store.storeName}</TableCell>
+                                      <TableCell className="text-sm text-muted-foreground">{store.city}</TableCell>
+                                      <TableCell className="text-sm">{store.message}</TableCell>
+                                      <TableCell className="text-right">
+                                        <Button variant="ghost" size="sm" onClick={() => openStoreAudit(store.storeId)}>
+                                          <Eye className="h-3 w-3" />
+                                        </Button>
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {/* Per-store scores */}
+            <TabsContent value="stores">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Store Scores</CardTitle>
+                  <CardDescription>Lowest scores first</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Store</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Critical</TableHead>
+                        <TableHead>High</TableHead>
+                        <TableHead>Medium</TableHead>
+                        <TableHead>Low</TableHead>
+                        <TableHead>Audited</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.stores.map(audit => (
+                        <TableRow key={audit._id}>
+                          <TableCell>
+                            <p className="font-medium">{audit.storeName}</p>
+                            <p className="text-xs text-muted-foreground">{audit.storeCode}{audit.city ? ` · ${audit.city}` : ''}</p>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span className={`text-lg font-bold ${getScoreColor(audit.score)}`}>{audit.score}</span>
+                              {renderScoreChange(audit)}
+                            </div>
+                          </TableCell>
+                          <TableCell className={audit.counts?.critical ? 'text-red-600 font-medium' : ''}>{audit.counts?.critical ?? 0}</TableCell>
+                          <TableCell className={audit.counts?.high ? 'text-orange-600 font-medium' : ''}>{audit.counts?.high ?? 0}</TableCell>
+                          <TableCell>{audit.counts?.medium ?? 0}</TableCell>
+                          <TableCell>{audit.counts?.low ?? 0}</TableCell>
+                          <TableCell className="text-sm">{formatDate(audit.auditedAt)}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <Button variant="outline" size="sm" onClick={() => openStoreAudit(audit.storeId)}>
+                                <Eye className="mr-1 h-3 w-3" />
+                                Details
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={rerunningStoreId === audit.storeId}
+                                onClick={() => runAudit(audit.storeId)}
+                              >
+                                <RefreshCw className={`mr-1 h-3 w-3 ${rerunningStoreId === audit.storeId ? 'animate-spin' : ''}`} />
+                                Re-run
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+
+      {/* Store findings */}
+      <Dialog open={storeModal.open} onOpenChange={(open) => setStoreModal({ open, audit: open ? storeModal.audit : null })}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+          {storeModal.audit && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  {storeModal.audit.storeName}
+                  <span className={`text-2xl font-bold ${getScoreColor(storeModal.audit.score)}`}>{storeModal.audit.score}</span>
+                </DialogTitle>
+                <DialogDescription>
+                  Audited {formatDate(storeModal.audit.auditedAt)}
+                  {storeModal.audit.auditedBy && ` by ${storeModal.audit.auditedBy}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              {storeModal.audit.findings.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No issues found. This profile is in good shape.</p>
+              ) : (
+                <div className="space-y-3">
+                  {storeModal.audit.findings.map((finding: any) => (
+                    <div key={finding.ruleId} className="rounded-md border p-3">
+                      <div className="flex items-center gap-2">
+                        {getSeverityBadge(finding.severity)}
+                        <span className="font-medium">{finding.title}</span>
+                      </div>
+                      <p className="text-sm mt-1">{finding.message}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{finding.recommendation}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  disabled={rerunningStoreId === String(storeModal.audit.storeId)}
+                  onClick={() => runAudit(String(storeModal.audit.storeId))}
+                >
+                  <RefreshCw className={`mr-2 h-4 w-4 ${rerunningStoreId === String(storeModal.audit.storeId) ? 'animate-spin' : ''}`} />
+                  Re-run Audit
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
   )
 }
@@ -1,23 +1,535 @@
-import { ComingSoon } from "@/components/dashboard/coming-soon"
-import { Bot } from "lucide-react"
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useAuth } from "@/lib/hooks/use-auth"
+import { useBrands } from "@/lib/hooks/use-gmb-data"
+import { useStores } from "@/lib/hooks/use-stores"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Bot,
+  Sparkles,
+  RefreshCw,
+  Save,
+  Send,
+  Store,
+  Copy,
+  Trash2,
+  X
+} from "lucide-react"
+
+type ContentType = 'gmb_post' | 'store_description' | 'microsite_tagline' | 'microsite_about'
+
+// Mirrors CONTENT_TYPES in lib/services/content-ai-service.ts
+const CONTENT_TYPES: { value: ContentType; label: string; maxLength: number; needsStore: boolean }[] = [
+  { value: 'gmb_post', label: 'GMB Post', maxLength: 1500, needsStore: false },
+  { value: 'store_description', label: 'Store Description', maxLength: 750, needsStore: true },
+  { value: 'microsite_tagline', label: 'Microsite Tagline', maxLength: 80, needsStore: true },
+  { value: 'microsite_about', label: 'Microsite About Section', maxLength: 1000, needsStore: true },
+]
+
+const TONES = [
+  { value: 'friendly', label: 'Friendly' },
+  { value: 'professional', label: 'Professional' },
+  { value: 'enthusiastic', label: 'Enthusiastic' },
+  { value: 'informative', label: 'Informative' },
+]
+
+const getTypeConfig = (type: string) => CONTENT_TYPES.find(option => option.value === type) || CONTENT_TYPES[0]
 
 export default function ContentAIPage() {
+  const router = useRouter()
+  const { user, hasPermission } = useAuth()
+  const { brands } = useBrands()
+
+  // Generator inputs
+  const [type, setType] = useState<ContentType>('gmb_post')
+  const [brandId, setBrandId] = useState('')
+  const [storeId, setStoreId] = useState('none')
+  const [topic, setTopic] = useState('')
+  const [tone, setTone] = useState('friendly')
+  const [keywords, setKeywords] = useState('')
+  const [variantCount, setVariantCount] = useState('3')
+
+  // Generated output
+  const [variants, setVariants] = useState<string[]>([])
+  const [model, setModel] = useState('')
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [savingIndex, setSavingIndex] = useState<number | null>(null)
+
+  // Saved drafts
+  const [drafts, setDrafts] = useState<any[]>([])
+  const [isLoadingDrafts, setIsLoadingDrafts] = useState(true)
+  const [draftTypeFilter, setDraftTypeFilter] = useState('all')
+  const [applyingId, setApplyingId] = useState<string | null>(null)
+
+  const isSuperAdmin = user?.role === 'super_admin'
+  const typeConfig = getTypeConfig(type)
+
+  useEffect(() => {
+    if (user && !isSuperAdmin && user.brandId) {
+      setBrandId(user.brandId)
+    }
+  }, [user, isSuperAdmin])
+
+  const { stores } = useStores({ brandId, autoFetch: !!brandId })
+
+  const fetchDrafts = async () => {
+    try {
+      const params = new URLSearchParams({ status: 'draft' })
+      if (draftTypeFilter !== 'all') params.set('type', draftTypeFilter)
+
+      const response = await fetch(`/api/content-ai/drafts?${params.toString()}`)
+      const result = await response.json()
+      if (result.success) {
+        setDrafts(result.data || [])
+      }
+    } catch (error) {
+      console.error('Error fetching drafts:', error)
+    } finally {
+      setIsLoadingDrafts(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDrafts()
+  }, [draftTypeFilter])
+
+  const parseKeywords = () => keywords.split(',').map(keyword => keyword.trim()).filter(Boolean)
+
+  const handleGenerate = async () => {
+    if (!brandId) {
+      alert('Please select a brand')
+      return
+    }
+
+    if (typeConfig.needsStore && storeId === 'none') {
+      alert(`Please select a store for the ${typeConfig.label.toLowerCase()}`)
+      return
+    }
+
+    setIsGenerating(true)
+    try {
+      const response = await fetch('/api/content-ai/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          brandId,
+          storeId: storeId !== 'none' ? storeId : undefined,
+          topic,
+          tone,
+          keywords: parseKeywords(),
+          variants: variantCount
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to generate content')
+      }
+
+      setVariants(result.data.variants)
+      setModel(result.data.model)
+    } catch (error) {
+      console.error('Error generating content:', error)
+      alert(`Failed to generate content: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleSaveDraft = async (index: number) => {
+    setSavingIndex(index)
+    try {
+      const response = await fetch('/api/content-ai/drafts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          brandId,
+          storeId: storeId !== 'none' ? storeId : undefined,
+          title: topic || undefined,
+          text: variants[index],
+          prompt: { topic, tone, keywords: parseKeywords() },
+          model
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save draft')
+      }
+
+      setVariants(prev => prev.filter((_, i) => i !== index))
+      await fetchDrafts()
+    } catch (error) {
+      console.error('Error saving draft:', error)
+      alert(`Failed to save draft: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSavingIndex(null)
+    }
+  }
+
+  const handleApplyToStore = async (draft: any) => {
+    const label = getTypeConfig(draft.type).label.toLowerCase()
+    if (!confirm(`Replace the ${label} of ${draft.storeId?.name || 'this store'} with this draft?`)) return
+
+    setApplyingId(draft._id)
+    try {
+      const response = await fetch(`/api/content-ai/drafts/${draft._id}/apply`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to apply draft')
+      }
+
+      await fetchDrafts()
+      alert(`Saved to ${draft.storeId?.name || 'store'}. You can review it in the store editor.`)
+    } catch (error) {
+      console.error('Error applying draft:', error)
+      alert(`Failed to apply draft: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setApplyingId(null)
+    }
+  }
+
+  const handleDiscardDraft = async (draftId: string) => {
+    try {
+      const response = await fetch(`/api/content-ai/drafts/${draftId}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete draft')
+      }
+
+      setDrafts(prev => prev.filter(draft => draft._id !== draftId))
+    } catch (error) {
+      console.error('Error deleting draft:', error)
+      alert(`Failed to delete draft: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    const date = new Date(dateString)
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
   return (
-    <ComingSoon
-      title="Content AI"
-      description="AI-powered content generation for your business"
-      icon={Bot}
-      features={[
-        "Automated social media post generation",
-        "SEO-optimized blog content creation",
-        "Product description writing",
-        "Email marketing campaign content",
-        "Review response templates",
-        "Multi-language content support",
-        "Brand voice consistency",
-        "Content performance analytics"
-      ]}
-      estimatedRelease="Q2 2024"
-    />
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Content AI</h1>
+        <p className="text-muted-foreground">Generate post copy and store content from your brand and store details</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Generator */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              Generate
+            </CardTitle>
+            <CardDescription>Content is based only on the brand and store data you have entered</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Content Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as ContentType)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTENT_TYPES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">Up to {typeConfig.maxLength} characters</p>
+            </div>
+
+            {isSuperAdmin && (
+              <div>
+                <Label>Brand</Label>
+                <Select
+                  value={brandId}
+                  onValueChange={(value) => {
+                    setBrandId(value)
+                    setStoreId('none')
+                  }}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select brand" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {brands.map((brand: any) => (
+                      <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label>Store{typeConfig.needsStore ? '' : ' (Optional)'}</Label>
+              <Select value={storeId} onValueChange={setStoreId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{typeConfig.needsStore ? 'Select store' : 'Brand-wide'}</SelectItem>
+                  {stores.map((store: any) => (
+                    <SelectItem key={store._id} value={store._id}>{store.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {type === 'gmb_post' && (
+              <div>
+                <Label htmlFor="content-topic">Topic</Label>
+                <Input
+                  id="content-topic"
+                  className="mt-1"
+                  placeholder="e.g., weekend brunch menu launch"
+                  value={topic}
+                  onChange={(e) => setTopic(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="content-keywords">Keywords</Label>
+              <Input
+                id="content-keywords"
+                className="mt-1"
+                placeholder="Comma separated, e.g., coworking, day pass"
+                value={keywords}
+                onChange={(e) => setKeywords(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Tone</Label>
+                <Select value={tone} onValueChange={setTone}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TONES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Variants</Label>
+                <Select value={variantCount} onValueChange={setVariantCount}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['1', '2', '3', '4', '5'].map(count => (
+                      <SelectItem key={count} value={count}>{count}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Button className="w-full" onClick={handleGenerate} disabled={isGenerating}>
+              {isGenerating ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Generating...
+                </>
+              ) : (
+                <>
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Generate
+                </>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Variants */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Results</CardTitle>
+            <CardDescription>
+              Edit a variant if needed, then save it as a draft
+              {model && <Badge variant="outline" className="ml-2">{model}</Badge>}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {variants.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                <Sparkles className="h-8 w-8 mb-2" />
+                <p>Generated variants will appear here</p>
+              </div>
+            ) : (
+              variants.map((variant, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-2">
+                  <Textarea
+                    className="min-h-[100px] resize-y"
+                    value={variant}
+                    onChange={(e) => setVariants(prev => prev.map((v, i) => i === index ? e.target.value : v))}
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className={`text-xs ${variant.length > typeConfig.maxLength ? 'text-red-600' : 'text-muted-foreground'}`}>
+                      {variant.length}/{typeConfig.maxLength} characters
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <X className="mr-1 h-3 w-3" />
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={savingIndex === index || variant.length > typeConfig.maxLength}
+                        onClick={() => handleSaveDraft(index)}
+                      >
+                        <Save className="mr-1 h-3 w-3" />
+                        Save Draft
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Drafts */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Drafts</CardTitle>
+            <CardDescription>Send post drafts to the composer, or apply store content to the store</CardDescription>
+          </div>
+          <Select value={draftTypeFilter} onValueChange={setDraftTypeFilter}>
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {CONTENT_TYPES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoadingDrafts ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : drafts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No drafts saved yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Content</TableHead>
+                  <TableHead>Store</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drafts.map(draft => (
+                  <TableRow key={draft._id}>
+                    <TableCell>
+                      <Badge variant="secondary">{getTypeConfig(draft.type).label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {draft.title && <p className="font-medium">{draft.title}</p>}
+                      <p className="text-sm text-muted-foreground line-clamp-2 max-w-md">{draft.text}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {draft.storeId?.name || <span className="text-muted-foreground">Brand-wide</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(draft.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {draft.type === 'gmb_post' ? (
+                          hasPermission('create_post') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => router.push(`/dashboard/gmb-post?draftId=${draft._id}`)}
+                            >
+                              <Send className="mr-1 h-3 w-3" />
+                              Use in Post
+                            </Button>
+                          )
+                        ) : (
+                          hasPermission('edit_store') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={applyingId === draft._id}
+                              onClick={() => handleApplyToStore(draft)}
+                            >
+                              <Store className="mr-1 h-3 w-3" />
+                              Apply to Store
+                            </Button>
+                          )
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Copy"
+                          onClick={() => navigator.clipboard.writeText(draft.text)}
+                        >
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          title="Delete"
+                          onClick={() => handleDiscardDraft(draft._id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
   )
 }
@@ -14,7 +14,10 @@ import {
   Eye,
   CheckCircle,
   Clock,
-  AlertCircle
+  AlertCircle,
+  AlertTriangle,
+  UserCheck,
+  History
 } from 'lucide-react'
 
 interface Enquiry {
@@ -38,10 +41,41 @@ interface Enquiry {
   }
   storeName: string
   brandName: string
+  assignedTo?: {
+    userId?: string
+    name?: string
+    email?: string
+    role?: string
+  }
+  assignedAt?: string
+  firstResponseAt?: string
+  resolvedAt?: string
+  statusHistory?: Array<{
+    fromStatus?: string
+    toStatus: string
+    changedBy: string
+    changedByName?: string
+    note?: string
+    changedAt: string
+  }>
+  slaState?: {
+    firstResponseDueAt: string
+    resolutionDueAt: string
+    firstResponseOverdue: boolean
+    resolutionOverdue: boolean
+    overdue: boolean
+  }
   createdAt: string
   updatedAt: string
 }
 
+interface Assignee {
+  _id: string
+  name: string
+  email: string
+  role: string
+}
+
 interface PaginationInfo {
   currentPage: number
   totalPages: number
@@ -66,8 +100,11 @@ export default function EnquiriesPage() {
   const [filters, setFilters] = useState({
     status: '',
     enquiryType: '',
-    search: ''
+    search: '',
+    assignedTo: '',
+    overdue: ''
   })
+  const [assignees, setAssignees] = useState<Assignee[]>([])
 
   const fetchEnquiries = async (page = 1) => {
     setLoading(true)
@@ -80,6 +117,8 @@ export default function EnquiriesPage() {
       if (filters.status) params.append('status', filters.status)
       if (filters.enquiryType) params.append('enquiryType', filters.enquiryType)
       if (filters.search) params.append('search', filters.search)
+      if (filters.assignedTo) params.append('assignedTo', filters.assignedTo)
+      if (filters.overdue) params.append('overdue', filters.overdue)
 
       const response = await fetch(`/api/enquiries?${params}`)
       if (!response.ok) throw new Error('Failed to fetch enquiries')
@@ -94,34 +133,57 @@ export default function EnquiriesPage() {
     }
   }
 
-  const updateEnquiryStatus = async (enquiryId: string, newStatus: string) => {
+  const updateEnquiry = async (enquiryId: string, changes: { status?: string; assignedTo?: string | null }) => {
     try {
       const response = await fetch(`/api/enquiries/${enquiryId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus })
+        body: JSON.stringify(changes)
       })
 
       if (!response.ok) throw new Error('Failed to update enquiry')
+
+      const data = await response.json()
       
       // Refresh the enquiries list
       fetchEnquiries(pagination.currentPage)
       
       // Update selected enquiry if it's the one being updated
       if (selectedEnquiry?._id === enquiryId) {
-        setSelectedEnquiry(prev => prev ? { ...prev, status: newStatus as any } : null)
+        setSelectedEnquiry(data.data)
       }
     } catch (error) {
       console.error('Error updating enquiry:', error)
     }
   }
 
+  const fetchAssignees = async (brandId: string) => {
+    try {
+      const response = await fetch(`/api/enquiries/assignees?brandId=${brandId}`)
+      if (!response.ok) throw new Error('Failed to fetch assignees')
+
+      const data = await response.json()
+      setAssignees(data.data || [])
+    } catch (error) {
+      console.error('Error fetching assignees:', error)
+      setAssignees([])
+    }
+  }
+
   useEffect(() => {
     fetchEnquiries()
   }, [filters])
 
+  useEffect(() => {
+    if (selectedEnquiry?.brandId?._id) {
+      fetchAssignees(selectedEnquiry.brandId._id)
+    } else {
+      setAssignees([])
+    }
+  }, [selectedEnquiry?.brandId?._id])
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'new': return 'bg-blue-100 text-blue-800'
@@ -154,6 +216,13 @@ export default function EnquiriesPage() {
     }
   }
 
+  const formatDueTime = (dueAt: string) => {
+    const diffMs = new Date(dueAt).getTime() - Date.now()
+    const hours = Math.round(Math.abs(diffMs) / (60 * 60 * 1000))
+    const label = hours >= 48 ? `${Math.round(hours / 24)}d` : `${hours}h`
+    return diffMs >= 0 ? `due in ${label}` : `${label} overdue`
+  }
+
   return (
     <div className="p-6">
       <div className="mb-8">
@@ -163,7 +232,7 @@ export default function EnquiriesPage() {
 
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
-        <div className="grid md:grid-cols-4 gap-4">
+        <div className="grid md:grid-cols-3 lg:grid-cols-6 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
             <div className="relative">
@@ -210,9 +279,34 @@ export default function EnquiriesPage() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Assigned To</label>
+            <select
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={filters.assignedTo}
+              onChange={(e) => setFilters(prev => ({ ...prev, assignedTo: e.target.value }))}
+            >
+              <option value="">Anyone</option>
+              <option value="me">Me</option>
+              <option value="unassigned">Unassigned</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">SLA</label>
+            <select
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={filters.overdue}
+              onChange={(e) => setFilters(prev => ({ ...prev, overdue: e.target.value }))}
+            >
+              <option value="">All</option>
+              <option value="true">Overdue only</option>
+            </select>
+          </div>
+
           <div className="flex items-end">
             <button
-              onClick={() => setFilters({ status: '', enquiryType: '', search: '' })}
+              onClick={() => setFilters({ status: '', enquiryType: '', search: '', assignedTo: '', overdue: '' })}
               className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg transition-colors"
             >
               Clear Filters
@@ -265,6 +359,12 @@ export default function EnquiriesPage() {
                         <div className={`px-2 py-1 rounded-full text-xs font-medium ${getEnquiryTypeColor(enquiry.enquiryType)}`}>
                           <span className="capitalize">{enquiry.enquiryType}</span>
                         </div>
+                        {enquiry.slaState?.overdue && (
+                          <div className="flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            <AlertTriangle className="w-3 h-3" />
+                            <span>{enquiry.slaState.firstResponseOverdue ? 'Response overdue' : 'Resolution overdue'}</span>
+                          </div>
+                        )}
                       </div>
                       <span className="text-xs text-gray-500">
                         {new Date(enquiry.createdAt).toLocaleDateString()}
@@ -282,6 +382,12 @@ export default function EnquiriesPage() {
                         <Building className="w-4 h-4" />
                         <span>{enquiry.storeName}</span>
                       </div>
+                      <div className="flex items-center gap-1">
+                        <UserCheck className="w-4 h-4" />
+                        <span className={enquiry.assignedTo?.name ? '' : 'italic text-gray-400'}>
+                          {enquiry.assignedTo?.name || 'Unassigned'}
+                        </span>
+                      </div>
                     </div>
 
                     <p className="text-gray-600 text-sm line-clamp-2">{enquiry.message}</p>
@@ -326,7 +432,7 @@ export default function EnquiriesPage() {
                     <div className="flex items-center gap-2">
                       <select
                         value={selectedEnquiry.status}
-                        onChange={(e) => updateEnquiryStatus(selectedEnquiry._id, e.target.value)}
+                        onChange={(e) => updateEnquiry(selectedEnquiry._id, { status: e.target.value })}
                         className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       >
                         <option value="new">New</option>
@@ -351,6 +457,64 @@ export default function EnquiriesPage() {
                 </div>
 
                 <div className="p-6 space-y-6">
+                  {/* Assignment */}
+                  <div>
+                    <h5 className="font-medium text-gray-900 mb-3">Assignment</h5>
+                    <select
+                      value={selectedEnquiry.assignedTo?.userId || ''}
+                      onChange={(e) => updateEnquiry(selectedEnquiry._id, { assignedTo: e.target.value || null })}
+                      className="w-full text-sm border border-gray-300 rounded px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Unassigned</option>
+                      {selectedEnquiry.assignedTo?.userId && !assignees.some(a => a._id === selectedEnquiry.assignedTo?.userId) && (
+                        <option value={selectedEnquiry.assignedTo.userId}>{selectedEnquiry.assignedTo.name}</option>
+                      )}
+                      {assignees.map(assignee => (
+                        <option key={assignee._id} value={assignee._id}>
+                          {assignee.name} ({assignee.role})
+                        </option>
+                      ))}
+                    </select>
+                    {selectedEnquiry.assignedAt && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Assigned {new Date(selectedEnquiry.assignedAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* SLA */}
+                  {selectedEnquiry.slaState && (
+                    <div>
+                      <h5 className="font-medium text-gray-900 mb-3">SLA</h5>
+                      <div className="space-y-2 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-600">First response</span>
+                          {selectedEnquiry.firstResponseAt ? (
+                            <span className="text-green-700">
+                              {new Date(selectedEnquiry.firstResponseAt).toLocaleString()}
+                            </span>
+                          ) : (
+                            <span className={selectedEnquiry.slaState.firstResponseOverdue ? 'text-red-600 font-medium' : 'text-gray-700'}>
+                              {formatDueTime(selectedEnquiry.slaState.firstResponseDueAt)}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-600">Resolution</span>
+                          {selectedEnquiry.resolvedAt ? (
+                            <span className="text-green-700">
+                              {new Date(selectedEnquiry.resolvedAt).toLocaleString()}
+                            </span>
+                          ) : (
+                            <span className={selectedEnquiry.slaState.resolutionOverdue ? 'text-red-600 font-medium' : 'text-gray-700'}>
+                              {formatDueTime(selectedEnquiry.slaState.resolutionDueAt)}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Customer Info */}
                   <div>
                     <h5 className="font-medium text-gray-900 mb-3">Customer Information</h5>
@@ -421,6 +585,37 @@ export default function EnquiriesPage() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Status History */}
+                  {selectedEnquiry.statusHistory && selectedEnquiry.statusHistory.length > 0 && (
+                    <div>
+                      <h5 className="font-medium text-gray-900 mb-3">Status History</h5>
+                      <ol className="space-y-3 text-sm">
+                        {selectedEnquiry.statusHistory.map((entry, index) => (
+                          <li key={index} className="flex items-start gap-2">
+                            <History className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                            <div>
+                              <div className="text-gray-800">
+                                {entry.fromStatus ? (
+                                  <>
+                                    <span className="capitalize">{entry.fromStatus.replace('-', ' ')}</span>
+                                    {' → '}
+                                  </>
+                                ) : null}
+                                <span className="capitalize font-medium">{entry.toStatus.replace('-', ' ')}</span>
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {entry.changedByName || entry.changedBy} · {new Date(entry.changedAt).toLocaleString()}
+                              </div>
+                              {entry.note && (
+                                <div className="text-xs text-gray-600 mt-1">{entry.note}</div>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
                 </div>
               </div>
             ) : (
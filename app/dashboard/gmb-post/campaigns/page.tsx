@@ -0,0 +1,616 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useAuth } from "@/lib/hooks/use-auth"
+import { useBrands } from "@/lib/hooks/use-gmb-data"
+import { useStores } from "@/lib/hooks/use-stores"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  ArrowLeft,
+  Send,
+  RefreshCw,
+  Eye,
+  RotateCcw,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  Clock,
+  MapPin
+} from "lucide-react"
+
+type SelectionMode = 'brand' | 'city' | 'state' | 'tag' | 'stores'
+
+const SELECTION_MODES: { value: SelectionMode; label: string }[] = [
+  { value: 'brand', label: 'All stores of the brand' },
+  { value: 'city', label: 'Stores in selected cities' },
+  { value: 'state', label: 'Stores in selected states' },
+  { value: 'tag', label: 'Stores with selected tags' },
+  { value: 'stores', label: 'Pick individual stores' },
+]
+
+const TOPIC_TYPES = [
+  { value: 'STANDARD', label: 'Update' },
+  { value: 'OFFER', label: 'Offer' },
+  { value: 'PRODUCT', label: 'Product' },
+]
+
+const CTA_TYPES = [
+  { value: 'none', label: 'No button' },
+  { value: 'BOOK', label: 'Book' },
+  { value: 'ORDER', label: 'Order' },
+  { value: 'SHOP', label: 'Shop' },
+  { value: 'LEARN_MORE', label: 'Learn More' },
+  { value: 'SIGN_UP', label: 'Sign Up' },
+  { value: 'CALL', label: 'Call' },
+]
+
+const uniqueSorted = (values: (string | undefined)[]) =>
+  [...new Set(values.filter(Boolean) as string[])].sort((a, b) => a.localeCompare(b))
+
+export default function PostCampaignsPage() {
+  const { user, hasPermission } = useAuth()
+  const { brands } = useBrands()
+
+  const [campaigns, setCampaigns] = useState<any[]>([])
+  const [isLoadingCampaigns, setIsLoadingCampaigns] = useState(true)
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+  const [detailModal, setDetailModal] = useState<{ open: boolean; campaign: any | null }>({ open: false, campaign: null })
+
+  // Composer state
+  const [brandId, setBrandId] = useState('')
+  const [name, setName] = useState('')
+  const [mode, setMode] = useState<SelectionMode>('brand')
+  const [selectedValues, setSelectedValues] = useState<string[]>([])
+  const [topicType, setTopicType] = useState('STANDARD')
+  const [summary, setSummary] = useState('')
+  const [ctaType, setCtaType] = useState('none')
+  const [ctaUrl, setCtaUrl] = useState('')
+  const [previewStores, setPreviewStores] = useState<any[]>([])
+
+  const isSuperAdmin = user?.role === 'super_admin'
+
+  // Owners and managers can only post for their own brand
+  useEffect(() => {
+    if (user && !isSuperAdmin && user.brandId) {
+      setBrandId(user.brandId)
+    }
+  }, [user, isSuperAdmin])
+
+  const { stores } = useStores({ brandId, autoFetch: !!brandId })
+
+  const cities = uniqueSorted(stores.map((store: any) => store.address?.city))
+  const states = uniqueSorted(stores.map((store: any) => store.address?.state))
+  const tags = uniqueSorted(stores.flatMap((store: any) => store.tags || []))
+
+  const selectionOptions: { value: string; label: string }[] =
+    mode === 'city' ? cities.map(city => ({ value: city, label: city })) :
+    mode === 'state' ? states.map(state => ({ value: state, label: state })) :
+    mode === 'tag' ? tags.map(tag => ({ value: tag, label: tag })) :
+    mode === 'stores' ? stores.map((store: any) => ({ value: store._id, label: store.name })) :
+    []
+
+  const buildSelection = () => ({
+    mode,
+    cities: mode === 'city' ? selectedValues : undefined,
+    states: mode === 'state' ? selectedValues : undefined,
+    tags: mode === 'tag' ? selectedValues : undefined,
+    storeIds: mode === 'stores' ? selectedValues : undefined,
+  })
+
+  const fetchCampaigns = async () => {
+    try {
+      const response = await fetch('/api/gmb/campaigns')
+      const result = await response.json()
+      if (result.success) {
+        setCampaigns(result.data || [])
+      }
+    } catch (error) {
+      console.error('Error fetching campaigns:', error)
+    } finally {
+      setIsLoadingCampaigns(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchCampaigns()
+  }, [])
+
+  // Resolve the selection on the server so the count matches what will be posted
+  useEffect(() => {
+    if (!brandId || (mode !== 'brand' && selectedValues.length === 0)) {
+      setPreviewStores([])
+      return
+    }
+
+    const controller = new AbortController()
+    fetch('/api/gmb/campaigns/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ brandId, selection: buildSelection() }),
+      signal: controller.signal
+    })
+      .then(response => response.json())
+      .then(result => setPreviewStores(result.success ? result.data : []))
+      .catch(error => {
+        if (error.name !== 'AbortError') console.error('Error previewing stores:', error)
+      })
+
+    return () => controller.abort()
+  }, [brandId, mode, selectedValues])
+
+  const linkedCount = previewStores.filter(store => store.linked).length
+
+  const toggleValue = (value: string, checked: boolean) => {
+    setSelectedValues(prev => checked ? [...prev, value] : prev.filter(v => v !== value))
+  }
+
+  const handleModeChange = (value: string) => {
+    setMode(value as SelectionMode)
+    setSelectedValues([])
+  }
+
+  const resetComposer = () => {
+    setName('')
+    setMode('brand')
+    setSelectedValues([])
+    setTopicType('STANDARD')
+    setSummary('')
+    setCtaType('none')
+    setCtaUrl('')
+  }
+
+  const handlePublish = async () => {
+    if (!name || !brandId || !summary) {
+      alert('Please fill in the campaign name, brand and post content')
+      return
+    }
+
+    if (ctaType !== 'none' && ctaType !== 'CALL' && !ctaUrl) {
+      alert('Please enter a URL for the call-to-action')
+      return
+    }
+
+    if (!confirm(`Publish this post to ${linkedCount} store${linkedCount === 1 ? '' : 's'}?`)) return
+
+    setIsPublishing(true)
+    try {
+      const response = await fetch('/api/gmb/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          brandId,
+          selection: buildSelection(),
+          postData: {
+            topicType,
+            languageCode: 'en-US',
+            summary,
+            callToAction: ctaType !== 'none' ? {
+              actionType: ctaType,
+              url: ctaType === 'CALL' ? undefined : ctaUrl
+            } : undefined
+          }
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to publish campaign')
+      }
+
+      resetComposer()
+      await fetchCampaigns()
+
+      const { published, failed } = result.data.totals
+      alert(`Published to ${published} store${published === 1 ? '' : 's'}${failed > 0 ? `, ${failed} failed` : ''}`)
+    } catch (error) {
+      console.error('Error publishing campaign:', error)
+      alert(`Failed to publish campaign: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  const handleViewCampaign = async (campaignId: string) => {
+    try {
+      const response = await fetch(`/api/gmb/campaigns/${campaignId}`)
+      const result = await response.json()
+      if (result.success) {
+        setDetailModal({ open: true, campaign: result.data })
+      }
+    } catch (error) {
+      console.error('Error fetching campaign:', error)
+    }
+  }
+
+  const handleRetryFailed = async (campaignId: string) => {
+    setRetryingId(campaignId)
+    try {
+      const response = await fetch(`/api/gmb/campaigns/${campaignId}/retry`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to retry campaign')
+      }
+
+      await fetchCampaigns()
+      if (detailModal.open) {
+        setDetailModal({ open: true, campaign: result.data })
+      }
+    } catch (error) {
+      console.error('Error retrying campaign:', error)
+      alert(`Failed to retry: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  const getCampaignStatusBadge = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return <Badge className="bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Completed</Badge>
+      case 'partial':
+        return <Badge className="bg-amber-100 text-amber-800"><AlertCircle className="w-3 h-3 mr-1" />Partial</Badge>
+      case 'failed':
+        return <Badge className="bg-red-100 text-red-800"><XCircle className="w-3 h-3 mr-1" />Failed</Badge>
+      case 'running':
+        return <Badge className="bg-blue-100 text-blue-800"><RefreshCw className="w-3 h-3 mr-1 animate-spin" />Running</Badge>
+      default:
+        return <Badge variant="secondary"><Clock className="w-3 h-3 mr-1" />Draft</Badge>
+    }
+  }
+
+  const getTargetStatusBadge = (status: string) => {
+    switch (status) {
+      case 'published':
+        return <Badge className="bg-green-100 text-green-800">Published</Badge>
+      case 'failed':
+        return <Badge className="bg-red-100 text-red-800">Failed</Badge>
+      case 'skipped':
+        return <Badge variant="outline" className="text-gray-600">Skipped</Badge>
+      default:
+        return <Badge variant="secondary">Pending</Badge>
+    }
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    const date = new Date(dateString)
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Multi-Store Posts</h1>
+          <p className="text-muted-foreground">Publish one GMB post to many store locations at once</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/gmb-post" className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Posts
+          </Link>
+        </Button>
+      </div>
+
+      {hasPermission('create_post') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Campaign</CardTitle>
+            <CardDescription>
+              Choose the stores to post to, then write the post once
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-6 lg:grid-cols-2">
+              {/* Store selection */}
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="campaign-name">Campaign Name</Label>
+                  <Input
+                    id="campaign-name"
+                    className="mt-1"
+                    placeholder="e.g., Diwali Offer 2025"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+
+                {isSuperAdmin && (
+                  <div>
+                    <Label>Brand</Label>
+                    <Select
+                      value={brandId}
+                      onValueChange={(value) => {
+                        setBrandId(value)
+                        setSelectedValues([])
+                      }}
+                    >
+                      <SelectTrigger className="mt-1">
+                        <SelectValue placeholder="Select brand" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {brands.map((brand: any) => (
+                          <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div>
+                  <Label>Target Stores</Label>
+                  <Select value={mode} onValueChange={handleModeChange}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SELECTION_MODES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {mode !== 'brand' && (
+                  <div className="max-h-56 overflow-y-auto rounded-md border p-3 space-y-2">
+                    {selectionOptions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        {brandId ? 'No options available for this brand' : 'Select a brand first'}
+                      </p>
+                    ) : (
+                      selectionOptions.map(option => (
+                        <div key={option.value} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`target-${option.value}`}
+                            checked={selectedValues.includes(option.value)}
+                            onCheckedChange={(checked) => toggleValue(option.value, checked === true)}
+                          />
+                          <Label htmlFor={`target-${option.value}`} className="cursor-pointer font-normal">
+                            {option.label}
+                          </Label>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+
+                <div className="rounded-md bg-muted/50 p-3 text-sm">
+                  <div className="flex items-center gap-2 font-medium">
+                    <MapPin className="h-4 w-4" />
+                    {linkedCount} of {previewStores.length} selected store{previewStores.length === 1 ? '' : 's'} will receive this post
+                  </div>
+                  {previewStores.length > linkedCount && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Stores that are not linked to a GMB location are skipped.
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* Post content */}
+              <div className="space-y-4">
+                <div>
+                  <Label>Post Type</Label>
+                  <Select value={topicType} onValueChange={setTopicType}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TOPIC_TYPES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="campaign-summary">Content</Label>
+                  <Textarea
+                    id="campaign-summary"
+                    className="mt-1 min-h-[120px] resize-y"
+                    placeholder="Write your post content..."
+                    value={summary}
+                    onChange={(e) => setSummary(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {summary.length}/1500 characters
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Call to Action</Label>
+                    <Select value={ctaType} onValueChange={setCtaType}>
+                      <SelectTrigger className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CTA_TYPES.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="campaign-cta-url">CTA URL</Label>
+                    <Input
+                      id="campaign-cta-url"
+                      className="mt-1"
+                      placeholder="https://example.com"
+                      value={ctaUrl}
+                      disabled={ctaType === 'none' || ctaType === 'CALL'}
+                      onChange={(e) => setCtaUrl(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={handlePublish} disabled={isPublishing || linkedCount === 0}>
+                    {isPublishing ? (
+                      <>
+                        <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                        Publishing...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="mr-2 h-4 w-4" />
+                        Publish to {linkedCount} Store{linkedCount === 1 ? '' : 's'}
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Campaign history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>Per-store results of previous multi-store posts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingCampaigns ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : campaigns.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No campaigns yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  {isSuperAdmin && <TableHead>Brand</TableHead>}
+                  <TableHead>Status</TableHead>
+                  <TableHead>Published</TableHead>
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Skipped</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map(campaign => (
+                  <TableRow key={campaign._id}>
+                    <TableCell>
+                      <p className="font-medium">{campaign.name}</p>
+                      <p className="text-xs text-muted-foreground truncate max-w-xs">{campaign.postData?.summary}</p>
+                    </TableCell>
+                    {isSuperAdmin && <TableCell>{campaign.brandId?.name}</TableCell>}
+                    <TableCell>{getCampaignStatusBadge(campaign.status)}</TableCell>
+                    <TableCell>{campaign.totals?.published ?? 0}/{campaign.totals?.targeted ?? 0}</TableCell>
+                    <TableCell className={campaign.totals?.failed ? 'text-red-600 font-medium' : ''}>
+                      {campaign.totals?.failed ?? 0}
+                    </TableCell>
+                    <TableCell>{campaign.totals?.skipped ?? 0}</TableCell>
+                    <TableCell className="text-sm">{formatDate(campaign.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleViewCampaign(campaign._id)}>
+                          <Eye className="mr-1 h-3 w-3" />
+                          Details
+                        </Button>
+                        {campaign.totals?.failed > 0 && campaign.status !== 'running' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={retryingId === campaign._id}
+                            onClick={() => handleRetryFailed(campaign._id)}
+                          >
+                            <RotateCcw className={`mr-1 h-3 w-3 ${retryingId === campaign._id ? 'animate-spin' : ''}`} />
+                            Retry Failed
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Campaign Detail Modal */}
+      <Dialog open={detailModal.open} onOpenChange={(open) => !open && setDetailModal({ open: false, campaign: null })}>
+        <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+          <DialogHeader className="flex-shrink-0">
+            <DialogTitle>{detailModal.campaign?.name}</DialogTitle>
+            <DialogDescription>
+              {detailModal.campaign?.totals?.published ?? 0} published, {detailModal.campaign?.totals?.failed ?? 0} failed, {detailModal.campaign?.totals?.skipped ?? 0} skipped
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex-1 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Store</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(detailModal.campaign?.targets || []).map((target: any) => (
+                  <TableRow key={target.storeId}>
+                    <TableCell className="font-medium">{target.storeName}</TableCell>
+                    <TableCell>{getTargetStatusBadge(target.status)}</TableCell>
+                    <TableCell>{target.attempts}</TableCell>
+                    <TableCell className="text-xs">
+                      {target.status === 'published'
+                        ? formatDate(target.publishedAt)
+                        : <span className="text-red-600">{target.error}</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {detailModal.campaign?.totals?.failed > 0 && detailModal.campaign?.status !== 'running' && (
+            <div className="flex justify-end border-t pt-4">
+              <Button
+                onClick={() => handleRetryFailed(detailModal.campaign._id)}
+                disabled={retryingId === detailModal.campaign._id}
+              >
+                <RotateCcw className={`mr-2 h-4 w-4 ${retryingId === detailModal.campaign._id ? 'animate-spin' : ''}`} />
+                Retry Failed Stores
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import NextLink from "next/link"
 import { useGmbStore } from "@/lib/stores/gmb-store"
 import { useGmbAuth } from "@/lib/hooks/use-gmb-auth"
 import { useGmbData } from "@/lib/hooks/use-gmb-data"
@@ -65,7 +66,8 @@ import {
   Save,
   Upload,
   Link,
-  MapPin
+  MapPin,
+  Layers
 } from "lucide-react"
 
 
@@ -92,7 +94,16 @@ export default function GMBPostPage() {
   const [isCreating, setIsCreating] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+
+  // Scheduled posts queue
+  const [scheduledPosts, setScheduledPosts] = useState<any[]>([])
+  const [rescheduleModal, setRescheduleModal] = useState<{ open: boolean; post: any | null }>({ open: false, post: null })
+  const [rescheduleAt, setRescheduleAt] = useState('')
+  const [isRescheduling, setIsRescheduling] = useState(false)
   
+  // Content AI draft the create form was prefilled from (marked applied once posted)
+  const [postDraftId, setPostDraftId] = useState<string | null>(null)
+
   // Create post form states
   const [createPostForm, setCreatePostForm] = useState({
     title: '',
@@ -106,7 +117,9 @@ export default function GMBPostPage() {
     eventStartDate: '',
     eventEndDate: '',
     eventStartTime: '',
-    eventEndTime: ''
+    eventEndTime: '',
+    // Leave empty to publish immediately
+    scheduledFor: ''
   })
   
   // Edit post form states
@@ -220,6 +233,47 @@ export default function GMBPostPage() {
     }
   }
   
+  // Fetch queued posts (scheduled, publishing, failed, ...)
+  const fetchScheduledPosts = async () => {
+    try {
+      const response = await fetch('/api/gmb/posts/scheduled')
+      if (response.ok) {
+        const data = await response.json()
+        if (data.success) {
+          setScheduledPosts(data.data || [])
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching scheduled posts:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchScheduledPosts()
+  }, [])
+
+  // Opened from Content AI with ?draftId=... - prefill the composer with the draft
+  useEffect(() => {
+    const draftId = new URLSearchParams(window.location.search).get('draftId')
+    if (!draftId) return
+
+    fetch(`/api/content-ai/drafts/${draftId}`)
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success || result.data.type !== 'gmb_post') return
+
+        setPostDraftId(draftId)
+        setCreatePostForm(prev => ({
+          ...prev,
+          title: result.data.title || '',
+          content: result.data.text,
+          type: prev.type || 'update'
+        }))
+        setCreatePostModal(true)
+      })
+      .catch(error => console.error('Error loading content draft:', error))
+  }, [])
+
   // Load posts on component mount if connected
   useEffect(() => {
     if (isConnected) {
@@ -413,8 +467,22 @@ export default function GMBPostPage() {
     setCreatePostModal(true)
   }
 
+  const markPostDraftApplied = async () => {
+    if (!postDraftId) return
+    try {
+      await fetch(`/api/content-ai/drafts/${postDraftId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'applied' })
+      })
+    } catch (error) {
+      console.error('Error updating content draft:', error)
+    }
+  }
+
   const handleCloseCreatePostModal = () => {
     setCreatePostModal(false)
+    setPostDraftId(null)
     setCreatePostForm({
       title: '',
       content: '',
@@ -426,7 +494,8 @@ export default function GMBPostPage() {
       eventStartDate: '',
       eventEndDate: '',
       eventStartTime: '',
-      eventEndTime: ''
+      eventEndTime: '',
+      scheduledFor: ''
     })
   }
 
@@ -481,6 +550,11 @@ export default function GMBPostPage() {
       }
     }
 
+    if (createPostForm.scheduledFor && new Date(createPostForm.scheduledFor) <= new Date()) {
+      alert('Please choose a publish time in the future')
+      return
+    }
+
     setIsCreating(true)
     try {
       // Map UI type to GMB API type
@@ -553,7 +627,31 @@ export default function GMBPostPage() {
         event: eventData
       }
 
-     
+      if (createPostForm.scheduledFor) {
+        const scheduleResponse = await fetch('/api/gmb/posts/scheduled', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            locationName: createPostForm.location,
+            postData,
+            scheduledFor: new Date(createPostForm.scheduledFor).toISOString()
+          })
+        })
+
+        const scheduleResult = await scheduleResponse.json()
+        if (!scheduleResponse.ok || !scheduleResult.success) {
+          throw new Error(scheduleResult.error || 'Failed to schedule post')
+        }
+
+        await markPostDraftApplied()
+        handleCloseCreatePostModal()
+        await fetchScheduledPosts()
+
+        alert(`Post scheduled for ${formatDate(scheduleResult.data.scheduledFor)}`)
+        return
+      }
 
       const response = await fetch('/api/gmb/posts', {
         method: 'POST',
@@ -579,6 +677,7 @@ export default function GMBPostPage() {
       
 
       // Close modal and reset form
+      await markPostDraftApplied()
       handleCloseCreatePostModal()
 
       await fetchGmbPosts()
@@ -767,6 +866,95 @@ export default function GMBPostPage() {
     }
   }
 
+  const getScheduledStatusBadge = (status: string) => {
+    switch (status) {
+      case 'scheduled':
+        return <Badge className="bg-blue-100 text-blue-800"><Clock className="w-3 h-3 mr-1" />Scheduled</Badge>
+      case 'publishing':
+        return <Badge className="bg-amber-100 text-amber-800"><RefreshCw className="w-3 h-3 mr-1 animate-spin" />Publishing</Badge>
+      case 'published':
+        return <Badge className="bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Published</Badge>
+      case 'failed':
+        return <Badge className="bg-red-100 text-red-800"><AlertCircle className="w-3 h-3 mr-1" />Failed</Badge>
+      default:
+        return <Badge variant="outline" className="text-gray-600"><XCircle className="w-3 h-3 mr-1" />Cancelled</Badge>
+    }
+  }
+
+  // Value for a datetime-local input in the browser's timezone
+  const toDateTimeLocal = (dateString: string) => {
+    const date = new Date(dateString)
+    const offsetMs = date.getTimezoneOffset() * 60 * 1000
+    return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+  }
+
+  const handleOpenReschedule = (post: any) => {
+    setRescheduleAt(toDateTimeLocal(post.scheduledFor))
+    setRescheduleModal({ open: true, post })
+  }
+
+  const handleRescheduleSubmit = async () => {
+    if (!rescheduleModal.post || !rescheduleAt) return
+
+    if (new Date(rescheduleAt) <= new Date()) {
+      alert('Please choose a publish time in the future')
+      return
+    }
+
+    setIsRescheduling(true)
+    try {
+      const response = await fetch(`/api/gmb/posts/scheduled/${rescheduleModal.post._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ scheduledFor: new Date(rescheduleAt).toISOString() })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to reschedule post')
+      }
+
+      setRescheduleModal({ open: false, post: null })
+      await fetchScheduledPosts()
+    } catch (error) {
+      console.error('Error rescheduling post:', error)
+      alert(`Failed to reschedule post: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsRescheduling(false)
+    }
+  }
+
+  const handleCancelScheduledPost = async (post: any) => {
+    if (!confirm('Cancel this scheduled post? It will not be published.')) return
+
+    try {
+      const response = await fetch(`/api/gmb/posts/scheduled/${post._id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to cancel post')
+      }
+
+      await fetchScheduledPosts()
+    } catch (error) {
+      console.error('Error cancelling scheduled post:', error)
+      alert(`Failed to cancel post: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const TOPIC_TYPE_LABELS: { [key: string]: string } = {
+    STANDARD: 'Update',
+    EVENT: 'Event',
+    OFFER: 'Offer',
+    PRODUCT: 'Product'
+  }
+
+  const upcomingScheduledPosts = scheduledPosts.filter(post => post.status !== 'cancelled')
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -799,6 +987,14 @@ export default function GMBPostPage() {
               {isLoadingPosts ? 'Syncing...' : 'Refresh Posts'}
             </Button>
           )}
+          {hasPermission('create_post') && (
+            <Button variant="outline" asChild>
+              <NextLink href="/dashboard/gmb-post/campaigns" className="flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                Multi-Store Post
+              </NextLink>
+            </Button>
+          )}
           {hasPermission('create_post') && (
             <Button 
               onClick={handleCreatePost}
@@ -891,6 +1087,87 @@ export default function GMBPostPage() {
         </Card>
       )} */}
 
+      {/* Scheduled Posts */}
+      {upcomingScheduledPosts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Scheduled Posts
+            </CardTitle>
+            <CardDescription>
+              Posts queued for publishing. Failed posts are retried automatically before being marked as failed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Post</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Publish At</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {upcomingScheduledPosts.map((post) => {
+                  const location = finalLocations.find((loc: any) => loc.id === post.locationName)
+                  const canChange = post.status === 'scheduled' || post.status === 'failed'
+
+                  return (
+                    <TableRow key={post._id}>
+                      <TableCell className="max-w-xs">
+                        <p className="truncate">{post.postData?.summary}</p>
+                        {getTypeBadge(TOPIC_TYPE_LABELS[post.postData?.topicType] || 'Update')}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1 text-sm">
+                          <MapPin className="h-3 w-3 text-muted-foreground" />
+                          {post.storeId?.name || location?.name || post.locationName}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(post.status === 'published' ? post.publishedAt : post.scheduledFor)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {getScheduledStatusBadge(post.status)}
+                          {post.lastError && post.status !== 'published' && (
+                            <p className="text-xs text-red-600 max-w-[220px] truncate" title={post.lastError}>
+                              Attempt {post.attempts}/{post.maxAttempts}: {post.lastError}
+                            </p>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canChange && (
+                          <div className="flex items-center justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => handleOpenReschedule(post)}>
+                              <Clock className="mr-1 h-3 w-3" />
+                              Reschedule
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => handleCancelScheduledPost(post)}
+                            >
+                              <X className="mr-1 h-3 w-3" />
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Posts Management */}
       <Card>
         <CardHeader>
@@ -1429,6 +1706,19 @@ export default function GMBPostPage() {
                 </p>
               </div>
             </div>
+            <div>
+              <Label htmlFor="post-scheduled-for">Publish At (Optional)</Label>
+              <Input
+                id="post-scheduled-for"
+                type="datetime-local"
+                className="mt-1"
+                value={createPostForm.scheduledFor}
+                onChange={(e) => setCreatePostForm(prev => ({ ...prev, scheduledFor: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Leave empty to publish immediately
+              </p>
+            </div>
             <div>
               <Label>Image (Optional)</Label>
               <div className="mt-1 border-2 border-dashed border-gray-300 rounded-lg p-6 hover:border-gray-400 transition-colors">
@@ -1463,7 +1753,47 @@ export default function GMBPostPage() {
               ) : (
                 <>
                   <Save className="mr-2 h-4 w-4" />
-                  Create Post
+                  {createPostForm.scheduledFor ? 'Schedule Post' : 'Create Post'}
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reschedule Post Modal */}
+      <Dialog open={rescheduleModal.open} onOpenChange={(open) => !open && setRescheduleModal({ open: false, post: null })}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reschedule Post</DialogTitle>
+            <DialogDescription>
+              Choose a new publish time. Rescheduling a failed post resets its retries.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="reschedule-at">Publish At</Label>
+            <Input
+              id="reschedule-at"
+              type="datetime-local"
+              className="mt-1"
+              value={rescheduleAt}
+              onChange={(e) => setRescheduleAt(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRescheduleModal({ open: false, post: null })}>
+              Cancel
+            </Button>
+            <Button onClick={handleRescheduleSubmit} disabled={isRescheduling || !rescheduleAt}>
+              {isRescheduling ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Reschedule
                 </>
               )}
             </Button>
@@ -48,6 +48,9 @@ import {
   Loader2,
   AlertCircle
 } from "lucide-react"
+import { IvrCallAnalytics } from "@/components/dashboard/ivr-call-analytics"
+import { IvrCallbackQueue } from "@/components/dashboard/ivr-callback-queue"
+import { GmbCallReconciliation } from "@/components/dashboard/gmb-call-reconciliation"
 
 interface IVRCallData {
   _id: string
@@ -321,6 +324,21 @@ export default function IVRCallsPage() {
         </Card>
       </div>
 
+      {/* Analytics */}
+      {selectedBrand && selectedBrand !== "all" && (
+        <IvrCallAnalytics brandId={selectedBrand} />
+      )}
+
+      {/* Missed-call callbacks */}
+      {selectedBrand && selectedBrand !== "all" && (
+        <IvrCallbackQueue brandId={selectedBrand} />
+      )}
+
+      {/* GMB call clicks vs tracked calls */}
+      {selectedBrand && selectedBrand !== "all" && (
+        <GmbCallReconciliation brandId={selectedBrand} />
+      )}
+
       {/* Call Management */}
       <Card>
         <CardHeader>
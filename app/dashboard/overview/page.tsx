@@ -13,6 +13,7 @@ import { useStoresWithPerformance } from "@/lib/hooks/use-stores-with-performanc
 import { useGmbStore } from "@/lib/stores/gmb-store"
 import { useAccessibleStoreWisePerformanceData } from "@/lib/hooks/use-accessible-performance-data"
 import { useLocationPerformanceData } from "@/lib/hooks/use-location-performance-data"
+import { useCompetitiveContext } from "@/lib/hooks/use-competitive-context"
 import { VisibilityScoreCard } from "@/components/dashboard/visibility-score-card"
 import { LocationScoringTable } from "@/components/dashboard/location-scoring-table"
 import { KeywordAnalyticsCards } from "@/components/dashboard/keyword-analytics-cards"
@@ -120,6 +121,9 @@ export default function OverviewPage() {
     status: 'active'
   })
 
+  // Peer benchmark, consistency and trend for the Competitive Context score
+  const { data: competitiveContextData } = useCompetitiveContext()
+
   // Calculate total locations
   const totalLocations = filteredStores.length
 
@@ -160,6 +164,7 @@ export default function OverviewPage() {
       callClicks: locationPerfData.totalCallClicks || 0,
       websiteClicks: locationPerfData.totalWebsiteClicks || 0,
     }
+    const competitiveContext = competitiveContextData[location.id]
     
     // Calculate location-specific metrics
     const locationMetrics: ScoringMetrics = {
@@ -185,7 +190,10 @@ export default function OverviewPage() {
         return new Date(post.createTime) >= thirtyDaysAgo
       }).length,
       profileCompleteness: calculateLocationProfileCompleteness(location),
-      qaActivity: 0
+      qaActivity: 0,
+      marketPosition: competitiveContext?.marketPosition,
+      consistency: competitiveContext?.consistency,
+      trendDirection: competitiveContext?.trendDirection
     }
     
     return {
@@ -193,7 +201,8 @@ export default function OverviewPage() {
       locationName: location.name,
       address: formatAddress(location.address),
       scoringDetails: calculateVisibilityScore(locationMetrics),
-      metrics: locationMetrics
+      metrics: locationMetrics,
+      competitiveContext
     }
   })
   
@@ -454,13 +463,13 @@ export default function OverviewPage() {
           />
         )}
 
-        {/* Location-wise Visibility Scores - HIDDEN */}
-        {/* {finalIsConnected && locationScoringData  && (
+        {/* Location-wise Visibility Scores */}
+        {finalIsConnected && locationScoringData && (
           <LocationScoringTable 
             locations={locationScoringData} 
             isLoading={dbLoading}
           />
-        )} */}
+        )}
 
         {/* Recent Activity */}
         <div className="grid gap-6 md:grid-cols-2">
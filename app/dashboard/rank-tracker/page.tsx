@@ -1,23 +1,599 @@
-import { ComingSoon } from "@/components/dashboard/coming-soon"
-import { TrendingUp } from "lucide-react"
+"use client"
+
+import { useState, useEffect } from "react"
+import { useAuth } from "@/lib/hooks/use-auth"
+import { useBrands } from "@/lib/hooks/use-gmb-data"
+import { useStores } from "@/lib/hooks/use-stores"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import {
+  Plus,
+  RefreshCw,
+  Pause,
+  Play,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Minus,
+  TrendingUp,
+  Monitor,
+  Smartphone
+} from "lucide-react"
+
+const CHART_COLORS = ['#2563EB', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6']
+const MAX_CHART_KEYWORDS = CHART_COLORS.length
+
+const HISTORY_RANGES = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+]
+
+const EMPTY_FORM = {
+  brandId: '',
+  storeId: 'brand',
+  keyword: '',
+  location: '',
+  device: 'mobile',
+  frequency: 'daily',
+  targetDomain: '',
+  targetName: '',
+}
 
 export default function RankTrackerPage() {
+  const { user } = useAuth()
+  const { brands } = useBrands()
+
+  const [keywords, setKeywords] = useState<any[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [brandFilter, setBrandFilter] = useState('all')
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+
+  const [chartKeywordIds, setChartKeywordIds] = useState<string[]>([])
+  const [historyDays, setHistoryDays] = useState('30')
+  const [history, setHistory] = useState<any[]>([])
+
+  const [addModalOpen, setAddModalOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const isSuperAdmin = user?.role === 'super_admin'
+  const formBrandId = isSuperAdmin ? form.brandId : (user?.brandId || '')
+
+  const { stores } = useStores({ brandId: formBrandId, autoFetch: !!formBrandId })
+
+  const fetchKeywords = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (brandFilter !== 'all') params.set('brandId', brandFilter)
+
+      const response = await fetch(`/api/rank-tracker/keywords?${params.toString()}`)
+      const result = await response.json()
+      if (result.success) {
+        setKeywords(result.data || [])
+        // Chart the first few keywords until the user picks their own
+        setChartKeywordIds(prev => prev.length > 0
+          ? prev.filter(id => result.data.some((keyword: any) => keyword._id === id))
+          : result.data.slice(0, 3).map((keyword: any) => keyword._id))
+      }
+    } catch (error) {
+      console.error('Error fetching tracked keywords:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchKeywords()
+  }, [brandFilter])
+
+  useEffect(() => {
+    if (chartKeywordIds.length === 0) {
+      setHistory([])
+      return
+    }
+
+    fetch(`/api/rank-tracker/history?keywordIds=${chartKeywordIds.join(',')}&days=${historyDays}`)
+      .then(response => response.json())
+      .then(result => setHistory(result.success ? result.data : []))
+      .catch(error => console.error('Error fetching rank history:', error))
+  }, [chartKeywordIds, historyDays])
+
+  // One row per day, one column per keyword (the day's last check wins)
+  const chartData = Object.values(
+    history.reduce((rows: Record<string, any>, check: any) => {
+      const date = new Date(check.checkedAt).toISOString().split('T')[0]
+      rows[date] = rows[date] || { date }
+      rows[date][check.trackedKeywordId] = check.position ?? null
+      return rows
+    }, {})
+  ).sort((a: any, b: any) => a.date.localeCompare(b.date))
+
+  const chartKeywords = keywords.filter(keyword => chartKeywordIds.includes(keyword._id))
+
+  const toggleChartKeyword = (id: string, checked: boolean) => {
+    setChartKeywordIds(prev => {
+      if (!checked) return prev.filter(existing => existing !== id)
+      if (prev.length >= MAX_CHART_KEYWORDS) {
+        alert(`You can chart up to ${MAX_CHART_KEYWORDS} keywords at a time`)
+        return prev
+      }
+      return [...prev, id]
+    })
+  }
+
+  const handleAddKeyword = async () => {
+    if (!form.keyword.trim()) {
+      alert('Please enter a keyword')
+      return
+    }
+
+    if (!formBrandId) {
+      alert('Please select a brand')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/rank-tracker/keywords', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          brandId: formBrandId,
+          storeId: form.storeId !== 'brand' ? form.storeId : undefined,
+          keyword: form.keyword,
+          location: form.location,
+          device: form.device,
+          frequency: form.frequency,
+          targetDomain: form.targetDomain,
+          targetName: form.targetName,
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to add keyword')
+      }
+
+      setAddModalOpen(false)
+      setForm(EMPTY_FORM)
+      await fetchKeywords()
+    } catch (error) {
+      console.error('Error adding keyword:', error)
+      alert(`Failed to add keyword: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCheckNow = async (id: string) => {
+    setCheckingId(id)
+    try {
+      const response = await fetch(`/api/rank-tracker/keywords/${id}/check`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Rank check failed')
+      }
+
+      setKeywords(prev => prev.map(keyword => keyword._id === id ? result.data.keyword : keyword))
+      // Refresh the chart if this keyword is on it
+      if (chartKeywordIds.includes(id)) {
+        setChartKeywordIds(prev => [...prev])
+      }
+    } catch (error) {
+      console.error('Error checking rank:', error)
+      alert(`Failed to check rank: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setCheckingId(null)
+    }
+  }
+
+  const handleToggleStatus = async (keyword: any) => {
+    try {
+      const response = await fetch(`/api/rank-tracker/keywords/${keyword._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: keyword.status === 'active' ? 'paused' : 'active' })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update keyword')
+      }
+
+      await fetchKeywords()
+    } catch (error) {
+      console.error('Error updating keyword:', error)
+      alert(`Failed to update keyword: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleDelete = async (keyword: any) => {
+    if (!confirm(`Stop tracking "${keyword.keyword}"? Its rank history will be deleted.`)) return
+
+    try {
+      const response = await fetch(`/api/rank-tracker/keywords/${keyword._id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete keyword')
+      }
+
+      await fetchKeywords()
+    } catch (error) {
+      console.error('Error deleting keyword:', error)
+      alert(`Failed to delete keyword: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Lower is better, so moving from 8 to 5 is an improvement of 3
+  const renderPositionChange = (keyword: any) => {
+    if (!keyword.latestPosition || !keyword.previousPosition) {
+      return <span className="text-muted-foreground">-</span>
+    }
+
+    const change = keyword.previousPosition - keyword.latestPosition
+    if (change > 0) {
+      return <span className="flex items-center text-green-600"><ArrowUp className="h-3 w-3 mr-1" />{change}</span>
+    }
+    if (change < 0) {
+      return <span className="flex items-center text-red-600"><ArrowDown className="h-3 w-3 mr-1" />{Math.abs(change)}</span>
+    }
+    return <span className="flex items-center text-muted-foreground"><Minus className="h-3 w-3" /></span>
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    const date = new Date(dateString)
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
   return (
-    <ComingSoon
-      title="Rank Tracker"
-      description="Monitor your search engine rankings and SEO performance"
-      icon={TrendingUp}
-      features={[
-        "Keyword ranking tracking",
-        "Local search position monitoring",
-        "Competitor analysis",
-        "SERP feature tracking",
-        "Ranking history and trends",
-        "Automated ranking reports",
-        "Google My Business insights",
-        "Mobile vs desktop rankings"
-      ]}
-      estimatedRelease="Q3 2024"
-    />
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Rank Tracker</h1>
+          <p className="text-muted-foreground">Monitor where your stores rank in search for the keywords that matter</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isSuperAdmin && (
+            <Select value={brandFilter} onValueChange={setBrandFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All brands" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All brands</SelectItem>
+                {brands.map((brand: any) => (
+                  <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={() => setAddModalOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Track Keyword
+          </Button>
+        </div>
+      </div>
+
+      {/* Trend chart */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Ranking Trend</CardTitle>
+            <CardDescription>Organic position over time (1 is the top result)</CardDescription>
+          </div>
+          <Select value={historyDays} onValueChange={setHistoryDays}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HISTORY_RANGES.map(range => (
+                <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {chartKeywords.length === 0 || chartData.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <TrendingUp className="h-8 w-8 mb-2" />
+              <p>Select keywords in the table below to see their ranking trend</p>
+            </div>
+          ) : (
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                  <YAxis reversed allowDecimals={false} domain={[1, 'auto']} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  {chartKeywords.map((keyword, index) => (
+                    <Line
+                      key={keyword._id}
+                      type="monotone"
+                      dataKey={keyword._id}
+                      name={keyword.keyword}
+                      stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Keyword table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tracked Keywords</CardTitle>
+          <CardDescription>Keywords are checked automatically on their schedule</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : keywords.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No keywords tracked yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10"></TableHead>
+                  <TableHead>Keyword</TableHead>
+                  <TableHead>Store</TableHead>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Local Pack</TableHead>
+                  <TableHead>Best</TableHead>
+                  <TableHead>Last Checked</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keywords.map(keyword => (
+                  <TableRow key={keyword._id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={chartKeywordIds.includes(keyword._id)}
+                        onCheckedChange={(checked) => toggleChartKeyword(keyword._id, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {keyword.device === 'desktop'
+                          ? <Monitor className="h-3 w-3 text-muted-foreground" />
+                          : <Smartphone className="h-3 w-3 text-muted-foreground" />}
+                        <span className="font-medium">{keyword.keyword}</span>
+                        {keyword.status === 'paused' && <Badge variant="secondary">Paused</Badge>}
+                      </div>
+                      {keyword.location && (
+                        <p className="text-xs text-muted-foreground">{keyword.location}</p>
+                      )}
+                      {keyword.lastError && (
+                        <p className="text-xs text-red-600 truncate max-w-xs">{keyword.lastError}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {keyword.storeId?.name || <span className="text-muted-foreground">All stores</span>}
+                      {isSuperAdmin && (
+                        <p className="text-xs text-muted-foreground">{keyword.brandId?.name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {keyword.latestPosition ?? (keyword.lastCheckedAt ? <span className="text-muted-foreground">Not ranked</span> : '-')}
+                    </TableCell>
+                    <TableCell>{renderPositionChange(keyword)}</TableCell>
+                    <TableCell>{keyword.latestLocalPackPosition ?? '-'}</TableCell>
+                    <TableCell>{keyword.bestPosition ?? '-'}</TableCell>
+                    <TableCell className="text-sm">{formatDate(keyword.lastCheckedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={checkingId === keyword._id}
+                          onClick={() => handleCheckNow(keyword._id)}
+                        >
+                          <RefreshCw className={`mr-1 h-3 w-3 ${checkingId === keyword._id ? 'animate-spin' : ''}`} />
+                          Check Now
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleToggleStatus(keyword)}
+                          title={keyword.status === 'active' ? 'Pause' : 'Resume'}
+                        >
+                          {keyword.status === 'active' ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleDelete(keyword)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add keyword */}
+      <Dialog open={addModalOpen} onOpenChange={setAddModalOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Track Keyword</DialogTitle>
+            <DialogDescription>
+              The first check runs as soon as the keyword is added
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {isSuperAdmin && (
+              <div>
+                <Label>Brand</Label>
+                <Select
+                  value={form.brandId}
+                  onValueChange={(value) => setForm({ ...form, brandId: value, storeId: 'brand' })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select brand" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {brands.map((brand: any) => (
+                      <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label>Store</Label>
+              <Select value={form.storeId} onValueChange={(value) => setForm({ ...form, storeId: value })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="brand">Brand-wide (no specific store)</SelectItem>
+                  {stores.map((store: any) => (
+                    <SelectItem key={store._id} value={store._id}>{store.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="rank-keyword">Keyword</Label>
+              <Input
+                id="rank-keyword"
+                className="mt-1"
+                placeholder="e.g., coworking space near me"
+                value={form.keyword}
+                onChange={(e) => setForm({ ...form, keyword: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="rank-location">Search Location</Label>
+              <Input
+                id="rank-location"
+                className="mt-1"
+                placeholder="e.g., Bangalore, India"
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Device</Label>
+                <Select value={form.device} onValueChange={(value) => setForm({ ...form, device: value })}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mobile">Mobile</SelectItem>
+                    <SelectItem value="desktop">Desktop</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Check Frequency</Label>
+                <Select value={form.frequency} onValueChange={(value) => setForm({ ...form, frequency: value })}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rank-domain">Website Domain (Optional)</Label>
+                <Input
+                  id="rank-domain"
+                  className="mt-1"
+                  placeholder="Defaults to store website"
+                  value={form.targetDomain}
+                  onChange={(e) => setForm({ ...form, targetDomain: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rank-name">Business Name (Optional)</Label>
+                <Input
+                  id="rank-name"
+                  className="mt-1"
+                  placeholder="Defaults to store name"
+                  value={form.targetName}
+                  onChange={(e) => setForm({ ...form, targetName: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAddKeyword} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Track Keyword'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
   )
 }
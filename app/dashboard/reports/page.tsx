@@ -0,0 +1,255 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useAuth } from "@/lib/hooks/use-auth"
+import { useBrands } from "@/lib/hooks/use-gmb-data"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  RefreshCw,
+  FileBarChart,
+  FileDown,
+  FileCode,
+  Send,
+  ArrowUp,
+  ArrowDown
+} from "lucide-react"
+
+const STATUS_STYLES: Record<string, string> = {
+  generated: 'bg-gray-100 text-gray-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+const formatWeek = (report: any) => {
+  const format = (date: Date) => date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+  // weekEnd is the following Monday
+  return `${format(new Date(report.weekStart))} – ${format(new Date(new Date(report.weekEnd).getTime() - 1))}`
+}
+
+export default function ReportsPage() {
+  const { user, hasPermission } = useAuth()
+  const { brands } = useBrands()
+
+  const [reports, setReports] = useState<any[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [sendingId, setSendingId] = useState<string | null>(null)
+  const [brandFilter, setBrandFilter] = useState('all')
+
+  const isSuperAdmin = user?.role === 'super_admin'
+  const canManage = hasPermission('edit_brand')
+
+  const fetchReports = async () => {
+    try {
+      const params = new URLSearchParams({ limit: '52' })
+      if (brandFilter !== 'all') params.set('brandId', brandFilter)
+
+      const response = await fetch(`/api/reports?${params.toString()}`)
+      const result = await response.json()
+      if (result.success) {
+        setReports(result.data.reports)
+      }
+    } catch (error) {
+      console.error('Error fetching reports:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchReports()
+  }, [brandFilter])
+
+  const generateReport = async () => {
+    setIsGenerating(true)
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ brandId: brandFilter !== 'all' ? brandFilter : undefined })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to generate report')
+      }
+
+      await fetchReports()
+    } catch (error) {
+      console.error('Error generating report:', error)
+      alert(`Failed to generate report: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const sendReport = async (reportId: string) => {
+    setSendingId(reportId)
+    try {
+      const response = await fetch(`/api/reports/${reportId}/send`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to send report')
+      }
+
+      alert(result.message)
+      await fetchReports()
+    } catch (error) {
+      console.error('Error sending report:', error)
+      alert(`Failed to send report: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSendingId(null)
+    }
+  }
+
+  const renderChange = (current: number | null | undefined, previous: number | null | undefined) => {
+    if (current == null || !previous || current === previous) return null
+    const change = ((current - previous) / previous) * 100
+    return change > 0
+      ? <span className="flex items-center text-xs text-green-600"><ArrowUp className="h-3 w-3" />{change.toFixed(0)}%</span>
+      : <span className="flex items-center text-xs text-red-600"><ArrowDown className="h-3 w-3" />{Math.abs(change).toFixed(0)}%</span>
+  }
+
+  const renderFigure = (report: any, key: string) => (
+    <div className="flex items-center gap-2">
+      {(report.metrics?.current?.[key] ?? 0).toLocaleString()}
+      {renderChange(report.metrics?.current?.[key], report.metrics?.previous?.[key])}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+          <p className="text-muted-foreground">
+            Weekly performance reports, emailed every Monday to recipients subscribed to them
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isSuperAdmin && (
+            <Select value={brandFilter} onValueChange={setBrandFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All brands" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All brands</SelectItem>
+                {brands.map((brand: any) => (
+                  <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {canManage && (
+            <Button
+              onClick={generateReport}
+              disabled={isGenerating || (isSuperAdmin && brandFilter === 'all')}
+              title={isSuperAdmin && brandFilter === 'all' ? 'Pick a brand first' : undefined}
+            >
+              <RefreshCw className={`mr-2 h-4 w-4 ${isGenerating ? 'animate-spin' : ''}`} />
+              {isGenerating ? 'Generating...' : "Generate Last Week's Report"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : reports.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <FileBarChart className="h-10 w-10 mb-3" />
+            <p>No reports yet. Reports are generated each Monday for brands with report recipients.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Archive</CardTitle>
+            <CardDescription>Changes are against the week before each report</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Week</TableHead>
+                  {isSuperAdmin && brandFilter === 'all' && <TableHead>Brand</TableHead>}
+                  <TableHead>Impressions</TableHead>
+                  <TableHead>Actions</TableHead>
+                  <TableHead>New Reviews</TableHead>
+                  <TableHead>Calls</TableHead>
+                  <TableHead>Enquiries</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Download</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(report => (
+                  <TableRow key={report._id}>
+                    <TableCell className="font-medium whitespace-nowrap">{formatWeek(report)}</TableCell>
+                    {isSuperAdmin && brandFilter === 'all' && <TableCell>{report.brandId?.name || '-'}</TableCell>}
+                    <TableCell>{renderFigure(report, 'impressions')}</TableCell>
+                    <TableCell>{renderFigure(report, 'actions')}</TableCell>
+                    <TableCell>{renderFigure(report, 'newReviews')}</TableCell>
+                    <TableCell>{renderFigure(report, 'calls')}</TableCell>
+                    <TableCell>{renderFigure(report, 'enquiries')}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[report.status] || ''} title={report.lastError || report.emailedTo?.join(', ')}>
+                        {report.status.charAt(0).toUpperCase() + report.status.slice(1)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={`/api/reports/${report._id}/download?format=pdf`}>
+                            <FileDown className="mr-1 h-4 w-4" />PDF
+                          </a>
+                        </Button>
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={`/api/reports/${report._id}/download?format=html`}>
+                            <FileCode className="mr-1 h-4 w-4" />HTML
+                          </a>
+                        </Button>
+                        {canManage && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => sendReport(report._id)}
+                            disabled={sendingId !== null}
+                            title="Email to report recipients"
+                          >
+                            <Send className={`h-4 w-4 ${sendingId === report._id ? 'animate-pulse' : ''}`} />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -65,9 +65,16 @@ import {
   TrendingDown,
   Minus,
   Brain,
-  BarChart3
+  BarChart3,
+  FileText,
+  Bot,
+  ClipboardCheck
 } from "lucide-react"
 import { ReviewReplyModal } from "@/components/dashboard/review-reply-modal"
+import { FilledTemplate, ReplyTemplatePicker } from "@/components/dashboard/reply-template-picker"
+import { ReplyTemplateManager } from "@/components/dashboard/reply-template-manager"
+import { AutoReplyRules } from "@/components/dashboard/auto-reply-rules"
+import { ReplyApprovalQueue } from "@/components/dashboard/reply-approval-queue"
 import { useAuth } from "@/lib/hooks/use-auth"
 import { SentimentDashboard } from "@/components/dashboard/sentiment-dashboard"
 import { BusinessInsightsDashboard } from "@/components/dashboard/business-insights-dashboard"
@@ -97,7 +104,7 @@ export default function ReviewsPage() {
   const [viewType, setViewType] = useState<'brand' | 'store' | 'all'>('all')
   
   // View state
-  const [currentView, setCurrentView] = useState<'main' | 'replied' | 'sentiment' | 'business-insights' | 'keyword-analytics'>('sentiment')
+  const [currentView, setCurrentView] = useState<'main' | 'replied' | 'sentiment' | 'business-insights' | 'keyword-analytics' | 'templates' | 'auto-reply' | 'approvals'>('sentiment')
   
   // Bulk selection state
   const [selectedReviews, setSelectedReviews] = useState<Set<string>>(new Set())
@@ -119,6 +126,7 @@ export default function ReviewsPage() {
   // Bulk reply state
   const [bulkReplyModalOpen, setBulkReplyModalOpen] = useState(false)
   const [bulkReplyComment, setBulkReplyComment] = useState("")
+  const [bulkReplyTemplate, setBulkReplyTemplate] = useState<FilledTemplate | null>(null)
   const [isGeneratingBulkAI, setIsGeneratingBulkAI] = useState(false)
   
   // Get GMB data from database only (no localStorage fallback)
@@ -288,11 +296,14 @@ export default function ReviewsPage() {
         addressLine1: addressLine1,
         addressLine2: addressLine2,
         brandName: brandInfo.name || review.brandName,
+        brandId: brandInfo._id || review.brandId,
         processingTime: review.processingTime,
         // Store ID for filtering
         storeId: review.storeId, // Keep the original storeId (can be object or string)
         // Reply information
         reply: review.response || null,
+        // Pending or rejected reply draft awaiting an owner
+        draft: review.draft || null,
         replyDate: review.response?.responseTime ? new Date(review.response.responseTime).toLocaleDateString() : null,
         replyFullDate: review.response?.responseTime ? new Date(review.response.responseTime) : null,
         // For sorting and filtering
@@ -511,7 +522,7 @@ export default function ReviewsPage() {
   }
 
   const handleBulkReplySubmit = async () => {
-    if (!bulkReplyComment.trim()) {
+    if (!bulkReplyTemplate && !bulkReplyComment.trim()) {
       alert("Please enter a reply comment")
       return
     }
@@ -528,9 +539,15 @@ export default function ReviewsPage() {
     let successCount = 0
     let errorCount = 0
 
+    // Templates are filled in per review; reviews the template skipped are left alone
+    const templateReplies = new Map((bulkReplyTemplate?.replies || []).map(reply => [reply.reviewId, reply.text]))
+
     for (const review of selectedReviewsData) {
+      if (bulkReplyTemplate && !templateReplies.has(String(review.id))) continue
       try {
-        const success = await handlePostReply(review.id, bulkReplyComment.trim())
+        const success = bulkReplyTemplate
+          ? await handlePostReply(review.id, templateReplies.get(String(review.id))!, bulkReplyTemplate.templateId)
+          : await handlePostReply(review.id, bulkReplyComment.trim())
         if (success) {
           successCount++
         } else {
@@ -551,15 +568,34 @@ export default function ReviewsPage() {
 
     setBulkReplyModalOpen(false)
     setBulkReplyComment("")
+    setBulkReplyTemplate(null)
     clearSelection()
   }
   
-  const handleBulkExport = () => {
-    const selectedReviewsData = filteredAndSortedReviews.filter((review: any) => 
-      selectedReviews.has(review.id)
-    )
-    
-    // TODO: Implement export functionality
+  // Export reviews server-side with the current filters (streams CSV/XLSX)
+  const handleExport = (format: 'csv' | 'xlsx', reviewIds?: string[]) => {
+    const params = new URLSearchParams({ format })
+    if (selectedBrandId && selectedBrandId !== 'all') params.append('brandId', selectedBrandId)
+    if (storeFilter !== 'all') params.append('storeId', storeFilter)
+    if (ratingFilter !== 'all') params.append('rating', ratingFilter)
+    params.append('status', statusFilter === 'responded' || statusFilter === 'unresponded' ? statusFilter : 'active')
+    if (currentView === 'main') params.append('hasResponse', 'false')
+    if (currentView === 'replied') params.append('hasResponse', 'true')
+    if (debouncedSearchTerm.trim()) params.append('search', debouncedSearchTerm.trim())
+    if (platformFilter !== 'all') params.append('platform', platformFilter)
+    if (dateRangeFilter === 'custom') {
+      if (startDate) params.append('startDate', startDate)
+      if (endDate) params.append('endDate', endDate)
+    } else if (dateRangeFilter !== 'all') {
+      params.append('dateRange', dateRangeFilter)
+    }
+    if (reviewIds && reviewIds.length > 0) params.append('ids', reviewIds.join(','))
+
+    window.location.href = `/api/reviews/export?${params.toString()}`
+  }
+
+  const handleBulkExport = (format: 'csv' | 'xlsx') => {
+    handleExport(format, Array.from(selectedReviews).map(String))
   }
   
   const handleBulkFlag = () => {
@@ -573,7 +609,7 @@ export default function ReviewsPage() {
     setReplyModalOpen(true)
   }
 
-  const handlePostReply = async (reviewId: string, comment: string): Promise<boolean> => {
+  const handlePostReply = async (reviewId: string, comment: string, templateId?: string): Promise<boolean> => {
     try {
       
       
@@ -582,7 +618,7 @@ export default function ReviewsPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ comment }),
+        body: JSON.stringify({ comment, templateId }),
       })
 
       const data = await response.json()
@@ -608,6 +644,24 @@ export default function ReviewsPage() {
     }
   }
 
+  const handleSaveDraft = async (reviewId: string, comment: string, templateId?: string): Promise<boolean> => {
+    const response = await fetch(`/api/reviews/${reviewId}/draft`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ comment, templateId }),
+    })
+
+    const data = await response.json()
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to save reply draft')
+    }
+
+    refreshReviews()
+    return true
+  }
+
   const closeReplyModal = () => {
     setReplyModalOpen(false)
     setSelectedReviewForReply(null)
@@ -672,6 +726,19 @@ export default function ReviewsPage() {
               {isSyncing ? 'Syncing...' : 'Sync Reviews'}
             </Button>
           )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export filtered reviews</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button 
             onClick={() => setShowFilters(!showFilters)}
             variant="outline" 
@@ -896,6 +963,35 @@ export default function ReviewsPage() {
           <Search className="h-4 w-4" />
           Keyword Analytics
         </Button>
+        <Button
+          variant={currentView === 'templates' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => setCurrentView('templates')}
+          className="flex items-center gap-2"
+        >
+          <FileText className="h-4 w-4" />
+          Reply Templates
+        </Button>
+        <Button
+          variant={currentView === 'auto-reply' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => setCurrentView('auto-reply')}
+          className="flex items-center gap-2"
+        >
+          <Bot className="h-4 w-4" />
+          Auto-Reply
+        </Button>
+        {hasPermission('draft_reply') && (
+          <Button
+            variant={currentView === 'approvals' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setCurrentView('approvals')}
+            className="flex items-center gap-2"
+          >
+            <ClipboardCheck className="h-4 w-4" />
+            {hasPermission('reply_review') ? 'Reply Approvals' : 'My Reply Drafts'}
+          </Button>
+        )}
       </div>
 
       {/* Bulk Actions Bar */}
@@ -914,6 +1010,18 @@ export default function ReviewsPage() {
                       Bulk Reply
                     </Button>
                   )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="outline" className="h-8">
+                        <Download className="h-3 w-3 mr-1" />
+                        Export Selected
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      <DropdownMenuItem onClick={() => handleBulkExport('csv')}>CSV</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleBulkExport('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               </div>
               <Button size="sm" variant="ghost" onClick={clearSelection} className="h-8">
@@ -1239,6 +1347,16 @@ export default function ReviewsPage() {
                       <p className="truncate" title={review.review}>
                         {review.review}
                       </p>
+                      {review.draft && !review.responded && (
+                        <Badge
+                          variant={review.draft.status === 'rejected' ? 'destructive' : 'secondary'}
+                          className="mt-1"
+                          title={review.draft.rejectionReason || review.draft.comment}
+                        >
+                          {review.draft.status === 'rejected' ? 'Draft rejected' : 'Draft awaiting approval'}
+                          {' · '}{review.draft.author?.name || review.draft.author?.email}
+                        </Badge>
+                      )}
                     </TableCell>
                       <TableCell>
                         <div className="flex flex-col">
@@ -1273,6 +1391,14 @@ export default function ReviewsPage() {
                               Reply
                             </DropdownMenuItem>
                           )}
+                          {currentView === 'main' && !hasPermission('reply_review') && hasPermission('draft_reply') && (
+                            <DropdownMenuItem 
+                              onClick={() => handleReplyToReview(review)}
+                            >
+                              <Reply className="mr-2 h-4 w-4" />
+                              {review.draft?.status === 'pending' ? 'Edit Draft Reply' : 'Draft Reply'}
+                            </DropdownMenuItem>
+                          )}
                           {currentView === 'replied' && (
                             <DropdownMenuItem onClick={() => handleViewFullReview(review)}>
                               <CheckCircle className="mr-2 h-4 w-4" />
@@ -1446,6 +1572,27 @@ export default function ReviewsPage() {
                   </div>
                 )}
 
+                {/* Reply Draft */}
+                {!selectedReviewForView.reply && selectedReviewForView.draft && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                    <h4 className="font-medium text-sm text-yellow-800 mb-2">
+                      {selectedReviewForView.draft.status === 'rejected' ? 'Rejected Draft:' : 'Draft Awaiting Approval:'}
+                    </h4>
+                    <p className="text-yellow-900 mb-3 whitespace-pre-wrap">{selectedReviewForView.draft.comment}</p>
+                    <div className="flex items-center space-x-4 text-xs text-yellow-700">
+                      <span>By: {selectedReviewForView.draft.author?.name || selectedReviewForView.draft.author?.email}</span>
+                      <span>•</span>
+                      <span>{new Date(selectedReviewForView.draft.updatedAt).toLocaleDateString()}</span>
+                      {selectedReviewForView.draft.rejectionReason && (
+                        <>
+                          <span>•</span>
+                          <span>Reason: {selectedReviewForView.draft.rejectionReason}</span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {/* Review Metadata */}
                 <div className="flex items-center justify-between pt-2 border-t">
                   <div className="flex items-center space-x-2">
@@ -1466,13 +1613,13 @@ export default function ReviewsPage() {
                 <Button variant="outline" onClick={closeViewFullModal}>
                   Close
                 </Button>
-                {!selectedReviewForView.responded && hasPermission('reply_review') && (
+                {!selectedReviewForView.responded && (hasPermission('reply_review') || hasPermission('draft_reply')) && (
                   <Button onClick={() => {
                     closeViewFullModal()
                     handleReplyToReview(selectedReviewForView)
                   }}>
                     <Reply className="h-4 w-4 mr-2" />
-                    Reply to Review
+                    {hasPermission('reply_review') ? 'Reply to Review' : 'Draft Reply'}
                   </Button>
                 )}
               </DialogFooter>
@@ -1487,12 +1634,20 @@ export default function ReviewsPage() {
           isOpen={replyModalOpen}
           onClose={closeReplyModal}
           review={selectedReviewForReply}
-          onReply={handlePostReply}
+          onReply={hasPermission('reply_review') ? handlePostReply : handleSaveDraft}
+          mode={hasPermission('reply_review') ? 'reply' : 'draft'}
+          initialComment={selectedReviewForReply.draft?.status === 'pending' ? selectedReviewForReply.draft.comment : ''}
         />
       )}
 
       {/* Bulk Reply Modal */}
-      <Dialog open={bulkReplyModalOpen} onOpenChange={setBulkReplyModalOpen}>
+      <Dialog
+        open={bulkReplyModalOpen}
+        onOpenChange={(open) => {
+          setBulkReplyModalOpen(open)
+          if (!open) setBulkReplyTemplate(null)
+        }}
+      >
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
@@ -1500,7 +1655,9 @@ export default function ReviewsPage() {
               Bulk Reply to Reviews
             </DialogTitle>
             <DialogDescription>
-              Send the same reply to {selectedReviews.size} selected review{selectedReviews.size !== 1 ? 's' : ''}.
+              {bulkReplyTemplate
+                ? `Send a filled-in template reply to ${bulkReplyTemplate.replies.length} selected review${bulkReplyTemplate.replies.length !== 1 ? 's' : ''}.`
+                : `Send the same reply to ${selectedReviews.size} selected review${selectedReviews.size !== 1 ? 's' : ''}.`}
             </DialogDescription>
           </DialogHeader>
 
@@ -1509,22 +1666,55 @@ export default function ReviewsPage() {
               <Label htmlFor="bulk-reply-comment" className="text-sm font-medium">
                 Reply Message
               </Label>
-              <Textarea
-                id="bulk-reply-comment"
-                placeholder="Thank you for your feedback! We appreciate your business..."
-                value={bulkReplyComment}
-                onChange={(e) => setBulkReplyComment(e.target.value)}
-                className="min-h-[100px] resize-none"
-                maxLength={1000}
-              />
-              <div className="text-xs text-gray-500 text-right">
-                {bulkReplyComment.length}/1000 characters
-              </div>
+              {bulkReplyModalOpen && (
+                <ReplyTemplatePicker
+                  reviewIds={filteredAndSortedReviews
+                    .filter((review: any) => selectedReviews.has(review.id) && !review.responded)
+                    .map((review: any) => String(review.id))}
+                  brandId={selectedBrandId}
+                  onFill={setBulkReplyTemplate}
+                />
+              )}
+              {bulkReplyTemplate ? (
+                <div className="max-h-[240px] overflow-y-auto space-y-2">
+                  {bulkReplyTemplate.replies.map(reply => {
+                    const review: any = filteredAndSortedReviews.find((r: any) => String(r.id) === reply.reviewId)
+                    return (
+                      <div key={reply.reviewId} className="p-2 bg-gray-50 rounded-lg">
+                        <p className="text-xs font-medium text-gray-600">{review?.customer} · {review?.rating}★</p>
+                        <p className="text-sm">{reply.text}</p>
+                      </div>
+                    )
+                  })}
+                  {bulkReplyTemplate.skippedReviewIds.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {bulkReplyTemplate.skippedReviewIds.length} review{bulkReplyTemplate.skippedReviewIds.length !== 1 ? 's are' : ' is'} outside
+                      this template&apos;s star ratings and will be skipped.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <Textarea
+                    id="bulk-reply-comment"
+                    placeholder="Thank you for your feedback! We appreciate your business..."
+                    value={bulkReplyComment}
+                    onChange={(e) => setBulkReplyComment(e.target.value)}
+                    className="min-h-[100px] resize-none"
+                    maxLength={1000}
+                  />
+                  <div className="text-xs text-gray-500 text-right">
+                    {bulkReplyComment.length}/1000 characters
+                  </div>
+                </>
+              )}
             </div>
 
             <div className="p-3 bg-yellow-50 rounded-lg">
               <p className="text-sm text-yellow-800">
-                <strong>Note:</strong> This will send the same reply to all selected reviews. 
+                <strong>Note:</strong> {bulkReplyTemplate
+                  ? 'Each review gets its own reply, with a randomly picked variant of the template.'
+                  : 'This will send the same reply to all selected reviews.'}{' '}
                 Only unresponded reviews will be replied to.
               </p>
             </div>
@@ -1534,14 +1724,17 @@ export default function ReviewsPage() {
             <Button
               type="button"
               variant="outline"
-              onClick={() => setBulkReplyModalOpen(false)}
+              onClick={() => {
+                setBulkReplyModalOpen(false)
+                setBulkReplyTemplate(null)
+              }}
             >
               Cancel
             </Button>
             <Button
               type="button"
               onClick={handleBulkReplySubmit}
-              disabled={!bulkReplyComment.trim()}
+              disabled={bulkReplyTemplate ? bulkReplyTemplate.replies.length === 0 : !bulkReplyComment.trim()}
               className="min-w-[120px]"
             >
               Send Bulk Reply
@@ -1616,6 +1809,72 @@ export default function ReviewsPage() {
           </CardContent>
         </Card>
       )}
+
+      {/* Reply Templates Tab */}
+      {currentView === 'templates' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Reply Templates
+            </CardTitle>
+            <CardDescription>
+              Reusable replies with variables, offered when replying to reviews with matching star ratings
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ReplyTemplateManager
+              brandId={selectedBrandId && selectedBrandId !== '' ? selectedBrandId : undefined}
+              canEdit={hasPermission('reply_review')}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Reply Approvals Tab */}
+      {currentView === 'approvals' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              {hasPermission('reply_review') ? 'Reply Approvals' : 'My Reply Drafts'}
+            </CardTitle>
+            <CardDescription>
+              {hasPermission('reply_review')
+                ? 'Reply drafts from managers; approving one posts it to Google'
+                : 'Replies you drafted and whether an owner has approved them'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ReplyApprovalQueue
+              brandId={selectedBrandId && selectedBrandId !== '' ? selectedBrandId : undefined}
+              canApprove={hasPermission('reply_review')}
+              onChange={refreshReviews}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Auto-Reply Rules Tab */}
+      {currentView === 'auto-reply' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              Auto-Reply Rules
+            </CardTitle>
+            <CardDescription>
+              Reply to, escalate or skip new reviews automatically based on their rating and comment
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AutoReplyRules
+              brandId={selectedBrandId && selectedBrandId !== '' ? selectedBrandId : undefined}
+              canEdit={hasPermission('reply_review')}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -9,6 +9,7 @@ import { useAuth } from "@/lib/hooks/use-auth"
 import StoreCreateModal from "@/components/dashboard/store-create-modal"
 import GmbSyncButton from "@/components/dashboard/gmb-sync-button"
 import { VerificationModal } from "@/components/dashboard/verification-modal"
+import StoreExportModal from "@/components/dashboard/store-export-modal"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -87,6 +88,7 @@ export default function StoresPage() {
   const [statusFilter, setStatusFilter] = useState("all")
   const [categoryFilter, setCategoryFilter] = useState("all")
   const [cityFilter, setCityFilter] = useState("all")
+  const [exportModalOpen, setExportModalOpen] = useState(false)
   
   // Fetch stores from API - use the same API as dashboard
   const { stores, isLoading: storesLoading, refresh: refreshStores, totalStores } = useStoresWithPerformance(10000)
@@ -251,6 +253,7 @@ export default function StoresPage() {
         latitude: store.address?.latitude || undefined,
         longitude: store.address?.longitude || undefined
       },
+      description: store.description || '',
       primaryCategory: store.primaryCategory || 'Business',
       additionalCategories: store.additionalCategories || [],
       tags: store.tags || [],
@@ -269,6 +272,7 @@ export default function StoresPage() {
       },
       microsite: {
         tagline: store.microsite?.tagline || '',
+        aboutSection: store.microsite?.aboutSection || '',
         gmbUrl: store.microsite?.gmbUrl || store.website || '',
         mapsUrl: store.microsite?.mapsUrl || store.gmbData?.metadata?.mapsUri || '',
         heroImage: store.microsite?.heroImage || null,
@@ -1041,7 +1045,7 @@ export default function StoresPage() {
                 <Filter className="h-4 w-4" />
                 Advanced Filter
               </Button>
-              <Button variant="outline" className="flex items-center gap-2">
+              <Button variant="outline" className="flex items-center gap-2" onClick={() => setExportModalOpen(true)}>
                 <Download className="h-4 w-4" />
                 Export
               </Button>
@@ -1336,6 +1340,18 @@ export default function StoresPage() {
         />
       )}
 
+      {/* Export Modal */}
+      <StoreExportModal
+        isOpen={exportModalOpen}
+        onClose={() => setExportModalOpen(false)}
+        filters={{
+          search: searchTerm,
+          status: statusFilter,
+          category: categoryFilter,
+          city: cityFilter
+        }}
+      />
+
       {/* Success Toast Notification */}
       {showToast && (
         <div className="fixed bottom-4 right-4 z-50 animate-in slide-in-from-bottom-5">
@@ -0,0 +1,477 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useAuth } from "@/lib/hooks/use-auth"
+import { useBrands } from "@/lib/hooks/use-gmb-data"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, RefreshCw, Pencil, Trash2, Search, ShieldAlert } from "lucide-react"
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin: 'Super Admin',
+  owner: 'Owner',
+  manager: 'Manager',
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  inactive: 'bg-gray-100 text-gray-800',
+  suspended: 'bg-red-100 text-red-800',
+}
+
+const EMPTY_FORM = {
+  name: '',
+  email: '',
+  password: '',
+  phone: '',
+  role: 'manager',
+  brandId: '',
+  status: 'active',
+}
+
+export default function UsersPage() {
+  const { user: currentUser, hasPermission, loading: authLoading } = useAuth()
+  const { brands } = useBrands()
+
+  const [users, setUsers] = useState<any[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [pagination, setPagination] = useState({ currentPage: 1, totalPages: 1, totalCount: 0 })
+  const [filters, setFilters] = useState({ search: '', role: 'all', status: 'all', brandId: 'all' })
+
+  const [modalOpen, setModalOpen] = useState(false)
+  const [editingUser, setEditingUser] = useState<any | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canViewUsers = hasPermission('view_users')
+  const needsBrand = form.role === 'owner' || form.role === 'manager'
+
+  const fetchUsers = async (page = 1) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ page: page.toString(), limit: '20' })
+      if (filters.search) params.set('search', filters.search)
+      if (filters.role !== 'all') params.set('role', filters.role)
+      if (filters.status !== 'all') params.set('status', filters.status)
+      if (filters.brandId !== 'all') params.set('brandId', filters.brandId)
+
+      const response = await fetch(`/api/users?${params.toString()}`)
+      const result = await response.json()
+      if (result.success) {
+        setUsers(result.data.users)
+        setPagination(result.data.pagination)
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (canViewUsers) fetchUsers()
+  }, [filters, canViewUsers])
+
+  const openCreateModal = () => {
+    setEditingUser(null)
+    setForm(EMPTY_FORM)
+    setModalOpen(true)
+  }
+
+  const openEditModal = (user: any) => {
+    setEditingUser(user)
+    setForm({
+      name: user.name,
+      email: user.email,
+      password: '',
+      phone: user.phone || '',
+      role: user.role,
+      brandId: user.brandId || '',
+      status: user.status,
+    })
+    setModalOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim() || (!editingUser && (!form.email.trim() || !form.password))) {
+      alert('Name, email and password are required')
+      return
+    }
+
+    if (needsBrand && !form.brandId) {
+      alert('Owners and managers must be assigned to a brand')
+      return
+    }
+
+    const payload: Record<string, unknown> = {
+      name: form.name,
+      phone: form.phone,
+      role: form.role,
+      brandId: needsBrand ? form.brandId : null,
+      status: form.status,
+    }
+    if (!editingUser) payload.email = form.email
+    if (form.password) payload.password = form.password
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(editingUser ? `/api/users/${editingUser._id}` : '/api/users', {
+        method: editingUser ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save user')
+      }
+
+      setModalOpen(false)
+      await fetchUsers(pagination.currentPage)
+    } catch (error) {
+      console.error('Error saving user:', error)
+      alert(`Failed to save user: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (user: any) => {
+    if (!confirm(`Delete ${user.name} (${user.email})? This cannot be undone.`)) return
+
+    try {
+      const response = await fetch(`/api/users/${user._id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete user')
+      }
+
+      await fetchUsers(pagination.currentPage)
+    } catch (error) {
+      console.error('Error deleting user:', error)
+      alert(`Failed to delete user: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return 'Never'
+    const date = new Date(dateString)
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!canViewUsers) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-muted-foreground">
+        <ShieldAlert className="h-10 w-10 mb-3" />
+        <p>You do not have permission to manage users</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+          <p className="text-muted-foreground">Manage who can sign in, their role and the brand they belong to</p>
+        </div>
+        <Button onClick={openCreateModal}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add User
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search name or email"
+                className="pl-9"
+                value={filters.search}
+                onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+              />
+            </div>
+            <Select value={filters.role} onValueChange={(role) => setFilters(prev => ({ ...prev, role }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="All roles" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.status} onValueChange={(status) => setFilters(prev => ({ ...prev, status }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="All statuses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Inactive</SelectItem>
+                <SelectItem value="suspended">Suspended</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.brandId} onValueChange={(brandId) => setFilters(prev => ({ ...prev, brandId }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="All brands" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All brands</SelectItem>
+                {brands.map((brand: any) => (
+                  <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* User table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Users</CardTitle>
+          <CardDescription>{pagination.totalCount} user{pagination.totalCount === 1 ? '' : 's'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : users.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No users found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Brand</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Login</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user._id}>
+                    <TableCell>
+                      <p className="font-medium">{user.name}</p>
+                      <p className="text-xs text-muted-foreground">{user.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ROLE_LABELS[user.role] || user.role}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {user.brandName || <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[user.status] || ''}`}>
+                        {user.status}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{formatDate(user.lastLoginAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditModal(user)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {user._id !== currentUser?.id && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(user)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.currentPage} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pagination.currentPage <= 1}
+                  onClick={() => fetchUsers(pagination.currentPage - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pagination.currentPage >= pagination.totalPages}
+                  onClick={() => fetchUsers(pagination.currentPage + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit modal */}
+      <Dialog open={modalOpen} onOpenChange={setModalOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingUser ? 'Edit User' : 'Add User'}</DialogTitle>
+            <DialogDescription>
+              Owners and managers only see data for the brand they are assigned to
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="user-name">Name</Label>
+                <Input
+                  id="user-name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-email">Email</Label>
+                <Input
+                  id="user-email"
+                  type="email"
+                  value={form.email}
+                  disabled={!!editingUser}
+                  onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="user-password">{editingUser ? 'New Password' : 'Password'}</Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  placeholder={editingUser ? 'Leave blank to keep' : 'At least 8 characters'}
+                  value={form.password}
+                  onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-phone">Phone</Label>
+                <Input
+                  id="user-phone"
+                  value={form.phone}
+                  onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={form.role}
+                  disabled={editingUser?._id === currentUser?.id}
+                  onValueChange={(role) => setForm(prev => ({ ...prev, role }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select
+                  value={form.status}
+                  disabled={editingUser?._id === currentUser?.id}
+                  onValueChange={(status) => setForm(prev => ({ ...prev, status }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="inactive">Inactive</SelectItem>
+                    <SelectItem value="suspended">Suspended</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {needsBrand && (
+              <div className="space-y-2">
+                <Label>Brand</Label>
+                <Select value={form.brandId} onValueChange={(brandId) => setForm(prev => ({ ...prev, brandId }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a brand" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {brands.map((brand: any) => (
+                      <SelectItem key={brand._id} value={brand._id}>{brand.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              {editingUser ? 'Save Changes' : 'Create User'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
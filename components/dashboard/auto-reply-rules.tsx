@@ -0,0 +1,686 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { AlertCircle, FlaskConical, Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+
+type RuleAction = "reply" | "escalate" | "skip"
+type CommentCondition = "any" | "with_comment" | "without_comment"
+
+interface AutoReplyRuleData {
+  _id: string
+  name: string
+  priority: number
+  isActive: boolean
+  conditions: {
+    minRating: number
+    maxRating: number
+    comment: CommentCondition
+    storeIds: string[]
+  }
+  action: RuleAction
+  templateId?: { _id: string; name: string; isActive: boolean } | null
+  delayMinutes: number
+}
+
+interface RuleForm {
+  name: string
+  priority: number
+  minRating: number
+  maxRating: number
+  comment: CommentCondition
+  action: RuleAction
+  templateId: string
+  delayMinutes: number
+}
+
+interface TemplateOption {
+  _id: string
+  name: string
+}
+
+interface AutoReplyActionData {
+  _id: string
+  ruleName: string
+  action: RuleAction
+  status: string
+  replyText?: string
+  scheduledFor?: string
+  postedAt?: string
+  lastError?: string
+  cancelReason?: string
+  createdAt: string
+  reviewId?: { reviewer?: { displayName?: string }; starRating: number; comment?: string } | null
+  storeId?: { name: string } | null
+}
+
+interface DryRunData {
+  days: number
+  totalReviews: number
+  actions: Record<RuleAction | "unmatched", number>
+  rules: Array<{ ruleId: string; ruleName: string; action: RuleAction; matched: number }>
+  wouldReply: number
+  reviews: Array<{
+    reviewId: string
+    reviewer: string
+    rating: number
+    comment: string
+    storeName: string
+    hasResponse: boolean
+    ruleName: string | null
+    action: RuleAction | null
+    replyText?: string
+    scheduledFor?: string
+    error?: string
+  }>
+}
+
+interface AutoReplyRulesProps {
+  brandId?: string
+  canEdit: boolean
+}
+
+const ACTION_LABELS: Record<RuleAction, string> = {
+  reply: "Reply with template",
+  escalate: "Escalate to notification recipients, never auto-reply",
+  skip: "Do nothing"
+}
+
+const COMMENT_LABELS: Record<CommentCondition, string> = {
+  any: "With or without comment",
+  with_comment: "With a comment",
+  without_comment: "Without a comment"
+}
+
+const DELAY_OPTIONS = [
+  { value: 0, label: "Immediately" },
+  { value: 30, label: "After 30 minutes" },
+  { value: 60, label: "After 1 hour" },
+  { value: 120, label: "After 2 hours" },
+  { value: 360, label: "After 6 hours" },
+  { value: 1440, label: "After 1 day" },
+  { value: 2880, label: "After 2 days" }
+]
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  scheduled: "secondary",
+  posting: "secondary",
+  posted: "default",
+  failed: "destructive",
+  escalated: "destructive",
+  cancelled: "outline",
+  skipped: "outline"
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  priority: 100,
+  minRating: 5,
+  maxRating: 5,
+  comment: "any",
+  action: "reply",
+  templateId: "",
+  delayMinutes: 120
+}
+
+function ratingRange(minRating: number, maxRating: number): string {
+  return minRating === maxRating ? `${minRating}★` : `${minRating}-${maxRating}★`
+}
+
+function delayLabel(minutes: number): string {
+  if (minutes === 0) return "immediately"
+  if (minutes % 1440 === 0) return `after ${minutes / 1440}d`
+  if (minutes % 60 === 0) return `after ${minutes / 60}h`
+  return `after ${minutes}m`
+}
+
+export function AutoReplyRules({ brandId, canEdit }: AutoReplyRulesProps) {
+  const [rules, setRules] = useState<AutoReplyRuleData[]>([])
+  const [templates, setTemplates] = useState<TemplateOption[]>([])
+  const [actions, setActions] = useState<AutoReplyActionData[]>([])
+  const [actionStatus, setActionStatus] = useState("all")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [dryRun, setDryRun] = useState<DryRunData | null>(null)
+  const [isDryRunning, setIsDryRunning] = useState(false)
+
+  const brandParam = brandId && brandId !== "all" ? brandId : undefined
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const params = new URLSearchParams()
+      if (brandParam) params.set("brandId", brandParam)
+
+      const [rulesResponse, templatesResponse] = await Promise.all([
+        fetch(`/api/auto-reply/rules?${params.toString()}`),
+        fetch(`/api/reply-templates?${params.toString()}`)
+      ])
+      const [rulesData, templatesData] = await Promise.all([rulesResponse.json(), templatesResponse.json()])
+      if (rulesData.success) {
+        setRules(rulesData.data)
+      } else {
+        setError(rulesData.error || "Failed to fetch auto-reply rules")
+      }
+      setTemplates(templatesData.success ? templatesData.data : [])
+    } catch (err) {
+      console.error("Error fetching auto-reply rules:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch auto-reply rules")
+    } finally {
+      setLoading(false)
+    }
+  }, [brandParam])
+
+  const fetchActions = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: "20", status: actionStatus })
+      if (brandParam) params.set("brandId", brandParam)
+
+      const response = await fetch(`/api/auto-reply/actions?${params.toString()}`)
+      const data = await response.json()
+      setActions(data.success ? data.data.actions : [])
+    } catch (err) {
+      console.error("Error fetching auto-reply actions:", err)
+      setActions([])
+    }
+  }, [brandParam, actionStatus])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  useEffect(() => {
+    fetchActions()
+  }, [fetchActions])
+
+  const openEditor = (rule?: AutoReplyRuleData) => {
+    setEditingId(rule?._id || null)
+    setForm(rule
+      ? {
+          name: rule.name,
+          priority: rule.priority,
+          minRating: rule.conditions.minRating,
+          maxRating: rule.conditions.maxRating,
+          comment: rule.conditions.comment,
+          action: rule.action,
+          templateId: rule.templateId?._id || "",
+          delayMinutes: rule.delayMinutes
+        }
+      : { ...EMPTY_FORM })
+  }
+
+  const saveRule = async () => {
+    if (!form) return
+    setIsSaving(true)
+    try {
+      const response = await fetch(editingId ? `/api/auto-reply/rules/${editingId}` : "/api/auto-reply/rules", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          priority: form.priority,
+          conditions: { minRating: form.minRating, maxRating: form.maxRating, comment: form.comment },
+          action: form.action,
+          ...(form.action === "reply" && { templateId: form.templateId, delayMinutes: form.delayMinutes }),
+          ...(!editingId && brandParam && { brandId: brandParam })
+        })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        alert(data.error || "Failed to save rule")
+        return
+      }
+      setForm(null)
+      setDryRun(null)
+      await fetchRules()
+    } catch (err) {
+      console.error("Error saving auto-reply rule:", err)
+      alert("Failed to save rule")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleActive = async (rule: AutoReplyRuleData) => {
+    const response = await fetch(`/api/auto-reply/rules/${rule._id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isActive: !rule.isActive })
+    })
+    const data = await response.json()
+    if (!data.success) alert(data.error || "Failed to update rule")
+    setDryRun(null)
+    await Promise.all([fetchRules(), fetchActions()])
+  }
+
+  const deleteRule = async (rule: AutoReplyRuleData) => {
+    if (!confirm(`Delete the "${rule.name}" rule? Replies it has queued will be cancelled.`)) return
+    const response = await fetch(`/api/auto-reply/rules/${rule._id}`, { method: "DELETE" })
+    const data = await response.json()
+    if (!data.success) alert(data.error || "Failed to delete rule")
+    setDryRun(null)
+    await Promise.all([fetchRules(), fetchActions()])
+  }
+
+  const cancelAction = async (action: AutoReplyActionData) => {
+    const response = await fetch(`/api/auto-reply/actions/${action._id}/cancel`, { method: "POST" })
+    const data = await response.json()
+    if (!data.success) alert(data.error || "Failed to cancel reply")
+    await fetchActions()
+  }
+
+  const runDryRun = async () => {
+    setIsDryRunning(true)
+    try {
+      const response = await fetch("/api/auto-reply/dry-run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days: 30, ...(brandParam && { brandId: brandParam }) })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        alert(data.error || "Failed to run dry run")
+        return
+      }
+      setDryRun(data.data)
+    } catch (err) {
+      console.error("Error running auto-reply dry run:", err)
+      alert("Failed to run dry run")
+    } finally {
+      setIsDryRunning(false)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            New reviews are checked against active rules after each sync; the first matching rule decides.
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant="outline" onClick={runDryRun} disabled={isDryRunning || rules.length === 0}>
+              {isDryRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+              Dry run (30 days)
+            </Button>
+            {canEdit && (
+              <Button size="sm" onClick={() => openEditor()}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Rule
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center py-12 space-x-2 text-red-600">
+            <AlertCircle className="h-5 w-5" />
+            <span className="text-sm">{error}</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Priority</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Then</TableHead>
+                <TableHead>Status</TableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 6 : 5} className="text-center py-12 text-sm text-muted-foreground">
+                    No auto-reply rules yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map(rule => (
+                  <TableRow key={rule._id}>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="text-sm">
+                      {ratingRange(rule.conditions.minRating, rule.conditions.maxRating)}, {COMMENT_LABELS[rule.conditions.comment].toLowerCase()}
+                      {rule.conditions.storeIds.length > 0 && (
+                        <span className="text-xs text-muted-foreground"> ({rule.conditions.storeIds.length} stores)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {rule.action === "reply" ? (
+                        <span>
+                          Reply with &quot;{rule.templateId?.name || "missing template"}&quot; {delayLabel(rule.delayMinutes)}
+                          {rule.templateId && !rule.templateId.isActive && (
+                            <Badge variant="destructive" className="ml-2">Template inactive</Badge>
+                          )}
+                        </span>
+                      ) : ACTION_LABELS[rule.action]}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={rule.isActive ? "default" : "outline"}>{rule.isActive ? "Active" : "Inactive"}</Badge>
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => toggleActive(rule)}>
+                            {rule.isActive ? "Deactivate" : "Activate"}
+                          </Button>
+                          <Button variant="outline" size="icon" onClick={() => openEditor(rule)} title="Edit rule">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="icon" onClick={() => deleteRule(rule)} title="Delete rule">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {dryRun && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Dry run: last {dryRun.days} days</h3>
+            <Button variant="ghost" size="sm" onClick={() => setDryRun(null)}>Close</Button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Reviews</p>
+              <p className="text-xl font-semibold">{dryRun.totalReviews}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Would reply (unanswered)</p>
+              <p className="text-xl font-semibold">{dryRun.wouldReply}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Escalated</p>
+              <p className="text-xl font-semibold">{dryRun.actions.escalate}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Skipped</p>
+              <p className="text-xl font-semibold">{dryRun.actions.skip}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">No rule matched</p>
+              <p className="text-xl font-semibold">{dryRun.actions.unmatched}</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {dryRun.rules.map(rule => (
+              <Badge key={rule.ruleId} variant="outline">{rule.ruleName}: {rule.matched}</Badge>
+            ))}
+          </div>
+          <div className="max-h-[400px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Review</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Would do</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dryRun.reviews.slice(0, 100).map(review => (
+                  <TableRow key={review.reviewId}>
+                    <TableCell className="align-top">
+                      <div className="space-y-1">
+                        <span className="font-medium">{review.rating}★ {review.reviewer}</span>
+                        <p className="text-xs text-muted-foreground">{review.storeName}</p>
+                        {review.comment && <p className="text-xs line-clamp-2">{review.comment}</p>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top text-sm">{review.ruleName || <span className="text-muted-foreground">No rule</span>}</TableCell>
+                    <TableCell className="align-top text-sm">
+                      {review.error ? (
+                        <span className="text-red-600">{review.error}</span>
+                      ) : review.action === "reply" ? (
+                        <div className="space-y-1">
+                          <p className="line-clamp-3">{review.replyText}</p>
+                          {review.hasResponse ? (
+                            <Badge variant="outline">Already answered</Badge>
+                          ) : review.scheduledFor && (
+                            <p className="text-xs text-muted-foreground">at {new Date(review.scheduledFor).toLocaleString()}</p>
+                          )}
+                        </div>
+                      ) : review.action ? ACTION_LABELS[review.action] : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold">Recent rule actions</h3>
+          <Select value={actionStatus} onValueChange={setActionStatus}>
+            <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {Object.keys(STATUS_VARIANTS).map(status => (
+                <SelectItem key={status} value={status}>{status.charAt(0).toUpperCase() + status.slice(1)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Review</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>When</TableHead>
+              {canEdit && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {actions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canEdit ? 5 : 4} className="text-center py-8 text-sm text-muted-foreground">
+                  No rule has fired yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              actions.map(action => (
+                <TableRow key={action._id}>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <span className="font-medium">
+                        {action.reviewId ? `${action.reviewId.starRating}★ ${action.reviewId.reviewer?.displayName || "Anonymous"}` : "Deleted review"}
+                      </span>
+                      {action.storeId && <p className="text-xs text-muted-foreground">{action.storeId.name}</p>}
+                      {action.replyText && <p className="text-xs line-clamp-2">{action.replyText}</p>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{action.ruleName}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[action.status] || "outline"}>{action.status}</Badge>
+                    {(action.lastError || action.cancelReason) && (
+                      <p className="text-xs text-muted-foreground mt-1">{action.lastError || action.cancelReason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {new Date(action.postedAt || action.scheduledFor || action.createdAt).toLocaleString()}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      {action.status === "scheduled" && (
+                        <Button variant="outline" size="sm" onClick={() => cancelAction(action)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Auto-Reply Rule" : "New Auto-Reply Rule"}</DialogTitle>
+            <DialogDescription>
+              Rules are checked from the lowest priority number up; the first match decides what happens to a review.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="rule-name">Name</Label>
+                  <Input
+                    id="rule-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Thank 5 star reviews without a comment"
+                    maxLength={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-priority">Priority</Label>
+                  <Input
+                    id="rule-priority"
+                    type="number"
+                    min={0}
+                    max={1000}
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Minimum rating</Label>
+                  <Select value={String(form.minRating)} onValueChange={(value) => setForm({ ...form, minRating: Number(value) })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4, 5].map(rating => <SelectItem key={rating} value={String(rating)}>{rating}★</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Maximum rating</Label>
+                  <Select value={String(form.maxRating)} onValueChange={(value) => setForm({ ...form, maxRating: Number(value) })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4, 5].map(rating => <SelectItem key={rating} value={String(rating)}>{rating}★</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Comment</Label>
+                  <Select value={form.comment} onValueChange={(value) => setForm({ ...form, comment: value as CommentCondition })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(COMMENT_LABELS) as CommentCondition[]).map(condition => (
+                        <SelectItem key={condition} value={condition}>{COMMENT_LABELS[condition]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={form.action} onValueChange={(value) => setForm({ ...form, action: value as RuleAction })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACTION_LABELS) as RuleAction[]).map(action => (
+                      <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.action === "reply" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Template</Label>
+                    <Select value={form.templateId} onValueChange={(value) => setForm({ ...form, templateId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Choose a template" /></SelectTrigger>
+                      <SelectContent>
+                        {templates.map(template => (
+                          <SelectItem key={template._id} value={template._id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Post the reply</Label>
+                    <Select value={String(form.delayMinutes)} onValueChange={(value) => setForm({ ...form, delayMinutes: Number(value) })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {DELAY_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={saveRule}
+              disabled={isSaving || !form?.name.trim() || (form?.action === "reply" && !form.templateId)}
+            >
+              {isSaving ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
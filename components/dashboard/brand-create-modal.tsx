@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select } from "@/components/ui/select"
 import {
   Dialog,
@@ -33,6 +34,7 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ErrorDisplay, FieldError, ValidationErrors } from "@/components/ui/error-display"
 import { useToast } from "@/components/ui/toast"
+import { NotificationRecipients } from "@/components/dashboard/notification-recipients"
 
 interface BrandFormData {
   // Basic Info
@@ -113,6 +115,15 @@ interface BrandFormData {
     notifications: {
       reviews: boolean
       posts: boolean
+      enquiries: boolean
+      syncFailures: boolean
+      verification: boolean
+      weeklyReport: boolean
+      negativeReviewMaxRating: number
+    }
+    enquirySla: {
+      firstResponseHours: number
+      resolutionHours: number
     }
     seo: {
       title: string
@@ -182,7 +193,16 @@ const initialFormData: BrandFormData = {
     },
     notifications: {
       reviews: true,
-      posts: true
+      posts: true,
+      enquiries: true,
+      syncFailures: true,
+      verification: true,
+      weeklyReport: true,
+      negativeReviewMaxRating: 2
+    },
+    enquirySla: {
+      firstResponseHours: 24,
+      resolutionHours: 72
     },
     seo: {
       title: "",
@@ -289,7 +309,16 @@ export default function BrandCreateModal({
           },
           notifications: {
             reviews: editBrand.settings?.notifications?.reviews ?? true,
-            posts: editBrand.settings?.notifications?.posts ?? true
+            posts: editBrand.settings?.notifications?.posts ?? true,
+            enquiries: editBrand.settings?.notifications?.enquiries ?? true,
+            syncFailures: editBrand.settings?.notifications?.syncFailures ?? true,
+            verification: editBrand.settings?.notifications?.verification ?? true,
+            weeklyReport: editBrand.settings?.notifications?.weeklyReport ?? true,
+            negativeReviewMaxRating: editBrand.settings?.notifications?.negativeReviewMaxRating ?? 2
+          },
+          enquirySla: {
+            firstResponseHours: editBrand.settings?.enquirySla?.firstResponseHours ?? 24,
+            resolutionHours: editBrand.settings?.enquirySla?.resolutionHours ?? 72
           },
           seo: {
             title: editBrand.settings?.seo?.title || '',
@@ -485,7 +514,16 @@ export default function BrandCreateModal({
         },
         notifications: {
           reviews: true,
-          posts: true
+          posts: true,
+          enquiries: true,
+          syncFailures: true,
+          verification: true,
+          weeklyReport: true,
+          negativeReviewMaxRating: 2
+        },
+        enquirySla: {
+          firstResponseHours: 24,
+          resolutionHours: 72
         },
         seo: {
           title: "Green Valley Restaurant - Farm-to-Table Dining in San Francisco",
@@ -591,9 +629,6 @@ export default function BrandCreateModal({
     if (!formData.address.state.trim()) newErrors.state = "State is required"
     if (!formData.address.postalCode.trim()) newErrors.postalCode = "Postal code is required"
     if (!formData.users.owner.email.trim()) newErrors.ownerEmail = "Owner email is required"
-    if (!isEditMode && (!formData.users.owner.password || !formData.users.owner.password.trim())) {
-      newErrors.ownerPassword = "Owner password is required"
-    }
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -614,17 +649,14 @@ export default function BrandCreateModal({
       const url = isEditMode ? `/api/brands/${editBrand._id}` : '/api/brands'
       const method = isEditMode ? 'PUT' : 'POST'
       
-      // For edit mode, only include password fields if they have values
+      // Only include passwords that have values; a blank password invites the user
       const submitData = JSON.parse(JSON.stringify(formData)) // Deep clone
-      if (isEditMode) {
-        // Only include password if it has a value
-        if (!submitData.users.owner.password || submitData.users.owner.password.trim() === '') {
-          delete submitData.users.owner.password
-        }
-        if (!submitData.users.manager?.password || submitData.users.manager.password.trim() === '') {
-          if (submitData.users.manager) {
-            delete submitData.users.manager.password
-          }
+      if (!submitData.users.owner.password || submitData.users.owner.password.trim() === '') {
+        delete submitData.users.owner.password
+      }
+      if (!submitData.users.manager?.password || submitData.users.manager.password.trim() === '') {
+        if (submitData.users.manager) {
+          delete submitData.users.manager.password
         }
       }
 
@@ -654,6 +686,14 @@ export default function BrandCreateModal({
 
         closeModal()
         
+        const invited = (result.accounts || []).filter((account: any) => account.invited)
+        if (invited.length > 0) {
+          showWarning(
+            `${invited.map((account: any) => account.email).join(', ')} ${invited.length === 1 ? 'was' : 'were'} invited without a password. Set a password and activate the account from Users.`,
+            'Accounts Pending'
+          )
+        }
+        
         // Show success message
         if (isEditMode) {
           showSuccess(`Brand "${result.data.name}" has been updated successfully!`, 'Brand Updated')
@@ -1457,9 +1497,11 @@ export default function BrandCreateModal({
           <div className="space-y-6">
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <p className="text-sm text-yellow-800">
-                <strong>Required:</strong> Owner email and password must be filled to create the brand.
+                <strong>Required:</strong> Owner email must be filled to create the brand.
                 <br />
                 <strong>Optional:</strong> Manager account can be added later if needed.
+                <br />
+                Each email gets its own user account. Leave a password blank to invite the user instead: the account stays inactive until a password is set from Users.
               </p>
             </div>
 
@@ -1488,7 +1530,7 @@ export default function BrandCreateModal({
                     {errors.ownerEmail && <p className="text-sm text-red-500">{errors.ownerEmail}</p>}
                   </div>
                   <div className="space-y-2">
-                    <Label>Owner Password *</Label>
+                    <Label>Owner Password</Label>
                     <Input
                       type="password"
                       value={formData.users.owner.password}
@@ -1496,10 +1538,8 @@ export default function BrandCreateModal({
                         ...prev,
                         users: { ...prev.users, owner: { ...prev.users.owner, password: e.target.value } }
                       }))}
-                      placeholder="••••••••••••••••••"
-                      className={errors.ownerPassword ? "border-red-500" : "border-green-500"}
+                      placeholder={isEditMode ? "Leave blank to keep" : "Leave blank to invite"}
                     />
-                    {errors.ownerPassword && <p className="text-sm text-red-500">{errors.ownerPassword}</p>}
                   </div>
                 </div>
                 <p className="text-sm text-muted-foreground">
@@ -1539,7 +1579,7 @@ export default function BrandCreateModal({
                         ...prev,
                         users: { ...prev.users, manager: { ...prev.users.manager, password: e.target.value } }
                       }))}
-                      placeholder="Minimum 8 characters"
+                      placeholder={isEditMode ? "Leave blank to keep" : "Leave blank to invite"}
                     />
                   </div>
                 </div>
@@ -1633,6 +1673,97 @@ export default function BrandCreateModal({
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Enquiry SLA</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>First Response (hours)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={formData.settings.enquirySla.firstResponseHours}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        settings: { ...prev.settings, enquirySla: { ...prev.settings.enquirySla, firstResponseHours: Math.max(1, parseInt(e.target.value) || 1) } }
+                      }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Resolution (hours)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={formData.settings.enquirySla.resolutionHours}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        settings: { ...prev.settings, enquirySla: { ...prev.settings.enquirySla, resolutionHours: Math.max(1, parseInt(e.target.value) || 1) } }
+                      }))}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Enquiries from the brand's microsites are flagged as overdue when these targets are missed.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Notifications</CardTitle>
+                <CardDescription>Events the brand is told about. Switching one off here silences it for every recipient.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    ['reviews', 'Negative reviews'],
+                    ['enquiries', 'New enquiries'],
+                    ['syncFailures', 'Failed syncs'],
+                    ['verification', 'Verification changes'],
+                    ['posts', 'Failed scheduled posts'],
+                    ['weeklyReport', 'Weekly performance report']
+                  ] as const).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.settings.notifications[key]}
+                        onCheckedChange={(checked) => setFormData(prev => ({
+                          ...prev,
+                          settings: { ...prev.settings, notifications: { ...prev.settings.notifications, [key]: checked === true } }
+                        }))}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label>Negative Review Threshold</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={4}
+                    className="w-24"
+                    value={formData.settings.notifications.negativeReviewMaxRating}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      settings: { ...prev.settings, notifications: { ...prev.settings.notifications, negativeReviewMaxRating: Math.min(4, Math.max(1, parseInt(e.target.value) || 1)) } }
+                    }))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    New reviews with this many stars or fewer are reported.
+                  </p>
+                </div>
+                {isEditMode && editBrand?._id ? (
+                  <NotificationRecipients brandId={editBrand._id} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Add email and webhook recipients once the brand is created.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Social Media Links</CardTitle>
@@ -0,0 +1,265 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle, ChevronDown, ChevronRight, Loader2 } from 'lucide-react'
+
+type ReconciliationFlag = 'no_click_data' | 'no_tracked_calls' | 'untracked_clicks' | 'number_mismatch'
+
+interface ReconciliationDay {
+  date: string
+  callClicks: number | null
+  trackedCalls: number
+  answeredCalls: number
+  missedCalls: number
+}
+
+interface ReconciledCounts {
+  callClicks: number
+  trackedCalls: number
+  answeredCalls: number
+  missedCalls: number
+  captureRate: number
+  connectRate: number
+  estimatedLostCalls: number
+}
+
+interface ReconciliationStore extends ReconciledCounts {
+  storeId: string
+  storeName: string
+  phone: string | null
+  trackingNumbers: string[]
+  daysWithClickData: number
+  flags: ReconciliationFlag[]
+  days: ReconciliationDay[]
+}
+
+interface ReconciliationReport {
+  summary: ReconciledCounts & { stores: number; flaggedStores: number; unmatchedCalls: number }
+  stores: ReconciliationStore[]
+  startDate: string
+  endDate: string
+}
+
+interface GmbCallReconciliationProps {
+  brandId: string
+}
+
+const FLAG_LABELS: Record<ReconciliationFlag, string> = {
+  no_click_data: 'No GMB data',
+  no_tracked_calls: 'No tracked calls',
+  untracked_clicks: 'Clicks not tracked',
+  number_mismatch: 'GMB number not tracked'
+}
+
+const RANGES: Record<string, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+}
+
+export function GmbCallReconciliation({ brandId }: GmbCallReconciliationProps) {
+  const [range, setRange] = useState('30d')
+  const [report, setReport] = useState<ReconciliationReport | null>(null)
+  const [expandedStoreId, setExpandedStoreId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const params = new URLSearchParams({
+          brandId,
+          startDate: new Date(Date.now() - RANGES[range] * 24 * 60 * 60 * 1000).toISOString()
+        })
+
+        const response = await fetch(`/api/analytics/call-reconciliation?${params.toString()}`)
+        const data = await response.json()
+        if (data.success) {
+          setReport(data.data)
+        } else {
+          setError(data.error || 'Failed to fetch call reconciliation')
+        }
+      } catch (err) {
+        console.error('Error fetching call reconciliation:', err)
+        setError(err instanceof Error ? err.message : 'Failed to fetch call reconciliation')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchReport()
+  }, [brandId, range])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <CardTitle>GMB Call Reconciliation</CardTitle>
+          <CardDescription>
+            Call clicks on Google vs tracked and answered calls, per store
+          </CardDescription>
+        </div>
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7d">Last 7 days</SelectItem>
+            <SelectItem value="30d">Last 30 days</SelectItem>
+            <SelectItem value="90d">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center py-12 space-x-2 text-red-600">
+            <AlertCircle className="h-5 w-5" />
+            <span className="text-sm">{error}</span>
+          </div>
+        ) : !report || report.stores.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No active stores to reconcile</p>
+        ) : (
+          <div className="space-y-6">
+            {/* Brand-wide totals over the days GMB reported on */}
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+              <div>
+                <p className="text-xs text-muted-foreground">GMB call clicks</p>
+                <p className="text-2xl font-bold">{report.summary.callClicks}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Tracked calls</p>
+                <p className="text-2xl font-bold">
+                  {report.summary.trackedCalls}{' '}
+                  <span className="text-sm font-normal text-muted-foreground">({report.summary.captureRate}%)</span>
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Est. connect rate</p>
+                <p className="text-2xl font-bold text-green-600">{report.summary.connectRate}%</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Est. lost calls</p>
+                <p className="text-2xl font-bold text-red-600">{report.summary.estimatedLostCalls}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Flagged stores</p>
+                <p className={`text-2xl font-bold ${report.summary.flaggedStores > 0 ? 'text-amber-600' : ''}`}>
+                  {report.summary.flaggedStores} <span className="text-sm font-normal text-muted-foreground">/ {report.summary.stores}</span>
+                </p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Store</TableHead>
+                  <TableHead className="text-right">Call clicks</TableHead>
+                  <TableHead className="text-right">Tracked</TableHead>
+                  <TableHead className="text-right">Answered</TableHead>
+                  <TableHead className="text-right">Connect rate</TableHead>
+                  <TableHead className="text-right">Est. lost</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.stores.map(store => (
+                  <React.Fragment key={store.storeId}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedStoreId(expandedStoreId === store.storeId ? null : store.storeId)}
+                    >
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          {expandedStoreId === store.storeId
+                            ? <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                            : <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                          <div>
+                            <span className="font-medium">{store.storeName}</span>
+                            {store.phone && <p className="text-xs text-muted-foreground">GMB: {store.phone}</p>}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{store.callClicks}</TableCell>
+                      <TableCell className="text-right">{store.trackedCalls}</TableCell>
+                      <TableCell className="text-right">{store.answeredCalls}</TableCell>
+                      <TableCell className="text-right">{store.callClicks > 0 ? `${store.connectRate}%` : 'N/A'}</TableCell>
+                      <TableCell className="text-right">{store.estimatedLostCalls}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {store.flags.map(flag => (
+                            <Badge
+                              key={flag}
+                              variant={flag === 'no_click_data' ? 'outline' : 'destructive'}
+                              title={flag === 'number_mismatch' ? `Tracking numbers: ${store.trackingNumbers.join(', ')}` : undefined}
+                            >
+                              {FLAG_LABELS[flag]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expandedStoreId === store.storeId && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="bg-muted/40">
+                          {store.days.length === 0 ? (
+                            <p className="py-2 text-center text-sm text-muted-foreground">No clicks or calls in this period</p>
+                          ) : (
+                            <div className="grid gap-1 text-xs" style={{ gridTemplateColumns: 'repeat(5, minmax(0, 1fr))' }}>
+                              <span className="font-medium">Date</span>
+                              <span className="font-medium text-right">Call clicks</span>
+                              <span className="font-medium text-right">Tracked</span>
+                              <span className="font-medium text-right">Answered</span>
+                              <span className="font-medium text-right">Missed</span>
+                              {store.days.map(day => (
+                                <React.Fragment key={day.date}>
+                                  <span>{day.date}</span>
+                                  <span className="text-right">{day.callClicks ?? '–'}</span>
+                                  <span className="text-right">{day.trackedCalls}</span>
+                                  <span className="text-right">{day.answeredCalls}</span>
+                                  <span className="text-right">{day.missedCalls}</span>
+                                </React.Fragment>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+
+            {report.summary.unmatchedCalls > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {report.summary.unmatchedCalls} tracked calls could not be matched to a store and are not reconciled.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,315 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, PieChart, Pie, Cell } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle, Loader2 } from 'lucide-react'
+
+interface HeatmapCell {
+  weekday: number
+  hour: number
+  totalCalls: number
+  answered: number
+  missed: number
+}
+
+interface LeaderboardEntry {
+  storeId: string | null
+  storeName: string
+  totalCalls: number
+  answered: number
+  missed: number
+  ivrDrop: number
+  other: number
+  answerRate: number
+  avgConversationDuration: number
+}
+
+interface IvrAnalyticsData {
+  summary: {
+    totalCalls: number
+    answered: number
+    missed: number
+    ivrDrop: number
+    other: number
+    answerRate: number
+    missedRate: number
+    ivrDropRate: number
+    avgRingDuration: number
+    avgConversationDuration: number
+  }
+  heatmap: HeatmapCell[]
+  peak: HeatmapCell | null
+  leaderboard: LeaderboardEntry[]
+  timezone: string
+}
+
+interface StoreOption {
+  _id: string
+  name: string
+}
+
+interface IvrCallAnalyticsProps {
+  brandId: string
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const OUTCOME_COLORS = {
+  answered: '#10B981',
+  missed: '#EF4444',
+  ivrDrop: '#F59E0B',
+  other: '#9CA3AF'
+}
+
+const RANGES: Record<string, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  'all': null
+}
+
+function formatSeconds(seconds: number): string {
+  if (!seconds) return '0s'
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'am' : 'pm'
+  return `${hour % 12 || 12}${suffix}`
+}
+
+export function IvrCallAnalytics({ brandId }: IvrCallAnalyticsProps) {
+  const [range, setRange] = useState('30d')
+  const [storeId, setStoreId] = useState('all')
+  const [stores, setStores] = useState<StoreOption[]>([])
+  const [analytics, setAnalytics] = useState<IvrAnalyticsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setStoreId('all')
+    const fetchStores = async () => {
+      try {
+        const response = await fetch(`/api/stores?brandId=${brandId}&status=active&limit=500`)
+        const data = await response.json()
+        setStores(data.success ? data.data : [])
+      } catch (err) {
+        console.error('Error fetching stores:', err)
+        setStores([])
+      }
+    }
+    fetchStores()
+  }, [brandId])
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const params = new URLSearchParams({ brandId })
+        const days = RANGES[range]
+        if (days) {
+          params.set('startDate', new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString())
+        }
+        if (storeId !== 'all') {
+          params.set('storeId', storeId)
+        }
+
+        const response = await fetch(`/api/analytics/ivr-calls?${params.toString()}`)
+        const data = await response.json()
+        if (data.success) {
+          setAnalytics(data.data)
+        } else {
+          setError(data.error || 'Failed to fetch IVR analytics')
+        }
+      } catch (err) {
+        console.error('Error fetching IVR analytics:', err)
+        setError(err instanceof Error ? err.message : 'Failed to fetch IVR analytics')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAnalytics()
+  }, [brandId, range, storeId])
+
+  const outcomeData = analytics ? [
+    { name: 'Answered', value: analytics.summary.answered, color: OUTCOME_COLORS.answered },
+    { name: 'Missed', value: analytics.summary.missed, color: OUTCOME_COLORS.missed },
+    { name: 'IVR Drop', value: analytics.summary.ivrDrop, color: OUTCOME_COLORS.ivrDrop },
+    { name: 'Other', value: analytics.summary.other, color: OUTCOME_COLORS.other }
+  ].filter(item => item.value > 0) : []
+
+  const maxCellCalls = analytics ? Math.max(1, ...analytics.heatmap.map(cell => cell.totalCalls)) : 1
+
+  const leaderboardData = (analytics?.leaderboard || []).slice(0, 10).map(entry => ({
+    name: entry.storeName.length > 24 ? `${entry.storeName.slice(0, 24)}…` : entry.storeName,
+    Answered: entry.answered,
+    Missed: entry.missed,
+    'IVR Drop': entry.ivrDrop,
+    answerRate: entry.answerRate
+  }))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <CardTitle>Call Analytics</CardTitle>
+          <CardDescription>
+            Answer rates, peak hours and store performance
+            {analytics ? ` (times in ${analytics.timezone})` : ''}
+          </CardDescription>
+        </div>
+        <div className="flex space-x-2">
+          <Select value={storeId} onValueChange={setStoreId}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Store" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Stores</SelectItem>
+              {stores.map(store => (
+                <SelectItem key={store._id} value={store._id}>{store.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="all">All time</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center py-12 space-x-2 text-red-600">
+            <AlertCircle className="h-5 w-5" />
+            <span className="text-sm">{error}</span>
+          </div>
+        ) : !analytics || analytics.summary.totalCalls === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No calls in this period</p>
+        ) : (
+          <div className="space-y-8">
+            {/* Rates and durations */}
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+              <div>
+                <p className="text-xs text-muted-foreground">Answer rate</p>
+                <p className="text-2xl font-bold text-green-600">{analytics.summary.answerRate}%</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Missed rate</p>
+                <p className="text-2xl font-bold text-red-600">{analytics.summary.missedRate}%</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">IVR drop rate</p>
+                <p className="text-2xl font-bold text-amber-600">{analytics.summary.ivrDropRate}%</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Avg ring time</p>
+                <p className="text-2xl font-bold">{formatSeconds(analytics.summary.avgRingDuration)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Avg conversation</p>
+                <p className="text-2xl font-bold">{formatSeconds(analytics.summary.avgConversationDuration)}</p>
+              </div>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-3">
+              {/* Outcome breakdown */}
+              <div>
+                <h3 className="text-sm font-medium mb-2">Call outcomes</h3>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie data={outcomeData} dataKey="value" nameKey="name" innerRadius={50} outerRadius={80}>
+                        {outcomeData.map(item => (
+                          <Cell key={item.name} fill={item.color} />
+                        ))}
+                      </Pie>
+                      <Tooltip />
+                      <Legend />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Store leaderboard */}
+              <div className="md:col-span-2">
+                <h3 className="text-sm font-medium mb-2">Store leaderboard</h3>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={leaderboardData} layout="vertical" margin={{ left: 24 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="name" width={160} tick={{ fontSize: 12 }} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="Answered" stackId="calls" fill={OUTCOME_COLORS.answered} />
+                      <Bar dataKey="Missed" stackId="calls" fill={OUTCOME_COLORS.missed} />
+                      <Bar dataKey="IVR Drop" stackId="calls" fill={OUTCOME_COLORS.ivrDrop} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+
+            {/* Hour-of-day x weekday heatmap */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium">Calls by hour and weekday</h3>
+                {analytics.peak && (
+                  <p className="text-xs text-muted-foreground">
+                    Peak: {WEEKDAYS[analytics.peak.weekday - 1]} {formatHour(analytics.peak.hour)} ({analytics.peak.totalCalls} calls)
+                  </p>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <div className="inline-grid gap-px" style={{ gridTemplateColumns: `3rem repeat(24, minmax(1.5rem, 1fr))` }}>
+                  <div />
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <div key={hour} className="text-[10px] text-center text-muted-foreground">
+                      {hour % 3 === 0 ? formatHour(hour) : ''}
+                    </div>
+                  ))}
+                  {WEEKDAYS.map((day, dayIndex) => (
+                    <React.Fragment key={day}>
+                      <div className="text-xs text-muted-foreground pr-2 flex items-center">{day}</div>
+                      {analytics.heatmap
+                        .filter(cell => cell.weekday === dayIndex + 1)
+                        .map(cell => (
+                          <div
+                            key={cell.hour}
+                            className="h-6 rounded-sm"
+                            style={{ backgroundColor: cell.totalCalls > 0 ? `rgba(59, 130, 246, ${0.15 + 0.85 * (cell.totalCalls / maxCellCalls)})` : '#F3F4F6' }}
+                            title={`${day} ${formatHour(cell.hour)}: ${cell.totalCalls} calls, ${cell.answered} answered, ${cell.missed} missed`}
+                          />
+                        ))}
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
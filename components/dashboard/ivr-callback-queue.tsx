@@ -0,0 +1,315 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { AlertCircle, AlertTriangle, CheckCircle, Loader2, Phone, PhoneCall, PhoneMissed, PhoneOff, XCircle } from 'lucide-react'
+
+type AttemptOutcome = 'reached' | 'no_answer' | 'wrong_number'
+
+interface CallbackTaskData {
+  _id: string
+  storeId?: { _id: string; name: string } | null
+  storeName?: string
+  customerNumber: string
+  customerName?: string
+  missedCallCount: number
+  firstMissedAt: string
+  lastMissedAt?: string
+  owner?: { userId: string; name: string }
+  attempts: Array<{ outcome: AttemptOutcome; byName?: string; at: string }>
+  slaState: {
+    dueAt: string
+    respondedAt: string | null
+    met: boolean | null
+    overdue: boolean
+  }
+}
+
+interface SlaReport {
+  total: number
+  open: number
+  met: number
+  breached: number
+  pending: number
+  complianceRate: number
+  avgResponseMinutes: number
+  dueMinutes: number
+}
+
+interface IvrCallbackQueueProps {
+  brandId: string
+}
+
+const SLA_PERIOD_DAYS = 30
+
+function formatDueTime(dueAt: string): string {
+  const diffMs = new Date(dueAt).getTime() - Date.now()
+  const minutes = Math.round(Math.abs(diffMs) / (60 * 1000))
+  const label = minutes >= 120 ? `${Math.round(minutes / 60)}h` : `${minutes}m`
+  return diffMs >= 0 ? `due in ${label}` : `${label} overdue`
+}
+
+export function IvrCallbackQueue({ brandId }: IvrCallbackQueueProps) {
+  const [callbacks, setCallbacks] = useState<CallbackTaskData[]>([])
+  const [report, setReport] = useState<SlaReport | null>(null)
+  const [owner, setOwner] = useState('all')
+  const [overdueOnly, setOverdueOnly] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchCallbacks = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ brandId, status: 'open', limit: '50' })
+      if (owner !== 'all') params.set('owner', owner)
+      if (overdueOnly) params.set('overdue', 'true')
+
+      const slaParams = new URLSearchParams({
+        brandId,
+        startDate: new Date(Date.now() - SLA_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      })
+
+      const [callbacksResponse, slaResponse] = await Promise.all([
+        fetch(`/api/callbacks?${params.toString()}`),
+        fetch(`/api/callbacks/sla?${slaParams.toString()}`)
+      ])
+      const [callbacksData, slaData] = await Promise.all([callbacksResponse.json(), slaResponse.json()])
+
+      if (callbacksData.success) {
+        setCallbacks(callbacksData.data.callbacks)
+      } else {
+        setError(callbacksData.error || 'Failed to fetch callbacks')
+      }
+      setReport(slaData.success ? slaData.data : null)
+    } catch (err) {
+      console.error('Error fetching callbacks:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch callbacks')
+    } finally {
+      setLoading(false)
+    }
+  }, [brandId, owner, overdueOnly])
+
+  useEffect(() => {
+    fetchCallbacks()
+  }, [fetchCallbacks])
+
+  const recordAttempt = async (id: string, outcome: AttemptOutcome, close = false) => {
+    try {
+      setUpdatingId(id)
+      const response = await fetch(`/api/callbacks/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome, close })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        setError(data.error || 'Failed to update callback')
+        return
+      }
+      await fetchCallbacks()
+    } catch (err) {
+      console.error('Error updating callback:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update callback')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+        <div>
+          <CardTitle>Missed-Call Callbacks</CardTitle>
+          <CardDescription>
+            Customers to call back after a missed or dropped call
+            {report ? ` (target: within ${report.dueMinutes} minutes)` : ''}
+          </CardDescription>
+        </div>
+        <div className="flex space-x-2">
+          <Select value={owner} onValueChange={setOwner}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All callbacks</SelectItem>
+              <SelectItem value="me">My callbacks</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant={overdueOnly ? 'default' : 'outline'}
+            onClick={() => setOverdueOnly(!overdueOnly)}
+            className="flex items-center gap-2"
+          >
+            <AlertTriangle className="h-4 w-4" />
+            Overdue
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {/* SLA compliance over the last 30 days */}
+        {report && (
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-4 mb-6">
+            <div>
+              <p className="text-xs text-muted-foreground">SLA compliance ({SLA_PERIOD_DAYS}d)</p>
+              <p className={`text-2xl font-bold ${report.complianceRate >= 90 ? 'text-green-600' : report.complianceRate >= 70 ? 'text-amber-600' : 'text-red-600'}`}>
+                {report.met + report.breached > 0 ? `${report.complianceRate}%` : 'N/A'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Called back in time</p>
+              <p className="text-2xl font-bold">{report.met} <span className="text-sm font-normal text-muted-foreground">/ {report.met + report.breached}</span></p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Open callbacks</p>
+              <p className="text-2xl font-bold">{report.open}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Avg time to callback</p>
+              <p className="text-2xl font-bold">{report.avgResponseMinutes}m</p>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center py-12 space-x-2 text-red-600">
+            <AlertCircle className="h-5 w-5" />
+            <span className="text-sm">{error}</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead>Store</TableHead>
+                <TableHead>Missed calls</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {callbacks.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-12">
+                    <div className="flex flex-col items-center space-y-2">
+                      <CheckCircle className="h-8 w-8 text-green-600" />
+                      <p className="text-sm text-muted-foreground">No open callbacks</p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                callbacks.map(task => (
+                  <TableRow key={task._id}>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <span className="font-medium">{task.customerNumber}</span>
+                        {task.customerName && <p className="text-sm text-muted-foreground">{task.customerName}</p>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{task.storeId?.name || task.storeName || 'Unmatched'}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <PhoneMissed className="h-4 w-4 text-red-600" />
+                        <span>{task.missedCallCount}</span>
+                        <span className="text-xs text-muted-foreground">
+                          last {new Date(task.lastMissedAt || task.firstMissedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {task.slaState.respondedAt ? (
+                        <Badge variant="outline">Attempted</Badge>
+                      ) : task.slaState.overdue ? (
+                        <Badge variant="destructive">{formatDueTime(task.slaState.dueAt)}</Badge>
+                      ) : (
+                        <Badge className="bg-yellow-100 text-yellow-800">{formatDueTime(task.slaState.dueAt)}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{task.owner?.name || <span className="text-muted-foreground">Unassigned</span>}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {task.attempts.length > 0
+                        ? `${task.attempts.length} (last: ${task.attempts[task.attempts.length - 1].outcome.replace('_', ' ')})`
+                        : 'None'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => window.location.href = `tel:${task.customerNumber}`}
+                          title="Call customer"
+                        >
+                          <Phone className="h-4 w-4" />
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={updatingId === task._id}>
+                              {updatingId === task._id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Log outcome'}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Callback outcome</DropdownMenuLabel>
+                            <DropdownMenuItem onClick={() => recordAttempt(task._id, 'reached')}>
+                              <PhoneCall className="mr-2 h-4 w-4 text-green-600" />
+                              Reached customer
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => recordAttempt(task._id, 'no_answer')}>
+                              <PhoneOff className="mr-2 h-4 w-4 text-amber-600" />
+                              No answer, try again
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => recordAttempt(task._id, 'wrong_number')}>
+                              <XCircle className="mr-2 h-4 w-4 text-red-600" />
+                              Wrong number
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => recordAttempt(task._id, 'no_answer', true)}>
+                              No answer, close
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -19,6 +19,7 @@ import {
   Info
 } from "lucide-react"
 import { ScoringDetails } from "@/lib/utils/scoring"
+import type { CompetitiveContext, PeerGroupLevel } from "@/lib/services/competitive-context-service"
 
 interface LocationScoringData {
   locationId: string
@@ -33,7 +34,18 @@ interface LocationScoringData {
     impressions: number
     callClicks: number
     websiteClicks: number
+    marketPosition?: number
+    consistency?: number
+    trendDirection?: number
   }
+  competitiveContext?: CompetitiveContext
+}
+
+const PEER_GROUP_LABELS: Record<PeerGroupLevel, string> = {
+  brand_city_category: 'same city & category',
+  brand_city: 'same city',
+  brand_category: 'same category',
+  brand: 'brand-wide'
 }
 
 interface LocationScoringTableProps {
@@ -163,12 +175,13 @@ export function LocationScoringTable({ locations, isLoading }: LocationScoringTa
                 <TableHead>Reviews</TableHead>
                 <TableHead>Performance</TableHead>
                 <TableHead>Profile</TableHead>
+                <TableHead>Competitive</TableHead>
                 <TableHead>Key Metrics</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {currentLocations.map((location) => {
-                const { scoringDetails, metrics } = location
+                const { scoringDetails, metrics, competitiveContext } = location
                 const { breakdown, grade } = scoringDetails
                 const addressLines = formatAddressShort(location.address)
                 
@@ -222,6 +235,22 @@ export function LocationScoringTable({ locations, isLoading }: LocationScoringTa
                         </div>
                       </div>
                     </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div className="text-sm font-medium">{breakdown.competitiveScore}</div>
+                        {competitiveContext && competitiveContext.peerGroup.size > 1 ? (
+                          <div
+                            className="text-xs text-muted-foreground"
+                            title={`Consistency ${metrics.consistency ?? 'n/a'} · Trend ${metrics.trendDirection ?? 'n/a'}`}
+                          >
+                            {metrics.marketPosition !== undefined ? `P${metrics.marketPosition} of ` : ''}
+                            {competitiveContext.peerGroup.size} stores ({PEER_GROUP_LABELS[competitiveContext.peerGroup.level]})
+                          </div>
+                        ) : (
+                          <div className="text-xs text-muted-foreground">No peers yet</div>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-3 text-xs">
                         {/* <div className="flex items-center gap-1">
@@ -342,6 +371,7 @@ export function LocationScoringTable({ locations, isLoading }: LocationScoringTa
               </div>
               <p className="text-xs text-muted-foreground">
                 Scores are calculated based on reviews, performance metrics, profile completeness, and engagement rates.
+                The competitive score ranks each location against peer stores in the same brand, city and category, and rewards steady and rising views.
               </p>
             </div>
           </div>
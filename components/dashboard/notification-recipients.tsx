@@ -0,0 +1,384 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertCircle, Loader2, Mail, Pencil, Plus, Send, Trash2, Webhook } from "lucide-react"
+
+type NotificationEvent = "negative_review" | "new_enquiry" | "sync_failed" | "verification_changed" | "post_failed" | "weekly_report" | "review_escalated"
+type Channel = "email" | "webhook"
+type DeliveryMode = "instant" | "digest"
+
+interface RecipientData {
+  _id: string
+  name?: string
+  channel: Channel
+  target: string
+  hasWebhookSecret: boolean
+  storeIds: Array<{ _id: string; name: string }>
+  events: NotificationEvent[]
+  mode: DeliveryMode
+  isActive: boolean
+}
+
+interface RecipientForm {
+  name: string
+  channel: Channel
+  target: string
+  webhookSecret: string
+  storeIds: string[]
+  events: NotificationEvent[]
+  mode: DeliveryMode
+}
+
+interface StoreOption {
+  _id: string
+  name: string
+}
+
+interface NotificationRecipientsProps {
+  brandId: string
+}
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  negative_review: "Negative reviews",
+  review_escalated: "Reviews escalated by auto-reply rules",
+  new_enquiry: "New enquiries",
+  sync_failed: "Failed syncs",
+  verification_changed: "Verification changes",
+  post_failed: "Failed scheduled posts",
+  weekly_report: "Weekly performance report"
+}
+
+// Sent as an HTML email with a PDF attached, so webhooks can't subscribe
+const EMAIL_ONLY_EVENTS: NotificationEvent[] = ["weekly_report"]
+
+const EMPTY_FORM: RecipientForm = {
+  name: "",
+  channel: "email",
+  target: "",
+  webhookSecret: "",
+  storeIds: [],
+  events: ["negative_review", "review_escalated", "new_enquiry", "sync_failed", "verification_changed"],
+  mode: "instant"
+}
+
+export function NotificationRecipients({ brandId }: NotificationRecipientsProps) {
+  const [recipients, setRecipients] = useState<RecipientData[]>([])
+  const [stores, setStores] = useState<StoreOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  // null: form closed, "new": adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RecipientForm>(EMPTY_FORM)
+
+  const fetchRecipients = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(`/api/notifications/recipients?brandId=${brandId}`)
+      const data = await response.json()
+      if (data.success) {
+        setRecipients(data.data)
+      } else {
+        setError(data.error || "Failed to fetch notification recipients")
+      }
+    } catch (err) {
+      console.error("Error fetching notification recipients:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch notification recipients")
+    } finally {
+      setLoading(false)
+    }
+  }, [brandId])
+
+  useEffect(() => {
+    fetchRecipients()
+  }, [fetchRecipients])
+
+  useEffect(() => {
+    const fetchStores = async () => {
+      try {
+        const response = await fetch(`/api/stores?brandId=${brandId}&status=active&limit=500`)
+        const data = await response.json()
+        setStores(data.success ? data.data : [])
+      } catch (err) {
+        console.error("Error fetching stores:", err)
+        setStores([])
+      }
+    }
+    fetchStores()
+  }, [brandId])
+
+  const openForm = (recipient?: RecipientData) => {
+    setEditingId(recipient?._id || "new")
+    setForm(recipient
+      ? {
+          name: recipient.name || "",
+          channel: recipient.channel,
+          target: recipient.target,
+          webhookSecret: "",
+          storeIds: recipient.storeIds.map(store => store._id),
+          events: recipient.events,
+          mode: recipient.mode
+        }
+      : EMPTY_FORM)
+  }
+
+  const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter(item => item !== value)
+
+  const request = async (id: string, path: string, init: RequestInit, failure: string): Promise<boolean> => {
+    setBusyId(id)
+    try {
+      const response = await fetch(`/api/notifications/recipients${path}`, init)
+      const data = await response.json()
+      if (!data.success) {
+        alert(data.error || failure)
+        return false
+      }
+      return true
+    } catch (err) {
+      console.error(`${failure}:`, err)
+      alert(failure)
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const save = async () => {
+    if (!editingId) return
+    const isNew = editingId === "new"
+    const body: Record<string, unknown> = {
+      name: form.name.trim(),
+      target: form.target.trim(),
+      storeIds: form.storeIds,
+      events: form.events,
+      mode: form.mode
+    }
+    if (isNew) Object.assign(body, { channel: form.channel, brandId })
+    // A blank secret keeps the current one when editing
+    if (form.channel === "webhook" && form.webhookSecret.trim()) body.webhookSecret = form.webhookSecret.trim()
+
+    const saved = await request(editingId, isNew ? "" : `/${editingId}`, {
+      method: isNew ? "POST" : "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    }, "Failed to save notification recipient")
+    if (saved) {
+      setEditingId(null)
+      await fetchRecipients()
+    }
+  }
+
+  const setActive = async (recipient: RecipientData, isActive: boolean) => {
+    const saved = await request(recipient._id, `/${recipient._id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isActive })
+    }, "Failed to update notification recipient")
+    if (saved) await fetchRecipients()
+  }
+
+  const remove = async (recipient: RecipientData) => {
+    if (!confirm(`Stop sending notifications to ${recipient.target}?`)) return
+    const removed = await request(recipient._id, `/${recipient._id}`, { method: "DELETE" }, "Failed to delete notification recipient")
+    if (removed) await fetchRecipients()
+  }
+
+  const sendTest = async (recipient: RecipientData) => {
+    const sent = await request(recipient._id, `/${recipient._id}/test`, { method: "POST" }, "Failed to send test notification")
+    if (sent) alert(`Test notification sent to ${recipient.target}`)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label>Recipients</Label>
+        {editingId === null && (
+          <Button type="button" variant="outline" size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Recipient
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center space-x-2 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      ) : recipients.length === 0 && editingId === null ? (
+        <p className="text-sm text-muted-foreground">
+          No one is notified yet. Add an email address or a webhook to start.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {recipients.map(recipient => (
+            <div key={recipient._id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  {recipient.channel === "email" ? <Mail className="h-4 w-4 shrink-0" /> : <Webhook className="h-4 w-4 shrink-0" />}
+                  <span className="font-medium truncate">{recipient.name || recipient.target}</span>
+                  <Badge variant={recipient.mode === "digest" ? "secondary" : "outline"}>
+                    {recipient.mode === "digest" ? "Daily digest" : "Instant"}
+                  </Badge>
+                  {!recipient.isActive && <Badge variant="outline">Paused</Badge>}
+                </div>
+                {recipient.name && <p className="text-xs text-muted-foreground truncate">{recipient.target}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {recipient.events.map(event => EVENT_LABELS[event]).join(", ")}
+                  {" · "}
+                  {recipient.storeIds.length > 0 ? recipient.storeIds.map(store => store.name).join(", ") : "All stores"}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button type="button" variant="ghost" size="sm" title="Send test" onClick={() => sendTest(recipient)} disabled={busyId === recipient._id}>
+                  {busyId === recipient._id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setActive(recipient, !recipient.isActive)} disabled={busyId === recipient._id}>
+                  {recipient.isActive ? "Pause" : "Resume"}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" title="Edit" onClick={() => openForm(recipient)} disabled={busyId === recipient._id}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" title="Delete" onClick={() => remove(recipient)} disabled={busyId === recipient._id}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <div className="rounded-lg border p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select
+                value={form.channel}
+                onValueChange={(value) => setForm({
+                  ...form,
+                  channel: value as Channel,
+                  events: value === "email" ? form.events : form.events.filter(event => !EMAIL_ONLY_EVENTS.includes(event))
+                })}
+                disabled={editingId !== "new"}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="email">Email</SelectItem>
+                  <SelectItem value="webhook">Webhook</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Delivery</Label>
+              <Select value={form.mode} onValueChange={(value) => setForm({ ...form, mode: value as DeliveryMode })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="instant">Instant</SelectItem>
+                  <SelectItem value="digest">Daily digest</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{form.channel === "email" ? "Email Address" : "Webhook URL"}</Label>
+              <Input
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+                placeholder={form.channel === "email" ? "alerts@brand.com" : "https://example.com/hooks/storecom"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Name (optional)</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Store operations" />
+            </div>
+          </div>
+
+          {form.channel === "webhook" && (
+            <div className="space-y-2">
+              <Label>Signing Secret (optional)</Label>
+              <Input
+                type="password"
+                value={form.webhookSecret}
+                onChange={(e) => setForm({ ...form, webhookSecret: e.target.value })}
+                placeholder={editingId !== "new" && recipients.find(r => r._id === editingId)?.hasWebhookSecret ? "Leave blank to keep the current secret" : "At least 16 characters"}
+              />
+              <p className="text-xs text-muted-foreground">
+                Deliveries carry an x-storecom-signature header: sha256= HMAC of &quot;timestamp.body&quot; with this secret.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(EVENT_LABELS) as NotificationEvent[])
+                .filter(event => form.channel === "email" || !EMAIL_ONLY_EVENTS.includes(event))
+                .map(event => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => setForm({ ...form, events: toggle(form.events, event, checked === true) })}
+                    />
+                    {EVENT_LABELS[event]}
+                  </label>
+                ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Stores</Label>
+            <p className="text-xs text-muted-foreground">
+              Leave all unticked to hear about every store, including brand-wide events such as failed syncs and the weekly report.
+            </p>
+            <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+              {stores.map(store => (
+                <label key={store._id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.storeIds.includes(store._id)}
+                    onCheckedChange={(checked) => setForm({ ...form, storeIds: toggle(form.storeIds, store._id, checked === true) })}
+                  />
+                  <span className="truncate">{store.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={busyId !== null}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={save}
+              disabled={busyId !== null || !form.target.trim() || form.events.length === 0}
+            >
+              {busyId === editingId ? "Saving..." : "Save Recipient"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
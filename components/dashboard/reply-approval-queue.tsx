@@ -0,0 +1,318 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertCircle, Check, Loader2, Pencil, Star, X } from "lucide-react"
+
+interface ReplyDraftData {
+  _id: string
+  comment: string
+  status: "pending" | "approving" | "approved" | "rejected" | "withdrawn"
+  author: { userId: string; name?: string; email?: string }
+  reviewedBy?: { name?: string; email?: string }
+  reviewedAt?: string
+  postedComment?: string
+  rejectionReason?: string
+  createdAt: string
+  updatedAt: string
+  reviewId?: {
+    _id: string
+    reviewer?: { displayName?: string }
+    starRating: number
+    comment?: string
+    gmbCreateTime?: string
+  } | null
+  storeId?: { name: string } | null
+}
+
+interface ReplyApprovalQueueProps {
+  brandId?: string
+  // Owners and admins approve; everyone else sees their own drafts
+  canApprove: boolean
+  onChange?: () => void
+}
+
+const STATUS_VARIANTS: Record<ReplyDraftData["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  approving: "secondary",
+  approved: "default",
+  rejected: "destructive",
+  withdrawn: "outline"
+}
+
+export function ReplyApprovalQueue({ brandId, canApprove, onChange }: ReplyApprovalQueueProps) {
+  const [drafts, setDrafts] = useState<ReplyDraftData[]>([])
+  const [status, setStatus] = useState(canApprove ? "pending" : "all")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ draft: ReplyDraftData; comment: string } | null>(null)
+  const [rejecting, setRejecting] = useState<{ draft: ReplyDraftData; reason: string } | null>(null)
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const params = new URLSearchParams({ status, limit: "50" })
+      if (brandId && brandId !== "all") params.set("brandId", brandId)
+      if (!canApprove) params.set("mine", "true")
+
+      const response = await fetch(`/api/reply-drafts?${params.toString()}`)
+      const data = await response.json()
+      if (data.success) {
+        setDrafts(data.data.drafts)
+      } else {
+        setError(data.error || "Failed to fetch reply drafts")
+      }
+    } catch (err) {
+      console.error("Error fetching reply drafts:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch reply drafts")
+    } finally {
+      setLoading(false)
+    }
+  }, [brandId, canApprove, status])
+
+  useEffect(() => {
+    fetchDrafts()
+  }, [fetchDrafts])
+
+  const runAction = async (draft: ReplyDraftData, path: string, init: RequestInit, failure: string): Promise<boolean> => {
+    setBusyId(draft._id)
+    try {
+      const response = await fetch(`/api/reply-drafts/${draft._id}${path}`, init)
+      const data = await response.json()
+      if (!data.success) {
+        alert(data.error || failure)
+        return false
+      }
+      await fetchDrafts()
+      onChange?.()
+      return true
+    } catch (err) {
+      console.error(`${failure}:`, err)
+      alert(failure)
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const approve = async (draft: ReplyDraftData, comment?: string) => {
+    const approved = await runAction(draft, "/approve", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(comment !== undefined ? { comment } : {})
+    }, "Failed to approve reply draft")
+    if (approved) setEditing(null)
+  }
+
+  const reject = async () => {
+    if (!rejecting) return
+    const rejected = await runAction(rejecting.draft, "/reject", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(rejecting.reason.trim() ? { reason: rejecting.reason.trim() } : {})
+    }, "Failed to reject reply draft")
+    if (rejected) setRejecting(null)
+  }
+
+  const withdraw = async (draft: ReplyDraftData) => {
+    if (!confirm("Withdraw this reply draft?")) return
+    await runAction(draft, "", { method: "DELETE" }, "Failed to withdraw reply draft")
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {canApprove
+            ? "Approve posts the draft to Google as the review's reply; edit it first if it needs changes."
+            : "Owners approve or reject your drafts before anything is posted."}
+        </p>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+            <SelectItem value="withdrawn">Withdrawn</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center justify-center py-12 space-x-2 text-red-600">
+          <AlertCircle className="h-5 w-5" />
+          <span className="text-sm">{error}</span>
+        </div>
+      ) : drafts.length === 0 ? (
+        <div className="text-center py-12 text-sm text-muted-foreground">
+          {status === "pending" ? "No drafts are waiting for approval" : "No reply drafts"}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {drafts.map(draft => (
+            <div key={draft._id} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{draft.reviewId?.reviewer?.displayName || "Anonymous"}</span>
+                    {draft.reviewId && (
+                      <span className="flex items-center text-sm text-muted-foreground">
+                        {draft.reviewId.starRating}
+                        <Star className="h-3 w-3 ml-0.5 fill-yellow-400 text-yellow-400" />
+                      </span>
+                    )}
+                    {draft.storeId && <span className="text-xs text-muted-foreground">{draft.storeId.name}</span>}
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                    {draft.reviewId ? draft.reviewId.comment || "No comment provided" : "Review no longer exists"}
+                  </p>
+                </div>
+                <Badge variant={STATUS_VARIANTS[draft.status]}>{draft.status}</Badge>
+              </div>
+
+              <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+                <p className="text-sm whitespace-pre-wrap">{draft.postedComment || draft.comment}</p>
+                <div className="flex flex-wrap items-center gap-x-4 text-xs text-muted-foreground">
+                  <span>Drafted by {draft.author.name || draft.author.email} on {new Date(draft.updatedAt).toLocaleString()}</span>
+                  {draft.reviewedBy && draft.reviewedAt && (
+                    <span>
+                      {draft.status === "approved" ? "Approved" : "Rejected"} by {draft.reviewedBy.name || draft.reviewedBy.email} on {new Date(draft.reviewedAt).toLocaleString()}
+                    </span>
+                  )}
+                  {draft.postedComment && <span>Edited before posting</span>}
+                  {draft.rejectionReason && <span>Reason: {draft.rejectionReason}</span>}
+                </div>
+              </div>
+
+              {draft.status === "pending" && (
+                <div className="flex items-center justify-end gap-2">
+                  {canApprove ? (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRejecting({ draft, reason: "" })}
+                        disabled={busyId === draft._id}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditing({ draft, comment: draft.comment })}
+                        disabled={busyId === draft._id}
+                      >
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit & Approve
+                      </Button>
+                      <Button size="sm" onClick={() => approve(draft)} disabled={busyId === draft._id}>
+                        {busyId === draft._id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                        Approve
+                      </Button>
+                    </>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => withdraw(draft)} disabled={busyId === draft._id}>
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Edit & Approve Reply</DialogTitle>
+            <DialogDescription>
+              The edited reply is posted to Google; the author&apos;s original draft is kept for reference.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-2">
+              <Label htmlFor="approve-comment">Reply</Label>
+              <Textarea
+                id="approve-comment"
+                value={editing.comment}
+                onChange={(e) => setEditing({ ...editing, comment: e.target.value })}
+                className="min-h-[120px] resize-none"
+                maxLength={1000}
+              />
+              <div className="text-xs text-gray-500 text-right">{editing.comment.length}/1000 characters</div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={busyId !== null}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && approve(editing.draft, editing.comment.trim())}
+              disabled={busyId !== null || !editing?.comment.trim()}
+            >
+              {busyId !== null ? "Posting..." : "Approve & Post"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Reject Reply Draft</DialogTitle>
+            <DialogDescription>
+              The draft is not posted. Let the author know what to change.
+            </DialogDescription>
+          </DialogHeader>
+          {rejecting && (
+            <div className="space-y-2">
+              <Label htmlFor="reject-reason">Reason (optional)</Label>
+              <Textarea
+                id="reject-reason"
+                value={rejecting.reason}
+                onChange={(e) => setRejecting({ ...rejecting, reason: e.target.value })}
+                className="min-h-[80px] resize-none"
+                maxLength={500}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)} disabled={busyId !== null}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={reject} disabled={busyId !== null}>
+              Reject Draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,335 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { AlertCircle, Loader2, Pencil, Plus, Trash2, X } from "lucide-react"
+
+interface ReplyTemplateData {
+  _id: string
+  name: string
+  variants: string[]
+  minRating: number
+  maxRating: number
+  isActive: boolean
+  usageCount: number
+  lastUsedAt?: string
+}
+
+interface TemplateForm {
+  name: string
+  variants: string[]
+  minRating: number
+  maxRating: number
+}
+
+interface ReplyTemplateManagerProps {
+  brandId?: string
+  canEdit: boolean
+}
+
+const TEMPLATE_VARIABLES = ["reviewerName", "storeName", "city", "rating"]
+
+const MAX_VARIANTS = 10
+
+const EMPTY_FORM: TemplateForm = { name: "", variants: [""], minRating: 1, maxRating: 5 }
+
+export function ReplyTemplateManager({ brandId, canEdit }: ReplyTemplateManagerProps) {
+  const [templates, setTemplates] = useState<ReplyTemplateData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<TemplateForm | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const brandParam = brandId && brandId !== "all" ? brandId : undefined
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const params = new URLSearchParams({ includeInactive: "true" })
+      if (brandParam) params.set("brandId", brandParam)
+
+      const response = await fetch(`/api/reply-templates?${params.toString()}`)
+      const data = await response.json()
+      if (data.success) {
+        setTemplates(data.data)
+      } else {
+        setError(data.error || "Failed to fetch reply templates")
+      }
+    } catch (err) {
+      console.error("Error fetching reply templates:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch reply templates")
+    } finally {
+      setLoading(false)
+    }
+  }, [brandParam])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  const openEditor = (template?: ReplyTemplateData) => {
+    setEditingId(template?._id || null)
+    setForm(template
+      ? { name: template.name, variants: [...template.variants], minRating: template.minRating, maxRating: template.maxRating }
+      : { ...EMPTY_FORM, variants: [""] })
+  }
+
+  const saveTemplate = async () => {
+    if (!form) return
+    setIsSaving(true)
+    try {
+      const response = await fetch(editingId ? `/api/reply-templates/${editingId}` : "/api/reply-templates", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          variants: form.variants.map(variant => variant.trim()).filter(Boolean),
+          ...(!editingId && brandParam && { brandId: brandParam })
+        })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        alert(data.error || "Failed to save template")
+        return
+      }
+      setForm(null)
+      await fetchTemplates()
+    } catch (err) {
+      console.error("Error saving reply template:", err)
+      alert("Failed to save template")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleActive = async (template: ReplyTemplateData) => {
+    const response = await fetch(`/api/reply-templates/${template._id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isActive: !template.isActive })
+    })
+    const data = await response.json()
+    if (!data.success) alert(data.error || "Failed to update template")
+    await fetchTemplates()
+  }
+
+  const deleteTemplate = async (template: ReplyTemplateData) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return
+    const response = await fetch(`/api/reply-templates/${template._id}`, { method: "DELETE" })
+    const data = await response.json()
+    if (!data.success) alert(data.error || "Failed to delete template")
+    await fetchTemplates()
+  }
+
+  const updateVariant = (index: number, value: string) => {
+    if (!form) return
+    setForm({ ...form, variants: form.variants.map((variant, i) => (i === index ? value : variant)) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Use {TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(", ")} in a template; they are filled in per review.
+        </p>
+        {canEdit && (
+          <Button size="sm" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center justify-center py-12 space-x-2 text-red-600">
+          <AlertCircle className="h-5 w-5" />
+          <span className="text-sm">{error}</span>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Template</TableHead>
+              <TableHead>Ratings</TableHead>
+              <TableHead>Variants</TableHead>
+              <TableHead>Used</TableHead>
+              <TableHead>Status</TableHead>
+              {canEdit && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canEdit ? 6 : 5} className="text-center py-12 text-sm text-muted-foreground">
+                  No reply templates yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              templates.map(template => (
+                <TableRow key={template._id}>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <span className="font-medium">{template.name}</span>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{template.variants[0]}</p>
+                    </div>
+                  </TableCell>
+                  <TableCell>{template.minRating === template.maxRating ? `${template.minRating}★` : `${template.minRating}-${template.maxRating}★`}</TableCell>
+                  <TableCell>{template.variants.length}</TableCell>
+                  <TableCell className="text-sm">
+                    {template.usageCount}
+                    {template.lastUsedAt && (
+                      <span className="text-xs text-muted-foreground"> (last {new Date(template.lastUsedAt).toLocaleDateString()})</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={template.isActive ? "default" : "outline"}>{template.isActive ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => toggleActive(template)}>
+                          {template.isActive ? "Deactivate" : "Activate"}
+                        </Button>
+                        <Button variant="outline" size="icon" onClick={() => openEditor(template)} title="Edit template">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" onClick={() => deleteTemplate(template)} title="Delete template">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Reply Template" : "New Reply Template"}</DialogTitle>
+            <DialogDescription>
+              Add several variants so replies posted from the template aren&apos;t identical.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Thank-you for 5 star reviews"
+                  maxLength={100}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Minimum rating</Label>
+                  <Select value={String(form.minRating)} onValueChange={(value) => setForm({ ...form, minRating: Number(value) })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4, 5].map(rating => <SelectItem key={rating} value={String(rating)}>{rating}★</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Maximum rating</Label>
+                  <Select value={String(form.maxRating)} onValueChange={(value) => setForm({ ...form, maxRating: Number(value) })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4, 5].map(rating => <SelectItem key={rating} value={String(rating)}>{rating}★</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Variants</Label>
+                <div className="max-h-[300px] overflow-y-auto space-y-2">
+                  {form.variants.map((variant, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                      <Textarea
+                        value={variant}
+                        onChange={(e) => updateVariant(index, e.target.value)}
+                        placeholder="Thank you {{reviewerName}}! We're glad you enjoyed your visit to {{storeName}}."
+                        className="min-h-[80px] resize-none"
+                        maxLength={1000}
+                      />
+                      {form.variants.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setForm({ ...form, variants: form.variants.filter((_, i) => i !== index) })}
+                          title="Remove variant"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {form.variants.length < MAX_VARIANTS && (
+                  <Button variant="outline" size="sm" onClick={() => setForm({ ...form, variants: [...form.variants, ""] })}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add variant
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={saveTemplate}
+              disabled={isSaving || !form?.name.trim() || !form?.variants.some(variant => variant.trim())}
+            >
+              {isSaving ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
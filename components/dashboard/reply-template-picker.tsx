@@ -0,0 +1,133 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FileText, Shuffle } from "lucide-react"
+
+interface ReplyTemplateOption {
+  _id: string
+  name: string
+  variants: string[]
+  minRating: number
+  maxRating: number
+  usageCount: number
+}
+
+export interface FilledReply {
+  reviewId: string
+  text: string
+  variant: number
+}
+
+export interface FilledTemplate {
+  templateId: string
+  replies: FilledReply[]
+  skippedReviewIds: string[]
+}
+
+interface ReplyTemplatePickerProps {
+  reviewIds: string[]
+  brandId?: string
+  // Only offer templates for this star rating (single replies)
+  rating?: number
+  onFill: (filled: FilledTemplate | null) => void
+}
+
+function ratingLabel(template: ReplyTemplateOption): string {
+  if (template.minRating === 1 && template.maxRating === 5) return "any rating"
+  if (template.minRating === template.maxRating) return `${template.minRating}★`
+  return `${template.minRating}-${template.maxRating}★`
+}
+
+export function ReplyTemplatePicker({ reviewIds, brandId, rating, onFill }: ReplyTemplatePickerProps) {
+  const [templates, setTemplates] = useState<ReplyTemplateOption[]>([])
+  const [templateId, setTemplateId] = useState("none")
+  const [isFilling, setIsFilling] = useState(false)
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const params = new URLSearchParams()
+        if (brandId && brandId !== "all") params.set("brandId", brandId)
+        if (rating) params.set("rating", String(rating))
+
+        const response = await fetch(`/api/reply-templates?${params.toString()}`)
+        const data = await response.json()
+        setTemplates(data.success ? data.data : [])
+      } catch (error) {
+        console.error("Error fetching reply templates:", error)
+        setTemplates([])
+      }
+    }
+    fetchTemplates()
+  }, [brandId, rating])
+
+  const fillTemplate = async (id: string) => {
+    setTemplateId(id)
+    if (id === "none") {
+      onFill(null)
+      return
+    }
+
+    setIsFilling(true)
+    try {
+      const response = await fetch(`/api/reply-templates/${id}/render`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewIds })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || "Failed to fill in template")
+      }
+      onFill({ templateId: id, ...data.data })
+    } catch (error) {
+      console.error("Error filling in reply template:", error)
+      alert("Failed to fill in the template. Please try again or write manually.")
+    } finally {
+      setIsFilling(false)
+    }
+  }
+
+  if (templates.length === 0) return null
+
+  const selected = templates.find(template => template._id === templateId)
+
+  return (
+    <div className="flex items-center gap-2">
+      <FileText className="h-4 w-4 text-gray-500" />
+      <Select value={templateId} onValueChange={fillTemplate} disabled={isFilling}>
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder="Use a template" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No template</SelectItem>
+          {templates.map(template => (
+            <SelectItem key={template._id} value={template._id}>
+              {template.name} ({ratingLabel(template)})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && selected.variants.length > 1 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => fillTemplate(selected._id)}
+          disabled={isFilling}
+          title="Pick another variant"
+        >
+          <Shuffle className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
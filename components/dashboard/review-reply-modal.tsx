@@ -14,6 +14,7 @@ import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Star, MessageSquare, User, MapPin, Calendar, Brain, Sparkles, RefreshCw } from "lucide-react"
+import { ReplyTemplatePicker } from "@/components/dashboard/reply-template-picker"
 
 interface ReviewReplyModalProps {
   isOpen: boolean
@@ -28,17 +29,24 @@ interface ReviewReplyModalProps {
     platform: string
     locationAddress?: string
     responded?: boolean
+    brandId?: string
   }
-  onReply: (reviewId: string, comment: string) => Promise<boolean>
+  onReply: (reviewId: string, comment: string, templateId?: string) => Promise<boolean>
+  // "draft" saves the reply for an owner to approve instead of posting it
+  mode?: "reply" | "draft"
+  initialComment?: string
 }
 
 export function ReviewReplyModal({
   isOpen,
   onClose,
   review,
-  onReply
+  onReply,
+  mode = "reply",
+  initialComment = ""
 }: ReviewReplyModalProps) {
-  const [comment, setComment] = useState("")
+  const [comment, setComment] = useState(initialComment)
+  const [templateId, setTemplateId] = useState<string | undefined>()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isGeneratingAI, setIsGeneratingAI] = useState(false)
 
@@ -50,17 +58,18 @@ export function ReviewReplyModal({
 
     setIsSubmitting(true)
     try {
-      const success = await onReply(review.id, comment.trim())
+      const success = await onReply(review.id, comment.trim(), templateId)
       if (success) {
-        alert("Reply posted successfully!")
+        alert(mode === "draft" ? "Draft saved. An owner will review it before it is posted." : "Reply posted successfully!")
         setComment("")
+        setTemplateId(undefined)
         onClose()
       } else {
-        alert("Failed to post reply. Please try again.")
+        alert(mode === "draft" ? "Failed to save draft. Please try again." : "Failed to post reply. Please try again.")
       }
     } catch (error) {
       console.error("Error posting reply:", error)
-      alert("An error occurred while posting the reply")
+      alert(mode === "draft" ? "An error occurred while saving the draft" : "An error occurred while posting the reply")
     } finally {
       setIsSubmitting(false)
     }
@@ -68,6 +77,7 @@ export function ReviewReplyModal({
 
   const handleClose = () => {
     setComment("")
+    setTemplateId(undefined)
     onClose()
   }
 
@@ -95,6 +105,7 @@ export function ReviewReplyModal({
       const data = await response.json()
       if (data.success && data.reply) {
         setComment(data.reply)
+        setTemplateId(undefined)
       } else {
         throw new Error(data.error || 'Failed to generate reply')
       }
@@ -127,10 +138,12 @@ export function ReviewReplyModal({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <MessageSquare className="h-5 w-5" />
-            Reply to Review
+            {mode === "draft" ? "Draft a Reply" : "Reply to Review"}
           </DialogTitle>
           <DialogDescription>
-            Respond to this customer review. Your reply will be posted publicly on Google My Business.
+            {mode === "draft"
+              ? "Your draft is sent to an owner for approval; it is posted on Google My Business once approved."
+              : "Respond to this customer review. Your reply will be posted publicly on Google My Business."}
           </DialogDescription>
         </DialogHeader>
 
@@ -176,6 +189,15 @@ export function ReviewReplyModal({
             <Label htmlFor="reply-comment" className="text-sm font-medium">
               Your Reply
             </Label>
+            <ReplyTemplatePicker
+              reviewIds={[review.id]}
+              brandId={review.brandId}
+              rating={review.rating}
+              onFill={(filled) => {
+                setTemplateId(filled?.templateId)
+                if (filled?.replies[0]) setComment(filled.replies[0].text)
+              }}
+            />
             <Textarea
               id="reply-comment"
               placeholder="Thank you for your feedback! We appreciate your business and look forward to serving you again..."
@@ -208,7 +230,9 @@ export function ReviewReplyModal({
             disabled={isSubmitting || !comment.trim()}
             className="min-w-[100px]"
           >
-            {isSubmitting ? "Posting..." : "Post Reply"}
+            {mode === "draft"
+              ? (isSubmitting ? "Saving..." : "Save Draft")
+              : (isSubmitting ? "Posting..." : "Post Reply")}
           </Button>
         </DialogFooter>
       </DialogContent>
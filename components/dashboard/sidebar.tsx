@@ -16,17 +16,30 @@ import {
   Bot, 
   TrendingUp, 
   FileSearch,
+  FileBarChart,
   Search,
   Bell,
   Settings,
   User,
   Crown,
-  BarChart3
+  BarChart3,
+  Users,
+  type LucideIcon
 } from "lucide-react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
+import { useAuth } from "@/lib/hooks/use-auth"
 
-const navigationItems = [
+interface NavigationItem {
+  title: string
+  href: string
+  icon: LucideIcon
+  active?: boolean
+  badge?: string
+  permission?: string
+}
+
+const navigationItems: NavigationItem[] = [
   {
     title: "Overview",
     href: "/dashboard/overview",
@@ -66,14 +79,12 @@ const navigationItems = [
   {
     title: "Content AI",
     href: "/dashboard/content-ai",
-    icon: Bot,
-    badge: "Coming Soon"
+    icon: Bot
   },
   {
     title: "Rank Tracker",
     href: "/dashboard/rank-tracker",
-    icon: TrendingUp,
-    badge: "Coming Soon"
+    icon: TrendingUp
   },
   // {
   //   title: "Performance",
@@ -83,8 +94,18 @@ const navigationItems = [
   {
     title: "Audits",
     href: "/dashboard/audits",
-    icon: FileSearch,
-    badge: "Coming Soon"
+    icon: FileSearch
+  },
+  {
+    title: "Reports",
+    href: "/dashboard/reports",
+    icon: FileBarChart
+  },
+  {
+    title: "Users",
+    href: "/dashboard/users",
+    icon: Users,
+    permission: "view_users"
   }
 ]
 
@@ -92,6 +113,8 @@ interface SidebarProps extends React.HTMLAttributes<HTMLDivElement> {}
 
 export function Sidebar({ className }: SidebarProps) {
   const pathname = usePathname()
+  const { hasPermission } = useAuth()
+  const visibleItems = navigationItems.filter(item => !item.permission || hasPermission(item.permission))
 
   return (
     <div className={cn("pb-12", className)}>
@@ -111,7 +134,7 @@ export function Sidebar({ className }: SidebarProps) {
         {/* Navigation */}
         <div className="px-3">
           <div className="space-y-1">
-            {navigationItems.map((item) => {
+            {visibleItems.map((item) => {
               const isActive = pathname === item.href || (pathname === "/dashboard" && item.href === "/dashboard/overview")
               return (
                 <Button
@@ -58,6 +58,7 @@ interface StoreFormData {
   }
 
   // Business Information
+  description: string
   primaryCategory: string
   gmbCategoryId: string
   gmbCategoryDisplayName: string
@@ -84,6 +85,7 @@ interface StoreFormData {
   // Microsite Content
   microsite: {
     tagline: string
+    aboutSection: string
     gmbUrl: string
     heroImage: { url: string; key: string } | null
     existingImages: Array<{ url: string; key: string; caption: string }>
@@ -131,6 +133,7 @@ const initialFormData: StoreFormData = {
     latitude: undefined,
     longitude: undefined
   },
+  description: "",
   primaryCategory: "",
   gmbCategoryId: "",
   gmbCategoryDisplayName: "",
@@ -151,6 +154,7 @@ const initialFormData: StoreFormData = {
   },
   microsite: {
     tagline: "",
+    aboutSection: "",
     gmbUrl: "",
     heroImage: null,
     existingImages: []
@@ -293,6 +297,7 @@ export default function StoreCreateModal({
           latitude: editStore.address?.latitude || undefined,
           longitude: editStore.address?.longitude || undefined
         },
+        description: editStore.description || '',
         primaryCategory: editStore.primaryCategory || 'Business',
         additionalCategories: editStore.additionalCategories || [],
         tags: editStore.tags || [],
@@ -303,6 +308,7 @@ export default function StoreCreateModal({
         },
         microsite: {
           tagline: editStore.microsite?.tagline || '',
+          aboutSection: editStore.microsite?.aboutSection || '',
           gmbUrl: editStore.microsite?.gmbUrl || '',
           heroImage: editStore.microsite?.heroImage || null,
           existingImages: editStore.microsite?.existingImages || []
@@ -370,6 +376,7 @@ export default function StoreCreateModal({
         latitude: 40.7128,
         longitude: -74.0060
       },
+      description: "Family-run restaurant serving fresh, locally sourced food for dine-in, takeout and delivery.",
       primaryCategory: "restaurant",
       gmbCategoryId: "gcid:restaurant",
       gmbCategoryDisplayName: "Restaurant",
@@ -390,6 +397,7 @@ export default function StoreCreateModal({
       },
       microsite: {
         tagline: "A short, catchy phrase for this location",
+        aboutSection: "",
         gmbUrl: "https://www.colive.com/bangalore/pg-in-marathahalli/main-street-branch",
         heroImage: null,
         existingImages: []
@@ -1085,6 +1093,28 @@ export default function StoreCreateModal({
                     className="h-11 border-gray-200 dark:border-gray-700 focus:border-blue-500 dark:focus:border-blue-400"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description" className="text-sm font-medium text-gray-700 dark:text-gray-300">Business Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => handleInputChange('description', e.target.value)}
+                    placeholder="What this location offers and who it is for"
+                    maxLength={750}
+                    className="min-h-[100px] border-gray-200 dark:border-gray-700 focus:border-blue-500 dark:focus:border-blue-400"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{formData.description.length}/750 characters (Google's limit). Drafts can be generated in Content AI.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="aboutSection" className="text-sm font-medium text-gray-700 dark:text-gray-300">About Section</Label>
+                  <Textarea
+                    id="aboutSection"
+                    value={formData.microsite.aboutSection}
+                    onChange={(e) => handleInputChange('microsite.aboutSection', e.target.value)}
+                    placeholder="Tell visitors about this location"
+                    className="min-h-[120px] border-gray-200 dark:border-gray-700 focus:border-blue-500 dark:focus:border-blue-400"
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="gmbUrl" className="text-sm font-medium text-gray-700 dark:text-gray-300">Location Page URL (GMB)</Label>
                   <Input
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Download, FileJson, FileSpreadsheet } from "lucide-react"
+
+const COLUMN_GROUPS = [
+  { value: "address", label: "Address", description: "Street, city, state, postal code and coordinates" },
+  { value: "hours", label: "Opening Hours", description: "One column per weekday" },
+  { value: "categories", label: "Categories", description: "Primary and additional categories, tags" },
+  { value: "gmb", label: "GMB IDs", description: "Location ID, account ID, place ID and last sync" },
+  { value: "verification", label: "Verification", description: "Verified flag and latest verification attempt" },
+  { value: "microsite", label: "Microsite", description: "Microsite, GMB and Maps links" },
+  { value: "performance", label: "Performance", description: "Latest period metrics and lifetime totals" },
+  { value: "ratings", label: "Ratings", description: "Average rating, review count and reply rate" },
+]
+
+interface StoreExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  filters: {
+    search: string
+    status: string
+    category: string
+    city: string
+  }
+}
+
+export default function StoreExportModal({ isOpen, onClose, filters }: StoreExportModalProps) {
+  const [selectedGroups, setSelectedGroups] = useState<string[]>(["address", "categories", "ratings"])
+  const [format, setFormat] = useState<"csv" | "json">("csv")
+
+  const toggleGroup = (group: string, checked: boolean) => {
+    setSelectedGroups(prev =>
+      checked ? [...prev, group] : prev.filter(g => g !== group)
+    )
+  }
+
+  const handleExport = () => {
+    const params = new URLSearchParams({ format })
+    if (selectedGroups.length > 0) params.set("columns", selectedGroups.join(","))
+    if (filters.search.trim()) params.set("search", filters.search.trim())
+    if (filters.status !== "all") params.set("status", filters.status)
+    if (filters.category !== "all") params.set("category", filters.category)
+    if (filters.city !== "all") params.set("city", filters.city)
+
+    // The endpoint responds with Content-Disposition, so this downloads without leaving the page
+    window.location.href = `/api/stores/export?${params.toString()}`
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Stores</DialogTitle>
+          <DialogDescription>
+            Exports every store matching the current filters. Store name, code, brand, status and contact details are always included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Columns</Label>
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedGroups(COLUMN_GROUPS.map(group => group.value))}
+                >
+                  Select all
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedGroups([])}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {COLUMN_GROUPS.map((group) => (
+                <div key={group.value} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`export-${group.value}`}
+                    checked={selectedGroups.includes(group.value)}
+                    onCheckedChange={(checked) => toggleGroup(group.value, checked === true)}
+                  />
+                  <div className="grid gap-0.5">
+                    <Label htmlFor={`export-${group.value}`} className="cursor-pointer">
+                      {group.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{group.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label className="mb-2 block">Format</Label>
+            <div className="flex gap-2">
+              <Button
+                variant={format === "csv" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setFormat("csv")}
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+              <Button
+                variant={format === "json" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setFormat("json")}
+              >
+                <FileJson className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
+import EnquiryForm from './EnquiryForm'
 
 interface Brand {
   _id: string
@@ -221,6 +222,29 @@ export default function BrandMicrosite({
         </div>
       </section>
 
+      {/* Contact Form */}
+      {stores.length > 0 && (
+        <section id="contact" className="py-12 bg-white">
+          <div className="container mx-auto px-4">
+            <div className="max-w-2xl mx-auto">
+              <h3 className="text-2xl font-bold mb-2 text-center">Contact Us</h3>
+              <p className="text-gray-600 text-center mb-8">
+                Send an enquiry to any of our stores and the team will get back to you.
+              </p>
+              <Card>
+                <CardContent className="pt-6">
+                  <EnquiryForm
+                    brandSlug={brand.slug}
+                    stores={stores.map(store => ({ slug: store.slug, name: store.name }))}
+                    primaryColor={brand.branding?.primaryColor}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Footer */}
       <footer className="bg-gray-900 text-white py-12">
         <div className="container mx-auto px-4">
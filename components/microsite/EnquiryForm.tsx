@@ -0,0 +1,205 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle, Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+const ENQUIRY_TYPES = [
+  { value: 'general', label: 'General' },
+  { value: 'product', label: 'Product' },
+  { value: 'service', label: 'Service' },
+  { value: 'complaint', label: 'Complaint' },
+  { value: 'feedback', label: 'Feedback' },
+  { value: 'partnership', label: 'Partnership' }
+]
+
+interface EnquiryFormProps {
+  brandSlug: string
+  // Fixed store (store microsite). When omitted, the user picks from `stores`.
+  storeSlug?: string
+  stores?: Array<{ slug: string; name: string }>
+  primaryColor?: string
+}
+
+const initialFormState = {
+  name: '',
+  email: '',
+  phone: '',
+  subject: '',
+  message: '',
+  enquiryType: 'general',
+  storeSlug: ''
+}
+
+export default function EnquiryForm({ brandSlug, storeSlug, stores = [], primaryColor }: EnquiryFormProps) {
+  const [form, setForm] = useState({ ...initialFormState, storeSlug: storeSlug || '' })
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateField = (field: keyof typeof initialFormState, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!form.storeSlug) {
+      setError('Please select a store')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/enquiries', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...form,
+          brandSlug,
+          phone: form.phone || undefined
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to submit enquiry')
+      }
+
+      setSubmitted(true)
+      setForm({ ...initialFormState, storeSlug: storeSlug || '' })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit enquiry')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (submitted) {
+    return (
+      <div className="text-center py-8">
+        <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+        <h4 className="text-lg font-semibold text-gray-900 mb-2">Thank you for reaching out!</h4>
+        <p className="text-gray-600 mb-6">We have received your enquiry and will get back to you soon.</p>
+        <Button variant="outline" onClick={() => setSubmitted(false)}>
+          Send another enquiry
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="enquiry-name">Name *</Label>
+          <Input
+            id="enquiry-name"
+            value={form.name}
+            onChange={(e) => updateField('name', e.target.value)}
+            required
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="enquiry-email">Email *</Label>
+          <Input
+            id="enquiry-email"
+            type="email"
+            value={form.email}
+            onChange={(e) => updateField('email', e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="enquiry-phone">Phone</Label>
+          <Input
+            id="enquiry-phone"
+            type="tel"
+            value={form.phone}
+            onChange={(e) => updateField('phone', e.target.value)}
+            maxLength={20}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="enquiry-type">Enquiry Type</Label>
+          <select
+            id="enquiry-type"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm h-9 bg-transparent"
+            value={form.enquiryType}
+            onChange={(e) => updateField('enquiryType', e.target.value)}
+          >
+            {ENQUIRY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!storeSlug && (
+        <div className="space-y-2">
+          <Label htmlFor="enquiry-store">Store *</Label>
+          <select
+            id="enquiry-store"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm h-9 bg-transparent"
+            value={form.storeSlug}
+            onChange={(e) => updateField('storeSlug', e.target.value)}
+            required
+          >
+            <option value="">Select a store</option>
+            {stores.map(store => (
+              <option key={store.slug} value={store.slug}>{store.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="enquiry-subject">Subject *</Label>
+        <Input
+          id="enquiry-subject"
+          value={form.subject}
+          onChange={(e) => updateField('subject', e.target.value)}
+          required
+          maxLength={200}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="enquiry-message">Message *</Label>
+        <Textarea
+          id="enquiry-message"
+          rows={5}
+          value={form.message}
+          onChange={(e) => updateField('message', e.target.value)}
+          required
+          maxLength={5000}
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <Button
+        type="submit"
+        disabled={submitting}
+        className="w-full text-white"
+        style={primaryColor ? { backgroundColor: primaryColor } : undefined}
+      >
+        <Send className="w-4 h-4" />
+        {submitting ? 'Sending...' : 'Send Enquiry'}
+      </Button>
+    </form>
+  )
+}
@@ -22,6 +22,7 @@ import {
   Youtube,
   CheckCircle
 } from 'lucide-react'
+import EnquiryForm from './EnquiryForm'
 
 interface Brand {
   _id: string
@@ -80,6 +81,7 @@ interface Store {
   }
   microsite?: {
     tagline?: string
+    aboutSection?: string
     heroImage?: {
       url: string
     }
@@ -759,6 +761,12 @@ export default function StoreMicrosite({
                         </div>
                       )}
 
+                      {store.microsite.aboutSection && (
+                        <div className="mb-4">
+                          <p className="text-gray-700 leading-relaxed whitespace-pre-line">{store.microsite.aboutSection}</p>
+                        </div>
+                      )}
+
                       {store.microsite.gmbUrl && (
                         <div className="mb-4">
                           <a
@@ -1050,6 +1058,25 @@ export default function StoreMicrosite({
           </section>
         )}
 
+        {/* Contact Form */}
+        <section id="contact" className="py-16 bg-white">
+          <div className="container mx-auto px-4 max-w-7xl">
+            <div className="max-w-2xl mx-auto">
+              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 text-center mb-2">Send an Enquiry</h2>
+              <p className="text-gray-600 text-center mb-8">
+                Have a question for {store.name}? Leave us a message and we'll get back to you.
+              </p>
+              <div className="bg-gray-50 rounded-lg p-6 md:p-8 shadow-md">
+                <EnquiryForm
+                  brandSlug={brand.slug}
+                  storeSlug={store.slug}
+                  primaryColor={brand.branding?.primaryColor}
+                />
+              </div>
+            </div>
+          </div>
+        </section>
+
         {/* Back to Brand */}
         <section className="py-12 bg-gray-50">
           <div className="container mx-auto px-4 text-center max-w-7xl">
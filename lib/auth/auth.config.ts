@@ -2,9 +2,10 @@ import type { NextAuthConfig } from 'next-auth'
 import Google from 'next-auth/providers/google'
 import Credentials from 'next-auth/providers/credentials'
 import connectDB from '@/lib/database/connection'
+import crypto from 'crypto'
 import { User } from '@/lib/database/user-model'
 import { Brand } from '@/lib/database/models'
-import bcrypt from 'bcryptjs'
+import { migrateBrandCredentials } from '@/lib/utils/brand-credential-migration'
 
 export const authConfig = {
   providers: [
@@ -34,77 +35,42 @@ export const authConfig = {
         
         const emailLower = (credentials.email as string).toLowerCase()
         
-        // Try to find user in User collection first
         let user = await User.findOne({ email: emailLower })
-        
-        if (user) {
-          // Check if user is active
-          if (user.status !== 'active') {
-            return null
-          }
-          
-          // Verify password
-          const isPasswordValid = await user.comparePassword(credentials.password as string)
-          
-          if (!isPasswordValid) {
-            return null
-          }
-          
-          // Update last login
-          user.lastLoginAt = new Date()
-          await user.save()
-          
-          return {
-            id: String(user._id),
-            email: user.email,
-            name: user.name,
-            role: user.role,
-            brandId: user.brandId ? String(user.brandId) : undefined,
-            image: user.profilePicture
-          }
-        }
-        
-        // If not found in User collection, check Brand collection
-        const brand = await Brand.findOne({
-          $or: [
-            { 'users.owner.email': emailLower },
-            { 'users.manager.email': emailLower }
-          ]
-        })
-        
-        if (!brand) {
-          return null
-        }
-        
-        // Check if it's owner or manager
-        let userRole: 'owner' | 'manager' | null = null
-        let storedPassword: string | null = null
-        
-        if (brand.users.owner.email === emailLower) {
-          userRole = 'owner'
-          storedPassword = brand.users.owner.password
-        } else if (brand.users.manager && brand.users.manager.email === emailLower) {
-          userRole = 'manager'
-          storedPassword = brand.users.manager.password || null
+
+        // Brand logins still stored on the brand document move to a User on first sign-in
+        if (!user) {
+          await migrateBrandCredentials({
+            $or: [
+              { 'users.owner.email': emailLower },
+              { 'users.manager.email': emailLower }
+            ]
+          })
+          user = await User.findOne({ email: emailLower })
         }
-        
-        if (!userRole || !storedPassword) {
+
+        // Check if user exists and is active
+        if (!user || user.status !== 'active') {
           return null
         }
         
         // Verify password
-        const isPasswordValid = await bcrypt.compare(credentials.password as string, storedPassword)
+        const isPasswordValid = await user.comparePassword(credentials.password as string)
         
         if (!isPasswordValid) {
           return null
         }
         
+        // Update last login
+        user.lastLoginAt = new Date()
+        await user.save()
+        
         return {
-          id: String(brand._id),
-          email: emailLower,
-          name: brand.name,
-          role: userRole,
-          brandId: String(brand._id)
+          id: String(user._id),
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          brandId: user.brandId ? String(user.brandId) : undefined,
+          image: user.profilePicture
         }
       }
     })
@@ -125,6 +91,11 @@ export const authConfig = {
         
         // Check if user exists in User collection
         let existingUser = await User.findOne({ email })
+
+        if (!existingUser) {
+          await migrateBrandCredentials({ 'users.owner.email': email })
+          existingUser = await User.findOne({ email })
+        }
         
         if (existingUser) {
           // Update last login
@@ -143,49 +114,51 @@ export const authConfig = {
         // Check if brand exists with this email as owner
         let brand = await Brand.findOne({ 'users.owner.email': email })
         
-        if (brand) {
-          // User is an existing brand owner
-          user.id = String(brand._id)
-          user.name = brand.name
-          user.role = 'owner'
-          user.brandId = String(brand._id)
+        if (!brand) {
+          // Create a new brand with this email as owner
+          // Generate a slug from email
+          const slug = email.split('@')[0].replace(/[^a-z0-9]/g, '-') + '-' + Date.now()
           
-          return true
+          // Create brand with minimal required fields
+          brand = new Brand({
+            name: user.name || email.split('@')[0],
+            slug,
+            email,
+            users: {
+              owner: { email }
+            },
+            address: {
+              line1: 'Not provided',
+              locality: 'Not provided',
+              city: 'Not provided',
+              state: 'Not provided',
+              postalCode: '000000',
+              country: 'Not provided'
+            },
+            status: 'active'
+          })
+          
+          await brand.save()
         }
         
-        // Create a new brand with this email as owner
-        // Generate a slug from email
-        const slug = email.split('@')[0].replace(/[^a-z0-9]/g, '-') + '-' + Date.now()
-        
-        // Create brand with minimal required fields
-        const newBrand = new Brand({
-          name: user.name || email.split('@')[0],
-          slug,
+        // Create the owner's user account
+        const owner = new User({
           email,
-          users: {
-            owner: {
-              email,
-              password: await bcrypt.hash(Math.random().toString(36), 10) // Random password for Google OAuth users
-            }
-          },
-          address: {
-            line1: 'Not provided',
-            locality: 'Not provided',
-            city: 'Not provided',
-            state: 'Not provided',
-            postalCode: '000000',
-            country: 'Not provided'
-          },
-          status: 'active'
+          password: crypto.randomBytes(24).toString('hex'), // Random password for Google OAuth users
+          name: user.name || brand.name,
+          role: 'owner',
+          brandId: brand._id,
+          status: 'active',
+          lastLoginAt: new Date()
         })
         
-        await newBrand.save()
+        await owner.save()
         
         // Update user object
-        user.id = String(newBrand._id)
-        user.name = newBrand.name
+        user.id = String(owner._id)
+        user.name = owner.name
         user.role = 'owner'
-        user.brandId = String(newBrand._id)
+        user.brandId = String(brand._id)
         
         return true
       }
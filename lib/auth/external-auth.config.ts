@@ -1,8 +1,9 @@
 import type { NextAuthConfig } from 'next-auth'
 import Google from 'next-auth/providers/google'
 import connectDB from '@/lib/database/connection'
+import crypto from 'crypto'
 import { Brand } from '@/lib/database/models'
-import bcrypt from 'bcryptjs'
+import { User } from '@/lib/database/user-model'
 
 export const externalAuthConfig = {
   providers: [
@@ -50,12 +51,7 @@ export const externalAuthConfig = {
           slug,
           email,
           users: {
-            owner: {
-              email,
-              password: await bcrypt.hash(Math.random().toString(36), 10), // Random password for Google OAuth users
-              name: user.name || '',
-              profilePicture: user.image || ''
-            }
+            owner: { email }
           },
           address: {
             line1: 'To be updated',
@@ -72,8 +68,22 @@ export const externalAuthConfig = {
         
         await newBrand.save()
         
+        // Create the owner's user account
+        const owner = new User({
+          email,
+          password: crypto.randomBytes(24).toString('hex'), // Random password for Google OAuth users
+          name: user.name || newBrand.name,
+          role: 'owner',
+          brandId: newBrand._id,
+          profilePicture: user.image || undefined,
+          status: 'active',
+          lastLoginAt: new Date()
+        })
+        
+        await owner.save()
+        
         // Update user object
-        user.id = String(newBrand._id)
+        user.id = String(owner._id)
         user.name = newBrand.name
         ;(user as any).role = 'owner'
         ;(user as any).brandId = String(newBrand._id)
@@ -0,0 +1,88 @@
+import mongoose from 'mongoose'
+
+export type AuditSeverity = 'critical' | 'high' | 'medium' | 'low'
+
+// Store Audit Schema - latest GMB profile audit for a store (one document per store)
+const StoreAuditSchema = new mongoose.Schema({
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store',
+    required: true,
+    unique: true
+  },
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  storeName: String,
+  storeCode: String,
+  city: String,
+
+  // 0-100, weighted by the severity of the rules that passed
+  score: {
+    type: Number,
+    required: true
+  },
+  previousScore: Number,
+
+  findings: [{
+    ruleId: {
+      type: String,
+      required: true
+    },
+    category: String,
+    severity: {
+      type: String,
+      enum: ['critical', 'high', 'medium', 'low'],
+      required: true
+    },
+    title: String,
+    message: String,
+    recommendation: String
+  }],
+  counts: {
+    critical: { type: Number, default: 0 },
+    high: { type: Number, default: 0 },
+    medium: { type: Number, default: 0 },
+    low: { type: Number, default: 0 }
+  },
+
+  auditedAt: {
+    type: Date,
+    default: Date.now
+  },
+  auditedBy: String
+}, {
+  timestamps: true
+})
+
+StoreAuditSchema.index({ brandId: 1, score: 1 })
+StoreAuditSchema.index({ 'findings.ruleId': 1 })
+
+export interface IAuditFinding {
+  ruleId: string
+  category: string
+  severity: AuditSeverity
+  title: string
+  message: string
+  recommendation: string
+}
+
+export interface IStoreAudit extends mongoose.Document {
+  storeId: mongoose.Types.ObjectId
+  brandId: mongoose.Types.ObjectId
+  storeName?: string
+  storeCode?: string
+  city?: string
+  score: number
+  previousScore?: number
+  findings: IAuditFinding[]
+  counts: Record<AuditSeverity, number>
+  auditedAt: Date
+  auditedBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const StoreAudit = (mongoose.models.StoreAudit as mongoose.Model<IStoreAudit>) || mongoose.model<IStoreAudit>('StoreAudit', StoreAuditSchema)
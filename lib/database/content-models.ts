@@ -0,0 +1,89 @@
+import mongoose from 'mongoose'
+
+export type ContentType = 'gmb_post' | 'store_description' | 'microsite_tagline' | 'microsite_about'
+
+// Content Draft Schema - AI-generated copy saved for review before it is used
+const ContentDraftSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  // Required for store-level content; optional for brand-wide posts
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  },
+
+  type: {
+    type: String,
+    enum: ['gmb_post', 'store_description', 'microsite_tagline', 'microsite_about'],
+    required: true
+  },
+  title: {
+    type: String,
+    trim: true
+  },
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  },
+
+  // What the text was generated from, so a draft can be regenerated
+  prompt: {
+    topic: String,
+    tone: String,
+    keywords: [String]
+  },
+  // Which generator wrote it ("stub", "gemini-1.5-flash", or "manual")
+  aiModel: {
+    type: String,
+    required: true
+  },
+
+  status: {
+    type: String,
+    enum: ['draft', 'applied', 'discarded'],
+    default: 'draft'
+  },
+  appliedAt: Date,
+  appliedBy: String,
+
+  createdBy: {
+    userId: String,
+    name: String,
+    email: String
+  }
+}, {
+  timestamps: true
+})
+
+ContentDraftSchema.index({ brandId: 1, status: 1, createdAt: -1 })
+ContentDraftSchema.index({ storeId: 1, type: 1 })
+
+export interface IContentDraft extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  storeId?: mongoose.Types.ObjectId
+  type: ContentType
+  title?: string
+  text: string
+  prompt?: {
+    topic?: string
+    tone?: string
+    keywords?: string[]
+  }
+  aiModel: string
+  status: 'draft' | 'applied' | 'discarded'
+  appliedAt?: Date
+  appliedBy?: string
+  createdBy?: {
+    userId?: string
+    name?: string
+    email?: string
+  }
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const ContentDraft = (mongoose.models.ContentDraft as mongoose.Model<IContentDraft>) || mongoose.model<IContentDraft>('ContentDraft', ContentDraftSchema)
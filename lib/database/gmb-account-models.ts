@@ -1,4 +1,5 @@
 import mongoose from 'mongoose'
+import { decryptToken, encryptToken } from '@/lib/utils/token-encryption'
 
 // GMB Account Schema - Separate collection for GMB accounts
 const GmbAccountSchema = new mongoose.Schema({
@@ -32,10 +33,10 @@ const GmbAccountSchema = new mongoose.Schema({
     type: Date
   },
   
-  // OAuth Tokens (encrypted)
+  // OAuth Tokens, encrypted at rest and decrypted on read (not with .lean())
   tokens: {
-    access_token: String,
-    refresh_token: String,
+    access_token: { type: String, set: encryptToken, get: decryptToken },
+    refresh_token: { type: String, set: encryptToken, get: decryptToken },
     expires_at: Date
   },
   
@@ -0,0 +1,253 @@
+import mongoose from 'mongoose'
+
+export const IVR_INGESTION_OUTCOMES = ['accepted', 'duplicate', 'rejected', 'error'] as const
+
+export type IvrIngestionOutcome = typeof IVR_INGESTION_OUTCOMES[number]
+
+// Calls are either pushed to our webhook or pulled from the provider's API
+export const IVR_INGESTION_SOURCES = ['push', 'pull'] as const
+
+export type IvrIngestionSource = typeof IVR_INGESTION_SOURCES[number]
+
+// Adapters in lib/services/ivr-provider.ts
+export const IVR_PROVIDER_NAMES = ['waybeo', 'generic'] as const
+
+export type IvrProviderName = typeof IVR_PROVIDER_NAMES[number]
+
+// Keep delivery logs for 90 days
+const INGESTION_LOG_TTL_SECONDS = 90 * 24 * 60 * 60
+
+// IVR Ingestion Log Schema - one row per webhook delivery attempt, whatever the outcome
+const IvrIngestionLogSchema = new mongoose.Schema({
+  // Raw route segment; not a reference because rejected deliveries may name no real brand
+  brandParam: {
+    type: String,
+    required: true
+  },
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand'
+  },
+  provider: {
+    type: String,
+    trim: true
+  },
+  source: {
+    type: String,
+    enum: IVR_INGESTION_SOURCES,
+    default: 'push'
+  },
+
+  outcome: {
+    type: String,
+    enum: IVR_INGESTION_OUTCOMES,
+    required: true
+  },
+  httpStatus: {
+    type: Number,
+    required: true
+  },
+  // Why the delivery was rejected or failed
+  reason: String,
+
+  // Signature headers as received
+  signaturePresent: {
+    type: Boolean,
+    default: false
+  },
+  signatureTimestamp: Number,
+
+  dedupeKey: String,
+  ivrCallId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'IVRCall'
+  },
+
+  ipAddress: String,
+  // Parsed body when it is JSON, otherwise the start of the raw body
+  payload: mongoose.Schema.Types.Mixed,
+
+  receivedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+})
+
+IvrIngestionLogSchema.index({ brandId: 1, receivedAt: -1 })
+IvrIngestionLogSchema.index({ outcome: 1, receivedAt: -1 })
+IvrIngestionLogSchema.index({ receivedAt: 1 }, { expireAfterSeconds: INGESTION_LOG_TTL_SECONDS })
+
+export interface IIvrIngestionLog extends mongoose.Document {
+  brandParam: string
+  brandId?: mongoose.Types.ObjectId
+  provider?: string
+  source: IvrIngestionSource
+  outcome: IvrIngestionOutcome
+  httpStatus: number
+  reason?: string
+  signaturePresent: boolean
+  signatureTimestamp?: number
+  dedupeKey?: string
+  ivrCallId?: mongoose.Types.ObjectId
+  ipAddress?: string
+  payload?: unknown
+  receivedAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const IvrIngestionLog = (mongoose.models.IvrIngestionLog as mongoose.Model<IIvrIngestionLog>) || mongoose.model<IIvrIngestionLog>('IvrIngestionLog', IvrIngestionLogSchema)
+
+// Results of calling a customer back
+export const CALLBACK_ATTEMPT_OUTCOMES = ['reached', 'no_answer', 'wrong_number'] as const
+
+export type CallbackAttemptOutcome = typeof CALLBACK_ATTEMPT_OUTCOMES[number]
+
+// answered_inbound: the customer later got through on an answered call
+export const CALLBACK_OUTCOMES = [...CALLBACK_ATTEMPT_OUTCOMES, 'answered_inbound'] as const
+
+export type CallbackOutcome = typeof CALLBACK_OUTCOMES[number]
+
+export const CALLBACK_STATUSES = ['open', 'closed'] as const
+
+export type CallbackStatus = typeof CALLBACK_STATUSES[number]
+
+// Callback Task Schema - follow-up for missed and IVR-drop calls, one open task per store and customer
+const CallbackTaskSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  // Unset when the call could not be matched to a store
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store',
+    default: null
+  },
+  storeName: String,
+
+  customerNumber: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  customerName: String,
+
+  // Missed calls from this customer while the task was open
+  ivrCallIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'IVRCall'
+  }],
+  missedCallCount: {
+    type: Number,
+    default: 0
+  },
+  firstMissedAt: {
+    type: Date,
+    required: true
+  },
+  lastMissedAt: Date,
+
+  // Who should call back
+  owner: {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    name: String,
+    email: String,
+    role: String
+  },
+  assignedAt: Date,
+
+  // SLA: first callback attempt due by (stamped from brand settings at creation)
+  dueAt: {
+    type: Date,
+    required: true
+  },
+
+  status: {
+    type: String,
+    enum: CALLBACK_STATUSES,
+    default: 'open'
+  },
+  outcome: {
+    type: String,
+    enum: CALLBACK_OUTCOMES
+  },
+
+  attempts: [{
+    outcome: {
+      type: String,
+      enum: CALLBACK_ATTEMPT_OUTCOMES,
+      required: true
+    },
+    note: String,
+    by: String,
+    byName: String,
+    at: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+
+  // First callback attempt, or the answered call that closed the task
+  firstResponseAt: Date,
+  closedAt: Date,
+  closedBy: String,
+  closedByCallId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'IVRCall'
+  }
+}, {
+  timestamps: true
+})
+
+CallbackTaskSchema.index(
+  { brandId: 1, storeId: 1, customerNumber: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' } }
+)
+CallbackTaskSchema.index({ brandId: 1, status: 1, dueAt: 1 })
+CallbackTaskSchema.index({ brandId: 1, customerNumber: 1 })
+CallbackTaskSchema.index({ 'owner.userId': 1, status: 1 })
+CallbackTaskSchema.index({ firstMissedAt: -1 })
+
+export interface ICallbackTask extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  storeId?: mongoose.Types.ObjectId | null
+  storeName?: string
+  customerNumber: string
+  customerName?: string
+  ivrCallIds: mongoose.Types.ObjectId[]
+  missedCallCount: number
+  firstMissedAt: Date
+  lastMissedAt?: Date
+  owner?: {
+    userId?: mongoose.Types.ObjectId
+    name?: string
+    email?: string
+    role?: string
+  }
+  assignedAt?: Date
+  dueAt: Date
+  status: CallbackStatus
+  outcome?: CallbackOutcome
+  attempts: Array<{
+    outcome: CallbackAttemptOutcome
+    note?: string
+    by?: string
+    byName?: string
+    at: Date
+  }>
+  firstResponseAt?: Date
+  closedAt?: Date
+  closedBy?: string
+  closedByCallId?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const CallbackTask = (mongoose.models.CallbackTask as mongoose.Model<ICallbackTask>) || mongoose.model<ICallbackTask>('CallbackTask', CallbackTaskSchema)
@@ -1,4 +1,7 @@
 import mongoose from 'mongoose'
+import type { GmbPostInput } from '@/lib/server/gmb-api-server'
+import { decryptToken, encryptToken } from '@/lib/utils/token-encryption'
+import { IVR_INGESTION_SOURCES, IVR_PROVIDER_NAMES, IvrIngestionSource, IvrProviderName } from './ivr-models'
 
 // Separate models for better data organization and relationships
 // Reviews, Posts, and Performance data are now in separate collections
@@ -219,6 +222,12 @@ const PostSchema = new mongoose.Schema({
     type: String,
     enum: ['gmb', 'manual', 'imported'],
     default: 'gmb'
+  },
+
+  // Multi-store campaign this post was published from
+  campaignId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PostCampaign'
   }
 }, {
   timestamps: true
@@ -341,6 +350,28 @@ const PerformanceSchema = new mongoose.Schema({
     default: 0
   },
   
+  // Per-day breakdown from the GMB time series API, in the location's local dates
+  dailyMetrics: [{
+    _id: false,
+    date: {
+      year: Number,
+      month: Number,
+      day: Number
+    },
+    metrics: {
+      callClicks: Number,
+      websiteClicks: Number,
+      directionRequests: Number,
+      businessBookings: Number,
+      businessFoodOrders: Number,
+      businessMessages: Number,
+      desktopSearchImpressions: Number,
+      mobileSearchImpressions: Number,
+      desktopMapsImpressions: Number,
+      mobileMapsImpressions: Number
+    }
+  }],
+  
   // Conversion Rates (calculated)
   conversionRate: {
     type: Number,
@@ -534,6 +565,12 @@ const IVRCallSchema = new mongoose.Schema({
     default: 0
   },
   
+  // Provider call identity (brand, virtual number, customer number, start time),
+  // used to ignore repeated webhook deliveries of the same call
+  dedupeKey: {
+    type: String
+  },
+  
   // Status
   status: {
     type: String,
@@ -562,6 +599,7 @@ PostSchema.index({ 'gmbCreateTime': -1 })
 PostSchema.index({ state: 1 })
 PostSchema.index({ topicType: 1 })
 PostSchema.index({ status: 1 })
+PostSchema.index({ campaignId: 1 })
 // Note: gmbPostId index is automatically created by unique: true in schema
 
 // Create indexes for Performance model
@@ -589,6 +627,8 @@ IVRCallSchema.index({ callStatus: 1 })
 IVRCallSchema.index({ status: 1 })
 IVRCallSchema.index({ publisherType: 1 })
 IVRCallSchema.index({ leadType: 1 })
+IVRCallSchema.index({ brandId: 1, callStartTime: -1 })
+IVRCallSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true })
 
 // Brand Schema
 const BrandSchema = new mongoose.Schema({
@@ -740,6 +780,8 @@ const BrandSchema = new mongoose.Schema({
     key: String,
     caption: String
   }],
+  // Contact emails of the brand's owner and manager. Their logins are User
+  // records (lib/database/user-model.ts) linked by brandId.
   users: {
     owner: {
       email: {
@@ -747,10 +789,6 @@ const BrandSchema = new mongoose.Schema({
         required: true,
         trim: true,
         lowercase: true
-      },
-      password: {
-        type: String,
-        required: true
       }
     },
     manager: {
@@ -758,8 +796,7 @@ const BrandSchema = new mongoose.Schema({
         type: String,
         trim: true,
         lowercase: true
-      },
-      password: String
+      }
     }
   },
   settings: {
@@ -804,14 +841,116 @@ const BrandSchema = new mongoose.Schema({
         }
       }
     },
+    // Which events notify the brand's recipients (see NotificationRecipient)
     notifications: {
+      // New reviews at or below negativeReviewMaxRating
       reviews: {
         type: Boolean,
         default: true
       },
+      // Scheduled posts that could not be published
       posts: {
         type: Boolean,
         default: true
+      },
+      enquiries: {
+        type: Boolean,
+        default: true
+      },
+      syncFailures: {
+        type: Boolean,
+        default: true
+      },
+      verification: {
+        type: Boolean,
+        default: true
+      },
+      // Weekly performance report emailed on Mondays (see BrandReport)
+      weeklyReport: {
+        type: Boolean,
+        default: true
+      },
+      negativeReviewMaxRating: {
+        type: Number,
+        min: 1,
+        max: 4,
+        default: 2
+      }
+    },
+    // Signed IVR call webhook (POST /api/ivr-calls/[brandId])
+    ivrIngestion: {
+      // HMAC secret shared with the IVR provider, encrypted at rest
+      secret: {
+        type: String,
+        select: false,
+        set: encryptToken,
+        get: decryptToken
+      },
+      secretRotatedAt: Date
+    },
+    // IVR call tracking provider (adapters in lib/services/ivr-provider.ts)
+    ivrProvider: {
+      name: {
+        type: String,
+        enum: IVR_PROVIDER_NAMES,
+        default: 'waybeo'
+      },
+      // push: the provider calls our webhook; pull: we fetch calls from pullUrl
+      mode: {
+        type: String,
+        enum: IVR_INGESTION_SOURCES,
+        default: 'push'
+      },
+      pullUrl: {
+        type: String,
+        trim: true
+      },
+      // Credentials for the pull API, secrets encrypted at rest
+      credentials: {
+        apiKey: {
+          type: String,
+          select: false,
+          set: encryptToken,
+          get: decryptToken
+        },
+        username: {
+          type: String,
+          trim: true
+        },
+        password: {
+          type: String,
+          select: false,
+          set: encryptToken,
+          get: decryptToken
+        }
+      },
+      // IVRCall field -> path in the provider payload, overriding the adapter defaults
+      fieldMapping: {
+        type: Map,
+        of: String
+      },
+      lastPulledAt: Date,
+      lastPullError: String
+    },
+    // Enquiry SLA targets (in hours)
+    enquirySla: {
+      firstResponseHours: {
+        type: Number,
+        min: 1,
+        default: 24
+      },
+      resolutionHours: {
+        type: Number,
+        min: 1,
+        default: 72
+      }
+    },
+    // Missed-call callback target (in minutes after the missed call)
+    callbackSla: {
+      dueMinutes: {
+        type: Number,
+        min: 5,
+        default: 120
       }
     },
     seo: {
@@ -925,6 +1064,12 @@ const StoreSchema = new mongoose.Schema({
   },
 
   // Business Information
+  // Business description as shown on Google (GMB allows up to 750 characters)
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 750
+  },
   primaryCategory: {
     type: String,
     trim: true
@@ -995,6 +1140,10 @@ const StoreSchema = new mongoose.Schema({
       type: String,
       trim: true
     },
+    aboutSection: {
+      type: String,
+      trim: true
+    },
     gmbUrl: {
       type: String,
       trim: true
@@ -1254,7 +1403,51 @@ const EnquirySchema = new mongoose.Schema({
     trim: true
   },
   respondedAt: Date,
-  respondedBy: String
+  respondedBy: String,
+
+  // Assignment
+  assignedTo: {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    name: String,
+    email: String,
+    role: String
+  },
+  assignedAt: Date,
+  assignedBy: String,
+
+  // SLA tracking (deadlines are stamped from brand settings at creation)
+  sla: {
+    firstResponseDueAt: Date,
+    resolutionDueAt: Date
+  },
+  firstResponseAt: Date,
+  resolvedAt: Date,
+
+  // Append-only status history
+  statusHistory: [{
+    fromStatus: {
+      type: String,
+      enum: ['new', 'in-progress', 'resolved', 'closed']
+    },
+    toStatus: {
+      type: String,
+      enum: ['new', 'in-progress', 'resolved', 'closed'],
+      required: true
+    },
+    changedBy: {
+      type: String,
+      required: true
+    },
+    changedByName: String,
+    note: String,
+    changedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
 }, {
   timestamps: true
 })
@@ -1265,6 +1458,172 @@ EnquirySchema.index({ brandId: 1 })
 EnquirySchema.index({ status: 1 })
 EnquirySchema.index({ createdAt: -1 })
 EnquirySchema.index({ email: 1 })
+EnquirySchema.index({ 'assignedTo.userId': 1 })
+EnquirySchema.index({ 'sla.firstResponseDueAt': 1 })
+EnquirySchema.index({ 'sla.resolutionDueAt': 1 })
+
+// Scheduled Post Schema - queue of GMB posts waiting to be published
+const ScheduledPostSchema = new mongoose.Schema({
+  // Target location in accounts/{accountId}/locations/{locationId} form
+  locationName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  gmbAccountId: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  },
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand'
+  },
+
+  // Payload passed to GmbApiServerService.createPost as-is
+  postData: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+
+  scheduledFor: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'publishing', 'published', 'failed', 'cancelled'],
+    default: 'scheduled'
+  },
+
+  // Retry bookkeeping
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  nextAttemptAt: Date,
+  lockedAt: Date,
+  // Lease of the worker holding the lock; a worker whose lock was reclaimed can't record a result
+  lockToken: String,
+  // Set just before each call to GMB. A later attempt first looks for a post created since
+  // then, because an attempt that timed out or whose worker died may have published it.
+  publishAttemptedAt: Date,
+  lastError: String,
+
+  // Result
+  gmbPostId: String,
+  publishedAt: Date,
+
+  createdBy: {
+    userId: String,
+    name: String,
+    email: String
+  },
+  cancelledAt: Date,
+  cancelledBy: String
+}, {
+  timestamps: true
+})
+
+ScheduledPostSchema.index({ status: 1, nextAttemptAt: 1 })
+ScheduledPostSchema.index({ brandId: 1, scheduledFor: 1 })
+ScheduledPostSchema.index({ gmbAccountId: 1 })
+
+// Post Campaign Schema - one post fanned out to many store locations
+const PostCampaignSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+
+  // How the target stores were chosen
+  selection: {
+    mode: {
+      type: String,
+      enum: ['brand', 'city', 'state', 'tag', 'stores'],
+      default: 'brand'
+    },
+    cities: [String],
+    states: [String],
+    tags: [String],
+    storeIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Store'
+    }]
+  },
+
+  // Payload passed to GmbApiServerService.createPost for every store
+  postData: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+
+  status: {
+    type: String,
+    enum: ['draft', 'running', 'completed', 'partial', 'failed'],
+    default: 'draft'
+  },
+
+  // Per-store results
+  targets: [{
+    storeId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Store',
+      required: true
+    },
+    storeName: String,
+    locationName: String,
+    status: {
+      type: String,
+      enum: ['pending', 'published', 'failed', 'skipped'],
+      default: 'pending'
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    gmbPostId: String,
+    error: String,
+    // Set just before each publish attempt. A retry first looks for a post created since
+    // then, because a timed-out attempt may still have been published.
+    lastAttemptAt: Date,
+    publishedAt: Date
+  }],
+
+  totals: {
+    targeted: { type: Number, default: 0 },
+    published: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 }
+  },
+
+  createdBy: {
+    userId: String,
+    name: String,
+    email: String
+  },
+  startedAt: Date,
+  completedAt: Date
+}, {
+  timestamps: true
+})
+
+PostCampaignSchema.index({ brandId: 1, createdAt: -1 })
+PostCampaignSchema.index({ status: 1 })
 
 // Define TypeScript interfaces for better typing
 export interface IBrand extends mongoose.Document {
@@ -1322,11 +1681,9 @@ export interface IBrand extends mongoose.Document {
   users: {
     owner: {
       email: string
-      password: string
     }
     manager?: {
       email?: string
-      password?: string
     }
   }
   settings?: {
@@ -1346,6 +1703,35 @@ export interface IBrand extends mongoose.Document {
     notifications?: {
       reviews?: boolean
       posts?: boolean
+      enquiries?: boolean
+      syncFailures?: boolean
+      verification?: boolean
+      weeklyReport?: boolean
+      negativeReviewMaxRating?: number
+    }
+    ivrIngestion?: {
+      secret?: string
+      secretRotatedAt?: Date
+    }
+    ivrProvider?: {
+      name?: IvrProviderName
+      mode?: IvrIngestionSource
+      pullUrl?: string
+      credentials?: {
+        apiKey?: string
+        username?: string
+        password?: string
+      }
+      fieldMapping?: Map<string, string> | Record<string, string>
+      lastPulledAt?: Date
+      lastPullError?: string
+    }
+    enquirySla?: {
+      firstResponseHours?: number
+      resolutionHours?: number
+    }
+    callbackSla?: {
+      dueMinutes?: number
     }
     seo?: {
       title?: string
@@ -1383,6 +1769,7 @@ export interface IStore extends mongoose.Document {
     latitude?: number
     longitude?: number
   }
+  description?: string
   primaryCategory?: string
   additionalCategories?: string[]
   tags?: string[]
@@ -1401,6 +1788,7 @@ export interface IStore extends mongoose.Document {
   }
   microsite?: {
     tagline?: string
+    aboutSection?: string
     gmbUrl?: string
     mapsUrl?: string
     heroImage?: {
@@ -1492,6 +1880,28 @@ export interface IEnquiry extends mongoose.Document {
   response?: string
   respondedAt?: Date
   respondedBy?: string
+  assignedTo?: {
+    userId?: mongoose.Types.ObjectId
+    name?: string
+    email?: string
+    role?: string
+  }
+  assignedAt?: Date
+  assignedBy?: string
+  sla?: {
+    firstResponseDueAt?: Date
+    resolutionDueAt?: Date
+  }
+  firstResponseAt?: Date
+  resolvedAt?: Date
+  statusHistory?: Array<{
+    fromStatus?: 'new' | 'in-progress' | 'resolved' | 'closed'
+    toStatus: 'new' | 'in-progress' | 'resolved' | 'closed'
+    changedBy: string
+    changedByName?: string
+    note?: string
+    changedAt: Date
+  }>
   createdAt: Date
   updatedAt: Date
 }
@@ -1570,6 +1980,7 @@ export interface IPost extends mongoose.Document {
   clickCount?: number
   status: 'active' | 'archived' | 'deleted'
   source: 'gmb' | 'manual' | 'imported'
+  campaignId?: mongoose.Types.ObjectId
   createdAt: Date
   updatedAt: Date
 }
@@ -1603,6 +2014,10 @@ export interface IPerformance extends mongoose.Document {
   mobileSearchImpressions?: number
   desktopMapsImpressions?: number
   mobileMapsImpressions?: number
+  dailyMetrics?: Array<{
+    date: { year: number; month: number; day: number }
+    metrics: { [metric: string]: number | undefined }
+  }>
   conversionRate?: number
   clickThroughRate?: number
   source: 'gmb' | 'manual' | 'calculated'
@@ -1649,11 +2064,82 @@ export interface IIVRCall extends mongoose.Document {
   duration?: number
   conversationDuration?: number
   ringDuration?: number
+  dedupeKey?: string
   status: 'active' | 'archived' | 'deleted'
   createdAt: Date
   updatedAt: Date
 }
 
+export interface IScheduledPost extends mongoose.Document {
+  locationName: string
+  gmbAccountId: string
+  storeId?: mongoose.Types.ObjectId
+  brandId?: mongoose.Types.ObjectId
+  postData: GmbPostInput
+  scheduledFor: Date
+  status: 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled'
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt?: Date
+  lockedAt?: Date
+  lockToken?: string
+  publishAttemptedAt?: Date
+  lastError?: string
+  gmbPostId?: string
+  publishedAt?: Date
+  createdBy?: {
+    userId?: string
+    name?: string
+    email?: string
+  }
+  cancelledAt?: Date
+  cancelledBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type PostCampaignTargetStatus = 'pending' | 'published' | 'failed' | 'skipped'
+
+export interface IPostCampaign extends mongoose.Document {
+  name: string
+  brandId: mongoose.Types.ObjectId
+  selection: {
+    mode: 'brand' | 'city' | 'state' | 'tag' | 'stores'
+    cities?: string[]
+    states?: string[]
+    tags?: string[]
+    storeIds?: mongoose.Types.ObjectId[]
+  }
+  postData: GmbPostInput
+  status: 'draft' | 'running' | 'completed' | 'partial' | 'failed'
+  targets: Array<{
+    storeId: mongoose.Types.ObjectId
+    storeName?: string
+    locationName?: string
+    status: PostCampaignTargetStatus
+    attempts: number
+    gmbPostId?: string
+    error?: string
+    lastAttemptAt?: Date
+    publishedAt?: Date
+  }>
+  totals: {
+    targeted: number
+    published: number
+    failed: number
+    skipped: number
+  }
+  createdBy?: {
+    userId?: string
+    name?: string
+    email?: string
+  }
+  startedAt?: Date
+  completedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
 // Export models with proper typing
 export const Brand = (mongoose.models.Brand as mongoose.Model<IBrand>) || mongoose.model<IBrand>('Brand', BrandSchema)
 export const Store = (mongoose.models.Store as mongoose.Model<IStore>) || mongoose.model<IStore>('Store', StoreSchema)
@@ -1665,4 +2151,6 @@ export const Post = (mongoose.models.Post as mongoose.Model<IPost>) || mongoose.
 export const Performance = (mongoose.models.Performance as mongoose.Model<IPerformance>) || mongoose.model<IPerformance>('Performance', PerformanceSchema)
 export const SearchKeyword = (mongoose.models.SearchKeyword as mongoose.Model<ISearchKeyword>) || mongoose.model<ISearchKeyword>('SearchKeyword', SearchKeywordSchema)
 export const IVRCall = (mongoose.models.IVRCall as mongoose.Model<IIVRCall>) || mongoose.model<IIVRCall>('IVRCall', IVRCallSchema)
+export const ScheduledPost = (mongoose.models.ScheduledPost as mongoose.Model<IScheduledPost>) || mongoose.model<IScheduledPost>('ScheduledPost', ScheduledPostSchema)
+export const PostCampaign = (mongoose.models.PostCampaign as mongoose.Model<IPostCampaign>) || mongoose.model<IPostCampaign>('PostCampaign', PostCampaignSchema)
 
@@ -0,0 +1,238 @@
+import mongoose from 'mongoose'
+import { decryptToken, encryptToken } from '@/lib/utils/token-encryption'
+
+export const NOTIFICATION_EVENTS = ['negative_review', 'new_enquiry', 'sync_failed', 'verification_changed', 'post_failed', 'weekly_report', 'review_escalated'] as const
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number]
+
+// Adapters in lib/services/notification-channels.ts
+export const NOTIFICATION_CHANNELS = ['email', 'webhook'] as const
+
+export type NotificationChannelName = typeof NOTIFICATION_CHANNELS[number]
+
+// Instant: one message per event. Digest: a daily summary of the day's events.
+export const NOTIFICATION_DELIVERY_MODES = ['instant', 'digest'] as const
+
+export type NotificationDeliveryMode = typeof NOTIFICATION_DELIVERY_MODES[number]
+
+export const NOTIFICATION_DELIVERY_STATUSES = ['pending', 'sending', 'sent', 'failed'] as const
+
+export type NotificationDeliveryStatus = typeof NOTIFICATION_DELIVERY_STATUSES[number]
+
+// Keep notifications and their deliveries for 90 days
+const NOTIFICATION_TTL_SECONDS = 90 * 24 * 60 * 60
+
+// Notification Recipient Schema - Who hears about a brand's events, over which channel and how often
+const NotificationRecipientSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  // Empty: events of every store of the brand, plus brand-wide events such as failed syncs
+  storeIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  }],
+  name: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  channel: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS,
+    required: true
+  },
+  // Email address or webhook URL
+  target: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // HMAC secret for signing webhook deliveries, encrypted at rest
+  webhookSecret: {
+    type: String,
+    select: false,
+    set: encryptToken,
+    get: decryptToken
+  },
+  events: [{
+    type: String,
+    enum: NOTIFICATION_EVENTS
+  }],
+  mode: {
+    type: String,
+    enum: NOTIFICATION_DELIVERY_MODES,
+    default: 'instant'
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  lastDigestAt: Date,
+
+  createdBy: {
+    userId: String,
+    name: String,
+    email: String
+  }
+}, {
+  timestamps: true,
+  toJSON: { getters: true },
+  toObject: { getters: true }
+})
+
+NotificationRecipientSchema.index({ brandId: 1, isActive: 1 })
+
+export interface INotificationRecipient extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  storeIds: mongoose.Types.ObjectId[]
+  name?: string
+  channel: NotificationChannelName
+  target: string
+  webhookSecret?: string
+  events: NotificationEvent[]
+  mode: NotificationDeliveryMode
+  isActive: boolean
+  lastDigestAt?: Date
+  createdBy?: {
+    userId?: string
+    name?: string
+    email?: string
+  }
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const NotificationRecipient = (mongoose.models.NotificationRecipient as mongoose.Model<INotificationRecipient>) || mongoose.model<INotificationRecipient>('NotificationRecipient', NotificationRecipientSchema)
+
+// Notification Schema - One event worth telling a brand about
+const NotificationSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  },
+  event: {
+    type: String,
+    enum: NOTIFICATION_EVENTS,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  // Dashboard link for the event
+  url: String,
+  // Event details passed on to webhooks
+  data: mongoose.Schema.Types.Mixed,
+  // Identity of the underlying change so retried triggers don't notify twice
+  dedupeKey: String,
+  recipientCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+})
+
+NotificationSchema.index({ brandId: 1, createdAt: -1 })
+NotificationSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true })
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_TTL_SECONDS })
+
+export interface INotification extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  storeId?: mongoose.Types.ObjectId
+  event: NotificationEvent
+  title: string
+  message: string
+  url?: string
+  data?: Record<string, unknown>
+  dedupeKey?: string
+  recipientCount: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const Notification = (mongoose.models.Notification as mongoose.Model<INotification>) || mongoose.model<INotification>('Notification', NotificationSchema)
+
+// Notification Delivery Schema - A notification on its way to one recipient
+const NotificationDeliverySchema = new mongoose.Schema({
+  notificationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Notification',
+    required: true
+  },
+  recipientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'NotificationRecipient',
+    required: true
+  },
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  channel: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS,
+    required: true
+  },
+  mode: {
+    type: String,
+    enum: NOTIFICATION_DELIVERY_MODES,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: NOTIFICATION_DELIVERY_STATUSES,
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  nextAttemptAt: Date,
+  lockedAt: Date,
+  lastError: String,
+  sentAt: Date
+}, {
+  timestamps: true
+})
+
+NotificationDeliverySchema.index({ status: 1, mode: 1, nextAttemptAt: 1 })
+NotificationDeliverySchema.index({ recipientId: 1, status: 1 })
+NotificationDeliverySchema.index({ notificationId: 1 })
+NotificationDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_TTL_SECONDS })
+
+export interface INotificationDelivery extends mongoose.Document {
+  notificationId: mongoose.Types.ObjectId
+  recipientId: mongoose.Types.ObjectId
+  brandId: mongoose.Types.ObjectId
+  channel: NotificationChannelName
+  mode: NotificationDeliveryMode
+  status: NotificationDeliveryStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt?: Date
+  lockedAt?: Date
+  lastError?: string
+  sentAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const NotificationDelivery = (mongoose.models.NotificationDelivery as mongoose.Model<INotificationDelivery>) || mongoose.model<INotificationDelivery>('NotificationDelivery', NotificationDeliverySchema)
@@ -0,0 +1,154 @@
+import mongoose from 'mongoose'
+
+// Tracked Keyword Schema - a search term we check rankings for on a schedule
+const TrackedKeywordSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  // Optional - brand-level keywords have no store
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  },
+
+  keyword: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Where the search is run from, e.g. "Koramangala, Bangalore, India"
+  location: {
+    type: String,
+    trim: true
+  },
+  device: {
+    type: String,
+    enum: ['desktop', 'mobile'],
+    default: 'mobile'
+  },
+
+  // What counts as "us" in the results
+  targetDomain: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  targetName: {
+    type: String,
+    trim: true
+  },
+
+  frequency: {
+    type: String,
+    enum: ['daily', 'weekly'],
+    default: 'daily'
+  },
+  status: {
+    type: String,
+    enum: ['active', 'paused'],
+    default: 'active'
+  },
+
+  // Denormalised from the latest checks for the keyword table
+  latestPosition: Number,
+  latestLocalPackPosition: Number,
+  previousPosition: Number,
+  bestPosition: Number,
+  lastCheckedAt: Date,
+  nextCheckAt: Date,
+  lastError: String,
+
+  createdBy: String
+}, {
+  timestamps: true
+})
+
+TrackedKeywordSchema.index({ brandId: 1, storeId: 1 })
+TrackedKeywordSchema.index({ status: 1, nextCheckAt: 1 })
+TrackedKeywordSchema.index({ brandId: 1, storeId: 1, keyword: 1, location: 1, device: 1 }, { unique: true })
+
+// Rank Check Schema - one row per keyword per check (rank history)
+const RankCheckSchema = new mongoose.Schema({
+  trackedKeywordId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TrackedKeyword',
+    required: true
+  },
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  },
+  keyword: {
+    type: String,
+    required: true
+  },
+
+  // Organic position (1-based); absent when not in the checked depth
+  position: Number,
+  localPackPosition: Number,
+  url: String,
+  serpFeatures: [String],
+  totalResults: Number,
+
+  provider: {
+    type: String,
+    required: true
+  },
+  checkedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+})
+
+RankCheckSchema.index({ trackedKeywordId: 1, checkedAt: -1 })
+RankCheckSchema.index({ brandId: 1, checkedAt: -1 })
+
+export interface ITrackedKeyword extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  storeId?: mongoose.Types.ObjectId
+  keyword: string
+  location?: string
+  device: 'desktop' | 'mobile'
+  targetDomain?: string
+  targetName?: string
+  frequency: 'daily' | 'weekly'
+  status: 'active' | 'paused'
+  latestPosition?: number
+  latestLocalPackPosition?: number
+  previousPosition?: number
+  bestPosition?: number
+  lastCheckedAt?: Date
+  nextCheckAt?: Date
+  lastError?: string
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface IRankCheck extends mongoose.Document {
+  trackedKeywordId: mongoose.Types.ObjectId
+  brandId: mongoose.Types.ObjectId
+  storeId?: mongoose.Types.ObjectId
+  keyword: string
+  position?: number
+  localPackPosition?: number
+  url?: string
+  serpFeatures?: string[]
+  totalResults?: number
+  provider: string
+  checkedAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const TrackedKeyword = (mongoose.models.TrackedKeyword as mongoose.Model<ITrackedKeyword>) || mongoose.model<ITrackedKeyword>('TrackedKeyword', TrackedKeywordSchema)
+export const RankCheck = (mongoose.models.RankCheck as mongoose.Model<IRankCheck>) || mongoose.model<IRankCheck>('RankCheck', RankCheckSchema)
@@ -0,0 +1,365 @@
+import mongoose from 'mongoose'
+
+// Reply Template Schema - Brand-scoped review replies with {{variables}}
+const ReplyTemplateSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+
+  // Alternative wordings; one is picked at random so replies aren't identical
+  variants: {
+    type: [{ type: String, trim: true, maxlength: 1000 }],
+    validate: {
+      validator: (variants: string[]) => variants.length > 0 && variants.length <= 10,
+      message: 'A template needs between 1 and 10 variants'
+    }
+  },
+
+  // Star ratings the template is offered for
+  minRating: {
+    type: Number,
+    min: 1,
+    max: 5,
+    default: 1
+  },
+  maxRating: {
+    type: Number,
+    min: 1,
+    max: 5,
+    default: 5
+  },
+
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+
+  // Replies posted from this template
+  usageCount: {
+    type: Number,
+    default: 0
+  },
+  lastUsedAt: Date,
+
+  createdBy: {
+    userId: String,
+    name: String,
+    email: String
+  }
+}, {
+  timestamps: true
+})
+
+ReplyTemplateSchema.index({ brandId: 1, isActive: 1, name: 1 })
+
+export interface IReplyTemplate extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  name: string
+  variants: string[]
+  minRating: number
+  maxRating: number
+  isActive: boolean
+  usageCount: number
+  lastUsedAt?: Date
+  createdBy?: {
+    userId?: string
+    name?: string
+    email?: string
+  }
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const ReplyTemplate = (mongoose.models.ReplyTemplate as mongoose.Model<IReplyTemplate>) || mongoose.model<IReplyTemplate>('ReplyTemplate', ReplyTemplateSchema)
+
+export const AUTO_REPLY_ACTIONS = ['reply', 'escalate', 'skip'] as const
+
+export type AutoReplyActionType = typeof AUTO_REPLY_ACTIONS[number]
+
+export const AUTO_REPLY_COMMENT_CONDITIONS = ['any', 'with_comment', 'without_comment'] as const
+
+export type AutoReplyCommentCondition = typeof AUTO_REPLY_COMMENT_CONDITIONS[number]
+
+export const AUTO_REPLY_STATUSES = ['scheduled', 'posting', 'posted', 'failed', 'cancelled', 'escalated', 'skipped'] as const
+
+export type AutoReplyStatus = typeof AUTO_REPLY_STATUSES[number]
+
+// Auto-Reply Rule Schema - What to do with new reviews; the first matching rule by priority wins
+const AutoReplyRuleSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  // Lower numbers are checked first
+  priority: {
+    type: Number,
+    default: 100
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+
+  conditions: {
+    minRating: { type: Number, min: 1, max: 5, default: 1 },
+    maxRating: { type: Number, min: 1, max: 5, default: 5 },
+    comment: { type: String, enum: AUTO_REPLY_COMMENT_CONDITIONS, default: 'any' },
+    // Empty: every store of the brand
+    storeIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Store' }]
+  },
+
+  // "skip" matches the review but never replies to it, so later rules don't either
+  action: {
+    type: String,
+    enum: AUTO_REPLY_ACTIONS,
+    required: true
+  },
+  templateId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ReplyTemplate'
+  },
+  // Wait this long after the review was posted before replying
+  delayMinutes: {
+    type: Number,
+    min: 0,
+    max: 7 * 24 * 60,
+    default: 0
+  },
+
+  createdBy: {
+    userId: String,
+    name: String,
+    email: String
+  }
+}, {
+  timestamps: true
+})
+
+AutoReplyRuleSchema.index({ brandId: 1, isActive: 1, priority: 1 })
+
+export interface IAutoReplyRule extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  name: string
+  priority: number
+  isActive: boolean
+  conditions: {
+    minRating: number
+    maxRating: number
+    comment: AutoReplyCommentCondition
+    storeIds: mongoose.Types.ObjectId[]
+  }
+  action: AutoReplyActionType
+  templateId?: mongoose.Types.ObjectId
+  delayMinutes: number
+  createdBy?: {
+    userId?: string
+    name?: string
+    email?: string
+  }
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const AutoReplyRule = (mongoose.models.AutoReplyRule as mongoose.Model<IAutoReplyRule>) || mongoose.model<IAutoReplyRule>('AutoReplyRule', AutoReplyRuleSchema)
+
+// Auto-Reply Action Schema - The rule that fired for a review (audit) and the queued reply
+const AutoReplyActionSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  reviewId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Review',
+    required: true
+  },
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  },
+  accountId: String,
+
+  // Snapshot of the rule, which may be edited or deleted later
+  ruleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'AutoReplyRule',
+    required: true
+  },
+  ruleName: {
+    type: String,
+    required: true
+  },
+  action: {
+    type: String,
+    enum: AUTO_REPLY_ACTIONS,
+    required: true
+  },
+
+  templateId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ReplyTemplate'
+  },
+  replyText: String,
+
+  status: {
+    type: String,
+    enum: AUTO_REPLY_STATUSES,
+    required: true
+  },
+  scheduledFor: Date,
+  nextAttemptAt: Date,
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  lockedAt: Date,
+  lastError: String,
+  postedAt: Date,
+  cancelledAt: Date,
+  cancelledBy: String,
+  cancelReason: String
+}, {
+  timestamps: true
+})
+
+// A review is only ever acted on once
+AutoReplyActionSchema.index({ reviewId: 1 }, { unique: true })
+AutoReplyActionSchema.index({ status: 1, nextAttemptAt: 1 })
+AutoReplyActionSchema.index({ brandId: 1, createdAt: -1 })
+
+export interface IAutoReplyAction extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  reviewId: mongoose.Types.ObjectId
+  storeId?: mongoose.Types.ObjectId
+  accountId?: string
+  ruleId: mongoose.Types.ObjectId
+  ruleName: string
+  action: AutoReplyActionType
+  templateId?: mongoose.Types.ObjectId
+  replyText?: string
+  status: AutoReplyStatus
+  scheduledFor?: Date
+  nextAttemptAt?: Date
+  attempts: number
+  maxAttempts: number
+  lockedAt?: Date
+  lastError?: string
+  postedAt?: Date
+  cancelledAt?: Date
+  cancelledBy?: string
+  cancelReason?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const AutoReplyAction = (mongoose.models.AutoReplyAction as mongoose.Model<IAutoReplyAction>) || mongoose.model<IAutoReplyAction>('AutoReplyAction', AutoReplyActionSchema)
+
+// approving: claimed by an owner whose reply is being posted to GMB
+export const REPLY_DRAFT_STATUSES = ['pending', 'approving', 'approved', 'rejected', 'withdrawn'] as const
+
+export type ReplyDraftStatus = typeof REPLY_DRAFT_STATUSES[number]
+
+// Reply Draft Schema - A reply written by someone who may not post it, waiting for an owner's approval
+const ReplyDraftSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  reviewId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Review',
+    required: true
+  },
+  storeId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Store'
+  },
+  comment: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 1000
+  },
+  templateId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ReplyTemplate'
+  },
+  status: {
+    type: String,
+    enum: REPLY_DRAFT_STATUSES,
+    default: 'pending'
+  },
+  author: {
+    userId: { type: String, required: true },
+    name: String,
+    email: String
+  },
+
+  // Approver or rejecter
+  reviewedBy: {
+    userId: String,
+    name: String,
+    email: String
+  },
+  reviewedAt: Date,
+  // Set when the approver changed the text before posting
+  postedComment: String,
+  rejectionReason: {
+    type: String,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+})
+
+// At most one pending draft per review; saving again updates it
+ReplyDraftSchema.index({ reviewId: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } })
+ReplyDraftSchema.index({ brandId: 1, status: 1, createdAt: -1 })
+ReplyDraftSchema.index({ reviewId: 1, updatedAt: -1 })
+
+export interface IReplyDraft extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  reviewId: mongoose.Types.ObjectId
+  storeId?: mongoose.Types.ObjectId
+  comment: string
+  templateId?: mongoose.Types.ObjectId
+  status: ReplyDraftStatus
+  author: {
+    userId: string
+    name?: string
+    email?: string
+  }
+  reviewedBy?: {
+    userId?: string
+    name?: string
+    email?: string
+  }
+  reviewedAt?: Date
+  postedComment?: string
+  rejectionReason?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const ReplyDraft = (mongoose.models.ReplyDraft as mongoose.Model<IReplyDraft>) || mongoose.model<IReplyDraft>('ReplyDraft', ReplyDraftSchema)
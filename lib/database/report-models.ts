@@ -0,0 +1,68 @@
+import mongoose from 'mongoose'
+
+export const BRAND_REPORT_STATUSES = ['generated', 'sent', 'failed'] as const
+
+export type BrandReportStatus = typeof BRAND_REPORT_STATUSES[number]
+
+// Brand Report Schema - Archived weekly performance digest of a brand, with its rendered HTML and PDF
+const BrandReportSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  // Monday 00:00 UTC of the reported week; the week ends the following Monday
+  weekStart: {
+    type: Date,
+    required: true
+  },
+  weekEnd: {
+    type: Date,
+    required: true
+  },
+  // Figures the report was rendered from, including the previous week's for the deltas
+  metrics: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  html: {
+    type: String,
+    select: false
+  },
+  pdf: {
+    type: Buffer,
+    select: false
+  },
+  status: {
+    type: String,
+    enum: BRAND_REPORT_STATUSES,
+    default: 'generated'
+  },
+  emailedTo: [String],
+  emailedAt: Date,
+  lastError: String,
+  // "schedule" for the weekly job, otherwise the email of the user who generated it
+  generatedBy: String
+}, {
+  timestamps: true
+})
+
+BrandReportSchema.index({ brandId: 1, weekStart: -1 }, { unique: true })
+
+export interface IBrandReport extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  weekStart: Date
+  weekEnd: Date
+  metrics: Record<string, any>
+  html?: string
+  pdf?: Buffer
+  status: BrandReportStatus
+  emailedTo: string[]
+  emailedAt?: Date
+  lastError?: string
+  generatedBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const BrandReport = (mongoose.models.BrandReport as mongoose.Model<IBrandReport>) || mongoose.model<IBrandReport>('BrandReport', BrandReportSchema)
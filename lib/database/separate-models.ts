@@ -216,6 +216,12 @@ const PostSchema = new mongoose.Schema({
     type: String,
     enum: ['gmb', 'manual', 'imported'],
     default: 'gmb'
+  },
+
+  // Multi-store campaign this post was published from
+  campaignId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PostCampaign'
   }
 }, {
   timestamps: true
@@ -338,6 +344,28 @@ const PerformanceSchema = new mongoose.Schema({
     default: 0
   },
   
+  // Per-day breakdown from the GMB time series API, in the location's local dates
+  dailyMetrics: [{
+    _id: false,
+    date: {
+      year: Number,
+      month: Number,
+      day: Number
+    },
+    metrics: {
+      callClicks: Number,
+      websiteClicks: Number,
+      directionRequests: Number,
+      businessBookings: Number,
+      businessFoodOrders: Number,
+      businessMessages: Number,
+      desktopSearchImpressions: Number,
+      mobileSearchImpressions: Number,
+      desktopMapsImpressions: Number,
+      mobileMapsImpressions: Number
+    }
+  }],
+  
   // Conversion Rates (calculated)
   conversionRate: {
     type: Number,
@@ -454,6 +482,7 @@ PostSchema.index({ 'gmbCreateTime': -1 })
 PostSchema.index({ state: 1 })
 PostSchema.index({ topicType: 1 })
 PostSchema.index({ status: 1 })
+PostSchema.index({ campaignId: 1 })
 
 // Create indexes for Performance model
 PerformanceSchema.index({ storeId: 1 })
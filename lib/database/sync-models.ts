@@ -0,0 +1,52 @@
+import mongoose from 'mongoose'
+
+export const SYNC_WATERMARK_DATA_TYPES = ['reviews', 'posts', 'performance'] as const
+
+export type SyncWatermarkDataType = typeof SYNC_WATERMARK_DATA_TYPES[number]
+
+// Sync Watermark Schema - How far a location's data of one type has been synced, so the next sync only fetches what changed
+const SyncWatermarkSchema = new mongoose.Schema({
+  brandId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Brand',
+    required: true
+  },
+  // GMB location name (accounts/{accountId}/locations/{locationId})
+  locationId: {
+    type: String,
+    required: true
+  },
+  dataType: {
+    type: String,
+    enum: SYNC_WATERMARK_DATA_TYPES,
+    required: true
+  },
+  // Reviews and posts: newest gmbUpdateTime seen. Performance: last day GMB reported metrics for.
+  lastSeenAt: Date,
+  lastSyncedAt: Date,
+  // Full fetches ignore the watermark and pick up edits and deletions incremental ones can miss
+  lastFullSyncAt: Date,
+  lastItemCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+})
+
+SyncWatermarkSchema.index({ locationId: 1, dataType: 1 }, { unique: true })
+SyncWatermarkSchema.index({ brandId: 1 })
+
+export interface ISyncWatermark extends mongoose.Document {
+  brandId: mongoose.Types.ObjectId
+  locationId: string
+  dataType: SyncWatermarkDataType
+  lastSeenAt?: Date
+  lastSyncedAt?: Date
+  lastFullSyncAt?: Date
+  lastItemCount: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const SyncWatermark = (mongoose.models.SyncWatermark as mongoose.Model<ISyncWatermark>) || mongoose.model<ISyncWatermark>('SyncWatermark', SyncWatermarkSchema)
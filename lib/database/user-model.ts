@@ -1,5 +1,6 @@
 import mongoose from 'mongoose'
 import bcrypt from 'bcryptjs'
+import { decryptToken, encryptToken } from '@/lib/utils/token-encryption'
 
 // User Role Types
 export type UserRole = 'super_admin' | 'owner' | 'manager'
@@ -55,16 +56,29 @@ const UserSchema = new mongoose.Schema({
   lastLoginAt: {
     type: Date
   },
-  // GMB tokens (optional - for GMB integration)
+  // Carried in session tokens; bumped to sign the user out everywhere
+  sessionVersion: {
+    type: Number,
+    default: 0
+  },
+  // GMB tokens (optional - for GMB integration), encrypted at rest and decrypted on read
   gmbTokens: {
-    access_token: String,
-    refresh_token: String,
+    access_token: { type: String, set: encryptToken, get: decryptToken },
+    refresh_token: { type: String, set: encryptToken, get: decryptToken },
     expires_at: Date
   }
 }, {
   timestamps: true
 })
 
+// Sessions issued before a password, role, brand or status change stop working
+UserSchema.pre('save', function(next) {
+  if (!this.isNew && this.isModified('password role brandId status')) {
+    this.sessionVersion = (this.sessionVersion || 0) + 1
+  }
+  next()
+})
+
 // Hash password before saving
 UserSchema.pre('save', async function(next) {
   if (!this.isModified('password')) {
@@ -106,6 +120,7 @@ export interface IUser extends mongoose.Document {
   profilePicture?: string
   status: 'active' | 'inactive' | 'suspended'
   lastLoginAt?: Date
+  sessionVersion: number
   gmbTokens?: {
     access_token?: string
     refresh_token?: string
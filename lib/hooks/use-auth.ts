@@ -119,15 +119,15 @@ export function useAuth() {
     if (role === 'owner') {
       return [
         'view_stores', 'create_store', 'edit_store', 'delete_store',
-        'view_reviews', 'reply_review',
+        'view_reviews', 'reply_review', 'draft_reply',
         'view_posts', 'create_post', 'edit_post', 'delete_post',
         'edit_brand'
       ].includes(action)
     }
 
-    // Manager permissions (view only)
+    // Manager permissions (view only, plus reply drafts for approval)
     if (role === 'manager') {
-      return ['view_stores', 'view_reviews', 'view_posts', 'view_brand'].includes(action)
+      return ['view_stores', 'view_reviews', 'draft_reply', 'view_posts', 'view_brand'].includes(action)
     }
 
     return false
@@ -0,0 +1,50 @@
+"use client"
+
+import useSWR from 'swr'
+import type { CompetitiveContext } from '@/lib/services/competitive-context-service'
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+interface UseCompetitiveContextReturn {
+  data: Record<string, CompetitiveContext>
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook to fetch per-location competitive context, keyed by GMB location id
+ */
+export function useCompetitiveContext(filters: {
+  brandId?: string
+  days?: number
+} = {}): UseCompetitiveContextReturn {
+  const params = new URLSearchParams()
+  if (filters.brandId) params.append('brandId', filters.brandId)
+  if (filters.days) params.append('days', filters.days.toString())
+
+  const { data, error, isLoading, mutate } = useSWR(
+    `/api/performance/competitive?${params.toString()}`,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      refreshInterval: 0
+    }
+  )
+
+  const locationData: Record<string, CompetitiveContext> = {}
+  if (data?.success && data.data) {
+    data.data.forEach((item: CompetitiveContext) => {
+      if (item.gmbLocationId) {
+        locationData[item.gmbLocationId] = item
+      }
+    })
+  }
+
+  return {
+    data: locationData,
+    isLoading,
+    error: error || (data?.success === false ? data.error : null),
+    refresh: async () => { await mutate() }
+  }
+}
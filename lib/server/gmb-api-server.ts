@@ -82,6 +82,30 @@ export interface GmbPost {
   searchUrl?: string
 }
 
+// A post to create, as scheduled posts and campaigns store it
+export interface GmbPostInput {
+  topicType: 'STANDARD' | 'EVENT' | 'OFFER' | 'PRODUCT'
+  languageCode: string
+  summary: string
+  callToAction?: {
+    actionType: string
+    url?: string
+  }
+  event?: {
+    title: string
+    schedule: {
+      startDate: { year: number; month: number; day: number }
+      startTime?: { hours?: number; minutes?: number }
+      endDate?: { year: number; month: number; day: number }
+      endTime?: { hours?: number; minutes?: number; seconds?: number }
+    }
+  }
+  media?: Array<{
+    mediaFormat: string
+    sourceUrl: string
+  }>
+}
+
 export interface GmbInsights {
   locationId: string
   period: {
@@ -150,6 +174,40 @@ export interface GmbDailyMetricsTimeSeries {
   }>
 }
 
+export type GmbMetricTotals = Pick<GmbInsights,
+  'views' | 'actions' | 'callClicks' | 'websiteClicks' | 'directionRequests' |
+  'desktopSearchImpressions' | 'mobileSearchImpressions' | 'desktopMapsImpressions' | 'mobileMapsImpressions'>
+
+/**
+ * Totals of daily metrics, skipping values that aren't plausible counts
+ */
+export function totalDailyMetrics(dailyMetrics: Array<Pick<GmbDailyMetrics, 'metrics'>>): GmbMetricTotals {
+  const total = (key: string) => dailyMetrics.reduce((sum, day) => {
+    const value = Number(day.metrics?.[key]) || 0
+    return value < 0 || value > 1000000 ? sum : sum + value
+  }, 0)
+
+  const callClicks = total('callClicks')
+  const websiteClicks = total('websiteClicks')
+  const directionRequests = total('directionRequests')
+  const desktopSearchImpressions = total('desktopSearchImpressions')
+  const mobileSearchImpressions = total('mobileSearchImpressions')
+  const desktopMapsImpressions = total('desktopMapsImpressions')
+  const mobileMapsImpressions = total('mobileMapsImpressions')
+
+  return {
+    views: desktopSearchImpressions + mobileSearchImpressions + desktopMapsImpressions + mobileMapsImpressions,
+    actions: websiteClicks + callClicks + directionRequests,
+    callClicks,
+    websiteClicks,
+    directionRequests,
+    desktopSearchImpressions,
+    mobileSearchImpressions,
+    desktopMapsImpressions,
+    mobileMapsImpressions
+  }
+}
+
 export class GmbApiServerService {
   private authClient: any
 
@@ -552,7 +610,11 @@ export class GmbApiServerService {
     }
   }
 
-  async getReviews(locationName: string): Promise<GmbReview[]> {
+  /**
+   * Reviews of a location. With `updatedAfter` only reviews created or
+   * changed since then are returned, and paging stops at the first older one.
+   */
+  async getReviews(locationName: string, options: { updatedAfter?: Date } = {}): Promise<GmbReview[]> {
     try {
     
       // Validate and parse locationName
@@ -601,6 +663,7 @@ export class GmbApiServerService {
             const url = new URL(baseUrl)
             url.searchParams.set('pageSize', String(pageSize))
             if (pageToken) url.searchParams.set('pageToken', pageToken)
+            if (options.updatedAfter) url.searchParams.set('orderBy', 'updateTime desc')
   
             const reviewsUrl = url.toString()
            
@@ -614,7 +677,10 @@ export class GmbApiServerService {
               const data = await response.json()
              
               const pageReviews = Array.isArray(data.reviews) ? data.reviews : []
-              allReviews = allReviews.concat(pageReviews)
+              const freshReviews = options.updatedAfter
+                ? pageReviews.filter((review: any) => new Date(review.updateTime) > options.updatedAfter!)
+                : pageReviews
+              allReviews = allReviews.concat(freshReviews)
   
               // Google sometimes uses nextPageToken; fallback to nextPageToken || nextToken
               pageToken = data.nextPageToken || data.nextToken || undefined
@@ -622,6 +688,8 @@ export class GmbApiServerService {
               // Mark success and break if no further pages
               successfulEndpoint = baseUrl
               if (!pageToken) break
+              // Newest first: everything after an already-synced review was synced too
+              if (freshReviews.length < pageReviews.length) break
               // otherwise loop to next page
             } else {
               // non-2xx status
@@ -636,8 +704,10 @@ export class GmbApiServerService {
               allErrors.push(error)
               console.warn(`GMB Reviews API Error for ${locationName} at ${reviewsUrl}:`, response.status, errorText)
   
-              // If 403/404, try next endpoint; otherwise also try next endpoint
-             
+              // If 403/404, try next endpoint; otherwise also try next endpoint.
+              // Pages already read are dropped so a partial list never passes as complete.
+              successfulEndpoint = null
+              break
             }
           } // end pagination loop
   
@@ -794,15 +864,18 @@ export class GmbApiServerService {
     }
   }
 
-  async getPosts(locationName: string): Promise<GmbPost[]> {
+  /**
+   * Posts of a location. With `updatedAfter` only posts created or changed
+   * since then are returned, and paging stops at the first page without any.
+   */
+  async getPosts(locationName: string, options: { updatedAfter?: Date } = {}): Promise<GmbPost[]> {
     try {
       
       // Extract account ID and location ID from locationName 
       // Format: accounts/112022557985287772374/locations/1234567890
       const pathParts = locationName.split('/')
       if (pathParts.length !== 4 || pathParts[0] !== 'accounts' || pathParts[2] !== 'locations') {
-        console.error(`Invalid location name format: ${locationName}. Expected format: accounts/{accountId}/locations/{locationId}`)
-        return []
+        throw new Error(`Invalid location name format: ${locationName}. Expected format: accounts/{accountId}/locations/{locationId}`)
       }
       
       const accountId = pathParts[1]
@@ -813,27 +886,43 @@ export class GmbApiServerService {
       // Format: accounts/{accountId}/locations/{locationId}/localPosts
       const postsUrl = `https://mybusiness.googleapis.com/v4/accounts/${accountId}/locations/${locationId}/localPosts`
      
-      
-      const response = await this.makeRequest(postsUrl, {
-        headers: {
-          'Authorization': `Bearer ${this.authClient.credentials.access_token}`
-        }
-      })
+      let posts: any[] = []
+      let pageToken: string | undefined = undefined
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.warn(`GMB Posts API Error for ${locationName}:`, response.status, errorText)
-        
-        // If API returns 403/404, posts API may not be available for this account
-        if (response.status === 403 || response.status === 404) {
-           return []
+      do {
+        const url = new URL(postsUrl)
+        url.searchParams.set('pageSize', '100')
+        if (pageToken) url.searchParams.set('pageToken', pageToken)
+
+        const response = await this.makeRequest(url.toString(), {
+          headers: {
+            'Authorization': `Bearer ${this.authClient.credentials.access_token}`
+          }
+        })
+
+        if (!response.ok) {
+          const errorText = await response.text()
+          console.warn(`GMB Posts API Error for ${locationName}:`, response.status, errorText)
+          
+          // If API returns 403/404, posts API may not be available for this account
+          if (response.status === 403 || response.status === 404) {
+             return []
+          }
+          
+          throw new Error(`HTTP error! status: ${response.status} - ${errorText}`)
         }
-        
-        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`)
-      }
 
-      const data = await response.json()
-       const posts = data.localPosts || []
+        const data = await response.json()
+        const pagePosts: any[] = data.localPosts || []
+        const freshPosts = options.updatedAfter
+          ? pagePosts.filter(post => new Date(post.updateTime) > options.updatedAfter!)
+          : pagePosts
+        posts = posts.concat(freshPosts)
+
+        // Posts come newest first but can't be ordered by update time, so
+        // only a page with nothing new ends an incremental fetch early
+        pageToken = freshPosts.length > 0 ? data.nextPageToken : undefined
+      } while (pageToken)
       
       return posts.map((post: any) => ({
         id: post.name || `post-${Date.now()}-${Math.random()}`,
@@ -855,32 +944,12 @@ export class GmbApiServerService {
       }))
     } catch (error) {
       console.error(`Error fetching posts for ${locationName}:`, error)
-      return []
+      // Thrown rather than returned as no posts, so callers can't take a failed fetch for an empty one
+      throw error
     }
   }
 
-  async createPost(locationName: string, postData: {
-    topicType: 'STANDARD' | 'EVENT' | 'OFFER' | 'PRODUCT'
-    languageCode: string
-    summary: string
-    callToAction?: {
-      actionType: string
-      url?: string
-    }
-    event?: {
-      title: string
-      schedule: {
-        startDate: { year: number; month: number; day: number }
-        startTime?: { hours?: number; minutes?: number }
-        endDate?: { year: number; month: number; day: number }
-        endTime?: { hours?: number; minutes?: number; seconds?: number }
-      }
-    }
-    media?: Array<{
-      mediaFormat: string
-      sourceUrl: string
-    }>
-  }): Promise<GmbPost | null> {
+  async createPost(locationName: string, postData: GmbPostInput): Promise<GmbPost | null> {
     try {
       // Extract account ID and location ID from locationName 
       const pathParts = locationName.split('/')
@@ -1144,6 +1213,9 @@ async getInsights(locationName: string, startDate: string, endDate: string): Pro
     let desktopSearchImpressionsSeries = null
     let mobileMapsImpressionsSeries = null
 
+    // Why the metrics couldn't be fetched, when they couldn't
+    let fetchError: unknown = null
+
     // Primary approach: Multi-daily metrics API
     try {
       // Start with core metrics that are most commonly supported
@@ -1160,6 +1232,7 @@ async getInsights(locationName: string, startDate: string, endDate: string): Pro
       
     } catch (error) {
       console.warn('Multi-daily metrics API failed, trying individual metrics:', error)
+      fetchError = error
     }
 
     // Fallback approach: Individual time series
@@ -1268,6 +1341,11 @@ async getInsights(locationName: string, startDate: string, endDate: string): Pro
       }
     }
 
+    // A failed request isn't reported as a location without activity
+    if (dailyMetrics.length === 0 && fetchError) {
+      throw fetchError
+    }
+
     // If we still have no data, create a minimal insights object with zeros
     if (dailyMetrics.length === 0) {
       return {
@@ -1296,34 +1374,6 @@ async getInsights(locationName: string, startDate: string, endDate: string): Pro
       }
     }
 
-    // Aggregate the daily metrics into totals
-    let totalWebsiteClicks = 0
-    let totalCallClicks = 0
-    let totalDirectionRequests = 0
-    let totalDesktopSearchImpressions = 0
-    let totalMobileSearchImpressions = 0
-    let totalDesktopMapsImpressions = 0
-    let totalMobileMapsImpressions = 0
-
-    dailyMetrics.forEach(metric => {
-      // Safely add values, filtering out NaN and astronomical numbers
-      const safeAdd = (current: number, value: any) => {
-        const num = Number(value) || 0
-        return (isNaN(num) || num < 0 || num > 1000000) ? current : current + num
-      }
-      
-      totalWebsiteClicks = safeAdd(totalWebsiteClicks, metric.metrics.websiteClicks)
-      totalCallClicks = safeAdd(totalCallClicks, metric.metrics.callClicks)
-      totalDirectionRequests = safeAdd(totalDirectionRequests, metric.metrics.directionRequests)
-      totalDesktopSearchImpressions = safeAdd(totalDesktopSearchImpressions, metric.metrics.desktopSearchImpressions)
-      totalMobileSearchImpressions = safeAdd(totalMobileSearchImpressions, metric.metrics.mobileSearchImpressions)
-      totalDesktopMapsImpressions = safeAdd(totalDesktopMapsImpressions, metric.metrics.desktopMapsImpressions)
-      totalMobileMapsImpressions = safeAdd(totalMobileMapsImpressions, metric.metrics.mobileMapsImpressions)
-    })
-
-    // Calculate total views from impressions
-    const totalViews = totalDesktopSearchImpressions + totalMobileSearchImpressions + totalDesktopMapsImpressions + totalMobileMapsImpressions
-
     // Create insights object with new API data
     const insights: GmbInsights = {
       locationId: locationName,
@@ -1332,19 +1382,11 @@ async getInsights(locationName: string, startDate: string, endDate: string): Pro
         endTime: endDate
       },
       queries: 0, // Not available in new API
-      views: totalViews,
-      actions: totalWebsiteClicks + totalCallClicks + totalDirectionRequests,
       photoViews: 0, // Not available in new API
-      callClicks: totalCallClicks,
-      websiteClicks: totalWebsiteClicks,
-      directionRequests: totalDirectionRequests,
       businessBookings: 0, // Not available in current API
       businessFoodOrders: 0, // Not available in current API
       businessMessages: 0, // Not available in current API
-      desktopSearchImpressions: totalDesktopSearchImpressions,
-      mobileSearchImpressions: totalMobileSearchImpressions,
-      desktopMapsImpressions: totalDesktopMapsImpressions,
-      mobileMapsImpressions: totalMobileMapsImpressions,
+      ...totalDailyMetrics(dailyMetrics),
       // Include raw data for debugging
       dailyMetrics,
       websiteClicksSeries,
@@ -1356,31 +1398,7 @@ async getInsights(locationName: string, startDate: string, endDate: string): Pro
     return insights
   } catch (error) {
     console.error(`Error fetching insights for ${locationName}:`, error)
-    // Return a minimal insights object instead of null to ensure data consistency
-    return {
-      locationId: locationName,
-      period: {
-        startTime: startDate,
-        endTime: endDate
-      },
-      queries: 0,
-      views: 0,
-      actions: 0,
-      photoViews: 0,
-      callClicks: 0,
-      websiteClicks: 0,
-      directionRequests: 0,
-      businessBookings: 0,
-      businessFoodOrders: 0,
-      businessMessages: 0,
-      desktopSearchImpressions: 0,
-      mobileSearchImpressions: 0,
-      desktopMapsImpressions: 0,
-      mobileMapsImpressions: 0,
-      dailyMetrics: [],
-      websiteClicksSeries: null,
-      callClicksSeries: null
-    }
+    throw error
   }
 }
 
@@ -1747,7 +1765,7 @@ async getMultiDailyMetricsTimeSeries(
 
   } catch (error) {
     console.error(`Error fetching multi daily metrics for ${locationName}:`, error)
-    return []
+    throw error
   }
 }
 
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { PdfDocument } from './pdf-writer'
+
+describe('PdfDocument', () => {
+  it('embeds fonts for Latin, Indian scripts and the rupee sign', async () => {
+    const pdf = new PdfDocument()
+    pdf.text(40, 40, 'Café – “Weekly” report ₹500')
+    pdf.text(40, 60, 'मुंबई Store, Śivājī Nagar', { bold: true })
+    pdf.text(40, 80, 'சென்னை')
+
+    const output = (await pdf.toBuffer()).toString('latin1')
+    expect(output.startsWith('%PDF-')).toBe(true)
+    const fonts = new Set(output.match(/\/BaseFont \/[A-Z]{6}\+[\w-]+/g))
+    // Regular: Latin, Latin Extended (₹) and Tamil. Bold: Latin, Latin Extended (Ś, ā) and Devanagari.
+    expect(fonts.size).toBe(6)
+    expect(Array.from(fonts, font => font.split('+')[1]).sort()).toEqual([
+      'NotoSans-Bold', 'NotoSans-Bold', 'NotoSans-Bold', 'NotoSans-Regular', 'NotoSans-Regular', 'NotoSansTamil-Regular'
+    ])
+    expect(pdf.replacedCharacters).toEqual([])
+  })
+
+  it('prints "?" for characters no font has and lists them', async () => {
+    const pdf = new PdfDocument()
+    pdf.text(40, 40, 'Great service 😀👍 😀')
+
+    expect(pdf.replacedCharacters).toEqual(['😀', '👍'])
+    // Measuring alone doesn't count as printing
+    pdf.textWidth('🎉')
+    expect(pdf.replacedCharacters).toEqual(['😀', '👍'])
+    expect(pdf.textWidth('😀')).toBe(pdf.textWidth('?'))
+  })
+})
@@ -0,0 +1,210 @@
+// Server-side only: PDF writer for generated reports (text, lines and boxes), on pdfkit with
+// Noto Sans fonts embedded so store names and reviews in Indian and other scripts print as written
+import fs from 'fs'
+import path from 'path'
+import * as fontkit from 'fontkit'
+import PDFDocument from 'pdfkit'
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595.28
+export const PDF_PAGE_HEIGHT = 841.89
+
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  color?: PdfColor
+  // Right: x is where the text ends
+  align?: 'left' | 'right'
+}
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@fontsource')
+
+// Fontsource splits each family by script. For every character the first of these with a glyph for it is used.
+const FONT_SUBSETS = [
+  'noto-sans/files/noto-sans-latin',
+  'noto-sans/files/noto-sans-latin-ext',
+  'noto-sans/files/noto-sans-greek',
+  'noto-sans/files/noto-sans-greek-ext',
+  'noto-sans/files/noto-sans-cyrillic',
+  'noto-sans/files/noto-sans-cyrillic-ext',
+  'noto-sans/files/noto-sans-vietnamese',
+  'noto-sans/files/noto-sans-devanagari',
+  'noto-sans-bengali/files/noto-sans-bengali-bengali',
+  'noto-sans-gujarati/files/noto-sans-gujarati-gujarati',
+  'noto-sans-gurmukhi/files/noto-sans-gurmukhi-gurmukhi',
+  'noto-sans-kannada/files/noto-sans-kannada-kannada',
+  'noto-sans-malayalam/files/noto-sans-malayalam-malayalam',
+  'noto-sans-oriya/files/noto-sans-oriya-oriya',
+  'noto-sans-tamil/files/noto-sans-tamil-tamil',
+  'noto-sans-telugu/files/noto-sans-telugu-telugu'
+]
+
+// Printed for characters none of the fonts has, such as emoji
+export const PDF_REPLACEMENT_CHARACTER = '?'
+
+interface FontFace {
+  name: string
+  data: Buffer
+  font: fontkit.Font
+}
+
+const fontFaces: Partial<Record<'regular' | 'bold', FontFace[]>> = {}
+
+function loadFaces(bold: boolean): FontFace[] {
+  const weight = bold ? 'bold' : 'regular'
+  fontFaces[weight] ??= FONT_SUBSETS.map((subset, index) => {
+    const data = fs.readFileSync(path.join(FONT_DIR, `${subset}-${bold ? 700 : 400}-normal.woff`))
+    return { name: `${weight}-${index}`, data, font: fontkit.create(data) as fontkit.Font }
+  })
+  return fontFaces[weight]!
+}
+
+// Joiners and variation selectors belong to the characters around them, whatever the font
+const FORMAT_CHARACTER = /[\u200c\u200d\ufe00-\ufe0f]/
+
+function covers(face: FontFace, grapheme: string): boolean {
+  return Array.from(grapheme).every(char => FORMAT_CHARACTER.test(char) || face.font.hasGlyphForCodePoint(char.codePointAt(0)!))
+}
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+
+export class PdfDocument {
+  private document = new PDFDocument({ size: [PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT], margin: 0 })
+  private pages = 1
+  private replaced = new Set<string>()
+
+  constructor() {
+    for (const face of [...loadFaces(false), ...loadFaces(true)]) {
+      this.document.registerFont(face.name, face.data)
+    }
+  }
+
+  get pageCount(): number {
+    return this.pages
+  }
+
+  /**
+   * Characters no font could show, which were printed as PDF_REPLACEMENT_CHARACTER
+   */
+  get replacedCharacters(): string[] {
+    return Array.from(this.replaced)
+  }
+
+  addPage() {
+    this.document.addPage({ size: [PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT], margin: 0 })
+    this.pages++
+  }
+
+  /**
+   * Split text into runs of one font each. A run keeps its font for as
+   * long as that font has the glyphs, so scripts are shaped as a whole.
+   */
+  private runs(value: string, bold: boolean, record: boolean = false): Array<{ face: FontFace; text: string }> {
+    const faces = loadFaces(bold)
+    const runs: Array<{ face: FontFace; text: string }> = []
+
+    for (const { segment } of graphemes.segment(value)) {
+      const last = runs[runs.length - 1]
+      if (last && covers(last.face, segment)) {
+        last.text += segment
+        continue
+      }
+
+      let face = faces.find(candidate => covers(candidate, segment))
+      let text = segment
+      if (!face) {
+        if (record) this.replaced.add(segment)
+        face = faces[0]
+        text = PDF_REPLACEMENT_CHARACTER
+      }
+
+      if (last && last.face === face) last.text += text
+      else runs.push({ face, text })
+    }
+    return runs
+  }
+
+  private runWidth(run: { face: FontFace; text: string }, size: number): number {
+    return this.document.font(run.face.name).fontSize(size).widthOfString(run.text)
+  }
+
+  /**
+   * Width of the text in points
+   */
+  textWidth(value: string, size: number = 10, bold: boolean = false): number {
+    return this.runs(value, bold).reduce((sum, run) => sum + this.runWidth(run, size), 0)
+  }
+
+  /**
+   * Cut the text to fit the width, ending it with an ellipsis
+   */
+  fit(value: string, width: number, size: number = 10, bold: boolean = false): string {
+    if (this.textWidth(value, size, bold) <= width) return value
+    const parts = Array.from(graphemes.segment(value), ({ segment }) => segment)
+    let end = parts.length
+    while (end > 0 && this.textWidth(`${parts.slice(0, end).join('')}…`, size, bold) > width) end--
+    return `${parts.slice(0, end).join('')}…`
+  }
+
+  /**
+   * Lines of at most `width` points, broken at spaces
+   */
+  wrap(value: string, width: number, size: number = 10, bold: boolean = false): string[] {
+    const lines: string[] = []
+    let line = ''
+    for (const word of value.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && this.textWidth(candidate, size, bold) > width) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    if (line) lines.push(line)
+    return lines.map(text => this.fit(text, width, size, bold))
+  }
+
+  /**
+   * Draw text with its baseline at y, measured from the top of the page
+   */
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}) {
+    const size = options.size || 10
+    const runs = this.runs(value, Boolean(options.bold), true)
+    const widths = runs.map(run => this.runWidth(run, size))
+    let left = options.align === 'right' ? x - widths.reduce((sum, width) => sum + width, 0) : x
+
+    this.document.fillColor(colorValue(options.color || [0, 0, 0]))
+    runs.forEach((run, index) => {
+      this.document.font(run.face.name).fontSize(size).text(run.text, left, y, { lineBreak: false, baseline: 'alphabetic' })
+      left += widths[index]
+    })
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0.8, 0.8, 0.8], width: number = 0.5) {
+    this.document.moveTo(x1, y1).lineTo(x2, y2).lineWidth(width).strokeColor(colorValue(color)).stroke()
+  }
+
+  /**
+   * Filled box with its top-left corner at (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, color: PdfColor) {
+    this.document.rect(x, y, width, height).fill(colorValue(color))
+  }
+
+  toBuffer(): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      this.document.on('data', (chunk: Buffer) => chunks.push(chunk))
+      this.document.on('end', () => resolve(Buffer.concat(chunks)))
+      this.document.on('error', reject)
+      this.document.end()
+    })
+  }
+}
+
+function colorValue(color: PdfColor): [number, number, number] {
+  return color.map(part => Math.round(part * 255)) as [number, number, number]
+}
@@ -0,0 +1,58 @@
+import dns from 'dns'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { fetchPublicUrl, isPrivateAddress, publicUrlError, UnsafeUrlError } from './public-fetch'
+
+describe('publicUrlError', () => {
+  it.each([
+    'https://api.example.com/calls',
+    'https://203.0.113.10/calls',
+    'https://[2001:4860:4860::8888]/calls',
+  ])('accepts %s', url => {
+    expect(publicUrlError(url)).toBeNull()
+  })
+
+  it.each([
+    ['http://api.example.com/calls', 'URL must use https'],
+    ['file:///etc/passwd', 'URL must use https'],
+    ['not a url', 'URL is invalid'],
+    ['https://localhost/calls', 'URL must point to a public host'],
+    ['https://app.localhost/calls', 'URL must point to a public host'],
+    ['https://127.0.0.1/calls', 'URL must point to a public host'],
+    ['https://10.1.2.3/calls', 'URL must point to a public host'],
+    ['https://172.16.0.1/calls', 'URL must point to a public host'],
+    ['https://192.168.1.1/calls', 'URL must point to a public host'],
+    ['https://169.254.169.254/latest/meta-data', 'URL must point to a public host'],
+    ['https://0x7f000001/calls', 'URL must point to a public host'],
+    ['https://[::1]/calls', 'URL must point to a public host'],
+    ['https://[::ffff:127.0.0.1]/calls', 'URL must point to a public host'],
+    ['https://[fe80::1]/calls', 'URL must point to a public host'],
+    ['https://[fd00::1]/calls', 'URL must point to a public host'],
+  ])('rejects %s', (url, reason) => {
+    expect(publicUrlError(url)).toBe(reason)
+  })
+})
+
+describe('isPrivateAddress', () => {
+  it('treats anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('example.com')).toBe(true)
+  })
+})
+
+describe('fetchPublicUrl', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('refuses private URLs before connecting', async () => {
+    await expect(fetchPublicUrl('https://127.0.0.1/')).rejects.toBeInstanceOf(UnsafeUrlError)
+    await expect(fetchPublicUrl('http://example.com/')).rejects.toBeInstanceOf(UnsafeUrlError)
+  })
+
+  it('refuses hosts that resolve to private addresses', async () => {
+    vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+      callback(null, [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }])
+    }) as any)
+
+    await expect(fetchPublicUrl('https://rebind.example.com/')).rejects.toBeInstanceOf(UnsafeUrlError)
+  })
+})
@@ -0,0 +1,139 @@
+// Server-side only: requests to URLs that users configure (IVR pull URLs, notification webhooks).
+// Only https to public hosts is allowed, so a configured URL can't reach internal services.
+import dns from 'dns'
+import https from 'https'
+import net from 'net'
+
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 rules.
+const BLOCKED_ADDRESSES = new net.BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+export interface PublicFetchInit {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs?: number
+}
+
+/**
+ * Raised when a URL, or the address its host resolves to, is not public
+ */
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsafeUrlError'
+  }
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (!family) return true
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Reason a URL may not be requested, or null. Only checks what the URL itself
+ * says; hosts are checked again when they resolve.
+ */
+export function publicUrlError(value: string | URL): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'URL is invalid'
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'URL must use https'
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && isPrivateAddress(host))) {
+    return 'URL must point to a public host'
+  }
+
+  return null
+}
+
+// Resolves like dns.lookup but refuses hosts with any non-public address, so
+// the address connected to is the one that was checked
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new UnsafeUrlError(`${hostname} does not resolve to a public address`), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/**
+ * fetch() for user-configured URLs. Redirects are not followed; they come
+ * back as 3xx responses.
+ */
+export function fetchPublicUrl(input: string | URL, init: PublicFetchInit = {}): Promise<Response> {
+  const reason = publicUrlError(input)
+  if (reason) {
+    return Promise.reject(new UnsafeUrlError(reason))
+  }
+
+  const url = new URL(input)
+
+  return new Promise((resolve, reject) => {
+    const request = https.request(url, {
+      method: init.method || 'GET',
+      headers: init.headers,
+      lookup: publicOnlyLookup
+    }, response => {
+      const chunks: Buffer[] = []
+      let size = 0
+
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > MAX_RESPONSE_BYTES) {
+          request.destroy(new Error(`Response from ${url.host} is too large`))
+          return
+        }
+        chunks.push(chunk)
+      })
+      response.on('error', reject)
+      response.on('end', () => {
+        const headers = new Headers()
+        for (const [name, value] of Object.entries(response.headers)) {
+          for (const item of Array.isArray(value) ? value : value !== undefined ? [value] : []) {
+            headers.append(name, item)
+          }
+        }
+
+        const status = response.statusCode || 502
+        resolve(new Response([204, 205, 304].includes(status) ? null : Buffer.concat(chunks), {
+          status,
+          statusText: response.statusMessage,
+          headers
+        }))
+      })
+    })
+
+    if (init.timeoutMs) {
+      request.setTimeout(init.timeoutMs, () => {
+        request.destroy(new Error(`Request to ${url.host} timed out`))
+      })
+    }
+    request.on('error', reject)
+    request.end(init.body)
+  })
+}
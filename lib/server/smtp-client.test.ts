@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import nodemailer from 'nodemailer'
+import { sendSmtpMail, smtpConfigFromEnv } from './smtp-client'
+
+const envWith = (values: Record<string, string>) => ({ NODE_ENV: 'test', ...values }) as NodeJS.ProcessEnv
+
+describe('smtpConfigFromEnv', () => {
+  it('needs a host and a sender', () => {
+    expect(smtpConfigFromEnv(envWith({ SMTP_HOST: 'smtp.example.com' }))).toBeNull()
+  })
+
+  it('defaults the port from SMTP_SECURE', () => {
+    const env = envWith({ SMTP_HOST: 'smtp.example.com', SMTP_FROM: 'alerts@example.com' })
+    expect(smtpConfigFromEnv(env)?.port).toBe(587)
+    expect(smtpConfigFromEnv({ ...env, SMTP_SECURE: 'true' })?.port).toBe(465)
+  })
+})
+
+describe('sendSmtpMail', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('sends through a nodemailer transport and closes it', async () => {
+    const sendMail = vi.fn(async () => ({}))
+    const close = vi.fn()
+    const createTransport = vi.spyOn(nodemailer, 'createTransport').mockReturnValue({ sendMail, close } as any)
+
+    await sendSmtpMail(
+      { host: 'smtp.example.com', port: 587, user: 'mailer', password: 'secret', from: 'Alerts <alerts@example.com>' },
+      {
+        to: ['owner@example.com'],
+        subject: 'Weekly report',
+        text: 'Hello',
+        attachments: [{ filename: 'report.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF') }]
+      }
+    )
+
+    expect(createTransport).toHaveBeenCalledWith(expect.objectContaining({
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      auth: { user: 'mailer', pass: 'secret' },
+      tls: { rejectUnauthorized: true }
+    }))
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      from: 'Alerts <alerts@example.com>',
+      to: ['owner@example.com'],
+      subject: 'Weekly report',
+      attachments: [expect.objectContaining({ filename: 'report.pdf', contentType: 'application/pdf' })]
+    }))
+    expect(close).toHaveBeenCalled()
+  })
+
+  it('refuses messages without recipients', async () => {
+    await expect(sendSmtpMail({ host: 'smtp.example.com', port: 587, from: 'alerts@example.com' }, { to: [], subject: 's', text: 't' }))
+      .rejects.toThrow('Email has no recipients')
+  })
+})
@@ -0,0 +1,88 @@
+// Server-side only: SMTP email (notifications and reports) through nodemailer
+import nodemailer from 'nodemailer'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  // Implicit TLS (usually port 465). Otherwise STARTTLS is used when the server offers it.
+  secure?: boolean
+  user?: string
+  password?: string
+  from: string
+  // Accept self-signed certificates, for local mail sinks
+  allowInvalidCertificates?: boolean
+  timeoutMs?: number
+}
+
+export interface SmtpAttachment {
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+export interface SmtpMessage {
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+  attachments?: SmtpAttachment[]
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+/**
+ * SMTP settings from the environment, or null when email is not configured:
+ * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM
+ */
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) return null
+
+  const secure = env.SMTP_SECURE === 'true'
+  return {
+    host: env.SMTP_HOST,
+    port: parseInt(env.SMTP_PORT || '') || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.SMTP_FROM,
+    allowInvalidCertificates: env.SMTP_ALLOW_INVALID_CERTS === 'true'
+  }
+}
+
+/**
+ * Send one message over SMTP
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage): Promise<void> {
+  if (message.to.length === 0) {
+    throw new Error('Email has no recipients')
+  }
+
+  const timeout = config.timeoutMs || DEFAULT_TIMEOUT_MS
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: Boolean(config.secure),
+    auth: config.user ? { user: config.user, pass: config.password || '' } : undefined,
+    tls: { rejectUnauthorized: !config.allowInvalidCertificates },
+    connectionTimeout: timeout,
+    greetingTimeout: timeout,
+    socketTimeout: timeout
+  })
+
+  try {
+    await transport.sendMail({
+      from: config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content
+      }))
+    })
+  } finally {
+    transport.close()
+  }
+}
@@ -0,0 +1,567 @@
+import mongoose from 'mongoose'
+import { Brand, IReview, Review, Store } from '@/lib/database/models'
+import {
+  AutoReplyAction,
+  AutoReplyActionType,
+  AutoReplyRule,
+  IAutoReplyAction,
+  IAutoReplyRule,
+  IReplyTemplate,
+  ReplyTemplate
+} from '@/lib/database/reply-models'
+import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { GoogleTokens } from '@/lib/server/google-oauth-server'
+import { NotificationService } from './notification-service'
+import { ScheduledPostService } from './scheduled-post-service'
+import { ReplyTemplateService, matchesRating, pickVariant, renderTemplate } from './reply-template-service'
+
+// Reviews older than this when first seen are history (e.g. a first sync), not something to auto-reply to
+export const MAX_REVIEW_AGE_DAYS = 14
+
+export const DEFAULT_DRY_RUN_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+// First retry after 5 minutes, then 10, 20, ...
+const RETRY_BASE_MS = 5 * 60 * 1000
+// A reply stuck in "posting" this long is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000
+
+type RuleLike = Pick<IAutoReplyRule, 'name' | 'priority' | 'conditions' | 'action' | 'templateId' | 'delayMinutes'> & {
+  _id: mongoose.Types.ObjectId
+}
+
+type ReviewLike = Pick<IReview, 'reviewer' | 'starRating' | 'comment' | 'gmbCreateTime' | 'hasResponse' | 'accountId' | 'gmbReviewId'> & {
+  _id: mongoose.Types.ObjectId
+  brandId: mongoose.Types.ObjectId
+  storeId: mongoose.Types.ObjectId
+}
+
+type StoreLike = { _id: mongoose.Types.ObjectId; name: string; address?: { city?: string }; gmbLocationId?: string; gmbAccountId?: string }
+
+interface Decision {
+  rule: RuleLike
+  action: AutoReplyActionType
+  templateId?: mongoose.Types.ObjectId
+  replyText?: string
+  scheduledFor?: Date
+  // Why a reply rule could not produce a reply
+  error?: string
+}
+
+export interface QueueResult {
+  evaluated: number
+  scheduled: number
+  escalated: number
+  skipped: number
+  failed: number
+  unmatched: number
+}
+
+export interface ProcessDueRepliesResult {
+  processed: number
+  posted: number
+  retrying: number
+  failed: number
+  cancelled: number
+}
+
+export interface DryRunReview {
+  reviewId: string
+  reviewer: string
+  rating: number
+  comment: string
+  storeName: string
+  reviewedAt: Date
+  hasResponse: boolean
+  ruleId: string | null
+  ruleName: string | null
+  action: AutoReplyActionType | null
+  replyText?: string
+  scheduledFor?: Date
+  error?: string
+}
+
+export interface DryRunResult {
+  days: number
+  totalReviews: number
+  actions: Record<AutoReplyActionType | 'unmatched', number>
+  rules: Array<{ ruleId: string; ruleName: string; action: AutoReplyActionType; matched: number }>
+  // Unanswered reviews the engine would have replied to
+  wouldReply: number
+  reviews: DryRunReview[]
+}
+
+/**
+ * Whether a review meets a rule's rating, comment and store conditions
+ */
+export function ruleMatches(rule: Pick<IAutoReplyRule, 'conditions'>, review: Pick<ReviewLike, 'starRating' | 'comment' | 'storeId'>): boolean {
+  const { conditions } = rule
+  if (!matchesRating({ minRating: conditions.minRating, maxRating: conditions.maxRating }, review.starRating)) return false
+
+  const hasComment = Boolean(review.comment?.trim())
+  if (conditions.comment === 'with_comment' && !hasComment) return false
+  if (conditions.comment === 'without_comment' && hasComment) return false
+
+  if (conditions.storeIds?.length > 0 && !conditions.storeIds.some(id => String(id) === String(review.storeId))) return false
+
+  return true
+}
+
+// GMB IDs are stored both bare and as resource names (accounts/123)
+function lastPart(value: string): string {
+  return value.split('/').pop() || value
+}
+
+/**
+ * GMB resource name of a review: accounts/{accountId}/locations/{locationId}/reviews/{reviewId}
+ */
+export function reviewResourceName(
+  review: Pick<ReviewLike, 'gmbReviewId'>,
+  store: Pick<StoreLike, 'gmbLocationId'> | undefined,
+  accountId: string | undefined
+): string {
+  if (!accountId || !store?.gmbLocationId || !review.gmbReviewId) {
+    throw new Error('Review is missing its GMB account, location or review ID')
+  }
+  return `accounts/${lastPart(accountId)}/locations/${lastPart(store.gmbLocationId)}/reviews/${lastPart(review.gmbReviewId)}`
+}
+
+export class AutoReplyService {
+
+  /**
+   * Active rules of a brand in the order they are checked
+   */
+  static async getRules(brandId: mongoose.Types.ObjectId | string): Promise<RuleLike[]> {
+    return AutoReplyRule.find({ brandId, isActive: true })
+      .sort({ priority: 1, createdAt: 1 })
+      .lean<RuleLike[]>()
+  }
+
+  /**
+   * Why a rule cannot be saved for the brand, or null when it can: replies
+   * need an active template of the brand, and stores must belong to it
+   */
+  static async ruleError(
+    brandId: mongoose.Types.ObjectId | string,
+    rule: { action: AutoReplyActionType; templateId?: string | null; storeIds?: string[] }
+  ): Promise<string | null> {
+    if (rule.action === 'reply') {
+      if (!rule.templateId || !mongoose.Types.ObjectId.isValid(rule.templateId)) {
+        return 'Reply rules need a reply template'
+      }
+      const template = await ReplyTemplate.exists({ _id: rule.templateId, brandId, isActive: true })
+      if (!template) return 'Reply template not found for this brand or inactive'
+    }
+
+    const storeIds = Array.from(new Set(rule.storeIds || []))
+    if (storeIds.length > 0) {
+      if (storeIds.some(id => !mongoose.Types.ObjectId.isValid(id))) return 'Store not found for this brand'
+      const count = await Store.countDocuments({ _id: { $in: storeIds }, brandId })
+      if (count !== storeIds.length) return 'Store not found for this brand'
+    }
+
+    return null
+  }
+
+  /**
+   * First rule matching the review, and what it would do with it
+   */
+  static decide(
+    review: ReviewLike,
+    rules: RuleLike[],
+    templates: Map<string, Pick<IReplyTemplate, 'variants' | 'minRating' | 'maxRating' | 'isActive'>>,
+    store: StoreLike | undefined,
+    now: Date
+  ): Decision | null {
+    const rule = rules.find(candidate => ruleMatches(candidate, review))
+    if (!rule) return null
+
+    if (rule.action !== 'reply') {
+      return { rule, action: rule.action }
+    }
+
+    const template = rule.templateId ? templates.get(String(rule.templateId)) : undefined
+    if (!template || !template.isActive) {
+      return { rule, action: 'reply', templateId: rule.templateId, error: 'Reply template is missing or inactive' }
+    }
+    if (!matchesRating(template, review.starRating)) {
+      return { rule, action: 'reply', templateId: rule.templateId, error: 'Reply template does not cover this star rating' }
+    }
+
+    const reviewedAt = review.gmbCreateTime ? new Date(review.gmbCreateTime) : now
+    const dueAt = new Date(reviewedAt.getTime() + (rule.delayMinutes || 0) * MINUTE_MS)
+
+    return {
+      rule,
+      action: 'reply',
+      templateId: rule.templateId,
+      replyText: renderTemplate(template.variants[pickVariant(template.variants)], ReplyTemplateService.valuesFor(review, store)),
+      scheduledFor: dueAt > now ? dueAt : now
+    }
+  }
+
+  private static async loadContext(rules: RuleLike[], storeIds: mongoose.Types.ObjectId[]) {
+    const templateIds = rules.map(rule => rule.templateId).filter((id): id is mongoose.Types.ObjectId => Boolean(id))
+    const [templates, stores] = await Promise.all([
+      templateIds.length > 0
+        ? ReplyTemplate.find({ _id: { $in: templateIds } })
+          .select('variants minRating maxRating isActive')
+          .lean<Array<Pick<IReplyTemplate, 'variants' | 'minRating' | 'maxRating' | 'isActive'> & { _id: mongoose.Types.ObjectId }>>()
+        : [],
+      Store.find({ _id: { $in: storeIds } })
+        .select('name address.city gmbLocationId gmbAccountId')
+        .lean<StoreLike[]>()
+    ])
+
+    return {
+      templates: new Map(templates.map(template => [String(template._id), template])),
+      stores: new Map(stores.map(store => [String(store._id), store]))
+    }
+  }
+
+  /**
+   * Run a brand's rules over its new, unanswered reviews that no rule has
+   * acted on yet. Replies are queued for posting; escalations and skips are
+   * recorded so the review is not evaluated again.
+   */
+  static async queueNewReviews(brandId: mongoose.Types.ObjectId | string, now: Date = new Date()): Promise<QueueResult> {
+    const result: QueueResult = { evaluated: 0, scheduled: 0, escalated: 0, skipped: 0, failed: 0, unmatched: 0 }
+
+    const rules = await this.getRules(brandId)
+    if (rules.length === 0) return result
+
+    const candidates = await Review.find({
+      brandId,
+      status: 'active',
+      hasResponse: { $ne: true },
+      gmbCreateTime: { $gte: new Date(now.getTime() - MAX_REVIEW_AGE_DAYS * DAY_MS) }
+    })
+      .select('reviewer starRating comment gmbCreateTime hasResponse accountId gmbReviewId brandId storeId')
+      .limit(1000)
+      .lean<ReviewLike[]>()
+    if (candidates.length === 0) return result
+
+    const acted = await AutoReplyAction.find({ reviewId: { $in: candidates.map(review => review._id) } })
+      .select('reviewId')
+      .lean()
+    const actedIds = new Set(acted.map(action => String(action.reviewId)))
+    const reviews = candidates.filter(review => !actedIds.has(String(review._id)))
+
+    const { templates, stores } = await this.loadContext(rules, reviews.map(review => review.storeId))
+
+    const actions: Array<Partial<IAutoReplyAction>> = []
+    const escalations: Array<{ review: ReviewLike; store?: StoreLike; ruleName: string }> = []
+    for (const review of reviews) {
+      result.evaluated++
+      const store = stores.get(String(review.storeId))
+      const decision = this.decide(review, rules, templates, store, now)
+      if (!decision) {
+        result.unmatched++
+        continue
+      }
+
+      const status = decision.error
+        ? 'failed'
+        : decision.action === 'reply' ? 'scheduled' : decision.action === 'escalate' ? 'escalated' : 'skipped'
+      result[status]++
+      if (status === 'escalated') escalations.push({ review, store, ruleName: decision.rule.name })
+
+      actions.push({
+        brandId: review.brandId,
+        reviewId: review._id,
+        storeId: review.storeId,
+        accountId: review.accountId || store?.gmbAccountId,
+        ruleId: decision.rule._id,
+        ruleName: decision.rule.name,
+        action: decision.action,
+        templateId: decision.templateId,
+        replyText: decision.replyText,
+        status,
+        scheduledFor: decision.scheduledFor,
+        nextAttemptAt: decision.scheduledFor,
+        lastError: decision.error
+      })
+    }
+
+    if (actions.length > 0) {
+      try {
+        await AutoReplyAction.insertMany(actions, { ordered: false })
+      } catch (error) {
+        // A concurrent run acted on some of the reviews first
+        if (!(error && typeof error === 'object' && 'code' in error && error.code === 11000)) throw error
+      }
+    }
+
+    // Notifications are deduped per review, so a concurrent run can't send them twice
+    for (const { review, store, ruleName } of escalations) {
+      await NotificationService.reviewEscalated(review, store?.name, ruleName)
+        .catch(error => console.error('Error sending review escalation notification:', error))
+    }
+
+    return result
+  }
+
+  /**
+   * Queue replies for a brand once a sync has stored its latest reviews. The
+   * sync's tokens are kept against the GMB account so replies can be posted
+   * later by the worker.
+   */
+  static async afterSync(brandId: string, accountId: string, tokens: GoogleTokens): Promise<QueueResult | null> {
+    const hasRules = await AutoReplyRule.exists({ brandId, isActive: true })
+    if (!hasRules) return null
+
+    const brand = await Brand.findById(brandId).select('name email').lean()
+    if (brand && accountId) {
+      await ScheduledPostService.saveAccountTokens(lastPart(accountId), tokens, { userId: '', name: brand.name, email: brand.email })
+    }
+
+    return this.queueNewReviews(brandId)
+  }
+
+  /**
+   * Queue replies for every brand with active rules
+   */
+  static async queueAllBrands(): Promise<QueueResult> {
+    const total: QueueResult = { evaluated: 0, scheduled: 0, escalated: 0, skipped: 0, failed: 0, unmatched: 0 }
+
+    const brandIds = await AutoReplyRule.distinct('brandId', { isActive: true })
+    for (const brandId of brandIds) {
+      try {
+        const result = await this.queueNewReviews(brandId)
+        for (const key of Object.keys(total) as Array<keyof QueueResult>) total[key] += result[key]
+      } catch (error) {
+        console.error(`Error queueing auto-replies for brand ${brandId}:`, error)
+      }
+    }
+
+    return total
+  }
+
+  /**
+   * Atomically claim the next due reply so concurrent workers never post twice
+   */
+  private static async claimNext(now: Date): Promise<IAutoReplyAction | null> {
+    return AutoReplyAction.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'scheduled', nextAttemptAt: { $lte: now } },
+          { status: 'posting', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } }
+        ]
+      },
+      {
+        $set: { status: 'posting', lockedAt: now },
+        $inc: { attempts: 1 }
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    )
+  }
+
+  private static async post(action: IAutoReplyAction): Promise<'posted' | 'cancelled'> {
+    const review = await Review.findById(action.reviewId)
+      .select('reviewer starRating comment gmbCreateTime hasResponse accountId gmbReviewId brandId storeId status')
+      .lean<ReviewLike & { status: string }>()
+
+    // Someone replied by hand (or the review went away) while the reply was waiting
+    if (!review || review.status !== 'active' || review.hasResponse) {
+      await AutoReplyAction.updateOne(
+        { _id: action._id },
+        {
+          $set: {
+            status: 'cancelled',
+            cancelledAt: new Date(),
+            cancelledBy: 'system',
+            cancelReason: review ? 'Review was already answered or removed' : 'Review not found'
+          },
+          $unset: { lockedAt: 1, nextAttemptAt: 1 }
+        }
+      )
+      return 'cancelled'
+    }
+
+    const store = await Store.findById(review.storeId).select('name gmbLocationId gmbAccountId').lean<StoreLike>()
+    const accountId = action.accountId || review.accountId || store?.gmbAccountId
+    const reviewName = reviewResourceName(review, store || undefined, accountId)
+
+    const tokens = await ScheduledPostService.getAccountTokens(lastPart(accountId!))
+    const gmbService = new GmbApiServerService(tokens)
+    const replied = await gmbService.replyToReview(reviewName, action.replyText || '')
+    if (!replied) {
+      throw new Error('Failed to post reply to GMB')
+    }
+
+    const postedAt = new Date()
+    await Review.updateOne(
+      { _id: review._id },
+      {
+        hasResponse: true,
+        response: {
+          comment: action.replyText,
+          responseTime: postedAt,
+          respondedBy: 'auto-reply'
+        }
+      }
+    )
+    await AutoReplyAction.updateOne(
+      { _id: action._id },
+      {
+        $set: { status: 'posted', postedAt },
+        $unset: { lockedAt: 1, nextAttemptAt: 1, lastError: 1 }
+      }
+    )
+    if (action.templateId) {
+      await ReplyTemplateService.recordUsage(String(action.templateId), action.brandId)
+    }
+
+    return 'posted'
+  }
+
+  /**
+   * Retry with exponential backoff until maxAttempts, then mark failed
+   */
+  private static async recordFailure(action: IAutoReplyAction, error: unknown, now: Date): Promise<'retrying' | 'failed'> {
+    const message = error instanceof Error ? error.message : String(error)
+
+    if (action.attempts >= action.maxAttempts) {
+      await AutoReplyAction.updateOne(
+        { _id: action._id },
+        {
+          $set: { status: 'failed', lastError: message },
+          $unset: { lockedAt: 1, nextAttemptAt: 1 }
+        }
+      )
+      return 'failed'
+    }
+
+    const delay = RETRY_BASE_MS * Math.pow(2, action.attempts - 1)
+    await AutoReplyAction.updateOne(
+      { _id: action._id },
+      {
+        $set: {
+          status: 'scheduled',
+          lastError: message,
+          nextAttemptAt: new Date(now.getTime() + delay)
+        },
+        $unset: { lockedAt: 1 }
+      }
+    )
+    return 'retrying'
+  }
+
+  /**
+   * Post every queued reply that is due, one at a time, up to `limit`
+   */
+  static async processDueReplies(limit: number = 25): Promise<ProcessDueRepliesResult> {
+    const result: ProcessDueRepliesResult = { processed: 0, posted: 0, retrying: 0, failed: 0, cancelled: 0 }
+
+    while (result.processed < limit) {
+      const now = new Date()
+      const action = await this.claimNext(now)
+      if (!action) break
+
+      result.processed++
+      try {
+        result[await this.post(action)]++
+      } catch (error) {
+        console.error(`Error posting auto-reply ${action._id}:`, error)
+        const outcome = await this.recordFailure(action, error, now)
+        result[outcome]++
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Cancel the replies a rule has queued, when it is switched off or deleted
+   */
+  static async cancelForRule(ruleId: mongoose.Types.ObjectId | string, cancelledBy: string, reason: string): Promise<number> {
+    const result = await AutoReplyAction.updateMany(
+      { ruleId, status: 'scheduled' },
+      {
+        $set: { status: 'cancelled', cancelledAt: new Date(), cancelledBy, cancelReason: reason },
+        $unset: { nextAttemptAt: 1 }
+      }
+    )
+    return result.modifiedCount
+  }
+
+  static async cancel(id: string, cancelledBy: string): Promise<IAutoReplyAction | null> {
+    return AutoReplyAction.findOneAndUpdate(
+      { _id: id, status: 'scheduled' },
+      {
+        $set: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          cancelledBy,
+          cancelReason: 'Cancelled by user'
+        },
+        $unset: { nextAttemptAt: 1 }
+      },
+      { new: true }
+    )
+  }
+
+  /**
+   * Preview what the brand's active rules would have done with every review
+   * of the last `days` days. Nothing is written or posted.
+   */
+  static async dryRun(brandId: string, days: number = DEFAULT_DRY_RUN_DAYS, now: Date = new Date()): Promise<DryRunResult> {
+    const rules = await this.getRules(brandId)
+    const reviews = await Review.find({
+      brandId,
+      status: 'active',
+      gmbCreateTime: { $gte: new Date(now.getTime() - days * DAY_MS) }
+    })
+      .select('reviewer starRating comment gmbCreateTime hasResponse accountId gmbReviewId brandId storeId')
+      .sort({ gmbCreateTime: -1 })
+      .limit(2000)
+      .lean<ReviewLike[]>()
+
+    const { templates, stores } = await this.loadContext(rules, Array.from(new Set(reviews.map(review => review.storeId))))
+
+    const result: DryRunResult = {
+      days,
+      totalReviews: reviews.length,
+      actions: { reply: 0, escalate: 0, skip: 0, unmatched: 0 },
+      rules: rules.map(rule => ({ ruleId: String(rule._id), ruleName: rule.name, action: rule.action, matched: 0 })),
+      wouldReply: 0,
+      reviews: []
+    }
+    const ruleCounts = new Map(result.rules.map(rule => [rule.ruleId, rule]))
+
+    for (const review of reviews) {
+      const store = stores.get(String(review.storeId))
+      // Schedule from the review time, as if the engine had seen it when it came in
+      const reviewedAt = review.gmbCreateTime ? new Date(review.gmbCreateTime) : now
+      const decision = this.decide(review, rules, templates, store, reviewedAt)
+
+      if (decision) {
+        result.actions[decision.action]++
+        ruleCounts.get(String(decision.rule._id))!.matched++
+        if (decision.action === 'reply' && !decision.error && !review.hasResponse) result.wouldReply++
+      } else {
+        result.actions.unmatched++
+      }
+
+      result.reviews.push({
+        reviewId: String(review._id),
+        reviewer: review.reviewer?.displayName || 'Anonymous',
+        rating: review.starRating,
+        comment: review.comment || '',
+        storeName: store?.name || 'Unknown store',
+        reviewedAt,
+        hasResponse: Boolean(review.hasResponse),
+        ruleId: decision ? String(decision.rule._id) : null,
+        ruleName: decision?.rule.name || null,
+        action: decision?.action || null,
+        replyText: decision?.replyText,
+        scheduledFor: decision?.scheduledFor,
+        error: decision?.error
+      })
+    }
+
+    return result
+  }
+}
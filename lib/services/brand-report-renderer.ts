@@ -0,0 +1,290 @@
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PDF_REPLACEMENT_CHARACTER, PdfColor, PdfDocument } from '@/lib/server/pdf-writer'
+import type { StoreScore, WeekFigures, WeeklyReportMetrics } from './brand-report-service'
+
+type DeltaKind = 'count' | 'points' | 'rating'
+
+interface ReportRow {
+  label: string
+  current: number | null
+  previous: number | null
+  kind: DeltaKind
+  // Percent values are shown with a % sign
+  percent?: boolean
+  // A rise is bad news (missed calls, negative sentiment)
+  lowerIsBetter?: boolean
+}
+
+interface ReportSection {
+  title: string
+  rows: ReportRow[]
+}
+
+type Tone = 'up' | 'down' | 'flat'
+
+const TONE_COLORS: Record<Tone, string> = { up: '#15803d', down: '#b91c1c', flat: '#6b7280' }
+const TONE_PDF_COLORS: Record<Tone, PdfColor> = { up: [0.08, 0.5, 0.24], down: [0.73, 0.11, 0.11], flat: [0.42, 0.45, 0.5] }
+
+function buildSections(metrics: WeeklyReportMetrics): ReportSection[] {
+  const row = (
+    label: string,
+    pick: (week: WeekFigures) => number | null,
+    kind: DeltaKind,
+    options: Pick<ReportRow, 'percent' | 'lowerIsBetter'> = {}
+  ): ReportRow => ({ label, kind, current: pick(metrics.current), previous: pick(metrics.previous), ...options })
+
+  const sections: ReportSection[] = [
+    {
+      title: 'Visibility',
+      rows: [
+        row('Impressions', week => week.impressions, 'count'),
+        row('Customer actions', week => week.actions, 'count'),
+        row('Call clicks', week => week.callClicks, 'count'),
+        row('Website clicks', week => week.websiteClicks, 'count'),
+        row('Direction requests', week => week.directionRequests, 'count')
+      ]
+    },
+    {
+      title: 'Reviews',
+      rows: [
+        row('New reviews', week => week.newReviews, 'count'),
+        row('Average rating (new reviews)', week => week.averageRating, 'rating'),
+        row('Response rate (new reviews)', week => week.responseRate, 'points', { percent: true })
+      ]
+    },
+    {
+      title: 'Calls and enquiries',
+      rows: [
+        row('IVR calls', week => week.calls, 'count'),
+        row('Answered calls', week => week.answeredCalls, 'count'),
+        row('Missed calls', week => week.missedCalls, 'count', { lowerIsBetter: true }),
+        row('Answer rate', week => week.answerRate, 'points', { percent: true }),
+        row('New enquiries', week => week.enquiries, 'count')
+      ]
+    }
+  ]
+
+  if (metrics.sentiment) {
+    const previous = metrics.previousSentiment
+    sections.push({
+      title: 'Sentiment (last 7 days)',
+      rows: [
+        { label: 'Positive', current: metrics.sentiment.positive, previous: previous?.positive ?? null, kind: 'points', percent: true },
+        { label: 'Negative', current: metrics.sentiment.negative, previous: previous?.negative ?? null, kind: 'points', percent: true, lowerIsBetter: true },
+        { label: 'Sentiment score (-1 to 1)', current: metrics.sentiment.overallScore, previous: previous?.overallScore ?? null, kind: 'rating' }
+      ]
+    })
+  }
+
+  return sections
+}
+
+function formatValue(value: number | null, row: Pick<ReportRow, 'kind' | 'percent'>): string {
+  if (value === null) return '–'
+  if (row.kind === 'rating') return value.toFixed(2)
+  if (row.percent) return `${value.toFixed(1)}%`
+  return value.toLocaleString('en-US')
+}
+
+/**
+ * Week-over-week change: percent for counts, percentage points for rates,
+ * absolute for ratings and scores
+ */
+function formatDelta(row: ReportRow): { label: string; tone: Tone } {
+  if (row.current === null || row.previous === null) return { label: '–', tone: 'flat' }
+
+  const change = row.current - row.previous
+  const tone: Tone = change === 0 ? 'flat' : (change > 0) !== !!row.lowerIsBetter ? 'up' : 'down'
+  const sign = change > 0 ? '+' : ''
+
+  if (row.kind === 'rating') return { label: `${sign}${change.toFixed(2)}`, tone }
+  if (row.kind === 'points') return { label: `${sign}${change.toFixed(1)} pts`, tone }
+  if (row.previous === 0) return { label: change === 0 ? '0%' : 'new', tone }
+  return { label: `${sign}${((change / row.previous) * 100).toFixed(1)}%`, tone }
+}
+
+// Visibility scores are 0-100, so their change is shown in points
+function scoreDelta(store: StoreScore): { label: string; tone: Tone } {
+  const change = store.score - store.previousScore
+  const tone: Tone = change === 0 ? 'flat' : change > 0 ? 'up' : 'down'
+  return { label: `${change > 0 ? '+' : ''}${change} pts`, tone }
+}
+
+function formatWeek(metrics: WeeklyReportMetrics): string {
+  const start = new Date(metrics.weekStart)
+  // weekEnd is the following Monday; the report covers up to the Sunday
+  const last = new Date(new Date(metrics.weekEnd).getTime() - 1)
+  const format = (date: Date) => date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+  return `${format(start)} – ${format(last)}`
+}
+
+function summaryLine(metrics: WeeklyReportMetrics): string {
+  const rating = metrics.overallRating === null ? 'no ratings yet' : `${metrics.overallRating.toFixed(2)} average rating`
+  return `${metrics.storeCount} active stores · ${rating} across ${metrics.totalReviews.toLocaleString('en-US')} reviews`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function renderReportText(metrics: WeeklyReportMetrics): string {
+  const lines = [
+    `${metrics.brandName} weekly report`,
+    formatWeek(metrics),
+    summaryLine(metrics),
+    ''
+  ]
+
+  for (const section of buildSections(metrics)) {
+    lines.push(section.title)
+    for (const row of section.rows) {
+      lines.push(`  ${row.label}: ${formatValue(row.current, row)} (${formatDelta(row).label} vs previous week)`)
+    }
+    lines.push('')
+  }
+
+  const storeLines = (title: string, stores: StoreScore[]) => {
+    if (stores.length === 0) return
+    lines.push(title)
+    stores.forEach(store => lines.push(`  ${store.name}: ${store.score} (${store.grade}, ${scoreDelta(store).label})`))
+    lines.push('')
+  }
+  storeLines('Top stores by visibility score', metrics.topStores)
+  storeLines('Stores needing attention', metrics.bottomStores)
+
+  lines.push('The full report is attached as a PDF.')
+  return lines.join('\n')
+}
+
+export function renderReportHtml(metrics: WeeklyReportMetrics): string {
+  const cell = 'padding:6px 10px;border-bottom:1px solid #e5e7eb'
+  const deltaCell = (delta: { label: string; tone: Tone }) =>
+    `<td style="${cell};text-align:right;color:${TONE_COLORS[delta.tone]}">${escapeHtml(delta.label)}</td>`
+
+  const sections = buildSections(metrics).map(section => {
+    const rows = section.rows.map(row => [
+      '<tr>',
+      `<td style="${cell}">${escapeHtml(row.label)}</td>`,
+      `<td style="${cell};text-align:right;font-weight:bold">${formatValue(row.current, row)}</td>`,
+      `<td style="${cell};text-align:right;color:#6b7280">${formatValue(row.previous, row)}</td>`,
+      deltaCell(formatDelta(row)),
+      '</tr>'
+    ].join('')).join('')
+
+    return `<h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(section.title)}</h2>` +
+      '<table style="width:100%;border-collapse:collapse;font-size:14px">' +
+      `<tr style="color:#6b7280;font-size:12px"><td style="${cell}"></td><td style="${cell};text-align:right">This week</td>` +
+      `<td style="${cell};text-align:right">Previous week</td><td style="${cell};text-align:right">Change</td></tr>` +
+      `${rows}</table>`
+  }).join('')
+
+  const storeTable = (title: string, stores: StoreScore[]) => {
+    if (stores.length === 0) return ''
+    const rows = stores.map(store => [
+      '<tr>',
+      `<td style="${cell}">${escapeHtml(store.name)}</td>`,
+      `<td style="${cell};text-align:right;font-weight:bold">${store.score}</td>`,
+      `<td style="${cell};text-align:right">${escapeHtml(store.grade)}</td>`,
+      deltaCell(scoreDelta(store)),
+      '</tr>'
+    ].join('')).join('')
+
+    return `<h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(title)}</h2>` +
+      '<table style="width:100%;border-collapse:collapse;font-size:14px">' +
+      `<tr style="color:#6b7280;font-size:12px"><td style="${cell}">Store</td><td style="${cell};text-align:right">Score</td>` +
+      `<td style="${cell};text-align:right">Grade</td><td style="${cell};text-align:right">Change</td></tr>` +
+      `${rows}</table>`
+  }
+
+  return [
+    '<!DOCTYPE html><html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(metrics.brandName)} weekly report</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f9fafb">',
+    '<div style="max-width:680px;margin:0 auto;background:#ffffff;padding:24px;font-family:sans-serif;color:#111827">',
+    `<h1 style="font-size:22px;margin:0">${escapeHtml(metrics.brandName)} weekly report</h1>`,
+    `<p style="margin:4px 0 0;color:#6b7280">${escapeHtml(formatWeek(metrics))}</p>`,
+    `<p style="margin:12px 0 0">${escapeHtml(summaryLine(metrics))}</p>`,
+    sections,
+    storeTable('Top stores by visibility score', metrics.topStores),
+    storeTable('Stores needing attention', metrics.bottomStores),
+    '</div></body></html>'
+  ].join('')
+}
+
+export async function renderReportPdf(metrics: WeeklyReportMetrics): Promise<Buffer> {
+  const pdf = new PdfDocument()
+  const margin = 48
+  const right = PDF_PAGE_WIDTH - margin
+  const columns = [right - 200, right - 100, right]
+  const gray: PdfColor = [0.42, 0.45, 0.5]
+  let y = margin
+
+  // Start a new page when the next block doesn't fit
+  const ensure = (height: number) => {
+    if (y + height > PDF_PAGE_HEIGHT - margin) {
+      pdf.addPage()
+      y = margin
+    }
+  }
+
+  const table = (title: string, headers: string[], rows: Array<{ label: string; cells: string[]; tone: Tone }>) => {
+    ensure(60)
+    y += 24
+    pdf.text(margin, y, title, { size: 13, bold: true })
+    y += 18
+    headers.forEach((header, index) => pdf.text(columns[index], y, header, { size: 8, color: gray, align: 'right' }))
+    y += 6
+    pdf.line(margin, y, right, y)
+
+    for (const row of rows) {
+      ensure(18)
+      y += 14
+      pdf.text(margin, y, pdf.fit(row.label, columns[0] - 80 - margin), { size: 10 })
+      pdf.text(columns[0], y, row.cells[0], { size: 10, bold: true, align: 'right' })
+      pdf.text(columns[1], y, row.cells[1], { size: 10, color: gray, align: 'right' })
+      pdf.text(columns[2], y, row.cells[2], { size: 10, color: TONE_PDF_COLORS[row.tone], align: 'right' })
+      y += 4
+      pdf.line(margin, y, right, y, [0.9, 0.9, 0.9])
+    }
+  }
+
+  y += 10
+  pdf.text(margin, y, pdf.fit(`${metrics.brandName} weekly report`, right - margin, 20, true), { size: 20, bold: true })
+  y += 18
+  pdf.text(margin, y, formatWeek(metrics), { size: 10, color: gray })
+  y += 16
+  pdf.text(margin, y, summaryLine(metrics), { size: 10 })
+
+  for (const section of buildSections(metrics)) {
+    table(section.title, ['This week', 'Previous week', 'Change'], section.rows.map(row => {
+      const delta = formatDelta(row)
+      return { label: row.label, cells: [formatValue(row.current, row), formatValue(row.previous, row), delta.label], tone: delta.tone }
+    }))
+  }
+
+  const storeRows = (stores: StoreScore[]) => stores.map(store => {
+    const delta = scoreDelta(store)
+    return { label: store.name, cells: [String(store.score), store.grade, delta.label], tone: delta.tone }
+  })
+  if (metrics.topStores.length > 0) {
+    table('Top stores by visibility score', ['Score', 'Grade', 'Change'], storeRows(metrics.topStores))
+  }
+  if (metrics.bottomStores.length > 0) {
+    table('Stores needing attention', ['Score', 'Grade', 'Change'], storeRows(metrics.bottomStores))
+  }
+
+  // Say so when some characters (emoji, rare scripts) couldn't be printed
+  if (pdf.replacedCharacters.length > 0) {
+    ensure(40)
+    y += 28
+    for (const line of pdf.wrap(`Some characters could not be shown in this PDF and are printed as "${PDF_REPLACEMENT_CHARACTER}". The HTML report shows them as written.`, right - margin, 8)) {
+      pdf.text(margin, y, line, { size: 8, color: gray })
+      y += 11
+    }
+  }
+
+  return pdf.toBuffer()
+}
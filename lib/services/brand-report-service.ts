@@ -0,0 +1,541 @@
+import mongoose from 'mongoose'
+import { Brand, Enquiry, Performance, Post, Review, Store } from '@/lib/database/models'
+import { NotificationRecipient } from '@/lib/database/notification-models'
+import { BrandReport, IBrandReport } from '@/lib/database/report-models'
+import { SentimentAnalytics } from '@/lib/database/sentiment-analytics-model'
+import { sendSmtpMail, smtpConfigFromEnv } from '@/lib/server/smtp-client'
+import { calculateVisibilityScore, ScoringMetrics } from '@/lib/utils/scoring'
+import { IvrAnalyticsService } from './ivr-analytics-service'
+import { renderReportHtml, renderReportPdf, renderReportText } from './brand-report-renderer'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+// Stores listed at each end of the visibility ranking
+const RANKED_STORES = 3
+
+export interface WeekFigures {
+  impressions: number
+  actions: number
+  callClicks: number
+  websiteClicks: number
+  directionRequests: number
+  newReviews: number
+  // Of the week's new reviews; null without reviews
+  averageRating: number | null
+  responseRate: number
+  calls: number
+  answeredCalls: number
+  missedCalls: number
+  answerRate: number
+  enquiries: number
+}
+
+export interface SentimentSnapshot {
+  overallSentiment: string
+  overallScore: number
+  // Share of the last 7 days' reviews, in percent
+  positive: number
+  negative: number
+  neutral: number
+  reviewsAnalyzed: number
+}
+
+export interface StoreScore {
+  storeId: string
+  name: string
+  score: number
+  grade: string
+  previousScore: number
+}
+
+export interface WeeklyReportMetrics {
+  brandName: string
+  weekStart: string
+  weekEnd: string
+  current: WeekFigures
+  previous: WeekFigures
+  overallRating: number | null
+  totalReviews: number
+  sentiment: SentimentSnapshot | null
+  // Taken from the previous week's archived report, since sentiment is only kept as a snapshot
+  previousSentiment: SentimentSnapshot | null
+  storeCount: number
+  topStores: StoreScore[]
+  bottomStores: StoreScore[]
+}
+
+export interface WeeklyReportRunResult {
+  generated: number
+  sent: number
+  failed: number
+}
+
+interface StoreWeekPerformance {
+  impressions: number
+  callClicks: number
+  websiteClicks: number
+  bookings: number
+}
+
+interface StoreReviewStats {
+  averageRating: number
+  totalReviews: number
+  recentReviews: number
+  responseRate: number
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Monday 00:00 UTC of the last full week before `now`
+ */
+export function lastFullWeekStart(now: Date = new Date()): Date {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  // getUTCDay: 0 = Sunday; days since this week's Monday
+  const sinceMonday = (today.getUTCDay() + 6) % 7
+  return new Date(today.getTime() - (sinceMonday + 7) * DAY_MS)
+}
+
+export function reportFilename(brandName: string, weekStart: Date, format: 'pdf' | 'html'): string {
+  const slug = brandName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'brand'
+  return `${slug}-weekly-report-${toDay(weekStart)}.${format}`
+}
+
+export class BrandReportService {
+
+  /**
+   * GMB impressions and actions per store for the current and previous week.
+   * Overlapping synced ranges repeat days, so the most recently synced value wins.
+   */
+  private static async performanceByStore(
+    storeIds: mongoose.Types.ObjectId[],
+    previousStart: Date,
+    weekStart: Date,
+    weekEnd: Date
+  ): Promise<{ current: Map<string, StoreWeekPerformance>; previous: Map<string, StoreWeekPerformance>; directions: [number, number] }> {
+    const rows = storeIds.length === 0 ? [] : await Performance.aggregate([
+      {
+        $match: {
+          storeId: { $in: storeIds },
+          source: 'gmb',
+          status: 'active',
+          'dailyMetrics.0': { $exists: true }
+        }
+      },
+      { $unwind: '$dailyMetrics' },
+      {
+        $project: {
+          storeId: 1,
+          updatedAt: 1,
+          day: {
+            $dateToString: {
+              format: '%Y-%m-%d',
+              date: {
+                $dateFromParts: {
+                  year: '$dailyMetrics.date.year',
+                  month: '$dailyMetrics.date.month',
+                  day: '$dailyMetrics.date.day'
+                }
+              }
+            }
+          },
+          metrics: '$dailyMetrics.metrics'
+        }
+      },
+      { $match: { day: { $gte: toDay(previousStart), $lt: toDay(weekEnd) } } },
+      { $sort: { updatedAt: -1 } },
+      { $group: { _id: { storeId: '$storeId', day: '$day' }, metrics: { $first: '$metrics' } } },
+      {
+        $group: {
+          _id: { storeId: '$_id.storeId', current: { $gte: ['$_id.day', toDay(weekStart)] } },
+          // GMB omits zero values from a day it reports other metrics for
+          impressions: {
+            $sum: {
+              $add: [
+                { $ifNull: ['$metrics.desktopSearchImpressions', 0] },
+                { $ifNull: ['$metrics.mobileSearchImpressions', 0] },
+                { $ifNull: ['$metrics.desktopMapsImpressions', 0] },
+                { $ifNull: ['$metrics.mobileMapsImpressions', 0] }
+              ]
+            }
+          },
+          callClicks: { $sum: { $ifNull: ['$metrics.callClicks', 0] } },
+          websiteClicks: { $sum: { $ifNull: ['$metrics.websiteClicks', 0] } },
+          directionRequests: { $sum: { $ifNull: ['$metrics.directionRequests', 0] } },
+          bookings: {
+            $sum: {
+              $add: [
+                { $ifNull: ['$metrics.businessBookings', 0] },
+                { $ifNull: ['$metrics.businessFoodOrders', 0] },
+                { $ifNull: ['$metrics.businessMessages', 0] }
+              ]
+            }
+          }
+        }
+      }
+    ])
+
+    const current = new Map<string, StoreWeekPerformance>()
+    const previous = new Map<string, StoreWeekPerformance>()
+    const directions: [number, number] = [0, 0]
+    for (const row of rows) {
+      const target = row._id.current ? current : previous
+      target.set(String(row._id.storeId), {
+        impressions: row.impressions,
+        callClicks: row.callClicks,
+        websiteClicks: row.websiteClicks,
+        bookings: row.bookings
+      })
+      directions[row._id.current ? 0 : 1] += row.directionRequests
+    }
+    return { current, previous, directions }
+  }
+
+  /**
+   * Rating, volume, recency and response rate per store over the reviews
+   * posted before `end`
+   */
+  private static async reviewStatsByStore(brandId: mongoose.Types.ObjectId, end: Date): Promise<Map<string, StoreReviewStats>> {
+    const rows = await Review.aggregate([
+      { $match: { brandId, status: 'active', gmbCreateTime: { $lt: end } } },
+      {
+        $group: {
+          _id: '$storeId',
+          averageRating: { $avg: '$starRating' },
+          totalReviews: { $sum: 1 },
+          recentReviews: { $sum: { $cond: [{ $gte: ['$gmbCreateTime', new Date(end.getTime() - 30 * DAY_MS)] }, 1, 0] } },
+          responded: { $sum: { $cond: [{ $eq: ['$hasResponse', true] }, 1, 0] } }
+        }
+      }
+    ])
+
+    return new Map(rows.map(row => [String(row._id), {
+      averageRating: row.averageRating || 0,
+      totalReviews: row.totalReviews,
+      recentReviews: row.recentReviews,
+      responseRate: percentage(row.responded, row.totalReviews)
+    }]))
+  }
+
+  private static async postsByStore(brandId: mongoose.Types.ObjectId, end: Date): Promise<Map<string, number>> {
+    const rows = await Post.aggregate([
+      { $match: { brandId, gmbCreateTime: { $gte: new Date(end.getTime() - 30 * DAY_MS), $lt: end } } },
+      { $group: { _id: '$storeId', count: { $sum: 1 } } }
+    ])
+    return new Map(rows.map(row => [String(row._id), row.count]))
+  }
+
+  /**
+   * New reviews of the week, their average rating and how many were answered
+   */
+  private static async weekReviews(brandId: mongoose.Types.ObjectId, start: Date, end: Date) {
+    const [row] = await Review.aggregate([
+      { $match: { brandId, status: 'active', gmbCreateTime: { $gte: start, $lt: end } } },
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          averageRating: { $avg: '$starRating' },
+          responded: { $sum: { $cond: [{ $eq: ['$hasResponse', true] }, 1, 0] } }
+        }
+      }
+    ])
+    return {
+      newReviews: row?.count || 0,
+      averageRating: row?.count ? round(row.averageRating) : null,
+      responseRate: percentage(row?.responded || 0, row?.count || 0)
+    }
+  }
+
+  private static async weekFigures(
+    brandId: mongoose.Types.ObjectId,
+    start: Date,
+    end: Date,
+    performance: Map<string, StoreWeekPerformance>,
+    directionRequests: number
+  ): Promise<WeekFigures> {
+    const [reviews, ivr, enquiries] = await Promise.all([
+      this.weekReviews(brandId, start, end),
+      IvrAnalyticsService.getAnalytics({
+        brandId: String(brandId),
+        startDate: start,
+        endDate: new Date(end.getTime() - 1),
+        leaderboardLimit: 1
+      }),
+      Enquiry.countDocuments({ brandId, createdAt: { $gte: start, $lt: end } })
+    ])
+
+    const totals = Array.from(performance.values()).reduce(
+      (sum, store) => ({
+        impressions: sum.impressions + store.impressions,
+        callClicks: sum.callClicks + store.callClicks,
+        websiteClicks: sum.websiteClicks + store.websiteClicks,
+        bookings: sum.bookings + store.bookings
+      }),
+      { impressions: 0, callClicks: 0, websiteClicks: 0, bookings: 0 }
+    )
+
+    return {
+      impressions: totals.impressions,
+      actions: totals.callClicks + totals.websiteClicks + directionRequests + totals.bookings,
+      callClicks: totals.callClicks,
+      websiteClicks: totals.websiteClicks,
+      directionRequests,
+      ...reviews,
+      calls: ivr.summary.totalCalls,
+      answeredCalls: ivr.summary.answered,
+      missedCalls: ivr.summary.missed + ivr.summary.ivrDrop,
+      answerRate: ivr.summary.answerRate,
+      enquiries
+    }
+  }
+
+  /**
+   * scoring.ts visibility score of every active store for the week
+   * ending at `end`
+   */
+  private static async storeScores(
+    brandId: mongoose.Types.ObjectId,
+    stores: Array<Record<string, any>>,
+    end: Date,
+    performance: Map<string, StoreWeekPerformance>
+  ): Promise<Map<string, { score: number; grade: string }>> {
+    const [reviews, posts] = await Promise.all([
+      this.reviewStatsByStore(brandId, end),
+      this.postsByStore(brandId, end)
+    ])
+
+    const scores = new Map<string, { score: number; grade: string }>()
+    for (const store of stores) {
+      const id = String(store._id)
+      const review = reviews.get(id)
+      const engagement = performance.get(id)
+      const completeness = [
+        store.name,
+        store.address?.line1,
+        store.phone,
+        store.microsite?.gmbUrl || store.socialMedia?.website,
+        store.primaryCategory
+      ].filter(Boolean).length * 20
+
+      const metrics: ScoringMetrics = {
+        averageRating: review?.averageRating || 0,
+        totalReviews: review?.totalReviews || 0,
+        recentReviews: review?.recentReviews || 0,
+        responseRate: review?.responseRate || 0,
+        impressions: engagement?.impressions || 0,
+        callClicks: engagement?.callClicks || 0,
+        websiteClicks: engagement?.websiteClicks || 0,
+        bookings: engagement?.bookings || 0,
+        profilePhotos: (store.microsite?.existingImages?.length || 0) + (store.microsite?.heroImage?.url ? 1 : 0),
+        recentPosts: posts.get(id) || 0,
+        profileCompleteness: completeness,
+        qaActivity: 0
+      }
+      const details = calculateVisibilityScore(metrics)
+      scores.set(id, { score: details.breakdown.totalScore, grade: details.grade })
+    }
+    return scores
+  }
+
+  private static async sentimentSnapshot(brandId: mongoose.Types.ObjectId): Promise<SentimentSnapshot | null> {
+    const analytics = await SentimentAnalytics.findOne({ entityId: String(brandId), entityType: 'brand' }).lean<Record<string, any>>()
+    if (!analytics) return null
+
+    const week = analytics.periods?.['7d'] || {}
+    return {
+      overallSentiment: analytics.overallSentiment,
+      overallScore: round(analytics.overallScore || 0),
+      positive: round(week.percentages?.positive || 0, 1),
+      negative: round(week.percentages?.negative || 0, 1),
+      neutral: round(week.percentages?.neutral || 0, 1),
+      reviewsAnalyzed: analytics.totalReviewsAnalyzed || 0
+    }
+  }
+
+  /**
+   * Everything the report shows for the week starting at `weekStart`,
+   * alongside the week before it
+   */
+  static async collect(brandId: string, weekStart: Date): Promise<WeeklyReportMetrics> {
+    const brand = await Brand.findById(brandId).select('name').lean()
+    if (!brand) throw new Error('Brand not found')
+
+    const brandObjectId = new mongoose.Types.ObjectId(brandId)
+    const weekEnd = new Date(weekStart.getTime() + WEEK_MS)
+    const previousStart = new Date(weekStart.getTime() - WEEK_MS)
+
+    const stores = await Store.find({ brandId: brandObjectId, status: 'active' })
+      .select('name address.line1 phone primaryCategory microsite.gmbUrl microsite.heroImage microsite.existingImages socialMedia.website')
+      .lean<Array<Record<string, any>>>()
+    const storeIds = stores.map(store => store._id as mongoose.Types.ObjectId)
+
+    const performance = await this.performanceByStore(storeIds, previousStart, weekStart, weekEnd)
+
+    const [current, previous, currentScores, previousScores, overall, sentiment, previousReport] = await Promise.all([
+      this.weekFigures(brandObjectId, weekStart, weekEnd, performance.current, performance.directions[0]),
+      this.weekFigures(brandObjectId, previousStart, weekStart, performance.previous, performance.directions[1]),
+      this.storeScores(brandObjectId, stores, weekEnd, performance.current),
+      this.storeScores(brandObjectId, stores, weekStart, performance.previous),
+      Review.aggregate([
+        { $match: { brandId: brandObjectId, status: 'active', gmbCreateTime: { $lt: weekEnd } } },
+        { $group: { _id: null, averageRating: { $avg: '$starRating' }, count: { $sum: 1 } } }
+      ]),
+      this.sentimentSnapshot(brandObjectId),
+      BrandReport.findOne({ brandId: brandObjectId, weekStart: previousStart }).select('metrics.sentiment').lean()
+    ])
+
+    const ranked: StoreScore[] = stores
+      .map(store => {
+        const id = String(store._id)
+        return {
+          storeId: id,
+          name: store.name,
+          score: currentScores.get(id)?.score || 0,
+          grade: currentScores.get(id)?.grade || 'F',
+          previousScore: previousScores.get(id)?.score || 0
+        }
+      })
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+
+    const topCount = Math.min(RANKED_STORES, ranked.length)
+    return {
+      brandName: brand.name,
+      weekStart: weekStart.toISOString(),
+      weekEnd: weekEnd.toISOString(),
+      current,
+      previous,
+      overallRating: overall[0] ? round(overall[0].averageRating) : null,
+      totalReviews: overall[0]?.count || 0,
+      sentiment,
+      previousSentiment: previousReport?.metrics?.sentiment || null,
+      storeCount: stores.length,
+      topStores: ranked.slice(0, topCount),
+      // Stores already listed at the top are not repeated at the bottom
+      bottomStores: ranked.slice(topCount).slice(-RANKED_STORES).reverse()
+    }
+  }
+
+  /**
+   * Build and archive the report for a week, replacing an earlier one for
+   * the same week
+   */
+  static async generate(brandId: string, weekStart: Date, generatedBy: string): Promise<IBrandReport> {
+    const metrics = await this.collect(brandId, weekStart)
+
+    const report = await BrandReport.findOneAndUpdate(
+      { brandId, weekStart },
+      {
+        $set: {
+          weekEnd: new Date(metrics.weekEnd),
+          metrics,
+          html: renderReportHtml(metrics),
+          pdf: await renderReportPdf(metrics),
+          generatedBy
+        },
+        $setOnInsert: { status: 'generated' }
+      },
+      { upsert: true, new: true }
+    )
+    return report!
+  }
+
+  /**
+   * Email addresses that receive the brand's weekly report: active email
+   * recipients subscribed to it and not limited to some stores
+   */
+  static async reportRecipients(brandId: mongoose.Types.ObjectId | string): Promise<string[]> {
+    const recipients = await NotificationRecipient.find({
+      brandId,
+      isActive: true,
+      channel: 'email',
+      events: 'weekly_report',
+      storeIds: { $size: 0 }
+    }).select('target').lean()
+    return Array.from(new Set(recipients.map(recipient => recipient.target)))
+  }
+
+  /**
+   * Email the report as HTML with the PDF attached
+   */
+  static async send(reportId: string | mongoose.Types.ObjectId, to?: string[]): Promise<IBrandReport> {
+    const report = await BrandReport.findById(reportId).select('+html +pdf')
+    if (!report) throw new Error('Report not found')
+
+    const recipients = to || await this.reportRecipients(report.brandId)
+    const metrics = report.metrics as WeeklyReportMetrics
+    const config = smtpConfigFromEnv()
+
+    try {
+      if (!config) throw new Error('Email is not configured (set SMTP_HOST and SMTP_FROM)')
+      if (recipients.length === 0) throw new Error('No email recipients subscribed to the weekly report')
+
+      await sendSmtpMail(config, {
+        to: recipients,
+        subject: `${metrics.brandName} weekly report: ${toDay(report.weekStart)}`,
+        text: renderReportText(metrics),
+        html: report.html,
+        attachments: report.pdf
+          ? [{ filename: reportFilename(metrics.brandName, report.weekStart, 'pdf'), contentType: 'application/pdf', content: report.pdf }]
+          : []
+      })
+
+      report.status = 'sent'
+      report.emailedTo = recipients
+      report.emailedAt = new Date()
+      report.lastError = undefined
+    } catch (error) {
+      report.status = 'failed'
+      report.lastError = error instanceof Error ? error.message : String(error)
+    }
+
+    await report.save()
+    return report
+  }
+
+  /**
+   * Generate and email last week's report for every active brand that
+   * wants it and doesn't have it yet
+   */
+  static async runWeekly(now: Date = new Date()): Promise<WeeklyReportRunResult> {
+    const result: WeeklyReportRunResult = { generated: 0, sent: 0, failed: 0 }
+    const weekStart = lastFullWeekStart(now)
+
+    const brands = await Brand.find({ status: 'active', 'settings.notifications.weeklyReport': { $ne: false } })
+      .select('_id')
+      .lean()
+    const done = await BrandReport.distinct('brandId', { weekStart, status: 'sent' })
+    const doneIds = new Set(done.map(id => String(id)))
+
+    for (const brand of brands) {
+      const brandId = String(brand._id)
+      if (doneIds.has(brandId)) continue
+
+      try {
+        if ((await this.reportRecipients(brandId)).length === 0) continue
+
+        const report = await this.generate(brandId, weekStart, 'schedule')
+        result.generated++
+        const sent = await this.send(report._id as mongoose.Types.ObjectId)
+        if (sent.status === 'sent') result.sent++
+        else result.failed++
+      } catch (error) {
+        console.error(`Error generating weekly report for brand ${brandId}:`, error)
+        result.failed++
+      }
+    }
+
+    return result
+  }
+}
@@ -0,0 +1,342 @@
+import mongoose from 'mongoose'
+import { IVRCall, Performance, Store } from '@/lib/database/models'
+import { DEFAULT_IVR_TIMEZONE, outcomeExpression } from './ivr-analytics-service'
+
+export const CALL_RECONCILIATION_FLAGS = ['no_click_data', 'no_tracked_calls', 'untracked_clicks', 'number_mismatch'] as const
+
+export type CallReconciliationFlag = typeof CALL_RECONCILIATION_FLAGS[number]
+
+// Below this many GMB call clicks a store's counts are too small to judge
+export const MIN_CLICKS_FOR_FLAGS = 10
+
+// Tracked calls below this share of GMB call clicks suggest callers dial a number that is not tracked
+export const MIN_CAPTURE_RATE = 50
+
+const DEFAULT_PERIOD_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface CallReconciliationFilters {
+  brandId?: string
+  storeIds?: string[]
+  startDate?: Date
+  endDate?: Date
+  // IANA zone the tracked calls are bucketed into days in
+  timezone?: string
+}
+
+interface CallCounts {
+  // null when GMB has no data for the day (not synced yet, or reported with a delay)
+  callClicks: number | null
+  trackedCalls: number
+  answeredCalls: number
+  missedCalls: number
+}
+
+export interface CallReconciliationDay extends CallCounts {
+  date: string
+}
+
+interface ReconciledCounts {
+  callClicks: number
+  trackedCalls: number
+  answeredCalls: number
+  missedCalls: number
+  // Tracked calls as a share of GMB call clicks
+  captureRate: number
+  // Estimated share of GMB call clicks that reached someone at the store
+  connectRate: number
+  // GMB call clicks that did not end in an answered call
+  estimatedLostCalls: number
+}
+
+export interface CallReconciliationStore extends ReconciledCounts {
+  storeId: string
+  storeName: string
+  phone: string | null
+  trackingNumbers: string[]
+  // Days with GMB data, the only days the totals above compare
+  daysWithClickData: number
+  flags: CallReconciliationFlag[]
+  days: CallReconciliationDay[]
+}
+
+export interface CallReconciliationReport {
+  summary: ReconciledCounts & { stores: number; flaggedStores: number; unmatchedCalls: number }
+  stores: CallReconciliationStore[]
+  startDate: string
+  endDate: string
+  timezone: string
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0
+}
+
+// Last 10 digits, so "+91 98765 43210" and "098765-43210" compare equal
+function normalizePhone(phone: string | undefined | null): string {
+  return (phone || '').replace(/\D/g, '').slice(-10)
+}
+
+function toDay(date: Date, timezone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date)
+}
+
+function reconcile(callClicks: number, trackedCalls: number, answeredCalls: number, missedCalls: number): ReconciledCounts {
+  return {
+    callClicks,
+    trackedCalls,
+    answeredCalls,
+    missedCalls,
+    captureRate: percentage(trackedCalls, callClicks),
+    // Tracked calls also come from other sources, so answered calls can exceed clicks
+    connectRate: percentage(Math.min(answeredCalls, callClicks), callClicks),
+    estimatedLostCalls: Math.max(0, callClicks - answeredCalls)
+  }
+}
+
+export class CallReconciliationService {
+
+  /**
+   * Per-store, per-day GMB call clicks vs tracked IVR calls vs answered calls,
+   * with an estimated connect rate and lost calls. Stores whose tracked calls
+   * fall well short of their call clicks, or whose GMB phone number is not one
+   * of their tracking numbers, are flagged.
+   */
+  static async getReconciliation(filters: CallReconciliationFilters = {}): Promise<CallReconciliationReport> {
+    const timezone = filters.timezone || DEFAULT_IVR_TIMEZONE
+    const endDate = filters.endDate || new Date()
+    const startDate = filters.startDate || new Date(endDate.getTime() - DEFAULT_PERIOD_DAYS * DAY_MS)
+    const startDay = toDay(startDate, timezone)
+    const endDay = toDay(endDate, timezone)
+
+    const storeQuery: Record<string, unknown> = { status: 'active' }
+    if (filters.brandId) storeQuery.brandId = filters.brandId
+    if (filters.storeIds && filters.storeIds.length > 0) storeQuery._id = { $in: filters.storeIds }
+    const stores = await Store.find(storeQuery)
+      .select('name phone')
+      .sort({ name: 1 })
+      .lean<Array<{ _id: mongoose.Types.ObjectId; name: string; phone?: string }>>()
+    const storeObjectIds = stores.map(store => store._id)
+
+    const [clickRows, callResult] = await Promise.all([
+      this.getDailyCallClicks(storeObjectIds, startDay, endDay),
+      this.getDailyTrackedCalls(filters, storeObjectIds, startDate, endDate, timezone)
+    ])
+
+    const clicksByStore = new Map<string, Map<string, number>>()
+    for (const row of clickRows) {
+      const storeId = String(row._id.storeId)
+      if (!clicksByStore.has(storeId)) clicksByStore.set(storeId, new Map())
+      clicksByStore.get(storeId)!.set(row._id.day, row.callClicks)
+    }
+
+    const callsByStore = new Map<string, Map<string, Omit<CallCounts, 'callClicks'>>>()
+    for (const row of callResult.days) {
+      const storeId = String(row._id.storeId)
+      if (!callsByStore.has(storeId)) callsByStore.set(storeId, new Map())
+      callsByStore.get(storeId)!.set(row._id.day, {
+        trackedCalls: row.trackedCalls,
+        answeredCalls: row.answeredCalls,
+        missedCalls: row.missedCalls
+      })
+    }
+
+    const numbersByStore = new Map<string, string[]>(
+      callResult.numbers.map(row => [String(row._id), row.virtualNumbers.filter(Boolean).sort()])
+    )
+
+    const reconciled = stores.map(store => {
+      const storeId = String(store._id)
+      const clicks = clicksByStore.get(storeId) || new Map<string, number>()
+      const calls = callsByStore.get(storeId) || new Map<string, Omit<CallCounts, 'callClicks'>>()
+
+      const days: CallReconciliationDay[] = Array.from(new Set([...clicks.keys(), ...calls.keys()]))
+        .sort()
+        .map(date => ({
+          date,
+          callClicks: clicks.has(date) ? clicks.get(date)! : null,
+          trackedCalls: calls.get(date)?.trackedCalls || 0,
+          answeredCalls: calls.get(date)?.answeredCalls || 0,
+          missedCalls: calls.get(date)?.missedCalls || 0
+        }))
+
+      // Only days GMB reported on are comparable
+      const compared = days.filter(day => day.callClicks !== null)
+      const counts = reconcile(
+        compared.reduce((sum, day) => sum + (day.callClicks || 0), 0),
+        compared.reduce((sum, day) => sum + day.trackedCalls, 0),
+        compared.reduce((sum, day) => sum + day.answeredCalls, 0),
+        compared.reduce((sum, day) => sum + day.missedCalls, 0)
+      )
+
+      const phone = normalizePhone(store.phone)
+      const trackingNumbers = numbersByStore.get(storeId) || []
+
+      const flags: CallReconciliationFlag[] = []
+      if (compared.length === 0) {
+        flags.push('no_click_data')
+      } else if (counts.callClicks >= MIN_CLICKS_FOR_FLAGS) {
+        if (counts.trackedCalls === 0) {
+          flags.push('no_tracked_calls')
+        } else if (counts.captureRate < MIN_CAPTURE_RATE) {
+          flags.push('untracked_clicks')
+        }
+      }
+      if (phone && trackingNumbers.length > 0 && !trackingNumbers.some(number => normalizePhone(number) === phone)) {
+        flags.push('number_mismatch')
+      }
+
+      return {
+        storeId,
+        storeName: store.name,
+        phone: store.phone || null,
+        trackingNumbers,
+        ...counts,
+        daysWithClickData: compared.length,
+        flags,
+        days
+      }
+    })
+
+    const diverged = (store: CallReconciliationStore) => store.flags.some(flag => flag !== 'no_click_data')
+    reconciled.sort((a, b) =>
+      Number(diverged(b)) - Number(diverged(a)) ||
+      b.estimatedLostCalls - a.estimatedLostCalls ||
+      b.callClicks - a.callClicks
+    )
+
+    const totals = reconcile(
+      reconciled.reduce((sum, store) => sum + store.callClicks, 0),
+      reconciled.reduce((sum, store) => sum + store.trackedCalls, 0),
+      reconciled.reduce((sum, store) => sum + store.answeredCalls, 0),
+      reconciled.reduce((sum, store) => sum + store.missedCalls, 0)
+    )
+
+    return {
+      summary: {
+        ...totals,
+        stores: reconciled.length,
+        flaggedStores: reconciled.filter(diverged).length,
+        unmatchedCalls: callResult.unmatched
+      },
+      stores: reconciled,
+      startDate: startDay,
+      endDate: endDay,
+      timezone
+    }
+  }
+
+  /**
+   * GMB call clicks per store and local day. Overlapping synced ranges
+   * repeat the same days, so the most recently synced value wins.
+   */
+  private static async getDailyCallClicks(
+    storeIds: mongoose.Types.ObjectId[],
+    startDay: string,
+    endDay: string
+  ): Promise<Array<{ _id: { storeId: mongoose.Types.ObjectId; day: string }; callClicks: number }>> {
+    if (storeIds.length === 0) return []
+
+    return Performance.aggregate([
+      {
+        $match: {
+          storeId: { $in: storeIds },
+          source: 'gmb',
+          status: 'active',
+          'dailyMetrics.0': { $exists: true }
+        }
+      },
+      { $unwind: '$dailyMetrics' },
+      {
+        $project: {
+          storeId: 1,
+          updatedAt: 1,
+          day: {
+            $dateToString: {
+              format: '%Y-%m-%d',
+              date: {
+                $dateFromParts: {
+                  year: '$dailyMetrics.date.year',
+                  month: '$dailyMetrics.date.month',
+                  day: '$dailyMetrics.date.day'
+                }
+              }
+            }
+          },
+          // GMB omits zero values from a day it reports other metrics for
+          callClicks: { $ifNull: ['$dailyMetrics.metrics.callClicks', 0] }
+        }
+      },
+      { $match: { day: { $gte: startDay, $lte: endDay } } },
+      { $sort: { updatedAt: -1 } },
+      { $group: { _id: { storeId: '$storeId', day: '$day' }, callClicks: { $first: '$callClicks' } } }
+    ])
+  }
+
+  /**
+   * Tracked IVR calls per store and local day, the virtual numbers each
+   * store was called on, and the calls that could not be matched to a store
+   */
+  private static async getDailyTrackedCalls(
+    filters: CallReconciliationFilters,
+    storeIds: mongoose.Types.ObjectId[],
+    startDate: Date,
+    endDate: Date,
+    timezone: string
+  ): Promise<{
+    days: Array<{ _id: { storeId: mongoose.Types.ObjectId; day: string }; trackedCalls: number; answeredCalls: number; missedCalls: number }>
+    numbers: Array<{ _id: mongoose.Types.ObjectId; virtualNumbers: string[] }>
+    unmatched: number
+  }> {
+    const match: Record<string, unknown> = {
+      status: 'active',
+      callStartTime: { $gte: startDate, $lte: endDate }
+    }
+    if (filters.brandId) {
+      match.brandId = new mongoose.Types.ObjectId(filters.brandId)
+    }
+    // Unmatched calls only count towards the brand-wide report
+    match.storeId = filters.storeIds && filters.storeIds.length > 0
+      ? { $in: storeIds }
+      : { $in: [...storeIds, null] }
+
+    const [result] = await IVRCall.aggregate([
+      { $match: match },
+      { $addFields: { outcome: outcomeExpression() } },
+      {
+        $facet: {
+          days: [
+            { $match: { storeId: { $ne: null } } },
+            {
+              $group: {
+                _id: {
+                  storeId: '$storeId',
+                  day: { $dateToString: { format: '%Y-%m-%d', date: '$callStartTime', timezone } }
+                },
+                trackedCalls: { $sum: 1 },
+                answeredCalls: { $sum: { $cond: [{ $eq: ['$outcome', 'answered'] }, 1, 0] } },
+                missedCalls: { $sum: { $cond: [{ $in: ['$outcome', ['missed', 'ivr_drop']] }, 1, 0] } }
+              }
+            }
+          ],
+          numbers: [
+            { $match: { storeId: { $ne: null } } },
+            { $group: { _id: '$storeId', virtualNumbers: { $addToSet: '$virtualNumber' } } }
+          ],
+          unmatched: [
+            { $match: { storeId: null } },
+            { $count: 'count' }
+          ]
+        }
+      }
+    ])
+
+    return {
+      days: result?.days || [],
+      numbers: result?.numbers || [],
+      unmatched: result?.unmatched[0]?.count || 0
+    }
+  }
+}
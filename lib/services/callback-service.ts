@@ -0,0 +1,320 @@
+import mongoose from 'mongoose'
+import { IBrand, IIVRCall, IVRCall } from '@/lib/database/models'
+import { User } from '@/lib/database/user-model'
+import { CallbackAttemptOutcome, CallbackOutcome, CallbackTask, ICallbackTask } from '@/lib/database/ivr-models'
+import { classifyCallStatus } from './ivr-analytics-service'
+
+export const DEFAULT_CALLBACK_DUE_MINUTES = 120
+
+// Calls older than this are history (e.g. a first pull from a provider), not something to call back
+const MAX_CALLBACK_AGE_DAYS = 7
+
+const MINUTE_MS = 60 * 1000
+
+export interface CallbackSlaState {
+  dueAt: Date
+  respondedAt: Date | null
+  // null while the first attempt is not yet due
+  met: boolean | null
+  overdue: boolean
+}
+
+export interface CallbackSlaFilters {
+  brandId?: string
+  storeIds?: string[]
+  startDate?: Date
+  endDate?: Date
+}
+
+interface SlaCounts {
+  total: number
+  open: number
+  closed: number
+  met: number
+  breached: number
+  pending: number
+}
+
+export interface CallbackSlaReport extends SlaCounts {
+  complianceRate: number
+  avgResponseMinutes: number
+  outcomes: Record<CallbackOutcome, number>
+  stores: Array<SlaCounts & { storeId: string | null; storeName: string; complianceRate: number }>
+  dueMinutes?: number
+}
+
+export interface CallbackActor {
+  userId: string
+  name: string
+}
+
+type SlaBrand = Pick<IBrand, 'settings'> | null | undefined
+type SlaTask = Pick<ICallbackTask, 'status' | 'dueAt' | 'firstResponseAt'>
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0
+}
+
+export class CallbackService {
+
+  /**
+   * Minutes after a missed call by which the customer should be called back
+   */
+  static getDueMinutes(brand: SlaBrand): number {
+    return brand?.settings?.callbackSla?.dueMinutes || DEFAULT_CALLBACK_DUE_MINUTES
+  }
+
+  /**
+   * React to a newly stored IVR call: missed and IVR-drop calls open (or add
+   * to) a callback task, answered calls close the customer's open tasks.
+   */
+  static async handleCall(brand: SlaBrand, call: IIVRCall): Promise<void> {
+    if (!call.customerNumber) return
+
+    const outcome = classifyCallStatus(call.callStatus)
+    if (outcome === 'answered') {
+      await this.closeAnsweredTasks(call)
+    } else if (outcome === 'missed' || outcome === 'ivr_drop') {
+      await this.openTask(brand, call)
+    }
+  }
+
+  private static async openTask(brand: SlaBrand, call: IIVRCall): Promise<void> {
+    const missedAt = new Date(call.callStartTime)
+    if (Date.now() - missedAt.getTime() > MAX_CALLBACK_AGE_DAYS * 24 * 60 * MINUTE_MS) return
+
+    // Deliveries can arrive out of order: skip customers who already got through afterwards
+    const laterCalls = await IVRCall.find({
+      brandId: call.brandId,
+      customerNumber: call.customerNumber,
+      status: 'active',
+      callStartTime: { $gt: missedAt }
+    })
+      .select('callStatus')
+      .limit(20)
+      .lean()
+    if (laterCalls.some(later => classifyCallStatus(later.callStatus) === 'answered')) return
+
+    const owner = await this.defaultOwner(call.brandId)
+    const filter = {
+      brandId: call.brandId,
+      storeId: call.storeId ?? null,
+      customerNumber: call.customerNumber,
+      status: 'open'
+    }
+    const update = {
+      $setOnInsert: {
+        storeName: call.storeName,
+        customerName: call.customerName || undefined,
+        firstMissedAt: missedAt,
+        dueAt: new Date(missedAt.getTime() + this.getDueMinutes(brand) * MINUTE_MS),
+        ...(owner && { owner, assignedAt: new Date() })
+      },
+      $inc: { missedCallCount: 1 },
+      $max: { lastMissedAt: missedAt },
+      $addToSet: { ivrCallIds: call._id }
+    }
+
+    try {
+      await CallbackTask.updateOne(filter, update, { upsert: true })
+    } catch (error) {
+      // Another missed call from the customer opened the task first
+      if (!(error && typeof error === 'object' && 'code' in error && error.code === 11000)) throw error
+      await CallbackTask.updateOne(filter, update)
+    }
+  }
+
+  private static async closeAnsweredTasks(call: IIVRCall): Promise<void> {
+    const answeredAt = new Date(call.callStartTime)
+
+    await CallbackTask.updateMany(
+      {
+        brandId: call.brandId,
+        customerNumber: call.customerNumber,
+        status: 'open',
+        firstMissedAt: { $lt: answeredAt }
+      },
+      [{
+        $set: {
+          status: 'closed',
+          outcome: 'answered_inbound',
+          closedAt: new Date(),
+          closedBy: 'system',
+          closedByCallId: call._id,
+          firstResponseAt: { $ifNull: ['$firstResponseAt', answeredAt] }
+        }
+      }]
+    )
+  }
+
+  /**
+   * The brand's first active manager, or its owner when it has no manager
+   */
+  static async defaultOwner(brandId: mongoose.Types.ObjectId | string): Promise<ICallbackTask['owner'] | null> {
+    const user = await User.findOne({
+      brandId,
+      role: { $in: ['manager', 'owner'] },
+      status: 'active'
+    })
+      .select('name email role')
+      .sort({ role: 1, createdAt: 1 }) // "manager" sorts before "owner"
+      .lean()
+
+    return user
+      ? { userId: user._id as mongoose.Types.ObjectId, name: user.name, email: user.email, role: user.role }
+      : null
+  }
+
+  /**
+   * Record a callback attempt. Reaching the customer or finding a wrong
+   * number closes the task; "no answer" keeps it open unless `close` is set.
+   */
+  static async recordAttempt(
+    task: ICallbackTask,
+    attempt: { outcome: CallbackAttemptOutcome; note?: string; close?: boolean },
+    actor: CallbackActor
+  ): Promise<ICallbackTask> {
+    const now = new Date()
+
+    task.attempts.push({ outcome: attempt.outcome, note: attempt.note, by: actor.userId, byName: actor.name, at: now })
+    if (!task.firstResponseAt) task.firstResponseAt = now
+
+    if (attempt.outcome !== 'no_answer' || attempt.close) {
+      task.status = 'closed'
+      task.outcome = attempt.outcome
+      task.closedAt = now
+      task.closedBy = actor.name
+    }
+
+    return task.save()
+  }
+
+  /**
+   * Evaluate the SLA of a task: met when the first attempt (or an answered
+   * inbound call) came before the due time
+   */
+  static getSlaState(task: SlaTask, now: Date = new Date()): CallbackSlaState {
+    const dueAt = new Date(task.dueAt)
+    const respondedAt = task.firstResponseAt ? new Date(task.firstResponseAt) : null
+
+    return {
+      dueAt,
+      respondedAt,
+      met: respondedAt ? respondedAt <= dueAt : (now > dueAt ? false : null),
+      overdue: !respondedAt && task.status === 'open' && now > dueAt
+    }
+  }
+
+  /**
+   * MongoDB filter matching open tasks nobody has tried to call back in time
+   */
+  static overdueQuery(now: Date = new Date()): Record<string, unknown> {
+    return {
+      status: 'open',
+      firstResponseAt: { $exists: false },
+      dueAt: { $lt: now }
+    }
+  }
+
+  /**
+   * SLA compliance over the tasks opened in the period, overall and per store
+   */
+  static async getSlaReport(filters: CallbackSlaFilters = {}, now: Date = new Date()): Promise<CallbackSlaReport> {
+    const match: Record<string, unknown> = {}
+    if (filters.brandId) {
+      match.brandId = new mongoose.Types.ObjectId(filters.brandId)
+    }
+    if (filters.storeIds && filters.storeIds.length > 0) {
+      match.storeId = { $in: filters.storeIds.map(id => new mongoose.Types.ObjectId(id)) }
+    }
+    if (filters.startDate || filters.endDate) {
+      const dateFilter: Record<string, Date> = {}
+      if (filters.startDate) dateFilter.$gte = filters.startDate
+      if (filters.endDate) dateFilter.$lte = filters.endDate
+      match.firstMissedAt = dateFilter
+    }
+
+    // Missing fields compare lower than any date
+    const responded = { $gt: ['$firstResponseAt', null] }
+    const counts = {
+      total: { $sum: 1 },
+      open: { $sum: { $cond: [{ $eq: ['$status', 'open'] }, 1, 0] } },
+      closed: { $sum: { $cond: [{ $eq: ['$status', 'closed'] }, 1, 0] } },
+      met: { $sum: { $cond: [{ $and: [responded, { $lte: ['$firstResponseAt', '$dueAt'] }] }, 1, 0] } },
+      breached: {
+        $sum: {
+          $cond: [{
+            $or: [
+              { $and: [responded, { $gt: ['$firstResponseAt', '$dueAt'] }] },
+              { $and: [{ $not: [responded] }, { $lt: ['$dueAt', now] }] }
+            ]
+          }, 1, 0]
+        }
+      },
+      pending: { $sum: { $cond: [{ $and: [{ $not: [responded] }, { $gte: ['$dueAt', now] }] }, 1, 0] } }
+    }
+
+    const [result] = await CallbackTask.aggregate([
+      { $match: match },
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                ...counts,
+                avgResponseMinutes: {
+                  $avg: {
+                    $cond: [
+                      responded,
+                      { $divide: [{ $subtract: ['$firstResponseAt', '$firstMissedAt'] }, MINUTE_MS] },
+                      null
+                    ]
+                  }
+                }
+              }
+            }
+          ],
+          outcomes: [
+            { $match: { outcome: { $exists: true } } },
+            { $group: { _id: '$outcome', count: { $sum: 1 } } }
+          ],
+          stores: [
+            { $group: { _id: '$storeId', storeName: { $first: '$storeName' }, ...counts } },
+            { $sort: { total: -1 } }
+          ]
+        }
+      }
+    ])
+
+    const totals = result?.totals[0] || { total: 0, open: 0, closed: 0, met: 0, breached: 0, pending: 0, avgResponseMinutes: 0 }
+
+    const outcomes: Record<CallbackOutcome, number> = { reached: 0, no_answer: 0, wrong_number: 0, answered_inbound: 0 }
+    for (const { _id, count } of result?.outcomes || []) {
+      outcomes[_id as CallbackOutcome] = count
+    }
+
+    return {
+      total: totals.total,
+      open: totals.open,
+      closed: totals.closed,
+      met: totals.met,
+      breached: totals.breached,
+      pending: totals.pending,
+      complianceRate: percentage(totals.met, totals.met + totals.breached),
+      avgResponseMinutes: Math.round(totals.avgResponseMinutes || 0),
+      outcomes,
+      stores: (result?.stores || []).map((store: SlaCounts & { _id: mongoose.Types.ObjectId | null; storeName?: string }) => ({
+        storeId: store._id ? String(store._id) : null,
+        storeName: store._id ? store.storeName || 'Unknown store' : 'Unmatched calls',
+        total: store.total,
+        open: store.open,
+        closed: store.closed,
+        met: store.met,
+        breached: store.breached,
+        pending: store.pending,
+        complianceRate: percentage(store.met, store.met + store.breached)
+      }))
+    }
+  }
+}
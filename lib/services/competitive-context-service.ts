@@ -0,0 +1,242 @@
+import mongoose from 'mongoose'
+import { Performance, Review, Store } from '@/lib/database/models'
+
+export type PeerGroupLevel = 'brand_city_category' | 'brand_city' | 'brand_category' | 'brand'
+
+// Narrowest first; a store falls back to the next level when its group is too small
+const PEER_GROUP_LEVELS: PeerGroupLevel[] = ['brand_city_category', 'brand_city', 'brand_category', 'brand']
+
+// A store plus at least two peers
+const MIN_PEER_GROUP_SIZE = 3
+
+// Review velocity window, matching `recentReviews` in the visibility score
+const VELOCITY_DAYS = 30
+
+// Performance rows longer than this are too coarse to tell week-to-week movement
+const MAX_SNAPSHOT_DAYS = 31
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface CompetitiveContext {
+  storeId: string
+  gmbLocationId?: string
+  peerGroup: {
+    level: PeerGroupLevel
+    size: number
+  }
+  // Raw values the store is benchmarked on
+  benchmarks: {
+    averageRating: number | null
+    reviewVelocity: number
+    engagementRate: number | null
+  }
+  // 0-100 scores for the visibility score's Competitive Context component.
+  // Left undefined when there is not enough data to compute them.
+  marketPosition?: number
+  consistency?: number
+  trendDirection?: number
+}
+
+interface PeerStore {
+  _id: mongoose.Types.ObjectId
+  brandId: mongoose.Types.ObjectId
+  gmbLocationId?: string
+  primaryCategory?: string
+  address?: { city?: string }
+}
+
+interface PerformanceSnapshot {
+  endTime: Date
+  dailyViews: number
+}
+
+function peerKey(store: PeerStore, level: PeerGroupLevel): string | null {
+  const city = store.address?.city?.trim().toLowerCase()
+  const category = store.primaryCategory?.trim().toLowerCase()
+
+  switch (level) {
+    case 'brand_city_category':
+      return city && category ? `${store.brandId}|${city}|${category}` : null
+    case 'brand_city':
+      return city ? `${store.brandId}|${city}` : null
+    case 'brand_category':
+      return category ? `${store.brandId}|${category}` : null
+    case 'brand':
+      return String(store.brandId)
+  }
+}
+
+/**
+ * Share of peers the value beats (ties count half), on a 0-100 scale
+ */
+export function percentileRank(value: number, peerValues: number[]): number | undefined {
+  if (peerValues.length === 0) return undefined
+
+  const below = peerValues.filter(peer => peer < value).length
+  const equal = peerValues.filter(peer => peer === value).length
+  return Math.round(((below + equal / 2) / peerValues.length) * 100)
+}
+
+/**
+ * 100 when daily views are flat across snapshots, falling to 0 as the
+ * coefficient of variation reaches 1
+ */
+export function consistencyScore(snapshots: PerformanceSnapshot[]): number | undefined {
+  if (snapshots.length < 3) return undefined
+
+  const values = snapshots.map(snapshot => snapshot.dailyViews)
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  if (mean === 0) return undefined
+
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  const coefficientOfVariation = Math.sqrt(variance) / mean
+  return Math.round(100 * (1 - Math.min(coefficientOfVariation, 1)))
+}
+
+/**
+ * Compares daily views in the recent half of the window with the older half.
+ * 50 is flat; +100% or more is 100 and -100% is 0.
+ */
+export function trendScore(snapshots: PerformanceSnapshot[], since: Date, until: Date): number | undefined {
+  const midpoint = since.getTime() + (until.getTime() - since.getTime()) / 2
+  const older = snapshots.filter(snapshot => snapshot.endTime.getTime() < midpoint)
+  const recent = snapshots.filter(snapshot => snapshot.endTime.getTime() >= midpoint)
+  if (older.length === 0 || recent.length === 0) return undefined
+
+  const average = (items: PerformanceSnapshot[]) => items.reduce((sum, item) => sum + item.dailyViews, 0) / items.length
+  const before = average(older)
+  if (before === 0) return undefined
+
+  const changePercent = ((average(recent) - before) / before) * 100
+  return Math.round(Math.max(0, Math.min(100, 50 + changePercent / 2)))
+}
+
+export class CompetitiveContextService {
+
+  /**
+   * Benchmark each store against peers in the same brand, city and primary
+   * category, and derive consistency and trend from its Performance history.
+   * `days` is the history window used for engagement, consistency and trend.
+   */
+  static async computeForStores(storeQuery: Record<string, unknown>, days: number = 90): Promise<CompetitiveContext[]> {
+    const stores = await Store.find({ ...storeQuery, status: 'active' })
+      .select('brandId gmbLocationId primaryCategory address.city')
+      .lean() as unknown as PeerStore[]
+    if (stores.length === 0) return []
+
+    const storeIds = stores.map(store => store._id)
+    const now = new Date()
+    const since = new Date(now.getTime() - days * DAY_MS)
+    const velocitySince = new Date(now.getTime() - VELOCITY_DAYS * DAY_MS)
+
+    const [reviewStats, performanceRows] = await Promise.all([
+      Review.aggregate([
+        { $match: { storeId: { $in: storeIds }, status: 'active' } },
+        {
+          $group: {
+            _id: '$storeId',
+            averageRating: { $avg: '$starRating' },
+            recent: { $sum: { $cond: [{ $gte: ['$gmbCreateTime', velocitySince] }, 1, 0] } }
+          }
+        }
+      ]),
+      Performance.find({
+        storeId: { $in: storeIds },
+        status: 'active',
+        'period.endTime': { $gte: since, $lte: now }
+      })
+        .select('storeId period.startTime period.endTime views actions')
+        .lean()
+    ])
+
+    const reviewsByStore = new Map(reviewStats.map(stat => [String(stat._id), stat]))
+
+    const snapshotsByStore = new Map<string, PerformanceSnapshot[]>()
+    const engagementByStore = new Map<string, { views: number; actions: number }>()
+    for (const row of performanceRows) {
+      const key = String(row.storeId)
+      const periodDays = Math.max(1, Math.round((row.period.endTime.getTime() - row.period.startTime.getTime()) / DAY_MS))
+
+      const engagement = engagementByStore.get(key) || { views: 0, actions: 0 }
+      engagement.views += row.views || 0
+      engagement.actions += row.actions || 0
+      engagementByStore.set(key, engagement)
+
+      if (periodDays <= MAX_SNAPSHOT_DAYS) {
+        const snapshots = snapshotsByStore.get(key) || []
+        snapshots.push({ endTime: row.period.endTime, dailyViews: (row.views || 0) / periodDays })
+        snapshotsByStore.set(key, snapshots)
+      }
+    }
+
+    const benchmarks = new Map(stores.map(store => {
+      const key = String(store._id)
+      const reviews = reviewsByStore.get(key)
+      const engagement = engagementByStore.get(key)
+      return [key, {
+        averageRating: reviews ? Math.round(reviews.averageRating * 100) / 100 : null,
+        reviewVelocity: reviews?.recent || 0,
+        engagementRate: engagement && engagement.views > 0
+          ? Math.round((engagement.actions / engagement.views) * 10000) / 100
+          : null
+      }]
+    }))
+
+    // Group sizes for every level, so each store can pick the narrowest usable one
+    const groups = new Map<string, PeerStore[]>()
+    for (const store of stores) {
+      for (const level of PEER_GROUP_LEVELS) {
+        const key = peerKey(store, level)
+        if (!key) continue
+        const members = groups.get(`${level}:${key}`) || []
+        members.push(store)
+        groups.set(`${level}:${key}`, members)
+      }
+    }
+
+    return stores.map(store => {
+      const key = String(store._id)
+      const own = benchmarks.get(key)!
+
+      let level: PeerGroupLevel = 'brand'
+      let members: PeerStore[] = groups.get(`brand:${store.brandId}`) || [store]
+      for (const candidate of PEER_GROUP_LEVELS) {
+        const groupKey = peerKey(store, candidate)
+        const group = groupKey ? groups.get(`${candidate}:${groupKey}`) : undefined
+        if (group && group.length >= MIN_PEER_GROUP_SIZE) {
+          level = candidate
+          members = group
+          break
+        }
+      }
+
+      const peers = members
+        .filter(member => String(member._id) !== key)
+        .map(member => benchmarks.get(String(member._id))!)
+
+      const ranks = [
+        own.averageRating !== null
+          ? percentileRank(own.averageRating, peers.flatMap(peer => peer.averageRating !== null ? [peer.averageRating] : []))
+          : undefined,
+        percentileRank(own.reviewVelocity, peers.map(peer => peer.reviewVelocity)),
+        own.engagementRate !== null
+          ? percentileRank(own.engagementRate, peers.flatMap(peer => peer.engagementRate !== null ? [peer.engagementRate] : []))
+          : undefined
+      ].filter((rank): rank is number => rank !== undefined)
+
+      const snapshots = snapshotsByStore.get(key) || []
+
+      return {
+        storeId: key,
+        gmbLocationId: store.gmbLocationId,
+        peerGroup: { level, size: members.length },
+        benchmarks: own,
+        marketPosition: ranks.length > 0
+          ? Math.round(ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length)
+          : undefined,
+        consistency: consistencyScore(snapshots),
+        trendDirection: trendScore(snapshots, since, now)
+      }
+    })
+  }
+}
@@ -0,0 +1,318 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { Brand, Store } from '@/lib/database/models'
+import { ContentType, IContentDraft } from '@/lib/database/content-models'
+
+export const CONTENT_TYPES: Record<ContentType, { label: string; maxLength: number; guidance: string }> = {
+  gmb_post: {
+    label: 'GMB Post',
+    maxLength: 1500,
+    guidance: 'A Google Business Profile update post. Open with a hook, keep it to 2-4 short paragraphs and end with a clear call to action. No hashtags.'
+  },
+  store_description: {
+    label: 'Store Description',
+    maxLength: 750,
+    guidance: 'The business description shown on Google. Describe what the location offers and who it is for. No URLs, phone numbers, promotions or prices (Google rejects them).'
+  },
+  microsite_tagline: {
+    label: 'Microsite Tagline',
+    maxLength: 80,
+    guidance: 'A short, memorable tagline for the store microsite. One line, no trailing full stop.'
+  },
+  microsite_about: {
+    label: 'Microsite About Section',
+    maxLength: 1000,
+    guidance: 'The "About" section of the store microsite. Warm and specific to this location and its neighbourhood, 2-3 paragraphs.'
+  }
+}
+
+// Store-level content needs a store; posts can be brand-wide
+export const STORE_CONTENT_TYPES: ContentType[] = ['store_description', 'microsite_tagline', 'microsite_about']
+
+export const CONTENT_TONES = ['friendly', 'professional', 'enthusiastic', 'informative'] as const
+
+export interface ContentContext {
+  brand: {
+    name: string
+    industry?: string
+    description?: string
+    primaryCategory?: string
+    aboutSection?: string
+    missionStatement?: string
+    valueProposition?: string
+    products: string[]
+  }
+  store?: {
+    name: string
+    locality?: string
+    city?: string
+    state?: string
+    primaryCategory?: string
+    additionalCategories: string[]
+    tagline?: string
+    amenities: string[]
+  }
+}
+
+export interface GenerateContentInput {
+  type: ContentType
+  topic?: string
+  tone?: string
+  keywords?: string[]
+  variants: number
+}
+
+/**
+ * A text model that can write content variants for a brand or store
+ */
+export interface ContentGenerator {
+  readonly name: string
+  generate(input: GenerateContentInput, context: ContentContext): Promise<string[]>
+}
+
+/**
+ * Trim text to `maxLength`, preferring a sentence boundary, then a word boundary
+ */
+export function fitToLength(text: string, maxLength: number): string {
+  const clean = text.trim()
+  if (clean.length <= maxLength) return clean
+
+  const cut = clean.slice(0, maxLength)
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '))
+  if (sentenceEnd > maxLength * 0.5) return cut.slice(0, sentenceEnd + 1)
+
+  const wordEnd = cut.lastIndexOf(' ')
+  return (wordEnd > 0 ? cut.slice(0, wordEnd) : cut).replace(/[,;:\s]+$/, '')
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Offline generator. Fills templates from the brand and store data, picking
+ * templates with a hash of the request so the same input always gives the
+ * same output.
+ */
+export class StubContentGenerator implements ContentGenerator {
+  readonly name = 'stub'
+
+  async generate(input: GenerateContentInput, context: ContentContext): Promise<string[]> {
+    const seed = hashString(JSON.stringify([input.type, input.topic, input.tone, input.keywords, context.brand.name, context.store?.name]))
+
+    return Array.from({ length: input.variants }, (_, index) => this.compose(input, context, seed + index))
+  }
+
+  private compose(input: GenerateContentInput, context: ContentContext, seed: number): string {
+    const pick = <T>(options: T[], offset: number = 0) => options[(seed + offset) % options.length]
+
+    const name = context.store?.name || context.brand.name
+    const category = (context.store?.primaryCategory || context.brand.primaryCategory || context.brand.industry || 'business').toLowerCase()
+    const area = [context.store?.locality, context.store?.city].filter(Boolean).join(', ')
+    const where = area ? ` in ${area}` : ''
+    const keywords = (input.keywords || []).filter(Boolean)
+    const highlight = context.brand.valueProposition || context.brand.products.slice(0, 3).join(', ')
+    const amenities = context.store?.amenities.length ? context.store.amenities.join(' and ').toLowerCase() : ''
+
+    switch (input.type) {
+      case 'microsite_tagline':
+        return pick([
+          `Your neighbourhood ${category}${area ? ` in ${context.store?.locality || context.store?.city}` : ''}`,
+          `${context.brand.name}, right here${where}`,
+          `Where ${context.store?.city || 'the city'} comes for ${category}`,
+          `${context.brand.name}: made for ${context.store?.locality || 'you'}`
+        ])
+
+      case 'store_description':
+        return [
+          `${name} is a ${category}${where}.`,
+          context.brand.description || context.brand.aboutSection,
+          highlight ? `Customers come to us for ${highlight}.` : '',
+          amenities ? `We offer ${amenities}.` : '',
+          keywords.length ? `Ask us about ${keywords.join(', ')}.` : '',
+          pick(['We look forward to welcoming you.', 'Visit us or get in touch today.', 'Drop by and see us.'], 1)
+        ].filter(Boolean).join(' ')
+
+      case 'microsite_about':
+        return [
+          `${name} brings ${context.brand.name} to ${area || 'your neighbourhood'}.`,
+          context.brand.aboutSection || context.brand.description || '',
+          context.brand.missionStatement ? `\n\n${context.brand.missionStatement}` : '',
+          highlight ? `\n\nAt this location you'll find ${highlight}.` : '',
+          amenities ? ` We offer ${amenities} for your convenience.` : '',
+          `\n\n${pick(['Come and say hello.', 'We look forward to seeing you soon.', 'Visit us today.'], 2)}`
+        ].filter(Boolean).join(' ').replace(/ \n/g, '\n')
+
+      case 'gmb_post':
+      default: {
+        const topic = input.topic || pick(['what makes us different', 'our latest update', 'a visit this week'], 3)
+        const opener = pick([
+          `Looking for a great ${category}${where}?`,
+          `Big news from ${name}!`,
+          `Here's ${topic} at ${name}.`,
+          `There's never been a better time to visit ${name}.`
+        ])
+        return [
+          opener,
+          input.topic ? `We're excited to share ${input.topic}.` : '',
+          highlight ? `Discover ${highlight}.` : '',
+          keywords.length ? `Perfect if you're searching for ${keywords.join(', ')}.` : '',
+          pick(['Visit us today!', 'Stop by and see us!', 'Get in touch to find out more.', 'We look forward to seeing you!'], 4)
+        ].filter(Boolean).join(' ')
+      }
+    }
+  }
+}
+
+/**
+ * Gemini-backed generator (requires GEMINI_API_KEY)
+ */
+export class GeminiContentGenerator implements ContentGenerator {
+  readonly name = 'gemini-1.5-flash'
+  private model: any
+
+  constructor(apiKey: string = process.env.GEMINI_API_KEY || '') {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not configured')
+    }
+    this.model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: 'gemini-1.5-flash' })
+  }
+
+  async generate(input: GenerateContentInput, context: ContentContext): Promise<string[]> {
+    const spec = CONTENT_TYPES[input.type]
+
+    const prompt = `You write marketing copy for local businesses.
+
+Write ${input.variants} different version(s) of: ${spec.label}
+${spec.guidance}
+Each version must be at most ${spec.maxLength} characters.
+Tone: ${input.tone || 'friendly'}
+${input.topic ? `Topic: ${input.topic}\n` : ''}${input.keywords?.length ? `Work in these keywords naturally: ${input.keywords.join(', ')}\n` : ''}
+Only use facts from this business data; do not invent offers, prices or awards:
+${JSON.stringify(context, null, 2)}
+
+Return ONLY a JSON array of strings, no other text.`
+
+    const result = await this.model.generateContent(prompt)
+    const response = await result.response
+    let textResponse = response.text().trim()
+
+    // Remove markdown code blocks if present
+    if (textResponse.startsWith('```')) {
+      textResponse = textResponse.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '')
+    }
+
+    const parsed = JSON.parse(textResponse)
+    if (!Array.isArray(parsed)) {
+      throw new Error('Gemini did not return a list of variants')
+    }
+
+    return parsed.filter((variant): variant is string => typeof variant === 'string' && variant.trim().length > 0)
+  }
+}
+
+/**
+ * Generator selected by CONTENT_AI_MODEL ("gemini" or "stub"). Defaults to
+ * Gemini when GEMINI_API_KEY is set, otherwise the offline stub.
+ */
+export function getContentGenerator(name: string = process.env.CONTENT_AI_MODEL || (process.env.GEMINI_API_KEY ? 'gemini' : 'stub')): ContentGenerator {
+  switch (name) {
+    case 'gemini':
+      return new GeminiContentGenerator()
+    case 'stub':
+      return new StubContentGenerator()
+    default:
+      throw new Error(`Unknown content AI model: ${name}`)
+  }
+}
+
+export class ContentAiService {
+
+  /**
+   * Brand (and optionally store) facts the generator is allowed to use
+   */
+  static async buildContext(brandId: string, storeId?: string): Promise<ContentContext | null> {
+    const brand = await Brand.findById(brandId)
+      .select('name industry description primaryCategory content products.name')
+      .lean()
+    if (!brand) return null
+
+    const context: ContentContext = {
+      brand: {
+        name: brand.name,
+        industry: brand.industry,
+        description: brand.description,
+        primaryCategory: brand.primaryCategory,
+        aboutSection: brand.content?.aboutSection,
+        missionStatement: brand.content?.missionStatement,
+        valueProposition: brand.content?.valueProposition,
+        products: (brand.products || []).map(product => product.name).filter(Boolean).slice(0, 10)
+      }
+    }
+
+    if (storeId) {
+      const store = await Store.findOne({ _id: storeId, brandId })
+        .select('name address.locality address.city address.state primaryCategory additionalCategories microsite.tagline amenities')
+        .lean()
+      if (!store) return null
+
+      context.store = {
+        name: store.name,
+        locality: store.address?.locality,
+        city: store.address?.city,
+        state: store.address?.state,
+        primaryCategory: store.primaryCategory,
+        additionalCategories: store.additionalCategories || [],
+        tagline: store.microsite?.tagline,
+        amenities: [
+          store.amenities?.parkingAvailable ? 'Parking' : '',
+          store.amenities?.deliveryOption ? 'Delivery' : ''
+        ].filter(Boolean)
+      }
+    }
+
+    return context
+  }
+
+  /**
+   * Generate variants and enforce the length limit for the content type
+   */
+  static async generate(
+    input: GenerateContentInput,
+    context: ContentContext,
+    generator: ContentGenerator = getContentGenerator()
+  ): Promise<{ model: string; variants: string[] }> {
+    const { maxLength } = CONTENT_TYPES[input.type]
+    const variants = await generator.generate(input, context)
+
+    return {
+      model: generator.name,
+      variants: variants.map(variant => fitToLength(variant, maxLength))
+    }
+  }
+
+  /**
+   * Write a store-level draft into the store it was generated for.
+   * Post drafts are applied from the post composer instead.
+   */
+  static async applyToStore(draft: IContentDraft): Promise<boolean> {
+    const fields: Partial<Record<ContentType, string>> = {
+      store_description: 'description',
+      microsite_tagline: 'microsite.tagline',
+      microsite_about: 'microsite.aboutSection'
+    }
+
+    const field = fields[draft.type]
+    if (!field || !draft.storeId) return false
+
+    const result = await Store.updateOne(
+      { _id: draft.storeId },
+      { $set: { [field]: fitToLength(draft.text, CONTENT_TYPES[draft.type].maxLength) } }
+    )
+    return result.matchedCount > 0
+  }
+}
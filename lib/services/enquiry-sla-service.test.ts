@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { EnquirySlaService } from './enquiry-sla-service'
+
+const HOUR_MS = 60 * 60 * 1000
+const NOW = new Date('2026-03-10T12:00:00.000Z')
+
+type Doc = Record<string, any>
+
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * HOUR_MS)
+
+/**
+ * Just enough of MongoDB's matching for the operators overdueQuery uses
+ */
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return (condition as Doc[]).some(branch => matches(doc, branch))
+
+    const value = key.split('.').reduce<any>((current, part) => current?.[part], doc)
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) return value === condition
+
+    return Object.entries(condition as Doc).every(([operator, operand]) => {
+      if (operator === '$exists') return (value !== undefined) === operand
+      if (operator === '$lt') return value !== undefined && value < operand
+      if (operator === '$in') return operand.includes(value)
+      throw new Error(`Unsupported operator ${operator}`)
+    })
+  })
+}
+
+const enquiries: [string, Doc][] = [
+  ['new, inside its deadlines', { status: 'new', createdAt: hoursAgo(2), sla: { firstResponseDueAt: hoursAgo(-22), resolutionDueAt: hoursAgo(-70) } }],
+  ['new, past its first response deadline', { status: 'new', createdAt: hoursAgo(30), sla: { firstResponseDueAt: hoursAgo(6), resolutionDueAt: hoursAgo(-42) } }],
+  ['answered, past its first response deadline', { status: 'new', createdAt: hoursAgo(30), firstResponseAt: hoursAgo(29), sla: { firstResponseDueAt: hoursAgo(6), resolutionDueAt: hoursAgo(-42) } }],
+  ['in progress, past its resolution deadline', { status: 'in-progress', createdAt: hoursAgo(80), sla: { firstResponseDueAt: hoursAgo(56), resolutionDueAt: hoursAgo(8) } }],
+  ['resolved, past its resolution deadline', { status: 'resolved', createdAt: hoursAgo(80), sla: { firstResponseDueAt: hoursAgo(56), resolutionDueAt: hoursAgo(8) } }],
+  ['legacy new, inside the default deadlines', { status: 'new', createdAt: hoursAgo(20) }],
+  ['legacy new, past the default first response deadline', { status: 'new', createdAt: hoursAgo(30) }],
+  ['legacy answered, inside the default resolution deadline', { status: 'in-progress', createdAt: hoursAgo(30), firstResponseAt: hoursAgo(29) }],
+  ['legacy in progress, past the default resolution deadline', { status: 'in-progress', createdAt: hoursAgo(80), firstResponseAt: hoursAgo(79) }],
+  ['legacy closed', { status: 'closed', createdAt: hoursAgo(200) }],
+]
+
+describe('EnquirySlaService.overdueQuery', () => {
+  it.each(enquiries)('agrees with getSlaState for an enquiry %s', (_label, enquiry) => {
+    const expected = EnquirySlaService.getSlaState(enquiry as any, NOW).overdue
+    expect(matches(enquiry, EnquirySlaService.overdueQuery(NOW))).toBe(expected)
+  })
+})
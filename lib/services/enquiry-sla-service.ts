@@ -0,0 +1,101 @@
+import { IBrand, IEnquiry } from '@/lib/database/models'
+
+export const DEFAULT_FIRST_RESPONSE_HOURS = 24
+export const DEFAULT_RESOLUTION_HOURS = 72
+
+const OPEN_STATUSES = ['new', 'in-progress']
+const HOUR_MS = 60 * 60 * 1000
+
+export interface EnquirySlaState {
+  firstResponseDueAt: Date
+  resolutionDueAt: Date
+  firstResponseOverdue: boolean
+  resolutionOverdue: boolean
+  overdue: boolean
+}
+
+type SlaBrand = Pick<IBrand, 'settings'> | null | undefined
+type SlaEnquiry = Pick<IEnquiry, 'status' | 'sla' | 'firstResponseAt' | 'createdAt'>
+
+export class EnquirySlaService {
+
+  /**
+   * Resolve the brand's SLA targets, falling back to defaults
+   */
+  static getSlaHours(brand: SlaBrand): { firstResponseHours: number; resolutionHours: number } {
+    return {
+      firstResponseHours: brand?.settings?.enquirySla?.firstResponseHours || DEFAULT_FIRST_RESPONSE_HOURS,
+      resolutionHours: brand?.settings?.enquirySla?.resolutionHours || DEFAULT_RESOLUTION_HOURS
+    }
+  }
+
+  /**
+   * Compute SLA deadlines for a new enquiry
+   */
+  static computeDeadlines(brand: SlaBrand, createdAt: Date = new Date()): { firstResponseDueAt: Date; resolutionDueAt: Date } {
+    const { firstResponseHours, resolutionHours } = this.getSlaHours(brand)
+    return {
+      firstResponseDueAt: new Date(createdAt.getTime() + firstResponseHours * HOUR_MS),
+      resolutionDueAt: new Date(createdAt.getTime() + resolutionHours * HOUR_MS)
+    }
+  }
+
+  /**
+   * Evaluate the SLA state of an enquiry. Enquiries created before SLA
+   * tracking get deadlines derived from their creation time and the defaults.
+   */
+  static getSlaState(enquiry: SlaEnquiry, now: Date = new Date()): EnquirySlaState {
+    const fallback = this.computeDeadlines(null, new Date(enquiry.createdAt))
+    const firstResponseDueAt = enquiry.sla?.firstResponseDueAt ? new Date(enquiry.sla.firstResponseDueAt) : fallback.firstResponseDueAt
+    const resolutionDueAt = enquiry.sla?.resolutionDueAt ? new Date(enquiry.sla.resolutionDueAt) : fallback.resolutionDueAt
+
+    const awaitingFirstResponse = !enquiry.firstResponseAt && enquiry.status === 'new'
+    const isOpen = OPEN_STATUSES.includes(enquiry.status)
+
+    const firstResponseOverdue = awaitingFirstResponse && now > firstResponseDueAt
+    const resolutionOverdue = isOpen && now > resolutionDueAt
+
+    return {
+      firstResponseDueAt,
+      resolutionDueAt,
+      firstResponseOverdue,
+      resolutionOverdue,
+      overdue: firstResponseOverdue || resolutionOverdue
+    }
+  }
+
+  /**
+   * MongoDB filter matching enquiries that have breached either SLA, with the
+   * same default deadlines as getSlaState for enquiries created before SLA tracking
+   */
+  static overdueQuery(now: Date = new Date()): Record<string, unknown> {
+    // Created before these, an enquiry without deadlines is past the default ones
+    const firstResponseCutoff = new Date(now.getTime() - DEFAULT_FIRST_RESPONSE_HOURS * HOUR_MS)
+    const resolutionCutoff = new Date(now.getTime() - DEFAULT_RESOLUTION_HOURS * HOUR_MS)
+
+    return {
+      $or: [
+        {
+          status: 'new',
+          firstResponseAt: { $exists: false },
+          'sla.firstResponseDueAt': { $lt: now }
+        },
+        {
+          status: 'new',
+          firstResponseAt: { $exists: false },
+          'sla.firstResponseDueAt': { $exists: false },
+          createdAt: { $lt: firstResponseCutoff }
+        },
+        {
+          status: { $in: OPEN_STATUSES },
+          'sla.resolutionDueAt': { $lt: now }
+        },
+        {
+          status: { $in: OPEN_STATUSES },
+          'sla.resolutionDueAt': { $exists: false },
+          createdAt: { $lt: resolutionCutoff }
+        }
+      ]
+    }
+  }
+}
@@ -0,0 +1,374 @@
+import mongoose from 'mongoose'
+import { IStore, Post, Review, Store } from '@/lib/database/models'
+import { AuditSeverity, IAuditFinding, IStoreAudit, StoreAudit } from '@/lib/database/audit-models'
+
+export const AUDIT_SEVERITIES: AuditSeverity[] = ['critical', 'high', 'medium', 'low']
+
+// How much each failed rule costs, relative to the others
+const SEVERITY_WEIGHTS: Record<AuditSeverity, number> = {
+  critical: 20,
+  high: 10,
+  medium: 5,
+  low: 2
+}
+
+const RECENT_POST_DAYS = 30
+const STALE_SYNC_DAYS = 7
+const MIN_GALLERY_PHOTOS = 3
+
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const
+
+export type AuditStore = Pick<IStore,
+  'name' | 'storeCode' | 'brandId' | 'phone' | 'address' | 'primaryCategory' | 'additionalCategories' |
+  'hoursOfOperation' | 'microsite' | 'socialMedia' | 'gmbLocationId' | 'verified' | 'lastSyncAt' | 'gmbData'
+> & { _id: mongoose.Types.ObjectId }
+
+export interface AuditContext {
+  store: AuditStore
+  unansweredReviews: number
+  negativeUnansweredReviews: number
+  lastPostAt?: Date
+  now: Date
+}
+
+export interface AuditRule {
+  id: string
+  category: 'verification' | 'profile' | 'content' | 'engagement' | 'sync'
+  severity: AuditSeverity
+  title: string
+  recommendation: string
+  // Returns a message describing the problem, or null when the store passes
+  check: (context: AuditContext) => string | null
+}
+
+const daysBetween = (from: Date, to: Date) => Math.floor((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000))
+
+export const AUDIT_RULES: AuditRule[] = [
+  {
+    id: 'not_linked',
+    category: 'verification',
+    severity: 'critical',
+    title: 'Not linked to Google Business Profile',
+    recommendation: 'Link the store to its GMB location from the Stores page so it can be synced and managed.',
+    check: ({ store }) => store.gmbLocationId ? null : 'The store has no GMB location linked.'
+  },
+  {
+    id: 'unverified',
+    category: 'verification',
+    severity: 'critical',
+    title: 'Profile not verified',
+    recommendation: 'Complete Google verification so the profile can appear in Search and Maps.',
+    check: ({ store }) => store.verified || store.gmbData?.verified ? null : 'The GMB profile is not verified.'
+  },
+  {
+    id: 'voice_of_merchant',
+    category: 'verification',
+    severity: 'high',
+    title: 'Voice of Merchant not compliant',
+    recommendation: 'Resolve any verification or policy issues so the business can manage its own profile.',
+    check: ({ store }) => {
+      const state = store.gmbData?.voiceOfMerchantState?.complianceState
+      if (state === 'COMPLIANT') return null
+      return state === 'NON_COMPLIANT'
+        ? 'Google reports the profile as non-compliant.'
+        : 'Voice of Merchant state is unknown; run a verification check.'
+    }
+  },
+  {
+    id: 'closed_status',
+    category: 'profile',
+    severity: 'high',
+    title: 'Listed as closed',
+    recommendation: 'Update the business status on Google if the store is trading.',
+    check: ({ store }) => {
+      const status = store.gmbData?.metadata?.businessStatus
+      if (status === 'CLOSED_PERMANENTLY') return 'Google lists this store as permanently closed.'
+      if (status === 'CLOSED_TEMPORARILY') return 'Google lists this store as temporarily closed.'
+      return null
+    }
+  },
+  {
+    id: 'missing_hours',
+    category: 'profile',
+    severity: 'high',
+    title: 'Missing opening hours',
+    recommendation: 'Add opening and closing times for every day the store is open.',
+    check: ({ store }) => {
+      const hours = store.hoursOfOperation
+      const openDays = DAYS.filter(day => hours?.[day]?.isOpen)
+      if (openDays.length === 0) return 'No opening hours are set.'
+
+      const incomplete = openDays.filter(day => !hours?.[day]?.openTime || !hours?.[day]?.closeTime)
+      return incomplete.length > 0
+        ? `Opening times are missing for ${incomplete.join(', ')}.`
+        : null
+    }
+  },
+  {
+    id: 'missing_primary_category',
+    category: 'profile',
+    severity: 'high',
+    title: 'No primary category',
+    recommendation: 'Set the primary category that best describes the business.',
+    check: ({ store }) => store.primaryCategory || store.gmbData?.metadata?.primaryCategory
+      ? null
+      : 'The store has no primary category.'
+  },
+  {
+    id: 'no_additional_categories',
+    category: 'profile',
+    severity: 'medium',
+    title: 'No additional categories',
+    recommendation: 'Add relevant secondary categories to appear in more searches.',
+    check: ({ store }) => (store.additionalCategories?.length || store.gmbData?.metadata?.additionalCategories?.length)
+      ? null
+      : 'The store has no additional categories.'
+  },
+  {
+    id: 'missing_website',
+    category: 'profile',
+    severity: 'high',
+    title: 'Missing website',
+    recommendation: 'Add the store or brand website so customers can click through.',
+    check: ({ store }) => store.socialMedia?.website || store.gmbData?.metadata?.websiteUrl
+      ? null
+      : 'No website is set on the store or its GMB profile.'
+  },
+  {
+    id: 'missing_phone',
+    category: 'profile',
+    severity: 'high',
+    title: 'Missing phone number',
+    recommendation: 'Add a phone number so customers can call from Search and Maps.',
+    check: ({ store }) => store.phone || store.gmbData?.metadata?.phoneNumber
+      ? null
+      : 'No phone number is set on the store or its GMB profile.'
+  },
+  {
+    id: 'missing_coordinates',
+    category: 'profile',
+    severity: 'low',
+    title: 'Missing map coordinates',
+    recommendation: 'Add latitude and longitude so the microsite map points at the right place.',
+    check: ({ store }) => store.address?.latitude != null && store.address?.longitude != null
+      ? null
+      : 'The store address has no coordinates.'
+  },
+  {
+    id: 'missing_hero_image',
+    category: 'content',
+    severity: 'medium',
+    title: 'No hero image',
+    recommendation: 'Upload a hero image for the store microsite.',
+    check: ({ store }) => store.microsite?.heroImage?.url ? null : 'The microsite has no hero image.'
+  },
+  {
+    id: 'few_photos',
+    category: 'content',
+    severity: 'low',
+    title: 'Too few photos',
+    recommendation: `Upload at least ${MIN_GALLERY_PHOTOS} photos of the store, products or team.`,
+    check: ({ store }) => {
+      const count = store.microsite?.existingImages?.length || 0
+      return count >= MIN_GALLERY_PHOTOS ? null : `The store has ${count} gallery photo${count === 1 ? '' : 's'}.`
+    }
+  },
+  {
+    id: 'missing_tagline',
+    category: 'content',
+    severity: 'low',
+    title: 'No tagline',
+    recommendation: 'Add a short tagline describing what makes this store worth visiting.',
+    check: ({ store }) => store.microsite?.tagline ? null : 'The microsite has no tagline.'
+  },
+  {
+    id: 'no_recent_posts',
+    category: 'engagement',
+    severity: 'medium',
+    title: 'No recent posts',
+    recommendation: `Publish at least one GMB post every ${RECENT_POST_DAYS} days to keep the profile active.`,
+    check: ({ lastPostAt, now }) => {
+      if (!lastPostAt) return 'The store has never published a GMB post.'
+      const days = daysBetween(lastPostAt, now)
+      return days > RECENT_POST_DAYS ? `The last post was ${days} days ago.` : null
+    }
+  },
+  {
+    id: 'unanswered_reviews',
+    category: 'engagement',
+    severity: 'high',
+    title: 'Unanswered reviews',
+    recommendation: 'Reply to every review, starting with negative ones.',
+    check: ({ unansweredReviews, negativeUnansweredReviews }) => {
+      if (unansweredReviews === 0) return null
+      const negative = negativeUnansweredReviews > 0 ? ` (${negativeUnansweredReviews} rated 1-2 stars)` : ''
+      return `${unansweredReviews} review${unansweredReviews === 1 ? ' has' : 's have'} no reply${negative}.`
+    }
+  },
+  {
+    id: 'stale_sync',
+    category: 'sync',
+    severity: 'low',
+    title: 'GMB data out of date',
+    recommendation: 'Run a GMB sync so the dashboard reflects the live profile.',
+    check: ({ store, now }) => {
+      const lastSync = store.gmbData?.lastSyncAt || store.lastSyncAt
+      if (!store.gmbLocationId) return null
+      if (!lastSync) return 'The store has never been synced from GMB.'
+      const days = daysBetween(new Date(lastSync), now)
+      return days > STALE_SYNC_DAYS ? `Last synced ${days} days ago.` : null
+    }
+  }
+]
+
+/**
+ * Run every rule against one store. The score is the share of rule weight
+ * that passed, so one critical failure costs more than several low ones.
+ */
+export function evaluateStore(context: AuditContext): { score: number; findings: IAuditFinding[] } {
+  const findings: IAuditFinding[] = []
+  let totalWeight = 0
+  let failedWeight = 0
+
+  for (const rule of AUDIT_RULES) {
+    totalWeight += SEVERITY_WEIGHTS[rule.severity]
+    const message = rule.check(context)
+    if (!message) continue
+
+    failedWeight += SEVERITY_WEIGHTS[rule.severity]
+    findings.push({
+      ruleId: rule.id,
+      category: rule.category,
+      severity: rule.severity,
+      title: rule.title,
+      message,
+      recommendation: rule.recommendation
+    })
+  }
+
+  findings.sort((a, b) => AUDIT_SEVERITIES.indexOf(a.severity) - AUDIT_SEVERITIES.indexOf(b.severity))
+
+  return {
+    score: Math.round(((totalWeight - failedWeight) / totalWeight) * 100),
+    findings
+  }
+}
+
+export class GmbAuditService {
+
+  /**
+   * Audit every store matching `storeQuery` and save the results.
+   * Review and post stats are loaded in one aggregate each for the batch.
+   */
+  static async auditStores(storeQuery: Record<string, unknown>, auditedBy?: string): Promise<IStoreAudit[]> {
+    const stores = await Store.find(storeQuery)
+      .select('name storeCode brandId phone address primaryCategory additionalCategories hoursOfOperation microsite socialMedia gmbLocationId verified lastSyncAt gmbData')
+      .lean() as unknown as AuditStore[]
+    if (stores.length === 0) return []
+
+    const storeIds = stores.map(store => store._id)
+
+    const [reviewStats, postStats] = await Promise.all([
+      Review.aggregate([
+        { $match: { storeId: { $in: storeIds }, status: 'active', hasResponse: { $ne: true } } },
+        {
+          $group: {
+            _id: '$storeId',
+            unanswered: { $sum: 1 },
+            negative: { $sum: { $cond: [{ $lte: ['$starRating', 2] }, 1, 0] } }
+          }
+        }
+      ]),
+      Post.aggregate([
+        { $match: { storeId: { $in: storeIds } } },
+        { $group: { _id: '$storeId', lastPostAt: { $max: '$gmbCreateTime' } } }
+      ])
+    ])
+
+    const reviewsByStore = new Map(reviewStats.map(stat => [String(stat._id), stat]))
+    const postsByStore = new Map(postStats.map(stat => [String(stat._id), stat.lastPostAt as Date]))
+
+    const previous = await StoreAudit.find({ storeId: { $in: storeIds } }).select('storeId score').lean()
+    const previousScores = new Map(previous.map(audit => [String(audit.storeId), audit.score]))
+
+    const now = new Date()
+    const operations = stores.map(store => {
+      const reviews = reviewsByStore.get(String(store._id))
+      const { score, findings } = evaluateStore({
+        store,
+        unansweredReviews: reviews?.unanswered || 0,
+        negativeUnansweredReviews: reviews?.negative || 0,
+        lastPostAt: postsByStore.get(String(store._id)),
+        now
+      })
+
+      const counts = Object.fromEntries(
+        AUDIT_SEVERITIES.map(severity => [severity, findings.filter(finding => finding.severity === severity).length])
+      )
+
+      return {
+        updateOne: {
+          filter: { storeId: store._id },
+          update: {
+            $set: {
+              brandId: store.brandId,
+              storeName: store.name,
+              storeCode: store.storeCode,
+              city: store.address?.city,
+              score,
+              previousScore: previousScores.get(String(store._id)),
+              findings,
+              counts,
+              auditedAt: now,
+              auditedBy
+            }
+          },
+          upsert: true
+        }
+      }
+    })
+
+    await StoreAudit.bulkWrite(operations)
+
+    return StoreAudit.find({ storeId: { $in: storeIds } }).sort({ score: 1 })
+  }
+
+  /**
+   * Findings grouped by rule across a set of audits, worst first
+   */
+  static groupIssues(audits: Array<Pick<IStoreAudit, 'storeId' | 'storeName' | 'city' | 'findings'>>) {
+    const issues = new Map<string, {
+      ruleId: string
+      category: string
+      severity: AuditSeverity
+      title: string
+      recommendation: string
+      stores: Array<{ storeId: mongoose.Types.ObjectId; storeName?: string; city?: string; message: string }>
+    }>()
+
+    for (const audit of audits) {
+      for (const finding of audit.findings) {
+        if (!issues.has(finding.ruleId)) {
+          issues.set(finding.ruleId, {
+            ruleId: finding.ruleId,
+            category: finding.category,
+            severity: finding.severity,
+            title: finding.title,
+            recommendation: finding.recommendation,
+            stores: []
+          })
+        }
+        issues.get(finding.ruleId)!.stores.push({
+          storeId: audit.storeId,
+          storeName: audit.storeName,
+          city: audit.city,
+          message: finding.message
+        })
+      }
+    }
+
+    return [...issues.values()].sort((a, b) =>
+      AUDIT_SEVERITIES.indexOf(a.severity) - AUDIT_SEVERITIES.indexOf(b.severity) || b.stores.length - a.stores.length
+    )
+  }
+}
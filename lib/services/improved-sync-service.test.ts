@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Performance } from '@/lib/database/models'
+import { SyncWatermark } from '@/lib/database/sync-models'
+import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { ImprovedSyncService, SyncState } from './improved-sync-service'
+
+vi.mock('@/lib/database/connection', () => ({ default: vi.fn(async () => undefined) }))
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = new Date('2026-03-10T12:00:00.000Z')
+const LOCATION = 'accounts/1/locations/2'
+
+const dayOf = (daysAgo: number) => {
+  const date = new Date(NOW.getTime() - daysAgo * DAY_MS)
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+// One website click and one mobile maps impression a day, from `from` days ago to `to` days ago
+const storedDays = (from: number, to: number) => Array.from({ length: from - to + 1 }, (_, index) => ({
+  date: dayOf(from - index),
+  metrics: { websiteClicks: 1, mobileMapsImpressions: 1 }
+}))
+
+const syncState = (): SyncState => ({
+  id: 'sync',
+  brandId: 'brand',
+  accountId: 'account',
+  status: 'in_progress',
+  currentStep: 'locations',
+  progress: { total: 1, completed: 0, percentage: 0 },
+  checkpoints: [],
+  errors: [],
+  startedAt: NOW,
+  lastUpdatedAt: NOW
+})
+
+const processLocation = (gmbService: Partial<GmbApiServerService>) =>
+  (ImprovedSyncService as any).processLocation({ id: LOCATION, name: 'Store' }, gmbService, syncState())
+
+describe('ImprovedSyncService.processLocation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.spyOn(ImprovedSyncService as any, 'getStoreIdByLocationId').mockResolvedValue('store')
+    ;(ImprovedSyncService as any).circuitBreakerState.clear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('with a performance watermark', () => {
+    let bulkWrite: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      vi.spyOn(SyncWatermark, 'find').mockReturnValue({
+        lean: async () => [{
+          dataType: 'performance',
+          lastSeenAt: new Date(NOW.getTime() - 2 * DAY_MS),
+          lastFullSyncAt: new Date(NOW.getTime() - DAY_MS)
+        }]
+      } as any)
+      vi.spyOn(SyncWatermark, 'updateOne').mockResolvedValue({} as any)
+      vi.spyOn(Performance, 'findOne').mockImplementation(((filter: Record<string, any>) => ({
+        sort: () => ({
+          lean: async () => ({ _id: `window-${filter['period.dateRange.days']}`, dailyMetrics: storedDays(filter['period.dateRange.days'] + 5, 2) })
+        })
+      })) as any)
+      bulkWrite = vi.fn(async () => ({}))
+      vi.spyOn(Performance, 'bulkWrite').mockImplementation(bulkWrite as any)
+    })
+
+    it('merges only the new days into every stored rolling window', async () => {
+      const getInsights = vi.fn(async () => ({
+        dailyMetrics: [{ locationId: LOCATION, date: dayOf(1), metrics: { websiteClicks: 10, mobileMapsImpressions: 4 } }]
+      }))
+
+      await processLocation({
+        getReviews: async () => [],
+        getPosts: async () => [],
+        getSearchKeywords: async () => [],
+        getInsights: getInsights as any
+      })
+
+      // Only the days after the watermark are fetched, once
+      expect(getInsights).toHaveBeenCalledTimes(1)
+      expect(new Date((getInsights.mock.calls[0] as any[])[1]).getTime()).toBe(NOW.getTime() - DAY_MS)
+
+      const operations = (bulkWrite.mock.calls[0] as any[])[0]
+      expect(operations.map((operation: any) => operation.updateOne.filter._id)).toEqual(['window-7', 'window-30', 'window-60', 'window-90'])
+      expect(operations.every((operation: any) => !operation.updateOne.upsert)).toBe(true)
+
+      const week = operations[0].updateOne.update.$set
+      // Six stored days still inside the window, plus the new one
+      expect(week.dailyMetrics).toHaveLength(7)
+      expect(week).toMatchObject({ websiteClicks: 16, mobileMapsImpressions: 10, views: 10, actions: 16 })
+      expect(week.period).toMatchObject({ endTime: NOW, dateRange: { days: 7, label: '7 days' } })
+    })
+  })
+
+  it('only records a full sync for data types whose fetch succeeded', async () => {
+    vi.spyOn(SyncWatermark, 'find').mockReturnValue({ lean: async () => [] } as any)
+    const updateWatermark = vi.spyOn(SyncWatermark, 'updateOne').mockResolvedValue({} as any)
+    const bulkWrite = vi.spyOn(Performance, 'bulkWrite').mockResolvedValue({} as any)
+    let insightsCalls = 0
+
+    await processLocation({
+      getReviews: async () => [],
+      getPosts: async () => { throw new Error('HTTP error! status: 503') },
+      getSearchKeywords: async () => [],
+      // Only the 7-day window loads; the 120-day insights and the longer windows fail
+      getInsights: (async (_location: string, startDate: string, endDate: string) => {
+        insightsCalls++
+        if (new Date(endDate).getTime() - new Date(startDate).getTime() > 7 * DAY_MS) throw new Error('HTTP error! status: 500')
+        return { period: { startTime: startDate, endTime: endDate }, views: 0, dailyMetrics: [] }
+      }) as any
+    })
+
+    expect(insightsCalls).toBe(5)
+    // What did load is still saved
+    expect(bulkWrite).toHaveBeenCalled()
+    expect(updateWatermark.mock.calls.map(([filter]) => (filter as any).dataType)).toEqual(['reviews'])
+  })
+})
@@ -1,8 +1,11 @@
 import mongoose from 'mongoose'
 import connectDB from '@/lib/database/connection'
 import { Brand, Store, Review, Post, Performance, SearchKeyword } from '@/lib/database/models'
-import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { SyncWatermark, SyncWatermarkDataType } from '@/lib/database/sync-models'
+import { GmbApiServerService, GmbDailyMetrics, totalDailyMetrics } from '@/lib/server/gmb-api-server'
 import { GmbErrorHandler } from '@/lib/utils/error-handler'
+import { AutoReplyService } from './auto-reply-service'
+import { NotificationService } from './notification-service'
 
 // Sync State Management
 export interface SyncState {
@@ -42,6 +45,58 @@ export interface SyncError {
   retryCount: number
 }
 
+export interface SyncOptions {
+  // Ignore the watermarks and fetch everything, as the periodic reconcile does
+  fullSync?: boolean
+}
+
+// Per data type: fetch only what changed after this date, or everything when undefined
+type IncrementalSince = Record<SyncWatermarkDataType, Date | undefined>
+
+type DailyMetricsDay = Pick<GmbDailyMetrics, 'date' | 'metrics'>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Rolling windows kept per store; the dashboards look them up by 'period.dateRange.days'
+const PERFORMANCE_WINDOWS = [7, 30, 60, 90]
+
+/**
+ * Newest GMB update time among fetched reviews or posts
+ */
+function latestUpdateTime(items: Array<{ updateTime?: string }>): Date | undefined {
+  const times = items
+    .map(item => new Date(item.updateTime || '').getTime())
+    .filter(time => !isNaN(time))
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined
+}
+
+/**
+ * Last day GMB reported any metric for. Recent days it hasn't processed yet
+ * come back as zeros, so they don't count.
+ */
+function lastReportedDay(dailyMetrics: GmbDailyMetrics[] = []): Date | undefined {
+  const days = dailyMetrics
+    .filter(day => Object.values(day.metrics || {}).some(value => (value || 0) > 0))
+    .map(day => Date.UTC(day.date.year, day.date.month - 1, day.date.day))
+  return days.length > 0 ? new Date(Math.max(...days)) : undefined
+}
+
+/**
+ * Stored days of a window with newly fetched ones merged in (fetched days
+ * win), leaving out days before the window starts
+ */
+function mergeDailyMetrics(stored: DailyMetricsDay[], fetched: DailyMetricsDay[], windowStart: Date): DailyMetricsDay[] {
+  const dayTime = (day: DailyMetricsDay) => Date.UTC(day.date.year, day.date.month - 1, day.date.day)
+  const firstDay = Date.UTC(windowStart.getUTCFullYear(), windowStart.getUTCMonth(), windowStart.getUTCDate())
+
+  const byDay = new Map<number, DailyMetricsDay>()
+  for (const day of [...stored, ...fetched]) byDay.set(dayTime(day), day)
+  return Array.from(byDay.entries())
+    .filter(([time]) => time >= firstDay)
+    .sort(([a], [b]) => a - b)
+    .map(([, day]) => day)
+}
+
 export interface BatchOperation {
   operation: 'insert' | 'update' | 'upsert'
   collection: string
@@ -57,6 +112,8 @@ export class ImprovedSyncService {
   private static readonly RETRY_DELAY = 1000
   private static readonly CIRCUIT_BREAKER_THRESHOLD = 5
   private static readonly CIRCUIT_BREAKER_TIMEOUT = 60000
+  // Incremental syncs can't see deleted items or edits to older posts, so each location is fully refetched this often
+  private static readonly FULL_RECONCILE_INTERVAL_MS = 7 * DAY_MS
 
   private static circuitBreakerState = new Map<string, {
     failures: number
@@ -104,7 +161,8 @@ export class ImprovedSyncService {
   static async syncWithCheckpoints(
     tokens: any, 
     syncState: SyncState,
-    onProgress?: (state: SyncState) => void
+    onProgress?: (state: SyncState) => void,
+    options: SyncOptions = {}
   ): Promise<SyncState> {
     try {
       const gmbService = new GmbApiServerService(tokens)
@@ -129,7 +187,7 @@ export class ImprovedSyncService {
       const locationBatches = this.createBatches(locations, 5) // Process 5 locations at a time
       
       for (const batch of locationBatches) {
-        await this.processLocationBatch(batch, gmbService, syncState)
+        await this.processLocationBatch(batch, gmbService, syncState, options)
         onProgress?.(syncState)
       }
 
@@ -138,6 +196,12 @@ export class ImprovedSyncService {
       syncState.completedAt = new Date()
       await this.updateSyncState(syncState)
 
+      // Queue rule-based replies to the reviews this sync brought in; never fails the sync
+      await AutoReplyService.afterSync(syncState.brandId, syncState.accountId, tokens)
+        .catch(error => console.error('Error queueing auto-replies after sync:', error))
+      await NotificationService.afterSync(syncState.brandId, syncState.startedAt)
+        .catch(error => console.error('Error sending review notifications after sync:', error))
+
       return syncState
     } catch (error) {
       syncState.status = 'failed'
@@ -149,6 +213,8 @@ export class ImprovedSyncService {
         retryCount: 0
       })
       await this.updateSyncState(syncState)
+      await NotificationService.syncFailed(syncState.brandId, syncState.id, error)
+        .catch(notifyError => console.error('Error sending sync failure notification:', notifyError))
       throw error
     }
   }
@@ -159,10 +225,11 @@ export class ImprovedSyncService {
   private static async processLocationBatch(
     locations: any[],
     gmbService: GmbApiServerService,
-    syncState: SyncState
+    syncState: SyncState,
+    options: SyncOptions = {}
   ): Promise<void> {
     const promises = locations.map(location => 
-      this.processLocation(location, gmbService, syncState)
+      this.processLocation(location, gmbService, syncState, options)
     )
 
     // Use Promise.allSettled to handle individual failures
@@ -190,7 +257,8 @@ export class ImprovedSyncService {
   private static async processLocation(
     location: any,
     gmbService: GmbApiServerService,
-    syncState: SyncState
+    syncState: SyncState,
+    options: SyncOptions = {}
   ): Promise<void> {
     const locationId = location.id
     const locationName = location.name
@@ -200,13 +268,22 @@ export class ImprovedSyncService {
       const endDate = new Date().toISOString()
       const startDate = new Date(Date.now() - 120 * 24 * 60 * 60 * 1000).toISOString()
 
-      // Process all data types in parallel with immediate database saves
+      const since = await this.incrementalSince(locationId, options.fullSync === true)
+
+      // Process all data types in parallel with immediate database saves.
+      // Once performance has a watermark only the days after it are fetched
+      // and merged into the stored 7-90 day windows, instead of refetching
+      // the 120-day insights and every window.
       const dataPromises = [
-        this.fetchAndSaveReviews(locationId, gmbService, syncState),
-        this.fetchAndSavePosts(locationId, gmbService, syncState),
-        this.fetchAndSaveInsights(locationId, startDate, endDate, gmbService, syncState),
+        this.fetchAndSaveReviews(locationId, gmbService, syncState, since.reviews),
+        this.fetchAndSavePosts(locationId, gmbService, syncState, since.posts),
+        since.performance
+          ? Promise.resolve()
+          : this.fetchAndSaveInsights(locationId, startDate, endDate, gmbService, syncState),
         this.fetchAndSaveSearchKeywords(locationId, gmbService, syncState),
-        this.fetchAndSavePerformanceDataMultipleRanges(locationId, gmbService, syncState)
+        since.performance
+          ? this.mergeNewPerformanceDays(locationId, since.performance, gmbService, syncState)
+          : this.fetchAndSavePerformanceDataMultipleRanges(locationId, gmbService, syncState)
       ]
 
       // Wait for all data fetching and saving to complete
@@ -236,14 +313,15 @@ export class ImprovedSyncService {
   private static async fetchAndSaveReviews(
     locationId: string,
     gmbService: GmbApiServerService,
-    syncState: SyncState
+    syncState: SyncState,
+    updatedAfter?: Date
   ): Promise<void> {
     try {
       
       
       const reviews = await this.executeWithCircuitBreaker(
         'reviews',
-        () => gmbService.getReviews(locationId)
+        () => gmbService.getReviews(locationId, { updatedAfter })
       )
       
       
@@ -256,6 +334,12 @@ export class ImprovedSyncService {
       } else {
         console.log(`ℹ️ No reviews to save for location ${locationId}`)
       }
+
+      await this.advanceWatermark(locationId, 'reviews', syncState, {
+        lastSeenAt: latestUpdateTime(reviews || []),
+        itemCount: reviews?.length || 0,
+        fullSync: !updatedAfter
+      })
     } catch (error) {
       console.warn(`❌ Failed to fetch/save reviews for location ${locationId}:`, error)
       // Don't throw - continue with other data types
@@ -268,14 +352,15 @@ export class ImprovedSyncService {
   private static async fetchAndSavePosts(
     locationId: string,
     gmbService: GmbApiServerService,
-    syncState: SyncState
+    syncState: SyncState,
+    updatedAfter?: Date
   ): Promise<void> {
     try {
       
       
       const posts = await this.executeWithCircuitBreaker(
         'posts',
-        () => gmbService.getPosts(locationId)
+        () => gmbService.getPosts(locationId, { updatedAfter })
       )
       
       
@@ -288,6 +373,12 @@ export class ImprovedSyncService {
       } else {
         console.log(`ℹ️ No posts to save for location ${locationId}`)
       }
+
+      await this.advanceWatermark(locationId, 'posts', syncState, {
+        lastSeenAt: latestUpdateTime(posts || []),
+        itemCount: posts?.length || 0,
+        fullSync: !updatedAfter
+      })
     } catch (error) {
       console.warn(`❌ Failed to fetch/save posts for location ${locationId}:`, error)
       // Don't throw - continue with other data types
@@ -364,12 +455,7 @@ export class ImprovedSyncService {
     syncState: SyncState
   ): Promise<void> {
     try {
-      const dateRanges = [
-        { days: 7, label: '7 days' },
-        { days: 30, label: '30 days' },
-        { days: 60, label: '60 days' },
-        { days: 90, label: '90 days' }
-      ]
+      const dateRanges = PERFORMANCE_WINDOWS.map(days => ({ days, label: `${days} days` }))
 
       const endDate = new Date()
       const performanceDataArray: any[] = []
@@ -407,7 +493,15 @@ export class ImprovedSyncService {
       // Save all performance data if we have any
       if (performanceDataArray.length > 0) {
         await this.savePerformanceDataBatchParallel(performanceDataArray, syncState, locationId)
-        
+      }
+
+      // Only a fetch of every window counts as a full sync; otherwise the next run retries it
+      if (performanceDataArray.length === dateRanges.length) {
+        await this.advanceWatermark(locationId, 'performance', syncState, {
+          lastSeenAt: lastReportedDay(performanceDataArray.flatMap(performanceData => performanceData.dailyMetrics || [])),
+          itemCount: performanceDataArray.length,
+          fullSync: true
+        })
       }
     } catch (error) {
       console.warn(`Failed to fetch performance data for location ${locationId}:`, error)
@@ -415,6 +509,122 @@ export class ImprovedSyncService {
     }
   }
 
+  /**
+   * Fetch the performance days after the last one GMB reported for the
+   * location and merge them into its stored rolling windows, which also
+   * drops the days that have slid out of each window
+   */
+  private static async mergeNewPerformanceDays(
+    locationId: string,
+    lastReported: Date,
+    gmbService: GmbApiServerService,
+    syncState: SyncState
+  ): Promise<void> {
+    try {
+      await connectDB()
+      const storeId = await this.getStoreIdByLocationId(locationId, syncState.brandId)
+      const windows = await Promise.all(PERFORMANCE_WINDOWS.map(days =>
+        Performance.findOne({ storeId, 'period.dateRange.days': days }).sort({ 'period.endTime': -1 }).lean()
+      ))
+      if (windows.some(window => !window)) {
+        // Nothing to merge into yet
+        return this.fetchAndSavePerformanceDataMultipleRanges(locationId, gmbService, syncState)
+      }
+
+      const startDate = new Date(lastReported.getTime() + DAY_MS)
+      const endDate = new Date()
+      const insights = startDate < endDate
+        ? await this.executeWithCircuitBreaker(
+          'performance',
+          () => gmbService.getInsights(locationId, startDate.toISOString(), endDate.toISOString())
+        )
+        : null
+      const fetched = insights?.dailyMetrics || []
+
+      await Performance.bulkWrite(windows.map((window, index) => {
+        const days = PERFORMANCE_WINDOWS[index]
+        const windowStart = new Date(endDate.getTime() - days * DAY_MS)
+        const dailyMetrics = mergeDailyMetrics(window!.dailyMetrics || [], fetched, windowStart)
+        const totals = totalDailyMetrics(dailyMetrics)
+
+        return {
+          updateOne: {
+            filter: { _id: window!._id },
+            update: {
+              $set: {
+                period: {
+                  startTime: windowStart,
+                  endTime: endDate,
+                  periodType: 'custom' as const,
+                  dateRange: { days, label: `${days} days`, startDate: windowStart.toISOString(), endDate: endDate.toISOString() }
+                },
+                ...totals,
+                dailyMetrics,
+                conversionRate: totals.views > 0 ? (totals.actions / totals.views) * 100 : 0,
+                clickThroughRate: totals.views > 0 ? ((totals.callClicks + totals.websiteClicks) / totals.views) * 100 : 0
+              }
+            }
+          }
+        }
+      }))
+
+      await this.advanceWatermark(locationId, 'performance', syncState, {
+        lastSeenAt: lastReportedDay(fetched),
+        itemCount: fetched.length,
+        fullSync: false
+      })
+    } catch (error) {
+      console.warn(`Failed to merge new performance days for location ${locationId}:`, error)
+      // Don't throw - continue with other data types
+    }
+  }
+
+  /**
+   * Watermarks to fetch each data type of a location from. Data types
+   * without one, or due their periodic full reconcile, are fetched in full.
+   */
+  private static async incrementalSince(locationId: string, fullSync: boolean): Promise<IncrementalSince> {
+    const since: IncrementalSince = { reviews: undefined, posts: undefined, performance: undefined }
+    if (fullSync) return since
+
+    await connectDB()
+    const watermarks = await SyncWatermark.find({ locationId }).lean()
+    for (const watermark of watermarks) {
+      const reconcileDue = !watermark.lastFullSyncAt ||
+        Date.now() - new Date(watermark.lastFullSyncAt).getTime() >= this.FULL_RECONCILE_INTERVAL_MS
+      if (watermark.lastSeenAt && !reconcileDue) since[watermark.dataType] = watermark.lastSeenAt
+    }
+    return since
+  }
+
+  /**
+   * Record a successful fetch. Only call it once the fetch has succeeded: the
+   * GMB client throws on failures rather than returning nothing, and a failed
+   * full fetch recorded here would put off the next reconcile. The watermark
+   * only moves forward, so a fetch that saw nothing new keeps the previous one.
+   */
+  private static async advanceWatermark(
+    locationId: string,
+    dataType: SyncWatermarkDataType,
+    syncState: SyncState,
+    result: { lastSeenAt?: Date; itemCount: number; fullSync: boolean }
+  ): Promise<void> {
+    const now = new Date()
+    await SyncWatermark.updateOne(
+      { locationId, dataType },
+      {
+        $set: {
+          brandId: syncState.brandId,
+          lastSyncedAt: now,
+          lastItemCount: result.itemCount,
+          ...(result.fullSync && { lastFullSyncAt: now })
+        },
+        ...(result.lastSeenAt && { $max: { lastSeenAt: result.lastSeenAt } })
+      },
+      { upsert: true }
+    )
+  }
+
   /**
    * Circuit breaker pattern for API calls
    */
@@ -613,7 +823,20 @@ export class ImprovedSyncService {
       }
     }))
 
+    const previous = await Store.find({ gmbLocationId: { $in: locations.map(location => location.id) } })
+      .select('gmbLocationId brandId name verified')
+      .lean()
+
     await Store.bulkWrite(operations)
+
+    // Stores that gained or lost verification since the last sync; never fails the sync
+    const verifiedById = new Map(locations.map(location => [location.id, Boolean(location.verified)]))
+    for (const store of previous) {
+      const verified = verifiedById.get(store.gmbLocationId)
+      if (verified === undefined || Boolean(store.verified) === verified) continue
+      await NotificationService.verificationChanged(store, verified)
+        .catch(error => console.error('Error sending verification notification:', error))
+    }
   }
 
   /**
@@ -863,6 +1086,7 @@ export class ImprovedSyncService {
                 businessMessages: performanceData.businessMessages || 0,
                 desktopSearchImpressions: performanceData.desktopSearchImpressions || 0,
                 mobileMapsImpressions: performanceData.mobileMapsImpressions || 0,
+                dailyMetrics: performanceData.dailyMetrics || [],
                 conversionRate: performanceData.conversionRate || 0,
                 clickThroughRate: performanceData.clickThroughRate || 0,
                 source: 'gmb',
@@ -1196,7 +1420,6 @@ export class ImprovedSyncService {
           owner: {
             name: accountData.name || 'Business Owner',
             email: accountData.email,
-            password: 'gmb-auto-generated',
             role: 'owner'
           }
         },
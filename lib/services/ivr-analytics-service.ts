@@ -0,0 +1,255 @@
+import mongoose from 'mongoose'
+import { IVRCall, Store } from '@/lib/database/models'
+
+export type IvrCallOutcome = 'answered' | 'missed' | 'ivr_drop' | 'other'
+
+// Provider call statuses by outcome ("Answered", "Offline", "IVR Drop", ...).
+// Checked in order, so "Not Answered" counts as missed.
+const OUTCOME_PATTERNS: Array<[IvrCallOutcome, RegExp]> = [
+  ['ivr_drop', /drop/i],
+  ['missed', /missed|offline|busy|no.?answer|not.?answered|unanswered/i],
+  ['answered', /answered|completed|connected/i]
+]
+
+export const DEFAULT_IVR_TIMEZONE = 'Asia/Kolkata'
+
+export const IVR_LEADERBOARD_SORTS = ['calls', 'answerRate', 'missed'] as const
+
+export type IvrLeaderboardSort = typeof IVR_LEADERBOARD_SORTS[number]
+
+export interface IvrAnalyticsFilters {
+  brandId?: string
+  storeIds?: string[]
+  startDate?: Date
+  endDate?: Date
+  // IANA zone the heatmap hours and weekdays are reported in
+  timezone?: string
+  sortBy?: IvrLeaderboardSort
+  leaderboardLimit?: number
+}
+
+interface OutcomeCounts {
+  totalCalls: number
+  answered: number
+  missed: number
+  ivrDrop: number
+  other: number
+}
+
+export interface IvrAnalyticsSummary extends OutcomeCounts {
+  answerRate: number
+  missedRate: number
+  ivrDropRate: number
+  avgRingDuration: number
+  avgConversationDuration: number
+}
+
+export interface IvrHeatmapCell {
+  // ISO weekday: 1 = Monday ... 7 = Sunday
+  weekday: number
+  hour: number
+  totalCalls: number
+  answered: number
+  missed: number
+}
+
+export interface IvrStoreLeaderboardEntry extends OutcomeCounts {
+  storeId: string | null
+  storeName: string
+  answerRate: number
+  avgConversationDuration: number
+}
+
+export interface IvrAnalytics {
+  summary: IvrAnalyticsSummary
+  heatmap: IvrHeatmapCell[]
+  peak: IvrHeatmapCell | null
+  leaderboard: IvrStoreLeaderboardEntry[]
+  timezone: string
+}
+
+/**
+ * Outcome of a provider call status, matching the aggregation below
+ */
+export function classifyCallStatus(status: string | undefined): IvrCallOutcome {
+  for (const [outcome, pattern] of OUTCOME_PATTERNS) {
+    if (pattern.test(status || '')) return outcome
+  }
+  return 'other'
+}
+
+// $switch equivalent of classifyCallStatus
+export function outcomeExpression() {
+  return {
+    $switch: {
+      branches: OUTCOME_PATTERNS.map(([outcome, pattern]) => ({
+        case: { $regexMatch: { input: { $ifNull: ['$callStatus', ''] }, regex: pattern.source, options: 'i' } },
+        then: outcome
+      })),
+      default: 'other'
+    }
+  }
+}
+
+function countOf(outcome: IvrCallOutcome) {
+  return { $sum: { $cond: [{ $eq: ['$outcome', outcome] }, 1, 0] } }
+}
+
+// Average of a duration over the calls where it is recorded
+function averageOf(field: string, outcome?: IvrCallOutcome) {
+  const recorded: Record<string, unknown>[] = [{ $gt: [field, 0] }]
+  if (outcome) recorded.push({ $eq: ['$outcome', outcome] })
+  return { $avg: { $cond: [{ $and: recorded }, field, null] } }
+}
+
+const OUTCOME_COUNTS = {
+  totalCalls: { $sum: 1 },
+  answered: countOf('answered'),
+  missed: countOf('missed'),
+  ivrDrop: countOf('ivr_drop'),
+  other: countOf('other')
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0
+}
+
+export class IvrAnalyticsService {
+
+  /**
+   * Answer and missed rates, durations, hour x weekday heatmap and store
+   * leaderboard over the active IVR calls matching the filters
+   */
+  static async getAnalytics(filters: IvrAnalyticsFilters = {}): Promise<IvrAnalytics> {
+    const timezone = filters.timezone || DEFAULT_IVR_TIMEZONE
+
+    const match: Record<string, unknown> = { status: 'active' }
+    if (filters.brandId) {
+      match.brandId = new mongoose.Types.ObjectId(filters.brandId)
+    }
+    if (filters.storeIds && filters.storeIds.length > 0) {
+      match.storeId = { $in: filters.storeIds.map(id => new mongoose.Types.ObjectId(id)) }
+    }
+    if (filters.startDate || filters.endDate) {
+      const dateFilter: Record<string, Date> = {}
+      if (filters.startDate) dateFilter.$gte = filters.startDate
+      if (filters.endDate) dateFilter.$lte = filters.endDate
+      match.callStartTime = dateFilter
+    }
+
+    const [result] = await IVRCall.aggregate([
+      { $match: match },
+      { $addFields: { outcome: outcomeExpression() } },
+      {
+        $facet: {
+          summary: [
+            {
+              $group: {
+                _id: null,
+                ...OUTCOME_COUNTS,
+                avgRingDuration: averageOf('$ringDuration'),
+                avgConversationDuration: averageOf('$conversationDuration', 'answered')
+              }
+            }
+          ],
+          heatmap: [
+            {
+              $group: {
+                _id: {
+                  weekday: { $isoDayOfWeek: { date: '$callStartTime', timezone } },
+                  hour: { $hour: { date: '$callStartTime', timezone } }
+                },
+                totalCalls: { $sum: 1 },
+                answered: countOf('answered'),
+                missed: { $sum: { $cond: [{ $in: ['$outcome', ['missed', 'ivr_drop']] }, 1, 0] } }
+              }
+            }
+          ],
+          stores: [
+            {
+              $group: {
+                _id: '$storeId',
+                storeName: { $first: '$storeName' },
+                ...OUTCOME_COUNTS,
+                avgConversationDuration: averageOf('$conversationDuration', 'answered')
+              }
+            }
+          ]
+        }
+      }
+    ])
+
+    const totals = result?.summary[0] || { totalCalls: 0, answered: 0, missed: 0, ivrDrop: 0, other: 0 }
+    const summary: IvrAnalyticsSummary = {
+      totalCalls: totals.totalCalls,
+      answered: totals.answered,
+      missed: totals.missed,
+      ivrDrop: totals.ivrDrop,
+      other: totals.other,
+      answerRate: percentage(totals.answered, totals.totalCalls),
+      missedRate: percentage(totals.missed, totals.totalCalls),
+      ivrDropRate: percentage(totals.ivrDrop, totals.totalCalls),
+      avgRingDuration: Math.round(totals.avgRingDuration || 0),
+      avgConversationDuration: Math.round(totals.avgConversationDuration || 0)
+    }
+
+    // Dense 7 x 24 grid so the client can render it directly
+    const cells = new Map<string, IvrHeatmapCell>()
+    for (const cell of result?.heatmap || []) {
+      cells.set(`${cell._id.weekday}:${cell._id.hour}`, {
+        weekday: cell._id.weekday,
+        hour: cell._id.hour,
+        totalCalls: cell.totalCalls,
+        answered: cell.answered,
+        missed: cell.missed
+      })
+    }
+    const heatmap: IvrHeatmapCell[] = []
+    for (let weekday = 1; weekday <= 7; weekday++) {
+      for (let hour = 0; hour < 24; hour++) {
+        heatmap.push(cells.get(`${weekday}:${hour}`) || { weekday, hour, totalCalls: 0, answered: 0, missed: 0 })
+      }
+    }
+    const peak = heatmap.reduce<IvrHeatmapCell | null>(
+      (best, cell) => (cell.totalCalls > (best?.totalCalls || 0) ? cell : best),
+      null
+    )
+
+    const leaderboard = await this.buildLeaderboard(result?.stores || [], filters)
+
+    return { summary, heatmap, peak, leaderboard, timezone }
+  }
+
+  private static async buildLeaderboard(
+    groups: Array<OutcomeCounts & { _id: mongoose.Types.ObjectId | null; storeName?: string; avgConversationDuration: number | null }>,
+    filters: IvrAnalyticsFilters
+  ): Promise<IvrStoreLeaderboardEntry[]> {
+    const storeIds = groups.map(group => group._id).filter((id): id is mongoose.Types.ObjectId => Boolean(id))
+    const stores = storeIds.length > 0
+      ? await Store.find({ _id: { $in: storeIds } }).select('name').lean<Array<{ _id: mongoose.Types.ObjectId; name: string }>>()
+      : []
+    const names = new Map(stores.map(store => [String(store._id), store.name]))
+
+    const entries: IvrStoreLeaderboardEntry[] = groups.map(group => ({
+      storeId: group._id ? String(group._id) : null,
+      // Calls the webhook could not match to a store are grouped together
+      storeName: group._id ? names.get(String(group._id)) || group.storeName || 'Unknown store' : 'Unmatched calls',
+      totalCalls: group.totalCalls,
+      answered: group.answered,
+      missed: group.missed,
+      ivrDrop: group.ivrDrop,
+      other: group.other,
+      answerRate: percentage(group.answered, group.totalCalls),
+      avgConversationDuration: Math.round(group.avgConversationDuration || 0)
+    }))
+
+    const sortBy = filters.sortBy || 'calls'
+    entries.sort((a, b) => {
+      if (sortBy === 'answerRate') return b.answerRate - a.answerRate || b.totalCalls - a.totalCalls
+      if (sortBy === 'missed') return (b.missed + b.ivrDrop) - (a.missed + a.ivrDrop) || b.totalCalls - a.totalCalls
+      return b.totalCalls - a.totalCalls
+    })
+
+    return entries.slice(0, filters.leaderboardLimit || 20)
+  }
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import mongoose from 'mongoose'
+import { Brand } from '@/lib/database/models'
+import { IvrIngestionLog } from '@/lib/database/ivr-models'
+import { IvrIngestionService } from './ivr-ingestion-service'
+
+const BRAND_ID = new mongoose.Types.ObjectId().toString()
+const SECRET = 'ingestion-secret'
+
+// A JSON body well over what the log keeps of one attempt
+const LARGE_BODY = JSON.stringify({ filler: 'x'.repeat(20000) })
+
+function mockBrand(brand: Record<string, unknown> | null | Error) {
+  vi.spyOn(Brand, 'findById').mockReturnValue({
+    select: async () => {
+      if (brand instanceof Error) throw brand
+      return brand
+    }
+  } as any)
+}
+
+function signed(rawBody: string) {
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  return { brandParam: BRAND_ID, rawBody, timestamp, signature: `sha256=${IvrIngestionService.sign(SECRET, timestamp, rawBody)}` }
+}
+
+describe('IvrIngestionService.ingest', () => {
+  let logged: Record<string, any>[]
+
+  beforeEach(() => {
+    logged = []
+    vi.spyOn(IvrIngestionLog, 'create').mockImplementation((async (entry: Record<string, any>) => {
+      logged.push(entry)
+      return entry
+    }) as any)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('logs only the start of the raw body for unauthenticated deliveries', async () => {
+    mockBrand({ _id: BRAND_ID, settings: { ivrIngestion: { secret: SECRET } } })
+
+    const result = await IvrIngestionService.ingest({ brandParam: BRAND_ID, rawBody: LARGE_BODY, signature: null, timestamp: null })
+
+    expect(result.httpStatus).toBe(401)
+    expect(typeof logged[0].payload).toBe('string')
+    expect(logged[0].payload).toHaveLength(4000)
+  })
+
+  it('keeps the parsed payload of small authenticated deliveries and caps large ones', async () => {
+    mockBrand({ _id: BRAND_ID, settings: { ivrIngestion: { secret: SECRET } } })
+
+    // Signed, but rejected after authentication for not being an object
+    await IvrIngestionService.ingest(signed('[1,2,3]'))
+    await IvrIngestionService.ingest(signed(JSON.stringify([LARGE_BODY])))
+
+    expect(logged[0]).toMatchObject({ outcome: 'rejected', payload: [1, 2, 3] })
+    expect(typeof logged[1].payload).toBe('string')
+    expect(logged[1].payload).toHaveLength(4000)
+  })
+
+  it('does not return internal error messages', async () => {
+    mockBrand(new Error('connection to 10.0.0.5:27017 closed'))
+
+    const result = await IvrIngestionService.ingest({ brandParam: BRAND_ID, rawBody: '{}', signature: null, timestamp: null })
+
+    expect(result).toEqual({ httpStatus: 500, body: { status: 500, message: 'Internal server error' } })
+    expect(logged[0]).toMatchObject({ outcome: 'error', reason: 'connection to 10.0.0.5:27017 closed' })
+  })
+})
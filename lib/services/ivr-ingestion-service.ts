@@ -0,0 +1,403 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import { Brand, IBrand, IVRCall, IIVRCall, Store } from '@/lib/database/models'
+import { IvrIngestionLog, IvrIngestionOutcome, IvrIngestionSource } from '@/lib/database/ivr-models'
+import { CallbackService } from './callback-service'
+import { getIvrProvider, IvrPayload, IvrPayloadError, IvrPullError, NormalizedIvrCall } from './ivr-provider'
+
+export const SIGNATURE_HEADER = 'x-storecom-signature'
+export const TIMESTAMP_HEADER = 'x-storecom-timestamp'
+
+// Deliveries signed further than this from our clock are treated as replays
+export const MAX_CLOCK_SKEW_SECONDS = 5 * 60
+
+const MAX_LOGGED_BODY_CHARS = 4000
+
+export interface IvrIngestionRequest {
+  brandParam: string
+  rawBody: string
+  signature: string | null
+  timestamp: string | null
+  ipAddress?: string
+}
+
+export interface IvrIngestionResult {
+  httpStatus: number
+  body: Record<string, unknown>
+}
+
+export interface IvrPullResult {
+  brandId: string
+  fetched: number
+  accepted: number
+  duplicates: number
+  rejected: number
+  error?: string
+}
+
+interface AttemptLog {
+  source?: IvrIngestionSource
+  // Signed by the brand (or fetched by us), so the parsed payload may be kept
+  authenticated?: boolean
+  outcome: IvrIngestionOutcome
+  httpStatus: number
+  reason?: string
+  brandId?: string
+  provider?: string
+  dedupeKey?: string
+  ivrCallId?: unknown
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Whole-value, case-insensitive match
+function sameText(value: string) {
+  return { $regex: `^${escapeRegex(value)}$`, $options: 'i' }
+}
+
+export class IvrIngestionService {
+
+  /**
+   * New random secret for a brand's webhook
+   */
+  static generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex')
+  }
+
+  /**
+   * Signature the provider must send: hex HMAC-SHA256 of "<timestamp>.<raw body>"
+   */
+  static sign(secret: string, timestamp: string | number, rawBody: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+  }
+
+  /**
+   * Check the signature headers of a delivery. Returns the reason for
+   * rejecting it, or null when it is valid.
+   */
+  static verifySignature(
+    secret: string,
+    signature: string | null,
+    timestamp: string | null,
+    rawBody: string,
+    now: Date = new Date()
+  ): string | null {
+    if (!signature || !timestamp) {
+      return 'Missing signature headers'
+    }
+
+    const signedAt = Number(timestamp)
+    if (!Number.isInteger(signedAt)) {
+      return 'Invalid signature timestamp'
+    }
+
+    if (Math.abs(now.getTime() / 1000 - signedAt) > MAX_CLOCK_SKEW_SECONDS) {
+      return 'Signature timestamp is outside the allowed window'
+    }
+
+    const expected = Buffer.from(this.sign(secret, timestamp, rawBody), 'hex')
+    const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex')
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return 'Invalid signature'
+    }
+
+    return null
+  }
+
+  /**
+   * Identity of a call at the provider, stable across repeated deliveries
+   */
+  static dedupeKey(brandId: string, virtualNumber: string | undefined, customerNumber: string | undefined, callStartTime: Date): string {
+    return crypto
+      .createHash('sha256')
+      .update([brandId, virtualNumber || '', customerNumber || '', callStartTime.toISOString()].join('|'))
+      .digest('hex')
+  }
+
+  /**
+   * Verify, dedupe and store one webhook delivery. Every attempt is logged.
+   */
+  static async ingest(request: IvrIngestionRequest): Promise<IvrIngestionResult> {
+    const payload = this.parsePayload(request.rawBody)
+    let authenticated = false
+
+    const finish = async (attempt: AttemptLog, body: Record<string, unknown>): Promise<IvrIngestionResult> => {
+      await this.logAttempt(request, payload, { ...attempt, authenticated })
+      return { httpStatus: attempt.httpStatus, body: { status: attempt.httpStatus, ...body } }
+    }
+
+    try {
+      if (!mongoose.Types.ObjectId.isValid(request.brandParam)) {
+        return finish({ outcome: 'rejected', httpStatus: 400, reason: 'Invalid brand ID format' }, { message: 'Invalid brand ID format' })
+      }
+
+      const brand = await Brand.findById(request.brandParam)
+        .select('+settings.ivrIngestion.secret')
+      if (!brand) {
+        return finish({ outcome: 'rejected', httpStatus: 404, reason: 'Brand not found' }, { message: 'Brand not found' })
+      }
+      const brandId = String(brand._id)
+
+      const secret = brand.settings?.ivrIngestion?.secret
+      if (secret) {
+        const reason = this.verifySignature(secret, request.signature, request.timestamp, request.rawBody)
+        if (reason) {
+          return finish({ outcome: 'rejected', httpStatus: 401, reason, brandId }, { message: reason })
+        }
+      } else if (process.env.IVR_ALLOW_UNSIGNED_WEBHOOKS !== 'true') {
+        const reason = 'IVR ingestion secret is not configured for this brand'
+        return finish({ outcome: 'rejected', httpStatus: 401, reason, brandId }, { message: reason })
+      }
+
+      authenticated = true
+
+      if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        return finish({ outcome: 'rejected', httpStatus: 400, reason: 'Body must be a JSON object', brandId }, { message: 'Invalid payload' })
+      }
+
+      const provider = getIvrProvider(brand.settings?.ivrProvider)
+
+      let call: NormalizedIvrCall
+      try {
+        call = provider.normalize(payload as IvrPayload)
+      } catch (error) {
+        if (!(error instanceof IvrPayloadError)) throw error
+        return finish(
+          { outcome: 'rejected', httpStatus: 400, reason: error.message, brandId, provider: provider.name },
+          { message: 'Validation error', error: error.message }
+        )
+      }
+
+      const { ivrCall, duplicate, dedupeKey } = await this.saveCall(brand, call)
+
+      const data = {
+        id: ivrCall._id,
+        brandId: ivrCall.brandId,
+        storeId: ivrCall.storeId,
+        customerNumber: ivrCall.customerNumber,
+        callStatus: ivrCall.callStatus,
+        callStartTime: ivrCall.callStartTime,
+        duration: ivrCall.duration
+      }
+
+      if (duplicate) {
+        return finish(
+          { outcome: 'duplicate', httpStatus: 200, brandId, provider: provider.name, dedupeKey, ivrCallId: ivrCall._id },
+          { message: 'Already recorded', duplicate: true, data }
+        )
+      }
+
+      return finish(
+        { outcome: 'accepted', httpStatus: 200, brandId, provider: provider.name, dedupeKey, ivrCallId: ivrCall._id },
+        { message: 'Added succssfully', data } // Keeping the typo to match the expected response
+      )
+    } catch (error) {
+      console.error('Error saving IVR call:', error)
+
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      if (error && typeof error === 'object' && 'name' in error && error.name === 'ValidationError') {
+        return finish({ outcome: 'rejected', httpStatus: 400, reason: message }, { message: 'Validation error', error: message })
+      }
+
+      // The reason is logged; the caller may not even be the provider
+      return finish({ outcome: 'error', httpStatus: 500, reason: message }, { message: 'Internal server error' })
+    }
+  }
+
+  /**
+   * Fetch new calls for a brand whose provider is in pull mode. Each call is
+   * logged like a webhook delivery.
+   */
+  static async pullCalls(brandId: string): Promise<IvrPullResult> {
+    const result: IvrPullResult = { brandId, fetched: 0, accepted: 0, duplicates: 0, rejected: 0 }
+
+    const brand = await Brand.findById(brandId)
+      .select('+settings.ivrProvider.credentials.apiKey +settings.ivrProvider.credentials.password')
+    if (!brand) {
+      throw new Error('Brand not found')
+    }
+
+    const config = brand.settings?.ivrProvider
+    if (config?.mode !== 'pull') {
+      throw new Error('The IVR provider of this brand pushes calls to the webhook')
+    }
+
+    const provider = getIvrProvider(config)
+    const startedAt = new Date()
+
+    let payloads: IvrPayload[]
+    try {
+      payloads = await provider.fetchCalls(config.lastPulledAt)
+    } catch (error) {
+      // Only our own messages are stored: errors from further down can carry what the remote server sent
+      if (!(error instanceof IvrPullError)) console.error(`IVR pull failed for brand ${brandId}:`, error)
+      result.error = error instanceof IvrPullError ? error.message : 'Failed to pull calls from the provider'
+      await Brand.updateOne({ _id: brand._id }, { $set: { 'settings.ivrProvider.lastPullError': result.error } })
+      return result
+    }
+    result.fetched = payloads.length
+
+    for (const payload of payloads) {
+      const request: IvrIngestionRequest = { brandParam: brandId, rawBody: '', signature: null, timestamp: null }
+      const attempt: AttemptLog = { source: 'pull', authenticated: true, outcome: 'accepted', httpStatus: 200, brandId, provider: provider.name }
+
+      try {
+        const call = provider.normalize(payload)
+        const { ivrCall, duplicate, dedupeKey } = await this.saveCall(brand, call)
+        Object.assign(attempt, { dedupeKey, ivrCallId: ivrCall._id, outcome: duplicate ? 'duplicate' : 'accepted' })
+        if (duplicate) result.duplicates++
+        else result.accepted++
+      } catch (error) {
+        const rejected = error instanceof IvrPayloadError
+        Object.assign(attempt, {
+          outcome: rejected ? 'rejected' : 'error',
+          httpStatus: rejected ? 400 : 500,
+          reason: error instanceof Error ? error.message : 'Unknown error'
+        })
+        result.rejected++
+      }
+
+      await this.logAttempt(request, payload, attempt)
+    }
+
+    // Calls received while this pull ran are picked up again and deduped next time
+    await Brand.updateOne(
+      { _id: brand._id },
+      { $set: { 'settings.ivrProvider.lastPulledAt': startedAt }, $unset: { 'settings.ivrProvider.lastPullError': 1 } }
+    )
+
+    return result
+  }
+
+  /**
+   * Pull calls for every active brand whose provider is in pull mode
+   */
+  static async pullAllBrands(): Promise<IvrPullResult[]> {
+    const brands = await Brand.find({ status: 'active', 'settings.ivrProvider.mode': 'pull' })
+      .select('_id')
+      .lean()
+
+    const results: IvrPullResult[] = []
+    for (const brand of brands) {
+      try {
+        results.push(await this.pullCalls(String(brand._id)))
+      } catch (error) {
+        results.push({
+          brandId: String(brand._id),
+          fetched: 0,
+          accepted: 0,
+          duplicates: 0,
+          rejected: 0,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Match the call to a store and insert it unless the same call was stored before
+   */
+  private static async saveCall(
+    brand: IBrand,
+    call: NormalizedIvrCall
+  ): Promise<{ ivrCall: IIVRCall; duplicate: boolean; dedupeKey: string }> {
+    const dedupeKey = this.dedupeKey(String(brand._id), call.virtualNumber, call.customerNumber, call.callStartTime)
+
+    // Try to find matching store by name or identifier. Only fields the call
+    // carries are matched, and only in full: a partial match on "" matches every store.
+    let storeId: mongoose.Types.ObjectId | undefined = undefined
+    const storeMatches: Record<string, unknown>[] = []
+    if (call.storeIdentifier) storeMatches.push({ storeCode: sameText(call.storeIdentifier) })
+    if (call.storeName) storeMatches.push({ name: sameText(call.storeName) })
+    if (storeMatches.length > 0) {
+      const store = await Store.findOne({
+        brandId: brand._id,
+        $or: storeMatches
+      }).select('_id')
+      if (store) {
+        storeId = store._id as mongoose.Types.ObjectId
+      }
+    }
+
+    // Insert only if this call has not been delivered before
+    try {
+      const result = await IVRCall.findOneAndUpdate(
+        { dedupeKey },
+        { $setOnInsert: { ...call, brandId: brand._id, storeId, dedupeKey, status: 'active' } },
+        { upsert: true, new: true, runValidators: true, includeResultMetadata: true }
+      )
+      if (!result.value) {
+        throw new Error('IVR call was not saved')
+      }
+
+      const duplicate = Boolean(result.lastErrorObject?.updatedExisting)
+      if (!duplicate) {
+        await this.queueCallback(brand, result.value)
+      }
+      return { ivrCall: result.value, duplicate, dedupeKey }
+    } catch (error) {
+      // A concurrent delivery of the same call won the insert
+      if (!(error && typeof error === 'object' && 'code' in error && error.code === 11000)) throw error
+      const ivrCall = await IVRCall.findOne({ dedupeKey })
+      if (!ivrCall) throw error
+      return { ivrCall, duplicate: true, dedupeKey }
+    }
+  }
+
+  // Follow-up failures must not make the provider redeliver a stored call
+  private static async queueCallback(brand: IBrand, ivrCall: IIVRCall): Promise<void> {
+    try {
+      await CallbackService.handleCall(brand, ivrCall)
+    } catch (error) {
+      console.error('Failed to update callback tasks for IVR call:', error)
+    }
+  }
+
+  private static parsePayload(rawBody: string): unknown {
+    try {
+      return JSON.parse(rawBody)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * What of a delivery goes in the log: the parsed payload when it came from
+   * the provider and is small, otherwise the start of the raw body, so
+   * unauthenticated callers can't grow the log beyond a fixed size per attempt
+   */
+  private static loggedPayload(request: IvrIngestionRequest, payload: unknown, attempt: AttemptLog): unknown {
+    // Pulled calls have no raw body
+    const raw = request.rawBody || JSON.stringify(payload ?? null)
+    if (attempt.authenticated && payload != null && raw.length <= MAX_LOGGED_BODY_CHARS) {
+      return payload
+    }
+    return raw.slice(0, MAX_LOGGED_BODY_CHARS)
+  }
+
+  private static async logAttempt(request: IvrIngestionRequest, payload: unknown, attempt: AttemptLog): Promise<void> {
+    try {
+      await IvrIngestionLog.create({
+        brandParam: request.brandParam,
+        brandId: attempt.brandId,
+        provider: attempt.provider,
+        source: attempt.source || 'push',
+        outcome: attempt.outcome,
+        httpStatus: attempt.httpStatus,
+        reason: attempt.reason,
+        signaturePresent: Boolean(request.signature),
+        signatureTimestamp: request.timestamp && Number.isFinite(Number(request.timestamp)) ? Number(request.timestamp) : undefined,
+        dedupeKey: attempt.dedupeKey,
+        ivrCallId: attempt.ivrCallId,
+        ipAddress: request.ipAddress,
+        payload: this.loggedPayload(request, payload, attempt)
+      })
+    } catch (error) {
+      // Logging must never change the response the provider gets
+      console.error('Failed to record IVR ingestion attempt:', error)
+    }
+  }
+}
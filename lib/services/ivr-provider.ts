@@ -0,0 +1,301 @@
+import { IVR_PROVIDER_NAMES, IvrIngestionSource, IvrProviderName } from '@/lib/database/ivr-models'
+import { fetchPublicUrl, UnsafeUrlError } from '@/lib/server/public-fetch'
+
+// IVRCall fields a provider payload can be mapped onto
+export const IVR_CALL_FIELDS = [
+  'customerName',
+  'customerNumber',
+  'publisherType',
+  'leadType',
+  'storeIdentifier',
+  'storeName',
+  'location',
+  'callStartTime',
+  'callEndTime',
+  'callStatus',
+  'callType',
+  'virtualNumber',
+  'callRecordingUrl',
+  'conversationDuration',
+  'ringDuration'
+] as const
+
+export type IvrCallField = typeof IVR_CALL_FIELDS[number]
+
+// IVRCall field -> dotted path in the raw payload
+export type IvrFieldMapping = Partial<Record<IvrCallField, string>>
+
+export type IvrPayload = Record<string, unknown>
+
+/**
+ * A call in IVRCall terms, ready to be matched to a store and saved
+ */
+export interface NormalizedIvrCall {
+  customerName: string
+  customerNumber?: string
+  publisherType: string
+  leadType: string
+  storeIdentifier?: string
+  storeName?: string
+  location?: string
+  callStartTime: Date
+  callEndTime: Date
+  callStatus: string
+  callType?: string
+  virtualNumber?: string
+  callRecordingUrl?: string
+  duration: number
+  conversationDuration: number
+  ringDuration: number
+}
+
+/**
+ * Per-brand provider settings, as stored in Brand.settings.ivrProvider
+ */
+export interface IvrProviderConfig {
+  name?: IvrProviderName
+  mode?: IvrIngestionSource
+  pullUrl?: string
+  credentials?: {
+    apiKey?: string
+    username?: string
+    password?: string
+  }
+  fieldMapping?: Map<string, string> | Record<string, string>
+}
+
+/**
+ * Raised when a payload cannot be turned into a call
+ */
+export class IvrPayloadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IvrPayloadError'
+  }
+}
+
+/**
+ * Raised when calls cannot be pulled from a provider. The message is safe to
+ * store and show: it never includes what the remote server sent back.
+ */
+export class IvrPullError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IvrPullError'
+  }
+}
+
+const PULL_TIMEOUT_MS = 30000
+
+/**
+ * An IVR / call tracking provider. Adapters turn the provider's raw call
+ * payloads into IVRCall fields, and fetch calls from providers that are
+ * pulled from rather than pushing to our webhook.
+ */
+export interface IvrProvider {
+  readonly name: IvrProviderName
+  normalize(payload: IvrPayload): NormalizedIvrCall
+  fetchCalls(since?: Date): Promise<IvrPayload[]>
+}
+
+function isPayload(value: unknown): value is IvrPayload {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readPath(payload: IvrPayload, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (isPayload(value) ? value[key] : undefined),
+    payload
+  )
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined
+  const text = String(value).trim()
+  return text && text !== 'N/A' ? text : undefined
+}
+
+function toSeconds(value: unknown): number {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? Math.floor(number) : 0
+}
+
+// Accepts "2025-10-07 15:45:44", ISO strings and unix timestamps (seconds or milliseconds)
+function toDate(value: unknown): Date | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+
+  const date = typeof value === 'number' || /^\d+$/.test(String(value).trim())
+    ? new Date(Number(value) < 1e12 ? Number(value) * 1000 : Number(value))
+    : new Date(String(value).trim().replace(' ', 'T'))
+
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Reads calls through a field mapping: the adapter's defaults, overridden
+ * per brand by Brand.settings.ivrProvider.fieldMapping.
+ */
+export class MappedIvrProvider implements IvrProvider {
+  constructor(
+    readonly name: IvrProviderName,
+    private defaultMapping: IvrFieldMapping,
+    protected config: IvrProviderConfig = {}
+  ) {}
+
+  get mapping(): IvrFieldMapping {
+    const overrides = this.config.fieldMapping instanceof Map
+      ? Object.fromEntries(this.config.fieldMapping)
+      : this.config.fieldMapping || {}
+    return { ...this.defaultMapping, ...overrides }
+  }
+
+  normalize(payload: IvrPayload): NormalizedIvrCall {
+    const mapping = this.mapping
+    const read = (field: IvrCallField) => {
+      const path = mapping[field]
+      return path ? readPath(payload, path) : undefined
+    }
+
+    if (!mapping.callStartTime) {
+      throw new IvrPayloadError(`No field is mapped to callStartTime for the ${this.name} provider`)
+    }
+
+    const callStartTime = toDate(read('callStartTime'))
+    if (!callStartTime) {
+      throw new IvrPayloadError(`${mapping.callStartTime} is missing or invalid`)
+    }
+    const callEndTime = toDate(read('callEndTime')) || callStartTime
+
+    const conversationDuration = toSeconds(read('conversationDuration'))
+    const ringDuration = toSeconds(read('ringDuration'))
+
+    return {
+      customerName: toText(read('customerName')) || '',
+      customerNumber: toText(read('customerNumber')),
+      publisherType: toText(read('publisherType')) || this.name,
+      leadType: toText(read('leadType')) || 'InboundCalls',
+      storeIdentifier: toText(read('storeIdentifier')),
+      storeName: toText(read('storeName')),
+      location: toText(read('location')),
+      callStartTime,
+      callEndTime,
+      callStatus: toText(read('callStatus')) || 'Unknown',
+      callType: toText(read('callType')),
+      virtualNumber: toText(read('virtualNumber')),
+      callRecordingUrl: toText(read('callRecordingUrl')),
+      // Prefer the provider's own durations over the timestamps
+      duration: conversationDuration && ringDuration
+        ? conversationDuration + ringDuration
+        : Math.max(0, Math.floor((callEndTime.getTime() - callStartTime.getTime()) / 1000)),
+      conversationDuration,
+      ringDuration
+    }
+  }
+
+  async fetchCalls(since?: Date): Promise<IvrPayload[]> {
+    if (!this.config.pullUrl) {
+      throw new IvrPullError(`No pull URL is configured for the ${this.name} provider`)
+    }
+
+    const url = new URL(this.config.pullUrl)
+    if (since) url.searchParams.set('since', since.toISOString())
+
+    const headers: Record<string, string> = { 'Accept': 'application/json' }
+    const { apiKey, username, password } = this.config.credentials || {}
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`
+    } else if (username) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password || ''}`).toString('base64')}`
+    }
+
+    let response: Response
+    try {
+      response = await fetchPublicUrl(url, { headers, timeoutMs: PULL_TIMEOUT_MS })
+    } catch (error) {
+      console.error(`${this.name} pull request failed:`, error)
+      throw new IvrPullError(error instanceof UnsafeUrlError
+        ? 'Pull URL must use https and point to a public host'
+        : `Could not reach the ${this.name} pull URL`)
+    }
+
+    if (!response.ok) {
+      console.error(`${this.name} pull error! status: ${response.status}`)
+      throw new IvrPullError(`The ${this.name} pull URL responded with status ${response.status}`)
+    }
+
+    const data = await response.json().catch(() => null)
+    const calls = Array.isArray(data) ? data : data?.data ?? data?.calls
+    if (!Array.isArray(calls)) {
+      throw new IvrPullError(`Unexpected response format from the ${this.name} pull URL`)
+    }
+
+    return calls.filter(isPayload)
+  }
+}
+
+// Waybeo's webhook payload, e.g. { "call_start_time": "2025-10-07 15:45:44", "Store_Name": ... }
+export const WAYBEO_FIELD_MAPPING: IvrFieldMapping = {
+  customerName: 'customer_name',
+  customerNumber: 'customer_number',
+  publisherType: 'publisher_type',
+  leadType: 'lead_type',
+  storeIdentifier: 'Store_id',
+  storeName: 'Store_Name',
+  location: 'Location',
+  callStartTime: 'call_start_time',
+  callEndTime: 'call_end_time',
+  callStatus: 'call_status',
+  callType: 'call_type',
+  virtualNumber: 'virtual_number',
+  callRecordingUrl: 'call_recording_url',
+  conversationDuration: 'conversation_duration',
+  ringDuration: 'ring_duration'
+}
+
+const providers: Record<IvrProviderName, { label: string; fieldMapping: IvrFieldMapping }> = {
+  waybeo: { label: 'Waybeo', fieldMapping: WAYBEO_FIELD_MAPPING },
+  // Any other provider, described entirely by the brand's field mapping
+  generic: { label: 'Custom (field mapping)', fieldMapping: {} }
+}
+
+/**
+ * Adapter for a brand's provider settings (Waybeo when none are stored)
+ */
+export function getIvrProvider(config: IvrProviderConfig = {}): IvrProvider {
+  const name = config.name || 'waybeo'
+  const provider = providers[name]
+  if (!provider) {
+    throw new Error(`Unknown IVR provider: ${name}`)
+  }
+  return new MappedIvrProvider(name, provider.fieldMapping, config)
+}
+
+/**
+ * Supported providers with their default field mappings, for configuration screens
+ */
+export function listIvrProviders(): Array<{ name: IvrProviderName; label: string; fieldMapping: IvrFieldMapping }> {
+  return IVR_PROVIDER_NAMES.map(name => ({ name, ...providers[name] }))
+}
+
+/**
+ * Provider settings safe to return to clients: secrets are reduced to flags
+ */
+export function summarizeIvrProvider(config: (IvrProviderConfig & { lastPulledAt?: Date; lastPullError?: string }) = {}) {
+  const fieldMapping = config.fieldMapping instanceof Map
+    ? Object.fromEntries(config.fieldMapping)
+    : config.fieldMapping || {}
+
+  return {
+    name: config.name || 'waybeo',
+    mode: config.mode || 'push',
+    pullUrl: config.pullUrl || null,
+    credentials: {
+      username: config.credentials?.username || null,
+      hasApiKey: Boolean(config.credentials?.apiKey),
+      hasPassword: Boolean(config.credentials?.password)
+    },
+    fieldMapping,
+    lastPulledAt: config.lastPulledAt || null,
+    lastPullError: config.lastPullError || null
+  }
+}
@@ -0,0 +1,154 @@
+import crypto from 'crypto'
+import { NotificationChannelName, NotificationEvent } from '@/lib/database/notification-models'
+import { fetchPublicUrl, publicUrlError } from '@/lib/server/public-fetch'
+import { sendSmtpMail, smtpConfigFromEnv } from '@/lib/server/smtp-client'
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-storecom-signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-storecom-timestamp'
+
+const WEBHOOK_TIMEOUT_MS = 10000
+
+export interface NotificationItem {
+  id: string
+  event: NotificationEvent
+  title: string
+  message: string
+  url?: string
+  storeId?: string
+  data?: Record<string, unknown>
+  createdAt: Date
+}
+
+// One message for one recipient: a single event, or a digest of several
+export interface NotificationMessage {
+  brandId: string
+  brandName: string
+  subject: string
+  digest: boolean
+  items: NotificationItem[]
+}
+
+export interface NotificationTarget {
+  target: string
+  webhookSecret?: string
+}
+
+export interface NotificationChannel {
+  name: NotificationChannelName
+  // Reason the target can't be used with this channel, or null
+  validateTarget(target: string): string | null
+  send(recipient: NotificationTarget, message: NotificationMessage): Promise<void>
+}
+
+function renderText(message: NotificationMessage): string {
+  const lines = message.items.map(item => {
+    const parts = [`${message.digest ? '- ' : ''}${item.title}`, item.message]
+    if (item.url) parts.push(item.url)
+    return parts.join(message.digest ? '\n  ' : '\n\n')
+  })
+  const header = message.digest
+    ? `${message.items.length} update${message.items.length === 1 ? '' : 's'} for ${message.brandName}:\n\n`
+    : ''
+  return `${header}${lines.join(message.digest ? '\n\n' : '\n')}\n`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderHtml(message: NotificationMessage): string {
+  const items = message.items.map(item => [
+    `<h3 style="margin:16px 0 4px">${escapeHtml(item.title)}</h3>`,
+    `<p style="margin:0;white-space:pre-wrap">${escapeHtml(item.message)}</p>`,
+    item.url ? `<p style="margin:4px 0 0"><a href="${escapeHtml(item.url)}">Open in dashboard</a></p>` : ''
+  ].join('')).join('')
+  return `<div style="font-family:sans-serif;font-size:14px">${items}</div>`
+}
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+
+  validateTarget(target) {
+    return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(target) ? null : 'Invalid email address'
+  },
+
+  async send(recipient, message) {
+    const config = smtpConfigFromEnv()
+    if (!config) {
+      throw new Error('Email is not configured (set SMTP_HOST and SMTP_FROM)')
+    }
+    await sendSmtpMail(config, {
+      to: [recipient.target],
+      subject: message.subject,
+      text: renderText(message),
+      html: renderHtml(message)
+    })
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>", sent as "sha256=<hex>" so
+ * receivers can verify the delivery came from us and is fresh
+ */
+export function signWebhookPayload(secret: string, timestamp: string | number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+export const webhookChannel: NotificationChannel = {
+  name: 'webhook',
+
+  // Only https to public hosts, so webhooks can't be pointed at internal services
+  validateTarget(target) {
+    const reason = publicUrlError(target)
+    return reason ? `Webhook ${reason}` : null
+  },
+
+  async send(recipient, message) {
+    const body = JSON.stringify({
+      brandId: message.brandId,
+      brandName: message.brandName,
+      digest: message.digest,
+      notifications: message.items.map(item => ({
+        id: item.id,
+        event: item.event,
+        title: item.title,
+        message: item.message,
+        url: item.url,
+        storeId: item.storeId,
+        data: item.data,
+        createdAt: item.createdAt.toISOString()
+      }))
+    })
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (recipient.webhookSecret) {
+      const timestamp = Math.floor(Date.now() / 1000)
+      headers[WEBHOOK_TIMESTAMP_HEADER] = String(timestamp)
+      headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${signWebhookPayload(recipient.webhookSecret, timestamp, body)}`
+    }
+
+    // Checks the resolved address too, and doesn't follow redirects
+    const response = await fetchPublicUrl(recipient.target, {
+      method: 'POST',
+      headers,
+      body,
+      timeoutMs: WEBHOOK_TIMEOUT_MS
+    })
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status} ${response.statusText}`)
+    }
+  }
+}
+
+const CHANNELS: Record<NotificationChannelName, NotificationChannel> = {
+  email: emailChannel,
+  webhook: webhookChannel
+}
+
+export function getNotificationChannel(name: NotificationChannelName): NotificationChannel {
+  return CHANNELS[name]
+}
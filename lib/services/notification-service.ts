@@ -0,0 +1,545 @@
+import mongoose from 'mongoose'
+import { Brand, IBrand, Review, Store } from '@/lib/database/models'
+import {
+  INotification,
+  INotificationDelivery,
+  INotificationRecipient,
+  Notification,
+  NotificationChannelName,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationRecipient
+} from '@/lib/database/notification-models'
+import { getNotificationChannel, NotificationItem, NotificationMessage } from './notification-channels'
+
+export const DEFAULT_NEGATIVE_REVIEW_MAX_RATING = 2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DIGEST_INTERVAL_MS = DAY_MS
+// Reviews older than this when first synced (e.g. a brand's initial import) are not news
+const NEW_REVIEW_MAX_AGE_MS = 7 * DAY_MS
+// First retry after 5 minutes, then 10, 20, ...
+const RETRY_BASE_MS = 5 * 60 * 1000
+// A delivery stuck in "sending" this long is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000
+const MAX_DIGEST_ITEMS = 200
+
+type NotificationToggle = 'reviews' | 'posts' | 'enquiries' | 'syncFailures' | 'verification' | 'weeklyReport'
+
+// Brand.settings.notifications switch that silences each event for the whole brand
+const EVENT_TOGGLES: Record<NotificationEvent, NotificationToggle> = {
+  negative_review: 'reviews',
+  post_failed: 'posts',
+  new_enquiry: 'enquiries',
+  sync_failed: 'syncFailures',
+  verification_changed: 'verification',
+  weekly_report: 'weeklyReport',
+  review_escalated: 'reviews'
+}
+
+export interface NotifyInput {
+  brandId: mongoose.Types.ObjectId | string
+  storeId?: mongoose.Types.ObjectId | string
+  event: NotificationEvent
+  title: string
+  message: string
+  // Path under the dashboard, e.g. /dashboard/reviews
+  path?: string
+  data?: Record<string, unknown>
+  dedupeKey?: string
+}
+
+export interface ProcessNotificationsResult {
+  sent: number
+  retrying: number
+  failed: number
+  digests: number
+}
+
+type BrandSettings = Pick<IBrand, '_id' | 'name' | 'settings'>
+
+function dashboardUrl(path?: string): string | undefined {
+  if (!path) return undefined
+  return `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}${path}`
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value
+}
+
+function toItem(notification: INotification): NotificationItem {
+  return {
+    id: String(notification._id),
+    event: notification.event,
+    title: notification.title,
+    message: notification.message,
+    url: notification.url,
+    storeId: notification.storeId ? String(notification.storeId) : undefined,
+    data: notification.data,
+    createdAt: notification.createdAt
+  }
+}
+
+export class NotificationService {
+
+  /**
+   * Whether the brand's settings let this event through
+   */
+  static isEnabled(brand: BrandSettings | null, event: NotificationEvent): boolean {
+    if (!brand) return false
+    return brand.settings?.notifications?.[EVENT_TOGGLES[event]] !== false
+  }
+
+  /**
+   * Reason a recipient can't be saved, or null when the target suits the
+   * channel and every store belongs to the brand
+   */
+  static async recipientError(
+    brandId: mongoose.Types.ObjectId | string,
+    recipient: { channel: NotificationChannelName; target: string; storeIds?: string[]; events?: NotificationEvent[] }
+  ): Promise<string | null> {
+    const targetError = getNotificationChannel(recipient.channel).validateTarget(recipient.target)
+    if (targetError) return targetError
+
+    // The report is an HTML email with a PDF attached (see BrandReportService)
+    if (recipient.events?.includes('weekly_report') && recipient.channel !== 'email') {
+      return 'Weekly reports are sent by email only'
+    }
+
+    const storeIds = Array.from(new Set(recipient.storeIds || []))
+    if (storeIds.length > 0) {
+      if (storeIds.some(id => !mongoose.Types.ObjectId.isValid(id))) return 'Store not found for this brand'
+      const count = await Store.countDocuments({ _id: { $in: storeIds }, brandId })
+      if (count !== storeIds.length) return 'Store not found for this brand'
+    }
+
+    return null
+  }
+
+  /**
+   * Active recipients subscribed to the event. Recipients limited to some
+   * stores only hear about events of those stores.
+   */
+  static async recipientsFor(
+    brandId: mongoose.Types.ObjectId | string,
+    event: NotificationEvent,
+    storeId?: mongoose.Types.ObjectId | string
+  ): Promise<INotificationRecipient[]> {
+    const storeFilter: Array<Record<string, unknown>> = [{ storeIds: { $size: 0 } }]
+    if (storeId) storeFilter.push({ storeIds: storeId })
+
+    return NotificationRecipient.find({
+      brandId,
+      isActive: true,
+      events: event,
+      $or: storeFilter
+    }).select('+webhookSecret')
+  }
+
+  /**
+   * Record an event and deliver it: instant recipients now, digest
+   * recipients with their next digest. Returns null when the brand has the
+   * event switched off or the event was already recorded.
+   */
+  static async notify(input: NotifyInput, now: Date = new Date()): Promise<INotification | null> {
+    const brand = await Brand.findById(input.brandId).select('name settings.notifications').lean<BrandSettings>()
+    if (!this.isEnabled(brand, input.event)) return null
+
+    const recipients = await this.recipientsFor(input.brandId, input.event, input.storeId)
+
+    let notification: INotification
+    try {
+      notification = await Notification.create({
+        brandId: input.brandId,
+        storeId: input.storeId,
+        event: input.event,
+        title: input.title,
+        message: input.message,
+        url: dashboardUrl(input.path),
+        data: input.data,
+        dedupeKey: input.dedupeKey,
+        recipientCount: recipients.length
+      })
+    } catch (error) {
+      // Duplicate dedupeKey: a retried trigger for something already notified
+      if ((error as { code?: number }).code === 11000) return null
+      throw error
+    }
+
+    if (recipients.length === 0) return notification
+
+    const deliveries = await NotificationDelivery.insertMany(recipients.map(recipient => ({
+      notificationId: notification._id,
+      recipientId: recipient._id,
+      brandId: input.brandId,
+      channel: recipient.channel,
+      mode: recipient.mode,
+      status: 'pending',
+      nextAttemptAt: recipient.mode === 'instant' ? now : undefined
+    })))
+
+    const recipientsById = new Map(recipients.map(recipient => [String(recipient._id), recipient]))
+    for (const delivery of deliveries) {
+      if (delivery.mode !== 'instant') continue
+      const claimed = await this.claim({ _id: delivery._id, status: 'pending' }, now)
+      if (!claimed) continue
+      await this.deliverInstant(claimed, brand!, recipientsById.get(String(delivery.recipientId))!, notification, now)
+    }
+
+    return notification
+  }
+
+  /**
+   * Notify about new low-rated reviews saved since the sync started
+   */
+  static async afterSync(brandId: string, since: Date, now: Date = new Date()): Promise<number> {
+    const brand = await Brand.findById(brandId).select('settings.notifications').lean<BrandSettings>()
+    if (!this.isEnabled(brand, 'negative_review')) return 0
+    if (!(await NotificationRecipient.exists({ brandId, isActive: true, events: 'negative_review' }))) return 0
+
+    const maxRating = brand?.settings?.notifications?.negativeReviewMaxRating || DEFAULT_NEGATIVE_REVIEW_MAX_RATING
+    const reviews = await Review.find({
+      brandId,
+      status: 'active',
+      starRating: { $lte: maxRating },
+      createdAt: { $gte: since },
+      gmbCreateTime: { $gte: new Date(now.getTime() - NEW_REVIEW_MAX_AGE_MS) }
+    })
+      .populate('storeId', 'name')
+      .select('reviewer starRating comment gmbCreateTime storeId')
+      .limit(100)
+      .lean()
+
+    let notified = 0
+    for (const review of reviews) {
+      const store = review.storeId as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null
+      const reviewer = review.reviewer?.displayName || 'A customer'
+      const notification = await this.notify({
+        brandId,
+        storeId: store?._id,
+        event: 'negative_review',
+        title: `${review.starRating}-star review${store?.name ? ` for ${store.name}` : ''}`,
+        message: `${reviewer} left a ${review.starRating}-star review${review.comment ? `: "${truncate(review.comment, 500)}"` : ' without a comment.'}`,
+        path: '/dashboard/reviews',
+        data: {
+          reviewId: String(review._id),
+          starRating: review.starRating,
+          reviewer,
+          comment: review.comment,
+          storeName: store?.name
+        },
+        dedupeKey: `negative_review:${review._id}`
+      }, now)
+      if (notification) notified++
+    }
+
+    return notified
+  }
+
+  /**
+   * An auto-reply rule escalated a review instead of answering it
+   */
+  static async reviewEscalated(
+    review: {
+      _id: unknown
+      brandId: mongoose.Types.ObjectId | string
+      storeId: mongoose.Types.ObjectId | string
+      reviewer?: { displayName?: string }
+      starRating: number
+      comment?: string
+    },
+    storeName: string | undefined,
+    ruleName: string
+  ): Promise<INotification | null> {
+    const reviewer = review.reviewer?.displayName || 'A customer'
+    return this.notify({
+      brandId: review.brandId,
+      storeId: review.storeId,
+      event: 'review_escalated',
+      title: `${review.starRating}-star review${storeName ? ` for ${storeName}` : ''} needs a personal reply`,
+      message: `The auto-reply rule "${ruleName}" escalated ${reviewer}'s review${review.comment ? `: "${truncate(review.comment, 500)}"` : '.'}`,
+      path: '/dashboard/reviews',
+      data: {
+        reviewId: String(review._id),
+        starRating: review.starRating,
+        reviewer,
+        comment: review.comment,
+        storeName,
+        ruleName
+      },
+      dedupeKey: `review_escalated:${review._id}`
+    })
+  }
+
+  static async syncFailed(brandId: string, syncId: string, error: unknown): Promise<INotification | null> {
+    return this.notify({
+      brandId,
+      event: 'sync_failed',
+      title: 'Google My Business sync failed',
+      message: `The sync stopped with an error: ${errorMessage(error)}`,
+      path: '/dashboard/overview',
+      data: { syncId, error: errorMessage(error) },
+      dedupeKey: `sync_failed:${syncId}`
+    })
+  }
+
+  static async enquiryReceived(enquiry: {
+    _id: unknown
+    brandId: mongoose.Types.ObjectId
+    storeId: mongoose.Types.ObjectId
+    storeName: string
+    name: string
+    subject: string
+    message: string
+    enquiryType?: string
+  }): Promise<INotification | null> {
+    return this.notify({
+      brandId: enquiry.brandId,
+      storeId: enquiry.storeId,
+      event: 'new_enquiry',
+      title: `New enquiry for ${enquiry.storeName}: ${truncate(enquiry.subject, 100)}`,
+      message: `${enquiry.name} wrote: "${truncate(enquiry.message, 500)}"`,
+      path: '/dashboard/enquiries',
+      data: {
+        enquiryId: String(enquiry._id),
+        enquiryType: enquiry.enquiryType,
+        subject: enquiry.subject,
+        storeName: enquiry.storeName
+      },
+      dedupeKey: `new_enquiry:${enquiry._id}`
+    })
+  }
+
+  static async verificationChanged(
+    store: { _id: unknown; brandId: mongoose.Types.ObjectId | string; name: string },
+    verified: boolean
+  ): Promise<INotification | null> {
+    return this.notify({
+      brandId: store.brandId,
+      storeId: String(store._id),
+      event: 'verification_changed',
+      title: `${store.name} is ${verified ? 'now verified' : 'no longer verified'}`,
+      message: verified
+        ? `${store.name} is verified on Google My Business.`
+        : `${store.name} lost its Google My Business verification and may not appear on Google until it is verified again.`,
+      path: '/dashboard/stores',
+      data: { storeName: store.name, verified }
+    })
+  }
+
+  static async postFailed(post: {
+    _id: unknown
+    brandId?: mongoose.Types.ObjectId
+    storeId?: mongoose.Types.ObjectId
+    locationName: string
+  }, error: string): Promise<INotification | null> {
+    if (!post.brandId) return null
+    return this.notify({
+      brandId: post.brandId,
+      storeId: post.storeId,
+      event: 'post_failed',
+      title: 'A scheduled post could not be published',
+      message: `Publishing to ${post.locationName} failed after every retry: ${error}`,
+      path: '/dashboard/gmb-post',
+      data: { scheduledPostId: String(post._id), locationName: post.locationName, error },
+      dedupeKey: `post_failed:${post._id}`
+    })
+  }
+
+  /**
+   * Atomically claim an instant delivery so concurrent workers never send twice
+   */
+  private static async claim(filter: Record<string, unknown>, now: Date): Promise<INotificationDelivery | null> {
+    return NotificationDelivery.findOneAndUpdate(
+      filter,
+      {
+        $set: { status: 'sending', lockedAt: now },
+        $inc: { attempts: 1 }
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    )
+  }
+
+  private static async deliverInstant(
+    delivery: INotificationDelivery,
+    brand: BrandSettings,
+    recipient: INotificationRecipient,
+    notification: INotification,
+    now: Date
+  ): Promise<'sent' | 'retrying' | 'failed'> {
+    try {
+      await getNotificationChannel(recipient.channel).send(recipient, {
+        brandId: String(brand._id),
+        brandName: brand.name,
+        subject: notification.title,
+        digest: false,
+        items: [toItem(notification)]
+      })
+      await NotificationDelivery.updateOne(
+        { _id: delivery._id },
+        { $set: { status: 'sent', sentAt: new Date() }, $unset: { lockedAt: 1, nextAttemptAt: 1, lastError: 1 } }
+      )
+      return 'sent'
+    } catch (error) {
+      console.error(`Error sending notification ${notification._id} to recipient ${recipient._id}:`, error)
+      return this.recordFailure(delivery, error, now)
+    }
+  }
+
+  /**
+   * Retry with exponential backoff until maxAttempts, then mark failed
+   */
+  private static async recordFailure(delivery: INotificationDelivery, error: unknown, now: Date): Promise<'retrying' | 'failed'> {
+    if (delivery.attempts >= delivery.maxAttempts) {
+      await NotificationDelivery.updateOne(
+        { _id: delivery._id },
+        { $set: { status: 'failed', lastError: errorMessage(error) }, $unset: { lockedAt: 1, nextAttemptAt: 1 } }
+      )
+      return 'failed'
+    }
+
+    const delay = RETRY_BASE_MS * Math.pow(2, delivery.attempts - 1)
+    await NotificationDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: { status: 'pending', lastError: errorMessage(error), nextAttemptAt: new Date(now.getTime() + delay) },
+        $unset: { lockedAt: 1 }
+      }
+    )
+    return 'retrying'
+  }
+
+  /**
+   * Send one recipient's pending digest items as a single message. The
+   * recipient is claimed by moving lastDigestAt so concurrent workers skip it.
+   */
+  private static async sendDigest(recipientId: mongoose.Types.ObjectId, now: Date): Promise<'sent' | 'failed' | null> {
+    const due = { $or: [{ lastDigestAt: { $exists: false } }, { lastDigestAt: { $lte: new Date(now.getTime() - DIGEST_INTERVAL_MS) } }] }
+    const previous = await NotificationRecipient.findOneAndUpdate(
+      { _id: recipientId, isActive: true, mode: 'digest', ...due },
+      { $set: { lastDigestAt: now } }
+    ).select('+webhookSecret')
+    if (!previous) return null
+
+    const deliveries = await NotificationDelivery.find({ recipientId, mode: 'digest', status: 'pending' })
+      .sort({ createdAt: 1 })
+      .limit(MAX_DIGEST_ITEMS)
+    const notifications = await Notification.find({ _id: { $in: deliveries.map(delivery => delivery.notificationId) } })
+      .sort({ createdAt: 1 })
+    const brand = await Brand.findById(previous.brandId).select('name').lean<BrandSettings>()
+
+    const deliveryIds = deliveries.map(delivery => delivery._id)
+    if (notifications.length === 0 || !brand) {
+      // Notifications expired or the brand is gone; nothing left to send
+      await NotificationDelivery.updateMany({ _id: { $in: deliveryIds } }, { $set: { status: 'failed', lastError: 'Nothing to send' } })
+      return null
+    }
+
+    const message: NotificationMessage = {
+      brandId: String(brand._id),
+      brandName: brand.name,
+      subject: `${brand.name}: ${notifications.length} update${notifications.length === 1 ? '' : 's'}`,
+      digest: true,
+      items: notifications.map(toItem)
+    }
+
+    try {
+      await getNotificationChannel(previous.channel).send(previous, message)
+      await NotificationDelivery.updateMany(
+        { _id: { $in: deliveryIds } },
+        { $set: { status: 'sent', sentAt: new Date() }, $inc: { attempts: 1 }, $unset: { lastError: 1 } }
+      )
+      return 'sent'
+    } catch (error) {
+      console.error(`Error sending notification digest to recipient ${recipientId}:`, error)
+      // Try again on the next run instead of waiting a day
+      await NotificationRecipient.updateOne(
+        { _id: recipientId },
+        previous.lastDigestAt ? { $set: { lastDigestAt: previous.lastDigestAt } } : { $unset: { lastDigestAt: 1 } }
+      )
+      await NotificationDelivery.updateMany(
+        { _id: { $in: deliveryIds } },
+        { $set: { lastError: errorMessage(error) }, $inc: { attempts: 1 } }
+      )
+      await NotificationDelivery.updateMany(
+        { _id: { $in: deliveryIds }, $expr: { $gte: ['$attempts', '$maxAttempts'] } },
+        { $set: { status: 'failed' } }
+      )
+      return 'failed'
+    }
+  }
+
+  /**
+   * Retry instant deliveries that are due and send digests that are due,
+   * up to `limit` of each
+   */
+  static async processPending(limit: number = 50): Promise<ProcessNotificationsResult> {
+    const result: ProcessNotificationsResult = { sent: 0, retrying: 0, failed: 0, digests: 0 }
+
+    for (let processed = 0; processed < limit; processed++) {
+      const now = new Date()
+      const delivery = await this.claim({
+        mode: 'instant',
+        $or: [
+          { status: 'pending', nextAttemptAt: { $lte: now } },
+          { status: 'sending', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } }
+        ]
+      }, now)
+      if (!delivery) break
+
+      const [recipient, notification] = await Promise.all([
+        NotificationRecipient.findById(delivery.recipientId).select('+webhookSecret'),
+        Notification.findById(delivery.notificationId)
+      ])
+      const brand = await Brand.findById(delivery.brandId).select('name').lean<BrandSettings>()
+      if (!recipient || !recipient.isActive || !notification || !brand) {
+        await NotificationDelivery.updateOne(
+          { _id: delivery._id },
+          { $set: { status: 'failed', lastError: 'Recipient or notification no longer exists' }, $unset: { lockedAt: 1, nextAttemptAt: 1 } }
+        )
+        result.failed++
+        continue
+      }
+
+      const outcome = await this.deliverInstant(delivery, brand, recipient, notification, now)
+      result[outcome]++
+    }
+
+    const digestRecipients = await NotificationDelivery.distinct('recipientId', { mode: 'digest', status: 'pending' })
+    for (const recipientId of digestRecipients.slice(0, limit)) {
+      const outcome = await this.sendDigest(recipientId, new Date())
+      if (outcome === 'sent') result.digests++
+      if (outcome === 'failed') result.failed++
+    }
+
+    return result
+  }
+
+  /**
+   * Send a sample message so a recipient can be checked before relying on it
+   */
+  static async sendTest(recipientId: string): Promise<void> {
+    const recipient = await NotificationRecipient.findById(recipientId).select('+webhookSecret')
+    if (!recipient) throw new Error('Recipient not found')
+    const brand = await Brand.findById(recipient.brandId).select('name').lean<BrandSettings>()
+
+    await getNotificationChannel(recipient.channel).send(recipient, {
+      brandId: String(recipient.brandId),
+      brandName: brand?.name || 'Your brand',
+      subject: 'Test notification',
+      digest: recipient.mode === 'digest',
+      items: [{
+        id: 'test',
+        event: recipient.events[0] || 'negative_review',
+        title: 'Test notification',
+        message: `Notifications for ${brand?.name || 'your brand'} will arrive here.`,
+        url: dashboardUrl('/dashboard/brand'),
+        createdAt: new Date()
+      }]
+    })
+  }
+}
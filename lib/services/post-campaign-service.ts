@@ -0,0 +1,302 @@
+import mongoose from 'mongoose'
+import { IPostCampaign, IStore, Post, PostCampaign, Store } from '@/lib/database/models'
+import { GmbApiServerService, GmbPostInput } from '@/lib/server/gmb-api-server'
+import { GoogleTokens } from '@/lib/server/google-oauth-server'
+import { ParallelApiService } from '@/lib/services/parallel-api-service'
+
+export type CampaignSelectionMode = 'brand' | 'city' | 'state' | 'tag' | 'stores'
+
+export interface CampaignSelection {
+  mode: CampaignSelectionMode
+  cities?: string[]
+  states?: string[]
+  tags?: string[]
+  storeIds?: string[]
+}
+
+export interface CreateCampaignInput {
+  name: string
+  brandId: string
+  selection: CampaignSelection
+  postData: GmbPostInput
+  owner: {
+    userId: string
+    name: string
+    email: string
+  }
+}
+
+// Keep well under the GMB per-user write quota
+const CAMPAIGN_CONCURRENCY = 3
+const CAMPAIGN_REQUEST_TIMEOUT_MS = 30000
+// A campaign left "running" this long is assumed to belong to a crashed request
+const STALE_RUN_MS = 60 * 60 * 1000
+// Allowance for clock skew between us and Google when looking for a post an earlier attempt created
+const ATTEMPT_LOOKBACK_MS = 5 * 60 * 1000
+
+export type CampaignStore = Pick<IStore, 'name' | 'gmbLocationId' | 'gmbAccountId'> & { _id: mongoose.Types.ObjectId }
+
+/**
+ * Build the v4 location resource name for a store, or null when the store
+ * is not linked to a GMB location
+ */
+export function getStoreLocationName(store: Pick<IStore, 'gmbLocationId' | 'gmbAccountId'>): string | null {
+  if (!store.gmbLocationId) return null
+  if (store.gmbLocationId.startsWith('accounts/')) return store.gmbLocationId
+  if (!store.gmbAccountId) return null
+
+  const accountId = store.gmbAccountId.replace(/^accounts\//, '')
+  const locationId = store.gmbLocationId.replace(/^locations\//, '')
+  return `accounts/${accountId}/locations/${locationId}`
+}
+
+/**
+ * Store query for a campaign selection, always restricted to one brand
+ */
+export function buildCampaignStoreQuery(brandId: string, selection: CampaignSelection): Record<string, unknown> | null {
+  if (!mongoose.Types.ObjectId.isValid(brandId)) return null
+
+  const query: Record<string, unknown> = {
+    brandId: new mongoose.Types.ObjectId(brandId),
+    status: 'active'
+  }
+
+  switch (selection.mode) {
+    case 'brand':
+      break
+    case 'city':
+      if (!selection.cities?.length) return null
+      query['address.city'] = { $in: selection.cities }
+      break
+    case 'state':
+      if (!selection.states?.length) return null
+      query['address.state'] = { $in: selection.states }
+      break
+    case 'tag':
+      if (!selection.tags?.length) return null
+      query.tags = { $in: selection.tags }
+      break
+    case 'stores': {
+      const ids = (selection.storeIds || []).filter(id => mongoose.Types.ObjectId.isValid(id))
+      if (ids.length === 0) return null
+      query._id = { $in: ids.map(id => new mongoose.Types.ObjectId(id)) }
+      break
+    }
+    default:
+      return null
+  }
+
+  return query
+}
+
+export class PostCampaignService {
+
+  /**
+   * Stores a selection resolves to, for previewing before the campaign is created
+   */
+  static async resolveStores(brandId: string, selection: CampaignSelection): Promise<CampaignStore[] | null> {
+    const query = buildCampaignStoreQuery(brandId, selection)
+    if (!query) return null
+
+    return Store.find(query)
+      .select('name gmbLocationId gmbAccountId address.city address.state')
+      .sort({ name: 1 })
+      .lean() as unknown as Promise<CampaignStore[]>
+  }
+
+  /**
+   * Create a campaign with one pending target per store, resolved beforehand
+   * with resolveStores. Stores that are not linked to GMB are recorded as skipped.
+   */
+  static async createCampaign(input: CreateCampaignInput, stores: CampaignStore[]): Promise<IPostCampaign> {
+    const targets = stores.map(store => {
+      const locationName = getStoreLocationName(store)
+      return {
+        storeId: store._id,
+        storeName: store.name,
+        locationName: locationName || undefined,
+        status: locationName ? 'pending' : 'skipped',
+        error: locationName ? undefined : 'Store is not linked to a GMB location'
+      }
+    })
+
+    return PostCampaign.create({
+      name: input.name,
+      brandId: input.brandId,
+      selection: input.selection,
+      postData: input.postData,
+      status: 'draft',
+      targets,
+      totals: this.countTotals(targets),
+      createdBy: input.owner
+    })
+  }
+
+  private static countTotals(targets: Array<{ status: string }>) {
+    return {
+      targeted: targets.length,
+      published: targets.filter(target => target.status === 'published').length,
+      failed: targets.filter(target => target.status === 'failed').length,
+      skipped: targets.filter(target => target.status === 'skipped').length
+    }
+  }
+
+  /**
+   * Publish the campaign post to every pending target (or only the failed
+   * ones when retrying). Each success is written back immediately, so a
+   * crash part-way through never re-posts to stores that already have it.
+   */
+  static async runCampaign(
+    campaignId: string,
+    tokens: GoogleTokens,
+    options: { retryFailed?: boolean } = {}
+  ): Promise<IPostCampaign | null> {
+    const campaign = await PostCampaign.findOneAndUpdate(
+      {
+        _id: campaignId,
+        $or: [
+          { status: { $ne: 'running' } },
+          { startedAt: { $lt: new Date(Date.now() - STALE_RUN_MS) } }
+        ]
+      },
+      { $set: { status: 'running', startedAt: new Date() }, $unset: { completedAt: 1 } },
+      { new: true }
+    )
+    if (!campaign) return null
+
+    const runStatuses = options.retryFailed ? ['failed'] : ['pending']
+    const targets = campaign.targets
+      .filter(target => runStatuses.includes(target.status) && target.locationName)
+      .map(target => ({
+        id: String(target.storeId),
+        locationName: target.locationName as string,
+        lastAttemptAt: target.lastAttemptAt
+      }))
+
+    const gmbService = new GmbApiServerService(tokens)
+    // Creating a post is not idempotent, so failures are left for an explicit retry
+    // rather than retried automatically (a timed-out request may still have succeeded,
+    // which the retry checks for before posting again)
+    const parallel = new ParallelApiService({
+      maxConcurrent: CAMPAIGN_CONCURRENCY,
+      batchSize: CAMPAIGN_CONCURRENCY * 4,
+      retryAttempts: 1,
+      timeout: CAMPAIGN_REQUEST_TIMEOUT_MS
+    })
+
+    const accountId = (locationName: string) => locationName.split('/')[1]
+
+    const results = await parallel.processLocationsInParallel(targets, async (target) => {
+      const storeFilter = { _id: campaign._id, 'targets.storeId': new mongoose.Types.ObjectId(target.id) }
+
+      // An earlier attempt that timed out may have been published after all
+      let created = target.lastAttemptAt
+        ? await this.findPublishedPost(gmbService, target.locationName, campaign.postData, target.lastAttemptAt)
+        : null
+
+      if (!created) {
+        await PostCampaign.updateOne(storeFilter, { $set: { 'targets.$.lastAttemptAt': new Date() } })
+        created = await gmbService.createPost(target.locationName, campaign.postData)
+      }
+      if (!created) throw new Error('GMB did not return the created post')
+
+      const now = new Date()
+      await Post.updateOne(
+        { gmbPostId: created.id },
+        {
+          $set: {
+            storeId: new mongoose.Types.ObjectId(target.id),
+            brandId: campaign.brandId,
+            accountId: accountId(target.locationName),
+            summary: created.summary,
+            callToAction: created.callToAction,
+            media: created.media,
+            gmbCreateTime: created.createTime ? new Date(created.createTime) : now,
+            gmbUpdateTime: created.updateTime ? new Date(created.updateTime) : now,
+            languageCode: created.languageCode,
+            state: created.state || 'LIVE',
+            topicType: created.topicType,
+            event: created.event,
+            searchUrl: created.searchUrl,
+            campaignId: campaign._id
+          }
+        },
+        { upsert: true }
+      )
+
+      await PostCampaign.updateOne(
+        storeFilter,
+        {
+          $set: {
+            'targets.$.status': 'published',
+            'targets.$.gmbPostId': created.id,
+            'targets.$.publishedAt': now
+          },
+          $inc: { 'targets.$.attempts': 1 },
+          $unset: { 'targets.$.error': 1 }
+        }
+      )
+
+      return created.id
+    })
+
+    for (const [storeId, result] of results) {
+      if (result.success) continue
+      await PostCampaign.updateOne(
+        { _id: campaign._id, 'targets.storeId': new mongoose.Types.ObjectId(storeId) },
+        {
+          $set: {
+            'targets.$.status': 'failed',
+            'targets.$.error': result.error || 'Unknown error'
+          },
+          $inc: { 'targets.$.attempts': 1 }
+        }
+      )
+    }
+
+    return this.finalize(campaignId)
+  }
+
+  /**
+   * The campaign's post on a location, if one was created since an attempt started
+   */
+  private static async findPublishedPost(
+    gmbService: GmbApiServerService,
+    locationName: string,
+    postData: GmbPostInput,
+    attemptedAt: Date
+  ) {
+    const since = new Date(attemptedAt.getTime() - ATTEMPT_LOOKBACK_MS)
+    const posts = await gmbService.getPosts(locationName, { updatedAfter: since })
+    return posts.find(post =>
+      post.summary === postData.summary &&
+      post.topicType === postData.topicType &&
+      (!post.createTime || new Date(post.createTime) >= since)
+    ) || null
+  }
+
+  /**
+   * Recompute totals and the overall status from the per-store results
+   */
+  private static async finalize(campaignId: string): Promise<IPostCampaign | null> {
+    const campaign = await PostCampaign.findById(campaignId)
+    if (!campaign) return null
+
+    const totals = this.countTotals(campaign.targets)
+    const attempted = totals.published + totals.failed
+
+    let status: IPostCampaign['status'] = 'completed'
+    if (attempted > 0 && totals.published === 0) {
+      status = 'failed'
+    } else if (totals.failed > 0) {
+      status = 'partial'
+    }
+
+    campaign.totals = totals
+    campaign.status = status
+    campaign.completedAt = new Date()
+    await campaign.save()
+
+    return campaign
+  }
+}
@@ -0,0 +1,229 @@
+import mongoose from 'mongoose'
+import { Brand, Store } from '@/lib/database/models'
+import { IRankCheck, ITrackedKeyword, RankCheck, TrackedKeyword } from '@/lib/database/rank-tracker-models'
+import { SerpProvider, SerpResult, getDomain, getSerpProvider } from '@/lib/services/serp-provider'
+
+const CHECK_INTERVAL_MS: Record<ITrackedKeyword['frequency'], number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+}
+
+// After a failed check, try again sooner than the normal interval
+const RETRY_AFTER_ERROR_MS = 60 * 60 * 1000
+
+export interface TrackKeywordInput {
+  brandId: string
+  storeId?: string
+  keyword: string
+  location?: string
+  device?: ITrackedKeyword['device']
+  frequency?: ITrackedKeyword['frequency']
+  targetDomain?: string
+  targetName?: string
+  createdBy?: string
+}
+
+export interface RunDueChecksResult {
+  processed: number
+  checked: number
+  failed: number
+}
+
+export interface RankPosition {
+  position?: number
+  localPackPosition?: number
+  url?: string
+}
+
+function normaliseName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Find where the target appears in a SERP. Organic results match on domain
+ * (including subdomains); local pack results match on domain or business name.
+ */
+export function findTargetPosition(result: SerpResult, targetDomain?: string, targetName?: string): RankPosition {
+  const domain = targetDomain ? getDomain(targetDomain) : ''
+  const name = targetName ? normaliseName(targetName) : ''
+
+  const organic = domain
+    ? result.organic.find(entry => entry.domain === domain || entry.domain.endsWith(`.${domain}`))
+    : undefined
+
+  const local = result.localPack.find(entry =>
+    (domain && entry.domain === domain) || (name && normaliseName(entry.name) === name)
+  )
+
+  return {
+    position: organic?.position,
+    localPackPosition: local?.position,
+    url: organic?.url
+  }
+}
+
+export class RankTrackerService {
+
+  /**
+   * Default target for a keyword: the store's website (falling back to the
+   * brand's) and the store or brand name for local pack matching
+   */
+  static async resolveTarget(brandId: string, storeId?: string): Promise<{ targetDomain?: string; targetName?: string }> {
+    if (storeId) {
+      const store = await Store.findById(storeId)
+        .select('name socialMedia.website gmbData.metadata.websiteUrl brandId')
+        .lean()
+      if (store) {
+        const brand = await Brand.findById(store.brandId).select('website').lean()
+        const website = store.socialMedia?.website || store.gmbData?.metadata?.websiteUrl || brand?.website
+        return {
+          targetDomain: website ? getDomain(website) || undefined : undefined,
+          targetName: store.name
+        }
+      }
+    }
+
+    const brand = await Brand.findById(brandId).select('name website').lean()
+    return {
+      targetDomain: brand?.website ? getDomain(brand.website) || undefined : undefined,
+      targetName: brand?.name
+    }
+  }
+
+  /**
+   * Start tracking a keyword. The first check is due immediately.
+   */
+  static async trackKeyword(input: TrackKeywordInput): Promise<ITrackedKeyword> {
+    const defaults = await this.resolveTarget(input.brandId, input.storeId)
+
+    return TrackedKeyword.create({
+      brandId: input.brandId,
+      storeId: input.storeId || undefined,
+      keyword: input.keyword,
+      location: input.location,
+      device: input.device || 'mobile',
+      frequency: input.frequency || 'daily',
+      targetDomain: input.targetDomain ? getDomain(input.targetDomain) : defaults.targetDomain,
+      targetName: input.targetName || defaults.targetName,
+      nextCheckAt: new Date(),
+      createdBy: input.createdBy
+    })
+  }
+
+  /**
+   * Run one keyword through the provider, store the result in the rank
+   * history and update the keyword's latest/previous/best positions
+   */
+  static async checkKeyword(
+    keyword: ITrackedKeyword,
+    provider: SerpProvider = getSerpProvider()
+  ): Promise<IRankCheck> {
+    const now = new Date()
+
+    try {
+      const result = await provider.search({
+        keyword: keyword.keyword,
+        location: keyword.location,
+        device: keyword.device,
+        targetDomain: keyword.targetDomain,
+        targetName: keyword.targetName
+      })
+
+      const found = findTargetPosition(result, keyword.targetDomain, keyword.targetName)
+
+      const check = await RankCheck.create({
+        trackedKeywordId: keyword._id,
+        brandId: keyword.brandId,
+        storeId: keyword.storeId,
+        keyword: keyword.keyword,
+        position: found.position,
+        localPackPosition: found.localPackPosition,
+        url: found.url,
+        serpFeatures: result.serpFeatures,
+        totalResults: result.totalResults,
+        provider: provider.name,
+        checkedAt: now
+      })
+
+      const bestPosition = found.position && (!keyword.bestPosition || found.position < keyword.bestPosition)
+        ? found.position
+        : keyword.bestPosition
+
+      await TrackedKeyword.updateOne(
+        { _id: keyword._id },
+        {
+          $set: {
+            previousPosition: keyword.latestPosition,
+            latestPosition: found.position,
+            latestLocalPackPosition: found.localPackPosition,
+            bestPosition,
+            lastCheckedAt: now,
+            nextCheckAt: new Date(now.getTime() + CHECK_INTERVAL_MS[keyword.frequency])
+          },
+          $unset: { lastError: 1 }
+        }
+      )
+
+      return check
+    } catch (error) {
+      await TrackedKeyword.updateOne(
+        { _id: keyword._id },
+        {
+          $set: {
+            lastError: error instanceof Error ? error.message : String(error),
+            nextCheckAt: new Date(now.getTime() + RETRY_AFTER_ERROR_MS)
+          }
+        }
+      )
+      throw error
+    }
+  }
+
+  /**
+   * Check every active keyword that is due, one at a time, up to `limit`
+   */
+  static async runDueChecks(limit: number = 50): Promise<RunDueChecksResult> {
+    const result: RunDueChecksResult = { processed: 0, checked: 0, failed: 0 }
+    const provider = getSerpProvider()
+
+    const due = await TrackedKeyword.find({
+      status: 'active',
+      $or: [
+        { nextCheckAt: { $lte: new Date() } },
+        { nextCheckAt: { $exists: false } }
+      ]
+    })
+      .sort({ nextCheckAt: 1 })
+      .limit(limit)
+
+    for (const keyword of due) {
+      result.processed++
+      try {
+        await this.checkKeyword(keyword, provider)
+        result.checked++
+      } catch (error) {
+        console.error(`Error checking rank for keyword ${keyword._id}:`, error)
+        result.failed++
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Rank history for a set of keywords since `since`, oldest first
+   */
+  static async getHistory(keywordIds: string[], since: Date) {
+    const ids = keywordIds
+      .filter(id => mongoose.Types.ObjectId.isValid(id))
+      .map(id => new mongoose.Types.ObjectId(id))
+
+    return RankCheck.find({
+      trackedKeywordId: { $in: ids },
+      checkedAt: { $gte: since }
+    })
+      .select('trackedKeywordId keyword position localPackPosition url serpFeatures provider checkedAt')
+      .sort({ checkedAt: 1 })
+      .lean()
+  }
+}
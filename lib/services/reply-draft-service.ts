@@ -0,0 +1,238 @@
+import mongoose from 'mongoose'
+import { Brand, IReview, Review, Store } from '@/lib/database/models'
+import { IReplyDraft, ReplyDraft } from '@/lib/database/reply-models'
+import { GmbApiServerService } from '@/lib/server/gmb-api-server'
+import { GoogleTokens } from '@/lib/server/google-oauth-server'
+import { reviewResourceName } from './auto-reply-service'
+import { ReplyTemplateService } from './reply-template-service'
+import { ScheduledPostService } from './scheduled-post-service'
+
+export interface ReplyDraftActor {
+  userId: string
+  name?: string
+  email?: string
+}
+
+// Draft shown next to a review in the reviews list
+export interface ReviewDraftSummary {
+  _id: string
+  status: 'pending' | 'rejected'
+  comment: string
+  author: ReplyDraftActor
+  rejectionReason?: string
+  updatedAt: Date
+}
+
+/**
+ * Raised when a draft cannot be saved, approved or rejected in its current state
+ */
+export class ReplyDraftError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message)
+    this.name = 'ReplyDraftError'
+  }
+}
+
+type DraftReview = Pick<IReview, 'gmbReviewId' | 'accountId' | 'hasResponse' | 'status'> & {
+  _id: mongoose.Types.ObjectId
+  brandId: mongoose.Types.ObjectId
+  storeId: mongoose.Types.ObjectId
+}
+
+export class ReplyDraftService {
+
+  /**
+   * Save the author's reply draft for a review. A review has at most one
+   * pending draft, so saving again (by anyone) replaces its text.
+   */
+  static async saveDraft(
+    reviewId: string,
+    draft: { comment: string; templateId?: string },
+    author: ReplyDraftActor
+  ): Promise<IReplyDraft> {
+    const review = await Review.findById(reviewId).select('brandId storeId hasResponse status').lean<DraftReview>()
+    if (!review) {
+      throw new ReplyDraftError('Review not found', 404)
+    }
+    if (review.hasResponse) {
+      throw new ReplyDraftError('Review already has a reply')
+    }
+
+    if (await ReplyDraft.exists({ reviewId: review._id, status: 'approving' })) {
+      throw new ReplyDraftError('The draft for this review is being approved')
+    }
+
+    const templateId = draft.templateId && mongoose.Types.ObjectId.isValid(draft.templateId) ? draft.templateId : undefined
+
+    const saved = await ReplyDraft.findOneAndUpdate(
+      { reviewId: review._id, status: 'pending' },
+      {
+        $set: { comment: draft.comment, author, ...(templateId && { templateId }) },
+        ...(!templateId && { $unset: { templateId: 1 } }),
+        $setOnInsert: { brandId: review.brandId, storeId: review.storeId }
+      },
+      { upsert: true, new: true, runValidators: true }
+    )
+    return saved!
+  }
+
+  /**
+   * Post a pending draft to GMB, optionally with the approver's edits. The
+   * approver's Google tokens are used when given, otherwise the tokens stored
+   * for the GMB account.
+   */
+  static async approve(
+    pending: IReplyDraft,
+    approver: ReplyDraftActor,
+    options: { comment?: string; tokens?: GoogleTokens | null } = {}
+  ): Promise<IReplyDraft> {
+    // Claimed atomically, so two approvers (or an approval racing a rejection) never both act on it
+    const draft = await ReplyDraft.findOneAndUpdate(
+      { _id: pending._id, status: 'pending' },
+      { $set: { status: 'approving' } },
+      { new: true }
+    )
+    if (!draft) {
+      const current = await ReplyDraft.findById(pending._id).select('status').lean()
+      throw new ReplyDraftError(`Draft is already ${current?.status || 'deleted'}`)
+    }
+
+    let comment: string
+    try {
+      comment = await this.postReply(draft, options)
+    } catch (error) {
+      // Nothing was posted, so the draft is open for approval again
+      await ReplyDraft.updateOne({ _id: draft._id, status: 'approving' }, { $set: { status: 'pending' } })
+        .catch(revertError => console.error('Failed to release reply draft claim:', revertError))
+      throw error
+    }
+
+    const now = new Date()
+    await Review.updateOne(
+      { _id: draft.reviewId },
+      {
+        hasResponse: true,
+        response: {
+          comment,
+          responseTime: now,
+          respondedBy: draft.author.email || draft.author.name || 'reply-draft'
+        }
+      }
+    )
+
+    draft.status = 'approved'
+    draft.reviewedBy = approver
+    draft.reviewedAt = now
+    if (comment !== draft.comment) draft.postedComment = comment
+    await draft.save()
+
+    if (draft.templateId) {
+      // The reply is already live, so a failed usage count must not fail the approval
+      await ReplyTemplateService.recordUsage(String(draft.templateId), draft.brandId).catch(error => {
+        console.error('Failed to record reply template usage:', error)
+      })
+    }
+
+    return draft
+  }
+
+  /**
+   * Post a claimed draft's reply to GMB. Returns the comment that was posted.
+   */
+  private static async postReply(
+    draft: IReplyDraft,
+    options: { comment?: string; tokens?: GoogleTokens | null }
+  ): Promise<string> {
+    const review = await Review.findById(draft.reviewId)
+      .select('gmbReviewId accountId hasResponse status brandId storeId')
+      .lean<DraftReview>()
+    if (!review || review.status !== 'active') {
+      throw new ReplyDraftError('Review not found', 404)
+    }
+    if (review.hasResponse) {
+      throw new ReplyDraftError('Review already has a reply')
+    }
+
+    const [store, brand] = await Promise.all([
+      Store.findById(review.storeId).select('gmbLocationId gmbAccountId').lean<{ gmbLocationId?: string; gmbAccountId?: string }>(),
+      Brand.findById(review.brandId).select('settings.gmbIntegration.gmbAccountId').lean()
+    ])
+    const accountId = review.accountId || store?.gmbAccountId || brand?.settings?.gmbIntegration?.gmbAccountId
+    let reviewName: string
+    try {
+      reviewName = reviewResourceName(review, store || undefined, accountId)
+    } catch (error) {
+      throw new ReplyDraftError(error instanceof Error ? error.message : 'Review cannot be replied to', 400)
+    }
+
+    const tokens = options.tokens || await ScheduledPostService.getAccountTokens(reviewName.split('/')[1]).catch(() => null)
+    if (!tokens) {
+      throw new ReplyDraftError('GMB authentication required', 401)
+    }
+
+    const comment = options.comment?.trim() || draft.comment
+    const replied = await new GmbApiServerService(tokens).replyToReview(reviewName, comment)
+    if (!replied) {
+      throw new ReplyDraftError('Failed to post reply to GMB', 502)
+    }
+
+    return comment
+  }
+
+  static async reject(draft: IReplyDraft, reviewer: ReplyDraftActor, reason?: string): Promise<IReplyDraft> {
+    return this.closePending(draft, {
+      status: 'rejected',
+      reviewedBy: reviewer,
+      reviewedAt: new Date(),
+      ...(reason && { rejectionReason: reason })
+    })
+  }
+
+  static async withdraw(draft: IReplyDraft): Promise<IReplyDraft> {
+    return this.closePending(draft, { status: 'withdrawn' })
+  }
+
+  /**
+   * Move a draft out of pending, only if no one else (e.g. an approver) got to it first
+   */
+  private static async closePending(draft: IReplyDraft, update: Partial<IReplyDraft>): Promise<IReplyDraft> {
+    const closed = await ReplyDraft.findOneAndUpdate(
+      { _id: draft._id, status: 'pending' },
+      { $set: update },
+      { new: true, runValidators: true }
+    )
+    if (!closed) {
+      const current = await ReplyDraft.findById(draft._id).select('status').lean()
+      throw new ReplyDraftError(`Draft is already ${current?.status || 'deleted'}`)
+    }
+    return closed
+  }
+
+  /**
+   * Latest open or rejected draft of each review, for showing draft state in
+   * review lists. Approved drafts are already visible as the review's reply.
+   */
+  static async latestDrafts(reviewIds: Array<mongoose.Types.ObjectId | string>): Promise<Map<string, ReviewDraftSummary>> {
+    const drafts = reviewIds.length > 0
+      ? await ReplyDraft.find({ reviewId: { $in: reviewIds }, status: { $in: ['pending', 'rejected'] } })
+        .select('reviewId status comment author rejectionReason updatedAt')
+        .sort({ updatedAt: -1 })
+        .lean()
+      : []
+
+    const latest = new Map<string, ReviewDraftSummary>()
+    for (const draft of drafts) {
+      const key = String(draft.reviewId)
+      if (latest.has(key)) continue
+      latest.set(key, {
+        _id: String(draft._id),
+        status: draft.status as ReviewDraftSummary['status'],
+        comment: draft.comment,
+        author: draft.author,
+        rejectionReason: draft.rejectionReason,
+        updatedAt: draft.updatedAt
+      })
+    }
+    return latest
+  }
+}
@@ -0,0 +1,143 @@
+import mongoose from 'mongoose'
+import { IReview, Review, Store } from '@/lib/database/models'
+import { IReplyTemplate, ReplyTemplate } from '@/lib/database/reply-models'
+
+export const REPLY_TEMPLATE_VARIABLES = ['reviewerName', 'storeName', 'city', 'rating'] as const
+
+export type ReplyTemplateVariable = typeof REPLY_TEMPLATE_VARIABLES[number]
+
+export type ReplyTemplateValues = Record<ReplyTemplateVariable, string>
+
+export const MAX_TEMPLATE_VARIANTS = 10
+
+// Used when a review has no usable value for a variable
+const FALLBACK_VALUES: ReplyTemplateValues = {
+  reviewerName: 'valued customer',
+  storeName: 'our store',
+  city: 'your city',
+  rating: ''
+}
+
+// GMB shows anonymous reviewers under these names
+const ANONYMOUS_NAMES = ['anonymous', 'a google user']
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+export interface RenderedReply {
+  reviewId: string
+  text: string
+  variant: number
+}
+
+export interface RenderResult {
+  replies: RenderedReply[]
+  // Reviews outside the template's rating range or brand
+  skippedReviewIds: string[]
+}
+
+type TemplateRating = Pick<IReplyTemplate, 'minRating' | 'maxRating'>
+
+/**
+ * Variables used in a template text that are not supported
+ */
+export function unknownVariables(text: string): string[] {
+  const unknown = new Set<string>()
+  for (const [, name] of text.matchAll(VARIABLE_PATTERN)) {
+    if (!REPLY_TEMPLATE_VARIABLES.includes(name as ReplyTemplateVariable)) unknown.add(name)
+  }
+  return Array.from(unknown)
+}
+
+/**
+ * Substitute {{variables}} in a template text
+ */
+export function renderTemplate(text: string, values: Partial<ReplyTemplateValues>): string {
+  return text
+    .replace(VARIABLE_PATTERN, (match, name: string) => {
+      if (!REPLY_TEMPLATE_VARIABLES.includes(name as ReplyTemplateVariable)) return match
+      return values[name as ReplyTemplateVariable]?.trim() || FALLBACK_VALUES[name as ReplyTemplateVariable]
+    })
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim()
+}
+
+/**
+ * Whether a template is offered for a review with this star rating
+ */
+export function matchesRating(template: TemplateRating, rating: number): boolean {
+  return rating >= template.minRating && rating <= template.maxRating
+}
+
+/**
+ * Index of a random variant
+ */
+export function pickVariant(variants: string[], random: () => number = Math.random): number {
+  return Math.min(variants.length - 1, Math.floor(random() * variants.length))
+}
+
+export class ReplyTemplateService {
+
+  /**
+   * Variable values for a review: its reviewer, store name and city, and rating
+   */
+  static valuesFor(
+    review: Pick<IReview, 'reviewer' | 'starRating'>,
+    store?: { name?: string; address?: { city?: string } } | null
+  ): ReplyTemplateValues {
+    const reviewerName = review.reviewer?.displayName?.trim() || ''
+    const anonymous = review.reviewer?.isAnonymous || ANONYMOUS_NAMES.includes(reviewerName.toLowerCase())
+
+    return {
+      reviewerName: anonymous ? '' : reviewerName,
+      storeName: store?.name || '',
+      city: store?.address?.city || '',
+      rating: review.starRating ? String(review.starRating) : ''
+    }
+  }
+
+  /**
+   * Fill a template in for each review, picking a random variant per review.
+   * Reviews outside the template's brand or rating range are skipped.
+   */
+  static async renderForReviews(template: IReplyTemplate, reviewIds: string[]): Promise<RenderResult> {
+    const reviews = await Review.find({
+      _id: { $in: reviewIds.filter(id => mongoose.Types.ObjectId.isValid(id)) },
+      brandId: template.brandId
+    })
+      .select('reviewer starRating storeId')
+      .lean<Array<Pick<IReview, 'reviewer' | 'starRating'> & { _id: mongoose.Types.ObjectId; storeId: mongoose.Types.ObjectId }>>()
+
+    const stores = await Store.find({ _id: { $in: reviews.map(review => review.storeId) } })
+      .select('name address.city')
+      .lean<Array<{ _id: mongoose.Types.ObjectId; name: string; address?: { city?: string } }>>()
+    const storesById = new Map(stores.map(store => [String(store._id), store]))
+
+    const replies = reviews
+      .filter(review => matchesRating(template, review.starRating))
+      .map(review => {
+        const variant = pickVariant(template.variants)
+        return {
+          reviewId: String(review._id),
+          text: renderTemplate(template.variants[variant], this.valuesFor(review, storesById.get(String(review.storeId)))),
+          variant
+        }
+      })
+
+    const rendered = new Set(replies.map(reply => reply.reviewId))
+    return {
+      replies,
+      skippedReviewIds: reviewIds.filter(id => !rendered.has(id))
+    }
+  }
+
+  /**
+   * Count a reply posted from a template
+   */
+  static async recordUsage(templateId: string, brandId?: mongoose.Types.ObjectId | string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(templateId)) return
+
+    const filter: Record<string, unknown> = { _id: templateId }
+    if (brandId) filter.brandId = brandId
+    await ReplyTemplate.updateOne(filter, { $inc: { usageCount: 1 }, $set: { lastUsedAt: new Date() } })
+  }
+}
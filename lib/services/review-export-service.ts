@@ -0,0 +1,346 @@
+import { Readable, PassThrough } from 'stream'
+import ExcelJS from 'exceljs'
+import mongoose from 'mongoose'
+import { Brand, Review, Store } from '@/lib/database/models'
+import { CSV_BOM, toCsvRow, CsvValue, neutralizeFormula } from '@/lib/utils/csv'
+
+export type ReviewExportFormat = 'csv' | 'xlsx'
+
+export interface ReviewExportScope {
+  // Restrict the export to a single brand (owner/manager sessions)
+  brandId?: string
+}
+
+interface ReviewExportColumn {
+  header: string
+  key: string
+  width: number
+}
+
+export const REVIEW_EXPORT_COLUMNS: ReviewExportColumn[] = [
+  { header: 'Review ID', key: 'reviewId', width: 28 },
+  { header: 'Review Date', key: 'createdAt', width: 22 },
+  { header: 'Brand', key: 'brandName', width: 20 },
+  { header: 'Store Name', key: 'storeName', width: 28 },
+  { header: 'Store Code', key: 'storeCode', width: 14 },
+  { header: 'City', key: 'city', width: 16 },
+  { header: 'Reviewer', key: 'reviewer', width: 22 },
+  { header: 'Rating', key: 'rating', width: 8 },
+  { header: 'Comment', key: 'comment', width: 60 },
+  { header: 'Status', key: 'status', width: 10 },
+  { header: 'Platform', key: 'platform', width: 12 },
+  { header: 'Replied', key: 'replied', width: 8 },
+  { header: 'Reply Text', key: 'replyText', width: 60 },
+  { header: 'Reply Time', key: 'replyTime', width: 22 },
+  { header: 'Replied By', key: 'repliedBy', width: 18 }
+]
+
+const PLATFORM_LABELS: Record<string, string> = {
+  gmb: 'Google',
+  manual: 'Manual',
+  imported: 'Imported'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const CURSOR_BATCH_SIZE = 1000
+const CSV_CHUNK_ROWS = 500
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+function toObjectId(id: string | null | undefined): mongoose.Types.ObjectId | null {
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) return null
+  return new mongoose.Types.ObjectId(id)
+}
+
+/**
+ * Build the Review query from the same filters the reviews page supports.
+ * Returns null when a filter is invalid.
+ */
+export function buildReviewExportQuery(
+  searchParams: URLSearchParams,
+  scope: ReviewExportScope = {}
+): Record<string, unknown> | null {
+  const query: Record<string, unknown> = {}
+
+  const brandId = searchParams.get('brandId')
+  const storeId = searchParams.get('storeId')
+  const rating = searchParams.get('rating')
+  const status = searchParams.get('status') || 'active'
+  const hasResponse = searchParams.get('hasResponse')
+  const platform = searchParams.get('platform')
+  const dateRange = searchParams.get('dateRange')
+  const startDate = searchParams.get('startDate')
+  const endDate = searchParams.get('endDate')
+  const search = searchParams.get('search')
+  const ids = searchParams.get('ids')
+
+  if (scope.brandId) {
+    if (brandId && brandId !== scope.brandId) return null
+    query.brandId = toObjectId(scope.brandId)
+  } else if (brandId && brandId !== 'all') {
+    const brandObjectId = toObjectId(brandId)
+    if (!brandObjectId) return null
+    query.brandId = brandObjectId
+  }
+
+  if (storeId && storeId !== 'all') {
+    const storeObjectId = toObjectId(storeId)
+    if (!storeObjectId) return null
+    query.storeId = storeObjectId
+  }
+
+  if (rating && rating !== 'all') {
+    const ratingNum = parseInt(rating)
+    if (ratingNum >= 1 && ratingNum <= 5) {
+      query.starRating = ratingNum
+    }
+  }
+
+  // "responded"/"unresponded" are page-level statuses that map onto hasResponse
+  if (status === 'responded') {
+    query.status = 'active'
+    query.hasResponse = true
+  } else if (status === 'unresponded') {
+    query.status = 'active'
+    query.hasResponse = false
+  } else if (status !== 'all') {
+    query.status = status
+  }
+
+  if (hasResponse === 'true') {
+    query.hasResponse = true
+  } else if (hasResponse === 'false') {
+    query.hasResponse = false
+  }
+
+  if (platform && platform !== 'all') {
+    query.source = platform === 'google' ? 'gmb' : platform
+  }
+
+  const createTime: Record<string, Date> = {}
+  if (dateRange && dateRange !== 'all' && dateRange !== 'custom') {
+    const now = new Date()
+    const days: Record<string, number> = { week: 7, month: 30, quarter: 90 }
+    if (dateRange === 'today') {
+      createTime.$gte = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    } else if (days[dateRange]) {
+      createTime.$gte = new Date(now.getTime() - days[dateRange] * DAY_MS)
+    }
+  }
+  if (startDate) {
+    const start = new Date(startDate)
+    if (isNaN(start.getTime())) return null
+    createTime.$gte = start
+  }
+  if (endDate) {
+    const end = new Date(endDate)
+    if (isNaN(end.getTime())) return null
+    // Include the whole end day
+    createTime.$lt = new Date(end.getTime() + DAY_MS)
+  }
+  if (Object.keys(createTime).length > 0) {
+    query.gmbCreateTime = createTime
+  }
+
+  if (search && search.trim()) {
+    const pattern = { $regex: escapeRegex(search.trim()), $options: 'i' }
+    query.$or = [
+      { comment: pattern },
+      { 'reviewer.displayName': pattern }
+    ]
+  }
+
+  // Export only the selected reviews
+  if (ids) {
+    const objectIds = ids.split(',').map(id => toObjectId(id.trim())).filter(Boolean)
+    if (objectIds.length === 0) return null
+    query._id = { $in: objectIds }
+  }
+
+  return query
+}
+
+/**
+ * Wait until a stream can take more data. Rejects if it closes or fails
+ * first (e.g. the client disconnects), so the writer never hangs.
+ */
+function waitForDrain(stream: PassThrough): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (stream.destroyed) {
+      reject(new Error('Export stream closed before it finished'))
+      return
+    }
+
+    const cleanup = () => {
+      stream.off('drain', onDrain)
+      stream.off('close', onClose)
+      stream.off('error', onError)
+    }
+    const onDrain = () => {
+      cleanup()
+      resolve()
+    }
+    const onClose = () => {
+      cleanup()
+      reject(new Error('Export stream closed before it finished'))
+    }
+    const onError = (error: Error) => {
+      cleanup()
+      reject(error)
+    }
+
+    stream.once('drain', onDrain)
+    stream.once('close', onClose)
+    stream.once('error', onError)
+  })
+}
+
+export class ReviewExportService {
+
+  /**
+   * Load store and brand lookups once, rather than populating per review
+   */
+  private static async loadLookups(query: Record<string, unknown>) {
+    const storeQuery: Record<string, unknown> = {}
+    if (query.brandId) storeQuery.brandId = query.brandId
+    if (query.storeId) storeQuery._id = query.storeId
+
+    const [stores, brands] = await Promise.all([
+      Store.find(storeQuery).select('name storeCode address.city').lean(),
+      Brand.find(query.brandId ? { _id: query.brandId } : {}).select('name').lean()
+    ])
+
+    return {
+      stores: new Map(stores.map(store => [String(store._id), store])),
+      brands: new Map(brands.map(brand => [String(brand._id), brand.name]))
+    }
+  }
+
+  private static toRow(
+    review: any,
+    lookups: Awaited<ReturnType<typeof ReviewExportService.loadLookups>>
+  ): Record<string, CsvValue> {
+    const store = lookups.stores.get(String(review.storeId))
+
+    const row: Record<string, CsvValue> = {
+      reviewId: review.gmbReviewId,
+      createdAt: review.gmbCreateTime ? new Date(review.gmbCreateTime) : null,
+      brandName: lookups.brands.get(String(review.brandId)) || '',
+      storeName: store?.name || '',
+      storeCode: store?.storeCode || '',
+      city: store?.address?.city || '',
+      reviewer: review.reviewer?.displayName || 'Anonymous',
+      rating: review.starRating,
+      comment: review.comment || '',
+      status: review.status,
+      platform: PLATFORM_LABELS[review.source] || review.source,
+      replied: review.hasResponse ? 'Yes' : 'No',
+      replyText: review.response?.comment || '',
+      replyTime: review.response?.responseTime ? new Date(review.response.responseTime) : null,
+      repliedBy: review.response?.respondedBy || ''
+    }
+
+    // Reviewers write comments and names, so neither CSV nor XLSX may hand them to Excel as formulas
+    for (const [key, value] of Object.entries(row)) {
+      if (typeof value === 'string') row[key] = neutralizeFormula(value)
+    }
+    return row
+  }
+
+  private static openCursor(query: Record<string, unknown>) {
+    return Review.find(query)
+      .select('gmbReviewId storeId brandId reviewer starRating comment gmbCreateTime hasResponse response status source')
+      .sort({ gmbCreateTime: -1 })
+      .lean()
+      .cursor({ batchSize: CURSOR_BATCH_SIZE })
+  }
+
+  /**
+   * Stream matching reviews as CSV. Documents are pulled from a cursor
+   * only as fast as the client reads, so memory stays flat.
+   */
+  static async createCsvStream(query: Record<string, unknown>): Promise<ReadableStream<Uint8Array>> {
+    const lookups = await this.loadLookups(query)
+    const cursor = this.openCursor(query)
+    const encoder = new TextEncoder()
+    const keys = REVIEW_EXPORT_COLUMNS.map(column => column.key)
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(CSV_BOM + toCsvRow(REVIEW_EXPORT_COLUMNS.map(column => column.header))))
+      },
+      async pull(controller) {
+        try {
+          let chunk = ''
+          for (let i = 0; i < CSV_CHUNK_ROWS; i++) {
+            const review = await cursor.next()
+            if (!review) {
+              if (chunk) controller.enqueue(encoder.encode(chunk))
+              controller.close()
+              await cursor.close()
+              return
+            }
+            const row = ReviewExportService.toRow(review, lookups)
+            chunk += toCsvRow(keys.map(key => row[key]))
+          }
+          controller.enqueue(encoder.encode(chunk))
+        } catch (error) {
+          console.error('Error streaming review CSV export:', error)
+          controller.error(error)
+          await cursor.close()
+        }
+      },
+      async cancel() {
+        await cursor.close()
+      }
+    })
+  }
+
+  /**
+   * Stream matching reviews as an XLSX workbook using ExcelJS's streaming writer
+   */
+  static async createXlsxStream(query: Record<string, unknown>): Promise<ReadableStream<Uint8Array>> {
+    const lookups = await this.loadLookups(query)
+    const cursor = this.openCursor(query)
+    const output = new PassThrough()
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: true,
+      useSharedStrings: false
+    })
+    const worksheet = workbook.addWorksheet('Reviews')
+    worksheet.columns = REVIEW_EXPORT_COLUMNS.map(column => ({ ...column }))
+    worksheet.getRow(1).font = { bold: true }
+    worksheet.getRow(1).commit()
+
+    const writeRows = async () => {
+      try {
+        for (let review = await cursor.next(); review; review = await cursor.next()) {
+          // The client went away
+          if (output.destroyed) return
+
+          worksheet.addRow(ReviewExportService.toRow(review, lookups)).commit()
+
+          // Respect backpressure from the HTTP response
+          if (output.writableNeedDrain) {
+            await waitForDrain(output)
+          }
+        }
+        worksheet.commit()
+        await workbook.commit()
+      } catch (error) {
+        if (!output.destroyed) {
+          console.error('Error streaming review XLSX export:', error)
+          output.destroy(error as Error)
+        }
+      } finally {
+        await cursor.close()
+      }
+    }
+
+    writeRows()
+
+    return Readable.toWeb(output) as ReadableStream<Uint8Array>
+  }
+}
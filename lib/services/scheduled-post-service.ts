@@ -0,0 +1,325 @@
+import crypto from 'crypto'
+import { IScheduledPost, ScheduledPost, Store } from '@/lib/database/models'
+import { GmbAccount } from '@/lib/database/gmb-account-models'
+import { GmbApiServerService, GmbPost, GmbPostInput } from '@/lib/server/gmb-api-server'
+import { GoogleTokens, googleOAuthServerClient } from '@/lib/server/google-oauth-server'
+import { isTokenExpired } from '@/lib/utils/token-refresh'
+import { NotificationService } from './notification-service'
+
+export const SCHEDULED_POST_STATUSES = ['scheduled', 'publishing', 'published', 'failed', 'cancelled'] as const
+
+export const DEFAULT_MAX_ATTEMPTS = 3
+
+// First retry after 5 minutes, then 10, 20, ...
+const RETRY_BASE_MS = 5 * 60 * 1000
+// A post stuck in "publishing" this long is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000
+// Allowance for clock skew between us and Google when looking for a post an earlier attempt created
+const ATTEMPT_LOOKBACK_MS = 5 * 60 * 1000
+
+// Only posts that have not started publishing can be changed
+const EDITABLE_STATUSES = ['scheduled', 'failed']
+
+export interface ScheduledPostOwner {
+  userId: string
+  name: string
+  email: string
+}
+
+export interface SchedulePostInput {
+  locationName: string
+  postData: GmbPostInput
+  scheduledFor: Date
+  tokens: GoogleTokens
+  owner: ScheduledPostOwner
+  maxAttempts?: number
+}
+
+export interface ProcessDuePostsResult {
+  processed: number
+  published: number
+  retrying: number
+  failed: number
+  // Reclaimed by another worker while this one was still publishing
+  lost: number
+}
+
+/**
+ * Split accounts/{accountId}/locations/{locationId}
+ */
+export function parseLocationName(locationName: string): { accountId: string; locationId: string } | null {
+  const parts = locationName.split('/')
+  if (parts.length !== 4 || parts[0] !== 'accounts' || parts[2] !== 'locations') return null
+  return { accountId: parts[1], locationId: parts[3] }
+}
+
+export class ScheduledPostService {
+
+  /**
+   * Persist the caller's OAuth tokens against the GMB account so the worker
+   * can publish after the browser session that scheduled the post is gone
+   */
+  static async saveAccountTokens(gmbAccountId: string, tokens: GoogleTokens, owner: ScheduledPostOwner) {
+    const expiry = tokens.expiry_date || tokens.expires_at
+
+    await GmbAccount.findOneAndUpdate(
+      { gmbAccountId },
+      {
+        $set: {
+          'tokens.access_token': tokens.access_token,
+          ...(tokens.refresh_token ? { 'tokens.refresh_token': tokens.refresh_token } : {}),
+          ...(expiry ? { 'tokens.expires_at': new Date(expiry) } : {}),
+          connected: true
+        },
+        $setOnInsert: {
+          name: owner.name || gmbAccountId,
+          email: owner.email
+        }
+      },
+      { upsert: true }
+    )
+  }
+
+  /**
+   * Load stored tokens for an account, refreshing and saving them when expired
+   */
+  static async getAccountTokens(gmbAccountId: string): Promise<GoogleTokens> {
+    // Not lean: the model decrypts the stored tokens
+    const account = await GmbAccount.findOne({ gmbAccountId })
+    if (!account?.tokens?.access_token) {
+      throw new Error(`No stored GMB tokens for account ${gmbAccountId}`)
+    }
+
+    let tokens: GoogleTokens = {
+      access_token: account.tokens.access_token,
+      refresh_token: account.tokens.refresh_token,
+      expires_at: account.tokens.expires_at ? new Date(account.tokens.expires_at).getTime() : undefined
+    }
+
+    if (isTokenExpired(tokens)) {
+      if (!tokens.refresh_token) {
+        throw new Error(`Stored GMB tokens for account ${gmbAccountId} have expired and cannot be refreshed`)
+      }
+
+      const refreshed = await googleOAuthServerClient.refreshAccessToken(tokens.refresh_token)
+      tokens = {
+        ...tokens,
+        ...refreshed,
+        refresh_token: refreshed.refresh_token || tokens.refresh_token,
+        expires_at: refreshed.expiry_date || refreshed.expires_at
+      }
+
+      await GmbAccount.updateOne(
+        { gmbAccountId },
+        {
+          $set: {
+            'tokens.access_token': tokens.access_token,
+            'tokens.refresh_token': tokens.refresh_token,
+            ...(tokens.expires_at ? { 'tokens.expires_at': new Date(tokens.expires_at) } : {})
+          }
+        }
+      )
+    }
+
+    return tokens
+  }
+
+  /**
+   * Queue a post for publishing at `scheduledFor`
+   */
+  static async schedule(input: SchedulePostInput): Promise<IScheduledPost> {
+    const location = parseLocationName(input.locationName)
+    if (!location) {
+      throw new Error('locationName must be in the form accounts/{accountId}/locations/{locationId}')
+    }
+
+    await this.saveAccountTokens(location.accountId, input.tokens, input.owner)
+
+    // Link to our store record when we have one, so posts can be scoped by brand
+    const store = await Store.findOne({
+      gmbLocationId: { $in: [input.locationName, location.locationId, `locations/${location.locationId}`] }
+    }).select('_id brandId').lean()
+
+    return ScheduledPost.create({
+      locationName: input.locationName,
+      gmbAccountId: location.accountId,
+      storeId: store?._id,
+      brandId: store?.brandId,
+      postData: input.postData,
+      scheduledFor: input.scheduledFor,
+      nextAttemptAt: input.scheduledFor,
+      maxAttempts: input.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      createdBy: input.owner
+    })
+  }
+
+  /**
+   * Move a scheduled (or failed) post to a new time. Resets the retry count.
+   */
+  static async reschedule(id: string, scheduledFor: Date): Promise<IScheduledPost | null> {
+    return ScheduledPost.findOneAndUpdate(
+      { _id: id, status: { $in: EDITABLE_STATUSES } },
+      {
+        $set: {
+          status: 'scheduled',
+          scheduledFor,
+          nextAttemptAt: scheduledFor,
+          attempts: 0
+        },
+        $unset: { lastError: 1, lockedAt: 1, lockToken: 1 }
+      },
+      { new: true }
+    )
+  }
+
+  static async cancel(id: string, cancelledBy: string): Promise<IScheduledPost | null> {
+    return ScheduledPost.findOneAndUpdate(
+      { _id: id, status: { $in: EDITABLE_STATUSES } },
+      {
+        $set: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          cancelledBy
+        },
+        $unset: { nextAttemptAt: 1 }
+      },
+      { new: true }
+    )
+  }
+
+  /**
+   * Atomically claim the next due post so concurrent workers never publish twice
+   */
+  private static async claimNext(now: Date): Promise<IScheduledPost | null> {
+    return ScheduledPost.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'scheduled', nextAttemptAt: { $lte: now } },
+          { status: 'publishing', lockedAt: { $lt: new Date(now.getTime() - STALE_LOCK_MS) } }
+        ]
+      },
+      {
+        $set: { status: 'publishing', lockedAt: now, lockToken: crypto.randomUUID() },
+        $inc: { attempts: 1 }
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    )
+  }
+
+  /**
+   * The post on its location, if GMB has one created since an attempt started
+   */
+  private static async findPublishedPost(
+    gmbService: GmbApiServerService,
+    post: IScheduledPost,
+    attemptedAt: Date
+  ): Promise<GmbPost | null> {
+    const since = new Date(attemptedAt.getTime() - ATTEMPT_LOOKBACK_MS)
+    const posts = await gmbService.getPosts(post.locationName, { updatedAfter: since })
+    return posts.find(existing =>
+      existing.summary === post.postData.summary &&
+      existing.topicType === post.postData.topicType &&
+      (!existing.createTime || new Date(existing.createTime) >= since)
+    ) || null
+  }
+
+  /**
+   * Publish a claimed post. Returns false when another worker reclaimed the
+   * lock first, in which case this one must not touch the post again.
+   */
+  private static async publish(post: IScheduledPost): Promise<boolean> {
+    const tokens = await this.getAccountTokens(post.gmbAccountId)
+    const gmbService = new GmbApiServerService(tokens)
+    const lease = { _id: post._id, status: 'publishing', lockToken: post.lockToken }
+
+    // An earlier attempt that timed out, or whose worker died, may have published it already
+    let created = post.publishAttemptedAt
+      ? await this.findPublishedPost(gmbService, post, post.publishAttemptedAt)
+      : null
+
+    if (!created) {
+      const marked = await ScheduledPost.updateOne(lease, { $set: { publishAttemptedAt: new Date() } })
+      if (marked.matchedCount === 0) return false
+      created = await gmbService.createPost(post.locationName, post.postData)
+    }
+
+    if (!created) {
+      throw new Error('GMB did not return the created post')
+    }
+
+    await ScheduledPost.updateOne(
+      lease,
+      {
+        $set: {
+          status: 'published',
+          gmbPostId: created.id,
+          publishedAt: new Date()
+        },
+        $unset: { lockedAt: 1, lockToken: 1, nextAttemptAt: 1, lastError: 1 }
+      }
+    )
+    return true
+  }
+
+  /**
+   * Retry with exponential backoff until maxAttempts, then mark failed. Nothing
+   * is recorded when another worker has reclaimed the lock.
+   */
+  private static async recordFailure(post: IScheduledPost, error: unknown, now: Date): Promise<'retrying' | 'failed' | 'lost'> {
+    const message = error instanceof Error ? error.message : String(error)
+
+    const lease = { _id: post._id, status: 'publishing', lockToken: post.lockToken }
+
+    if (post.attempts >= post.maxAttempts) {
+      const updated = await ScheduledPost.updateOne(
+        lease,
+        {
+          $set: { status: 'failed', lastError: message },
+          $unset: { lockedAt: 1, lockToken: 1, nextAttemptAt: 1 }
+        }
+      )
+      if (updated.matchedCount === 0) return 'lost'
+      await NotificationService.postFailed(post, message)
+        .catch(notifyError => console.error('Error sending post failure notification:', notifyError))
+      return 'failed'
+    }
+
+    const delay = RETRY_BASE_MS * Math.pow(2, post.attempts - 1)
+    const updated = await ScheduledPost.updateOne(
+      lease,
+      {
+        $set: {
+          status: 'scheduled',
+          lastError: message,
+          nextAttemptAt: new Date(now.getTime() + delay)
+        },
+        $unset: { lockedAt: 1, lockToken: 1 }
+      }
+    )
+    return updated.matchedCount === 0 ? 'lost' : 'retrying'
+  }
+
+  /**
+   * Publish every post that is due, one at a time, up to `limit`
+   */
+  static async processDuePosts(limit: number = 25): Promise<ProcessDuePostsResult> {
+    const result: ProcessDuePostsResult = { processed: 0, published: 0, retrying: 0, failed: 0, lost: 0 }
+
+    while (result.processed < limit) {
+      const now = new Date()
+      const post = await this.claimNext(now)
+      if (!post) break
+
+      result.processed++
+      try {
+        result[await this.publish(post) ? 'published' : 'lost']++
+      } catch (error) {
+        console.error(`Error publishing scheduled post ${post._id}:`, error)
+        const outcome = await this.recordFailure(post, error, now)
+        result[outcome]++
+      }
+    }
+
+    return result
+  }
+}
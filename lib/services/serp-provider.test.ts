@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getSerpProvider } from './serp-provider'
+
+describe('getSerpProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses the configured provider', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('SERP_PROVIDER', 'serpapi')
+    expect(getSerpProvider().name).toBe('serpapi')
+  })
+
+  it.each(['development', 'test'])('falls back to fixtures in %s', env => {
+    vi.stubEnv('NODE_ENV', env)
+    vi.stubEnv('SERP_PROVIDER', '')
+    expect(getSerpProvider().name).toBe('fixture')
+  })
+
+  it('requires SERP_PROVIDER in production', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('SERP_PROVIDER', '')
+    expect(() => getSerpProvider()).toThrow('SERP_PROVIDER is not set')
+  })
+
+  it('rejects unknown providers', () => {
+    expect(() => getSerpProvider('bing')).toThrow('Unknown SERP provider: bing')
+  })
+})
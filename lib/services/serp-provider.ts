@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface SerpQuery {
+  keyword: string
+  location?: string
+  device: 'desktop' | 'mobile'
+  // Hints for providers that synthesise results offline; live providers ignore them
+  targetDomain?: string
+  targetName?: string
+}
+
+export interface SerpOrganicResult {
+  position: number
+  url: string
+  domain: string
+  title?: string
+}
+
+export interface SerpLocalResult {
+  position: number
+  name: string
+  placeId?: string
+  domain?: string
+}
+
+export interface SerpResult {
+  organic: SerpOrganicResult[]
+  localPack: SerpLocalResult[]
+  serpFeatures: string[]
+  totalResults?: number
+}
+
+/**
+ * A source of search engine results. Implementations must return organic
+ * results in rank order with 1-based positions.
+ */
+export interface SerpProvider {
+  readonly name: string
+  search(query: SerpQuery): Promise<SerpResult>
+}
+
+export function getDomain(url: string): string {
+  try {
+    return new URL(url.includes('://') ? url : `https://${url}`).hostname.replace(/^www\./, '').toLowerCase()
+  } catch {
+    return ''
+  }
+}
+
+// Small deterministic hash so fixture results are stable for a given input
+function hashString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+const FILLER_DOMAINS = [
+  'justdial.com', 'tripadvisor.in', 'zomato.com', 'yelp.com', 'sulekha.com',
+  'magicpin.in', 'indiamart.com', 'facebook.com', 'instagram.com', 'wikipedia.org',
+  'quora.com', 'reddit.com', 'youtube.com', 'timesofindia.com', 'nearbuy.com',
+  'lbb.in', 'whatshot.in', 'dineout.co.in', 'swiggy.com', 'google.com'
+]
+
+type FixtureFile = Record<string, SerpResult>
+
+/**
+ * Offline provider. Looks the query up in a JSON fixture file first
+ * (keyed by "keyword|location|device", "keyword|location" or "keyword",
+ * all lowercase); otherwise synthesises a stable SERP whose target position
+ * drifts from day to day so history and trend charts have data.
+ */
+export class FixtureSerpProvider implements SerpProvider {
+  readonly name = 'fixture'
+  private fixtures: FixtureFile | null = null
+
+  constructor(private fixturePath: string = process.env.SERP_FIXTURE_FILE || path.join(process.cwd(), 'lib/services/fixtures/serp-fixtures.json')) {}
+
+  private async loadFixtures(): Promise<FixtureFile> {
+    if (this.fixtures) return this.fixtures
+
+    try {
+      this.fixtures = JSON.parse(await fs.readFile(this.fixturePath, 'utf8')) as FixtureFile
+    } catch (error) {
+      console.warn(`SERP fixture file not loaded (${this.fixturePath}):`, error instanceof Error ? error.message : error)
+      this.fixtures = {}
+    }
+    return this.fixtures
+  }
+
+  async search(query: SerpQuery): Promise<SerpResult> {
+    const fixtures = await this.loadFixtures()
+    const keyword = query.keyword.trim().toLowerCase()
+    const location = (query.location || '').trim().toLowerCase()
+
+    const match = fixtures[`${keyword}|${location}|${query.device}`]
+      || fixtures[`${keyword}|${location}`]
+      || fixtures[keyword]
+    if (match) return match
+
+    return this.synthesise(query)
+  }
+
+  private synthesise(query: SerpQuery): SerpResult {
+    const base = `${query.keyword}|${query.location || ''}|${query.device}`.toLowerCase()
+    const day = new Date().toISOString().split('T')[0]
+    const seed = hashString(base)
+    const daily = hashString(`${base}|${day}`)
+
+    // A stable "home" position per query, with a small daily wobble
+    const home = (seed % 25) + 1
+    const wobble = (daily % 5) - 2
+    const targetPosition = Math.max(1, home + wobble)
+    const notFound = daily % 10 === 0
+
+    const organic: SerpOrganicResult[] = []
+    for (let position = 1; position <= 30; position++) {
+      if (query.targetDomain && !notFound && position === targetPosition) {
+        organic.push({ position, url: `https://${query.targetDomain}/`, domain: query.targetDomain, title: query.targetName })
+        continue
+      }
+      const domain = FILLER_DOMAINS[(seed + position) % FILLER_DOMAINS.length]
+      organic.push({ position, url: `https://${domain}/${encodeURIComponent(query.keyword)}-${position}`, domain })
+    }
+
+    const localPack: SerpLocalResult[] = [1, 2, 3].map(position => ({
+      position,
+      name: query.targetName && !notFound && position === (daily % 3) + 1
+        ? query.targetName
+        : `Local Business ${((seed + position) % 90) + 10}`
+    }))
+
+    return {
+      organic,
+      localPack,
+      serpFeatures: ['local_pack'],
+      totalResults: 1000000 + (seed % 9000000)
+    }
+  }
+}
+
+/**
+ * Live Google results via SerpApi (https://serpapi.com). Requires SERPAPI_API_KEY.
+ */
+export class SerpApiProvider implements SerpProvider {
+  readonly name = 'serpapi'
+
+  constructor(private apiKey: string = process.env.SERPAPI_API_KEY || '') {}
+
+  async search(query: SerpQuery): Promise<SerpResult> {
+    if (!this.apiKey) {
+      throw new Error('SERPAPI_API_KEY is not configured')
+    }
+
+    const params = new URLSearchParams({
+      engine: 'google',
+      q: query.keyword,
+      device: query.device,
+      num: '100',
+      api_key: this.apiKey
+    })
+    if (query.location) params.set('location', query.location)
+
+    const response = await fetch(`https://serpapi.com/search.json?${params.toString()}`)
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`SerpApi error! status: ${response.status} - ${errorText}`)
+    }
+
+    const data = await response.json()
+
+    const organic: SerpOrganicResult[] = (data.organic_results || []).map((result: any) => ({
+      position: result.position,
+      url: result.link,
+      domain: getDomain(result.link || ''),
+      title: result.title
+    }))
+
+    const places = data.local_results?.places || (Array.isArray(data.local_results) ? data.local_results : [])
+    const localPack: SerpLocalResult[] = places.map((place: any, index: number) => ({
+      position: place.position || index + 1,
+      name: place.title,
+      placeId: place.place_id,
+      domain: place.links?.website ? getDomain(place.links.website) : undefined
+    }))
+
+    const featureKeys: Record<string, string> = {
+      local_results: 'local_pack',
+      answer_box: 'answer_box',
+      knowledge_graph: 'knowledge_graph',
+      related_questions: 'people_also_ask',
+      shopping_results: 'shopping',
+      top_stories: 'top_stories',
+      inline_images: 'images'
+    }
+
+    return {
+      organic,
+      localPack,
+      serpFeatures: Object.entries(featureKeys).filter(([key]) => data[key]).map(([, feature]) => feature),
+      totalResults: data.search_information?.total_results
+    }
+  }
+}
+
+const providers: Record<string, () => SerpProvider> = {
+  fixture: () => new FixtureSerpProvider(),
+  serpapi: () => new SerpApiProvider()
+}
+
+/**
+ * Provider selected by SERP_PROVIDER. Only development and tests fall back to
+ * the offline fixture provider; elsewhere fixture rankings would pass for real ones.
+ */
+export function getSerpProvider(name: string | undefined = process.env.SERP_PROVIDER): SerpProvider {
+  if (!name) {
+    if (process.env.NODE_ENV !== 'development' && process.env.NODE_ENV !== 'test') {
+      throw new Error('SERP_PROVIDER is not set (use "serpapi", or "fixture" for offline rankings)')
+    }
+    name = 'fixture'
+  }
+
+  const factory = providers[name]
+  if (!factory) {
+    throw new Error(`Unknown SERP provider: ${name}`)
+  }
+  return factory()
+}
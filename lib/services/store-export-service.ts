@@ -0,0 +1,259 @@
+import mongoose from 'mongoose'
+import { Brand, Performance, Review, Store } from '@/lib/database/models'
+import { CSV_BOM, CsvValue, toCsvRow } from '@/lib/utils/csv'
+
+export type StoreExportFormat = 'csv' | 'json'
+
+export const STORE_EXPORT_COLUMN_GROUPS = [
+  'address',
+  'hours',
+  'categories',
+  'gmb',
+  'verification',
+  'microsite',
+  'performance',
+  'ratings'
+] as const
+
+export type StoreExportColumnGroup = typeof STORE_EXPORT_COLUMN_GROUPS[number]
+
+export interface StoreExportOptions {
+  groups: StoreExportColumnGroup[]
+  // Base URL used to build our own microsite links
+  micrositeBaseUrl: string
+}
+
+// Page status labels map onto Store.status
+const STATUS_FILTER_MAP: Record<string, string> = {
+  live: 'active',
+  archived: 'inactive',
+  pending: 'draft'
+}
+
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Build the Store query from the stores page filters. `scopeBrandId`
+ * restricts owners/managers to their own brand.
+ */
+export function buildStoreExportQuery(
+  searchParams: URLSearchParams,
+  scopeBrandId?: string
+): Record<string, unknown> | null {
+  const query: Record<string, unknown> = {}
+
+  const brandId = searchParams.get('brandId')
+  const status = searchParams.get('status')
+  const category = searchParams.get('category')
+  const city = searchParams.get('city')
+  const search = searchParams.get('search')
+
+  if (scopeBrandId) {
+    if (brandId && brandId !== 'all' && brandId !== scopeBrandId) return null
+    query.brandId = new mongoose.Types.ObjectId(scopeBrandId)
+  } else if (brandId && brandId !== 'all') {
+    if (!mongoose.Types.ObjectId.isValid(brandId)) return null
+    query.brandId = new mongoose.Types.ObjectId(brandId)
+  }
+
+  if (status && status !== 'all') {
+    query.status = STATUS_FILTER_MAP[status.toLowerCase()] || status.toLowerCase()
+  }
+
+  if (category && category !== 'all') {
+    query.primaryCategory = category
+  }
+
+  if (city && city !== 'all') {
+    query['address.city'] = city
+  }
+
+  if (search && search.trim()) {
+    const pattern = { $regex: escapeRegex(search.trim()), $options: 'i' }
+    query.$or = [
+      { name: pattern },
+      { 'address.line1': pattern },
+      { 'address.city': pattern },
+      { phone: pattern }
+    ]
+  }
+
+  return query
+}
+
+export function parseStoreExportGroups(value: string | null): StoreExportColumnGroup[] {
+  if (!value) return []
+  return value
+    .split(',')
+    .map(group => group.trim())
+    .filter((group): group is StoreExportColumnGroup =>
+      (STORE_EXPORT_COLUMN_GROUPS as readonly string[]).includes(group)
+    )
+}
+
+function formatHours(day?: { isOpen?: boolean; openTime?: string; closeTime?: string }): string {
+  if (!day) return ''
+  if (day.isOpen === false) return 'Closed'
+  if (!day.openTime && !day.closeTime) return ''
+  return `${day.openTime || ''}-${day.closeTime || ''}`
+}
+
+export class StoreExportService {
+
+  /**
+   * Latest performance totals per store (most recent stored period plus lifetime sums)
+   */
+  private static async loadPerformance(storeIds: mongoose.Types.ObjectId[]) {
+    const rows = await Performance.aggregate([
+      { $match: { storeId: { $in: storeIds }, status: 'active' } },
+      { $sort: { 'period.endTime': -1 } },
+      {
+        $group: {
+          _id: '$storeId',
+          latestPeriodStart: { $first: '$period.startTime' },
+          latestPeriodEnd: { $first: '$period.endTime' },
+          latestViews: { $first: '$views' },
+          latestActions: { $first: '$actions' },
+          latestCallClicks: { $first: '$callClicks' },
+          latestWebsiteClicks: { $first: '$websiteClicks' },
+          latestDirectionRequests: { $first: '$directionRequests' },
+          totalViews: { $sum: '$views' },
+          totalActions: { $sum: '$actions' }
+        }
+      }
+    ])
+
+    return new Map(rows.map(row => [String(row._id), row]))
+  }
+
+  private static async loadRatings(storeIds: mongoose.Types.ObjectId[]) {
+    const rows = await Review.aggregate([
+      { $match: { storeId: { $in: storeIds }, status: 'active' } },
+      {
+        $group: {
+          _id: '$storeId',
+          averageRating: { $avg: '$starRating' },
+          totalReviews: { $sum: 1 },
+          repliedReviews: { $sum: { $cond: ['$hasResponse', 1, 0] } },
+          lastReviewAt: { $max: '$gmbCreateTime' }
+        }
+      }
+    ])
+
+    return new Map(rows.map(row => [String(row._id), row]))
+  }
+
+  /**
+   * Load matching stores and flatten them into export rows for the chosen column groups
+   */
+  static async buildRows(
+    query: Record<string, unknown>,
+    options: StoreExportOptions
+  ): Promise<Record<string, CsvValue>[]> {
+    const { groups, micrositeBaseUrl } = options
+    const has = (group: StoreExportColumnGroup) => groups.includes(group)
+
+    const stores = await Store.find(query).sort({ name: 1 }).lean()
+    const storeIds = stores.map(store => store._id as mongoose.Types.ObjectId)
+    const brandIds = [...new Set(stores.map(store => String(store.brandId)))]
+
+    const [brands, performance, ratings] = await Promise.all([
+      Brand.find({ _id: { $in: brandIds } }).select('name slug').lean(),
+      has('performance') ? this.loadPerformance(storeIds) : Promise.resolve(new Map()),
+      has('ratings') ? this.loadRatings(storeIds) : Promise.resolve(new Map())
+    ])
+    const brandMap = new Map(brands.map(brand => [String(brand._id), brand]))
+
+    return stores.map(store => {
+      const brand = brandMap.get(String(store.brandId))
+      const row: Record<string, CsvValue> = {
+        'Store ID': String(store._id),
+        'Store Name': store.name,
+        'Store Code': store.storeCode,
+        'Brand': brand?.name || '',
+        'Status': store.status,
+        'Phone': store.phone || '',
+        'Email': store.email || ''
+      }
+
+      if (has('address')) {
+        row['Address Line 1'] = store.address?.line1 || ''
+        row['Address Line 2'] = store.address?.line2 || ''
+        row['Locality'] = store.address?.locality || ''
+        row['City'] = store.address?.city || ''
+        row['State'] = store.address?.state || ''
+        row['Postal Code'] = store.address?.postalCode || ''
+        row['Country'] = store.address?.countryCode || ''
+        row['Latitude'] = store.address?.latitude ?? ''
+        row['Longitude'] = store.address?.longitude ?? ''
+      }
+
+      if (has('hours')) {
+        for (const day of DAYS) {
+          row[`Hours ${day.charAt(0).toUpperCase()}${day.slice(1)}`] = formatHours(store.hoursOfOperation?.[day])
+        }
+      }
+
+      if (has('categories')) {
+        row['Primary Category'] = store.primaryCategory || ''
+        row['Additional Categories'] = (store.additionalCategories || []).join('; ')
+        row['Tags'] = (store.tags || []).join('; ')
+      }
+
+      if (has('gmb')) {
+        row['GMB Location ID'] = store.gmbLocationId || ''
+        row['GMB Account ID'] = store.gmbAccountId || ''
+        row['Place ID'] = store.placeId || ''
+        row['Last Sync'] = store.lastSyncAt ? new Date(store.lastSyncAt) : ''
+      }
+
+      if (has('verification')) {
+        const history = store.gmbData?.verificationHistory || []
+        const latest = history.length > 0 ? history[history.length - 1] : undefined
+        row['Verified'] = (store.gmbData?.verified ?? store.verified) ? 'Yes' : 'No'
+        row['Last Verification Check'] = store.gmbData?.lastVerificationCheck ? new Date(store.gmbData.lastVerificationCheck) : ''
+        row['Latest Verification Method'] = latest?.method || ''
+        row['Latest Verification Status'] = latest?.status || ''
+        row['Voice of Merchant'] = store.gmbData?.voiceOfMerchantState?.complianceState || ''
+      }
+
+      if (has('microsite')) {
+        row['Microsite URL'] = brand?.slug && store.slug ? `${micrositeBaseUrl}/${brand.slug}/stores/${store.slug}` : ''
+        row['GMB Microsite URL'] = store.microsite?.gmbUrl || ''
+        row['Maps URL'] = store.microsite?.mapsUrl || ''
+        row['Tagline'] = store.microsite?.tagline || ''
+      }
+
+      if (has('performance')) {
+        const perf = performance.get(String(store._id))
+        row['Latest Period Start'] = perf?.latestPeriodStart ? new Date(perf.latestPeriodStart) : ''
+        row['Latest Period End'] = perf?.latestPeriodEnd ? new Date(perf.latestPeriodEnd) : ''
+        row['Latest Views'] = perf?.latestViews ?? ''
+        row['Latest Actions'] = perf?.latestActions ?? ''
+        row['Latest Call Clicks'] = perf?.latestCallClicks ?? ''
+        row['Latest Website Clicks'] = perf?.latestWebsiteClicks ?? ''
+        row['Latest Direction Requests'] = perf?.latestDirectionRequests ?? ''
+        row['Total Views'] = perf?.totalViews ?? ''
+        row['Total Actions'] = perf?.totalActions ?? ''
+      }
+
+      if (has('ratings')) {
+        const rating = ratings.get(String(store._id))
+        row['Average Rating'] = rating ? Math.round(rating.averageRating * 10) / 10 : ''
+        row['Total Reviews'] = rating?.totalReviews ?? 0
+        row['Reply Rate %'] = rating?.totalReviews ? Math.round((rating.repliedReviews / rating.totalReviews) * 100) : ''
+        row['Last Review'] = rating?.lastReviewAt ? new Date(rating.lastReviewAt) : ''
+      }
+
+      return row
+    })
+  }
+
+  static toCsv(rows: Record<string, CsvValue>[]): string {
+    if (rows.length === 0) return CSV_BOM
+    const headers = Object.keys(rows[0])
+    return CSV_BOM + toCsvRow(headers) + rows.map(row => toCsvRow(headers.map(header => row[header]))).join('')
+  }
+}
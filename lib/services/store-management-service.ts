@@ -114,7 +114,6 @@ export class StoreManagementService {
               owner: {
                 name: storeData.brandName || 'Business Owner',
                 email: storeData.brandEmail,
-                password: 'gmb-auto-generated',
                 role: 'owner'
               }
             },
@@ -412,7 +411,6 @@ export class StoreManagementService {
                 owner: {
                   name: accountInfo.name || 'Business Owner',
                   email: accountInfo.email,
-                  password: 'gmb-auto-generated',
                   role: 'owner'
                 }
               },
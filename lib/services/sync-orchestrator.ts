@@ -1,4 +1,6 @@
 import { ImprovedSyncService, SyncState } from './improved-sync-service'
+import { AutoReplyService } from './auto-reply-service'
+import { NotificationService } from './notification-service'
 import { GmbParallelDataService } from './parallel-api-service'
 import { DataPipelineService } from './data-pipeline'
 import { GmbApiServerService } from '@/lib/server/gmb-api-server'
@@ -154,6 +156,12 @@ export class SyncOrchestrator {
       this.syncState.completedAt = new Date()
       await this.updateSyncState()
 
+      // Queue rule-based replies to the reviews this sync brought in; never fails the sync
+      await AutoReplyService.afterSync(this.syncState.brandId, this.syncState.accountId, tokens)
+        .catch(error => console.error('Error queueing auto-replies after sync:', error))
+      await NotificationService.afterSync(this.syncState.brandId, this.syncState.startedAt)
+        .catch(error => console.error('Error sending review notifications after sync:', error))
+
       const duration = Date.now() - startTime
 
       return {
@@ -187,6 +195,8 @@ export class SyncOrchestrator {
           retryCount: 0
         })
         await this.updateSyncState()
+        await NotificationService.syncFailed(this.syncState.brandId, this.syncState.id, error)
+          .catch(notifyError => console.error('Error sending sync failure notification:', notifyError))
       }
 
       return {
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import mongoose from 'mongoose'
+import { User } from '@/lib/database/user-model'
+import { UserManagementService } from './user-management-service'
+
+describe('UserManagementService.deactivateBrandUser', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('deactivates the replaced login and invalidates its existing sessions', async () => {
+    const brandId = new mongoose.Types.ObjectId()
+    const findOneAndUpdate = vi.spyOn(User, 'findOneAndUpdate').mockResolvedValue(null)
+
+    await UserManagementService.deactivateBrandUser(brandId, 'manager', 'old@example.com')
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { email: 'old@example.com', brandId, role: 'manager', status: { $ne: 'inactive' } },
+      { $set: { status: 'inactive' }, $inc: { sessionVersion: 1 } },
+      { new: true }
+    )
+  })
+})
@@ -0,0 +1,155 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import { Brand } from '@/lib/database/models'
+import { IUser, User, UserRole } from '@/lib/database/user-model'
+
+export const USER_ROLES: UserRole[] = ['super_admin', 'owner', 'manager']
+export const USER_STATUSES: IUser['status'][] = ['active', 'inactive', 'suspended']
+
+export interface UserSummary {
+  _id: string
+  email: string
+  name: string
+  role: UserRole
+  brandId?: string
+  brandName?: string
+  phone?: string
+  status: IUser['status']
+  lastLoginAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type BrandUserRole = Extract<UserRole, 'owner' | 'manager'>
+
+export interface BrandUserCredentials {
+  role: BrandUserRole
+  email: string
+  password?: string
+}
+
+type PopulatedBrand = { _id: mongoose.Types.ObjectId; name?: string }
+
+export class UserManagementService {
+
+  /**
+   * Check that a role/brand combination is allowed. Owners and managers must
+   * belong to an existing brand; super admins are never tied to one.
+   * Returns an error message, or null when the assignment is valid.
+   */
+  static async validateAssignment(role: UserRole, brandId?: string | null): Promise<string | null> {
+    if (!USER_ROLES.includes(role)) {
+      return 'Invalid role'
+    }
+
+    if (role === 'super_admin') {
+      return null
+    }
+
+    if (!brandId) {
+      return 'Brand ID is required for owner and manager roles'
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(brandId)) {
+      return 'Invalid brand'
+    }
+
+    const brand = await Brand.exists({ _id: brandId })
+    return brand ? null : 'Brand not found'
+  }
+
+  /**
+   * Public view of a user: no password hash or Google tokens
+   */
+  static toSummary(user: IUser | Record<string, any>): UserSummary {
+    const brand = user.brandId as PopulatedBrand | mongoose.Types.ObjectId | undefined
+    const populated = brand && 'name' in brand ? brand as PopulatedBrand : null
+
+    return {
+      _id: String(user._id),
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      brandId: brand ? String(populated ? populated._id : brand) : undefined,
+      brandName: populated?.name,
+      phone: user.phone,
+      status: user.status,
+      lastLoginAt: user.lastLoginAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt
+    }
+  }
+
+  /**
+   * Read the owner/manager logins submitted with a brand form
+   */
+  static brandCredentials(users: any): BrandUserCredentials[] {
+    const credentials: BrandUserCredentials[] = []
+    for (const role of ['owner', 'manager'] as const) {
+      const email = typeof users?.[role]?.email === 'string' ? users[role].email.trim().toLowerCase() : ''
+      if (!email) continue
+      const password = typeof users[role].password === 'string' && users[role].password.trim()
+        ? users[role].password
+        : undefined
+      credentials.push({ role, email, password })
+    }
+    return credentials
+  }
+
+  /**
+   * First email that already belongs to a user outside the given brand
+   */
+  static async findEmailConflict(emails: string[], brandId?: string): Promise<string | null> {
+    if (emails.length === 0) return null
+
+    const users = await User.find({ email: { $in: emails } }).select('email brandId').lean()
+    const conflict = users.find(user => !brandId || String(user.brandId) !== brandId)
+    return conflict ? conflict.email : null
+  }
+
+  /**
+   * Create or update the login of a brand's owner or manager. Without a
+   * password the account is created inactive, as an invite, until an admin
+   * sets a password and activates it from the Users screen.
+   */
+  static async upsertBrandUser(
+    brand: { _id: unknown; name: string },
+    credentials: BrandUserCredentials
+  ): Promise<{ user: IUser; invited: boolean }> {
+    const existing = await User.findOne({ email: credentials.email, brandId: brand._id })
+    if (existing) {
+      if (credentials.password) {
+        existing.password = credentials.password
+        await existing.save()
+      }
+      return { user: existing, invited: false }
+    }
+
+    const user = new User({
+      email: credentials.email,
+      password: credentials.password || crypto.randomBytes(24).toString('hex'),
+      name: `${brand.name} ${credentials.role === 'owner' ? 'Owner' : 'Manager'}`,
+      role: credentials.role,
+      brandId: brand._id,
+      status: credentials.password ? 'active' : 'inactive'
+    })
+    await user.save()
+
+    return { user, invited: !credentials.password }
+  }
+
+  /**
+   * Deactivate the login a brand's owner or manager had before their email
+   * was changed on the brand, signing it out of any open sessions (see
+   * getSession). The account is kept for its history.
+   */
+  static async deactivateBrandUser(brandId: unknown, role: BrandUserRole, email: string): Promise<IUser | null> {
+    // An update skips the model's save hook, so the session version is bumped here;
+    // reactivating the account later must not bring the old sessions back
+    return User.findOneAndUpdate(
+      { email, brandId, role, status: { $ne: 'inactive' } },
+      { $set: { status: 'inactive' }, $inc: { sessionVersion: 1 } },
+      { new: true }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { Store } from '@/lib/database/models'
 import { Types } from 'mongoose'
+import { NotificationService } from './notification-service'
 
 export interface VerificationAttempt {
   verificationId?: string
@@ -116,6 +117,8 @@ export class VerificationService {
         }
       }
 
+      const previous = await Store.findById(storeId).select('brandId name verified').lean()
+
       const result = await Store.updateOne(
         { 
           _id: storeId,
@@ -127,6 +130,11 @@ export class VerificationService {
         }
       )
 
+      if (result.modifiedCount > 0 && previous && Boolean(previous.verified) !== success) {
+        await NotificationService.verificationChanged(previous, success)
+          .catch(error => console.error('Error sending verification notification:', error))
+      }
+
       return result.modifiedCount > 0
     } catch (error) {
       console.error('Error completing verification attempt:', error)
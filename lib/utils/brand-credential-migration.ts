@@ -0,0 +1,116 @@
+/**
+ * Brand Credential Migration
+ *
+ * Brands used to carry their owner/manager logins on the brand document
+ * (users.owner.password, users.manager.password). This moves each of those
+ * credentials to a User record and strips the password from the brand.
+ * The stored values are already bcrypt hashes, so they are written straight
+ * to the collection to skip the User model's hashing hook.
+ */
+
+import mongoose from 'mongoose'
+import { Brand } from '@/lib/database/models'
+import { User } from '@/lib/database/user-model'
+import { connectToDatabase } from '@/lib/database/connection'
+
+export interface BrandCredentialMigrationStats {
+  brandsProcessed: number
+  usersCreated: number
+  usersAlreadyPresent: number
+  placeholdersRemoved: number
+  errors: string[]
+}
+
+const BRAND_ROLES = ['owner', 'manager'] as const
+const BCRYPT_HASH = /^\$2[aby]\$\d{2}\$/
+
+const HAS_LEGACY_PASSWORD = {
+  $or: [
+    { 'users.owner.password': { $exists: true } },
+    { 'users.manager.password': { $exists: true } }
+  ]
+}
+
+export async function migrateBrandCredentials(
+  filter: Record<string, unknown> = {}
+): Promise<BrandCredentialMigrationStats> {
+  await connectToDatabase()
+
+  const stats: BrandCredentialMigrationStats = {
+    brandsProcessed: 0,
+    usersCreated: 0,
+    usersAlreadyPresent: 0,
+    placeholdersRemoved: 0,
+    errors: []
+  }
+
+  // The password paths are no longer in the Brand schema, so read the raw documents
+  const brands = await Brand.collection
+    .find({ $and: [filter, HAS_LEGACY_PASSWORD] })
+    .project({ name: 1, users: 1 })
+    .toArray()
+
+  for (const brand of brands) {
+    stats.brandsProcessed++
+    const unset: Record<string, ''> = {}
+
+    for (const role of BRAND_ROLES) {
+      const credentials = brand.users?.[role]
+      if (!credentials?.password) continue
+
+      // Placeholders such as 'gmb-auto-generated' were never valid logins
+      if (!credentials.email || !BCRYPT_HASH.test(String(credentials.password))) {
+        unset[`users.${role}.password`] = ''
+        stats.placeholdersRemoved++
+        continue
+      }
+
+      try {
+        const email = String(credentials.email).toLowerCase()
+        const existing = await User.findOne({ email }).select('brandId').lean()
+
+        if (existing) {
+          // Never take over a login that belongs to someone else
+          if (String(existing.brandId) !== String(brand._id)) {
+            stats.errors.push(`Brand ${brand.name}: ${email} is already used by another account, ${role} password kept`)
+            continue
+          }
+          stats.usersAlreadyPresent++
+        } else {
+          const now = new Date()
+          await User.collection.insertOne({
+            email,
+            password: credentials.password,
+            name: `${brand.name} ${role === 'owner' ? 'Owner' : 'Manager'}`,
+            role,
+            brandId: new mongoose.Types.ObjectId(String(brand._id)),
+            status: 'active',
+            createdAt: now,
+            updatedAt: now
+          })
+          stats.usersCreated++
+        }
+
+        unset[`users.${role}.password`] = ''
+      } catch (error) {
+        const errorMsg = `Error migrating ${role} of brand ${brand.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        console.error(errorMsg)
+        stats.errors.push(errorMsg)
+      }
+    }
+
+    if (Object.keys(unset).length > 0) {
+      await Brand.collection.updateOne({ _id: brand._id }, { $unset: unset })
+    }
+  }
+
+  return stats
+}
+
+/**
+ * Number of brands that still store a password on the brand document
+ */
+export async function countBrandsWithCredentials(): Promise<number> {
+  await connectToDatabase()
+  return Brand.collection.countDocuments(HAS_LEGACY_PASSWORD)
+}
@@ -0,0 +1,21 @@
+import crypto from 'crypto'
+import { NextRequest } from 'next/server'
+import { getSession } from './session'
+
+/**
+ * Background job endpoints are called by an external scheduler with
+ * `Authorization: Bearer $CRON_SECRET`, or triggered manually by a super admin.
+ */
+export async function isAuthorizedJobRequest(request: NextRequest): Promise<boolean> {
+  const secret = process.env.CRON_SECRET
+  if (secret) {
+    const expected = Buffer.from(`Bearer ${secret}`)
+    const received = Buffer.from(request.headers.get('authorization') || '')
+    if (received.length === expected.length && crypto.timingSafeEqual(received, expected)) {
+      return true
+    }
+  }
+
+  const session = await getSession()
+  return session?.role === 'super_admin'
+}
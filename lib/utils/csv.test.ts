@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { escapeCsvValue, neutralizeFormula, toCsvRow } from './csv'
+
+describe('neutralizeFormula', () => {
+  it.each(['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])('quotes %j', text => {
+    expect(neutralizeFormula(text)).toBe(`'${text}`)
+  })
+
+  it('leaves other text alone', () => {
+    expect(neutralizeFormula('Great service')).toBe('Great service')
+    expect(neutralizeFormula("'=already quoted")).toBe("'=already quoted")
+  })
+})
+
+describe('escapeCsvValue', () => {
+  it('neutralizes formulas in text before quoting', () => {
+    expect(escapeCsvValue('=1+1')).toBe("'=1+1")
+    expect(escapeCsvValue('=A1,B1')).toBe(`"'=A1,B1"`)
+  })
+
+  it('writes numbers and dates as is', () => {
+    expect(escapeCsvValue(-5)).toBe('-5')
+    expect(escapeCsvValue(new Date('2025-01-02T00:00:00Z'))).toBe('2025-01-02T00:00:00.000Z')
+  })
+
+  it('builds CRLF terminated rows', () => {
+    expect(toCsvRow(['a', 'b "c"', null])).toBe('a,"b ""c""",\r\n')
+  })
+})
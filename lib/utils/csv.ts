@@ -0,0 +1,44 @@
+// CSV helpers shared by the export endpoints
+
+export type CsvValue = string | number | boolean | Date | null | undefined
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+/**
+ * Prefix text a spreadsheet would read as a formula with a quote, so exported
+ * user content (review comments, names, addresses) is only ever shown as text
+ */
+export function neutralizeFormula(text: string): string {
+  return FORMULA_PREFIXES.some(prefix => text.startsWith(prefix)) ? `'${text}` : text
+}
+
+/**
+ * Escape a single value per RFC 4180 (quotes, commas, newlines). Text that
+ * looks like a formula is neutralized; numbers and dates are written as is.
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'string' ? neutralizeFormula(value) : String(value)
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+
+  return text
+}
+
+/**
+ * Build a CSV line (including the trailing CRLF)
+ */
+export function toCsvRow(values: CsvValue[]): string {
+  return values.map(escapeCsvValue).join(',') + '\r\n'
+}
+
+/**
+ * UTF-8 byte order mark so Excel opens exports with the right encoding
+ */
+export const CSV_BOM = '\uFEFF'
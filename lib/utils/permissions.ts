@@ -17,6 +17,7 @@ export const PERMISSIONS = {
     
     // Reviews
     replyToReview: true,
+    draftReply: true,
     deleteReview: true,
     viewAllReviews: true,
     
@@ -52,6 +53,7 @@ export const PERMISSIONS = {
     
     // Reviews (only their brand's)
     replyToReview: true,
+    draftReply: true,
     deleteReview: false,
     viewAllReviews: false,
     
@@ -85,8 +87,9 @@ export const PERMISSIONS = {
     deleteStore: false,
     viewAllStores: false,
     
-    // Reviews (view only)
+    // Reviews (view, and draft replies for an owner to approve)
     replyToReview: false,
+    draftReply: true,
     deleteReview: false,
     viewAllReviews: false,
     
@@ -108,8 +111,10 @@ export const PERMISSIONS = {
   }
 }
 
+export type PermissionKey = keyof typeof PERMISSIONS.super_admin
+
 // Helper function to check if user has permission
-export function hasPermission(role: UserRole, permission: keyof typeof PERMISSIONS.super_admin): boolean {
+export function hasPermission(role: UserRole, permission: PermissionKey): boolean {
   return PERMISSIONS[role]?.[permission] || false
 }
 
@@ -124,7 +129,7 @@ export function canAccessBrand(userRole: UserRole, userBrandId: string | undefin
 
 // Check if role can perform action
 export function canPerformAction(role: UserRole, action: string): boolean {
-  const actionMap: Record<string, keyof typeof PERMISSIONS.super_admin> = {
+  const actionMap: Record<string, PermissionKey> = {
     'create_brand': 'createBrand',
     'edit_brand': 'editBrand',
     'delete_brand': 'deleteBrand',
@@ -132,6 +137,7 @@ export function canPerformAction(role: UserRole, action: string): boolean {
     'edit_store': 'editStore',
     'delete_store': 'deleteStore',
     'reply_review': 'replyToReview',
+    'draft_reply': 'draftReply',
     'delete_review': 'deleteReview',
     'create_post': 'createPost',
     'edit_post': 'editPost',
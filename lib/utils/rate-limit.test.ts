@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getClientIp } from './rate-limit'
+
+const requestWith = (headers: Record<string, string>) => new NextRequest('http://localhost/api/enquiries', { headers })
+
+describe('getClientIp', () => {
+  it('uses the entry appended by the proxy, not one the client sent', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7' }))).toBe('203.0.113.7')
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7')
+  })
+
+  it('falls back to x-real-ip, then unknown', () => {
+    expect(getClientIp(requestWith({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8')
+    expect(getClientIp(requestWith({}))).toBe('unknown')
+  })
+})
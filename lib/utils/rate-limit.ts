@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server'
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number
+}
+
+interface RateLimitBucket {
+  hits: number[]
+}
+
+/**
+ * Global is used here so the buckets survive hot reloads in development,
+ * the same way the mongoose connection is cached.
+ */
+const globalWithRateLimit = global as typeof globalThis & {
+  _rateLimitBuckets?: Map<string, RateLimitBucket>
+}
+
+if (!globalWithRateLimit._rateLimitBuckets) {
+  globalWithRateLimit._rateLimitBuckets = new Map()
+}
+
+const buckets = globalWithRateLimit._rateLimitBuckets
+
+/**
+ * Sliding-window rate limiter keyed by an arbitrary string (e.g. "enquiry:1.2.3.4").
+ * State is kept in process memory, so limits apply per server instance.
+ */
+export function checkRateLimit(key: string, limit: number, windowMs: number): RateLimitResult {
+  const now = Date.now()
+  const bucket = buckets.get(key) || { hits: [] }
+
+  bucket.hits = bucket.hits.filter(timestamp => now - timestamp < windowMs)
+
+  if (bucket.hits.length >= limit) {
+    buckets.set(key, bucket)
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: Math.ceil((bucket.hits[0] + windowMs - now) / 1000)
+    }
+  }
+
+  bucket.hits.push(now)
+  buckets.set(key, bucket)
+
+  // Opportunistically drop stale buckets so memory doesn't grow unbounded
+  if (buckets.size > 10000) {
+    for (const [bucketKey, value] of buckets) {
+      if (value.hits.every(timestamp => now - timestamp >= windowMs)) {
+        buckets.delete(bucketKey)
+      }
+    }
+  }
+
+  return {
+    allowed: true,
+    remaining: limit - bucket.hits.length,
+    retryAfterSeconds: 0
+  }
+}
+
+// Reverse proxies in front of the app that append to X-Forwarded-For (load balancer, CDN, ...)
+const TRUSTED_PROXY_HOPS = Math.max(1, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS)) || 1)
+
+/**
+ * Client IP as seen by the outermost trusted proxy. Clients can send their own
+ * X-Forwarded-For, so only the entries our proxies appended, at the right end,
+ * are believed.
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean)
+    const clientIp = hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)]
+    if (clientIp) return clientIp
+  }
+
+  // Set by the platform or proxy when there is no X-Forwarded-For
+  return request.headers.get('x-real-ip') || 'unknown'
+}
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import mongoose from 'mongoose'
+import { UserRole } from '@/lib/database/user-model'
+import { PermissionKey } from './permissions'
+import { SessionData, getSession } from './session'
+import { checkRouteAccess, RoutePolicy, withRouteGuard } from './route-guard'
+import { ROUTE_POLICIES, RouteKey } from './route-policies'
+
+vi.mock('./session', () => ({ getSession: vi.fn() }))
+vi.mock('@/lib/database/connection', () => ({ default: vi.fn(async () => undefined) }))
+
+const ROLES: UserRole[] = ['super_admin', 'owner', 'manager']
+
+// Written out independently of PERMISSIONS so a change there has to be matched here
+const ROLES_WITH_PERMISSION: Record<PermissionKey, UserRole[]> = {
+  createBrand: ['super_admin'],
+  editBrand: ['super_admin', 'owner'],
+  deleteBrand: ['super_admin'],
+  viewAllBrands: ['super_admin'],
+  createStore: ['super_admin', 'owner'],
+  editStore: ['super_admin', 'owner'],
+  deleteStore: ['super_admin', 'owner'],
+  viewAllStores: ['super_admin'],
+  replyToReview: ['super_admin', 'owner'],
+  draftReply: ['super_admin', 'owner', 'manager'],
+  deleteReview: ['super_admin'],
+  viewAllReviews: ['super_admin'],
+  createPost: ['super_admin', 'owner'],
+  editPost: ['super_admin', 'owner'],
+  deletePost: ['super_admin', 'owner'],
+  viewAllPosts: ['super_admin'],
+  createUser: ['super_admin'],
+  editUser: ['super_admin'],
+  deleteUser: ['super_admin'],
+  viewAllUsers: ['super_admin'],
+  viewSystemSettings: ['super_admin'],
+  editSystemSettings: ['super_admin'],
+}
+
+const OWN_BRAND = new mongoose.Types.ObjectId().toString()
+const OTHER_BRAND = new mongoose.Types.ObjectId().toString()
+
+const sessionFor = (role: UserRole): SessionData => ({
+  userId: new mongoose.Types.ObjectId().toString(),
+  email: `${role}@example.com`,
+  name: role,
+  role,
+  brandId: role === 'super_admin' ? undefined : OWN_BRAND,
+})
+
+const policyEntries = Object.entries(ROUTE_POLICIES) as [RouteKey, RoutePolicy][]
+const guardedRoutes = policyEntries.filter(([, policy]) => !policy.access)
+
+/**
+ * What a role should get from a route, worked out from the policy table rather than the guard
+ */
+function expectedStatus(policy: RoutePolicy, role: UserRole, targetBrandId?: string): 200 | 403 {
+  if (policy.roles && !policy.roles.includes(role)) return 403
+  if (policy.permission && !ROLES_WITH_PERMISSION[policy.permission].includes(role)) return 403
+  if (policy.brand.scope === 'none' || role === 'super_admin') return 200
+  return !targetBrandId || targetBrandId === OWN_BRAND ? 200 : 403
+}
+
+function requestFor(key: RouteKey, params: Record<string, string>, search = ''): NextRequest {
+  const [method, path] = key.split(' ')
+  const url = path.replace(/\[(\w+)\]/g, (_, name) => params[name] ?? name)
+  return new NextRequest(`http://localhost${url}${search}`, { method })
+}
+
+const okHandler = async (_request: NextRequest, _context: unknown, guard: { brandId?: string }) =>
+  Response.json({ success: true, brandId: guard.brandId ?? null })
+
+describe('checkRouteAccess', () => {
+  it('requires a session on every guarded route', () => {
+    for (const [, policy] of guardedRoutes) {
+      expect(checkRouteAccess(policy, null, OWN_BRAND)).toMatchObject({ allowed: false, status: 401 })
+    }
+  })
+
+  for (const role of ROLES) {
+    for (const [label, target] of [['own brand', OWN_BRAND], ['other brand', OTHER_BRAND]] as const) {
+      it(`gives ${role} the expected access on every route for their ${label}`, () => {
+        const session = sessionFor(role)
+
+        for (const [key, policy] of guardedRoutes) {
+          const result = checkRouteAccess(policy, session, target)
+          const expected = expectedStatus(policy, role, target)
+
+          if (expected === 200) {
+            expect(result.allowed, key).toBe(true)
+            if (result.allowed && policy.brand.scope !== 'none') {
+              // Owners and managers are always pinned to their own brand
+              expect(result.brandId, key).toBe(role === 'super_admin' ? target : OWN_BRAND)
+            }
+          } else {
+            expect(result, key).toMatchObject({ allowed: false, status: 403 })
+          }
+        }
+      })
+    }
+  }
+
+  it('denies brand-scoped routes to accounts without a brand', () => {
+    const session = { ...sessionFor('owner'), brandId: undefined }
+
+    for (const [key, policy] of guardedRoutes) {
+      if (policy.brand.scope === 'none' || expectedStatus(policy, 'owner') === 403) continue
+      expect(checkRouteAccess(policy, session, OWN_BRAND), key).toMatchObject({ allowed: false, status: 403 })
+    }
+  })
+})
+
+describe('withRouteGuard', () => {
+  const mockedGetSession = vi.mocked(getSession)
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllEnvs()
+    mockedGetSession.mockReset()
+  })
+
+  /**
+   * Point every record lookup at a document of the given brand (or at nothing)
+   */
+  function mockRecordBrand(brandId: string | null) {
+    const findById = vi.spyOn(mongoose.Model, 'findById').mockImplementation((() => ({
+      select: () => ({ lean: async () => (brandId ? { brandId: new mongoose.Types.ObjectId(brandId) } : null) })
+    })) as any)
+    return findById
+  }
+
+  const paramRoutes = guardedRoutes.filter(([, policy]) => policy.brand.scope === 'param')
+  const recordRoutes = guardedRoutes.filter(([, policy]) => policy.brand.scope === 'record')
+
+  it('covers param- and record-scoped routes', () => {
+    expect(paramRoutes.length).toBeGreaterThan(0)
+    expect(recordRoutes.length).toBeGreaterThan(0)
+  })
+
+  for (const role of ROLES) {
+    for (const [label, target] of [['own brand', OWN_BRAND], ['other brand', OTHER_BRAND]] as const) {
+      it(`scopes param routes for ${role} on their ${label}`, async () => {
+        mockedGetSession.mockResolvedValue(sessionFor(role))
+
+        for (const [key, policy] of paramRoutes) {
+          if (policy.brand.scope !== 'param') continue
+          const params = { [policy.brand.param]: target }
+          const response = await withRouteGuard(key, okHandler as any)(requestFor(key, params), { params: Promise.resolve(params) })
+          const expected = expectedStatus(policy, role, target)
+
+          expect(response.status, key).toBe(expected)
+          if (expected === 200) {
+            expect((await response.json()).brandId, key).toBe(role === 'super_admin' ? target : OWN_BRAND)
+          }
+        }
+      })
+
+      it(`scopes record routes for ${role} on a record of their ${label}`, async () => {
+        mockedGetSession.mockResolvedValue(sessionFor(role))
+        mockRecordBrand(target)
+
+        for (const [key, policy] of recordRoutes) {
+          if (policy.brand.scope !== 'record') continue
+          const params = { [policy.brand.param]: new mongoose.Types.ObjectId().toString() }
+          const response = await withRouteGuard(key, okHandler as any)(requestFor(key, params), { params: Promise.resolve(params) })
+          const expected = expectedStatus(policy, role, target)
+
+          expect(response.status, key).toBe(expected)
+          if (expected === 200) {
+            expect((await response.json()).brandId, key).toBe(target)
+          }
+        }
+      })
+    }
+  }
+
+  it('returns the not-found message for missing records without calling the handler', async () => {
+    mockedGetSession.mockResolvedValue(sessionFor('super_admin'))
+    mockRecordBrand(null)
+    const handler = vi.fn(okHandler)
+
+    for (const [key, policy] of recordRoutes) {
+      if (policy.brand.scope !== 'record') continue
+      const params = { [policy.brand.param]: new mongoose.Types.ObjectId().toString() }
+      const response = await withRouteGuard(key, handler as any)(requestFor(key, params), { params: Promise.resolve(params) })
+
+      expect(response.status, key).toBe(404)
+      expect((await response.json()).error, key).toBe(policy.brand.notFound)
+    }
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('checks role and permission before looking a record up', async () => {
+    mockedGetSession.mockResolvedValue(sessionFor('manager'))
+    const findById = mockRecordBrand(OWN_BRAND)
+
+    const response = await withRouteGuard('DELETE /api/reviews/[id]', okHandler as any)(
+      requestFor('DELETE /api/reviews/[id]', { id: OWN_BRAND }),
+      { params: Promise.resolve({ id: OWN_BRAND }) }
+    )
+
+    expect(response.status).toBe(403)
+    expect(findById).not.toHaveBeenCalled()
+  })
+
+  it('pins owners to their brand on request-scoped routes', async () => {
+    mockedGetSession.mockResolvedValue(sessionFor('owner'))
+    const guarded = withRouteGuard('GET /api/audits', okHandler as any)
+
+    const own = await guarded(requestFor('GET /api/audits', {}, `?brandId=${OWN_BRAND}`), { params: Promise.resolve({}) })
+    const other = await guarded(requestFor('GET /api/audits', {}, `?brandId=${OTHER_BRAND}`), { params: Promise.resolve({}) })
+    const unnamed = await guarded(requestFor('GET /api/audits', {}), { params: Promise.resolve({}) })
+
+    expect(own.status).toBe(200)
+    expect(other.status).toBe(403)
+    expect((await unnamed.json()).brandId).toBe(OWN_BRAND)
+  })
+
+  describe('job routes', () => {
+    const jobRoutes = policyEntries.filter(([, policy]) => policy.access === 'job')
+
+    const callJob = (key: RouteKey, authorization?: string) => {
+      const [method, path] = key.split(' ')
+      const request = new NextRequest(`http://localhost${path}`, {
+        method,
+        headers: authorization ? { authorization } : undefined
+      })
+      return withRouteGuard(key, okHandler as any)(request, { params: Promise.resolve({}) })
+    }
+
+    beforeEach(() => {
+      vi.stubEnv('CRON_SECRET', 'cron-secret')
+      mockedGetSession.mockResolvedValue(null)
+    })
+
+    it('accept the cron secret', async () => {
+      for (const [key] of jobRoutes) {
+        expect((await callJob(key, 'Bearer cron-secret')).status, key).toBe(200)
+      }
+    })
+
+    it('reject a wrong or missing secret', async () => {
+      for (const [key] of jobRoutes) {
+        expect((await callJob(key, 'Bearer wrong-secret')).status, key).toBe(401)
+        expect((await callJob(key, 'Bearer cron-secreT')).status, key).toBe(401)
+        expect((await callJob(key)).status, key).toBe(401)
+      }
+    })
+
+    it('accept super admins and reject everyone else', async () => {
+      for (const role of ROLES) {
+        mockedGetSession.mockResolvedValue(sessionFor(role))
+        for (const [key] of jobRoutes) {
+          expect((await callJob(key)).status, `${role} ${key}`).toBe(role === 'super_admin' ? 200 : 401)
+        }
+      }
+    })
+  })
+})
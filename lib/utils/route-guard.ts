@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import connectDB from '@/lib/database/connection'
+import { Store } from '@/lib/database/models'
+import { UserRole } from '@/lib/database/user-model'
+import { getSession, SessionData } from './session'
+import { canAccessBrand, hasPermission, PermissionKey } from './permissions'
+import { isAuthorizedJobRequest } from './cron-auth'
+import { ROUTE_POLICIES, RouteKey } from './route-policies'
+
+/**
+ * How a route decides which brand a request touches
+ */
+export type BrandRule =
+  // Not tied to a brand (system maintenance, Google account connection, lookups)
+  | { scope: 'none' }
+  // Optional `brandId` in the query string or JSON body. Owners and managers are
+  // pinned to their own brand; super admins may name any brand, or none for all.
+  | { scope: 'request' }
+  // The brand id is a dynamic route segment, e.g. /api/ivr-calls/[brandId]
+  | { scope: 'param'; param: string }
+  // The brand of the record addressed by a dynamic route segment
+  | { scope: 'record'; param: string; notFound: string; resolve: (id: string) => Promise<string | null> }
+
+export interface RoutePolicy {
+  // Signed-in users by default; `public` skips all checks, `job` accepts the cron secret
+  access?: 'public' | 'job'
+  roles?: UserRole[]
+  permission?: PermissionKey
+  brand: BrandRule
+}
+
+export interface GuardContext<S extends SessionData | null = SessionData> {
+  session: S
+  // Brand the handler must scope to. Always set for owners and managers on
+  // brand-scoped routes; undefined when a super admin asks for every brand.
+  brandId?: string
+}
+
+export type AccessResult =
+  | { allowed: true; brandId?: string }
+  | { allowed: false; status: 401 | 403; error: string }
+
+type SessionFor<K extends RouteKey> = (typeof ROUTE_POLICIES)[K] extends { access: 'public' | 'job' }
+  ? SessionData | null
+  : SessionData
+
+type RouteContext<P> = { params: Promise<P> }
+
+const BODY_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * Decide whether a session may call a route. `targetBrandId` is the brand the
+ * request names (or the brand of the record it addresses), if any.
+ */
+export function checkRouteAccess(policy: RoutePolicy, session: SessionData | null, targetBrandId?: string): AccessResult {
+  if (!session) {
+    return { allowed: false, status: 401, error: 'Authentication required' }
+  }
+
+  if (policy.roles && !policy.roles.includes(session.role)) {
+    return { allowed: false, status: 403, error: 'You do not have permission to perform this action' }
+  }
+
+  if (policy.permission && !hasPermission(session.role, policy.permission)) {
+    return { allowed: false, status: 403, error: 'You do not have permission to perform this action' }
+  }
+
+  if (policy.brand.scope === 'none') {
+    return { allowed: true }
+  }
+
+  if (session.role === 'super_admin') {
+    return { allowed: true, brandId: targetBrandId }
+  }
+
+  if (!session.brandId) {
+    return { allowed: false, status: 403, error: 'No brand is assigned to this account' }
+  }
+
+  if (targetBrandId && !canAccessBrand(session.role, session.brandId, targetBrandId)) {
+    return { allowed: false, status: 403, error: 'You do not have access to this brand' }
+  }
+
+  return { allowed: true, brandId: session.brandId }
+}
+
+/**
+ * Whether every given store belongs to the brand a request is scoped to.
+ * Handlers use this for store ids that arrive alongside a brand-scoped request.
+ */
+export async function storesInScope(storeIds: string | string[], brandId?: string): Promise<boolean> {
+  const ids = (Array.isArray(storeIds) ? storeIds : storeIds.split(',')).map(id => id.trim()).filter(Boolean)
+  if (ids.some(id => !mongoose.Types.ObjectId.isValid(id))) return false
+  if (!brandId || ids.length === 0) return true
+
+  const count = await Store.countDocuments({ _id: { $in: ids }, brandId })
+  return count === new Set(ids).size
+}
+
+async function requestedBrandId(request: NextRequest): Promise<string | undefined> {
+  const fromQuery = request.nextUrl.searchParams.get('brandId')
+  if (fromQuery && fromQuery !== 'all') return fromQuery
+
+  if (BODY_METHODS.includes(request.method) && request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.clone().json().catch(() => null)
+    if (body && typeof body.brandId === 'string' && body.brandId && body.brandId !== 'all') {
+      return body.brandId
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Wrap a route handler with the authentication, permission and brand-scoping
+ * rules declared for it in ROUTE_POLICIES.
+ */
+export function withRouteGuard<K extends RouteKey, P = Record<string, string>>(
+  key: K,
+  handler: (request: NextRequest, context: RouteContext<P>, guard: GuardContext<SessionFor<K>>) => Promise<Response>
+): (request: NextRequest, context: RouteContext<P>) => Promise<Response> {
+  const policy: RoutePolicy = ROUTE_POLICIES[key]
+
+  return async (request, context) => {
+    let guard: GuardContext<SessionData | null>
+
+    try {
+      if (policy.access === 'job') {
+        if (!(await isAuthorizedJobRequest(request))) {
+          return NextResponse.json(
+            { success: false, error: 'Unauthorized' },
+            { status: 401 }
+          )
+        }
+        guard = { session: await getSession() }
+      } else if (policy.access === 'public') {
+        guard = { session: await getSession() }
+      } else {
+        const session = await getSession()
+
+        // Role and permission first, so callers without rights never learn whether a record exists
+        const preliminary = checkRouteAccess(policy, session)
+        if (!preliminary.allowed) {
+          return NextResponse.json(
+            { success: false, error: preliminary.error },
+            { status: preliminary.status }
+          )
+        }
+
+        const rule = policy.brand
+        let targetBrandId: string | undefined
+
+        if (rule.scope === 'request') {
+          targetBrandId = await requestedBrandId(request)
+          if (targetBrandId && session!.role === 'super_admin' && !mongoose.Types.ObjectId.isValid(targetBrandId)) {
+            return NextResponse.json(
+              { success: false, error: 'Invalid brand' },
+              { status: 400 }
+            )
+          }
+        } else if (rule.scope === 'param' || rule.scope === 'record') {
+          const params = (await context.params) as Record<string, string>
+          const value = params[rule.param]
+
+          if (rule.scope === 'param') {
+            targetBrandId = value
+          } else {
+            await connectDB()
+            const brandId = await rule.resolve(value)
+            if (!brandId) {
+              return NextResponse.json(
+                { success: false, error: rule.notFound },
+                { status: 404 }
+              )
+            }
+            targetBrandId = brandId
+          }
+        }
+
+        const access = checkRouteAccess(policy, session, targetBrandId)
+        if (!access.allowed) {
+          return NextResponse.json(
+            { success: false, error: access.error },
+            { status: access.status }
+          )
+        }
+        guard = { session, brandId: access.brandId }
+      }
+    } catch (error) {
+      console.error(`Route guard failed for ${key}:`, error)
+      return NextResponse.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+
+    return handler(request, context, guard as GuardContext<SessionFor<K>>)
+  }
+}
@@ -0,0 +1,305 @@
+import mongoose from 'mongoose'
+import { Enquiry, PostCampaign, Review, Store } from '@/lib/database/models'
+import { ContentDraft } from '@/lib/database/content-models'
+import { CallbackTask } from '@/lib/database/ivr-models'
+import { NotificationRecipient } from '@/lib/database/notification-models'
+import { BrandReport } from '@/lib/database/report-models'
+import { TrackedKeyword } from '@/lib/database/rank-tracker-models'
+import { AutoReplyAction, AutoReplyRule, ReplyDraft, ReplyTemplate } from '@/lib/database/reply-models'
+import type { BrandRule, RoutePolicy } from './route-guard'
+
+/**
+ * Brand of a document addressed by its Mongo id in a dynamic route segment
+ */
+function recordOf(model: mongoose.Model<any>, notFound: string, param: string = 'id'): BrandRule {
+  return {
+    scope: 'record',
+    param,
+    notFound,
+    resolve: async id => {
+      if (!mongoose.Types.ObjectId.isValid(id)) return null
+      const record = await model.findById(id).select('brandId').lean<{ brandId?: mongoose.Types.ObjectId }>()
+      return record?.brandId ? String(record.brandId) : null
+    }
+  }
+}
+
+const PUBLIC = { access: 'public', brand: { scope: 'none' } } satisfies RoutePolicy
+
+// Any signed-in user; the route is not tied to a brand
+const SIGNED_IN = { brand: { scope: 'none' } } satisfies RoutePolicy
+
+// Any signed-in user, scoped to their own brand (super admins: any brand)
+const BRAND_MEMBER = { brand: { scope: 'request' } } satisfies RoutePolicy
+
+// Owners and super admins changing stores of their brand
+const STORE_EDITOR = { permission: 'editStore', brand: { scope: 'request' } } satisfies RoutePolicy
+
+// Pulling Google Business Profile data into the database with the caller's Google account
+const GMB_SYNC = { permission: 'editStore', brand: { scope: 'none' } } satisfies RoutePolicy
+
+// System maintenance and debugging
+const SYSTEM_ADMIN = { permission: 'editSystemSettings', brand: { scope: 'none' } } satisfies RoutePolicy
+
+/**
+ * Who may call each API route, keyed by "<METHOD> <route path>". Route handlers
+ * look up their entry through `withRouteGuard`, so every handler must be listed.
+ */
+export const ROUTE_POLICIES = {
+  // Admin
+  'POST /api/admin/cleanup-duplicates': SYSTEM_ADMIN,
+  'GET /api/admin/migrate-data': { permission: 'viewSystemSettings', brand: { scope: 'none' } },
+  'POST /api/admin/migrate-data': SYSTEM_ADMIN,
+
+  // Analytics
+  'GET /api/analytics/business-insights': BRAND_MEMBER,
+  'GET /api/analytics/call-reconciliation': BRAND_MEMBER,
+  'GET /api/analytics/impressions': BRAND_MEMBER,
+  'GET /api/analytics/ivr-calls': BRAND_MEMBER,
+  'GET /api/analytics/rating-reviews': BRAND_MEMBER,
+  'GET /api/analytics/sentiment': BRAND_MEMBER,
+  'POST /api/analytics/sentiment': BRAND_MEMBER,
+  'GET /api/analytics/sentiment/analyze': BRAND_MEMBER,
+  'POST /api/analytics/sentiment/analyze': BRAND_MEMBER,
+  'GET /api/analytics/sentiment/monthly': BRAND_MEMBER,
+  'GET /api/analytics/sentiment/status': BRAND_MEMBER,
+  'GET /api/analytics/sentiment/stores': BRAND_MEMBER,
+  'POST /api/analytics/sentiment/stores': BRAND_MEMBER,
+
+  // Audits
+  'GET /api/audits': BRAND_MEMBER,
+  'POST /api/audits/run': BRAND_MEMBER,
+  'GET /api/audits/stores/[storeId]': { brand: recordOf(Store, 'Store not found', 'storeId') },
+
+  // Auth
+  'GET /api/auth/[...nextauth]': PUBLIC,
+  'POST /api/auth/[...nextauth]': PUBLIC,
+  'POST /api/auth/admin-delete': { permission: 'deleteUser', brand: { scope: 'none' } },
+  'POST /api/auth/login': PUBLIC,
+  'POST /api/auth/logout': PUBLIC,
+  'POST /api/auth/register': { roles: ['super_admin', 'owner'], brand: { scope: 'request' } },
+  'POST /api/auth/seed-admin': PUBLIC,
+  'GET /api/auth/session': PUBLIC,
+
+  // Auto-reply rules (run is the worker that queues and posts replies)
+  'GET /api/auto-reply/actions': BRAND_MEMBER,
+  'POST /api/auto-reply/actions/[id]/cancel': { permission: 'replyToReview', brand: recordOf(AutoReplyAction, 'Auto-reply not found') },
+  'POST /api/auto-reply/dry-run': BRAND_MEMBER,
+  'GET /api/auto-reply/rules': BRAND_MEMBER,
+  'POST /api/auto-reply/rules': { permission: 'replyToReview', brand: { scope: 'request' } },
+  'GET /api/auto-reply/rules/[id]': { brand: recordOf(AutoReplyRule, 'Auto-reply rule not found') },
+  'PATCH /api/auto-reply/rules/[id]': { permission: 'replyToReview', brand: recordOf(AutoReplyRule, 'Auto-reply rule not found') },
+  'DELETE /api/auto-reply/rules/[id]': { permission: 'replyToReview', brand: recordOf(AutoReplyRule, 'Auto-reply rule not found') },
+  'POST /api/auto-reply/run': { access: 'job', brand: { scope: 'none' } },
+
+  // Google account connection (per user, stored in a cookie)
+  'GET /api/auth/gmb/auth-url': SIGNED_IN,
+  'GET /api/auth/gmb/callback': SIGNED_IN,
+  'POST /api/auth/gmb/disconnect': SIGNED_IN,
+  'POST /api/auth/gmb/refresh': SIGNED_IN,
+  'GET /api/auth/gmb/status': SIGNED_IN,
+  'GET /api/auth/gmb/tokens': SIGNED_IN,
+  'POST /api/auth/gmb/tokens': SIGNED_IN,
+  'GET /api/auth/gmb/user': SIGNED_IN,
+
+  // Brands
+  'GET /api/brands': BRAND_MEMBER,
+  'POST /api/brands': { permission: 'createBrand', brand: { scope: 'none' } },
+  'GET /api/brands/[id]': { brand: { scope: 'param', param: 'id' } },
+  'PUT /api/brands/[id]': { permission: 'editBrand', brand: { scope: 'param', param: 'id' } },
+  'DELETE /api/brands/[id]': { permission: 'deleteBrand', brand: { scope: 'param', param: 'id' } },
+  'POST /api/brands/upload': { permission: 'editBrand', brand: { scope: 'none' } },
+
+  // Missed-call callbacks
+  'GET /api/callbacks': BRAND_MEMBER,
+  'GET /api/callbacks/sla': BRAND_MEMBER,
+  'GET /api/callbacks/[id]': { brand: recordOf(CallbackTask, 'Callback not found') },
+  'PATCH /api/callbacks/[id]': { brand: recordOf(CallbackTask, 'Callback not found') },
+
+  // Content AI
+  'POST /api/content-ai/generate': BRAND_MEMBER,
+  'GET /api/content-ai/drafts': BRAND_MEMBER,
+  'POST /api/content-ai/drafts': BRAND_MEMBER,
+  'GET /api/content-ai/drafts/[id]': { brand: recordOf(ContentDraft, 'Draft not found') },
+  'PATCH /api/content-ai/drafts/[id]': { brand: recordOf(ContentDraft, 'Draft not found') },
+  'DELETE /api/content-ai/drafts/[id]': { brand: recordOf(ContentDraft, 'Draft not found') },
+  'POST /api/content-ai/drafts/[id]/apply': { permission: 'editStore', brand: recordOf(ContentDraft, 'Draft not found') },
+
+  // Debugging
+  'GET /api/debug/gmb-sync': SYSTEM_ADMIN,
+
+  // Enquiries (POST is the microsite enquiry form)
+  'GET /api/enquiries': BRAND_MEMBER,
+  'POST /api/enquiries': PUBLIC,
+  'GET /api/enquiries/[id]': { brand: recordOf(Enquiry, 'Enquiry not found') },
+  'PATCH /api/enquiries/[id]': { brand: recordOf(Enquiry, 'Enquiry not found') },
+  'GET /api/enquiries/assignees': BRAND_MEMBER,
+
+  // Google Business Profile
+  'GET /api/gmb/accounts': BRAND_MEMBER,
+  'GET /api/gmb/categories': SIGNED_IN,
+  'GET /api/gmb/categories/list': SIGNED_IN,
+  'GET /api/gmb/categories/sync': SIGNED_IN,
+  'POST /api/gmb/categories/sync': { permission: 'createStore', brand: { scope: 'none' } },
+  'GET /api/gmb/data/account': BRAND_MEMBER,
+  'GET /api/gmb/data/insights': BRAND_MEMBER,
+  'GET /api/gmb/data/keywords': BRAND_MEMBER,
+  'GET /api/gmb/data/locations': BRAND_MEMBER,
+  'GET /api/gmb/data/posts': BRAND_MEMBER,
+  'GET /api/gmb/data/reviews': BRAND_MEMBER,
+  'GET /api/gmb/data/stats': BRAND_MEMBER,
+  'GET /api/gmb/data/stores': BRAND_MEMBER,
+  'POST /api/gmb/reviews/[id]/reply': { permission: 'replyToReview', brand: recordOf(Review, 'Review not found') },
+  'GET /api/gmb/stores': SIGNED_IN,
+  // May create the brand the new location belongs to
+  'POST /api/gmb/stores': { permission: 'createBrand', brand: { scope: 'none' } },
+  'GET /api/gmb/stores/[id]': { brand: recordOf(Store, 'Store not found') },
+  'PUT /api/gmb/stores/[id]': { permission: 'editStore', brand: recordOf(Store, 'Store not found') },
+  'DELETE /api/gmb/stores/[id]': { permission: 'deleteStore', brand: recordOf(Store, 'Store not found') },
+
+  // Posts (live Google posts use the caller's Google account)
+  'GET /api/gmb/posts': SIGNED_IN,
+  'POST /api/gmb/posts': { permission: 'createPost', brand: { scope: 'none' } },
+  'GET /api/gmb/posts/[id]': SIGNED_IN,
+  'DELETE /api/gmb/posts/[id]': { permission: 'deletePost', brand: { scope: 'none' } },
+  'GET /api/gmb/posts/scheduled': BRAND_MEMBER,
+  'POST /api/gmb/posts/scheduled': { permission: 'createPost', brand: { scope: 'none' } },
+  'PATCH /api/gmb/posts/scheduled/[id]': { permission: 'editPost', brand: { scope: 'none' } },
+  'DELETE /api/gmb/posts/scheduled/[id]': { permission: 'deletePost', brand: { scope: 'none' } },
+  'POST /api/gmb/posts/scheduled/process': { access: 'job', brand: { scope: 'none' } },
+
+  // Multi-store post campaigns
+  'GET /api/gmb/campaigns': BRAND_MEMBER,
+  'POST /api/gmb/campaigns': { permission: 'createPost', brand: { scope: 'request' } },
+  'POST /api/gmb/campaigns/preview': { permission: 'createPost', brand: { scope: 'request' } },
+  'GET /api/gmb/campaigns/[id]': { brand: recordOf(PostCampaign, 'Campaign not found') },
+  'POST /api/gmb/campaigns/[id]/retry': { permission: 'createPost', brand: recordOf(PostCampaign, 'Campaign not found') },
+
+  // Sync
+  'POST /api/gmb/improved-sync': GMB_SYNC,
+  'POST /api/gmb/orchestrated-sync': GMB_SYNC,
+  'POST /api/gmb/resume-sync': GMB_SYNC,
+  'GET /api/gmb/sync-all': GMB_SYNC,
+  'POST /api/gmb/sync-all': GMB_SYNC,
+  'POST /api/gmb/sync-data': GMB_SYNC,
+  'POST /api/gmb/sync-posts': GMB_SYNC,
+  'POST /api/gmb/sync-stores': GMB_SYNC,
+  'POST /api/gmb/sync': GMB_SYNC,
+
+  // Location verification
+  'POST /api/gmb/complete-verification': STORE_EDITOR,
+  'POST /api/gmb/list-verifications': { permission: 'editStore', brand: { scope: 'none' } },
+  'POST /api/gmb/start-verification': STORE_EDITOR,
+  'POST /api/gmb/verification-options': { permission: 'editStore', brand: { scope: 'none' } },
+  'GET /api/gmb/verification-stats': BRAND_MEMBER,
+  'POST /api/gmb/verification-stats': STORE_EDITOR,
+  'POST /api/gmb/verify-bulk': STORE_EDITOR,
+  'POST /api/gmb/verify-store': STORE_EDITOR,
+  'POST /api/gmb/voice-of-merchant-state': { permission: 'editStore', brand: { scope: 'none' } },
+
+  // Health
+  'GET /api/health': PUBLIC,
+  'HEAD /api/health': PUBLIC,
+
+  // IVR (POST receives calls from the telephony provider)
+  'POST /api/ivr-calls/[brandId]': { access: 'public', brand: { scope: 'none' } },
+  'GET /api/ivr-calls/[brandId]': { brand: { scope: 'param', param: 'brandId' } },
+  'GET /api/ivr-calls/[brandId]/ingestion-logs': { permission: 'editBrand', brand: { scope: 'param', param: 'brandId' } },
+  'GET /api/ivr-calls/[brandId]/secret': { permission: 'editBrand', brand: { scope: 'param', param: 'brandId' } },
+  'POST /api/ivr-calls/[brandId]/secret': { permission: 'editBrand', brand: { scope: 'param', param: 'brandId' } },
+  'GET /api/ivr-providers': BRAND_MEMBER,
+  'GET /api/ivr-providers/[brandId]': { brand: { scope: 'param', param: 'brandId' } },
+  'PUT /api/ivr-providers/[brandId]': { permission: 'editBrand', brand: { scope: 'param', param: 'brandId' } },
+  'POST /api/ivr-providers/[brandId]/pull': { permission: 'editBrand', brand: { scope: 'param', param: 'brandId' } },
+  'POST /api/ivr-providers/pull': { access: 'job', brand: { scope: 'none' } },
+
+  // Notifications (process is the worker that retries deliveries and sends digests)
+  'GET /api/notifications': BRAND_MEMBER,
+  'POST /api/notifications/process': { access: 'job', brand: { scope: 'none' } },
+  'GET /api/notifications/recipients': { permission: 'editBrand', brand: { scope: 'request' } },
+  'POST /api/notifications/recipients': { permission: 'editBrand', brand: { scope: 'request' } },
+  'PATCH /api/notifications/recipients/[id]': { permission: 'editBrand', brand: recordOf(NotificationRecipient, 'Notification recipient not found') },
+  'DELETE /api/notifications/recipients/[id]': { permission: 'editBrand', brand: recordOf(NotificationRecipient, 'Notification recipient not found') },
+  'POST /api/notifications/recipients/[id]/test': { permission: 'editBrand', brand: recordOf(NotificationRecipient, 'Notification recipient not found') },
+
+  // Performance
+  'GET /api/performance': BRAND_MEMBER,
+  'POST /api/performance': STORE_EDITOR,
+  'GET /api/performance/competitive': BRAND_MEMBER,
+  'GET /api/performance/debug': SYSTEM_ADMIN,
+  'GET /api/performance/store-wise': BRAND_MEMBER,
+
+  // Posts stored in the database
+  'GET /api/posts': BRAND_MEMBER,
+  'POST /api/posts': { permission: 'createPost', brand: { scope: 'request' } },
+
+  // Rank tracker
+  'GET /api/rank-tracker/history': BRAND_MEMBER,
+  'GET /api/rank-tracker/keywords': BRAND_MEMBER,
+  'POST /api/rank-tracker/keywords': BRAND_MEMBER,
+  'PATCH /api/rank-tracker/keywords/[id]': { brand: recordOf(TrackedKeyword, 'Keyword not found') },
+  'DELETE /api/rank-tracker/keywords/[id]': { brand: recordOf(TrackedKeyword, 'Keyword not found') },
+  'POST /api/rank-tracker/keywords/[id]/check': { brand: recordOf(TrackedKeyword, 'Keyword not found') },
+  'POST /api/rank-tracker/run': { access: 'job', brand: { scope: 'none' } },
+
+  // Weekly brand reports (run is the job that generates and emails last week's reports)
+  'GET /api/reports': BRAND_MEMBER,
+  'POST /api/reports': { permission: 'editBrand', brand: { scope: 'request' } },
+  'POST /api/reports/run': { access: 'job', brand: { scope: 'none' } },
+  'GET /api/reports/[id]/download': { brand: recordOf(BrandReport, 'Report not found') },
+  'POST /api/reports/[id]/send': { permission: 'editBrand', brand: recordOf(BrandReport, 'Report not found') },
+
+  // Review reply templates
+  'GET /api/reply-templates': BRAND_MEMBER,
+  'POST /api/reply-templates': { permission: 'replyToReview', brand: { scope: 'request' } },
+  'GET /api/reply-templates/[id]': { brand: recordOf(ReplyTemplate, 'Reply template not found') },
+  'PATCH /api/reply-templates/[id]': { permission: 'replyToReview', brand: recordOf(ReplyTemplate, 'Reply template not found') },
+  'DELETE /api/reply-templates/[id]': { permission: 'replyToReview', brand: recordOf(ReplyTemplate, 'Reply template not found') },
+  'POST /api/reply-templates/[id]/render': { permission: 'draftReply', brand: recordOf(ReplyTemplate, 'Reply template not found') },
+
+  // Reply drafts (managers draft, owners approve)
+  'GET /api/reply-drafts': BRAND_MEMBER,
+  'DELETE /api/reply-drafts/[id]': { permission: 'draftReply', brand: recordOf(ReplyDraft, 'Reply draft not found') },
+  'POST /api/reply-drafts/[id]/approve': { permission: 'replyToReview', brand: recordOf(ReplyDraft, 'Reply draft not found') },
+  'POST /api/reply-drafts/[id]/reject': { permission: 'replyToReview', brand: recordOf(ReplyDraft, 'Reply draft not found') },
+
+  // Reviews
+  'GET /api/reviews': BRAND_MEMBER,
+  'POST /api/reviews': STORE_EDITOR,
+  'GET /api/reviews/[id]': { brand: recordOf(Review, 'Review not found') },
+  'PUT /api/reviews/[id]': { permission: 'replyToReview', brand: recordOf(Review, 'Review not found') },
+  'DELETE /api/reviews/[id]': { permission: 'deleteReview', brand: recordOf(Review, 'Review not found') },
+  'POST /api/reviews/[id]/draft': { permission: 'draftReply', brand: recordOf(Review, 'Review not found') },
+  'GET /api/reviews/export': BRAND_MEMBER,
+  'POST /api/reviews/generate-reply': { permission: 'draftReply', brand: { scope: 'none' } },
+  'OPTIONS /api/reviews/generate-reply': PUBLIC,
+  'GET /api/reviews/sentiment': BRAND_MEMBER,
+  'POST /api/reviews/sentiment': BRAND_MEMBER,
+
+  // Stores
+  'GET /api/stores': BRAND_MEMBER,
+  'POST /api/stores': { permission: 'createStore', brand: { scope: 'request' } },
+  'GET /api/stores/[id]': { brand: recordOf(Store, 'Store not found') },
+  'PUT /api/stores/[id]': { permission: 'editStore', brand: recordOf(Store, 'Store not found') },
+  'DELETE /api/stores/[id]': { permission: 'deleteStore', brand: recordOf(Store, 'Store not found') },
+  'GET /api/stores/export': BRAND_MEMBER,
+  'GET /api/stores/gmb': BRAND_MEMBER,
+  'POST /api/stores/upload': { permission: 'editStore', brand: { scope: 'none' } },
+  'DELETE /api/stores/upload': { permission: 'editStore', brand: { scope: 'none' } },
+  'GET /api/stores/with-performance': BRAND_MEMBER,
+
+  // Users
+  'GET /api/users': { permission: 'viewAllUsers', brand: { scope: 'request' } },
+  'POST /api/users': { permission: 'createUser', brand: { scope: 'none' } },
+  'GET /api/users/[id]': { permission: 'viewAllUsers', brand: { scope: 'none' } },
+  'PATCH /api/users/[id]': { permission: 'editUser', brand: { scope: 'none' } },
+  'DELETE /api/users/[id]': { permission: 'deleteUser', brand: { scope: 'none' } },
+
+  // Development helpers
+  'POST /api/test-db-save': SYSTEM_ADMIN,
+  'POST /api/test-gmb-extraction': SYSTEM_ADMIN,
+  'POST /api/test-store-flow': SYSTEM_ADMIN,
+  'POST /api/test-sync': SYSTEM_ADMIN,
+} satisfies Record<string, RoutePolicy>
+
+export type RouteKey = keyof typeof ROUTE_POLICIES
@@ -27,10 +27,10 @@ export interface ScoringMetrics {
   profileCompleteness: number // 0-100% based on filled fields
   qaActivity: number // Questions answered
   
-  // Competitive Context (optional - for future enhancement)
-  marketPosition?: number
-  consistency?: number
-  trendDirection?: number
+  // Competitive Context (0-100, see CompetitiveContextService)
+  marketPosition?: number // Percentile vs peer stores (same brand, city, category)
+  consistency?: number // Stability of views across Performance history
+  trendDirection?: number // Recent vs earlier views; 50 is flat
 }
 
 export interface ScoringBreakdown {
@@ -159,11 +159,10 @@ function calculateProfileScore(metrics: ScoringMetrics): number {
  * Calculate Competitive Context Component Score (10% weight)
  */
 function calculateCompetitiveScore(metrics: ScoringMetrics): number {
-  // For now, use default values since competitive data isn't available
-  // This can be enhanced with actual competitor analysis later
-  const marketPosition = metrics.marketPosition || 75 // Default to 75%
-  const consistency = metrics.consistency || 70 // Default to 70%
-  const trendDirection = metrics.trendDirection || 80 // Default to 80%
+  // Missing inputs (no peers or not enough history) count as neutral
+  const marketPosition = metrics.marketPosition ?? 50
+  const consistency = metrics.consistency ?? 50
+  const trendDirection = metrics.trendDirection ?? 50
   
   const totalScore = (marketPosition * 0.40) + (consistency * 0.30) + (trendDirection * 0.30)
   
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import mongoose from 'mongoose'
+import { cookies } from 'next/headers'
+import { User } from '@/lib/database/user-model'
+import { createSessionToken, getSession, SessionData } from './session'
+
+vi.mock('next/headers', () => ({ cookies: vi.fn() }))
+vi.mock('@/lib/database/connection', () => ({ default: vi.fn(async () => undefined) }))
+
+const USER_ID = new mongoose.Types.ObjectId().toString()
+const BRAND_ID = new mongoose.Types.ObjectId().toString()
+
+const claims: Omit<SessionData, 'iat' | 'exp'> = {
+  userId: USER_ID,
+  email: 'owner@example.com',
+  name: 'Owner',
+  role: 'owner',
+  brandId: BRAND_ID,
+  sessionVersion: 2
+}
+
+const storedUser = { role: 'owner', brandId: new mongoose.Types.ObjectId(BRAND_ID), status: 'active', sessionVersion: 2 }
+
+function signIn(token: string) {
+  vi.mocked(cookies).mockResolvedValue({ get: () => ({ value: token }) } as any)
+}
+
+function mockUser(user: Record<string, unknown> | null) {
+  return vi.spyOn(User, 'findById').mockReturnValue({ select: () => ({ lean: async () => user }) } as any)
+}
+
+describe('getSession', () => {
+  beforeEach(() => {
+    signIn(createSessionToken(claims))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('returns the session while the user still matches its claims', async () => {
+    const findById = mockUser(storedUser)
+
+    expect(await getSession()).toMatchObject(claims)
+    expect(findById).toHaveBeenCalledWith(USER_ID)
+  })
+
+  it.each([
+    ['deleted', null],
+    ['deactivated', { ...storedUser, status: 'inactive' }],
+    ['suspended', { ...storedUser, status: 'suspended' }],
+    ['given another role', { ...storedUser, role: 'manager' }],
+    ['moved to another brand', { ...storedUser, brandId: new mongoose.Types.ObjectId() }],
+    ['signed out everywhere', { ...storedUser, sessionVersion: 3 }],
+  ])('rejects the session of a user who was %s', async (_label, user) => {
+    mockUser(user)
+
+    expect(await getSession()).toBeNull()
+  })
+
+  it('treats tokens issued before session versions as version 0', async () => {
+    const { sessionVersion: _unused, ...legacyClaims } = claims
+    signIn(createSessionToken(legacyClaims))
+    mockUser({ ...storedUser, sessionVersion: undefined })
+
+    expect(await getSession()).toMatchObject(legacyClaims)
+  })
+
+  it('lets database failures surface instead of signing the user out', async () => {
+    vi.spyOn(User, 'findById').mockReturnValue({ select: () => ({ lean: async () => { throw new Error('connection closed') } }) } as any)
+
+    await expect(getSession()).rejects.toThrow('connection closed')
+  })
+})
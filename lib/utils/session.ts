@@ -1,6 +1,8 @@
 import { cookies } from 'next/headers'
 import jwt from 'jsonwebtoken'
-import { UserRole } from '../database/user-model'
+import mongoose from 'mongoose'
+import connectDB from '../database/connection'
+import { User, UserRole } from '../database/user-model'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 const SESSION_COOKIE_NAME = 'session-token'
@@ -11,6 +13,8 @@ export interface SessionData {
   name: string
   role: UserRole
   brandId?: string
+  // The user's sessionVersion when the token was issued
+  sessionVersion?: number
   iat?: number
   exp?: number
 }
@@ -51,10 +55,28 @@ export async function setSessionCookie(token: string): Promise<void> {
   })
 }
 
+/**
+ * Whether the user behind a session still has the role, brand and status it
+ * was issued for. Tokens live for 7 days, so a deactivated, deleted or
+ * reassigned user must not keep the access their token describes.
+ */
+export async function sessionMatchesUser(session: SessionData): Promise<boolean> {
+  await connectDB()
+  const user = await User.findById(session.userId).select('role brandId status sessionVersion').lean()
+
+  if (!user) return false
+
+  return user.status === 'active' &&
+    user.role === session.role &&
+    (user.brandId ? String(user.brandId) : undefined) === (session.brandId || undefined) &&
+    (user.sessionVersion || 0) === (session.sessionVersion || 0)
+}
+
 /**
  * Get session from cookies
  */
 export async function getSession(): Promise<SessionData | null> {
+  let session: SessionData | null
   try {
     const cookieStore = await cookies()
     const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)
@@ -63,11 +85,17 @@ export async function getSession(): Promise<SessionData | null> {
       return null
     }
 
-    return verifySessionToken(sessionCookie.value)
+    session = verifySessionToken(sessionCookie.value)
   } catch (error) {
     console.error('Error getting session:', error)
     return null
   }
+
+  // Outside the try so a database failure surfaces as an error, not as a signed-out user
+  if (!session || !mongoose.Types.ObjectId.isValid(session.userId)) {
+    return null
+  }
+  return await sessionMatchesUser(session) ? session : null
 }
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Token Encryption Migration
+ *
+ * Encrypts OAuth tokens stored before encryption at rest was enabled, and
+ * re-wraps tokens encrypted under a previous master key after a rotation.
+ * Safe to run repeatedly: values that are already current are left alone.
+ */
+
+import mongoose from 'mongoose'
+import { GmbAccount } from '@/lib/database/gmb-account-models'
+import { User } from '@/lib/database/user-model'
+import { connectToDatabase } from '@/lib/database/connection'
+import { isTokenEncryptionConfigured, reencryptToken } from './token-encryption'
+
+export interface TokenEncryptionStats {
+  gmbAccountsUpdated: number
+  usersUpdated: number
+  errors: string[]
+}
+
+const TOKEN_FIELDS = ['access_token', 'refresh_token'] as const
+
+// Both collections keep their tokens in a sub-document with the same fields
+const TOKEN_COLLECTIONS = [
+  { model: GmbAccount as mongoose.Model<any>, path: 'tokens', stat: 'gmbAccountsUpdated' },
+  { model: User as mongoose.Model<any>, path: 'gmbTokens', stat: 'usersUpdated' }
+] as const
+
+export async function encryptStoredTokens(): Promise<TokenEncryptionStats> {
+  if (!isTokenEncryptionConfigured()) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not configured')
+  }
+
+  await connectToDatabase()
+
+  const stats: TokenEncryptionStats = {
+    gmbAccountsUpdated: 0,
+    usersUpdated: 0,
+    errors: []
+  }
+
+  for (const { model, path, stat } of TOKEN_COLLECTIONS) {
+    // Raw documents, so the values are read exactly as stored
+    const cursor = model.collection.find(
+      { $or: TOKEN_FIELDS.map(field => ({ [`${path}.${field}`]: { $type: 'string' } })) },
+      { projection: { [path]: 1 } }
+    )
+
+    for await (const doc of cursor) {
+      try {
+        const update: Record<string, string> = {}
+        for (const field of TOKEN_FIELDS) {
+          const value = doc[path]?.[field]
+          if (typeof value !== 'string' || !value) continue
+
+          const updated = reencryptToken(value)
+          if (updated) update[`${path}.${field}`] = updated
+        }
+
+        if (Object.keys(update).length > 0) {
+          await model.collection.updateOne({ _id: doc._id }, { $set: update })
+          stats[stat]++
+        }
+      } catch (error) {
+        const errorMsg = `Error encrypting tokens of ${model.modelName} ${doc._id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        console.error(errorMsg)
+        stats.errors.push(errorMsg)
+      }
+    }
+  }
+
+  return stats
+}
+
+/**
+ * Number of documents that still hold a plaintext token
+ */
+export async function countUnencryptedTokens(): Promise<number> {
+  await connectToDatabase()
+
+  const counts = await Promise.all(TOKEN_COLLECTIONS.map(({ model, path }) =>
+    model.collection.countDocuments({
+      $or: TOKEN_FIELDS.map(field => ({
+        [`${path}.${field}`]: { $type: 'string', $not: /^enc:v1:/ }
+      }))
+    })
+  ))
+
+  return counts.reduce((total, count) => total + count, 0)
+}
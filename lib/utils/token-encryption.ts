@@ -0,0 +1,215 @@
+import crypto from 'crypto'
+
+/**
+ * Envelope encryption for OAuth tokens stored in MongoDB.
+ *
+ * Every value gets its own random data key, which encrypts the token with
+ * AES-256-GCM. The data key is in turn wrapped with a master key from the
+ * environment:
+ *
+ *   TOKEN_ENCRYPTION_KEY=<keyId>:<base64 32-byte key>          (active key)
+ *   TOKEN_ENCRYPTION_PREVIOUS_KEYS=<keyId>:<base64>,...        (decrypt only)
+ *
+ * To rotate, move the active key to TOKEN_ENCRYPTION_PREVIOUS_KEYS, set a new
+ * active key and run the "encrypt-tokens" migration, which re-wraps the data
+ * keys without touching the token ciphertext.
+ */
+
+const PREFIX = 'enc:v1'
+const ALGORITHM = 'aes-256-gcm'
+const IV_BYTES = 12
+const KEY_BYTES = 32
+
+interface MasterKey {
+  id: string
+  key: Buffer
+}
+
+interface Envelope {
+  keyId: string
+  wrappedKey: Buffer
+  iv: Buffer
+  tag: Buffer
+  ciphertext: Buffer
+}
+
+let warnedMissingKey = false
+
+function parseKey(value: string): MasterKey {
+  const separator = value.indexOf(':')
+  if (separator <= 0) {
+    throw new Error('Token encryption keys must be in the form <keyId>:<base64 key>')
+  }
+
+  const id = value.slice(0, separator).trim()
+  const key = Buffer.from(value.slice(separator + 1).trim(), 'base64')
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Token encryption key "${id}" must be ${KEY_BYTES} bytes`)
+  }
+  return { id, key }
+}
+
+function getActiveKey(): MasterKey | null {
+  const value = process.env.TOKEN_ENCRYPTION_KEY
+  return value ? parseKey(value) : null
+}
+
+function getKeyring(): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>()
+  const previous = (process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+
+  for (const value of previous) {
+    const { id, key } = parseKey(value)
+    keys.set(id, key)
+  }
+
+  const active = getActiveKey()
+  if (active) keys.set(active.id, active.key)
+  return keys
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return { iv, tag: cipher.getAuthTag(), ciphertext }
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+// The wrapped data key is stored as iv | tag | ciphertext
+function wrapDataKey(masterKey: Buffer, dataKey: Buffer): Buffer {
+  const { iv, tag, ciphertext } = seal(masterKey, dataKey)
+  return Buffer.concat([iv, tag, ciphertext])
+}
+
+function unwrapDataKey(masterKey: Buffer, wrappedKey: Buffer): Buffer {
+  const iv = wrappedKey.subarray(0, IV_BYTES)
+  const tag = wrappedKey.subarray(IV_BYTES, IV_BYTES + 16)
+  return open(masterKey, iv, tag, wrappedKey.subarray(IV_BYTES + 16))
+}
+
+function serialize(envelope: Envelope): string {
+  return [
+    PREFIX,
+    envelope.keyId,
+    envelope.wrappedKey.toString('base64'),
+    envelope.iv.toString('base64'),
+    envelope.tag.toString('base64'),
+    envelope.ciphertext.toString('base64')
+  ].join(':')
+}
+
+function deserialize(value: string): Envelope {
+  const parts = value.slice(PREFIX.length + 1).split(':')
+  if (parts.length !== 5) {
+    throw new Error('Malformed encrypted token')
+  }
+
+  const [keyId, wrappedKey, iv, tag, ciphertext] = parts
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, 'base64'),
+    iv: Buffer.from(iv, 'base64'),
+    tag: Buffer.from(tag, 'base64'),
+    ciphertext: Buffer.from(ciphertext, 'base64')
+  }
+}
+
+function masterKeyFor(keyId: string): Buffer {
+  const key = getKeyring().get(keyId)
+  if (!key) {
+    throw new Error(`Token encryption key "${keyId}" is not configured`)
+  }
+  return key
+}
+
+export function isEncryptedToken(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(`${PREFIX}:`)
+}
+
+/**
+ * Encrypt a token for storage. Already encrypted values are returned as is.
+ * Without a configured key, development stores plaintext and production fails.
+ */
+export function encryptToken(value: string | null | undefined): string | null | undefined {
+  if (value === null || value === undefined || value === '' || isEncryptedToken(value)) {
+    return value
+  }
+
+  const active = getActiveKey()
+  if (!active) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('TOKEN_ENCRYPTION_KEY is not configured')
+    }
+    if (!warnedMissingKey) {
+      console.warn('TOKEN_ENCRYPTION_KEY is not set, OAuth tokens are stored unencrypted')
+      warnedMissingKey = true
+    }
+    return value
+  }
+
+  const dataKey = crypto.randomBytes(KEY_BYTES)
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(value, 'utf8'))
+
+  return serialize({
+    keyId: active.id,
+    wrappedKey: wrapDataKey(active.key, dataKey),
+    iv,
+    tag,
+    ciphertext
+  })
+}
+
+/**
+ * Decrypt a stored token. Plaintext values written before encryption was
+ * enabled are returned unchanged.
+ */
+export function decryptToken(value: string | null | undefined): string | null | undefined {
+  if (!isEncryptedToken(value)) {
+    return value
+  }
+
+  const envelope = deserialize(value)
+  const dataKey = unwrapDataKey(masterKeyFor(envelope.keyId), envelope.wrappedKey)
+  return open(dataKey, envelope.iv, envelope.tag, envelope.ciphertext).toString('utf8')
+}
+
+/**
+ * Bring a stored value up to date: encrypt plaintext, and re-wrap the data key
+ * of values encrypted under a previous master key. Returns null when the value
+ * is already current.
+ */
+export function reencryptToken(value: string): string | null {
+  if (!isEncryptedToken(value)) {
+    const encrypted = encryptToken(value)
+    return encrypted && encrypted !== value ? encrypted : null
+  }
+
+  const active = getActiveKey()
+  const envelope = deserialize(value)
+  if (!active || envelope.keyId === active.id) {
+    return null
+  }
+
+  const dataKey = unwrapDataKey(masterKeyFor(envelope.keyId), envelope.wrappedKey)
+  return serialize({
+    ...envelope,
+    keyId: active.id,
+    wrappedKey: wrapDataKey(active.key, dataKey)
+  })
+}
+
+/**
+ * Whether an active encryption key is configured
+ */
+export function isTokenEncryptionConfigured(): boolean {
+  return getActiveKey() !== null
+}
@@ -1,19 +1,49 @@
-// Temporarily disabled middleware - will re-enable after testing
-// export { auth as middleware } from '@/lib/auth/auth'
-
-// export const config = {
-//   matcher: ['/dashboard/:path*'],
-// }
-
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 
+// Cheap first line of defence for the API. Every route handler is wrapped in
+// withRouteGuard (lib/utils/route-guard.ts), which does the real session,
+// permission and brand checks; this only turns away requests that carry no
+// credentials at all. It runs on the edge, so it cannot import the route
+// policies and keeps its own list of routes that are open to the public.
+const SESSION_COOKIE_NAME = 'session-token'
+
+function isPublicApiRequest(request: NextRequest): boolean {
+  const { pathname } = request.nextUrl
+  const method = request.method
+
+  if (method === 'OPTIONS') return true
+
+  // Sign-in, sign-out and the NextAuth handlers
+  if (pathname.startsWith('/api/auth/')) return true
+
+  if (pathname === '/api/health') return true
+
+  // Microsite enquiry form
+  if (pathname === '/api/enquiries' && method === 'POST') return true
+
+  // Call data pushed by the IVR provider, verified by its signature
+  if (/^\/api\/ivr-calls\/[^/]+$/.test(pathname) && method === 'POST') return true
+
+  return false
+}
+
 export function middleware(request: NextRequest) {
-  // Let all routes through for now
-  return NextResponse.next()
+  if (isPublicApiRequest(request)) {
+    return NextResponse.next()
+  }
+
+  // Scheduled jobs authenticate with a bearer token instead of a session
+  if (request.cookies.has(SESSION_COOKIE_NAME) || request.headers.has('authorization')) {
+    return NextResponse.next()
+  }
+
+  return NextResponse.json(
+    { success: false, error: 'Authentication required' },
+    { status: 401 }
+  )
 }
 
 export const config = {
-  matcher: [],
+  matcher: ['/api/:path*'],
 }
-
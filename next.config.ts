@@ -12,6 +12,8 @@ const nextConfig: NextConfig = {
     // Run linting separately if needed
     ignoreDuringBuilds: true,
   },
+  // pdfkit reads its font metrics from disk, so it must not be bundled
+  serverExternalPackages: ['pdfkit'],
   // Optimize bundle size
   experimental: {
     optimizePackageImports: ['lucide-react', '@radix-ui/react-dialog', '@radix-ui/react-dropdown-menu'],